@@ -35,6 +35,8 @@ export function clearTestDb(): void {
   if (!testDb) return;
 
   testDb.exec(`
+    DELETE FROM receipt_history;
+    DELETE FROM duplicate_dismissals;
     DELETE FROM receipt_flags;
     DELETE FROM receipt_files;
     DELETE FROM receipts;
@@ -43,6 +45,16 @@ export function clearTestDb(): void {
     DELETE FROM receipt_type_groups;
     DELETE FROM users;
     DELETE FROM settings;
+    DELETE FROM watch_imports;
+    DELETE FROM watch_imported_files;
+    DELETE FROM watch_folders WHERE path IS NOT NULL;
+    DELETE FROM import_rule_flags;
+    DELETE FROM import_rules;
+    DELETE FROM jobs;
+    DELETE FROM api_tokens;
+    DELETE FROM account_users;
+    DELETE FROM sessions;
+    DELETE FROM accounts;
   `);
 }
 
@@ -62,13 +74,14 @@ export function teardownTestDb(): void {
 export function createTestDbQueries(db: DatabaseType) {
   return {
     getReceiptById: db.prepare('SELECT * FROM receipts WHERE id = ?'),
-    getAllReceipts: db.prepare('SELECT * FROM receipts ORDER BY date DESC, created_at DESC'),
-    getReceiptsByUser: db.prepare('SELECT * FROM receipts WHERE user_id = ? ORDER BY date DESC, created_at DESC'),
+    getAllReceipts: db.prepare('SELECT * FROM receipts WHERE deleted_at IS NULL ORDER BY date DESC, created_at DESC'),
+    getReceiptsByUser: db.prepare('SELECT * FROM receipts WHERE user_id = ? AND deleted_at IS NULL ORDER BY date DESC, created_at DESC'),
     getReceiptsByReceiptType: db.prepare('SELECT * FROM receipts WHERE receipt_type_id = ?'),
+    getAllReceiptsByUser: db.prepare('SELECT * FROM receipts WHERE user_id = ?'),
     getReceiptsByFlag: db.prepare(`
       SELECT DISTINCT r.* FROM receipts r
       INNER JOIN receipt_flags rf ON r.id = rf.receipt_id
-      WHERE rf.flag_id = ?
+      WHERE rf.flag_id = ? AND r.deleted_at IS NULL
       ORDER BY r.date DESC, r.created_at DESC
     `),
     insertReceipt: db.prepare(`
@@ -80,14 +93,39 @@ export function createTestDbQueries(db: DatabaseType) {
       SET user_id = ?, receipt_type_id = ?, amount = ?, vendor = ?, provider_address = ?, description = ?, date = ?, notes = ?, updated_at = datetime('now')
       WHERE id = ?
     `),
+    updateReceiptReimbursement: db.prepare(`
+      UPDATE receipts
+      SET reimbursement_status = ?, reimbursed_date = ?, reimbursed_amount = ?, hsa_transaction_ref = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `),
     deleteReceipt: db.prepare('DELETE FROM receipts WHERE id = ?'),
-    getFilesByReceiptId: db.prepare('SELECT * FROM receipt_files WHERE receipt_id = ? ORDER BY file_order'),
+    trashReceipt: db.prepare("UPDATE receipts SET deleted_at = datetime('now') WHERE id = ?"),
+    restoreReceipt: db.prepare('UPDATE receipts SET deleted_at = NULL WHERE id = ?'),
+    getTrashedReceipts: db.prepare('SELECT * FROM receipts WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC, id DESC'),
+    getExpiredTrashedReceipts: db.prepare("SELECT * FROM receipts WHERE deleted_at IS NOT NULL AND deleted_at <= datetime('now', ?) ORDER BY id"),
+    getFilesByReceiptId: db.prepare('SELECT * FROM receipt_files WHERE receipt_id = ? AND deleted_at IS NULL ORDER BY file_order'),
+    getAllFilesByReceiptId: db.prepare('SELECT * FROM receipt_files WHERE receipt_id = ? ORDER BY file_order'),
+    trashReceiptFile: db.prepare("UPDATE receipt_files SET deleted_at = datetime('now') WHERE id = ?"),
+    restoreReceiptFile: db.prepare('UPDATE receipt_files SET deleted_at = NULL WHERE id = ?'),
+    getTrashedFiles: db.prepare(`
+      SELECT rf.* FROM receipt_files rf
+      JOIN receipts r ON r.id = rf.receipt_id
+      WHERE rf.deleted_at IS NOT NULL AND r.deleted_at IS NULL
+      ORDER BY rf.deleted_at DESC, rf.id DESC
+    `),
+    getExpiredTrashedFiles: db.prepare(`
+      SELECT rf.* FROM receipt_files rf
+      JOIN receipts r ON r.id = rf.receipt_id
+      WHERE rf.deleted_at IS NOT NULL AND rf.deleted_at <= datetime('now', ?) AND r.deleted_at IS NULL
+      ORDER BY rf.id
+    `),
     getFileById: db.prepare('SELECT * FROM receipt_files WHERE id = ?'),
     insertReceiptFile: db.prepare(`
       INSERT INTO receipt_files (receipt_id, filename, original_filename, file_order)
       VALUES (?, ?, ?, ?)
     `),
     updateReceiptFilename: db.prepare('UPDATE receipt_files SET filename = ? WHERE id = ?'),
+    updateReceiptFileOriginalFilename: db.prepare('UPDATE receipt_files SET original_filename = ? WHERE id = ?'),
     updateReceiptFileOptimized: db.prepare(`
       UPDATE receipt_files 
       SET is_optimized = 1, optimized_at = datetime('now')
@@ -100,11 +138,52 @@ export function createTestDbQueries(db: DatabaseType) {
     `),
     getUnoptimizedFiles: db.prepare(`
       SELECT * FROM receipt_files 
-      WHERE is_optimized = 0 OR is_optimized IS NULL
+      WHERE (is_optimized = 0 OR is_optimized IS NULL)
+        AND deleted_at IS NULL AND receipt_id IN (SELECT id FROM receipts WHERE deleted_at IS NULL)
       ORDER BY created_at
     `),
     deleteReceiptFile: db.prepare('DELETE FROM receipt_files WHERE id = ?'),
     deleteFilesByReceiptId: db.prepare('DELETE FROM receipt_files WHERE receipt_id = ?'),
+    updateReceiptFileHashes: db.prepare('UPDATE receipt_files SET content_hash = ?, perceptual_hash = ? WHERE id = ?'),
+    getFilesByContentHash: db.prepare(`
+      SELECT rf.id, rf.receipt_id, rf.original_filename, r.user_id
+      FROM receipt_files rf
+      JOIN receipts r ON r.id = rf.receipt_id
+      WHERE rf.content_hash = ? AND rf.deleted_at IS NULL AND r.deleted_at IS NULL
+    `),
+    getPerceptualHashes: db.prepare(`
+      SELECT rf.id, rf.receipt_id, rf.original_filename, rf.perceptual_hash, r.user_id
+      FROM receipt_files rf
+      JOIN receipts r ON r.id = rf.receipt_id
+      WHERE rf.perceptual_hash IS NOT NULL AND rf.deleted_at IS NULL AND r.deleted_at IS NULL
+    `),
+    getIdenticalFileReceiptPairs: db.prepare(`
+      SELECT DISTINCT fa.receipt_id AS receipt_id, fb.receipt_id AS other_receipt_id
+      FROM receipt_files fa
+      JOIN receipt_files fb ON fb.content_hash = fa.content_hash AND fb.receipt_id > fa.receipt_id
+      WHERE fa.content_hash IS NOT NULL
+        AND fa.deleted_at IS NULL AND fb.deleted_at IS NULL
+        AND fa.receipt_id IN (SELECT id FROM receipts WHERE deleted_at IS NULL)
+        AND fb.receipt_id IN (SELECT id FROM receipts WHERE deleted_at IS NULL)
+    `),
+    getSameDetailsReceiptPairs: db.prepare(`
+      SELECT a.id AS receipt_id, b.id AS other_receipt_id
+      FROM receipts a
+      JOIN receipts b ON b.id > a.id
+        AND b.user_id = a.user_id
+        AND b.date = a.date
+        AND b.amount = a.amount
+        AND LOWER(TRIM(b.vendor)) = LOWER(TRIM(a.vendor))
+      WHERE a.amount > 0 AND TRIM(a.vendor) != '' AND a.deleted_at IS NULL AND b.deleted_at IS NULL
+    `),
+    getUnhashedFiles: db.prepare(`
+      SELECT * FROM receipt_files
+      WHERE content_hash IS NULL
+        AND deleted_at IS NULL AND receipt_id IN (SELECT id FROM receipts WHERE deleted_at IS NULL)
+      ORDER BY id
+    `),
+    getDuplicateDismissals: db.prepare('SELECT receipt_id, other_receipt_id FROM duplicate_dismissals'),
+    insertDuplicateDismissal: db.prepare('INSERT OR IGNORE INTO duplicate_dismissals (receipt_id, other_receipt_id) VALUES (?, ?)'),
     getAllFlags: db.prepare('SELECT * FROM flags ORDER BY name'),
     getFlagById: db.prepare('SELECT * FROM flags WHERE id = ?'),
     getFlagByName: db.prepare('SELECT * FROM flags WHERE name = ?'),
@@ -124,7 +203,11 @@ export function createTestDbQueries(db: DatabaseType) {
     getUserByName: db.prepare('SELECT * FROM users WHERE name = ?'),
     insertUser: db.prepare('INSERT INTO users (name) VALUES (?)'),
     updateUser: db.prepare('UPDATE users SET name = ? WHERE id = ?'),
+    restoreUserName: db.prepare('UPDATE users SET name = ? WHERE id = ? AND name = ?'),
     deleteUser: db.prepare('DELETE FROM users WHERE id = ?'),
+    reassignReceiptsUser: db.prepare("UPDATE receipts SET user_id = ?, updated_at = datetime('now') WHERE user_id = ?"),
+    reassignWatchFoldersUser: db.prepare('UPDATE watch_folders SET user_id = ? WHERE user_id = ?'),
+    reassignImportRulesUser: db.prepare('UPDATE import_rules SET user_id = ? WHERE user_id = ?'),
     getAllReceiptTypes: db.prepare(`
       SELECT rt.*, rtg.name as group_name, rtg.display_order as group_display_order
       FROM receipt_types rt
@@ -142,6 +225,9 @@ export function createTestDbQueries(db: DatabaseType) {
     updateReceiptType: db.prepare('UPDATE receipt_types SET name = ?, group_id = ?, display_order = ? WHERE id = ?'),
     updateReceiptTypeGroupId: db.prepare('UPDATE receipt_types SET group_id = ?, display_order = ? WHERE id = ?'),
     deleteReceiptType: db.prepare('DELETE FROM receipt_types WHERE id = ?'),
+    reassignReceiptsType: db.prepare("UPDATE receipts SET receipt_type_id = ?, updated_at = datetime('now') WHERE receipt_type_id = ?"),
+    reassignWatchFoldersType: db.prepare('UPDATE watch_folders SET receipt_type_id = ? WHERE receipt_type_id = ?'),
+    reassignImportRulesType: db.prepare('UPDATE import_rules SET receipt_type_id = ? WHERE receipt_type_id = ?'),
     getAllReceiptTypeGroups: db.prepare('SELECT * FROM receipt_type_groups ORDER BY display_order, name'),
     getReceiptTypeGroupById: db.prepare('SELECT * FROM receipt_type_groups WHERE id = ?'),
     getReceiptTypeGroupByName: db.prepare('SELECT * FROM receipt_type_groups WHERE name = ?'),
@@ -152,6 +238,136 @@ export function createTestDbQueries(db: DatabaseType) {
     getSetting: db.prepare('SELECT value FROM settings WHERE key = ?'),
     setSetting: db.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)'),
     getAllSettings: db.prepare('SELECT * FROM settings'),
+    getStatsSummaryRows: db.prepare(`
+      SELECT
+        r.user_id,
+        u.name as user_name,
+        strftime('%Y', r.date) as year,
+        rt.group_id,
+        rtg.name as group_name,
+        r.reimbursement_status,
+        COUNT(*) as receipt_count,
+        SUM(r.amount) as total_spent,
+        SUM(COALESCE(r.reimbursed_amount, 0)) as total_reimbursed,
+        SUM(CASE WHEN r.reimbursement_status = 'reimbursed' THEN 0 ELSE MAX(r.amount - COALESCE(r.reimbursed_amount, 0), 0) END) as outstanding
+      FROM receipts r
+      LEFT JOIN users u ON r.user_id = u.id
+      LEFT JOIN receipt_types rt ON r.receipt_type_id = rt.id
+      LEFT JOIN receipt_type_groups rtg ON rt.group_id = rtg.id
+      WHERE r.deleted_at IS NULL
+        AND (@user_id IS NULL OR r.user_id = @user_id)
+        AND (@year IS NULL OR strftime('%Y', r.date) = @year)
+        AND (@user_ids IS NULL OR r.user_id IN (SELECT value FROM json_each(@user_ids)))
+      GROUP BY r.user_id, year, rt.group_id, r.reimbursement_status
+      ORDER BY year DESC, u.name, rtg.display_order, rtg.name
+    `),
+    getStatsYears: db.prepare(`
+      SELECT DISTINCT strftime('%Y', date) as year FROM receipts
+      WHERE date IS NOT NULL AND deleted_at IS NULL
+        AND (@user_ids IS NULL OR user_id IN (SELECT value FROM json_each(@user_ids)))
+      ORDER BY year DESC
+    `),
+    deleteReceiptSearchEntry: db.prepare('DELETE FROM receipts_fts WHERE rowid = ?'),
+    insertReceiptSearchEntry: db.prepare(`
+      INSERT INTO receipts_fts (rowid, vendor, description, provider_address, notes, date, flags, file_text)
+      SELECT
+        r.id,
+        r.vendor,
+        r.description,
+        r.provider_address,
+        COALESCE(r.notes, ''),
+        r.date,
+        COALESCE((SELECT group_concat(f.name, ' ') FROM receipt_flags rf INNER JOIN flags f ON rf.flag_id = f.id WHERE rf.receipt_id = r.id), ''),
+        COALESCE((SELECT group_concat(rfi.extracted_text, ' ') FROM receipt_files rfi WHERE rfi.receipt_id = r.id AND rfi.deleted_at IS NULL AND rfi.extracted_text IS NOT NULL), '')
+      FROM receipts r
+      WHERE r.id = ? AND r.deleted_at IS NULL
+    `),
+    searchReceipts: db.prepare(`
+      SELECT
+        rowid as receipt_id,
+        bm25(receipts_fts, 10.0, 5.0, 3.0, 3.0, 2.0, 4.0, 1.0) as rank,
+        snippet(receipts_fts, -1, '<mark>', '</mark>', '…', 12) as snippet
+      FROM receipts_fts
+      WHERE receipts_fts MATCH @query
+        AND (@user_ids IS NULL OR rowid IN (SELECT id FROM receipts WHERE user_id IN (SELECT value FROM json_each(@user_ids))))
+      ORDER BY rank
+      LIMIT @limit
+    `),
+    getReceiptIdsByFlagId: db.prepare('SELECT receipt_id FROM receipt_flags WHERE flag_id = ?'),
+    updateReceiptFileExtractedText: db.prepare('UPDATE receipt_files SET extracted_text = ?, text_source = ? WHERE id = ?'),
+    getAllAccounts: db.prepare('SELECT * FROM accounts ORDER BY username'),
+    getAccountById: db.prepare('SELECT * FROM accounts WHERE id = ?'),
+    getAccountByUsername: db.prepare('SELECT * FROM accounts WHERE username = ?'),
+    countAccounts: db.prepare('SELECT COUNT(*) as count FROM accounts'),
+    insertAccount: db.prepare('INSERT INTO accounts (username, password_hash, role) VALUES (?, ?, ?)'),
+    insertFirstAccount: db.prepare('INSERT INTO accounts (username, password_hash, role) SELECT ?, ?, ? WHERE NOT EXISTS (SELECT 1 FROM accounts)'),
+    updateAccountPassword: db.prepare('UPDATE accounts SET password_hash = ? WHERE id = ?'),
+    updateAccountLastLogin: db.prepare("UPDATE accounts SET last_login_at = datetime('now') WHERE id = ?"),
+    deleteAccount: db.prepare('DELETE FROM accounts WHERE id = ?'),
+  updateAccountRole: db.prepare('UPDATE accounts SET role = ? WHERE id = ?'),
+  getAccountUserIds: db.prepare('SELECT user_id FROM account_users WHERE account_id = ? ORDER BY user_id'),
+  insertAccountUser: db.prepare('INSERT OR IGNORE INTO account_users (account_id, user_id) VALUES (?, ?)'),
+  deleteAccountUsers: db.prepare('DELETE FROM account_users WHERE account_id = ?'),
+    insertSession: db.prepare('INSERT INTO sessions (account_id, token_hash, expires_at) VALUES (?, ?, ?)'),
+    getSessionByTokenHash: db.prepare('SELECT * FROM sessions WHERE token_hash = ?'),
+    deleteSessionByTokenHash: db.prepare('DELETE FROM sessions WHERE token_hash = ?'),
+    deleteOtherSessions: db.prepare('DELETE FROM sessions WHERE account_id = ? AND token_hash != ?'),
+    deleteExpiredSessions: db.prepare('DELETE FROM sessions WHERE expires_at <= ?'),
+    getApiTokensByAccountId: db.prepare('SELECT * FROM api_tokens WHERE account_id = ? ORDER BY created_at DESC, id DESC'),
+    getApiTokenById: db.prepare('SELECT * FROM api_tokens WHERE id = ?'),
+    getApiTokenByHash: db.prepare('SELECT * FROM api_tokens WHERE token_hash = ?'),
+    insertApiToken: db.prepare('INSERT INTO api_tokens (account_id, name, token_hash, token_prefix, scope) VALUES (?, ?, ?, ?, ?)'),
+    updateApiTokenLastUsed: db.prepare("UPDATE api_tokens SET last_used_at = datetime('now') WHERE id = ?"),
+    deleteApiToken: db.prepare('DELETE FROM api_tokens WHERE id = ? AND account_id = ?'),
+    getJobById: db.prepare('SELECT * FROM jobs WHERE id = ?'),
+    getRecentJobs: db.prepare('SELECT * FROM jobs ORDER BY id DESC LIMIT ?'),
+    getNextQueuedJob: db.prepare("SELECT * FROM jobs WHERE status = 'queued' ORDER BY id LIMIT 1"),
+    getQueuedJobsByType: db.prepare("SELECT * FROM jobs WHERE type = ? AND status = 'queued' ORDER BY id"),
+    insertJob: db.prepare('INSERT INTO jobs (type, params, account_id) VALUES (?, ?, ?)'),
+    updateJobStarted: db.prepare("UPDATE jobs SET status = 'running', started_at = datetime('now') WHERE id = ?"),
+    updateJobProgress: db.prepare('UPDATE jobs SET progress = ?, total = ? WHERE id = ?'),
+    updateJobFinished: db.prepare("UPDATE jobs SET status = ?, result = ?, error = ?, finished_at = datetime('now') WHERE id = ?"),
+    cancelQueuedJob: db.prepare("UPDATE jobs SET status = 'cancelled', finished_at = datetime('now') WHERE id = ? AND status = 'queued'"),
+    requestJobCancel: db.prepare("UPDATE jobs SET cancel_requested = 1 WHERE id = ? AND status = 'running'"),
+    requeueRunningJobs: db.prepare("UPDATE jobs SET status = 'queued', progress = 0, total = NULL, started_at = NULL WHERE status = 'running'"),
+    deleteFinishedJobsBefore: db.prepare("DELETE FROM jobs WHERE status IN ('completed', 'failed', 'cancelled') AND finished_at < ?"),
+    getAllImportRules: db.prepare('SELECT * FROM import_rules ORDER BY id'),
+    getEnabledImportRules: db.prepare('SELECT * FROM import_rules WHERE enabled = 1 ORDER BY id'),
+    getImportRuleById: db.prepare('SELECT * FROM import_rules WHERE id = ?'),
+    insertImportRule: db.prepare('INSERT INTO import_rules (name, match_type, pattern, user_id, receipt_type_id, vendor, date_from_filename, enabled) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'),
+    updateImportRule: db.prepare('UPDATE import_rules SET name = ?, match_type = ?, pattern = ?, user_id = ?, receipt_type_id = ?, vendor = ?, date_from_filename = ?, enabled = ? WHERE id = ?'),
+    deleteImportRule: db.prepare('DELETE FROM import_rules WHERE id = ?'),
+    getImportRuleFlagIds: db.prepare('SELECT flag_id FROM import_rule_flags WHERE rule_id = ? ORDER BY flag_id'),
+    insertImportRuleFlag: db.prepare('INSERT OR IGNORE INTO import_rule_flags (rule_id, flag_id) VALUES (?, ?)'),
+    deleteImportRuleFlags: db.prepare('DELETE FROM import_rule_flags WHERE rule_id = ?'),
+    getAllWatchFolders: db.prepare('SELECT * FROM watch_folders ORDER BY id'),
+    getWatchFolderById: db.prepare('SELECT * FROM watch_folders WHERE id = ?'),
+    insertWatchFolder: db.prepare('INSERT INTO watch_folders (name, path, interval_minutes, user_id, receipt_type_id, processed_action, enabled) VALUES (?, ?, ?, ?, ?, ?, ?)'),
+    updateWatchFolder: db.prepare('UPDATE watch_folders SET name = ?, path = ?, interval_minutes = ?, user_id = ?, receipt_type_id = ?, processed_action = ?, enabled = ? WHERE id = ?'),
+    deleteWatchFolder: db.prepare('DELETE FROM watch_folders WHERE id = ?'),
+    getWatchFolderFlagIds: db.prepare('SELECT flag_id FROM watch_folder_flags WHERE folder_id = ? ORDER BY flag_id'),
+    insertWatchFolderFlag: db.prepare('INSERT OR IGNORE INTO watch_folder_flags (folder_id, flag_id) VALUES (?, ?)'),
+    deleteWatchFolderFlags: db.prepare('DELETE FROM watch_folder_flags WHERE folder_id = ?'),
+    getWatchImportedFiles: db.prepare('SELECT * FROM watch_imported_files WHERE folder_id = ?'),
+    upsertWatchImportedFile: db.prepare('INSERT OR REPLACE INTO watch_imported_files (folder_id, relative_path, size, mtime_ms) VALUES (?, ?, ?, ?)'),
+    deleteWatchImportedFile: db.prepare('DELETE FROM watch_imported_files WHERE folder_id = ? AND relative_path = ?'),
+    getWatchImports: db.prepare(`
+      SELECT wi.*, wf.name AS folder_name
+      FROM watch_imports wi
+      LEFT JOIN watch_folders wf ON wf.id = wi.folder_id
+      WHERE (? IS NULL OR wi.status = ?) AND (? IS NULL OR wi.folder_id = ?)
+      ORDER BY wi.updated_at DESC, wi.id DESC
+      LIMIT ?
+    `),
+    getWatchImportById: db.prepare('SELECT wi.*, wf.name AS folder_name FROM watch_imports wi LEFT JOIN watch_folders wf ON wf.id = wi.folder_id WHERE wi.id = ?'),
+    getFailedWatchImport: db.prepare("SELECT * FROM watch_imports WHERE folder_id = ? AND source_path = ? AND status = 'failed' ORDER BY id DESC LIMIT 1"),
+    insertWatchImport: db.prepare('INSERT INTO watch_imports (folder_id, source_path, files, receipt_id, status, error) VALUES (?, ?, ?, ?, ?, ?)'),
+    updateWatchImport: db.prepare("UPDATE watch_imports SET files = ?, receipt_id = ?, status = ?, error = ?, attempts = ?, quarantine_path = ?, updated_at = datetime('now') WHERE id = ?"),
+    getReceiptHistory: db.prepare('SELECT * FROM receipt_history WHERE receipt_id = ? ORDER BY id DESC'),
+    getReceiptHistoryEntry: db.prepare('SELECT * FROM receipt_history WHERE id = ? AND receipt_id = ?'),
+    insertReceiptHistory: db.prepare(
+      'INSERT INTO receipt_history (receipt_id, action, file_id, changes, source, detail, account_id, account_name, reverted_entry_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ),
   };
 }
 
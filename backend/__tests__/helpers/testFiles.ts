@@ -64,7 +64,8 @@ export async function createTestImageFile(
   const jpegHeader = Buffer.from([
     0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01,
   ]);
-  return createTestFile(dir, filename, jpegHeader);
+  // Followed by the file's path, so files in different places aren't identical duplicates
+  return createTestFile(dir, filename, Buffer.concat([jpegHeader, Buffer.from(path.join(dir, filename))]));
 }
 
 /**
@@ -79,6 +80,37 @@ export async function createTestPdfFile(
   return createTestFile(dir, filename, pdfContent);
 }
 
+/**
+ * Create a one-page PDF with a text layer containing the given lines
+ */
+export async function createTestPdfWithText(
+  dir: string,
+  filename: string,
+  lines: string[]
+): Promise<string> {
+  const content = `BT /F1 18 Tf 50 750 Td ${lines.map((line, i) => `${i > 0 ? '0 -24 Td ' : ''}(${line}) Tj`).join(' ')} ET`;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return createTestFile(dir, filename, Buffer.from(pdf, 'latin1'));
+}
+
 /**
  * Check if a file exists
  */
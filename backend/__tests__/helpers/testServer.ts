@@ -9,6 +9,20 @@ import settingsRouter from '../../src/routes/settings';
 import exportRouter from '../../src/routes/export';
 import filenamesRouter from '../../src/routes/filenames';
 import watchRouter from '../../src/routes/watch';
+import importRulesRouter from '../../src/routes/importRules';
+import imagesRouter from '../../src/routes/images';
+import statsRouter from '../../src/routes/stats';
+import searchRouter from '../../src/routes/search';
+import authRouter from '../../src/routes/auth';
+import accountsRouter from '../../src/routes/accounts';
+import apiTokensRouter from '../../src/routes/apiTokens';
+import jobsRouter from '../../src/routes/jobs';
+import eventsRouter from '../../src/routes/events';
+import trashRouter from '../../src/routes/trash';
+import duplicatesRouter from '../../src/routes/duplicates';
+import backupsRouter from '../../src/routes/backups';
+import importRouter from '../../src/routes/import';
+import { authenticateApiToken, requireAuth, requireRole, requireRoleForChanges } from '../../src/middleware/auth';
 
 /**
  * Create a test Express app instance
@@ -21,16 +35,34 @@ export function createTestApp(): express.Application {
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
+  // Authentication
+  app.use('/api/auth', authRouter);
+  app.use('/api', authenticateApiToken);
+  app.use('/api', requireAuth);
+
   // Routes
-  app.use('/api/receipts', receiptsRouter);
-  app.use('/api/flags', flagsRouter);
-  app.use('/api/users', usersRouter);
-  app.use('/api/receipt-types', receiptTypesRouter);
-  app.use('/api/receipt-type-groups', receiptTypeGroupsRouter);
-  app.use('/api/settings', settingsRouter);
+  // Receipts and stats are limited to the account's users; most settings can only be changed by admins
+  app.use('/api/accounts', accountsRouter);
+  app.use('/api/tokens', apiTokensRouter);
+  app.use('/api/receipts', requireRoleForChanges('admin', 'editor'), receiptsRouter);
+  app.use('/api/trash', requireRoleForChanges('admin', 'editor'), trashRouter);
+  app.use('/api/flags', requireRoleForChanges('admin', 'editor'), flagsRouter);
+  app.use('/api/users', requireRoleForChanges('admin'), usersRouter);
+  app.use('/api/receipt-types', requireRoleForChanges('admin'), receiptTypesRouter);
+  app.use('/api/receipt-type-groups', requireRoleForChanges('admin'), receiptTypeGroupsRouter);
+  app.use('/api/settings', requireRoleForChanges('admin'), settingsRouter);
   app.use('/api/export', exportRouter);
-  app.use('/api/filenames', filenamesRouter);
-  app.use('/api/watch', watchRouter);
+  app.use('/api/import', requireRole('admin'), importRouter);
+  app.use('/api/filenames', requireRole('admin'), filenamesRouter);
+  app.use('/api/watch', requireRoleForChanges('admin'), watchRouter);
+  app.use('/api/import-rules', requireRoleForChanges('admin'), importRulesRouter);
+  app.use('/api/images', requireRole('admin'), imagesRouter);
+  app.use('/api/jobs', requireRole('admin'), jobsRouter);
+  app.use('/api/events', eventsRouter);
+  app.use('/api/stats', statsRouter);
+  app.use('/api/search', searchRouter);
+  app.use('/api/duplicates', requireRoleForChanges('admin', 'editor'), duplicatesRouter);
+  app.use('/api/backups', requireRole('admin'), backupsRouter);
 
   // Health check
   app.get('/health', (req, res) => {
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { createTestApp } from '../helpers/testServer';
+import { createReceiptFixture } from '../helpers/fixtures';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+import { createReceipt, createUser, addReceiptFile } from '../../src/services/dbService';
+
+describe('Per-user access scoping', () => {
+  const app = createTestApp();
+  let admin: ReturnType<typeof request.agent>;
+  let teenUserId: number;
+  let parentUserId: number;
+  let teenReceiptId: number;
+  let parentReceiptId: number;
+
+  /**
+   * Create an account through the admin API and return an agent logged in with it
+   */
+  async function loginAs(username: string, role: string, userIds: number[]) {
+    await admin.post('/api/accounts').send({ username, password: 'battery staple', role, user_ids: userIds });
+    const agent = request.agent(app);
+    await agent.post('/api/auth/login').send({ username, password: 'battery staple' });
+    return agent;
+  }
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM receipt_flags;
+      DELETE FROM receipt_files;
+      DELETE FROM receipts;
+      DELETE FROM receipts_fts;
+      DELETE FROM users;
+      DELETE FROM account_users;
+      DELETE FROM sessions;
+      DELETE FROM accounts;
+    `);
+    process.env.AUTH_ENABLED = 'true';
+
+    teenUserId = createUser('Teen').id;
+    parentUserId = createUser('Parent').id;
+    teenReceiptId = createReceipt(
+      createReceiptFixture({ user: undefined, user_id: teenUserId, vendor: 'Acne Clinic', amount: 40 })
+    ).id;
+    parentReceiptId = createReceipt(
+      createReceiptFixture({ user: undefined, user_id: parentUserId, vendor: 'Cardiology Clinic', amount: 300 })
+    ).id;
+
+    admin = request.agent(app);
+    await admin.post('/api/auth/setup').send({ username: 'admin', password: 'correct horse' });
+  });
+
+  afterEach(() => {
+    delete process.env.AUTH_ENABLED;
+  });
+
+  describe('viewer accounts', () => {
+    it('should only list receipts of their users', async () => {
+      const teen = await loginAs('teen', 'viewer', [teenUserId]);
+
+      const list = await teen.get('/api/receipts');
+      expect(list.body.map((r: any) => r.id)).toEqual([teenReceiptId]);
+
+      const page = await teen.get('/api/receipts?limit=10');
+      expect(page.body.total).toBe(1);
+
+      // Asking for another user's receipts returns nothing rather than widening the scope
+      const filtered = await teen.get(`/api/receipts?user_id=${parentUserId}`);
+      expect(filtered.body).toEqual([]);
+    });
+
+    it('should treat receipts of other users as missing', async () => {
+      const teen = await loginAs('teen', 'viewer', [teenUserId]);
+
+      expect((await teen.get(`/api/receipts/${teenReceiptId}`)).status).toBe(200);
+      expect((await teen.get(`/api/receipts/${parentReceiptId}`)).status).toBe(404);
+    });
+
+    it('should not download files of other users', async () => {
+      const file = addReceiptFile(parentReceiptId, 'scan.pdf', 'scan.pdf', 0);
+      const teen = await loginAs('teen', 'viewer', [teenUserId]);
+
+      const response = await teen.get(`/api/receipts/${parentReceiptId}/files/${file.id}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Receipt not found');
+    });
+
+    it('should scope search, stats and the users list', async () => {
+      const teen = await loginAs('teen', 'viewer', [teenUserId]);
+
+      const search = await teen.get('/api/search?q=clinic');
+      expect(search.body.map((r: any) => r.receipt.id)).toEqual([teenReceiptId]);
+
+      const stats = await teen.get('/api/stats/summary');
+      expect(stats.body.totals.total_spent).toBe(40);
+      expect(stats.body.by_user.map((u: any) => u.user_id)).toEqual([teenUserId]);
+
+      const users = await teen.get('/api/users');
+      expect(users.body.map((u: any) => u.id)).toEqual([teenUserId]);
+    });
+
+    it('should only export receipts of their users', async () => {
+      const teen = await loginAs('teen', 'viewer', [teenUserId]);
+
+      const response = await teen
+        .get('/api/export')
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        });
+
+      // Entry names are stored uncompressed in the zip headers
+      const archive = (response.body as Buffer).toString('latin1');
+      expect(archive).toContain(`receipt-${teenReceiptId}/metadata.json`);
+      expect(archive).not.toContain(`receipt-${parentReceiptId}/`);
+    });
+
+    it('should not be able to make changes', async () => {
+      const teen = await loginAs('teen', 'viewer', [teenUserId]);
+
+      const update = await teen.put(`/api/receipts/${teenReceiptId}`).send({ vendor: 'Changed' });
+      expect(update.status).toBe(403);
+      expect(update.body.error).toBe('You do not have permission to do this');
+
+      expect((await teen.post('/api/flags').send({ name: 'Urgent' })).status).toBe(403);
+      expect((await teen.post('/api/users').send({ name: 'Sibling' })).status).toBe(403);
+      expect((await teen.get('/api/accounts')).status).toBe(403);
+    });
+
+    it('should still be able to change their own password', async () => {
+      const teen = await loginAs('teen', 'viewer', [teenUserId]);
+
+      const response = await teen
+        .put('/api/accounts/me/password')
+        .send({ current_password: 'battery staple', new_password: 'new password 1' });
+
+      expect(response.status).toBe(204);
+    });
+  });
+
+  describe('editor accounts', () => {
+    it('should edit receipts of their users', async () => {
+      const editor = await loginAs('teen', 'editor', [teenUserId]);
+
+      const response = await editor.put(`/api/receipts/${teenReceiptId}`).send({ vendor: 'Dermatology' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.vendor).toBe('Dermatology');
+    });
+
+    it('should not edit receipts of other users', async () => {
+      const editor = await loginAs('teen', 'editor', [teenUserId]);
+
+      expect((await editor.put(`/api/receipts/${parentReceiptId}`).send({ vendor: 'Changed' })).status).toBe(404);
+      expect((await editor.delete(`/api/receipts/${parentReceiptId}`)).status).toBe(404);
+      expect((await editor.put(`/api/receipts/${parentReceiptId}/flags`).send({ flag_ids: [] })).status).toBe(404);
+
+      const bulk = await editor.post('/api/receipts/bulk-update').send({ receipt_ids: [teenReceiptId, parentReceiptId], vendor: 'X' });
+      expect(bulk.status).toBe(400);
+    });
+
+    it('should not move receipts to users outside their scope', async () => {
+      const editor = await loginAs('teen', 'editor', [teenUserId]);
+
+      const response = await editor.put(`/api/receipts/${teenReceiptId}`).send({ user_id: parentUserId });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('You can only file receipts under users assigned to your account');
+    });
+
+    it('should not manage users or settings', async () => {
+      const editor = await loginAs('teen', 'editor', [teenUserId]);
+
+      expect((await editor.put('/api/settings/ocrEnabled').send({ value: false })).status).toBe(403);
+      expect((await editor.delete(`/api/users/${parentUserId}`)).status).toBe(403);
+    });
+
+    it('should not read admin data about other users', async () => {
+      const editor = await loginAs('teen', 'editor', [teenUserId]);
+
+      expect((await editor.get(`/api/users/${parentUserId}/usage`)).status).toBe(403);
+      expect((await editor.get('/api/watch/history')).status).toBe(403);
+      expect((await editor.get('/api/import-rules')).status).toBe(403);
+    });
+  });
+
+  describe('admin accounts', () => {
+    it('should see receipts of all users', async () => {
+      const list = await admin.get('/api/receipts');
+
+      expect(list.body.map((r: any) => r.id).sort()).toEqual([teenReceiptId, parentReceiptId].sort());
+      expect((await admin.get(`/api/receipts/${parentReceiptId}`)).status).toBe(200);
+    });
+  });
+
+  describe('with authentication disabled', () => {
+    it('should not restrict access', async () => {
+      delete process.env.AUTH_ENABLED;
+
+      const list = await request(app).get('/api/receipts');
+
+      expect(list.body).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { createTestApp } from '../helpers/testServer';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+describe('Accounts API', () => {
+  const app = createTestApp();
+  let agent: ReturnType<typeof request.agent>;
+  let accountId: number;
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM account_users;
+      DELETE FROM sessions;
+      DELETE FROM accounts;
+      DELETE FROM users;
+    `);
+    process.env.AUTH_ENABLED = 'true';
+
+    agent = request.agent(app);
+    const response = await agent.post('/api/auth/setup').send({ username: 'parent', password: 'correct horse' });
+    accountId = response.body.id;
+  });
+
+  afterEach(() => {
+    delete process.env.AUTH_ENABLED;
+  });
+
+  describe('POST /api/accounts', () => {
+    it('should create an account that can log in', async () => {
+      const response = await agent.post('/api/accounts').send({ username: 'partner', password: 'battery staple' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.username).toBe('partner');
+
+      const list = await agent.get('/api/accounts');
+      expect(list.body.map((a: any) => a.username)).toEqual(['parent', 'partner']);
+      expect(list.body[0].password_hash).toBeUndefined();
+
+      const login = await request(app).post('/api/auth/login').send({ username: 'partner', password: 'battery staple' });
+      expect(login.status).toBe(200);
+    });
+
+    it('should create viewers by default and make the first account an admin', async () => {
+      const response = await agent.post('/api/accounts').send({ username: 'partner', password: 'battery staple' });
+
+      expect(response.body.role).toBe('viewer');
+      expect(response.body.user_ids).toEqual([]);
+      expect((await agent.get('/api/accounts')).body[0].role).toBe('admin');
+    });
+
+    it('should create an account with a role and users', async () => {
+      const { createUser } = await import('../../src/services/dbService');
+      const teen = createUser('Teen');
+
+      const response = await agent
+        .post('/api/accounts')
+        .send({ username: 'teen', password: 'battery staple', role: 'editor', user_ids: [teen.id] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.role).toBe('editor');
+      expect(response.body.user_ids).toEqual([teen.id]);
+    });
+
+    it('should reject invalid roles and unknown users', async () => {
+      const badRole = await agent.post('/api/accounts').send({ username: 'teen', password: 'battery staple', role: 'owner' });
+      expect(badRole.status).toBe(400);
+      expect(badRole.body.error).toBe('Role must be one of: admin, editor, viewer');
+
+      const badUser = await agent.post('/api/accounts').send({ username: 'teen', password: 'battery staple', user_ids: [999] });
+      expect(badUser.status).toBe(400);
+      expect(badUser.body.error).toBe('User with ID 999 not found');
+    });
+
+    it('should reject duplicate usernames', async () => {
+      const response = await agent.post('/api/accounts').send({ username: 'PARENT', password: 'battery staple' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('An account with this username already exists');
+    });
+
+    it('should require a session', async () => {
+      const response = await request(app).post('/api/accounts').send({ username: 'intruder', password: 'battery staple' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('PUT /api/accounts/:id', () => {
+    it('should update the role and users of an account', async () => {
+      const { createUser } = await import('../../src/services/dbService');
+      const teen = createUser('Teen');
+      const sibling = createUser('Sibling');
+      const partner = await agent.post('/api/accounts').send({ username: 'partner', password: 'battery staple', user_ids: [teen.id] });
+
+      const response = await agent
+        .put(`/api/accounts/${partner.body.id}`)
+        .send({ role: 'editor', user_ids: [sibling.id, teen.id] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.role).toBe('editor');
+      expect(response.body.user_ids).toEqual([teen.id, sibling.id].sort((a, b) => a - b));
+    });
+
+    it('should not change the role of the logged-in account', async () => {
+      const response = await agent.put(`/api/accounts/${accountId}`).send({ role: 'viewer' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('You cannot change the role of the account you are logged in with');
+    });
+
+    it('should return 404 for unknown accounts', async () => {
+      const response = await agent.put('/api/accounts/999').send({ role: 'viewer' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/accounts/:id', () => {
+    it('should delete another account and end its sessions', async () => {
+      const partner = await agent.post('/api/accounts').send({ username: 'partner', password: 'battery staple' });
+      const partnerAgent = request.agent(app);
+      await partnerAgent.post('/api/auth/login').send({ username: 'partner', password: 'battery staple' });
+
+      const response = await agent.delete(`/api/accounts/${partner.body.id}`);
+
+      expect(response.status).toBe(204);
+      expect((await partnerAgent.get('/api/flags')).status).toBe(401);
+    });
+
+    it('should not delete the logged-in account', async () => {
+      await agent.post('/api/accounts').send({ username: 'partner', password: 'battery staple' });
+
+      const response = await agent.delete(`/api/accounts/${accountId}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('You cannot delete the account you are logged in with');
+    });
+
+    it('should return 404 for unknown accounts', async () => {
+      await agent.post('/api/accounts').send({ username: 'partner', password: 'battery staple' });
+
+      const response = await agent.delete('/api/accounts/999');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PUT /api/accounts/me/password', () => {
+    it('should change the password and sign out other sessions', async () => {
+      const otherDevice = request.agent(app);
+      await otherDevice.post('/api/auth/login').send({ username: 'parent', password: 'correct horse' });
+
+      const response = await agent
+        .put('/api/accounts/me/password')
+        .send({ current_password: 'correct horse', new_password: 'new password 1' });
+
+      expect(response.status).toBe(204);
+      expect((await agent.get('/api/flags')).status).toBe(200);
+      expect((await otherDevice.get('/api/flags')).status).toBe(401);
+
+      const login = await request(app).post('/api/auth/login').send({ username: 'parent', password: 'new password 1' });
+      expect(login.status).toBe(200);
+    });
+
+    it('should reject an incorrect current password', async () => {
+      const response = await agent
+        .put('/api/accounts/me/password')
+        .send({ current_password: 'wrong', new_password: 'new password 1' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Current password is incorrect');
+    });
+  });
+});
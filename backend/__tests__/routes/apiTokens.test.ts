@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { createTestApp } from '../helpers/testServer';
+import { createReceiptFixture } from '../helpers/fixtures';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+import { createReceipt, createUser } from '../../src/services/dbService';
+
+describe('API tokens', () => {
+  const app = createTestApp();
+  let admin: ReturnType<typeof request.agent>;
+  let receiptId: number;
+
+  /**
+   * Create a token for the logged-in admin and return its plaintext value
+   */
+  async function createToken(scope: string): Promise<string> {
+    const response = await admin.post('/api/tokens').send({ name: `${scope} token`, scope });
+    return response.body.token;
+  }
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM receipt_flags;
+      DELETE FROM receipt_files;
+      DELETE FROM receipts;
+      DELETE FROM receipts_fts;
+      DELETE FROM users;
+      DELETE FROM api_tokens;
+      DELETE FROM account_users;
+      DELETE FROM sessions;
+      DELETE FROM accounts;
+    `);
+    process.env.AUTH_ENABLED = 'true';
+
+    const userId = createUser('Parent').id;
+    receiptId = createReceipt(createReceiptFixture({ user: undefined, user_id: userId })).id;
+
+    admin = request.agent(app);
+    await admin.post('/api/auth/setup').send({ username: 'admin', password: 'correct horse' });
+  });
+
+  afterEach(() => {
+    delete process.env.AUTH_ENABLED;
+  });
+
+  describe('managing tokens', () => {
+    it('should create a token and only return its value once', async () => {
+      const created = await admin.post('/api/tokens').send({ name: 'iOS Shortcut', scope: 'upload' });
+
+      expect(created.status).toBe(201);
+      expect(created.body.name).toBe('iOS Shortcut');
+      expect(created.body.scope).toBe('upload');
+      expect(created.body.token).toMatch(/^msk_/);
+      expect(created.body.token.startsWith(created.body.token_prefix)).toBe(true);
+      expect(created.body.last_used_at).toBeNull();
+
+      const list = await admin.get('/api/tokens');
+      expect(list.body).toHaveLength(1);
+      expect(list.body[0].token).toBeUndefined();
+      expect(list.body[0].token_hash).toBeUndefined();
+    });
+
+    it('should validate the name and scope', async () => {
+      const noName = await admin.post('/api/tokens').send({ name: ' ', scope: 'read' });
+      expect(noName.status).toBe(400);
+      expect(noName.body.error).toBe('Token name is required');
+
+      const badScope = await admin.post('/api/tokens').send({ name: 'Script', scope: 'admin' });
+      expect(badScope.status).toBe(400);
+      expect(badScope.body.error).toBe('Scope must be one of: read, upload, full');
+    });
+
+    it('should revoke a token', async () => {
+      const token = await createToken('full');
+      const { body: [apiToken] } = await admin.get('/api/tokens');
+
+      expect((await admin.delete(`/api/tokens/${apiToken.id}`)).status).toBe(204);
+      expect((await admin.delete(`/api/tokens/${apiToken.id}`)).status).toBe(404);
+
+      const response = await request(app).get('/api/receipts').set('Authorization', `Bearer ${token}`);
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Invalid API token');
+    });
+
+    it('should not list or revoke tokens of other accounts', async () => {
+      await createToken('full');
+      const { body: [apiToken] } = await admin.get('/api/tokens');
+      await admin.post('/api/accounts').send({ username: 'editor', password: 'battery staple', role: 'editor' });
+      const editor = request.agent(app);
+      await editor.post('/api/auth/login').send({ username: 'editor', password: 'battery staple' });
+
+      expect((await editor.get('/api/tokens')).body).toEqual([]);
+      expect((await editor.delete(`/api/tokens/${apiToken.id}`)).status).toBe(404);
+    });
+  });
+
+  describe('authenticating with a token', () => {
+    it('should authenticate requests and record when the token was last used', async () => {
+      const token = await createToken('read');
+
+      const response = await request(app).get(`/api/receipts/${receiptId}`).set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      const { body: [apiToken] } = await admin.get('/api/tokens');
+      expect(apiToken.last_used_at).not.toBeNull();
+    });
+
+    it('should reject unknown tokens', async () => {
+      const response = await request(app).get('/api/receipts').set('Authorization', 'Bearer msk_unknown');
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Invalid API token');
+    });
+
+    it('should only allow reading with a read token', async () => {
+      const token = await createToken('read');
+
+      expect((await request(app).get('/api/stats/summary').set('Authorization', `Bearer ${token}`)).status).toBe(200);
+
+      const response = await request(app)
+        .put(`/api/receipts/${receiptId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ vendor: 'Changed' });
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('This API token does not allow this request');
+    });
+
+    it('should only allow uploading receipts with an upload token', async () => {
+      const token = await createToken('upload');
+
+      // Reaching validation shows the request got past authentication
+      const upload = await request(app).post('/api/receipts').set('Authorization', `Bearer ${token}`).field('vendor', 'Clinic');
+      expect(upload.status).toBe(400);
+      expect(upload.body.error).toBe('At least one file is required');
+
+      expect((await request(app).get('/api/users').set('Authorization', `Bearer ${token}`)).status).toBe(200);
+      expect((await request(app).get('/api/receipts').set('Authorization', `Bearer ${token}`)).status).toBe(403);
+      expect((await request(app).delete(`/api/receipts/${receiptId}`).set('Authorization', `Bearer ${token}`)).status).toBe(403);
+    });
+
+    it('should allow changes with a full token but not token or account management', async () => {
+      const token = await createToken('full');
+
+      const update = await request(app)
+        .put(`/api/receipts/${receiptId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ vendor: 'Changed' });
+      expect(update.status).toBe(200);
+
+      expect((await request(app).post('/api/tokens').set('Authorization', `Bearer ${token}`).send({ name: 'More', scope: 'full' })).status).toBe(403);
+      expect((await request(app).get('/api/accounts').set('Authorization', `Bearer ${token}`)).status).toBe(403);
+    });
+
+    it('should not allow token or account management through mixed-case paths', async () => {
+      const token = await createToken('full');
+
+      expect((await request(app).post('/api/Tokens').set('Authorization', `Bearer ${token}`).send({ name: 'More', scope: 'full' })).status).toBe(403);
+      expect((await request(app).get('/api/TOKENS/').set('Authorization', `Bearer ${token}`)).status).toBe(403);
+      expect(
+        (await request(app).post('/api/ACCOUNTS').set('Authorization', `Bearer ${token}`).send({ username: 'intruder', password: 'battery staple', role: 'admin' })).status
+      ).toBe(403);
+      expect((await request(app).get('/api/Accounts').set('Authorization', `Bearer ${token}`)).status).toBe(403);
+    });
+
+    it('should not grant more than the account role allows', async () => {
+      await admin.post('/api/accounts').send({ username: 'viewer', password: 'battery staple', role: 'viewer' });
+      const viewer = request.agent(app);
+      await viewer.post('/api/auth/login').send({ username: 'viewer', password: 'battery staple' });
+      const { body } = await viewer.post('/api/tokens').send({ name: 'Script', scope: 'full' });
+
+      const response = await request(app)
+        .put(`/api/receipts/${receiptId}`)
+        .set('Authorization', `Bearer ${body.token}`)
+        .send({ vendor: 'Changed' });
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('You do not have permission to do this');
+    });
+
+    it('should ignore tokens when authentication is disabled', async () => {
+      delete process.env.AUTH_ENABLED;
+
+      const response = await request(app).get('/api/receipts').set('Authorization', 'Bearer msk_unknown');
+
+      expect(response.status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { createTestApp } from '../helpers/testServer';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+describe('Auth API', () => {
+  const app = createTestApp();
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM sessions;
+      DELETE FROM accounts;
+    `);
+    process.env.AUTH_ENABLED = 'true';
+  });
+
+  afterEach(() => {
+    delete process.env.AUTH_ENABLED;
+  });
+
+  async function createAccount(username = 'parent', password = 'correct horse') {
+    const { createAccount } = await import('../../src/services/authService');
+    return createAccount(username, password);
+  }
+
+  describe('when disabled', () => {
+    it('should report auth as disabled and leave the API open', async () => {
+      delete process.env.AUTH_ENABLED;
+
+      const status = await request(app).get('/api/auth/status');
+      expect(status.body).toEqual({ enabled: false, authenticated: true, needs_setup: false, account: null });
+
+      const response = await request(app).get('/api/flags');
+      expect(response.status).toBe(200);
+    });
+
+    it('should reject login', async () => {
+      delete process.env.AUTH_ENABLED;
+
+      const response = await request(app).post('/api/auth/login').send({ username: 'parent', password: 'correct horse' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Authentication is not enabled');
+    });
+  });
+
+  describe('GET /api/auth/status', () => {
+    it('should ask for setup when no account exists', async () => {
+      const response = await request(app).get('/api/auth/status');
+
+      expect(response.body).toEqual({ enabled: true, authenticated: false, needs_setup: true, account: null });
+    });
+  });
+
+  describe('middleware', () => {
+    it('should require a session for API routes but not for health', async () => {
+      const response = await request(app).get('/api/receipts');
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Authentication required');
+
+      const health = await request(app).get('/health');
+      expect(health.status).toBe(200);
+    });
+
+    it('should reject unknown session cookies', async () => {
+      const response = await request(app).get('/api/flags').set('Cookie', 'medstash_session=forged');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/auth/setup', () => {
+    it('should create the first account and start a session', async () => {
+      const agent = request.agent(app);
+
+      const response = await agent.post('/api/auth/setup').send({ username: 'parent', password: 'correct horse' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.username).toBe('parent');
+      expect(response.body.password_hash).toBeUndefined();
+      expect(response.headers['set-cookie'][0]).toMatch(/^medstash_session=.+HttpOnly; SameSite=Lax/);
+
+      const status = await agent.get('/api/auth/status');
+      expect(status.body.authenticated).toBe(true);
+      expect(status.body.account.username).toBe('parent');
+      expect((await agent.get('/api/flags')).status).toBe(200);
+    });
+
+    it('should refuse once an account exists', async () => {
+      await createAccount();
+
+      const response = await request(app).post('/api/auth/setup').send({ username: 'intruder', password: 'whatever123' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Setup has already been completed');
+    });
+
+    it('should create only one account when setups race each other', async () => {
+      const { getAccountCount } = await import('../../src/services/authService');
+      const responses = await Promise.all([
+        request(app).post('/api/auth/setup').send({ username: 'parent', password: 'correct horse' }),
+        request(app).post('/api/auth/setup').send({ username: 'intruder', password: 'whatever123' }),
+      ]);
+
+      expect(responses.map((response) => response.status).sort()).toEqual([201, 409]);
+      expect(getAccountCount()).toBe(1);
+    });
+
+    it('should reject short passwords', async () => {
+      const response = await request(app).post('/api/auth/setup').send({ username: 'parent', password: 'short' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Password must be at least 8 characters');
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('should log in with valid credentials, case-insensitive username', async () => {
+      await createAccount();
+      const agent = request.agent(app);
+
+      const response = await agent.post('/api/auth/login').send({ username: 'Parent', password: 'correct horse' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.username).toBe('parent');
+      expect((await agent.get('/api/flags')).status).toBe(200);
+
+      const { dbQueries } = await import('../../src/db');
+      expect(dbQueries.getAccountById.get(response.body.id).last_login_at).not.toBeNull();
+    });
+
+    it('should reject a wrong password or unknown user', async () => {
+      await createAccount();
+
+      const wrongPassword = await request(app).post('/api/auth/login').send({ username: 'parent', password: 'wrong horse' });
+      const unknownUser = await request(app).post('/api/auth/login').send({ username: 'nobody', password: 'correct horse' });
+
+      expect(wrongPassword.status).toBe(401);
+      expect(wrongPassword.body.error).toBe('Invalid username or password');
+      expect(unknownUser.status).toBe(401);
+      expect(wrongPassword.headers['set-cookie']).toBeUndefined();
+    });
+
+    it('should reject expired sessions', async () => {
+      const account = await createAccount();
+      const { createSession } = await import('../../src/services/authService');
+      const { token } = createSession(account.id);
+      const { db } = await import('../../src/db');
+      db.prepare('UPDATE sessions SET expires_at = ?').run(new Date(Date.now() - 1000).toISOString());
+
+      const response = await request(app).get('/api/flags').set('Cookie', `medstash_session=${token}`);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should end the session', async () => {
+      await createAccount();
+      const agent = request.agent(app);
+      await agent.post('/api/auth/login').send({ username: 'parent', password: 'correct horse' });
+
+      const response = await agent.post('/api/auth/logout');
+
+      expect(response.status).toBe(204);
+      expect((await agent.get('/api/flags')).status).toBe(401);
+    });
+  });
+});
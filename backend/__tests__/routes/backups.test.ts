@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import fs from 'fs/promises';
+import path from 'path';
+import { tmpdir } from 'os';
+import { createTestApp } from '../helpers/testServer';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+import { createBackup } from '../../src/services/backupService';
+import { createUser, getAllUsers } from '../../src/services/dbService';
+import { processJobQueue } from '../../src/services/jobService';
+
+describe('Backups API', () => {
+  const app = createTestApp();
+  let dir: string;
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM jobs;
+      DELETE FROM receipt_files;
+      DELETE FROM receipt_flags;
+      DELETE FROM receipts;
+      DELETE FROM users;
+    `);
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'medstash-backups-'));
+    process.env.BACKUP_DIR = path.join(dir, 'backups');
+    process.env.RECEIPTS_DIR = path.join(dir, 'receipts');
+    process.env.THUMBNAILS_DIR = path.join(dir, 'thumbnails');
+  });
+
+  afterEach(async () => {
+    delete process.env.BACKUP_DIR;
+    delete process.env.RECEIPTS_DIR;
+    delete process.env.THUMBNAILS_DIR;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('POST /api/backups', () => {
+    it('should queue a backup and list it once created', async () => {
+      const response = await request(app).post('/api/backups');
+
+      expect(response.status).toBe(202);
+      expect(response.body.type).toBe('create-backup');
+
+      await processJobQueue();
+      const job = await request(app).get(`/api/jobs/${response.body.id}`);
+      expect(job.body.status).toBe('completed');
+
+      const list = await request(app).get('/api/backups');
+      expect(list.status).toBe(200);
+      expect(list.body.directory).toBe(path.join(dir, 'backups'));
+      expect(list.body.backups).toEqual([
+        expect.objectContaining({ name: job.body.result.name, kind: 'manual' }),
+      ]);
+    });
+  });
+
+  describe('GET /api/backups/:name/download', () => {
+    it('should download an archive and reject names outside the backup directory', async () => {
+      const backup = await createBackup('manual');
+
+      const response = await request(app).get(`/api/backups/${backup.name}/download`);
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toContain(backup.name);
+
+      const invalid = await request(app).get('/api/backups/..%2Fmedstash.db/download');
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe('Invalid backup name');
+
+      const missing = await request(app).get('/api/backups/medstash-manual-2024-01-01T00-00-00-000.tar.gz/download');
+      expect(missing.status).toBe(404);
+      expect(missing.body.error).toBe('Backup not found');
+    });
+  });
+
+  describe('POST /api/backups/upload', () => {
+    it('should store valid archives and reject anything else', async () => {
+      const backup = await createBackup('manual');
+
+      const response = await request(app)
+        .post('/api/backups/upload')
+        .attach('archive', path.join(dir, 'backups', backup.name));
+      expect(response.status).toBe(201);
+      expect(response.body.kind).toBe('uploaded');
+
+      const invalid = await request(app)
+        .post('/api/backups/upload')
+        .attach('archive', Buffer.from('not a backup'), 'backup.tar.gz');
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toContain("The archive can't be read");
+    });
+  });
+
+  describe('POST /api/backups/:name/restore', () => {
+    it('should queue a restore that brings back the backed up data', async () => {
+      createUser('Alice');
+      const backup = await createBackup('manual');
+      createUser('Bob');
+
+      const response = await request(app).post(`/api/backups/${backup.name}/restore`);
+
+      expect(response.status).toBe(202);
+      expect(response.body.type).toBe('restore-backup');
+      await processJobQueue();
+      const job = await request(app).get(`/api/jobs/${response.body.id}`);
+      expect(job.body.status).toBe('completed');
+      expect(getAllUsers().map(user => user.name)).toEqual(['Alice']);
+    });
+  });
+
+  describe('DELETE /api/backups/:name', () => {
+    it('should delete a backup', async () => {
+      const backup = await createBackup('manual');
+
+      const response = await request(app).delete(`/api/backups/${backup.name}`);
+
+      expect(response.status).toBe(204);
+      expect((await request(app).get('/api/backups')).body.backups).toEqual([]);
+      expect((await request(app).delete(`/api/backups/${backup.name}`)).status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { createTestApp } from '../helpers/testServer';
+import { setupTestFiles, cleanupTestFiles } from '../helpers/testFiles';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+import { addReceiptFile, createReceipt, createUser, getReceiptById } from '../../src/services/dbService';
+import { getReceiptFilePathByDate } from '../../src/services/fileService';
+import { setReceiptFileHashes } from '../../src/services/duplicateService';
+import { processJobQueue } from '../../src/services/jobService';
+
+describe('Duplicates API', () => {
+  const app = createTestApp();
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM jobs;
+      DELETE FROM duplicate_dismissals;
+      DELETE FROM receipt_files;
+      DELETE FROM receipt_flags;
+      DELETE FROM receipts;
+      DELETE FROM users;
+    `);
+  });
+
+  /**
+   * Create two receipts of the same visit
+   */
+  function createDuplicatePair() {
+    const alice = createUser('Alice');
+    const details = { user_id: alice.id, date: '2024-02-10', vendor: 'Smile Dental', amount: 85 };
+    return [createReceipt(details), createReceipt(details)];
+  }
+
+  describe('GET /api/duplicates', () => {
+    it('should list likely duplicates with the reasons they match', async () => {
+      const [first, second] = createDuplicatePair();
+      const hashes = { content_hash: 'a'.repeat(64), perceptual_hash: null };
+      setReceiptFileHashes(addReceiptFile(first.id, 'a.pdf', 'scan.pdf', 0).id, hashes);
+      setReceiptFileHashes(addReceiptFile(second.id, 'b.pdf', 'scan.pdf', 0).id, hashes);
+
+      const response = await request(app).get('/api/duplicates');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].receipts.map((r: any) => r.id)).toEqual([first.id, second.id]);
+      expect(response.body[0].reasons).toEqual(['identical_file', 'same_details']);
+    });
+  });
+
+  describe('POST /api/duplicates/dismiss', () => {
+    it('should stop listing a dismissed pair', async () => {
+      const [first, second] = createDuplicatePair();
+
+      const response = await request(app)
+        .post('/api/duplicates/dismiss')
+        .send({ receipt_ids: [second.id, first.id] });
+
+      expect(response.status).toBe(204);
+      expect((await request(app).get('/api/duplicates')).body).toEqual([]);
+    });
+
+    it('should reject anything but two different receipts', async () => {
+      const [first] = createDuplicatePair();
+
+      const same = await request(app)
+        .post('/api/duplicates/dismiss')
+        .send({ receipt_ids: [first.id, first.id] });
+      expect(same.status).toBe(400);
+      expect(same.body.error).toBe('receipt_ids must be two different receipt IDs');
+
+      const missing = await request(app)
+        .post('/api/duplicates/dismiss')
+        .send({ receipt_ids: [first.id, 999] });
+      expect(missing.status).toBe(404);
+      expect(missing.body.error).toBe('Receipt not found');
+    });
+  });
+
+  describe('POST /api/duplicates/scan', () => {
+    it('should queue fingerprinting of stored files', async () => {
+      const response = await request(app).post('/api/duplicates/scan');
+
+      expect(response.status).toBe(202);
+      expect(response.body.type).toBe('hash-files');
+
+      await processJobQueue();
+      const job = await request(app).get(`/api/jobs/${response.body.id}`);
+      expect(job.body.status).toBe('completed');
+      expect(job.body.result).toEqual({ total: 0, hashed: 0, errors: [] });
+    });
+  });
+
+  describe('PUT /api/receipts/:id/files/:fileId', () => {
+    beforeEach(async () => {
+      await setupTestFiles();
+    });
+
+    afterEach(async () => {
+      await cleanupTestFiles();
+    });
+
+    it('should fingerprint the replacement file', async () => {
+      const receipt = createReceipt({ user: 'Alice', type: 'Dental', date: '2024-03-01', vendor: 'Smile Dental', amount: 85 });
+      const filePath = getReceiptFilePathByDate('Alice', '2024-03-01', 'scan.pdf', 'Dental');
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, '%PDF-1.4 old scan');
+      const file = addReceiptFile(receipt.id, 'scan.pdf', 'scan.pdf', 0);
+      setReceiptFileHashes(file.id, { content_hash: 'a'.repeat(64), perceptual_hash: null });
+
+      const content = Buffer.from('%PDF-1.4 new scan');
+      const response = await request(app)
+        .put(`/api/receipts/${receipt.id}/files/${file.id}`)
+        .attach('file', content, 'rescan.pdf');
+
+      expect(response.status).toBe(200);
+      const replaced = getReceiptById(receipt.id)!.files[0];
+      expect(replaced.content_hash).toBe(crypto.createHash('sha256').update(content).digest('hex'));
+    });
+  });
+});
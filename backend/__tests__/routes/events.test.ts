@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { createTestApp } from '../helpers/testServer';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+import { createReceipt, createUser } from '../../src/services/dbService';
+import { publishEvent } from '../../src/services/eventService';
+
+describe('Events API', () => {
+  const app = createTestApp();
+  let server: http.Server;
+  let openStreams: http.ClientRequest[];
+
+  /**
+   * Open the event stream and collect the events it receives
+   */
+  async function openEventStream(cookie?: string) {
+    const { port } = server.address() as AddressInfo;
+    const events: Array<{ type: string; data: any }> = [];
+    let buffer = '';
+
+    const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+      const req = http.get({ port, path: '/api/events', headers: cookie ? { Cookie: cookie } : {} }, resolve);
+      req.on('error', reject);
+      openStreams.push(req);
+    });
+    response.setEncoding('utf8');
+    response.on('data', (chunk: string) => {
+      buffer += chunk;
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop()!;
+      for (const message of messages) {
+        const type = /^event: (.+)$/m.exec(message)?.[1];
+        const data = /^data: (.+)$/m.exec(message)?.[1];
+        if (type && data) events.push({ type, data: JSON.parse(data) });
+      }
+    });
+
+    return { response, events };
+  }
+
+  // Give the stream a moment to deliver published events
+  const flush = () => new Promise(resolve => setTimeout(resolve, 50));
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM receipt_flags;
+      DELETE FROM receipt_files;
+      DELETE FROM receipts;
+      DELETE FROM receipts_fts;
+      DELETE FROM users;
+      DELETE FROM account_users;
+      DELETE FROM sessions;
+      DELETE FROM accounts;
+    `);
+    openStreams = [];
+    server = app.listen(0);
+  });
+
+  afterEach(async () => {
+    delete process.env.AUTH_ENABLED;
+    openStreams.forEach(req => req.destroy());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should stream events as they are published', async () => {
+    const { response, events } = await openEventStream();
+    const userId = createUser('Parent').id;
+
+    const receipt = createReceipt({ user_id: userId, vendor: 'Clinic' });
+    publishEvent('watch.scan_completed', { last_scan: null });
+    await flush();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    expect(events).toEqual([
+      { type: 'receipt.created', data: { receipt_id: receipt.id, user_id: userId } },
+      { type: 'watch.scan_completed', data: { last_scan: null } },
+    ]);
+  });
+
+  it('should only stream receipt events of the account\'s users', async () => {
+    process.env.AUTH_ENABLED = 'true';
+    const teenUserId = createUser('Teen').id;
+    const parentUserId = createUser('Parent').id;
+    const admin = request.agent(app);
+    await admin.post('/api/auth/setup').send({ username: 'admin', password: 'correct horse' });
+    await admin.post('/api/accounts').send({ username: 'teen', password: 'battery staple', role: 'viewer', user_ids: [teenUserId] });
+    const login = await request(app).post('/api/auth/login').send({ username: 'teen', password: 'battery staple' });
+    const cookie = login.headers['set-cookie'][0].split(';')[0];
+
+    const { events } = await openEventStream(cookie);
+    const teenReceipt = createReceipt({ user_id: teenUserId });
+    createReceipt({ user_id: parentUserId });
+    publishEvent('job.updated', { job: { id: 1 } });
+    await flush();
+
+    expect(events.map(event => [event.type, event.data.receipt_id])).toEqual([['receipt.created', teenReceipt.id]]);
+  });
+
+  it('should require login when authentication is enabled', async () => {
+    process.env.AUTH_ENABLED = 'true';
+
+    const response = await request(app).get('/api/events');
+
+    expect(response.status).toBe(401);
+  });
+});
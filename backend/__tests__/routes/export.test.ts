@@ -7,6 +7,9 @@ import { createReceiptFixture } from '../helpers/fixtures';
 import { sanitizeFilename } from '../../src/utils/filename';
 import path from 'path';
 import fs from 'fs/promises';
+import os from 'os';
+import { createReceipt } from '../../src/services/dbService';
+import { listZipEntries } from '../../src/utils/zip';
 
 // Mock the db module using factory function
 vi.mock('../../src/db', async () => {
@@ -287,5 +290,99 @@ describe('Export API', () => {
       }
     });
   });
-});
 
+  describe('GET /api/export with filters and layouts', () => {
+    /**
+     * Create a receipt with a PDF file stored where the file service looks for it
+     */
+    async function createStoredReceipt(user: string, date: string, vendor: string) {
+      const receipt = createReceipt({ user, type: 'Dental', date, vendor, amount: 40 }, []);
+      const receiptDir = path.join(testDirs.receiptsDir, sanitizeFilename(user), ...date.split('-'));
+      await fs.mkdir(receiptDir, { recursive: true });
+      await createTestPdfFile(receiptDir, `${vendor}.pdf`);
+      dbQueries.insertReceiptFile.run(receipt.id, `${vendor}.pdf`, 'scan.pdf', 0);
+      return receipt;
+    }
+
+    /**
+     * Download an export and list the paths in the archive
+     */
+    async function exportEntries(query: Record<string, string>): Promise<string[]> {
+      const response = await request(app)
+        .get('/api/export')
+        .query(query)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        });
+      expect(response.status).toBe(200);
+      const archivePath = path.join(os.tmpdir(), `medstash-export-test-${Date.now()}.zip`);
+      await fs.writeFile(archivePath, response.body);
+      try {
+        return (await listZipEntries(archivePath)).map(entry => entry.path).sort();
+      } finally {
+        await fs.rm(archivePath, { force: true });
+      }
+    }
+
+    it('should only export receipts matching the filters', async () => {
+      const alice2024 = await createStoredReceipt('Alice', '2024-05-10', 'Smile');
+      const alice2023 = await createStoredReceipt('Alice', '2023-12-31', 'Smile');
+      const bob2024 = await createStoredReceipt('Bob', '2024-02-01', 'Smile');
+      const aliceId = (dbQueries.getUserByName.get('Alice') as { id: number }).id;
+
+      const byYearAndUser = await exportEntries({ year: '2024', user_id: String(aliceId) });
+      expect(byYearAndUser).toEqual(['manifest.json', `receipt-${alice2024.id}/metadata.json`, `receipt-${alice2024.id}/scan.pdf`]);
+
+      const byIds = await exportEntries({ ids: `${alice2023.id},${bob2024.id}` });
+      expect(byIds.filter(entry => entry.endsWith('metadata.json'))).toEqual([
+        `receipt-${alice2023.id}/metadata.json`,
+        `receipt-${bob2024.id}/metadata.json`,
+      ]);
+    });
+
+    it('should leave receipts in the trash out of exports', async () => {
+      const kept = await createStoredReceipt('Alice', '2024-05-10', 'Smile');
+      const trashed = await createStoredReceipt('Alice', '2024-05-11', 'Braces');
+      dbQueries.trashReceipt.run(trashed.id);
+
+      const all = await exportEntries({});
+      expect(all.filter(entry => entry.endsWith('metadata.json'))).toEqual([`receipt-${kept.id}/metadata.json`]);
+
+      const selected = await exportEntries({ ids: `${kept.id},${trashed.id}` });
+      expect(selected.filter(entry => entry.endsWith('metadata.json'))).toEqual([`receipt-${kept.id}/metadata.json`]);
+    });
+
+    it('should arrange the archive by user and year or in one folder', async () => {
+      const receipt = await createStoredReceipt('Alice', '2024-05-10', 'Smile');
+
+      expect(await exportEntries({ layout: 'user-year' })).toEqual([
+        `alice/2024/receipt-${receipt.id}/metadata.json`,
+        `alice/2024/receipt-${receipt.id}/scan.pdf`,
+        'manifest.json',
+      ]);
+
+      const flat = await exportEntries({ layout: 'flat' });
+      expect(flat).toContain(`metadata/receipt-${receipt.id}/metadata.json`);
+      expect(flat.filter(entry => !entry.includes('/'))).toEqual([
+        `2024-05-10_alice_smile_40-00_dental_0[${receipt.id}-0].pdf`,
+        'manifest.json',
+      ]);
+    });
+
+    it('should reject invalid filters and layouts', async () => {
+      const layout = await request(app).get('/api/export').query({ layout: 'nested' });
+      expect(layout.status).toBe(400);
+      expect(layout.body.error).toBe('Layout must be one of: receipt, user-year, flat');
+
+      const year = await request(app).get('/api/export').query({ year: '24' });
+      expect(year.status).toBe(400);
+      expect(year.body.error).toBe('Invalid year: must be a four-digit year');
+
+      const range = await request(app).get('/api/export').query({ year: '2024', date_from: '2024-03-01' });
+      expect(range.status).toBe(400);
+    });
+  });
+});
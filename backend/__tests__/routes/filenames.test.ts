@@ -4,6 +4,7 @@ import { createTestApp } from '../helpers/testServer';
 import { setupTestDb, createTestDbQueries } from '../helpers/testDb';
 import { setupTestFiles, cleanupTestFiles, createTestPdfFile } from '../helpers/testFiles';
 import { sanitizeFilename } from '../../src/utils/filename';
+import { processJobQueue } from '../../src/services/jobService';
 import path from 'path';
 import fs from 'fs/promises';
 
@@ -67,6 +68,14 @@ describe('Filenames API', () => {
     return { userId: user.id, typeId: type.id };
   }
 
+  // Queue a rename job, run it and return the finished job
+  async function renameAllAndWait() {
+    const response = await request(app).post('/api/filenames/rename-all');
+    expect(response.status).toBe(202);
+    await processJobQueue();
+    return (await request(app).get(`/api/jobs/${response.body.id}`)).body;
+  }
+
   describe('POST /api/filenames/rename-all', () => {
     it('should rename all files when pattern is set', async () => {
       // Create a flag
@@ -104,14 +113,13 @@ describe('Filenames API', () => {
       dbQueries.setSetting.run('filenamePattern', JSON.stringify('{date}_{user}_{flags}_{index}'));
 
       // Call rename endpoint
-      const response = await request(app).post('/api/filenames/rename-all');
+      const job = await renameAllAndWait();
 
-      expect(response.status).toBe(200);
-      expect(response.body.success).toBe(true);
-      expect(response.body.totalReceipts).toBe(1);
-      expect(response.body.totalFiles).toBe(1);
-      expect(response.body.renamed).toBe(1);
-      expect(response.body.errors).toHaveLength(0);
+      expect(job.status).toBe('completed');
+      expect(job.result.totalReceipts).toBe(1);
+      expect(job.result.totalFiles).toBe(1);
+      expect(job.result.renamed).toBe(1);
+      expect(job.result.errors).toHaveLength(0);
 
       // Verify file was renamed (filename will include [receiptId-index] suffix)
       const files = dbQueries.getFilesByReceiptId.all(receiptId);
@@ -181,12 +189,12 @@ describe('Filenames API', () => {
       // Set new pattern
       dbQueries.setSetting.run('filenamePattern', JSON.stringify('{user}_{date}_{index}'));
 
-      const response = await request(app).post('/api/filenames/rename-all');
+      const job = await renameAllAndWait();
 
-      expect(response.status).toBe(200);
-      expect(response.body.totalReceipts).toBe(2);
-      expect(response.body.totalFiles).toBe(3);
-      expect(response.body.renamed).toBe(3);
+      expect(job.status).toBe('completed');
+      expect(job.result.totalReceipts).toBe(2);
+      expect(job.result.totalFiles).toBe(3);
+      expect(job.result.renamed).toBe(3);
     });
 
     it('should handle receipts with flags', async () => {
@@ -223,10 +231,10 @@ describe('Filenames API', () => {
       // Set pattern with flags
       dbQueries.setSetting.run('filenamePattern', JSON.stringify('{date}_{flags}_{index}'));
 
-      const response = await request(app).post('/api/filenames/rename-all');
+      const job = await renameAllAndWait();
 
-      expect(response.status).toBe(200);
-      expect(response.body.renamed).toBe(1);
+      expect(job.status).toBe('completed');
+      expect(job.result.renamed).toBe(1);
 
       // Verify filename includes flags
       const files = dbQueries.getFilesByReceiptId.all(receiptId);
@@ -259,10 +267,10 @@ describe('Filenames API', () => {
       // Set pattern with flags token (should result in empty string for flags)
       dbQueries.setSetting.run('filenamePattern', JSON.stringify('{date}_{flags}_{index}'));
 
-      const response = await request(app).post('/api/filenames/rename-all');
+      const job = await renameAllAndWait();
 
-      expect(response.status).toBe(200);
-      expect(response.body.renamed).toBe(1);
+      expect(job.status).toBe('completed');
+      expect(job.result.renamed).toBe(1);
 
       // Verify filename doesn't have extra separators from empty flags
       const files = dbQueries.getFilesByReceiptId.all(receiptId);
@@ -284,12 +292,12 @@ describe('Filenames API', () => {
       );
       const receiptId = receiptResult.lastInsertRowid as number;
 
-      const response = await request(app).post('/api/filenames/rename-all');
+      const job = await renameAllAndWait();
 
-      expect(response.status).toBe(200);
-      expect(response.body.totalReceipts).toBe(1);
-      expect(response.body.totalFiles).toBe(0);
-      expect(response.body.renamed).toBe(0);
+      expect(job.status).toBe('completed');
+      expect(job.result.totalReceipts).toBe(1);
+      expect(job.result.totalFiles).toBe(0);
+      expect(job.result.renamed).toBe(0);
     });
 
     it('should handle errors gracefully', async () => {
@@ -310,14 +318,14 @@ describe('Filenames API', () => {
       // Insert file record but don't create actual file
       dbQueries.insertReceiptFile.run(receiptId, 'missing-file.pdf', 'original.pdf', 0);
 
-      const response = await request(app).post('/api/filenames/rename-all');
+      const job = await renameAllAndWait();
 
-      expect(response.status).toBe(200);
-      expect(response.body.totalReceipts).toBe(1);
-      expect(response.body.totalFiles).toBe(1);
+      expect(job.status).toBe('completed');
+      expect(job.result.totalReceipts).toBe(1);
+      expect(job.result.totalFiles).toBe(1);
       // File doesn't exist on disk, but database filename is still updated to match current pattern
       // This keeps the database consistent even when files are missing
-      expect(response.body.renamed).toBe(1);
+      expect(job.result.renamed).toBe(1);
     });
 
     it('should use default pattern when no pattern is set', async () => {
@@ -342,12 +350,12 @@ describe('Filenames API', () => {
       dbQueries.insertReceiptFile.run(receiptId, oldFilename, 'original.pdf', 0);
 
       // Don't set pattern - should use default
-      const response = await request(app).post('/api/filenames/rename-all');
+      const job = await renameAllAndWait();
 
-      expect(response.status).toBe(200);
+      expect(job.status).toBe('completed');
       // Since pattern matches default, filename shouldn't change
       // But the rename operation should still complete successfully
-      expect(response.body.renamed).toBe(0); // No change needed
+      expect(job.result.renamed).toBe(0); // No change needed
     });
   });
 });
@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import archiver from 'archiver';
+import fs from 'fs/promises';
+import path from 'path';
+import { createTestApp } from '../helpers/testServer';
+import { setupTestFiles, cleanupTestFiles } from '../helpers/testFiles';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+import {
+  addReceiptFile,
+  createFlag,
+  createReceipt,
+  createReceiptTypeGroup,
+  createReceiptType,
+  createUser,
+  getAllFlags,
+  getAllReceipts,
+  getAllReceiptTypes,
+  getSetting,
+  setSetting,
+} from '../../src/services/dbService';
+import { findReceiptFilePath, getReceiptFilePathByDate } from '../../src/services/fileService';
+import { computeFileHashes, setReceiptFileHashes } from '../../src/services/duplicateService';
+import { getRecentJobs, processJobQueue } from '../../src/services/jobService';
+
+describe('Import API', () => {
+  const app = createTestApp();
+  let testDirs: { receiptsDir: string; uploadDir: string };
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM jobs;
+      DELETE FROM receipt_flags;
+      DELETE FROM receipt_files;
+      DELETE FROM receipts;
+      DELETE FROM flags;
+      DELETE FROM receipt_types;
+      DELETE FROM receipt_type_groups;
+      DELETE FROM users;
+      DELETE FROM settings;
+    `);
+    testDirs = await setupTestFiles();
+  });
+
+  afterEach(async () => {
+    await cleanupTestFiles();
+  });
+
+  /**
+   * Clear everything an import brings back, as on a fresh instance
+   */
+  async function clearLibrary() {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM receipt_flags;
+      DELETE FROM receipt_files;
+      DELETE FROM receipts;
+      DELETE FROM flags;
+      DELETE FROM receipt_types;
+      DELETE FROM receipt_type_groups;
+      DELETE FROM users;
+      DELETE FROM settings;
+    `);
+    await fs.rm(testDirs.receiptsDir, { recursive: true, force: true });
+    await fs.mkdir(testDirs.receiptsDir, { recursive: true });
+  }
+
+  /**
+   * Create a receipt with a PDF file stored on disk
+   */
+  async function createStoredReceipt(vendor: string, content: string) {
+    const receipt = createReceipt({ user: 'Alice', type: 'Dental', date: '2024-03-01', vendor, amount: 85 }, [
+      createFlag('Tax').id,
+    ]);
+    const filePath = getReceiptFilePathByDate('Alice', '2024-03-01', `${vendor}.pdf`);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    const file = addReceiptFile(receipt.id, `${vendor}.pdf`, 'scan.pdf', 0);
+    setReceiptFileHashes(file.id, await computeFileHashes(filePath, 'scan.pdf'));
+    return receipt;
+  }
+
+  /**
+   * Download the export archive to the upload directory
+   */
+  async function downloadExport(query: Record<string, string> = {}): Promise<string> {
+    const response = await request(app)
+      .get('/api/export')
+      .query(query)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+    const archivePath = path.join(testDirs.uploadDir, 'medstash-export.zip');
+    await fs.writeFile(archivePath, response.body);
+    return archivePath;
+  }
+
+  /**
+   * Upload an archive and run the import job
+   */
+  async function importArchive(archivePath: string, conflict?: string) {
+    const upload = request(app).post('/api/import').attach('archive', archivePath);
+    const response = await (conflict ? upload.field('conflict', conflict) : upload);
+    expect(response.status).toBe(202);
+    expect(response.body.type).toBe('import-receipts');
+
+    await processJobQueue();
+    const job = await request(app).get(`/api/jobs/${response.body.id}`);
+    expect(job.body.status).toBe('completed');
+    return job.body.result;
+  }
+
+  describe('POST /api/import', () => {
+    it('should recreate receipts, files, users, types, flags and settings from an export', async () => {
+      const group = createReceiptTypeGroup('Medical', 0);
+      createReceiptType('Dental', group.id, 3);
+      createUser('Bob');
+      setSetting('ocrEnabled', 'false');
+      await createStoredReceipt('Smile Dental', '%PDF-1.4 smile');
+      const archivePath = await downloadExport();
+      await clearLibrary();
+
+      const result = await importArchive(archivePath);
+
+      expect(result).toEqual(
+        expect.objectContaining({ receipts: 1, created: 1, files: 1, users_created: 2, flags_created: 1, errors: [] })
+      );
+      const [receipt] = getAllReceipts();
+      expect(receipt).toEqual(
+        expect.objectContaining({ user: 'Alice', type: 'Dental', vendor: 'Smile Dental', amount: 85, date: '2024-03-01' })
+      );
+      expect(receipt.flags.map(flag => flag.name)).toEqual(['Tax']);
+      expect(receipt.files.map(file => file.original_filename)).toEqual(['scan.pdf']);
+      const storedPath = await findReceiptFilePath(receipt.id, receipt.files[0].filename);
+      expect(await fs.readFile(storedPath!, 'utf-8')).toBe('%PDF-1.4 smile');
+      expect(getAllReceiptTypes().find(type => type.name === 'Dental')).toEqual(
+        expect.objectContaining({ group_id: expect.any(Number), display_order: 3 })
+      );
+      expect(getSetting('ocrEnabled')).toBe('false');
+    });
+
+    it('should skip, merge or overwrite receipts that are already stored', async () => {
+      await createStoredReceipt('Smile Dental', '%PDF-1.4 smile');
+      const archivePath = await downloadExport();
+      const copyPath = path.join(testDirs.uploadDir, 'copy.zip');
+
+      await fs.copyFile(archivePath, copyPath);
+      expect(await importArchive(copyPath)).toEqual(expect.objectContaining({ created: 0, skipped: 1 }));
+
+      // Merging fills in what the stored receipt is missing
+      const [stored] = getAllReceipts();
+      const { updateReceipt } = await import('../../src/services/dbService');
+      await updateReceipt(stored.id, {}, []);
+      await fs.copyFile(archivePath, copyPath);
+      expect(await importArchive(copyPath, 'merge')).toEqual(expect.objectContaining({ merged: 1, files: 0 }));
+      expect(getAllReceipts()[0].flags.map(flag => flag.name)).toEqual(['Tax']);
+
+      await fs.copyFile(archivePath, copyPath);
+      expect(await importArchive(copyPath, 'overwrite')).toEqual(expect.objectContaining({ overwritten: 1, files: 1 }));
+      const receipts = getAllReceipts();
+      expect(receipts).toHaveLength(1);
+      expect(receipts[0].id).not.toBe(stored.id);
+      expect(getAllFlags()).toHaveLength(1);
+    });
+
+    it('should not merge reimbursement details that exceed the stored amount', async () => {
+      const { updateReceipt } = await import('../../src/services/dbService');
+      const stored = await createStoredReceipt('Smile Dental', '%PDF-1.4 smile');
+      await updateReceipt(stored.id, { reimbursement_status: 'partial', reimbursed_amount: 50 });
+      const archivePath = await downloadExport();
+      await updateReceipt(stored.id, { amount: 30, reimbursement_status: 'unreimbursed' });
+
+      const result = await importArchive(archivePath, 'merge');
+
+      expect(result.merged).toBe(1);
+      expect(result.errors).toEqual([
+        expect.stringMatching(/: Reimbursement details not merged: Reimbursed amount cannot exceed the receipt amount$/),
+      ]);
+      expect(getAllReceipts()[0]).toEqual(
+        expect.objectContaining({ amount: 30, reimbursement_status: 'unreimbursed', reimbursed_amount: null })
+      );
+    });
+
+    it('should import exports in every layout', async () => {
+      await createStoredReceipt('Smile Dental', '%PDF-1.4 smile');
+
+      for (const layout of ['user-year', 'flat']) {
+        const archivePath = await downloadExport({ layout });
+        await clearLibrary();
+
+        expect(await importArchive(archivePath)).toEqual(expect.objectContaining({ created: 1, files: 1, errors: [] }));
+        const [receipt] = getAllReceipts();
+        expect(receipt.files.map(file => file.original_filename)).toEqual(['scan.pdf']);
+      }
+    });
+
+    it('should import exports made before the manifest existed', async () => {
+      const archivePath = path.join(testDirs.uploadDir, 'legacy.zip');
+      const archive = archiver('zip');
+      const written = fs.open(archivePath, 'w').then(handle => {
+        const output = handle.createWriteStream();
+        archive.pipe(output);
+        return new Promise(resolve => output.on('close', resolve));
+      });
+      archive.append(
+        JSON.stringify({ id: 7, user: 'Carol', type: 'Vision', amount: 120, vendor: 'Eye Care', provider_address: '', description: '', date: '2023-11-02', flags: ['HSA'] }),
+        { name: 'receipt-7/metadata.json' }
+      );
+      archive.append('%PDF-1.4 glasses', { name: 'receipt-7/invoice.pdf' });
+      await archive.finalize();
+      await written;
+
+      const result = await importArchive(archivePath);
+
+      expect(result).toEqual(expect.objectContaining({ created: 1, files: 1, errors: [] }));
+      const [receipt] = getAllReceipts();
+      expect(receipt).toEqual(expect.objectContaining({ user: 'Carol', type: 'Vision', vendor: 'Eye Care' }));
+      expect(receipt.flags.map(flag => flag.name)).toEqual(['HSA']);
+      expect(receipt.files.map(file => file.original_filename)).toEqual(['invoice.pdf']);
+    });
+
+    it('should check imported settings and reimbursement details like the API does', async () => {
+      const archivePath = path.join(testDirs.uploadDir, 'edited.zip');
+      const archive = archiver('zip');
+      const written = fs.open(archivePath, 'w').then(handle => {
+        const output = handle.createWriteStream();
+        archive.pipe(output);
+        return new Promise(resolve => output.on('close', resolve));
+      });
+      const manifest = {
+        format: 'medstash-export',
+        format_version: 1,
+        schema_version: null,
+        exported_at: '2024-04-01T00:00:00.000Z',
+        users: [],
+        receipt_type_groups: [],
+        receipt_types: [],
+        flags: [],
+        settings: {
+          ocrEnabled: 'false',
+          directoryPattern: '"{type}/{year}"',
+          trashRetentionDays: '-5',
+          imageOptimizationEnabled: '"yes"',
+          adminPassword: '"hunter2"',
+        },
+      };
+      archive.append(JSON.stringify(manifest), { name: 'manifest.json' });
+      const receipt = { user: 'Carol', type: 'Vision', amount: 120, vendor: 'Eye Care', provider_address: '', description: '', date: '2023-11-02', flags: [], files: [] };
+      const metadata = [
+        { ...receipt, id: 1, reimbursement_status: 'paid' },
+        { ...receipt, id: 2, reimbursement_status: 'partial', reimbursed_amount: 200 },
+        { ...receipt, id: 3, reimbursement_status: 'partial' },
+        { ...receipt, id: 4, vendor: 'Optician', reimbursement_status: 'partial', reimbursed_amount: 50 },
+      ];
+      for (const entry of metadata) {
+        archive.append(JSON.stringify(entry), { name: `receipt-${entry.id}/metadata.json` });
+      }
+      await archive.finalize();
+      await written;
+
+      const result = await importArchive(archivePath);
+
+      expect(result.created).toBe(1);
+      expect(result.settings_updated).toBe(2);
+      expect(result.errors).toEqual([
+        'Setting trashRetentionDays: trashRetentionDays must be a whole number of days from 0 to 3650',
+        'Setting imageOptimizationEnabled: imageOptimizationEnabled must be a boolean',
+        'Setting adminPassword: not a known setting',
+        'receipt-1: Reimbursement status must be one of: unreimbursed, partial, reimbursed',
+        'receipt-2: Reimbursed amount cannot exceed the receipt amount',
+        'receipt-3: Partial reimbursements need a reimbursed amount',
+      ]);
+      expect(getSetting('ocrEnabled')).toBe('false');
+      expect(getRecentJobs().map(job => job.type)).toContain('migrate-files');
+      expect(getSetting('trashRetentionDays')).toBeNull();
+      expect(getSetting('imageOptimizationEnabled')).toBeNull();
+      expect(getAllReceipts()).toEqual([
+        expect.objectContaining({ vendor: 'Optician', reimbursement_status: 'partial', reimbursed_amount: 50 }),
+      ]);
+    });
+
+    it('should reject archives that are not exports and unknown conflict modes', async () => {
+      const notAnArchive = path.join(testDirs.uploadDir, 'receipt.pdf');
+      await fs.writeFile(notAnArchive, '%PDF-1.4');
+
+      const invalid = await request(app).post('/api/import').attach('archive', notAnArchive);
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe("The archive can't be read: Not a ZIP archive");
+
+      const archivePath = await downloadExport();
+      const mode = await request(app).post('/api/import').attach('archive', archivePath).field('conflict', 'replace');
+      expect(mode.status).toBe(400);
+      expect(mode.body.error).toBe('Conflict mode must be one of: skip, merge, overwrite');
+
+      const missing = await request(app).post('/api/import');
+      expect(missing.status).toBe(400);
+      expect(missing.body.error).toBe('No export archive uploaded');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { createTestApp } from '../helpers/testServer';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+import { createFlag, createReceiptType, createUser } from '../../src/services/dbService';
+
+describe('Import Rules API', () => {
+  const app = createTestApp();
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM import_rules;
+      DELETE FROM receipt_flags;
+      DELETE FROM receipts;
+      DELETE FROM flags;
+      DELETE FROM receipt_types;
+      DELETE FROM users;
+    `);
+  });
+
+  describe('POST /api/import-rules', () => {
+    it('should create a rule', async () => {
+      const alice = createUser('Alice');
+
+      const response = await request(app)
+        .post('/api/import-rules')
+        .send({ name: 'Alice folder', match_type: 'folder', pattern: ' alice ', user_id: alice.id });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({
+        name: 'Alice folder',
+        match_type: 'folder',
+        pattern: 'alice',
+        user_id: alice.id,
+        receipt_type_id: null,
+        vendor: null,
+        date_from_filename: false,
+        enabled: true,
+        flag_ids: [],
+      });
+    });
+
+    it('should create a rule that assigns a type, vendor and flags', async () => {
+      const type = createReceiptType('Prescription Medications');
+      const flag = createFlag('Pharmacy');
+
+      const response = await request(app).post('/api/import-rules').send({
+        name: 'CVS',
+        match_type: 'filename',
+        pattern: '^CVS_',
+        vendor: 'CVS',
+        receipt_type_id: type.id,
+        flag_ids: [flag.id],
+        date_from_filename: true,
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ receipt_type_id: type.id, flag_ids: [flag.id], date_from_filename: true });
+    });
+
+    it('should reject invalid filename patterns', async () => {
+      const response = await request(app)
+        .post('/api/import-rules')
+        .send({ name: 'Broken', match_type: 'filename', pattern: '([a-z', vendor: 'CVS' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Pattern must be a valid regular expression');
+    });
+
+    it('should reject unknown match types', async () => {
+      const response = await request(app)
+        .post('/api/import-rules')
+        .send({ name: 'Size', match_type: 'size', pattern: '100', vendor: 'CVS' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Match type must be one of: folder, filename, text');
+    });
+
+    it('should reject rules that assign nothing', async () => {
+      const response = await request(app)
+        .post('/api/import-rules')
+        .send({ name: 'Nothing', match_type: 'text', pattern: 'receipt' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Rule must assign a user, receipt type, vendor, flags or the date from the filename');
+    });
+
+    it('should reject users and flags that do not exist', async () => {
+      const user = await request(app)
+        .post('/api/import-rules')
+        .send({ name: 'Ghost', match_type: 'folder', pattern: 'ghost', user_id: 999 });
+      expect(user.status).toBe(400);
+      expect(user.body.error).toBe('User with ID 999 not found');
+
+      const flag = await request(app)
+        .post('/api/import-rules')
+        .send({ name: 'Ghost', match_type: 'folder', pattern: 'ghost', flag_ids: [999] });
+      expect(flag.status).toBe(400);
+      expect(flag.body.error).toBe('Flag with ID 999 not found');
+    });
+  });
+
+  describe('GET /api/import-rules', () => {
+    it('should list rules in the order they are applied', async () => {
+      await request(app).post('/api/import-rules').send({ name: 'First', match_type: 'text', pattern: 'a', vendor: 'A' });
+      await request(app).post('/api/import-rules').send({ name: 'Second', match_type: 'text', pattern: 'b', vendor: 'B' });
+
+      const response = await request(app).get('/api/import-rules');
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((r: any) => r.name)).toEqual(['First', 'Second']);
+    });
+  });
+
+  describe('PUT /api/import-rules/:id', () => {
+    it('should update only the given fields', async () => {
+      const created = await request(app)
+        .post('/api/import-rules')
+        .send({ name: 'CVS', match_type: 'filename', pattern: '^CVS_', vendor: 'CVS' });
+
+      const response = await request(app).put(`/api/import-rules/${created.body.id}`).send({ enabled: false });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ name: 'CVS', pattern: '^CVS_', vendor: 'CVS', enabled: false });
+    });
+
+    it('should validate the rule as it would be after the update', async () => {
+      const created = await request(app)
+        .post('/api/import-rules')
+        .send({ name: 'CVS', match_type: 'filename', pattern: '^CVS_', vendor: 'CVS' });
+
+      const pattern = await request(app).put(`/api/import-rules/${created.body.id}`).send({ pattern: '[' });
+      expect(pattern.status).toBe(400);
+      expect(pattern.body.error).toBe('Pattern must be a valid regular expression');
+
+      const vendor = await request(app).put(`/api/import-rules/${created.body.id}`).send({ vendor: null });
+      expect(vendor.status).toBe(400);
+    });
+
+    it('should return 404 for a missing rule', async () => {
+      const response = await request(app).put('/api/import-rules/999').send({ enabled: false });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Import rule not found');
+    });
+  });
+
+  describe('DELETE /api/import-rules/:id', () => {
+    it('should delete a rule', async () => {
+      const created = await request(app)
+        .post('/api/import-rules')
+        .send({ name: 'CVS', match_type: 'filename', pattern: '^CVS_', vendor: 'CVS' });
+
+      expect((await request(app).delete(`/api/import-rules/${created.body.id}`)).status).toBe(204);
+      expect((await request(app).delete(`/api/import-rules/${created.body.id}`)).status).toBe(404);
+    });
+
+    it('should reject a non-numeric ID', async () => {
+      const response = await request(app).delete('/api/import-rules/abc');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid import rule ID: must be a number');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { createTestApp } from '../helpers/testServer';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+const { optimizeExistingImages, reoptimizeAllImages, migrateFilesToDirectoryLayout } = vi.hoisted(() => ({
+  optimizeExistingImages: vi.fn(),
+  reoptimizeAllImages: vi.fn(),
+  migrateFilesToDirectoryLayout: vi.fn(),
+}));
+vi.mock('../../src/services/fileService', async () => {
+  const actual = await vi.importActual<typeof import('../../src/services/fileService')>('../../src/services/fileService');
+  return { ...actual, optimizeExistingImages, reoptimizeAllImages, migrateFilesToDirectoryLayout };
+});
+
+import { processJobQueue } from '../../src/services/jobService';
+
+describe('Jobs API', () => {
+  const app = createTestApp();
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec('DELETE FROM jobs;');
+    optimizeExistingImages.mockReset();
+    reoptimizeAllImages.mockReset();
+    migrateFilesToDirectoryLayout.mockReset();
+  });
+
+  describe('queueing jobs', () => {
+    it('should queue image optimization and return the job', async () => {
+      optimizeExistingImages.mockResolvedValue({ total: 3, optimized: 2, skipped: 1, errors: [], duration: 10 });
+
+      const response = await request(app).post('/api/images/optimize').send({ batchSize: 5 });
+
+      expect(response.status).toBe(202);
+      expect(response.body.type).toBe('optimize-images');
+      expect(response.body.status).toBe('queued');
+      expect(response.body.params).toEqual({ batchSize: 5 });
+
+      await processJobQueue();
+      const job = await request(app).get(`/api/jobs/${response.body.id}`);
+      expect(job.body.status).toBe('completed');
+      expect(job.body.result.optimized).toBe(2);
+    });
+
+    it('should queue image re-optimization', async () => {
+      reoptimizeAllImages.mockResolvedValue({ total: 0, optimized: 0, skipped: 0, errors: [], duration: 0 });
+
+      const response = await request(app).post('/api/images/reoptimize');
+
+      expect(response.status).toBe(202);
+      expect(response.body.type).toBe('reoptimize-images');
+      await processJobQueue();
+      expect(reoptimizeAllImages).toHaveBeenCalledTimes(1);
+    });
+
+    it('should queue file migration', async () => {
+      migrateFilesToDirectoryLayout.mockResolvedValue({ pattern: '{user}/{year}/{month}/{day}', totalReceipts: 0, totalFiles: 0, filesMoved: 0, missing: 0, errors: [] });
+
+      const response = await request(app).post('/api/receipts/migrate-files');
+
+      expect(response.status).toBe(202);
+      expect(response.body.type).toBe('migrate-files');
+      await processJobQueue();
+      expect(migrateFilesToDirectoryLayout).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('GET /api/jobs', () => {
+    it('should list recent jobs, newest first', async () => {
+      optimizeExistingImages.mockResolvedValue({});
+      migrateFilesToDirectoryLayout.mockResolvedValue({});
+      const first = await request(app).post('/api/images/optimize');
+      const second = await request(app).post('/api/receipts/migrate-files');
+      await processJobQueue();
+
+      const response = await request(app).get('/api/jobs');
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((job: any) => job.id)).toEqual([second.body.id, first.body.id]);
+    });
+  });
+
+  describe('GET /api/jobs/:id', () => {
+    it('should return 404 for an unknown job', async () => {
+      const response = await request(app).get('/api/jobs/999');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Job not found');
+    });
+
+    it('should return 400 for an invalid ID', async () => {
+      const response = await request(app).get('/api/jobs/abc');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/jobs/:id/cancel', () => {
+    it('should cancel a queued job', async () => {
+      let finishFirst: () => void = () => {};
+      optimizeExistingImages.mockImplementation(() => new Promise(resolve => (finishFirst = () => resolve({}))));
+      await request(app).post('/api/images/optimize');
+      const queued = await request(app).post('/api/receipts/migrate-files');
+
+      const response = await request(app).post(`/api/jobs/${queued.body.id}/cancel`);
+      finishFirst();
+      await processJobQueue();
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('cancelled');
+      expect(migrateFilesToDirectoryLayout).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      const response = await request(app).post('/api/jobs/999/cancel');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
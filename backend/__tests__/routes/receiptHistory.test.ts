@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { createTestApp } from '../helpers/testServer';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+import { clearTestDb } from '../helpers/testDb';
+import { createFlag, createReceipt, deleteReceipt, getReceiptById, updateReceipt } from '../../src/services/dbService';
+
+describe('Receipt history API', () => {
+  const app = createTestApp();
+
+  beforeEach(() => {
+    clearTestDb();
+  });
+
+  function createTestReceipt() {
+    return createReceipt({ user: 'Alice', type: 'Dental', date: '2024-03-01', vendor: 'Smile Dental', amount: 80 }, [], {
+      source: 'watch',
+      detail: 'Scanner',
+    });
+  }
+
+  describe('GET /api/receipts/:id/history', () => {
+    it('should record who changed which fields, newest first', async () => {
+      const receipt = createTestReceipt();
+      const tax = createFlag('Tax');
+
+      const update = await request(app).put(`/api/receipts/${receipt.id}`).send({ amount: 85, flag_ids: [tax.id] });
+      expect(update.status).toBe(200);
+      await request(app)
+        .post('/api/receipts/bulk-update')
+        .send({ receipt_ids: [receipt.id], vendor: 'Smile Dental Group' });
+
+      const response = await request(app).get(`/api/receipts/${receipt.id}/history`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((entry: any) => entry.action)).toEqual(['updated', 'updated', 'created']);
+      const [bulk, edit, created] = response.body;
+      expect(bulk.changes).toEqual({ vendor: { old: 'Smile Dental', new: 'Smile Dental Group' } });
+      expect(edit).toEqual(
+        expect.objectContaining({
+          source: 'user',
+          changes: { amount: { old: 80, new: 85 }, flags: { old: [], new: ['Tax'] } },
+        })
+      );
+      expect(created).toEqual(expect.objectContaining({ source: 'watch', detail: 'Scanner' }));
+      expect(created.changes.amount).toEqual({ old: null, new: 80 });
+    });
+
+    it('should not record updates that change nothing', async () => {
+      const receipt = createTestReceipt();
+      await updateReceipt(receipt.id, { vendor: 'Smile Dental' });
+
+      const response = await request(app).get(`/api/receipts/${receipt.id}/history`);
+
+      expect(response.body).toHaveLength(1);
+    });
+
+    it('should keep the history of deleted receipts', async () => {
+      const receipt = createTestReceipt();
+      deleteReceipt(receipt.id, { source: 'job', detail: 'import-receipts' });
+      const { getReceiptHistory } = await import('../../src/services/historyService');
+
+      const history = getReceiptHistory(receipt.id);
+
+      expect(history.map(entry => entry.action)).toEqual(['purged', 'created']);
+      expect(history[0].changes.vendor).toEqual({ old: 'Smile Dental', new: null });
+    });
+
+    it('should keep history entries unchanged', async () => {
+      const receipt = createTestReceipt();
+      const { db } = await import('../../src/db');
+
+      expect(() => db.prepare("UPDATE receipt_history SET changes = '{}' WHERE receipt_id = ?").run(receipt.id)).toThrow(
+        'receipt history entries cannot be changed'
+      );
+    });
+  });
+
+  describe('POST /api/receipts/:id/history/:entryId/revert', () => {
+    it('should put a field back to its earlier value', async () => {
+      const receipt = createTestReceipt();
+      const tax = createFlag('Tax');
+      await updateReceipt(receipt.id, { amount: 85, vendor: 'Other Dental' }, [tax.id]);
+      const [entry] = (await request(app).get(`/api/receipts/${receipt.id}/history`)).body;
+
+      const amount = await request(app).post(`/api/receipts/${receipt.id}/history/${entry.id}/revert`).send({ field: 'amount' });
+      const flags = await request(app).post(`/api/receipts/${receipt.id}/history/${entry.id}/revert`).send({ field: 'flags' });
+
+      expect(amount.status).toBe(200);
+      expect(amount.body).toEqual(expect.objectContaining({ amount: 80, vendor: 'Other Dental' }));
+      expect(flags.body.flags).toEqual([]);
+      const history = (await request(app).get(`/api/receipts/${receipt.id}/history`)).body;
+      expect(history[0]).toEqual(expect.objectContaining({ reverted_entry_id: entry.id, changes: { flags: { old: ['Tax'], new: [] } } }));
+      expect(history[1]).toEqual(expect.objectContaining({ reverted_entry_id: entry.id, changes: { amount: { old: 85, new: 80 } } }));
+    });
+
+    it('should reject reverting the amount below the reimbursed amount', async () => {
+      const receipt = createTestReceipt();
+      await updateReceipt(receipt.id, { amount: 100 });
+      const [entry] = (await request(app).get(`/api/receipts/${receipt.id}/history`)).body;
+      await updateReceipt(receipt.id, { reimbursement_status: 'reimbursed', reimbursed_amount: 100 });
+
+      const response = await request(app).post(`/api/receipts/${receipt.id}/history/${entry.id}/revert`).send({ field: 'amount' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Reimbursed amount cannot exceed the receipt amount');
+      expect(getReceiptById(receipt.id)!.amount).toBe(100);
+    });
+
+    it('should reject reverting the reimbursed amount of a partial reimbursement to nothing', async () => {
+      const receipt = createTestReceipt();
+      await updateReceipt(receipt.id, { reimbursement_status: 'partial', reimbursed_amount: 40 });
+      const [entry] = (await request(app).get(`/api/receipts/${receipt.id}/history`)).body;
+
+      const response = await request(app)
+        .post(`/api/receipts/${receipt.id}/history/${entry.id}/revert`)
+        .send({ field: 'reimbursed_amount' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Partial reimbursements need a reimbursed amount');
+      expect(getReceiptById(receipt.id)!.reimbursed_amount).toBe(40);
+    });
+
+    it('should reject fields the entry did not change and unknown entries', async () => {
+      const receipt = createTestReceipt();
+      await updateReceipt(receipt.id, { amount: 85 });
+      const [entry, created] = (await request(app).get(`/api/receipts/${receipt.id}/history`)).body;
+
+      const unchanged = await request(app).post(`/api/receipts/${receipt.id}/history/${entry.id}/revert`).send({ field: 'vendor' });
+      expect(unchanged.status).toBe(400);
+      expect(unchanged.body.error).toBe('This history entry did not change vendor');
+
+      const creation = await request(app).post(`/api/receipts/${receipt.id}/history/${created.id}/revert`).send({ field: 'amount' });
+      expect(creation.status).toBe(400);
+
+      const unknownField = await request(app).post(`/api/receipts/${receipt.id}/history/${entry.id}/revert`).send({ field: 'id' });
+      expect(unknownField.status).toBe(400);
+
+      const missing = await request(app).post(`/api/receipts/${receipt.id}/history/999999/revert`).send({ field: 'amount' });
+      expect(missing.status).toBe(404);
+      expect(missing.body.error).toBe('History entry not found');
+    });
+  });
+});
@@ -100,6 +100,28 @@ describe('ReceiptTypeGroups API', () => {
       expect(response.body.name).toBe('Updated Group');
     });
 
+    it('should queue moving stored files when the directory layout uses the group', async () => {
+      const { createReceiptType, createReceiptTypeGroup, setSetting } = await import('../../src/services/dbService');
+      const { getRecentJobs } = await import('../../src/services/jobService');
+      const { db } = await import('../../src/db');
+      db.exec('DELETE FROM jobs; DELETE FROM settings;');
+      const group = createReceiptTypeGroup('Medical');
+      createReceiptType('Dental', group.id);
+
+      await request(app).put(`/api/receipt-type-groups/${group.id}`).send({ name: 'Health' });
+      expect(getRecentJobs()).toEqual([]);
+
+      setSetting('directoryPattern', JSON.stringify('{type-group}/{year}'));
+      await request(app).put(`/api/receipt-type-groups/${group.id}`).send({ display_order: 2 });
+      expect(getRecentJobs()).toEqual([]);
+      await request(app).put(`/api/receipt-type-groups/${group.id}`).send({ name: 'Medical' });
+      expect(getRecentJobs().map(job => job.type)).toEqual(['migrate-files']);
+
+      db.exec('DELETE FROM jobs;');
+      await request(app).delete(`/api/receipt-type-groups/${group.id}`);
+      expect(getRecentJobs().map(job => job.type)).toEqual(['migrate-files']);
+    });
+
     it('should update display_order', async () => {
       const { createReceiptTypeGroup } = await import('../../src/services/dbService');
       const group = createReceiptTypeGroup('Test Group', 0);
@@ -126,6 +126,29 @@ describe('ReceiptTypes API', () => {
       expect(response.body.name).toBe('Updated Type');
     });
 
+    it('should queue moving stored files when the directory layout uses the type or its group', async () => {
+      const { createReceiptType, createReceiptTypeGroup, setSetting } = await import('../../src/services/dbService');
+      const { getRecentJobs } = await import('../../src/services/jobService');
+      const { db } = await import('../../src/db');
+      db.exec('DELETE FROM jobs; DELETE FROM settings;');
+      const type = createReceiptType('Dental');
+      const group = createReceiptTypeGroup('Medical');
+
+      await request(app).put(`/api/receipt-types/${type.id}`).send({ name: 'Dentist' });
+      expect(getRecentJobs()).toEqual([]);
+
+      setSetting('directoryPattern', JSON.stringify('{type}/{year}'));
+      await request(app).put(`/api/receipt-types/${type.id}`).send({ display_order: 4, group_id: group.id });
+      expect(getRecentJobs()).toEqual([]);
+      await request(app).put(`/api/receipt-types/${type.id}`).send({ name: 'Dental' });
+      expect(getRecentJobs().map(job => job.type)).toEqual(['migrate-files']);
+
+      db.exec('DELETE FROM jobs;');
+      setSetting('directoryPattern', JSON.stringify('{type-group}/{year}'));
+      await request(app).put(`/api/receipt-types/${type.id}`).send({ group_id: null });
+      expect(getRecentJobs().map(job => job.type)).toEqual(['migrate-files']);
+    });
+
     it('should return 404 for non-existent receipt type', async () => {
       const response = await request(app)
         .put('/api/receipt-types/99999')
@@ -209,6 +232,35 @@ describe('ReceiptTypes API', () => {
       expect(response.body.error).toContain('Invalid receipt type ID');
     });
 
+    it('should refuse to delete a receipt type in use unless its receipts are moved', async () => {
+      const { createReceipt, createReceiptType } = await import('../../src/services/dbService');
+      const dental = createReceiptType('Dental');
+      createReceipt({ user: 'Alice', type: 'Dental', date: '2024-03-01', vendor: 'Smile Dental', amount: 85 });
+
+      const usage = await request(app).get(`/api/receipt-types/${dental.id}/usage`);
+      expect(usage.body).toEqual({ receipts: 1, trashed_receipts: 0 });
+
+      const response = await request(app).delete(`/api/receipt-types/${dental.id}`);
+      expect(response.status).toBe(409);
+      expect(response.body.usage).toEqual({ receipts: 1, trashed_receipts: 0 });
+    });
+
+    it('should move receipts and import rules to another type', async () => {
+      const { createReceipt, createReceiptType, getReceiptById, getReceiptTypeById } = await import('../../src/services/dbService');
+      const { createImportRule, getAllImportRules } = await import('../../src/services/importRuleService');
+      const dental = createReceiptType('Dental');
+      const receipt = createReceipt({ user: 'Alice', type: 'Dental', date: '2024-03-01', vendor: 'Smile Dental', amount: 85 });
+      const other = createReceiptType('Other');
+      createImportRule({ name: 'Dentist', match_type: 'folder', pattern: 'dentist', receipt_type_id: dental.id });
+
+      const response = await request(app).delete(`/api/receipt-types/${dental.id}?reassign_to=${other.id}`);
+
+      expect(response.status).toBe(204);
+      expect(getReceiptTypeById(dental.id)).toBeNull();
+      expect(getReceiptById(receipt.id)?.type).toBe('Other');
+      expect(getAllImportRules()[0].receipt_type_id).toBe(other.id);
+    });
+
     it('should reject invalid receipt type ID in PUT request', async () => {
       const response = await request(app).put('/api/receipt-types/abc').send({ name: 'Test' });
       expect(response.status).toBe(400);
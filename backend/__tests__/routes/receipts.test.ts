@@ -222,10 +222,38 @@ vi.mock('../../src/services/fileService', async () => {
 		isPdfFile: (filename: string) => {
 			return pathMod.extname(filename).toLowerCase() === '.pdf'
 		},
+		findReceiptFilePath: async (receiptId: number, filename: string) => {
+			const filePath = pathMod.join(await getReceiptDir(receiptId), filename)
+			try {
+				await fsMod.access(filePath)
+				return filePath
+			} catch {
+				return null
+			}
+		},
+		isThumbnailSize: (value: unknown) => value === 'thumb' || value === 'medium',
+		canGenerateThumbnail: (filename: string) => /\.(jpe?g|png|webp|pdf)$/i.test(filename),
+		// Stand-in for sharp: write a small placeholder rendition next to the receipt files
+		getReceiptFileThumbnail: async (fileId: number, _filePath: string, _filename: string, size: string) => {
+			const thumbnailPath = pathMod.join(getTestReceiptsDir(), `thumbnail-${fileId}-${size}.webp`)
+			await fsMod.writeFile(thumbnailPath, `${size} thumbnail`, { flag: 'wx' }).catch(() => {})
+			return thumbnailPath
+		},
 	}
 	return mockReturn
 })
 
+// Mock OCR so tests never start a recognition worker
+vi.mock('../../src/services/ocrService', () => ({
+	extractReceiptText: vi.fn().mockResolvedValue([]),
+	extractTextFromFile: vi.fn().mockResolvedValue({
+		text: 'Smile Orthodontics\nTotal Due: $125.40',
+		source: 'ocr',
+		suggestions: { vendor: 'Smile Orthodontics', amount: 125.4 },
+	}),
+	isOcrEnabled: vi.fn(() => true),
+}))
+
 describe('Receipts API', () => {
 	const app = createTestApp()
 	let testDirs: { receiptsDir: string; uploadDir: string }
@@ -343,6 +371,79 @@ describe('Receipts API', () => {
 			expect(response.body).toHaveLength(1)
 			expect(response.body[0].id).toBe(receipt1Id)
 		})
+
+		it('should filter by user, date range, amount range and free text', async () => {
+			const { userId, typeId } = createUserAndType('Alice', 'Pharmacy')
+			const { userId: otherUserId } = createUserAndType('Bob', 'Pharmacy')
+			const matchId = Number(
+				dbQueries.insertReceipt.run(userId, typeId, 45, 'CVS', 'Address', 'Allergy medication', '2024-03-10', null).lastInsertRowid
+			)
+			dbQueries.insertReceipt.run(userId, typeId, 500, 'CVS', 'Address', 'Allergy medication', '2024-03-12', null)
+			dbQueries.insertReceipt.run(userId, typeId, 45, 'CVS', 'Address', 'Allergy medication', '2023-03-10', null)
+			dbQueries.insertReceipt.run(otherUserId, typeId, 45, 'CVS', 'Address', 'Allergy medication', '2024-03-10', null)
+
+			const response = await request(app).get('/api/receipts').query({
+				user_id: userId,
+				date_from: '2024-01-01',
+				date_to: '2024-12-31',
+				amount_min: 10,
+				amount_max: 100,
+				q: 'cvs',
+			})
+
+			expect(response.status).toBe(200)
+			expect(response.body).toHaveLength(1)
+			expect(response.body[0].id).toBe(matchId)
+		})
+
+		it('should match any or all of multiple flags', async () => {
+			const flagA = Number(dbQueries.insertFlag.run('A', null).lastInsertRowid)
+			const flagB = Number(dbQueries.insertFlag.run('B', null).lastInsertRowid)
+			const { userId, typeId } = createUserAndType('User', 'type')
+			const bothId = Number(dbQueries.insertReceipt.run(userId, typeId, 1, 'Both', '', '', '2024-01-01', null).lastInsertRowid)
+			const onlyAId = Number(dbQueries.insertReceipt.run(userId, typeId, 1, 'Only A', '', '', '2024-01-02', null).lastInsertRowid)
+			dbQueries.insertReceipt.run(userId, typeId, 1, 'None', '', '', '2024-01-03', null)
+			dbQueries.insertReceiptFlag.run(bothId, flagA)
+			dbQueries.insertReceiptFlag.run(bothId, flagB)
+			dbQueries.insertReceiptFlag.run(onlyAId, flagA)
+
+			const anyResponse = await request(app).get('/api/receipts').query({ flag_ids: `${flagA},${flagB}` })
+			expect(anyResponse.body.map((r: any) => r.id).sort()).toEqual([bothId, onlyAId].sort())
+
+			const allResponse = await request(app).get('/api/receipts').query({ flag_ids: `${flagA},${flagB}`, flag_match: 'all' })
+			expect(allResponse.body.map((r: any) => r.id)).toEqual([bothId])
+		})
+
+		it('should sort and paginate with a total count', async () => {
+			const { userId, typeId } = createUserAndType('User', 'type')
+			for (const [vendor, amount] of [
+				['Charlie', 30],
+				['Alpha', 10],
+				['Bravo', 20],
+			] as const) {
+				dbQueries.insertReceipt.run(userId, typeId, amount, vendor, '', '', '2024-01-01', null)
+			}
+
+			const firstPage = await request(app).get('/api/receipts').query({ sort: 'vendor', order: 'asc', limit: 2 })
+			expect(firstPage.status).toBe(200)
+			expect(firstPage.body.total).toBe(3)
+			expect(firstPage.body.has_more).toBe(true)
+			expect(firstPage.body.receipts.map((r: any) => r.vendor)).toEqual(['Alpha', 'Bravo'])
+
+			const secondPage = await request(app).get('/api/receipts').query({ sort: 'vendor', order: 'asc', limit: 2, offset: 2 })
+			expect(secondPage.body.has_more).toBe(false)
+			expect(secondPage.body.receipts.map((r: any) => r.vendor)).toEqual(['Charlie'])
+		})
+
+		it('should reject invalid list parameters', async () => {
+			const sortResponse = await request(app).get('/api/receipts').query({ sort: 'bogus' })
+			expect(sortResponse.status).toBe(400)
+			expect(sortResponse.body.error).toContain('Invalid sort')
+
+			const limitResponse = await request(app).get('/api/receipts').query({ limit: 0 })
+			expect(limitResponse.status).toBe(400)
+			expect(limitResponse.body.error).toContain('Invalid limit')
+		})
 	})
 
 	describe('GET /api/receipts/:id', () => {
@@ -434,6 +535,106 @@ describe('Receipts API', () => {
 			expect(response.body.flags).toHaveLength(1)
 			expect(response.body.flags[0].id).toBe(flagId)
 		})
+
+		it('should start text extraction for the new receipt', async () => {
+			const { extractReceiptText } = await import('../../src/services/ocrService')
+			const testFilePath = path.join(testDirs.uploadDir, 'scan.jpg')
+			await fs.writeFile(testFilePath, 'fake image content')
+
+			const response = await request(app).post('/api/receipts').attach('files', testFilePath)
+
+			expect(response.status).toBe(201)
+			expect(extractReceiptText).toHaveBeenCalledWith(response.body.id)
+		})
+
+		it('should reject files that are already stored unless duplicates are allowed', async () => {
+			const testFilePath = path.join(testDirs.uploadDir, 'test.pdf')
+			await fs.writeFile(testFilePath, 'test content')
+			const first = await request(app).post('/api/receipts').attach('files', testFilePath)
+
+			const duplicate = await request(app).post('/api/receipts').attach('files', testFilePath)
+			expect(duplicate.status).toBe(409)
+			expect(duplicate.body.duplicates).toEqual([
+				expect.objectContaining({ receipt_id: first.body.id, original_filename: 'test.pdf', reason: 'identical_file' }),
+			])
+			expect(dbQueries.getAllReceipts.all()).toHaveLength(1)
+
+			const allowed = await request(app)
+				.post('/api/receipts')
+				.field('allow_duplicates', 'true')
+				.attach('files', testFilePath)
+			expect(allowed.status).toBe(201)
+			expect(allowed.body.possible_duplicates).toHaveLength(1)
+		})
+	})
+
+	describe('POST /api/receipts/:id/files', () => {
+		it('should reject files that are already stored with a receipt', async () => {
+			const firstPath = path.join(testDirs.uploadDir, 'first.pdf')
+			await fs.writeFile(firstPath, 'first content')
+			const secondPath = path.join(testDirs.uploadDir, 'second.pdf')
+			await fs.writeFile(secondPath, 'second content')
+			const first = await request(app).post('/api/receipts').attach('files', firstPath)
+			const second = await request(app).post('/api/receipts').attach('files', secondPath)
+
+			const duplicate = await request(app).post(`/api/receipts/${second.body.id}/files`).attach('files', firstPath)
+			expect(duplicate.status).toBe(409)
+			expect(duplicate.body.duplicates[0].receipt_id).toBe(first.body.id)
+
+			const added = await request(app)
+				.post(`/api/receipts/${second.body.id}/files`)
+				.field('allow_duplicates', 'true')
+				.attach('files', firstPath)
+			expect(added.status).toBe(200)
+			expect(added.body.files).toHaveLength(2)
+		})
+	})
+
+	describe('POST /api/receipts/extract-text', () => {
+		it('should return recognized text and suggestions without creating a receipt', async () => {
+			const { extractTextFromFile } = await import('../../src/services/ocrService')
+			const testFilePath = path.join(testDirs.uploadDir, 'scan.jpg')
+			await fs.writeFile(testFilePath, 'fake image content')
+
+			const response = await request(app).post('/api/receipts/extract-text').attach('file', testFilePath)
+
+			expect(response.status).toBe(200)
+			expect(response.body.suggestions).toEqual({ vendor: 'Smile Orthodontics', amount: 125.4 })
+			expect(response.body.text).toContain('Total Due')
+			expect(extractTextFromFile).toHaveBeenCalledWith(expect.any(String), 'scan.jpg')
+			expect(dbQueries.getAllReceipts.all()).toHaveLength(0)
+		})
+
+		it('should extract PDF text even when OCR is disabled', async () => {
+			const { extractTextFromFile, isOcrEnabled } = await import('../../src/services/ocrService')
+			vi.mocked(isOcrEnabled).mockReturnValueOnce(false)
+			const testFilePath = path.join(testDirs.uploadDir, 'statement.pdf')
+			await fs.writeFile(testFilePath, 'test content')
+
+			const response = await request(app).post('/api/receipts/extract-text').attach('file', testFilePath)
+
+			expect(response.status).toBe(200)
+			expect(extractTextFromFile).toHaveBeenCalledWith(expect.any(String), 'statement.pdf')
+		})
+
+		it('should return 400 when OCR is disabled', async () => {
+			const { isOcrEnabled } = await import('../../src/services/ocrService')
+			vi.mocked(isOcrEnabled).mockReturnValueOnce(false)
+			const testFilePath = path.join(testDirs.uploadDir, 'scan.jpg')
+			await fs.writeFile(testFilePath, 'fake image content')
+
+			const response = await request(app).post('/api/receipts/extract-text').attach('file', testFilePath)
+
+			expect(response.status).toBe(400)
+			expect(response.body.error).toBe('Text recognition is disabled')
+		})
+
+		it('should return 400 if no file provided', async () => {
+			const response = await request(app).post('/api/receipts/extract-text')
+
+			expect(response.status).toBe(400)
+			expect(response.body.error).toBe('No file provided')
+		})
 	})
 
 	describe('PUT /api/receipts/:id', () => {
@@ -496,6 +697,143 @@ describe('Receipts API', () => {
 			expect(response.status).toBe(200)
 			expect(response.body.flags).toHaveLength(1)
 		})
+
+		it('should update reimbursement fields', async () => {
+			const receiptData = createReceiptFixture()
+			const { userId, typeId } = createUserAndType(receiptData.user!, receiptData.type!)
+			const result = dbQueries.insertReceipt.run(
+				userId,
+				typeId,
+				receiptData.amount!,
+				receiptData.vendor!,
+				receiptData.provider_address!,
+				receiptData.description!,
+				receiptData.date!,
+				receiptData.notes || null
+			)
+			const receiptId = Number(result.lastInsertRowid)
+
+			const response = await request(app).put(`/api/receipts/${receiptId}`).send({
+				reimbursement_status: 'partial',
+				reimbursed_date: '2024-02-01',
+				reimbursed_amount: '50.25',
+				hsa_transaction_ref: 'HSA-12345',
+			})
+
+			expect(response.status).toBe(200)
+			expect(response.body.reimbursement_status).toBe('partial')
+			expect(response.body.reimbursed_date).toBe('2024-02-01')
+			expect(response.body.reimbursed_amount).toBe(50.25)
+			expect(response.body.hsa_transaction_ref).toBe('HSA-12345')
+		})
+
+		it('should reject an invalid reimbursement status', async () => {
+			const receiptData = createReceiptFixture()
+			const { userId, typeId } = createUserAndType(receiptData.user!, receiptData.type!)
+			const result = dbQueries.insertReceipt.run(
+				userId,
+				typeId,
+				receiptData.amount!,
+				receiptData.vendor!,
+				receiptData.provider_address!,
+				receiptData.description!,
+				receiptData.date!,
+				receiptData.notes || null
+			)
+			const receiptId = Number(result.lastInsertRowid)
+
+			const response = await request(app).put(`/api/receipts/${receiptId}`).send({
+				reimbursement_status: 'paid',
+			})
+
+			expect(response.status).toBe(400)
+			expect(response.body.error).toContain('Reimbursement status must be one of')
+		})
+
+		it('should reject a reimbursed amount above the receipt amount', async () => {
+			const { userId, typeId } = createUserAndType()
+			const receiptId = Number(dbQueries.insertReceipt.run(userId, typeId, 100, 'Clinic', '', '', '2024-01-15', null).lastInsertRowid)
+
+			const response = await request(app).put(`/api/receipts/${receiptId}`).send({
+				reimbursement_status: 'partial',
+				reimbursed_amount: '100.01',
+			})
+
+			expect(response.status).toBe(400)
+			expect(response.body.error).toBe('Reimbursed amount cannot exceed the receipt amount')
+
+			const lowered = await request(app).put(`/api/receipts/${receiptId}`).send({ reimbursement_status: 'reimbursed', reimbursed_amount: '100' })
+			expect(lowered.status).toBe(200)
+			expect((await request(app).put(`/api/receipts/${receiptId}`).send({ amount: '80' })).status).toBe(400)
+		})
+
+		it('should reject a partial reimbursement without an amount', async () => {
+			const { userId, typeId } = createUserAndType()
+			const receiptId = Number(dbQueries.insertReceipt.run(userId, typeId, 100, 'Clinic', '', '', '2024-01-15', null).lastInsertRowid)
+
+			const response = await request(app).put(`/api/receipts/${receiptId}`).send({ reimbursement_status: 'partial' })
+
+			expect(response.status).toBe(400)
+			expect(response.body.error).toBe('Partial reimbursements need a reimbursed amount')
+
+			const bulk = await request(app).post('/api/receipts/bulk-update').send({ receipt_ids: [receiptId], reimbursement_status: 'partial' })
+			expect(bulk.status).toBe(400)
+			expect(bulk.body.error).toBe(`Receipt with ID ${receiptId}: Partial reimbursements need a reimbursed amount`)
+		})
+	})
+
+	describe('GET /api/receipts/:id/files/:fileId?size=', () => {
+		async function createReceiptWithFile(filename: string): Promise<{ receiptId: number; fileId: number }> {
+			const { userId, typeId } = createUserAndType()
+			const receiptId = Number(dbQueries.insertReceipt.run(userId, typeId, 10, 'Clinic', '', '', '2024-01-15', null).lastInsertRowid)
+			const fileId = Number(dbQueries.insertReceiptFile.run(receiptId, filename, filename, 0).lastInsertRowid)
+			const receiptDir = path.join(testDirs.receiptsDir, 'test-user', '2024', '01', '15')
+			await fs.mkdir(receiptDir, { recursive: true })
+			await fs.writeFile(path.join(receiptDir, filename), 'original')
+			return { receiptId, fileId }
+		}
+
+		it('should serve a thumbnail with caching headers', async () => {
+			const { receiptId, fileId } = await createReceiptWithFile('scan.jpg')
+
+			const response = await request(app).get(`/api/receipts/${receiptId}/files/${fileId}`).query({ size: 'thumb' })
+
+			expect(response.status).toBe(200)
+			expect(response.headers['content-type']).toBe('image/webp')
+			expect(response.headers['cache-control']).toBe('private, no-cache')
+			expect(response.headers['etag']).toMatch(new RegExp(`^"${fileId}-thumb-`))
+			expect(response.body.toString()).toBe('thumb thumbnail')
+		})
+
+		it('should return 304 when the thumbnail is unchanged', async () => {
+			const { receiptId, fileId } = await createReceiptWithFile('statement.pdf')
+			const first = await request(app).get(`/api/receipts/${receiptId}/files/${fileId}`).query({ size: 'medium' })
+
+			const response = await request(app)
+				.get(`/api/receipts/${receiptId}/files/${fileId}`)
+				.query({ size: 'medium' })
+				.set('If-None-Match', first.headers['etag'])
+
+			expect(response.status).toBe(304)
+		})
+
+		it('should reject unknown sizes', async () => {
+			const { receiptId, fileId } = await createReceiptWithFile('scan.jpg')
+
+			const response = await request(app).get(`/api/receipts/${receiptId}/files/${fileId}`).query({ size: 'large' })
+
+			expect(response.status).toBe(400)
+			expect(response.body.error).toBe('Invalid size: must be thumb or medium')
+		})
+
+		it('should reject thumbnails for unsupported file types', async () => {
+			const { receiptId, fileId } = await createReceiptWithFile('notes.txt')
+
+			const response = await request(app).get(`/api/receipts/${receiptId}/files/${fileId}`).query({ size: 'thumb' })
+
+			expect(response.status).toBe(400)
+			expect(response.body.error).toBe('Thumbnails are only available for images and PDFs')
+		})
 	})
 
 	describe('DELETE /api/receipts/:id', () => {
@@ -523,6 +861,34 @@ describe('Receipts API', () => {
 			expect(getResponse.status).toBe(404)
 		})
 
+		it('should leave deleted receipts out of receipt lists', async () => {
+			const receiptData = createReceiptFixture()
+			const { userId, typeId } = createUserAndType(receiptData.user!, receiptData.type!)
+			const [keptId, deletedId] = [0, 1].map(() =>
+				Number(
+					dbQueries.insertReceipt.run(
+						userId,
+						typeId,
+						receiptData.amount!,
+						receiptData.vendor!,
+						receiptData.provider_address!,
+						receiptData.description!,
+						receiptData.date!,
+						null
+					).lastInsertRowid
+				)
+			)
+
+			expect((await request(app).delete(`/api/receipts/${deletedId}`)).status).toBe(204)
+
+			const list = await request(app).get('/api/receipts')
+			expect(list.body.map((receipt: { id: number }) => receipt.id)).toEqual([keptId])
+
+			const page = await request(app).get('/api/receipts').query({ limit: 10 })
+			expect(page.body.total).toBe(1)
+			expect(page.body.receipts.map((receipt: { id: number }) => receipt.id)).toEqual([keptId])
+		})
+
 		it('should return 404 for non-existent receipt', async () => {
 			const response = await request(app).delete('/api/receipts/99999')
 			expect(response.status).toBe(404)
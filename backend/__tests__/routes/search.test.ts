@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { createTestApp } from '../helpers/testServer';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+describe('Search API', () => {
+  const app = createTestApp();
+
+  beforeEach(async () => {
+    // Clear the mocked database
+    const dbModule = await import('../../src/db');
+    const db = dbModule.db;
+    db.exec(`
+      DELETE FROM receipt_flags;
+      DELETE FROM receipt_files;
+      DELETE FROM receipts;
+      DELETE FROM receipts_fts;
+      DELETE FROM flags;
+      DELETE FROM receipt_types;
+      DELETE FROM users;
+    `);
+  });
+
+  describe('GET /api/search', () => {
+    it('should find receipts by metadata with ranked, highlighted snippets', async () => {
+      const { createReceipt } = await import('../../src/services/dbService');
+      const ortho = createReceipt({
+        vendor: 'Smile Orthodontics',
+        description: 'Braces adjustment',
+        date: '2021-06-14',
+      });
+      createReceipt({ vendor: 'CVS Pharmacy', description: 'Allergy medication', date: '2021-07-01' });
+
+      const response = await request(app).get('/api/search').query({ q: '2021 orthodontic' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].receipt.id).toBe(ortho.id);
+      expect(response.body[0].snippet).toContain('<mark>');
+      expect(typeof response.body[0].rank).toBe('number');
+    });
+
+    it('should search flag names and stay in sync with updates and deletes', async () => {
+      const { createReceipt, createFlag, updateReceipt, deleteReceipt } = await import('../../src/services/dbService');
+      const flag = createFlag('Orthodontia');
+      const receipt = createReceipt({ vendor: 'Dental Office' }, [flag.id]);
+
+      let response = await request(app).get('/api/search').query({ q: 'orthodontia' });
+      expect(response.body.map((r: any) => r.receipt.id)).toEqual([receipt.id]);
+
+      await updateReceipt(receipt.id, { vendor: 'Renamed Clinic' }, []);
+      response = await request(app).get('/api/search').query({ q: 'orthodontia' });
+      expect(response.body).toHaveLength(0);
+      response = await request(app).get('/api/search').query({ q: 'renamed' });
+      expect(response.body).toHaveLength(1);
+
+      deleteReceipt(receipt.id);
+      response = await request(app).get('/api/search').query({ q: 'renamed' });
+      expect(response.body).toHaveLength(0);
+    });
+
+    it('should tolerate FTS syntax characters in the query', async () => {
+      const { createReceipt } = await import('../../src/services/dbService');
+      createReceipt({ vendor: 'Dr. Smith "Family" Practice' });
+
+      const response = await request(app).get('/api/search').query({ q: '"smith* (family' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+    });
+
+    it('should return 400 when q is missing', async () => {
+      const response = await request(app).get('/api/search');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Search query (q) is required');
+    });
+  });
+});
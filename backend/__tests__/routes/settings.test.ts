@@ -130,6 +130,57 @@ describe('Settings API', () => {
       expect(response.status).toBe(200);
       expect(response.body.value).toBe('{date}_{user}_{vendor}_{amount}_{type}_{index}');
     });
+
+    it('should accept a whole number of trashRetentionDays', async () => {
+      const response = await request(app)
+        .put('/api/settings/trashRetentionDays')
+        .send({ value: 14 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.value).toBe(14);
+    });
+
+    it('should return 400 for invalid trashRetentionDays', async () => {
+      for (const value of [-1, 2.5, 'soon', 100000]) {
+        const response = await request(app)
+          .put('/api/settings/trashRetentionDays')
+          .send({ value });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toContain('trashRetentionDays must be a whole number of days');
+      }
+    });
+
+    it('should accept a valid directoryPattern', async () => {
+      const response = await request(app)
+        .put('/api/settings/directoryPattern')
+        .send({ value: '{type-group}/{year}' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.value).toBe('{type-group}/{year}');
+    });
+
+    it('should queue moving stored files when the directoryPattern changes', async () => {
+      const { db } = await import('../../src/db');
+      db.exec('DELETE FROM jobs');
+
+      const changed = await request(app).put('/api/settings/directoryPattern').send({ value: '{user}/{type}' });
+      expect(changed.status).toBe(200);
+      expect(changed.body.job).toEqual(expect.objectContaining({ type: 'migrate-files' }));
+
+      const unchanged = await request(app).put('/api/settings/directoryPattern').send({ value: '{user}/{type}' });
+      expect(unchanged.body.job).toBeUndefined();
+      const other = await request(app).put('/api/settings/ocrEnabled').send({ value: false });
+      expect(other.body.job).toBeUndefined();
+    });
+
+    it('should return 400 for an invalid directoryPattern', async () => {
+      const response = await request(app)
+        .put('/api/settings/directoryPattern')
+        .send({ value: '{year}/../{user}' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('cannot start or end with a dot');
+    });
   });
 });
-
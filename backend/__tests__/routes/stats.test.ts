@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { createTestApp } from '../helpers/testServer';
+import { createTestDbQueries } from '../helpers/testDb';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+describe('Stats API', () => {
+  const app = createTestApp();
+  let dbQueries: ReturnType<typeof createTestDbQueries>;
+  let aliceId: number;
+  let bobId: number;
+  let doctorTypeId: number;
+  let dentalTypeId: number;
+
+  beforeEach(async () => {
+    // Clear the mocked database
+    const dbModule = await import('../../src/db');
+    const db = dbModule.db;
+    dbQueries = dbModule.dbQueries;
+    db.exec(`
+      DELETE FROM receipt_flags;
+      DELETE FROM receipt_files;
+      DELETE FROM receipts;
+      DELETE FROM receipt_types;
+      DELETE FROM receipt_type_groups;
+      DELETE FROM users;
+    `);
+
+    aliceId = Number(dbQueries.insertUser.run('Alice').lastInsertRowid);
+    bobId = Number(dbQueries.insertUser.run('Bob').lastInsertRowid);
+    const medicalGroupId = Number(dbQueries.insertReceiptTypeGroup.run('Medical', 0).lastInsertRowid);
+    doctorTypeId = Number(dbQueries.insertReceiptType.run('Doctor', medicalGroupId, 0).lastInsertRowid);
+    dentalTypeId = Number(dbQueries.insertReceiptType.run('Dental', null, 0).lastInsertRowid);
+  });
+
+  const insertReceipt = (userId: number, typeId: number, amount: number, date: string) =>
+    Number(dbQueries.insertReceipt.run(userId, typeId, amount, 'Vendor', '', '', date, null).lastInsertRowid);
+
+  describe('GET /api/stats/summary', () => {
+    it('should return zero totals when no receipts exist', async () => {
+      const response = await request(app).get('/api/stats/summary');
+
+      expect(response.status).toBe(200);
+      expect(response.body.totals).toEqual({
+        receipt_count: 0,
+        total_spent: 0,
+        total_reimbursed: 0,
+        outstanding: 0,
+      });
+      expect(response.body.rows).toEqual([]);
+    });
+
+    it('should aggregate totals by user, year, group and status', async () => {
+      insertReceipt(aliceId, doctorTypeId, 100, '2024-01-15');
+      const partialId = insertReceipt(aliceId, dentalTypeId, 80, '2024-03-01');
+      const reimbursedId = insertReceipt(bobId, doctorTypeId, 50.5, '2023-06-10');
+      dbQueries.updateReceiptReimbursement.run('partial', '2024-04-01', 30, null, partialId);
+      dbQueries.updateReceiptReimbursement.run('reimbursed', '2023-07-01', 50.5, 'HSA-1', reimbursedId);
+
+      const response = await request(app).get('/api/stats/summary');
+
+      expect(response.status).toBe(200);
+      expect(response.body.totals).toEqual({
+        receipt_count: 3,
+        total_spent: 230.5,
+        total_reimbursed: 80.5,
+        outstanding: 150,
+      });
+
+      const alice = response.body.by_user.find((u: any) => u.user_name === 'Alice');
+      expect(alice.total_spent).toBe(180);
+      expect(alice.outstanding).toBe(150);
+
+      const medical = response.body.by_group.find((g: any) => g.group_name === 'Medical');
+      expect(medical.receipt_count).toBe(2);
+      expect(response.body.by_group.map((g: any) => g.group_name)).toContain('Ungrouped');
+
+      expect(response.body.by_year.map((y: any) => y.year)).toEqual(['2024', '2023']);
+      expect(response.body.years).toEqual(['2024', '2023']);
+
+      const reimbursed = response.body.by_status.find((s: any) => s.reimbursement_status === 'reimbursed');
+      expect(reimbursed.outstanding).toBe(0);
+    });
+
+    it('should filter by user and year', async () => {
+      insertReceipt(aliceId, doctorTypeId, 100, '2024-01-15');
+      insertReceipt(aliceId, doctorTypeId, 40, '2023-01-15');
+      insertReceipt(bobId, doctorTypeId, 25, '2024-02-15');
+
+      const response = await request(app).get(`/api/stats/summary?user_id=${aliceId}&year=2024`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.totals.receipt_count).toBe(1);
+      expect(response.body.totals.total_spent).toBe(100);
+      expect(response.body.by_user).toHaveLength(1);
+    });
+
+    it('should reject invalid filters', async () => {
+      const userResponse = await request(app).get('/api/stats/summary?user_id=abc');
+      expect(userResponse.status).toBe(400);
+      expect(userResponse.body.error).toContain('Invalid user_id');
+
+      const yearResponse = await request(app).get('/api/stats/summary?year=24');
+      expect(yearResponse.status).toBe(400);
+      expect(yearResponse.body.error).toContain('Invalid year');
+    });
+  });
+});
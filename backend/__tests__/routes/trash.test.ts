@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import fs from 'fs/promises';
+import path from 'path';
+import { createTestApp } from '../helpers/testServer';
+import { setupTestFiles, cleanupTestFiles } from '../helpers/testFiles';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+import { clearTestDb } from '../helpers/testDb';
+import { addReceiptFile, createReceipt, getAllReceipts, setSetting } from '../../src/services/dbService';
+import { getReceiptFilePathByDate, getTrashedFilePath } from '../../src/services/fileService';
+import { subscribeToEvents } from '../../src/services/eventService';
+import { getReceiptHistory } from '../../src/services/historyService';
+import { getQueuedJobs } from '../../src/services/jobService';
+import { purgeExpiredTrash, startTrashPurgeScheduler, stopTrashPurgeScheduler } from '../../src/services/trashService';
+
+describe('Trash API', () => {
+  const app = createTestApp();
+
+  beforeEach(async () => {
+    clearTestDb();
+    await setupTestFiles();
+  });
+
+  afterEach(async () => {
+    await cleanupTestFiles();
+  });
+
+  /**
+   * Create a receipt with PDF files stored on disk
+   */
+  async function createStoredReceipt(filenames: string[] = ['invoice.pdf']) {
+    const receipt = createReceipt({ user: 'Alice', type: 'Dental', date: '2024-03-01', vendor: 'Smile Dental', amount: 85 });
+    const files = [];
+    for (const [order, filename] of filenames.entries()) {
+      const filePath = getReceiptFilePathByDate('Alice', '2024-03-01', filename);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, `%PDF-1.4 ${filename}`);
+      files.push(addReceiptFile(receipt.id, filename, filename, order));
+    }
+    return { receipt, files };
+  }
+
+  /**
+   * Move everything in the trash back in time by a number of days
+   */
+  async function ageTrash(days: number) {
+    const { db } = await import('../../src/db');
+    const modifier = `-${days} days`;
+    db.prepare("UPDATE receipts SET deleted_at = datetime('now', ?) WHERE deleted_at IS NOT NULL").run(modifier);
+    db.prepare("UPDATE receipt_files SET deleted_at = datetime('now', ?) WHERE deleted_at IS NOT NULL").run(modifier);
+  }
+
+  async function exists(filePath: string) {
+    return fs.access(filePath).then(
+      () => true,
+      () => false
+    );
+  }
+
+  describe('DELETE /api/receipts/:id', () => {
+    it('should move the receipt and its files to the trash', async () => {
+      const { receipt, files } = await createStoredReceipt();
+
+      const response = await request(app).delete(`/api/receipts/${receipt.id}`);
+
+      expect(response.status).toBe(204);
+      expect((await request(app).get(`/api/receipts/${receipt.id}`)).status).toBe(404);
+      expect(getAllReceipts()).toHaveLength(0);
+      expect(await exists(getReceiptFilePathByDate('Alice', '2024-03-01', 'invoice.pdf'))).toBe(false);
+      expect(await fs.readFile(getTrashedFilePath(files[0]), 'utf-8')).toBe('%PDF-1.4 invoice.pdf');
+
+      const trash = await request(app).get('/api/trash');
+      expect(trash.status).toBe(200);
+      expect(trash.body.receipts.map((r: any) => r.id)).toEqual([receipt.id]);
+      expect(trash.body.receipts[0].files).toHaveLength(1);
+      expect(trash.body.retention_days).toBe(30);
+    });
+  });
+
+  describe('POST /api/trash/receipts/:id/restore', () => {
+    it('should bring the receipt and its files back', async () => {
+      const { receipt } = await createStoredReceipt();
+      await request(app).delete(`/api/receipts/${receipt.id}`);
+
+      const response = await request(app).post(`/api/trash/receipts/${receipt.id}/restore`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(expect.objectContaining({ id: receipt.id, vendor: 'Smile Dental' }));
+      expect(response.body.files).toHaveLength(1);
+      expect(await exists(getReceiptFilePathByDate('Alice', '2024-03-01', 'invoice.pdf'))).toBe(true);
+      expect((await request(app).get('/api/trash')).body.receipts).toEqual([]);
+      expect(getReceiptHistory(receipt.id).map(entry => entry.action)).toEqual(['restored', 'deleted', 'file_added', 'created']);
+    });
+
+    it('should return 404 for receipts that are not in the trash', async () => {
+      const { receipt } = await createStoredReceipt();
+
+      const response = await request(app).post(`/api/trash/receipts/${receipt.id}/restore`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Receipt not found in the trash');
+    });
+  });
+
+  describe('DELETE /api/trash/receipts/:id', () => {
+    it('should delete the receipt and its files for good', async () => {
+      const { receipt, files } = await createStoredReceipt(['invoice.pdf', 'claim.pdf']);
+      await request(app).delete(`/api/receipts/${receipt.id}/files/${files[1].id}`);
+      await request(app).delete(`/api/receipts/${receipt.id}`);
+
+      const response = await request(app).delete(`/api/trash/receipts/${receipt.id}`);
+
+      expect(response.status).toBe(204);
+      expect(await exists(getTrashedFilePath(files[0]))).toBe(false);
+      expect(await exists(getTrashedFilePath(files[1]))).toBe(false);
+      expect((await request(app).get('/api/trash')).body).toEqual(expect.objectContaining({ receipts: [], files: [] }));
+      expect(getReceiptHistory(receipt.id)[0].action).toBe('purged');
+    });
+
+    it('should not delete receipts that are not in the trash', async () => {
+      const { receipt } = await createStoredReceipt();
+
+      const response = await request(app).delete(`/api/trash/receipts/${receipt.id}`);
+
+      expect(response.status).toBe(404);
+      expect(getAllReceipts()).toHaveLength(1);
+    });
+  });
+
+  describe('trashed files', () => {
+    it('should move a deleted file to the trash and restore it', async () => {
+      const { receipt, files } = await createStoredReceipt(['invoice.pdf', 'claim.pdf']);
+
+      const deleted = await request(app).delete(`/api/receipts/${receipt.id}/files/${files[1].id}`);
+      expect(deleted.status).toBe(200);
+      expect(deleted.body.files.map((f: any) => f.filename)).toEqual(['invoice.pdf']);
+
+      const trash = await request(app).get('/api/trash');
+      expect(trash.body.files).toEqual([
+        expect.objectContaining({ id: files[1].id, receipt: expect.objectContaining({ id: receipt.id, vendor: 'Smile Dental' }) }),
+      ]);
+
+      const restored = await request(app).post(`/api/trash/files/${files[1].id}/restore`);
+      expect(restored.status).toBe(200);
+      expect(restored.body.files.map((f: any) => f.filename)).toEqual(['invoice.pdf', 'claim.pdf']);
+      expect(await exists(getReceiptFilePathByDate('Alice', '2024-03-01', 'claim.pdf'))).toBe(true);
+    });
+
+    it('should delete a trashed file for good', async () => {
+      const { receipt, files } = await createStoredReceipt(['invoice.pdf', 'claim.pdf']);
+      await request(app).delete(`/api/receipts/${receipt.id}/files/${files[1].id}`);
+      const events: string[] = [];
+      const unsubscribe = subscribeToEvents(event => events.push(event.type));
+
+      const response = await request(app).delete(`/api/trash/files/${files[1].id}`);
+      unsubscribe();
+
+      expect(response.status).toBe(204);
+      expect(events).toEqual(['receipt.updated']);
+      expect(await exists(getTrashedFilePath(files[1]))).toBe(false);
+      expect((await request(app).get('/api/trash')).body.files).toEqual([]);
+      expect((await request(app).delete(`/api/trash/files/${files[0].id}`)).status).toBe(404);
+    });
+  });
+
+  describe('purgeExpiredTrash', () => {
+    it('should purge only items older than the retention period', async () => {
+      const old = await createStoredReceipt();
+      await request(app).delete(`/api/receipts/${old.receipt.id}`);
+      await ageTrash(31);
+      const recent = await createStoredReceipt(['claim.pdf']);
+      await request(app).delete(`/api/receipts/${recent.receipt.id}`);
+
+      const result = await purgeExpiredTrash();
+
+      expect(result).toEqual({ receipts: 1, files: 0, retention_days: 30 });
+      expect((await request(app).get('/api/trash')).body.receipts.map((r: any) => r.id)).toEqual([recent.receipt.id]);
+    });
+
+    it('should keep everything when the retention period is 0', async () => {
+      const { receipt } = await createStoredReceipt();
+      await request(app).delete(`/api/receipts/${receipt.id}`);
+      await ageTrash(400);
+      setSetting('trashRetentionDays', '0');
+
+      expect(await purgeExpiredTrash()).toEqual({ receipts: 0, files: 0, retention_days: 0 });
+    });
+
+    it('should queue a single purge job when the scheduler checks again before it runs', async () => {
+      const { receipt } = await createStoredReceipt();
+      await request(app).delete(`/api/receipts/${receipt.id}`);
+      await ageTrash(31);
+
+      startTrashPurgeScheduler();
+      stopTrashPurgeScheduler();
+      startTrashPurgeScheduler();
+      stopTrashPurgeScheduler();
+
+      expect(getQueuedJobs('purge-trash')).toHaveLength(1);
+    });
+  });
+});
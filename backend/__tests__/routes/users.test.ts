@@ -1,8 +1,12 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import request from 'supertest';
 import { createTestApp } from '../helpers/testServer';
 import { setupTestDb, createTestDbQueries } from '../helpers/testDb';
 import { createUserFixture } from '../helpers/fixtures';
+import { setupTestFiles, cleanupTestFiles } from '../helpers/testFiles';
+import fs from 'fs/promises';
+import path from 'path';
+import { JobContext } from '../../src/models/job';
 
 // Mock the db module
 vi.mock('../../src/db', async () => {
@@ -127,5 +131,256 @@ describe('Users API', () => {
       expect(response.body.error).toContain('Invalid user ID');
     });
   });
-});
 
+  describe('deleting a user with receipts', () => {
+    beforeEach(async () => {
+      await setupTestFiles();
+    });
+
+    afterEach(async () => {
+      await cleanupTestFiles();
+    });
+
+    async function createReceiptWithFile(user: string) {
+      const { createReceipt, addReceiptFile } = await import('../../src/services/dbService');
+      const { getReceiptFilePathByDate } = await import('../../src/services/fileService');
+      const receipt = createReceipt({ user, type: 'Dental', date: '2024-03-01', vendor: 'Smile Dental', amount: 85 });
+      const filename = `2024-03-01_${user.toLowerCase()}_smile-dental_[${receipt.id}-0].pdf`;
+      const filePath = getReceiptFilePathByDate(user, '2024-03-01', filename);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, '%PDF-1.4');
+      addReceiptFile(receipt.id, filename, 'invoice.pdf', 0);
+      return receipt;
+    }
+
+    it('should report how many receipts belong to the user', async () => {
+      const { createUser } = await import('../../src/services/dbService');
+      const { trashReceipt } = await import('../../src/services/trashService');
+      const alice = createUser('Alice');
+      await createReceiptWithFile('Alice');
+      const trashed = await createReceiptWithFile('Alice');
+      await trashReceipt(trashed.id);
+
+      const response = await request(app).get(`/api/users/${alice.id}/usage`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ receipts: 1, trashed_receipts: 1 });
+    });
+
+    it('should refuse to delete a user with receipts unless they are moved', async () => {
+      const { createUser, getUserById } = await import('../../src/services/dbService');
+      const alice = createUser('Alice');
+      await createReceiptWithFile('Alice');
+
+      const response = await request(app).delete(`/api/users/${alice.id}`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.usage).toEqual({ receipts: 1, trashed_receipts: 0 });
+      expect(getUserById(alice.id)).not.toBeNull();
+    });
+
+    it('should move receipts and their files to another user', async () => {
+      const { createUser, getUserById, getReceiptById } = await import('../../src/services/dbService');
+      const { getReceiptFilePathByDate } = await import('../../src/services/fileService');
+      const { getReceiptHistory } = await import('../../src/services/historyService');
+      const alice = createUser('Alice');
+      const bob = createUser('Bob');
+      const receipt = await createReceiptWithFile('Alice');
+
+      const response = await request(app).delete(`/api/users/${alice.id}?reassign_to=${bob.id}`);
+
+      expect(response.status).toBe(204);
+      expect(getUserById(alice.id)).toBeNull();
+      const moved = getReceiptById(receipt.id)!;
+      expect(moved.user).toBe('Bob');
+      expect(moved.files[0].filename).toContain('bob');
+      await expect(fs.access(getReceiptFilePathByDate('Bob', '2024-03-01', moved.files[0].filename))).resolves.toBeUndefined();
+      expect(getReceiptHistory(receipt.id)).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ action: 'updated', changes: { user: { old: 'Alice', new: 'Bob' } } }),
+          expect.objectContaining({ action: 'file_renamed' }),
+        ])
+      );
+    });
+
+    it('should move the files back when the database changes fail', async () => {
+      const { createUser, getUserById, getReceiptById } = await import('../../src/services/dbService');
+      const { getReceiptFilePathByDate } = await import('../../src/services/fileService');
+      const { dbQueries } = await import('../../src/db');
+      const alice = createUser('Alice');
+      const bob = createUser('Bob');
+      const receipt = await createReceiptWithFile('Alice');
+      const filename = getReceiptById(receipt.id)!.files[0].filename;
+      const failure = vi.spyOn(dbQueries.reassignWatchFoldersUser, 'run').mockImplementationOnce(() => {
+        throw new Error('database is locked');
+      });
+
+      const response = await request(app).delete(`/api/users/${alice.id}?reassign_to=${bob.id}`);
+      failure.mockRestore();
+
+      expect(response.status).toBe(500);
+      expect(getUserById(alice.id)).not.toBeNull();
+      const unchanged = getReceiptById(receipt.id)!;
+      expect(unchanged.user).toBe('Alice');
+      expect(unchanged.files[0].filename).toBe(filename);
+      await expect(fs.access(getReceiptFilePathByDate('Alice', '2024-03-01', filename))).resolves.toBeUndefined();
+      await expect(fs.access(path.dirname(getReceiptFilePathByDate('Bob', '2024-03-01', filename)))).rejects.toThrow();
+    });
+
+    it('should reject moving receipts to the same or a missing user', async () => {
+      const { createUser } = await import('../../src/services/dbService');
+      const alice = createUser('Alice');
+      await createReceiptWithFile('Alice');
+
+      expect((await request(app).delete(`/api/users/${alice.id}?reassign_to=${alice.id}`)).status).toBe(400);
+      expect((await request(app).delete(`/api/users/${alice.id}?reassign_to=99999`)).status).toBe(400);
+      expect((await request(app).delete(`/api/users/${alice.id}?reassign_to=bob`)).status).toBe(400);
+    });
+  });
+
+  describe('renaming a user with files', () => {
+    beforeEach(async () => {
+      await setupTestFiles();
+      const { db } = await import('../../src/db');
+      db.exec('DELETE FROM jobs');
+    });
+
+    afterEach(async () => {
+      await cleanupTestFiles();
+    });
+
+    async function createReceiptWithFiles(user: string, count: number) {
+      const { createReceipt, addReceiptFile } = await import('../../src/services/dbService');
+      const { getReceiptFilePathByDate } = await import('../../src/services/fileService');
+      const receipt = createReceipt({ user, type: 'Dental', date: '2024-03-01', vendor: 'Smile Dental', amount: 85 });
+      for (let order = 0; order < count; order++) {
+        const filename = `2024-03-01_${user.toLowerCase()}_smile-dental_[${receipt.id}-${order}].pdf`;
+        const filePath = getReceiptFilePathByDate(user, '2024-03-01', filename);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, `%PDF-1.4 ${order}`);
+        addReceiptFile(receipt.id, filename, `page-${order}.pdf`, order);
+      }
+      return receipt;
+    }
+
+    async function renameAndWait(id: number, name: string) {
+      const { getRecentJobs, processJobQueue } = await import('../../src/services/jobService');
+      const response = await request(app).put(`/api/users/${id}`).send({ name });
+      await processJobQueue();
+      return { response, job: getRecentJobs().find((job) => job.type === 'relocate-user-files') };
+    }
+
+    it('should move the files into the new user folder', async () => {
+      const { createUser, getReceiptById } = await import('../../src/services/dbService');
+      const { getReceiptFilePathByDate, getReceiptDirByDate } = await import('../../src/services/fileService');
+      const mom = createUser('Mom');
+      const receipt = await createReceiptWithFiles('Mom', 2);
+
+      const { response, job } = await renameAndWait(mom.id, 'Jane');
+
+      expect(response.status).toBe(200);
+      expect(response.body.name).toBe('Jane');
+      expect(job?.status).toBe('completed');
+      expect(job?.result).toEqual(expect.objectContaining({ user: 'Jane', previous_name: 'Mom', totalFiles: 2, moved: 2, missing: 0 }));
+      expect((job?.result as any).files).toHaveLength(2);
+
+      const files = getReceiptById(receipt.id)!.files;
+      for (const file of files) {
+        expect(file.filename).toContain('jane');
+        await expect(fs.access(getReceiptFilePathByDate('Jane', '2024-03-01', file.filename))).resolves.toBeUndefined();
+      }
+      // The old user folder is removed once it is empty
+      const oldUserDir = path.dirname(path.dirname(path.dirname(getReceiptDirByDate('Mom', '2024-03-01'))));
+      await expect(fs.access(oldUserDir)).rejects.toThrow();
+    });
+
+    it('should not start a job when the user has no files', async () => {
+      const { createUser } = await import('../../src/services/dbService');
+      const mom = createUser('Mom');
+
+      const { job } = await renameAndWait(mom.id, 'Jane');
+
+      expect(job).toBeUndefined();
+    });
+
+    it('should undo the rename when a file cannot be moved', async () => {
+      const { createUser, getUserById, getReceiptById } = await import('../../src/services/dbService');
+      const { getReceiptFilePathByDate } = await import('../../src/services/fileService');
+      const { generateReceiptFilename } = await import('../../src/utils/filename');
+      const mom = createUser('Mom');
+      const receipt = await createReceiptWithFiles('Mom', 2);
+      // Something already sits where the second file would go
+      const blocked = getReceiptFilePathByDate(
+        'Jane',
+        '2024-03-01',
+        generateReceiptFilename('2024-03-01', 'Jane', 'Smile Dental', 85, 'Dental', 1, '.pdf', receipt.id)
+      );
+      await fs.mkdir(path.dirname(blocked), { recursive: true });
+      await fs.writeFile(blocked, 'unrelated');
+
+      const { job } = await renameAndWait(mom.id, 'Jane');
+
+      expect(job?.status).toBe('failed');
+      expect(job?.error).toContain('already exists');
+      expect(getUserById(mom.id)?.name).toBe('Mom');
+      for (const file of getReceiptById(receipt.id)!.files) {
+        await expect(fs.readFile(getReceiptFilePathByDate('Mom', '2024-03-01', file.filename), 'utf-8')).resolves.toBe(
+          `%PDF-1.4 ${file.file_order}`
+        );
+      }
+      await expect(fs.readFile(blocked, 'utf-8')).resolves.toBe('unrelated');
+    });
+
+    it('should keep a newer name when a file cannot be moved', async () => {
+      const { createUser, getUserById, getReceiptById } = await import('../../src/services/dbService');
+      const { getReceiptFilePathByDate, relocateUserFiles } = await import('../../src/services/fileService');
+      const { generateReceiptFilename } = await import('../../src/utils/filename');
+      const { SYSTEM_HISTORY } = await import('../../src/services/historyService');
+      const { dbQueries } = await import('../../src/db');
+      const mom = createUser('Mom');
+      const receipt = await createReceiptWithFiles('Mom', 2);
+      const blocked = getReceiptFilePathByDate(
+        'Jane',
+        '2024-03-01',
+        generateReceiptFilename('2024-03-01', 'Jane', 'Smile Dental', 85, 'Dental', 1, '.pdf', receipt.id)
+      );
+      await fs.mkdir(path.dirname(blocked), { recursive: true });
+      await fs.writeFile(blocked, 'unrelated');
+      dbQueries.updateUser.run('Jane', mom.id);
+
+      // The user is renamed again while the files are moving
+      const context: JobContext = {
+        reportProgress: () => dbQueries.updateUser.run('Janet', mom.id),
+        throwIfCancelled: () => {},
+        history: SYSTEM_HISTORY,
+      };
+      await expect(relocateUserFiles(mom.id, 'Mom', context)).rejects.toThrow('already exists');
+
+      expect(getUserById(mom.id)?.name).toBe('Janet');
+      for (const file of getReceiptById(receipt.id)!.files) {
+        await expect(fs.access(getReceiptFilePathByDate('Mom', '2024-03-01', file.filename))).resolves.toBeUndefined();
+      }
+    });
+
+    it('should queue one job per user that moves the files to the latest name', async () => {
+      const { createUser, getReceiptById } = await import('../../src/services/dbService');
+      const { getReceiptFilePathByDate } = await import('../../src/services/fileService');
+      const { getRecentJobs } = await import('../../src/services/jobService');
+      const { dbQueries } = await import('../../src/db');
+      const mom = createUser('Mom');
+      const receipt = await createReceiptWithFiles('Mom', 1);
+      // A job from an earlier rename is still waiting to run
+      dbQueries.updateUser.run('Jane', mom.id);
+      dbQueries.insertJob.run('relocate-user-files', JSON.stringify({ user_id: mom.id, previous_name: 'Mom' }), null);
+
+      const { response } = await renameAndWait(mom.id, 'Janet');
+
+      expect(response.status).toBe(200);
+      const jobs = getRecentJobs().filter((job) => job.type === 'relocate-user-files');
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0].result).toEqual(expect.objectContaining({ user: 'Janet', previous_name: 'Mom', moved: 1 }));
+      const [file] = getReceiptById(receipt.id)!.files;
+      await expect(fs.access(getReceiptFilePathByDate('Janet', '2024-03-01', file.filename))).resolves.toBeUndefined();
+    });
+  });
+});
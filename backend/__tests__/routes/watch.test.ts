@@ -52,6 +52,8 @@ vi.mock('../../src/services/fileService', async () => {
 		},
 		getReceiptDir,
 		ensureReceiptDir,
+		ensureReceiptDirByDate: async () => getTestReceiptsDir(),
+		deleteReceiptFiles: async () => {},
 		isImageFile: (filename: string) => {
 			const ext = pathMod.extname(filename).toLowerCase()
 			return ['.jpg', '.jpeg', '.png', '.webp'].includes(ext)
@@ -94,6 +96,8 @@ describe('Watch Routes', () => {
 		// Set environment variables
 		process.env.WATCH_FOLDER = watchFolder
 		process.env.WATCH_INTERVAL = '30'
+		// Test files are complete as soon as they are written
+		process.env.WATCH_STABILITY_SECONDS = '0'
 		process.env.UPLOAD_DIR = path.join(testDir, 'uploads')
 		await fs.mkdir(process.env.UPLOAD_DIR, { recursive: true })
 
@@ -186,4 +190,125 @@ describe('Watch Routes', () => {
 			expect(response.status).toBe(200)
 		})
 	})
+	describe('watch folders', () => {
+		it('should list the default folder', async () => {
+			const response = await request(app).get('/api/watch/folders')
+
+			expect(response.status).toBe(200)
+			expect(response.body).toEqual([
+				expect.objectContaining({ name: 'Watch Folder', path: null, processed_action: 'move', enabled: true }),
+			])
+		})
+
+		it('should add, update and remove a folder', async () => {
+			const inbox = path.join(path.dirname(watchFolder), 'inbox')
+			const { createFlag } = await import('../../src/services/dbService')
+			const flag = createFlag('Scanner')
+
+			const created = await request(app)
+				.post('/api/watch/folders')
+				.send({ name: ' Inbox ', path: inbox, interval_minutes: 5, flag_ids: [flag.id], processed_action: 'leave' })
+			expect(created.status).toBe(201)
+			expect(created.body).toMatchObject({
+				name: 'Inbox',
+				path: inbox,
+				interval_minutes: 5,
+				flag_ids: [flag.id],
+				processed_action: 'leave',
+				enabled: true,
+			})
+
+			const updated = await request(app).put(`/api/watch/folders/${created.body.id}`).send({ enabled: false })
+			expect(updated.status).toBe(200)
+			expect(updated.body).toMatchObject({ name: 'Inbox', interval_minutes: 5, enabled: false })
+
+			const status = await request(app).get('/api/watch/status')
+			expect(status.body.folders.map((f: any) => f.name)).toEqual(['Watch Folder', 'Inbox'])
+
+			expect((await request(app).delete(`/api/watch/folders/${created.body.id}`)).status).toBe(204)
+			expect((await request(app).delete(`/api/watch/folders/${created.body.id}`)).status).toBe(404)
+		})
+
+		it('should reject invalid folders', async () => {
+			const relative = await request(app).post('/api/watch/folders').send({ name: 'Inbox', path: 'inbox' })
+			expect(relative.status).toBe(400)
+			expect(relative.body.error).toBe('Path must be an absolute path')
+
+			const action = await request(app)
+				.post('/api/watch/folders')
+				.send({ name: 'Inbox', path: '/tmp/inbox', processed_action: 'archive' })
+			expect(action.status).toBe(400)
+			expect(action.body.error).toBe('Processed action must be one of: move, delete, leave')
+
+			const interval = await request(app)
+				.post('/api/watch/folders')
+				.send({ name: 'Inbox', path: '/tmp/inbox', interval_minutes: 0 })
+			expect(interval.status).toBe(400)
+
+			const user = await request(app).post('/api/watch/folders').send({ name: 'Inbox', path: '/tmp/inbox', user_id: 999 })
+			expect(user.status).toBe(400)
+			expect(user.body.error).toBe('User with ID 999 not found')
+		})
+
+		it('should reject a path that is already watched', async () => {
+			const response = await request(app).post('/api/watch/folders').send({ name: 'Again', path: `${watchFolder}/` })
+
+			expect(response.status).toBe(409)
+			expect(response.body.error).toBe('A watch folder with this path already exists')
+		})
+
+		it('should return 404 for a missing folder', async () => {
+			const response = await request(app).put('/api/watch/folders/999').send({ enabled: false })
+
+			expect(response.status).toBe(404)
+			expect(response.body.error).toBe('Watch folder not found')
+		})
+
+		it('should scan a single folder', async () => {
+			const missing = await request(app).post('/api/watch/scan').send({ folder_id: 999 })
+			expect(missing.status).toBe(404)
+
+			const invalid = await request(app).post('/api/watch/scan').send({ folder_id: 'abc' })
+			expect(invalid.status).toBe(400)
+		})
+	})
+	describe('import history', () => {
+		it('should list imports filtered by status', async () => {
+			const { createTestImageFile } = await import('../helpers/testFiles')
+			await createTestImageFile(watchFolder, 'test-receipt.jpg')
+			await request(app).post('/api/watch/scan')
+
+			const all = await request(app).get('/api/watch/history')
+			expect(all.status).toBe(200)
+			expect(all.body).toEqual([expect.objectContaining({ source_path: 'test-receipt.jpg', status: 'imported' })])
+
+			const failed = await request(app).get('/api/watch/history?status=failed')
+			expect(failed.body).toEqual([])
+		})
+
+		it('should reject invalid filters', async () => {
+			const status = await request(app).get('/api/watch/history?status=broken')
+			expect(status.status).toBe(400)
+			expect(status.body.error).toBe('Status must be one of: imported, failed, quarantined, discarded')
+
+			const limit = await request(app).get('/api/watch/history?limit=0')
+			expect(limit.status).toBe(400)
+		})
+
+		it('should only retry or discard failed imports', async () => {
+			const { createTestImageFile } = await import('../helpers/testFiles')
+			await createTestImageFile(watchFolder, 'test-receipt.jpg')
+			await request(app).post('/api/watch/scan')
+			const [entry] = (await request(app).get('/api/watch/history')).body
+
+			const retry = await request(app).post(`/api/watch/history/${entry.id}/retry`)
+			expect(retry.status).toBe(400)
+			expect(retry.body.error).toBe('Only failed or quarantined imports can be retried')
+
+			const discard = await request(app).post(`/api/watch/history/${entry.id}/discard`)
+			expect(discard.status).toBe(400)
+
+			expect((await request(app).post('/api/watch/history/999/retry')).status).toBe(404)
+		})
+	})
 })
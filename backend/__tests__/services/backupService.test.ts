@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import archiver from 'archiver';
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import { once } from 'events';
+import { createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { tmpdir } from 'os';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+// The watch service is stopped while a restore replaces its folders
+const { getWatchServiceStatus, startWatchService, stopWatchService } = vi.hoisted(() => ({
+  getWatchServiceStatus: vi.fn(),
+  startWatchService: vi.fn(),
+  stopWatchService: vi.fn(),
+}));
+vi.mock('../../src/services/watchService', () => ({
+  getWatchServiceStatus,
+  startWatchService,
+  stopWatchService,
+}));
+
+import {
+  BackupValidationError,
+  createBackup,
+  getBackupPath,
+  listBackups,
+  restoreBackup,
+  validateBackup,
+} from '../../src/services/backupService';
+import { createReceipt, createUser, getAllReceipts, getAllUsers } from '../../src/services/dbService';
+import { runMigrations } from '../../src/services/migrationService';
+import { readTarGz } from '../../src/utils/tar';
+
+/**
+ * Write a backup archive by hand, with the manifest describing the given entries
+ */
+async function writeArchive(archivePath: string, entries: Array<{ name: string; content: Buffer }>, manifest: object = {}) {
+  const archive = archiver('tar', { gzip: true });
+  const output = createWriteStream(archivePath);
+  const written = once(output, 'close');
+  archive.pipe(output);
+  for (const entry of entries) {
+    archive.append(entry.content, { name: entry.name });
+  }
+  archive.append(
+    JSON.stringify({
+      format: 'medstash-backup',
+      format_version: 1,
+      kind: 'manual',
+      created_at: new Date().toISOString(),
+      schema_version: null,
+      migrations: [],
+      receipt_count: 0,
+      files: entries.map(entry => ({
+        path: entry.name,
+        size: entry.content.length,
+        sha256: crypto.createHash('sha256').update(entry.content).digest('hex'),
+      })),
+      ...manifest,
+    }),
+    { name: 'manifest.json' }
+  );
+  await archive.finalize();
+  await written;
+}
+
+describe('backupService', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM jobs;
+      DELETE FROM duplicate_dismissals;
+      DELETE FROM receipt_files;
+      DELETE FROM receipt_flags;
+      DELETE FROM receipts;
+      DELETE FROM users;
+    `);
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'medstash-backups-'));
+    process.env.BACKUP_DIR = path.join(dir, 'backups');
+    process.env.RECEIPTS_DIR = path.join(dir, 'receipts');
+    process.env.THUMBNAILS_DIR = path.join(dir, 'thumbnails');
+    delete process.env.BACKUP_KEEP;
+    getWatchServiceStatus.mockReturnValue({ enabled: true });
+    startWatchService.mockReset();
+    stopWatchService.mockReset();
+  });
+
+  afterEach(async () => {
+    delete process.env.BACKUP_DIR;
+    delete process.env.RECEIPTS_DIR;
+    delete process.env.THUMBNAILS_DIR;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('createBackup', () => {
+    it('should archive the database and receipt files with checksums', async () => {
+      const alice = createUser('Alice');
+      createReceipt({ user_id: alice.id, date: '2024-03-01', vendor: 'Smile Dental', amount: 85 });
+      await fs.mkdir(path.join(dir, 'receipts', '2024', '03'), { recursive: true });
+      await fs.writeFile(path.join(dir, 'receipts', '2024', '03', 'scan.pdf'), '%PDF-1.4\n');
+
+      const backup = await createBackup('manual');
+
+      expect(backup.name).toMatch(/^medstash-manual-.+\.tar\.gz$/);
+      expect(backup.files).toBe(2);
+      const manifest = await validateBackup(path.join(dir, 'backups', backup.name));
+      expect(manifest.receipt_count).toBe(1);
+      expect(manifest.schema_version).toBe(manifest.migrations[manifest.migrations.length - 1]);
+      expect(manifest.files.map(file => file.path)).toEqual(['medstash.db', 'receipts/2024/03/scan.pdf']);
+      expect(await listBackups()).toEqual([expect.objectContaining({ name: backup.name, kind: 'manual' })]);
+      expect(await fs.readdir(path.join(dir, 'backups'))).toEqual([backup.name]);
+    });
+
+    it('should only keep the newest scheduled backups', async () => {
+      process.env.BACKUP_KEEP = '2';
+      const manual = await createBackup('manual');
+      await createBackup('scheduled');
+      const second = await createBackup('scheduled');
+      const third = await createBackup('scheduled');
+
+      expect((await listBackups()).map(backup => backup.name).sort()).toEqual(
+        [manual.name, second.name, third.name].sort()
+      );
+    });
+  });
+
+  describe('validateBackup', () => {
+    it('should reject archives whose files do not match the manifest', async () => {
+      const archivePath = path.join(dir, 'damaged.tar.gz');
+      await writeArchive(archivePath, [{ name: 'medstash.db', content: Buffer.from('database') }], {
+        files: [{ path: 'medstash.db', size: 8, sha256: '0'.repeat(64) }],
+      });
+
+      await expect(validateBackup(archivePath)).rejects.toThrow(
+        new BackupValidationError('The checksum of medstash.db does not match')
+      );
+    });
+
+    it('should reject archives that are not backups or come from a newer version', async () => {
+      const archivePath = path.join(dir, 'archive.tar.gz');
+      await fs.writeFile(archivePath, 'not an archive');
+      await expect(validateBackup(archivePath)).rejects.toThrow(BackupValidationError);
+
+      await writeArchive(archivePath, [{ name: 'medstash.db', content: Buffer.from('database') }], {
+        migrations: ['999_from_the_future.sql'],
+      });
+      await expect(validateBackup(archivePath)).rejects.toThrow('The backup was made by a newer version of MedStash');
+    });
+  });
+
+  describe('restoreBackup', () => {
+    it('should bring back the database and receipt files as they were', async () => {
+      const alice = createUser('Alice');
+      createReceipt({ user_id: alice.id, date: '2024-03-01', vendor: 'Smile Dental', amount: 85 });
+      await fs.mkdir(path.join(dir, 'receipts', '2024'), { recursive: true });
+      await fs.writeFile(path.join(dir, 'receipts', '2024', 'scan.pdf'), 'original');
+      const backup = await createBackup('manual');
+
+      createUser('Bob');
+      createReceipt({ user_id: alice.id, date: '2024-04-01', vendor: 'Pharmacy', amount: 12 });
+      await fs.writeFile(path.join(dir, 'receipts', '2024', 'scan.pdf'), 'changed');
+      await fs.writeFile(path.join(dir, 'receipts', 'new.pdf'), 'new');
+
+      const result = await restoreBackup(backup.name);
+
+      expect(result).toEqual(
+        expect.objectContaining({ name: backup.name, receipts: 1, files: 1, migrated: [] })
+      );
+      expect(getAllUsers().map(user => user.name)).toEqual(['Alice']);
+      expect(getAllReceipts().map(receipt => receipt.vendor)).toEqual(['Smile Dental']);
+      expect(await fs.readFile(path.join(dir, 'receipts', '2024', 'scan.pdf'), 'utf-8')).toBe('original');
+      await expect(fs.access(path.join(dir, 'receipts', 'new.pdf'))).rejects.toThrow();
+      expect(stopWatchService).toHaveBeenCalled();
+      expect(startWatchService).toHaveBeenCalled();
+
+      // The state before the restore is kept so it can be undone
+      expect(await getBackupPath(result.pre_restore_backup)).not.toBeNull();
+      expect((await fs.readdir(path.join(dir, 'backups'))).filter(name => name.startsWith('.'))).toEqual([]);
+    });
+
+    it('should migrate backups from older versions', async () => {
+      const oldDbPath = path.join(dir, 'old.db');
+      const oldDb = new Database(oldDbPath);
+      runMigrations(oldDb);
+      oldDb.exec(`
+        DROP INDEX idx_receipt_files_content_hash;
+        ALTER TABLE receipt_files DROP COLUMN content_hash;
+        ALTER TABLE receipt_files DROP COLUMN perceptual_hash;
+        DROP TABLE duplicate_dismissals;
+        DELETE FROM schema_migrations WHERE version = '015_add_duplicate_detection.sql';
+        INSERT INTO users (name) VALUES ('Carol');
+      `);
+      const migrations = (oldDb.prepare('SELECT version FROM schema_migrations ORDER BY version').all() as Array<{ version: string }>)
+        .map(row => row.version);
+      oldDb.close();
+
+      await fs.mkdir(path.join(dir, 'backups'));
+      const name = 'medstash-uploaded-2024-01-01T00-00-00-000.tar.gz';
+      await writeArchive(path.join(dir, 'backups', name), [{ name: 'medstash.db', content: await fs.readFile(oldDbPath) }], {
+        migrations,
+        schema_version: migrations[migrations.length - 1],
+      });
+
+      const result = await restoreBackup(name);
+
+      expect(result.migrated).toEqual(['015_add_duplicate_detection.sql']);
+      expect(getAllUsers().map(user => user.name)).toEqual(['Carol']);
+    });
+
+    it('should leave everything unchanged when the archive is damaged', async () => {
+      createUser('Alice');
+      await fs.mkdir(path.join(dir, 'backups'));
+      const name = 'medstash-uploaded-2024-01-01T00-00-00-000.tar.gz';
+      await writeArchive(path.join(dir, 'backups', name), [{ name: 'medstash.db', content: Buffer.from('database') }], {
+        files: [{ path: 'medstash.db', size: 8, sha256: '0'.repeat(64) }],
+      });
+
+      await expect(restoreBackup(name)).rejects.toThrow(BackupValidationError);
+
+      expect(getAllUsers().map(user => user.name)).toEqual(['Alice']);
+      expect(stopWatchService).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('readTarGz', () => {
+  it('should read long entry names and skip content that is not read', async () => {
+    const dir = await fs.mkdtemp(path.join(tmpdir(), 'medstash-tar-'));
+    try {
+      const archivePath = path.join(dir, 'archive.tar.gz');
+      const longName = `receipts/${'nested/'.repeat(30)}scan.pdf`;
+      await writeArchive(archivePath, [
+        { name: 'skipped.bin', content: Buffer.alloc(5000, 1) },
+        { name: longName, content: Buffer.from('long') },
+      ]);
+
+      const entries: Array<{ path: string; content?: string }> = [];
+      await readTarGz(archivePath, async (entry, content) => {
+        if (entry.path === longName) {
+          const chunks: Buffer[] = [];
+          for await (const chunk of content) chunks.push(chunk);
+          entries.push({ path: entry.path, content: Buffer.concat(chunks).toString() });
+        } else {
+          entries.push({ path: entry.path });
+        }
+      });
+
+      expect(entries).toEqual([
+        { path: 'skipped.bin' },
+        { path: longName, content: 'long' },
+        { path: 'manifest.json' },
+      ]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
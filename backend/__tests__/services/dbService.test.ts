@@ -88,6 +88,22 @@ describe('dbService', () => {
         expect(receipt.vendor).toBe('');
         expect(receipt.description).toBe('');
         expect(receipt.date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+        expect(receipt.reimbursement_status).toBe('unreimbursed');
+        expect(receipt.reimbursed_amount).toBeNull();
+      });
+
+      it('should create a receipt with reimbursement details', () => {
+        const receipt = createReceipt({
+          ...createReceiptFixture(),
+          reimbursement_status: 'reimbursed',
+          reimbursed_date: '2024-02-01',
+          hsa_transaction_ref: 'HSA-1',
+        });
+
+        expect(receipt.reimbursement_status).toBe('reimbursed');
+        expect(receipt.reimbursed_date).toBe('2024-02-01');
+        expect(receipt.reimbursed_amount).toBe(receipt.amount); // Defaults to receipt amount
+        expect(receipt.hsa_transaction_ref).toBe('HSA-1');
       });
 
       it('should create a receipt with flags', () => {
@@ -184,6 +200,25 @@ describe('dbService', () => {
         expect(updated?.flags[0].id).toBe(flag2.id);
       });
 
+      it('should update reimbursement fields', async () => {
+        const receipt = createReceipt(createReceiptFixture());
+
+        const partial = await updateReceipt(receipt.id, {
+          reimbursement_status: 'partial',
+          reimbursed_date: '2024-03-01',
+          reimbursed_amount: 25,
+        });
+        expect(partial?.reimbursement_status).toBe('partial');
+        expect(partial?.reimbursed_date).toBe('2024-03-01');
+        expect(partial?.reimbursed_amount).toBe(25);
+
+        // Reverting to unreimbursed clears the reimbursement details
+        const reverted = await updateReceipt(receipt.id, { reimbursement_status: 'unreimbursed' });
+        expect(reverted?.reimbursement_status).toBe('unreimbursed');
+        expect(reverted?.reimbursed_date).toBeNull();
+        expect(reverted?.reimbursed_amount).toBeNull();
+      });
+
       it('should return null for non-existent receipt', async () => {
         const updated = await updateReceipt(99999, { vendor: 'Test' });
         expect(updated).toBeNull();
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import { tmpdir } from 'os';
+import sharp from 'sharp';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+// Stored files are looked up in a temporary directory instead of the receipts directory
+const { findReceiptFilePath } = vi.hoisted(() => ({ findReceiptFilePath: vi.fn() }));
+vi.mock('../../src/services/fileService', () => ({
+  findReceiptFilePath,
+  isImageFile: (filename: string) => /\.(jpe?g|png|webp)$/i.test(filename),
+}));
+
+import {
+  computeFileHashes,
+  dismissDuplicate,
+  findDuplicateFiles,
+  findPossibleDuplicates,
+  hammingDistance,
+  hashExistingFiles,
+  setReceiptFileHashes,
+} from '../../src/services/duplicateService';
+import { addReceiptFile, createReceipt, createUser } from '../../src/services/dbService';
+
+/**
+ * Write a 64x64 grayscale gradient, getting darker to the right unless reversed
+ */
+async function writeGradient(filePath: string, reversed = false): Promise<string> {
+  const pixels = Buffer.alloc(64 * 64);
+  for (let y = 0; y < 64; y++) {
+    for (let x = 0; x < 64; x++) {
+      pixels[y * 64 + x] = reversed ? x * 4 : 255 - x * 4;
+    }
+  }
+  await sharp(pixels, { raw: { width: 64, height: 64, channels: 1 } }).png().toFile(filePath);
+  return filePath;
+}
+
+describe('duplicateService', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM duplicate_dismissals;
+      DELETE FROM receipt_files;
+      DELETE FROM receipt_flags;
+      DELETE FROM receipts;
+      DELETE FROM users;
+    `);
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'medstash-duplicates-'));
+    findReceiptFilePath.mockReset();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Create a receipt with one file, fingerprinted from the given path
+   */
+  async function createReceiptWithFile(filePath: string, overrides: { user_id?: number; vendor?: string; amount?: number } = {}) {
+    const receipt = createReceipt({ date: '2024-03-01', vendor: '', amount: 0, ...overrides });
+    const file = addReceiptFile(receipt.id, path.basename(filePath), path.basename(filePath), 0);
+    setReceiptFileHashes(file.id, await computeFileHashes(filePath, path.basename(filePath)));
+    return receipt;
+  }
+
+  describe('computeFileHashes', () => {
+    it('should hash the content of every file and the look of images', async () => {
+      const pdf = path.join(dir, 'scan.pdf');
+      await fs.writeFile(pdf, '%PDF-1.4\n');
+      const image = await writeGradient(path.join(dir, 'scan.png'));
+
+      const pdfHashes = await computeFileHashes(pdf, 'scan.pdf');
+      expect(pdfHashes.content_hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(pdfHashes.perceptual_hash).toBeNull();
+
+      const imageHashes = await computeFileHashes(image, 'scan.png');
+      expect(imageHashes.perceptual_hash).toBe('ffffffffffffffff');
+    });
+
+    it('should use the original name to recognize uploaded images', async () => {
+      const upload = await writeGradient(path.join(dir, 'upload.png'));
+      const renamed = path.join(dir, '3f2a9c');
+      await fs.rename(upload, renamed);
+
+      expect((await computeFileHashes(renamed, 'photo.png')).perceptual_hash).not.toBeNull();
+    });
+
+    it('should leave out the perceptual hash of images that cannot be decoded', async () => {
+      const broken = path.join(dir, 'broken.jpg');
+      await fs.writeFile(broken, 'not an image');
+
+      expect((await computeFileHashes(broken, 'broken.jpg')).perceptual_hash).toBeNull();
+    });
+  });
+
+  describe('hammingDistance', () => {
+    it('should count the differing bits', () => {
+      expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+      expect(hammingDistance('0000000000000000', '0000000000000013')).toBe(3);
+      expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    });
+  });
+
+  describe('findDuplicateFiles', () => {
+    it('should find identical files and look-alike images', async () => {
+      const original = await writeGradient(path.join(dir, 'original.png'));
+      const receipt = await createReceiptWithFile(original);
+
+      const copy = path.join(dir, 'copy.png');
+      await fs.copyFile(original, copy);
+      expect(findDuplicateFiles([await computeFileHashes(copy, 'copy.png')])).toEqual([
+        expect.objectContaining({ receipt_id: receipt.id, original_filename: 'original.png', reason: 'identical_file' }),
+      ]);
+
+      const rescan = path.join(dir, 'rescan.jpg');
+      await sharp(original).jpeg({ quality: 40 }).toFile(rescan);
+      expect(findDuplicateFiles([await computeFileHashes(rescan, 'rescan.jpg')])).toEqual([
+        expect.objectContaining({ receipt_id: receipt.id, reason: 'similar_image' }),
+      ]);
+
+      const different = await writeGradient(path.join(dir, 'different.png'), true);
+      expect(findDuplicateFiles([await computeFileHashes(different, 'different.png')])).toEqual([]);
+    });
+
+    it('should only search receipts of the given users', async () => {
+      const alice = createUser('Alice');
+      const bob = createUser('Bob');
+      const original = await writeGradient(path.join(dir, 'original.png'));
+      await createReceiptWithFile(original, { user_id: alice.id });
+
+      const hashes = [await computeFileHashes(original, 'original.png')];
+
+      expect(findDuplicateFiles(hashes, [bob.id])).toEqual([]);
+      expect(findDuplicateFiles(hashes, [alice.id])).toHaveLength(1);
+    });
+  });
+
+  describe('findPossibleDuplicates', () => {
+    it('should pair receipts with identical files or the same details', async () => {
+      const alice = createUser('Alice');
+      const original = await writeGradient(path.join(dir, 'original.png'));
+      const first = await createReceiptWithFile(original, { user_id: alice.id });
+      const second = await createReceiptWithFile(original, { user_id: alice.id });
+
+      const pdf = path.join(dir, 'visit.pdf');
+      await fs.writeFile(pdf, '%PDF-1.4\n');
+      const visit = await createReceiptWithFile(pdf, { user_id: alice.id, vendor: 'Smile Dental', amount: 85 });
+      const other = path.join(dir, 'visit-copy.pdf');
+      await fs.writeFile(other, '%PDF-1.4\n%copy\n');
+      const sameVisit = await createReceiptWithFile(other, { user_id: alice.id, vendor: 'smile dental ', amount: 85 });
+
+      const pairs = findPossibleDuplicates();
+
+      expect(pairs.map(pair => [pair.receipts.map(r => r.id), pair.reasons])).toEqual([
+        [[visit.id, sameVisit.id], ['same_details']],
+        [[first.id, second.id], ['identical_file']],
+      ]);
+    });
+
+    it('should leave out dismissed pairs and receipts of other users', async () => {
+      const alice = createUser('Alice');
+      const bob = createUser('Bob');
+      const original = await writeGradient(path.join(dir, 'original.png'));
+      const first = await createReceiptWithFile(original, { user_id: alice.id });
+      const second = await createReceiptWithFile(original, { user_id: alice.id });
+
+      expect(findPossibleDuplicates([bob.id])).toEqual([]);
+
+      dismissDuplicate(second.id, first.id);
+      expect(findPossibleDuplicates()).toEqual([]);
+    });
+  });
+
+  describe('hashExistingFiles', () => {
+    it('should fingerprint files stored without hashes', async () => {
+      const stored = await writeGradient(path.join(dir, 'stored.png'));
+      const receipt = createReceipt({ date: '2024-03-01', vendor: '', amount: 0 });
+      addReceiptFile(receipt.id, 'stored.png', 'stored.png', 0);
+      addReceiptFile(receipt.id, 'missing.png', 'missing.png', 1);
+      findReceiptFilePath.mockImplementation(async (_receiptId: number, filename: string) =>
+        filename === 'stored.png' ? stored : null
+      );
+
+      const result = await hashExistingFiles();
+
+      expect(result).toEqual({ total: 2, hashed: 1, errors: ['File not found: missing.png'] });
+      expect(findDuplicateFiles([await computeFileHashes(stored, 'stored.png')])).toHaveLength(1);
+      expect((await hashExistingFiles()).total).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+import { setupTestFiles, cleanupTestFiles } from '../helpers/testFiles';
+import { publishEvent, subscribeToEvents } from '../../src/services/eventService';
+import { createReceipt, updateReceipt, deleteReceipt, addReceiptFile, createUser } from '../../src/services/dbService';
+import { ServerEvent } from '../../src/models/event';
+
+describe('eventService', () => {
+  let events: ServerEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM receipt_flags;
+      DELETE FROM receipt_files;
+      DELETE FROM receipts;
+      DELETE FROM receipts_fts;
+      DELETE FROM users;
+    `);
+    await setupTestFiles();
+    events = [];
+    unsubscribe = subscribeToEvents(event => events.push(event));
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    await cleanupTestFiles();
+  });
+
+  it('should deliver published events until unsubscribed', () => {
+    publishEvent('watch.scan_started');
+    unsubscribe();
+    publishEvent('watch.scan_completed');
+
+    expect(events).toEqual([{ type: 'watch.scan_started', data: {} }]);
+  });
+
+  it('should publish receipt changes made through the service layer', async () => {
+    const userId = createUser('Parent').id;
+    const otherUserId = createUser('Child').id;
+
+    const receipt = createReceipt({ user_id: userId, vendor: 'Clinic' });
+    const file = addReceiptFile(receipt.id, 'scan.pdf', 'scan.pdf', 0);
+    await updateReceipt(receipt.id, { user_id: otherUserId });
+    deleteReceipt(receipt.id);
+
+    expect(events).toEqual([
+      { type: 'receipt.created', data: { receipt_id: receipt.id, user_id: userId } },
+      { type: 'receipt.file_added', data: { receipt_id: receipt.id, user_id: userId, file_id: file.id } },
+      { type: 'receipt.updated', data: { receipt_id: receipt.id, user_id: otherUserId, previous_user_id: userId } },
+      { type: 'receipt.deleted', data: { receipt_id: receipt.id, user_id: otherUserId } },
+    ]);
+  });
+});
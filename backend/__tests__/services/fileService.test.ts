@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { setupTestFiles, cleanupTestFiles, createTestFile, createTestImageFile, createTestPdfFile, fileExists as checkFileExists } from '../helpers/testFiles';
+import { setupTestFiles, cleanupTestFiles, createTestFile, createTestImageFile, createTestPdfFile, createTestPdfWithText, fileExists as checkFileExists } from '../helpers/testFiles';
+import sharp from 'sharp';
 import { createMockFile } from '../helpers/fixtures';
 import path from 'path';
 import fs from 'fs/promises';
@@ -658,5 +659,219 @@ describe('fileService', () => {
       expect(renameResults).toHaveLength(0);
     });
   });
-});
 
+  describe('thumbnails', () => {
+    let thumbnailsDir: string;
+
+    beforeEach(() => {
+      thumbnailsDir = path.join(path.dirname(testDirs.receiptsDir), 'thumbnails');
+      process.env.THUMBNAILS_DIR = thumbnailsDir;
+    });
+
+    afterEach(() => {
+      delete process.env.THUMBNAILS_DIR;
+    });
+
+    async function createLargeImage(filename: string): Promise<string> {
+      const imagePath = path.join(testDirs.uploadDir, filename);
+      await sharp({ create: { width: 2400, height: 1600, channels: 3, background: '#336699' } }).jpeg().toFile(imagePath);
+      return imagePath;
+    }
+
+    it('should identify supported sizes and file types', () => {
+      expect(fileService.isThumbnailSize('thumb')).toBe(true);
+      expect(fileService.isThumbnailSize('medium')).toBe(true);
+      expect(fileService.isThumbnailSize('large')).toBe(false);
+      expect(fileService.isThumbnailSize(undefined)).toBe(false);
+      expect(fileService.canGenerateThumbnail('scan.JPG')).toBe(true);
+      expect(fileService.canGenerateThumbnail('statement.pdf')).toBe(true);
+      expect(fileService.canGenerateThumbnail('notes.txt')).toBe(false);
+    });
+
+    it('should generate image renditions within each size bound', async () => {
+      const imagePath = await createLargeImage('large.jpg');
+
+      const thumbPath = await fileService.getReceiptFileThumbnail(1, imagePath, 'large.jpg', 'thumb');
+      const mediumPath = await fileService.getReceiptFileThumbnail(1, imagePath, 'large.jpg', 'medium');
+
+      expect(thumbPath).toBe(path.join(thumbnailsDir, 'thumb', '1.webp'));
+      const thumb = await sharp(thumbPath).metadata();
+      expect(thumb.format).toBe('webp');
+      expect(thumb.width).toBe(fileService.THUMBNAIL_SIZES.thumb);
+      expect(thumb.height).toBe(Math.round((fileService.THUMBNAIL_SIZES.thumb * 1600) / 2400));
+      expect((await sharp(mediumPath).metadata()).width).toBe(fileService.THUMBNAIL_SIZES.medium);
+    });
+
+    it('should render the first page of PDFs', async () => {
+      const pdfPath = await createTestPdfWithText(testDirs.uploadDir, 'statement.pdf', ['Statement']);
+
+      const thumbPath = await fileService.getReceiptFileThumbnail(2, pdfPath, 'statement.pdf', 'thumb');
+
+      const metadata = await sharp(thumbPath).metadata();
+      expect(metadata.format).toBe('webp');
+      // Letter-size pages are taller than wide, so the height hits the bound
+      expect(metadata.height).toBe(fileService.THUMBNAIL_SIZES.thumb);
+    });
+
+    it('should reuse cached renditions until the source changes', async () => {
+      const imagePath = await createLargeImage('cached.jpg');
+      const thumbPath = await fileService.getReceiptFileThumbnail(3, imagePath, 'cached.jpg', 'thumb');
+      const past = new Date(Date.now() - 60 * 1000);
+      await fs.utimes(imagePath, past, past);
+      const { mtimeMs } = await fs.stat(thumbPath);
+
+      await fileService.getReceiptFileThumbnail(3, imagePath, 'cached.jpg', 'thumb');
+      expect((await fs.stat(thumbPath)).mtimeMs).toBe(mtimeMs);
+
+      // Source is newer than the cached rendition
+      await fs.utimes(thumbPath, new Date(past.getTime() - 60 * 1000), new Date(past.getTime() - 60 * 1000));
+      await fileService.getReceiptFileThumbnail(3, imagePath, 'cached.jpg', 'thumb');
+      expect((await fs.stat(thumbPath)).mtimeMs).toBeGreaterThan(past.getTime());
+    });
+
+    it('should remove every rendition when invalidated', async () => {
+      const imagePath = await createLargeImage('invalidate.jpg');
+      const thumbPath = await fileService.getReceiptFileThumbnail(4, imagePath, 'invalidate.jpg', 'thumb');
+      const mediumPath = await fileService.getReceiptFileThumbnail(4, imagePath, 'invalidate.jpg', 'medium');
+
+      await fileService.invalidateThumbnails(4);
+
+      expect(await checkFileExists(thumbPath)).toBe(false);
+      expect(await checkFileExists(mediumPath)).toBe(false);
+      await expect(fileService.invalidateThumbnails(4)).resolves.not.toThrow();
+    });
+
+    it('should invalidate renditions when a file is replaced', async () => {
+      const receiptId = await createTestReceipt(1, 'John Doe', '2024-01-15');
+      await createTestPdfWithText(testDirs.uploadDir, 'old.pdf', ['Old']);
+      const saved = await fileService.saveReceiptFile(
+        createMockFile({ originalname: 'old.pdf', path: path.join(testDirs.uploadDir, 'old.pdf') }),
+        receiptId,
+        '2024-01-15',
+        'John Doe',
+        'Test Clinic',
+        100,
+        'doctor-visit',
+        0
+      );
+      const fileId = Number(dbQueries.insertReceiptFile.run(receiptId, saved.filename, 'old.pdf', 0).lastInsertRowid);
+      const filePath = await fileService.findReceiptFilePath(receiptId, saved.filename);
+      const thumbPath = await fileService.getReceiptFileThumbnail(fileId, filePath!, saved.filename, 'thumb');
+
+      await createTestPdfWithText(testDirs.uploadDir, 'new.pdf', ['New']);
+      await fileService.replaceReceiptFile(
+        createMockFile({ originalname: 'new.pdf', path: path.join(testDirs.uploadDir, 'new.pdf') }),
+        receiptId,
+        saved.filename
+      );
+
+      expect(await checkFileExists(thumbPath)).toBe(false);
+    });
+
+    it('should invalidate renditions of files renamed with their receipt', async () => {
+      const receiptId = await createTestReceipt(1, 'John Doe', '2024-01-15');
+      await createTestPdfWithText(testDirs.uploadDir, 'receipt.pdf', ['Receipt']);
+      const saved = await fileService.saveReceiptFile(
+        createMockFile({ originalname: 'receipt.pdf', path: path.join(testDirs.uploadDir, 'receipt.pdf') }),
+        receiptId,
+        '2024-01-15',
+        'John Doe',
+        'Test Clinic',
+        100,
+        'doctor-visit',
+        0
+      );
+      const fileId = Number(dbQueries.insertReceiptFile.run(receiptId, saved.filename, 'receipt.pdf', 0).lastInsertRowid);
+      const filePath = await fileService.findReceiptFilePath(receiptId, saved.filename);
+      const thumbPath = await fileService.getReceiptFileThumbnail(fileId, filePath!, saved.filename, 'thumb');
+
+      await fileService.renameReceiptFiles(
+        receiptId,
+        [{ id: fileId, filename: saved.filename, original_filename: 'receipt.pdf', file_order: 0 }],
+        '2024-01-15',
+        'John Doe',
+        'Other Clinic',
+        100,
+        'doctor-visit',
+        []
+      );
+
+      expect(await checkFileExists(thumbPath)).toBe(false);
+    });
+  });
+
+  describe('directory layout', () => {
+    async function saveTestFile(receiptId: number, name: string) {
+      await createTestFile(testDirs.uploadDir, name, 'receipt');
+      const saved = await fileService.saveReceiptFile(
+        createMockFile({ originalname: name, path: path.join(testDirs.uploadDir, name) }),
+        receiptId,
+        '2024-01-15',
+        'John Doe',
+        'Test Clinic',
+        100,
+        'doctor-visit',
+        0
+      );
+      dbQueries.insertReceiptFile.run(receiptId, saved.filename, name, 0);
+      return saved.filename;
+    }
+
+    it('should place files in the folders of the directoryPattern setting', async () => {
+      const receiptId = await createTestReceipt(1, 'John Doe', '2024-01-15');
+      if (!dbQueries.getReceiptTypeGroupByName.get('Medical')) {
+        dbQueries.insertReceiptTypeGroup.run('Medical', 0);
+      }
+      const group = dbQueries.getReceiptTypeGroupByName.get('Medical') as { id: number };
+      const type = dbQueries.getReceiptTypeByName.get('doctor-visit') as { id: number };
+      dbQueries.updateReceiptTypeGroupId.run(group.id, 0, type.id);
+      const { setSetting } = await import('../../src/services/dbService');
+      setSetting('directoryPattern', JSON.stringify('{type-group}/{year}/{user}'));
+
+      const filename = await saveTestFile(receiptId, 'invoice.pdf');
+
+      const expectedDir = path.join(testDirs.receiptsDir, 'medical', '2024', 'john-doe');
+      expect(fileService.getReceiptDirByDate('John Doe', '2024-01-15', 'doctor-visit')).toBe(expectedDir);
+      expect(await checkFileExists(path.join(expectedDir, filename))).toBe(true);
+      expect(await fileService.findReceiptFilePath(receiptId, filename)).toBe(path.join(expectedDir, filename));
+    });
+
+    it('should move existing files to a new layout and remove the empty old folders', async () => {
+      const receiptId = await createTestReceipt(1, 'John Doe', '2024-01-15');
+      const filename = await saveTestFile(receiptId, 'invoice.pdf');
+      const oldPath = fileService.getReceiptFilePathByDate('John Doe', '2024-01-15', filename);
+      const { setSetting } = await import('../../src/services/dbService');
+      setSetting('directoryPattern', JSON.stringify('{year}/{type}'));
+
+      const result = await fileService.migrateFilesToDirectoryLayout();
+
+      expect(result).toMatchObject({ pattern: '{year}/{type}', totalFiles: 1, filesMoved: 1, missing: 0, errors: [] });
+      expect(await checkFileExists(path.join(testDirs.receiptsDir, '2024', 'doctor-visit', filename))).toBe(true);
+      expect(await checkFileExists(oldPath)).toBe(false);
+      expect(await checkFileExists(path.join(testDirs.receiptsDir, 'john-doe'))).toBe(false);
+    });
+
+    it('should move files out of the legacy per-receipt folders', async () => {
+      const receiptId = await createTestReceipt(1, 'John Doe', '2024-01-15');
+      const legacyDir = path.join(testDirs.receiptsDir, receiptId.toString());
+      await fs.mkdir(legacyDir, { recursive: true });
+      await createTestFile(legacyDir, 'scan.pdf', 'receipt');
+      dbQueries.insertReceiptFile.run(receiptId, 'scan.pdf', 'scan.pdf', 0);
+
+      const result = await fileService.migrateFilesToDirectoryLayout();
+
+      expect(result.filesMoved).toBe(1);
+      expect(await checkFileExists(fileService.getReceiptFilePathByDate('John Doe', '2024-01-15', 'scan.pdf'))).toBe(true);
+      expect(await checkFileExists(legacyDir)).toBe(false);
+    });
+
+    it('should report files that cannot be found', async () => {
+      const receiptId = await createTestReceipt(1, 'John Doe', '2024-01-15');
+      dbQueries.insertReceiptFile.run(receiptId, `gone[${receiptId}-0].pdf`, 'gone.pdf', 0);
+
+      const result = await fileService.migrateFilesToDirectoryLayout();
+
+      expect(result).toMatchObject({ totalFiles: 1, filesMoved: 0, missing: 1 });
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+import {
+  applyImportRules,
+  createImportRule,
+  deleteImportRule,
+  getAllImportRules,
+  parseDateFromFilename,
+  updateImportRule,
+} from '../../src/services/importRuleService';
+import { createFlag, createUser, deleteFlag, deleteUser } from '../../src/services/dbService';
+import { ImportRule } from '../../src/models/importRule';
+
+/**
+ * Build an in-memory rule without touching the database
+ */
+function rule(overrides: Partial<ImportRule>): ImportRule {
+  return {
+    id: 1,
+    name: 'Rule',
+    match_type: 'filename',
+    pattern: '.*',
+    user_id: null,
+    receipt_type_id: null,
+    vendor: null,
+    date_from_filename: false,
+    enabled: true,
+    flag_ids: [],
+    created_at: '2024-01-01 00:00:00',
+    ...overrides,
+  };
+}
+
+describe('importRuleService', () => {
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec(`
+      DELETE FROM import_rules;
+      DELETE FROM receipt_flags;
+      DELETE FROM receipts;
+      DELETE FROM flags;
+      DELETE FROM users;
+    `);
+  });
+
+  describe('parseDateFromFilename', () => {
+    it('should find dates in common scanner and phone formats', () => {
+      expect(parseDateFromFilename('Scan_20240115_103012.pdf')).toBe('2024-01-15');
+      expect(parseDateFromFilename('CVS_2024-02-03.pdf')).toBe('2024-02-03');
+      expect(parseDateFromFilename('receipt 2024.03.04.jpg')).toBe('2024-03-04');
+      expect(parseDateFromFilename('pharmacy 01-15-2024.jpg')).toBe('2024-01-15');
+    });
+
+    it('should ignore impossible dates and unrelated numbers', () => {
+      expect(parseDateFromFilename('CVS_2024-02-30.pdf')).toBeNull();
+      expect(parseDateFromFilename('invoice-123456789.pdf')).toBeNull();
+      expect(parseDateFromFilename('receipt.pdf')).toBeNull();
+    });
+  });
+
+  describe('applyImportRules', () => {
+    it('should match folder names case-insensitively', () => {
+      const rules = [rule({ match_type: 'folder', pattern: 'alice', user_id: 7 })];
+
+      expect(applyImportRules(rules, { folder: 'Alice', filenames: ['scan.jpg'] }).user_id).toBe(7);
+      expect(applyImportRules(rules, { folder: null, filenames: ['alice.jpg'] }).user_id).toBeUndefined();
+    });
+
+    it('should test filename patterns as regular expressions', () => {
+      const rules = [rule({ match_type: 'filename', pattern: '^cvs_\\d+', vendor: 'CVS' })];
+
+      expect(applyImportRules(rules, { folder: null, filenames: ['CVS_123.pdf'] }).vendor).toBe('CVS');
+      expect(applyImportRules(rules, { folder: null, filenames: ['my_CVS_123.pdf'] }).vendor).toBeUndefined();
+    });
+
+    it('should only match text rules once text is available', () => {
+      const rules = [rule({ match_type: 'text', pattern: 'Walgreens', vendor: 'Walgreens' })];
+
+      expect(applyImportRules(rules, { folder: null, filenames: ['a.jpg'] }).vendor).toBeUndefined();
+      expect(applyImportRules(rules, { folder: null, filenames: ['a.jpg'], text: 'WALGREENS #1234' }).vendor).toBe(
+        'Walgreens'
+      );
+    });
+
+    it('should let earlier rules win each field and combine flags', () => {
+      const rules = [
+        rule({ id: 1, pattern: 'cvs', vendor: 'CVS', flag_ids: [1] }),
+        rule({ id: 2, pattern: '.*', vendor: 'Fallback', receipt_type_id: 3, flag_ids: [1, 2] }),
+      ];
+
+      const actions = applyImportRules(rules, { folder: null, filenames: ['cvs.pdf'] });
+
+      expect(actions).toEqual({ vendor: 'CVS', receipt_type_id: 3, flag_ids: [1, 2] });
+    });
+
+    it('should take the date from the first file name that has one', () => {
+      const rules = [rule({ date_from_filename: true })];
+
+      const actions = applyImportRules(rules, { folder: 'batch', filenames: ['cover.pdf', 'page_20231105.jpg'] });
+
+      expect(actions.date).toBe('2023-11-05');
+    });
+  });
+
+  describe('storage', () => {
+    it('should create, update and delete rules with their flags', () => {
+      const urgent = createFlag('Urgent');
+      const pharmacy = createFlag('Pharmacy');
+
+      const created = createImportRule({
+        name: 'CVS',
+        match_type: 'filename',
+        pattern: '^CVS_',
+        vendor: 'CVS',
+        flag_ids: [urgent.id],
+      });
+      expect(created).toMatchObject({ vendor: 'CVS', enabled: true, date_from_filename: false, flag_ids: [urgent.id] });
+
+      const updated = updateImportRule(created.id, { enabled: false, flag_ids: [pharmacy.id] });
+      expect(updated).toMatchObject({ name: 'CVS', vendor: 'CVS', enabled: false, flag_ids: [pharmacy.id] });
+
+      expect(deleteImportRule(created.id)).toBe(true);
+      expect(getAllImportRules()).toEqual([]);
+      expect(updateImportRule(created.id, { name: 'Gone' })).toBeNull();
+    });
+
+    it('should keep rules when the user or flag they assign is deleted', () => {
+      const alice = createUser('Alice');
+      const flag = createFlag('Alice');
+      const created = createImportRule({
+        name: 'Alice',
+        match_type: 'folder',
+        pattern: 'alice',
+        user_id: alice.id,
+        flag_ids: [flag.id],
+      });
+
+      deleteUser(alice.id);
+      deleteFlag(flag.id);
+
+      expect(getAllImportRules()).toEqual([expect.objectContaining({ id: created.id, user_id: null, flag_ids: [] })]);
+    });
+  });
+});
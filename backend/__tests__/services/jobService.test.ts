@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+const { optimizeExistingImages, renameAllReceiptFiles } = vi.hoisted(() => ({
+  optimizeExistingImages: vi.fn(),
+  renameAllReceiptFiles: vi.fn(),
+}));
+vi.mock('../../src/services/fileService', () => ({
+  optimizeExistingImages,
+  reoptimizeAllImages: vi.fn(),
+  renameAllReceiptFiles,
+  migrateFilesToDirectoryLayout: vi.fn(),
+}));
+
+import { enqueueJob, enqueueJobOnce, cancelJob, getJobById, getRecentJobs, processJobQueue, startJobWorker } from '../../src/services/jobService';
+import { JobContext } from '../../src/models/job';
+
+describe('jobService', () => {
+  beforeEach(async () => {
+    const { db } = await import('../../src/db');
+    db.exec('DELETE FROM jobs;');
+    optimizeExistingImages.mockReset();
+    renameAllReceiptFiles.mockReset();
+  });
+
+  it('should run a queued job and store its progress and result', async () => {
+    renameAllReceiptFiles.mockImplementation(async (context: JobContext) => {
+      context.reportProgress(1, 2);
+      context.reportProgress(2, 2);
+      return { renamed: 2 };
+    });
+
+    const job = enqueueJob('rename-files');
+    expect(job.status).toBe('queued');
+    await processJobQueue();
+
+    const finished = getJobById(job.id)!;
+    expect(finished.status).toBe('completed');
+    expect(finished.progress).toBe(2);
+    expect(finished.total).toBe(2);
+    expect(finished.result).toEqual({ renamed: 2 });
+    expect(finished.started_at).not.toBeNull();
+    expect(finished.finished_at).not.toBeNull();
+  });
+
+  it('should pass the job params to the operation', async () => {
+    optimizeExistingImages.mockResolvedValue({ optimized: 0 });
+
+    enqueueJob('optimize-images', { batchSize: 5 });
+    await processJobQueue();
+
+    expect(optimizeExistingImages).toHaveBeenCalledWith(expect.objectContaining({ batchSize: 5 }));
+  });
+
+  it('should run jobs one at a time in the order they were queued', async () => {
+    const order: string[] = [];
+    renameAllReceiptFiles.mockImplementation(async () => {
+      order.push('rename start');
+      await new Promise(resolve => setTimeout(resolve, 10));
+      order.push('rename end');
+      return {};
+    });
+    optimizeExistingImages.mockImplementation(async () => {
+      order.push('optimize');
+      return {};
+    });
+
+    const first = enqueueJob('rename-files');
+    const second = enqueueJob('optimize-images');
+    expect(getJobById(second.id)!.status).toBe('queued');
+    await processJobQueue();
+
+    expect(order).toEqual(['rename start', 'rename end', 'optimize']);
+    expect(getRecentJobs().map(job => job.id)).toEqual([second.id, first.id]);
+  });
+
+  it('should record the error of a failed job', async () => {
+    renameAllReceiptFiles.mockRejectedValue(new Error('Disk full'));
+
+    const job = enqueueJob('rename-files');
+    await processJobQueue();
+
+    expect(getJobById(job.id)!.status).toBe('failed');
+    expect(getJobById(job.id)!.error).toBe('Disk full');
+  });
+
+  it('should cancel queued jobs before they start', async () => {
+    renameAllReceiptFiles.mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return {};
+    });
+
+    enqueueJob('rename-files');
+    const queued = enqueueJob('optimize-images');
+    expect(cancelJob(queued.id)!.status).toBe('cancelled');
+    await processJobQueue();
+
+    expect(optimizeExistingImages).not.toHaveBeenCalled();
+  });
+
+  it('should reuse a queued job of the same type and params', async () => {
+    const queued = enqueueJobOnce('migrate-files');
+    expect(enqueueJobOnce('migrate-files').id).toBe(queued.id);
+    expect(enqueueJobOnce('optimize-images', { batchSize: 5 }).id).not.toBe(queued.id);
+    expect(enqueueJobOnce('optimize-images', { batchSize: 10 }).id).not.toBe(enqueueJobOnce('optimize-images', { batchSize: 5 }).id);
+    await processJobQueue();
+
+    expect(enqueueJobOnce('migrate-files').id).not.toBe(queued.id);
+  });
+
+  it('should stop running jobs at their next checkpoint', async () => {
+    let jobId = 0;
+    const processed: number[] = [];
+    renameAllReceiptFiles.mockImplementation(async (context: JobContext) => {
+      for (let i = 0; i < 3; i++) {
+        context.throwIfCancelled();
+        processed.push(i);
+        if (i === 0) cancelJob(jobId);
+      }
+      return {};
+    });
+
+    jobId = enqueueJob('rename-files').id;
+    await processJobQueue();
+
+    expect(processed).toEqual([0]);
+    expect(getJobById(jobId)!.status).toBe('cancelled');
+    expect(getJobById(jobId)!.cancel_requested).toBe(true);
+  });
+
+  it('should return null when cancelling an unknown job', () => {
+    expect(cancelJob(999)).toBeNull();
+  });
+
+  it('should queue jobs interrupted by a restart again on startup', async () => {
+    const { dbQueries } = await import('../../src/db');
+    const result = dbQueries.insertJob.run('rename-files', '{}', null);
+    const id = Number(result.lastInsertRowid);
+    dbQueries.updateJobStarted.run(id);
+    dbQueries.updateJobProgress.run(5, 10, id);
+    renameAllReceiptFiles.mockResolvedValue({ renamed: 10 });
+
+    startJobWorker();
+    await processJobQueue();
+
+    expect(renameAllReceiptFiles).toHaveBeenCalledTimes(1);
+    expect(getJobById(id)!.status).toBe('completed');
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock the db module using factory function
+vi.mock('../../src/db', async () => {
+  const { setupTestDb, createTestDbQueries } = await import('../helpers/testDb');
+  const testDb = setupTestDb();
+  const testQueries = createTestDbQueries(testDb);
+  return {
+    dbQueries: testQueries,
+    db: testDb,
+    default: testDb,
+  };
+});
+
+// Mock the recognition worker so tests don't load language data
+const { recognize } = vi.hoisted(() => ({ recognize: vi.fn() }));
+vi.mock('tesseract.js', () => ({
+  OEM: { LSTM_ONLY: 1 },
+  createWorker: vi.fn(async () => ({ recognize, terminate: vi.fn() })),
+}));
+
+vi.mock('../../src/services/fileService', () => ({
+  findReceiptFilePath: vi.fn(async (receiptId: number, filename: string) => `/receipts/${receiptId}/${filename}`),
+  isImageFile: (filename: string) => /\.(jpe?g|png|webp)$/i.test(filename),
+  isPdfFile: (filename: string) => /\.pdf$/i.test(filename),
+}));
+
+const { extractPdfText, renderPdfFirstPage } = vi.hoisted(() => ({
+  extractPdfText: vi.fn(),
+  renderPdfFirstPage: vi.fn(),
+}));
+vi.mock('../../src/services/pdfService', () => ({ extractPdfText, renderPdfFirstPage }));
+
+import { parseReceiptText, extractReceiptText } from '../../src/services/ocrService';
+import { createReceipt, addReceiptFile, setSetting, searchReceipts } from '../../src/services/dbService';
+
+describe('ocrService', () => {
+  describe('parseReceiptText', () => {
+    it('should extract labelled amount, service date, vendor and address', () => {
+      const text = [
+        'Smile Orthodontics',
+        '123 Main Street, Suite 4',
+        'Springfield, IL 62704',
+        'Phone: (555) 123-4567',
+        'Statement Date: 04/02/2024',
+        'Date of Service: 03/14/2024',
+        'Subtotal $150.00',
+        'Insurance Paid $24.60',
+        'Amount Due: $125.40',
+      ].join('\n');
+
+      expect(parseReceiptText(text)).toEqual({
+        vendor: 'Smile Orthodontics',
+        provider_address: '123 Main Street, Suite 4, Springfield, IL 62704',
+        date: '2024-03-14',
+        amount: 125.4,
+      });
+    });
+
+    it('should read amounts printed on the line after their label', () => {
+      expect(parseReceiptText('CVS Pharmacy\nTOTAL\n$1,204.99').amount).toBe(1204.99);
+    });
+
+    it('should fall back to the largest dollar amount', () => {
+      expect(parseReceiptText('Item A $4.50\nItem B $12.00').amount).toBe(12);
+    });
+
+    it('should parse month-name and ISO dates', () => {
+      expect(parseReceiptText('Visit on Mar 5, 2023').date).toBe('2023-03-05');
+      expect(parseReceiptText('Printed 2022-11-30').date).toBe('2022-11-30');
+      expect(parseReceiptText('Seen 7 August 2021').date).toBe('2021-08-07');
+    });
+
+    it('should ignore impossible dates', () => {
+      expect(parseReceiptText('Ref 13/45/2024').date).toBeUndefined();
+    });
+
+    it('should skip header lines that are not business names', () => {
+      expect(parseReceiptText('RECEIPT\n01/02/2024\nValley Dental Group\n$80.00').vendor).toBe('Valley Dental Group');
+    });
+
+    it('should return no suggestions for empty text', () => {
+      expect(parseReceiptText('')).toEqual({});
+    });
+  });
+
+  describe('extractReceiptText', () => {
+    beforeEach(async () => {
+      const { db } = await import('../../src/db');
+      db.exec(`
+        DELETE FROM receipt_flags;
+        DELETE FROM receipt_files;
+        DELETE FROM receipts;
+        DELETE FROM receipts_fts;
+        DELETE FROM settings;
+      `);
+      recognize.mockReset();
+      extractPdfText.mockReset();
+      renderPdfFirstPage.mockReset();
+    });
+
+    it('should store recognized text for image files and index it for search', async () => {
+      recognize.mockResolvedValue({ data: { text: 'Lakeside Clinic\nTotal $42.00\n' } });
+      const receipt = createReceipt({ vendor: '' });
+      const image = addReceiptFile(receipt.id, 'scan.jpg', 'scan.jpg', 0);
+      const other = addReceiptFile(receipt.id, 'notes.txt', 'notes.txt', 1);
+
+      const results = await extractReceiptText(receipt.id);
+
+      expect(results).toEqual([
+        { text: 'Lakeside Clinic\nTotal $42.00', source: 'ocr', suggestions: { vendor: 'Lakeside Clinic', amount: 42 } },
+      ]);
+      expect(recognize).toHaveBeenCalledTimes(1);
+      expect(recognize).toHaveBeenCalledWith(`/receipts/${receipt.id}/scan.jpg`);
+
+      const { dbQueries } = await import('../../src/db');
+      expect(dbQueries.getFileById.get(image.id).extracted_text).toBe('Lakeside Clinic\nTotal $42.00');
+      expect(dbQueries.getFileById.get(image.id).text_source).toBe('ocr');
+      expect(dbQueries.getFileById.get(other.id).extracted_text).toBeNull();
+      expect(searchReceipts('lakeside', 10).map(r => r.receipt.id)).toEqual([receipt.id]);
+
+      // Files that already have text are not processed again
+      expect(await extractReceiptText(receipt.id)).toEqual([]);
+      expect(recognize).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the embedded text of PDF files without OCR', async () => {
+      extractPdfText.mockResolvedValue('Riverside Pharmacy\nAmount Due: $18.25');
+      const receipt = createReceipt({ vendor: '' });
+      const pdf = addReceiptFile(receipt.id, 'statement.pdf', 'statement.pdf', 0);
+
+      const results = await extractReceiptText(receipt.id);
+
+      expect(results).toEqual([
+        {
+          text: 'Riverside Pharmacy\nAmount Due: $18.25',
+          source: 'pdf',
+          suggestions: { vendor: 'Riverside Pharmacy', amount: 18.25 },
+        },
+      ]);
+      expect(recognize).not.toHaveBeenCalled();
+
+      const { dbQueries } = await import('../../src/db');
+      expect(dbQueries.getFileById.get(pdf.id).text_source).toBe('pdf');
+      expect(searchReceipts('riverside', 10).map(r => r.receipt.id)).toEqual([receipt.id]);
+    });
+
+    it('should recognize the first page of scanned PDFs without a text layer', async () => {
+      extractPdfText.mockResolvedValue('');
+      renderPdfFirstPage.mockResolvedValue(Buffer.from('png'));
+      recognize.mockResolvedValue({ data: { text: 'Scanned Invoice' } });
+      const receipt = createReceipt({ vendor: '' });
+      addReceiptFile(receipt.id, 'scan.pdf', 'scan.pdf', 0);
+
+      const results = await extractReceiptText(receipt.id);
+
+      expect(results.map(r => [r.text, r.source])).toEqual([['Scanned Invoice', 'ocr']]);
+      expect(recognize).toHaveBeenCalledWith(Buffer.from('png'));
+    });
+
+    it('should skip recognition when OCR is disabled', async () => {
+      setSetting('ocrEnabled', 'false');
+      const receipt = createReceipt({ vendor: '' });
+      addReceiptFile(receipt.id, 'scan.jpg', 'scan.jpg', 0);
+
+      expect(await extractReceiptText(receipt.id)).toEqual([]);
+      expect(recognize).not.toHaveBeenCalled();
+    });
+
+    it('should still extract PDF text when OCR is disabled', async () => {
+      setSetting('ocrEnabled', 'false');
+      extractPdfText.mockResolvedValue('');
+      const receipt = createReceipt({ vendor: '' });
+      addReceiptFile(receipt.id, 'scan.pdf', 'scan.pdf', 0);
+
+      const results = await extractReceiptText(receipt.id);
+
+      expect(results.map(r => [r.text, r.source])).toEqual([['', 'pdf']]);
+      expect(renderPdfFirstPage).not.toHaveBeenCalled();
+      expect(recognize).not.toHaveBeenCalled();
+    });
+
+    it('should continue when recognition fails', async () => {
+      recognize.mockRejectedValueOnce(new Error('bad image')).mockResolvedValueOnce({ data: { text: 'Page two' } });
+      const receipt = createReceipt({ vendor: '' });
+      addReceiptFile(receipt.id, 'page1.jpg', 'page1.jpg', 0);
+      addReceiptFile(receipt.id, 'page2.png', 'page2.png', 1);
+
+      const results = await extractReceiptText(receipt.id);
+
+      expect(results.map(r => r.text)).toEqual(['Page two']);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import sharp from 'sharp';
+import { setupTestFiles, cleanupTestFiles, createTestPdfWithText } from '../helpers/testFiles';
+import { extractPdfText, renderPdfFirstPage } from '../../src/services/pdfService';
+
+describe('pdfService', () => {
+  let uploadDir: string;
+  let pdfPath: string;
+
+  beforeAll(async () => {
+    ({ uploadDir } = await setupTestFiles());
+    pdfPath = await createTestPdfWithText(uploadDir, 'statement.pdf', ['Riverside Pharmacy', 'Amount Due: $18.25']);
+  });
+
+  afterAll(async () => {
+    await cleanupTestFiles();
+  });
+
+  describe('extractPdfText', () => {
+    it('should return the embedded text layer', async () => {
+      const text = await extractPdfText(pdfPath);
+
+      expect(text).toContain('Riverside Pharmacy');
+      expect(text).toContain('Amount Due: $18.25');
+    });
+
+    it('should return an empty string for PDFs without text', async () => {
+      const emptyPath = await createTestPdfWithText(uploadDir, 'empty.pdf', []);
+
+      expect(await extractPdfText(emptyPath)).toBe('');
+    });
+  });
+
+  describe('renderPdfFirstPage', () => {
+    it('should render a PNG of the requested width', async () => {
+      const image = await renderPdfFirstPage(pdfPath, 300);
+      const metadata = await sharp(image).metadata();
+
+      expect(metadata.format).toBe('png');
+      expect(metadata.width).toBe(300);
+      // Letter-size pages keep their aspect ratio
+      expect(metadata.height).toBe(Math.ceil((300 * 792) / 612));
+    });
+  });
+});
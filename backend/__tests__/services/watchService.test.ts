@@ -82,7 +82,7 @@ vi.mock('../../src/services/fileService', async () => {
 		getReceiptFilePath: (receiptId: number, filename: string) => {
 			return pathMod.join(getReceiptDir(receiptId), filename)
 		},
-		saveReceiptFile: async (
+		saveReceiptFile: vi.fn(async (
 			file: Express.Multer.File,
 			receiptId: number,
 			date: string,
@@ -108,7 +108,9 @@ vi.mock('../../src/services/fileService', async () => {
 			await fsMod.unlink(file.path)
 
 			return { filename, originalFilename, optimized: false }
-		},
+		}),
+		deleteReceiptFiles: async () => {},
+		renameReceiptFiles: async () => [],
 		isImageFile: (filename: string) => {
 			const ext = pathMod.extname(filename).toLowerCase()
 			return ['.jpg', '.jpeg', '.png', '.webp'].includes(ext)
@@ -119,6 +121,11 @@ vi.mock('../../src/services/fileService', async () => {
 	}
 })
 
+// Mock OCR so tests never start a recognition worker
+vi.mock('../../src/services/ocrService', () => ({
+	extractReceiptText: vi.fn().mockResolvedValue([]),
+}))
+
 describe('WatchService', () => {
 	let watchFolder: string
 	let processedFolder: string
@@ -150,6 +157,8 @@ describe('WatchService', () => {
 		// Set environment variables
 		process.env.WATCH_FOLDER = watchFolder
 		process.env.WATCH_INTERVAL = '30'
+		// Test files are complete as soon as they are written
+		process.env.WATCH_STABILITY_SECONDS = '0'
 		process.env.UPLOAD_DIR = path.join(testDir, 'uploads')
 		await fs.mkdir(process.env.UPLOAD_DIR, { recursive: true })
 	})
@@ -207,6 +216,30 @@ describe('WatchService', () => {
 			expect(processedFiles.length).toBeGreaterThan(0)
 		})
 
+		it('should prefill receipt fields from recognized text', async () => {
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { extractReceiptText } = await import('../../src/services/ocrService')
+			vi.mocked(extractReceiptText).mockResolvedValueOnce([
+				{
+					text: 'Smile Orthodontics\nDate: 03/14/2024\nTotal Due: $125.40',
+					suggestions: { vendor: 'Smile Orthodontics', date: '2024-03-14', amount: 125.4 },
+				},
+			])
+
+			await createTestImageFile(watchFolder, 'receipt1.jpg')
+
+			await triggerScan()
+
+			const receipts = getAllReceipts()
+			expect(receipts).toHaveLength(1)
+			expect(extractReceiptText).toHaveBeenCalledWith(receipts[0].id)
+			expect(receipts[0].vendor).toBe('Smile Orthodontics')
+			expect(receipts[0].amount).toBe(125.4)
+			expect(receipts[0].date).toBe('2024-03-14')
+			expect(receipts[0].provider_address).toBe('')
+		})
+
 		it('should process directory contents as one receipt', async () => {
 			const { triggerScan } = await import('../../src/services/watchService')
 			const { getAllReceipts } = await import('../../src/services/dbService')
@@ -397,6 +430,432 @@ describe('WatchService', () => {
 		})
 	})
 
+	describe('import rules', () => {
+		it('should assign the user of a matching folder rule', async () => {
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { createImportRule } = await import('../../src/services/importRuleService')
+			const alice = createUser('Alice')
+			createImportRule({ name: 'Alice', match_type: 'folder', pattern: 'alice', user_id: alice.id })
+
+			await fs.mkdir(path.join(watchFolder, 'Alice'))
+			await createTestImageFile(path.join(watchFolder, 'Alice'), 'scan.jpg')
+			await createTestImageFile(watchFolder, 'other.jpg')
+			await triggerScan()
+
+			const receipts = getAllReceipts()
+			expect(receipts.find(r => r.files[0]?.original_filename === 'scan.jpg')?.user).toBe('Alice')
+			expect(receipts.find(r => r.files[0]?.original_filename === 'other.jpg')?.user).toBe('Unknown')
+		})
+
+		it('should assign vendor, type, flags and date from a matching filename rule', async () => {
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts, createFlag } = await import('../../src/services/dbService')
+			const { createImportRule } = await import('../../src/services/importRuleService')
+			const prescriptions = createReceiptType('Prescription Medications')
+			const pharmacy = createFlag('Pharmacy')
+			createImportRule({
+				name: 'CVS',
+				match_type: 'filename',
+				pattern: '^CVS_',
+				vendor: 'CVS',
+				receipt_type_id: prescriptions.id,
+				flag_ids: [pharmacy.id],
+				date_from_filename: true,
+			})
+
+			await createTestPdfFile(watchFolder, 'CVS_2024-02-03.pdf')
+			await triggerScan()
+
+			const [receipt] = getAllReceipts()
+			expect(receipt.vendor).toBe('CVS')
+			expect(receipt.type).toBe('Prescription Medications')
+			expect(receipt.date).toBe('2024-02-03')
+			expect(receipt.flags.map(f => f.name).sort()).toEqual(['Pharmacy', 'WATCH_FOLDER'])
+		})
+
+		it('should apply text rules over suggestions from recognized text', async () => {
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { createImportRule } = await import('../../src/services/importRuleService')
+			const { extractReceiptText } = await import('../../src/services/ocrService')
+			const dental = createReceiptType('Dental')
+			createImportRule({
+				name: 'Orthodontist',
+				match_type: 'text',
+				pattern: 'orthodontics',
+				vendor: 'Smile Ortho',
+				receipt_type_id: dental.id,
+			})
+			vi.mocked(extractReceiptText).mockResolvedValueOnce([
+				{
+					text: 'Smile Orthodontics\nTotal Due: $125.40',
+					source: 'ocr',
+					suggestions: { vendor: 'Smile Orthodontics', amount: 125.4 },
+				},
+			])
+
+			await createTestImageFile(watchFolder, 'receipt1.jpg')
+			await triggerScan()
+
+			const [receipt] = getAllReceipts()
+			expect(receipt.vendor).toBe('Smile Ortho')
+			expect(receipt.type).toBe('Dental')
+			expect(receipt.amount).toBe(125.4)
+		})
+
+		it('should ignore disabled rules', async () => {
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { createImportRule } = await import('../../src/services/importRuleService')
+			createImportRule({ name: 'CVS', match_type: 'filename', pattern: '^CVS_', vendor: 'CVS', enabled: false })
+
+			await createTestPdfFile(watchFolder, 'CVS_receipt.pdf')
+			await triggerScan()
+
+			expect(getAllReceipts()[0].vendor).toBe('')
+		})
+	})
+
+	describe('watch folders', () => {
+		let inbox: string
+
+		beforeEach(async () => {
+			inbox = path.join(path.dirname(watchFolder), 'inbox')
+			await fs.mkdir(inbox, { recursive: true })
+		})
+
+		it('should apply the default user, type and flags of the folder', async () => {
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts, createFlag } = await import('../../src/services/dbService')
+			const { createWatchFolder } = await import('../../src/services/watchFolderService')
+			const { createImportRule } = await import('../../src/services/importRuleService')
+			const bob = createUser('Bob')
+			const carol = createUser('Carol')
+			const vision = createReceiptType('Vision')
+			const shared = createFlag('Shared scanner')
+			const folder = createWatchFolder({
+				name: 'Bob',
+				path: inbox,
+				user_id: bob.id,
+				receipt_type_id: vision.id,
+				flag_ids: [shared.id],
+			})
+			createImportRule({ name: 'Carol', match_type: 'filename', pattern: '^carol', user_id: carol.id })
+
+			await createTestImageFile(inbox, 'glasses.jpg')
+			await createTestImageFile(inbox, 'carol-glasses.jpg')
+			await triggerScan(folder.id)
+
+			const receipts = getAllReceipts()
+			const own = receipts.find(r => r.files[0]?.original_filename === 'glasses.jpg')
+			expect(own?.user).toBe('Bob')
+			expect(own?.type).toBe('Vision')
+			expect(own?.flags.map(f => f.name).sort()).toEqual(['Shared scanner', 'WATCH_FOLDER'])
+			// Rules win over the folder's defaults
+			expect(receipts.find(r => r.files[0]?.original_filename === 'carol-glasses.jpg')?.user).toBe('Carol')
+		})
+
+		it('should only scan the given folder', async () => {
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { createWatchFolder } = await import('../../src/services/watchFolderService')
+			const folder = createWatchFolder({ name: 'Inbox', path: inbox })
+
+			await createTestImageFile(watchFolder, 'default.jpg')
+			await createTestImageFile(inbox, 'inbox.jpg')
+			await triggerScan(folder.id)
+
+			expect(getAllReceipts().map(r => r.files[0]?.original_filename)).toEqual(['inbox.jpg'])
+			expect(await triggerScan(999)).toBe(false)
+		})
+
+		it('should delete imported files when the folder deletes them', async () => {
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { createWatchFolder } = await import('../../src/services/watchFolderService')
+			const folder = createWatchFolder({ name: 'Inbox', path: inbox, processed_action: 'delete' })
+
+			await createTestImageFile(inbox, 'receipt.jpg')
+			await fs.mkdir(path.join(inbox, 'visit'))
+			await createTestImageFile(path.join(inbox, 'visit'), 'page1.jpg')
+			await triggerScan(folder.id)
+
+			expect(getAllReceipts()).toHaveLength(2)
+			expect(await fs.readdir(inbox)).toEqual([])
+		})
+
+		it('should leave imported files in place and import them only once', async () => {
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { createWatchFolder } = await import('../../src/services/watchFolderService')
+			const folder = createWatchFolder({ name: 'Synced', path: inbox, processed_action: 'leave' })
+
+			const filePath = await createTestImageFile(inbox, 'synced.jpg')
+			await triggerScan(folder.id)
+			await triggerScan(folder.id)
+
+			expect(getAllReceipts()).toHaveLength(1)
+			expect(await fs.readdir(inbox)).toEqual(['synced.jpg'])
+
+			// A changed file is a new scan
+			await fs.appendFile(filePath, 'rescanned')
+			await triggerScan(folder.id)
+			expect(getAllReceipts()).toHaveLength(2)
+		})
+
+		it('should report the status of each folder', async () => {
+			const { startWatchService, getWatchServiceStatus, stopWatchService } = await import('../../src/services/watchService')
+			const { createWatchFolder } = await import('../../src/services/watchFolderService')
+			createWatchFolder({ name: 'Inbox', path: inbox, interval_minutes: 5 })
+			createWatchFolder({ name: 'Paused', path: path.join(inbox, 'paused'), enabled: false })
+
+			startWatchService()
+
+			const { folders } = getWatchServiceStatus()
+			expect(folders).toEqual([
+				expect.objectContaining({ name: 'Watch Folder', path: watchFolder, enabled: true, interval: 30 * 60 * 1000 }),
+				expect.objectContaining({ name: 'Inbox', path: inbox, enabled: true, interval: 5 * 60 * 1000 }),
+				expect.objectContaining({ name: 'Paused', enabled: false, nextScan: undefined }),
+			])
+			stopWatchService()
+		})
+	})
+
+	describe('import history', () => {
+		it('should log imported files with their receipt', async () => {
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { getWatchImports } = await import('../../src/services/watchImportService')
+
+			await createTestImageFile(watchFolder, 'receipt.jpg')
+			await triggerScan()
+
+			const [receipt] = getAllReceipts()
+			expect(getWatchImports({ limit: 10 })).toEqual([
+				expect.objectContaining({
+					source_path: 'receipt.jpg',
+					files: ['receipt.jpg'],
+					folder_name: 'Watch Folder',
+					receipt_id: receipt.id,
+					status: 'imported',
+					error: null,
+				}),
+			])
+		})
+
+		it('should log failures without keeping a partial receipt and retry them on the next scan', async () => {
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { getWatchImports } = await import('../../src/services/watchImportService')
+			const { saveReceiptFile } = await import('../../src/services/fileService')
+			vi.mocked(saveReceiptFile).mockRejectedValueOnce(new Error('disk full'))
+
+			await createTestImageFile(watchFolder, 'receipt.jpg')
+			await triggerScan()
+
+			expect(getAllReceipts()).toHaveLength(0)
+			const [failed] = getWatchImports({ limit: 10 })
+			expect(failed).toMatchObject({ status: 'failed', error: 'Failed to save receipt.jpg: disk full', attempts: 1 })
+			expect(await fs.readdir(watchFolder)).toContain('receipt.jpg')
+
+			await triggerScan()
+
+			expect(getAllReceipts()).toHaveLength(1)
+			expect(getWatchImports({ limit: 10 })).toEqual([
+				expect.objectContaining({ id: failed.id, status: 'imported', error: null, attempts: 2 }),
+			])
+		})
+
+		it('should quarantine files that keep failing', async () => {
+			process.env.WATCH_MAX_ATTEMPTS = '2'
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { getWatchImports } = await import('../../src/services/watchImportService')
+			const { saveReceiptFile } = await import('../../src/services/fileService')
+			vi.mocked(saveReceiptFile).mockRejectedValueOnce(new Error('corrupt')).mockRejectedValueOnce(new Error('corrupt'))
+
+			await fs.mkdir(path.join(watchFolder, 'visit'))
+			await createTestImageFile(path.join(watchFolder, 'visit'), 'page1.jpg')
+			await triggerScan()
+			await triggerScan()
+
+			const [entry] = getWatchImports({ limit: 10 })
+			expect(entry).toMatchObject({ source_path: 'visit', status: 'quarantined', attempts: 2 })
+			expect(entry.quarantine_path).toMatch(/^quarantine\/.+\/visit$/)
+			expect(await fs.readdir(path.join(watchFolder, entry.quarantine_path!))).toEqual(['page1.jpg'])
+			expect(await fs.readdir(watchFolder)).not.toContain('visit')
+
+			// Quarantined files are no longer scanned
+			await triggerScan()
+			expect(getAllReceipts()).toHaveLength(0)
+		})
+
+		it('should retry quarantined imports from where they were found', async () => {
+			process.env.WATCH_MAX_ATTEMPTS = '1'
+			const { triggerScan, retryImport } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { getWatchImports } = await import('../../src/services/watchImportService')
+			const { getWatchFolderById } = await import('../../src/services/watchFolderService')
+			const { saveReceiptFile } = await import('../../src/services/fileService')
+			vi.mocked(saveReceiptFile).mockRejectedValueOnce(new Error('corrupt'))
+
+			await createTestImageFile(watchFolder, 'receipt.jpg')
+			await triggerScan()
+			const [entry] = getWatchImports({ limit: 10 })
+			expect(entry.status).toBe('quarantined')
+
+			const retried = await retryImport(entry, getWatchFolderById(entry.folder_id!)!)
+
+			expect(retried).toMatchObject({ id: entry.id, status: 'imported', quarantine_path: null })
+			expect(getAllReceipts()).toHaveLength(1)
+			expect(await fs.readdir(path.join(watchFolder, 'quarantine'))).toEqual([])
+		})
+
+		it('should delete the files of discarded imports', async () => {
+			const { triggerScan, discardImport } = await import('../../src/services/watchService')
+			const { getWatchImports } = await import('../../src/services/watchImportService')
+			const { getWatchFolderById } = await import('../../src/services/watchFolderService')
+			const { saveReceiptFile } = await import('../../src/services/fileService')
+			vi.mocked(saveReceiptFile).mockRejectedValueOnce(new Error('corrupt'))
+
+			await createTestImageFile(watchFolder, 'receipt.jpg')
+			await triggerScan()
+			const [entry] = getWatchImports({ limit: 10 })
+
+			const discarded = await discardImport(entry, getWatchFolderById(entry.folder_id!))
+
+			expect(discarded.status).toBe('discarded')
+			expect(await fs.readdir(watchFolder)).not.toContain('receipt.jpg')
+		})
+
+		it('should quarantine files that were already imported and import them when retried', async () => {
+			const { triggerScan, retryImport } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+			const { getWatchImports } = await import('../../src/services/watchImportService')
+			const { getWatchFolderById } = await import('../../src/services/watchFolderService')
+
+			const original = await createTestImageFile(watchFolder, 'receipt.jpg')
+			const content = await fs.readFile(original)
+			await triggerScan()
+			const [receipt] = getAllReceipts()
+			await fs.writeFile(path.join(watchFolder, 'rescan.jpg'), content)
+			await triggerScan()
+
+			const [entry] = getWatchImports({ status: 'quarantined', limit: 10 })
+			expect(entry).toMatchObject({ source_path: 'rescan.jpg', attempts: 1 })
+			expect(entry.error).toBe(`Already imported as receipt ${receipt.id} (receipt.jpg)`)
+			expect(getAllReceipts()).toHaveLength(1)
+
+			const retried = await retryImport(entry, getWatchFolderById(entry.folder_id!)!)
+
+			expect(retried.status).toBe('imported')
+			expect(getAllReceipts()).toHaveLength(2)
+		})
+	})
+
+	describe('file stability', () => {
+		it('should wait for files that are still being written', async () => {
+			process.env.WATCH_STABILITY_SECONDS = '0.2'
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+
+			await createTestImageFile(watchFolder, 'scanning.jpg')
+			await triggerScan()
+			expect(getAllReceipts()).toHaveLength(0)
+
+			await new Promise(resolve => setTimeout(resolve, 300))
+			await triggerScan()
+			expect(getAllReceipts()).toHaveLength(1)
+		})
+
+		it('should wait for a file that grew since the last scan', async () => {
+			process.env.WATCH_STABILITY_SECONDS = '0.2'
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+
+			const filePath = await createTestPdfFile(watchFolder, 'pages.pdf')
+			await new Promise(resolve => setTimeout(resolve, 300))
+			await fs.appendFile(filePath, '% another page')
+			await triggerScan()
+
+			expect(getAllReceipts()).toHaveLength(0)
+		})
+
+		it('should import files that were written before the stability period', async () => {
+			process.env.WATCH_STABILITY_SECONDS = '60'
+			const { triggerScan } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+
+			const filePath = await createTestImageFile(watchFolder, 'old-scan.jpg')
+			const anHourAgo = new Date(Date.now() - 60 * 60 * 1000)
+			await fs.utimes(filePath, anHourAgo, anHourAgo)
+			await triggerScan()
+
+			expect(getAllReceipts()).toHaveLength(1)
+		})
+	})
+
+	describe('watch modes', () => {
+		/**
+		 * Wait until a condition holds or the timeout passes
+		 */
+		async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<boolean> {
+			const deadline = Date.now() + timeoutMs
+			while (Date.now() < deadline) {
+				if (condition()) {
+					return true
+				}
+				await new Promise(resolve => setTimeout(resolve, 50))
+			}
+			return condition()
+		}
+
+		it('should import new files as soon as they are written in events mode', async () => {
+			const { startWatchService, getWatchServiceStatus, stopWatchService } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+
+			const previousScan = getWatchServiceStatus().lastScan
+			startWatchService()
+			expect(getWatchServiceStatus().mode).toBe('events')
+			// Let the initial scan finish first
+			await waitFor(() => getWatchServiceStatus().lastScan !== previousScan)
+
+			await createTestImageFile(watchFolder, 'fed.jpg')
+
+			expect(await waitFor(() => getAllReceipts().length === 1)).toBe(true)
+			stopWatchService()
+		})
+
+		it('should only scan on the interval in poll mode', async () => {
+			process.env.WATCH_MODE = 'poll'
+			const { startWatchService, getWatchServiceStatus, stopWatchService } = await import('../../src/services/watchService')
+			const { getAllReceipts } = await import('../../src/services/dbService')
+
+			const previousScan = getWatchServiceStatus().lastScan
+			startWatchService()
+			expect(getWatchServiceStatus().mode).toBe('poll')
+			// Let the initial scan finish first
+			await waitFor(() => getWatchServiceStatus().lastScan !== previousScan)
+
+			await createTestImageFile(watchFolder, 'network-share.jpg')
+			await new Promise(resolve => setTimeout(resolve, 1500))
+
+			expect(getAllReceipts()).toHaveLength(0)
+			stopWatchService()
+		})
+
+		it('should fall back to events mode for an unknown mode', async () => {
+			process.env.WATCH_MODE = 'inotify'
+			const { startWatchService, getWatchServiceStatus, stopWatchService } = await import('../../src/services/watchService')
+
+			startWatchService()
+
+			expect(getWatchServiceStatus().mode).toBe('events')
+			stopWatchService()
+		})
+	})
+
 	describe('startWatchService', () => {
 		it('should start service with default interval', async () => {
 			delete process.env.WATCH_INTERVAL
@@ -465,6 +924,8 @@ describe('WatchService', () => {
 			const status = getWatchServiceStatus()
 			expect(status.enabled).toBe(false)
 			expect(status.watchFolder).toBe(watchFolder)
+			expect(status.mode).toBe('events')
+			expect(status.stabilitySeconds).toBe(0)
 		})
 	})
 
@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { generateReceiptFilename, sanitizeFilename, validatePattern } from '../../src/utils/filename';
+import {
+  generateReceiptDirectory,
+  generateReceiptFilename,
+  sanitizeFilename,
+  validateDirectoryPattern,
+  validatePattern,
+} from '../../src/utils/filename';
 import { getSetting } from '../../src/services/dbService';
 
 // Mock dbService
@@ -309,5 +315,62 @@ describe('filename utils', () => {
     });
 
   });
-});
 
+  describe('validateDirectoryPattern', () => {
+    it('should accept folders separated by slashes', () => {
+      for (const pattern of ['{user}/{year}/{month}/{day}', '{year}/{user}', '{type-group}/{year}', 'receipts/{date}_{type}']) {
+        expect(validateDirectoryPattern(pattern)).toEqual({ valid: true });
+      }
+    });
+
+    it('should reject empty folders and leading or trailing slashes', () => {
+      expect(validateDirectoryPattern('{year}//{user}').error).toContain('empty folders');
+      expect(validateDirectoryPattern('/{year}').error).toContain('cannot start or end with a slash');
+      expect(validateDirectoryPattern('{year}/').error).toContain('cannot start or end with a slash');
+    });
+
+    it('should reject folders that could leave the receipts directory or hide files', () => {
+      for (const pattern of ['{year}/../{user}', '.hidden/{year}', '{year}/.']) {
+        expect(validateDirectoryPattern(pattern).error).toContain('cannot start or end with a dot');
+      }
+    });
+
+    it('should reject filename-only and unknown tokens', () => {
+      const result = validateDirectoryPattern('{user}/{vendor}');
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Unknown token: {vendor}');
+    });
+
+    it('should reject invalid filesystem characters', () => {
+      expect(validateDirectoryPattern('{year}\\{user}').error).toContain('invalid filesystem characters');
+    });
+  });
+
+  describe('generateReceiptDirectory', () => {
+    const details = { user: 'John Doe', type: 'Doctor Visit', typeGroup: 'Medical Care', year: '2024', month: '01', day: '15' };
+
+    it('should use the default layout when no pattern is set', () => {
+      expect(generateReceiptDirectory(details)).toEqual(['john-doe', '2024', '01', '15']);
+    });
+
+    it('should replace all tokens with sanitized values', () => {
+      expect(generateReceiptDirectory(details, '{type-group}/{year}/{type}_{date}')).toEqual([
+        'medical-care',
+        '2024',
+        'doctor-visit_2024-01-15',
+      ]);
+    });
+
+    it('should put types without a group in an ungrouped folder', () => {
+      expect(generateReceiptDirectory({ ...details, typeGroup: null }, '{type-group}/{year}')).toEqual(['ungrouped', '2024']);
+    });
+
+    it('should read the pattern from settings and ignore an invalid one', () => {
+      vi.mocked(getSetting).mockReturnValue(JSON.stringify('{year}/{user}'));
+      expect(generateReceiptDirectory(details)).toEqual(['2024', 'john-doe']);
+
+      vi.mocked(getSetting).mockReturnValue(JSON.stringify('../{user}'));
+      expect(generateReceiptDirectory(details)).toEqual(['john-doe', '2024', '01', '15']);
+    });
+  });
+});
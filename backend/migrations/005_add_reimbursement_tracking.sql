@@ -0,0 +1,20 @@
+-- Migration: 005_add_reimbursement_tracking
+-- Description: Add reimbursement status, date, amount and HSA transaction reference columns to receipts table
+-- Date: 2024-01-01
+
+-- Add reimbursement_status column to receipts
+-- Valid values: 'unreimbursed', 'partial', 'reimbursed'
+-- Note: The migration service will check if this column exists before adding it
+ALTER TABLE receipts ADD COLUMN reimbursement_status TEXT NOT NULL DEFAULT 'unreimbursed';
+
+-- Add reimbursed_date column to receipts (YYYY-MM-DD)
+ALTER TABLE receipts ADD COLUMN reimbursed_date TEXT;
+
+-- Add reimbursed_amount column to receipts
+ALTER TABLE receipts ADD COLUMN reimbursed_amount REAL;
+
+-- Add hsa_transaction_ref column to receipts
+ALTER TABLE receipts ADD COLUMN hsa_transaction_ref TEXT;
+
+-- Create index for filtering by reimbursement status
+CREATE INDEX IF NOT EXISTS idx_receipts_reimbursement_status ON receipts(reimbursement_status);
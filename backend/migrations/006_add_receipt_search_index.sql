@@ -0,0 +1,34 @@
+-- Migration: 006_add_receipt_search_index
+-- Description: Add extracted_text column to receipt_files and an FTS5 full-text index over receipt metadata and file contents
+-- Date: 2024-01-01
+
+-- Add extracted_text column to receipt_files (text pulled from images/PDFs, indexed for search)
+-- Note: The migration service will check if this column exists before adding it
+ALTER TABLE receipt_files ADD COLUMN extracted_text TEXT;
+
+-- Full-text search index, one row per receipt (rowid = receipts.id)
+-- Kept in sync by dbService whenever a receipt, its flags or its files change
+CREATE VIRTUAL TABLE IF NOT EXISTS receipts_fts USING fts5(
+    vendor,
+    description,
+    provider_address,
+    notes,
+    date,
+    flags,
+    file_text,
+    tokenize = 'porter unicode61'
+);
+
+-- Index existing receipts
+INSERT INTO receipts_fts (rowid, vendor, description, provider_address, notes, date, flags, file_text)
+SELECT
+    r.id,
+    r.vendor,
+    r.description,
+    r.provider_address,
+    COALESCE(r.notes, ''),
+    r.date,
+    COALESCE((SELECT group_concat(f.name, ' ') FROM receipt_flags rf INNER JOIN flags f ON rf.flag_id = f.id WHERE rf.receipt_id = r.id), ''),
+    COALESCE((SELECT group_concat(rfi.extracted_text, ' ') FROM receipt_files rfi WHERE rfi.receipt_id = r.id AND rfi.extracted_text IS NOT NULL), '')
+FROM receipts r
+WHERE r.id NOT IN (SELECT rowid FROM receipts_fts);
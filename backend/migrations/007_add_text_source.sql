@@ -0,0 +1,10 @@
+-- Migration: 007_add_text_source
+-- Description: Add text_source column to receipt_files recording how extracted_text was obtained
+-- Date: 2024-01-01
+
+-- Add text_source column to receipt_files ('pdf' for embedded PDF text, 'ocr' for recognized text)
+-- Note: The migration service will check if this column exists before adding it
+ALTER TABLE receipt_files ADD COLUMN text_source TEXT;
+
+-- Existing extracted text was all produced by OCR
+UPDATE receipt_files SET text_source = 'ocr' WHERE extracted_text IS NOT NULL;
@@ -0,0 +1,20 @@
+-- Migration: 009_add_account_roles
+-- Description: Add roles to login accounts and map accounts to the users whose receipts they can see
+-- Date: 2024-01-01
+
+-- Account role: 'admin' manages everything and sees all receipts,
+-- 'editor' adds and edits receipts of its users, 'viewer' can only view receipts of its users
+-- Note: The migration service will check if this column exists before adding it
+-- Existing accounts had full access, so they become admins
+ALTER TABLE accounts ADD COLUMN role TEXT NOT NULL DEFAULT 'admin' CHECK (role IN ('admin', 'editor', 'viewer'));
+
+-- Users (household members) whose receipts an editor or viewer account can access
+CREATE TABLE IF NOT EXISTS account_users (
+    account_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    PRIMARY KEY (account_id, user_id),
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_users_user_id ON account_users(user_id);
@@ -0,0 +1,19 @@
+-- Migration: 010_add_api_tokens
+-- Description: Add personal API tokens for scripts and mobile shortcuts
+-- Date: 2024-01-01
+
+-- API tokens act on behalf of the account that created them; only a hash of the token is stored
+-- scope: 'read' allows GET requests, 'upload' allows creating receipts, 'full' allows everything the account can do
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    account_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    token_prefix TEXT NOT NULL,
+    scope TEXT NOT NULL CHECK (scope IN ('read', 'upload', 'full')),
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    last_used_at TEXT,
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_account_id ON api_tokens(account_id);
@@ -0,0 +1,25 @@
+-- Migration: 011_add_jobs
+-- Description: Add a persistent queue for long-running background jobs
+-- Date: 2024-01-01
+
+-- Jobs run one at a time in the order they were queued
+-- status: queued -> running -> completed | failed | cancelled
+-- params and result are JSON; progress counts finished items out of total
+CREATE TABLE IF NOT EXISTS jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+    params TEXT,
+    progress INTEGER NOT NULL DEFAULT 0,
+    total INTEGER,
+    result TEXT,
+    error TEXT,
+    cancel_requested INTEGER NOT NULL DEFAULT 0,
+    account_id INTEGER,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    started_at TEXT,
+    finished_at TEXT,
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
@@ -0,0 +1,31 @@
+-- Migration: 012_add_import_rules
+-- Description: Add rules that fill in receipt fields for watch folder imports
+-- Date: 2024-01-01
+
+-- A rule matches an import by its subfolder name, a filename regex or text found in its files
+-- match_type: 'folder' compares the subfolder name, 'filename' tests a regex against file names,
+-- 'text' looks for the pattern in the recognized text
+-- Every matching rule applies in order; for each field the first rule that sets it wins
+CREATE TABLE IF NOT EXISTS import_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    match_type TEXT NOT NULL CHECK (match_type IN ('folder', 'filename', 'text')),
+    pattern TEXT NOT NULL,
+    user_id INTEGER,
+    receipt_type_id INTEGER,
+    vendor TEXT,
+    date_from_filename INTEGER NOT NULL DEFAULT 0,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (receipt_type_id) REFERENCES receipt_types(id) ON DELETE SET NULL
+);
+
+-- Flags added to receipts imported by a rule
+CREATE TABLE IF NOT EXISTS import_rule_flags (
+    rule_id INTEGER NOT NULL,
+    flag_id INTEGER NOT NULL,
+    PRIMARY KEY (rule_id, flag_id),
+    FOREIGN KEY (rule_id) REFERENCES import_rules(id) ON DELETE CASCADE,
+    FOREIGN KEY (flag_id) REFERENCES flags(id) ON DELETE CASCADE
+);
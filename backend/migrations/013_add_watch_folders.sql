@@ -0,0 +1,45 @@
+-- Migration: 013_add_watch_folders
+-- Description: Allow several watch folders, each with its own interval, defaults and processed-file handling
+-- Date: 2024-01-01
+
+-- path: NULL uses the WATCH_FOLDER environment variable; interval_minutes: NULL uses WATCH_INTERVAL
+-- processed_action: 'move' moves imported files to a processed/ subfolder, 'delete' removes them,
+-- 'leave' keeps them in place and remembers them so they are not imported again
+-- user_id, receipt_type_id and the folder's flags apply to imports that no import rule assigns them for
+CREATE TABLE IF NOT EXISTS watch_folders (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    path TEXT UNIQUE,
+    interval_minutes INTEGER,
+    user_id INTEGER,
+    receipt_type_id INTEGER,
+    processed_action TEXT NOT NULL DEFAULT 'move' CHECK (processed_action IN ('move', 'delete', 'leave')),
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (receipt_type_id) REFERENCES receipt_types(id) ON DELETE SET NULL
+);
+
+-- Flags added to every receipt imported from a folder
+CREATE TABLE IF NOT EXISTS watch_folder_flags (
+    folder_id INTEGER NOT NULL,
+    flag_id INTEGER NOT NULL,
+    PRIMARY KEY (folder_id, flag_id),
+    FOREIGN KEY (folder_id) REFERENCES watch_folders(id) ON DELETE CASCADE,
+    FOREIGN KEY (flag_id) REFERENCES flags(id) ON DELETE CASCADE
+);
+
+-- Files already imported from folders that leave them in place
+-- A file whose size or modification time changes is imported again
+CREATE TABLE IF NOT EXISTS watch_imported_files (
+    folder_id INTEGER NOT NULL,
+    relative_path TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    mtime_ms REAL NOT NULL,
+    imported_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (folder_id, relative_path),
+    FOREIGN KEY (folder_id) REFERENCES watch_folders(id) ON DELETE CASCADE
+);
+
+-- Keep the folder configured through WATCH_FOLDER working as before
+INSERT INTO watch_folders (name, path) VALUES ('Watch Folder', NULL);
@@ -0,0 +1,26 @@
+-- Migration: 014_add_watch_import_log
+-- Description: Log each watch folder import and quarantine files that keep failing
+-- Date: 2024-01-01
+
+-- One entry per import source: a file in the watch folder, or a subfolder whose files become one receipt
+-- source_path and quarantine_path are relative to the watch folder; files is a JSON array of file names
+-- status: 'imported' created receipt_id, 'failed' is retried on the next scan,
+-- 'quarantined' failed too often and was moved to quarantine_path, 'discarded' was deleted from the review list
+CREATE TABLE IF NOT EXISTS watch_imports (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    folder_id INTEGER,
+    source_path TEXT NOT NULL,
+    files TEXT NOT NULL DEFAULT '[]',
+    receipt_id INTEGER,
+    status TEXT NOT NULL CHECK (status IN ('imported', 'failed', 'quarantined', 'discarded')),
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    quarantine_path TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (folder_id) REFERENCES watch_folders(id) ON DELETE SET NULL,
+    FOREIGN KEY (receipt_id) REFERENCES receipts(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_watch_imports_source ON watch_imports(folder_id, source_path, status);
+CREATE INDEX IF NOT EXISTS idx_watch_imports_status ON watch_imports(status);
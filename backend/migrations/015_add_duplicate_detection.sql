@@ -0,0 +1,20 @@
+-- Migration: 015_add_duplicate_detection
+-- Description: Fingerprint receipt files to detect duplicate uploads and imports
+-- Date: 2024-01-01
+
+-- content_hash: SHA-256 of the file as uploaded, before image optimization
+-- perceptual_hash: 64-bit difference hash of images (hex), which survives resizing and recompression
+ALTER TABLE receipt_files ADD COLUMN content_hash TEXT;
+ALTER TABLE receipt_files ADD COLUMN perceptual_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_receipt_files_content_hash ON receipt_files(content_hash);
+
+-- Pairs of receipts marked as not being duplicates, stored with receipt_id < other_receipt_id
+CREATE TABLE IF NOT EXISTS duplicate_dismissals (
+    receipt_id INTEGER NOT NULL,
+    other_receipt_id INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (receipt_id, other_receipt_id),
+    FOREIGN KEY (receipt_id) REFERENCES receipts(id) ON DELETE CASCADE,
+    FOREIGN KEY (other_receipt_id) REFERENCES receipts(id) ON DELETE CASCADE
+);
@@ -0,0 +1,32 @@
+-- Migration: 016_add_receipt_history
+-- Description: Keep an append-only history of every change to receipts, their files and flags
+-- Date: 2024-01-01
+
+-- One entry per change; entries are kept after the receipt is deleted
+-- changes is a JSON object of field -> { "old": ..., "new": ... }; users, types and flags are stored by name
+-- source: 'user' (web app or API token), 'watch' (watch folder import), 'job' (background job), 'system' (anything else)
+-- detail names the API token, watch folder or job type
+-- account_id has no foreign key so entries stay unchanged when an account is deleted; account_name keeps its username
+-- reverted_entry_id is set when the change put back a value from an earlier entry
+CREATE TABLE IF NOT EXISTS receipt_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    receipt_id INTEGER NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted', 'file_added', 'file_removed', 'file_replaced', 'file_renamed')),
+    file_id INTEGER,
+    changes TEXT NOT NULL DEFAULT '{}',
+    source TEXT NOT NULL CHECK (source IN ('user', 'watch', 'job', 'system')),
+    detail TEXT,
+    account_id INTEGER,
+    account_name TEXT,
+    reverted_entry_id INTEGER,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipt_history_receipt ON receipt_history(receipt_id, id);
+
+-- History entries are never changed once written
+CREATE TRIGGER IF NOT EXISTS receipt_history_append_only
+BEFORE UPDATE ON receipt_history
+BEGIN
+    SELECT RAISE(ABORT, 'receipt history entries cannot be changed');
+END;
@@ -0,0 +1,41 @@
+-- Migration: 017_add_trash
+-- Description: Soft delete receipts and files into a trash that can be restored or purged
+-- Date: 2024-01-01
+
+-- Set when the receipt or file was moved to the trash; NULL while it is in use
+-- Files of trashed receipts and trashed files are stored under .trash in the receipts directory
+ALTER TABLE receipts ADD COLUMN deleted_at TEXT;
+ALTER TABLE receipt_files ADD COLUMN deleted_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_receipts_deleted_at ON receipts(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_receipt_files_deleted_at ON receipt_files(deleted_at);
+
+-- Record restores and permanent deletion in the receipt history
+-- 'deleted' now means moved to the trash; 'purged' means deleted for good
+-- SQLite can't change a CHECK constraint, so the table is rebuilt with the same entries
+CREATE TABLE receipt_history_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    receipt_id INTEGER NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted', 'restored', 'purged', 'file_added', 'file_removed', 'file_restored', 'file_replaced', 'file_renamed')),
+    file_id INTEGER,
+    changes TEXT NOT NULL DEFAULT '{}',
+    source TEXT NOT NULL CHECK (source IN ('user', 'watch', 'job', 'system')),
+    detail TEXT,
+    account_id INTEGER,
+    account_name TEXT,
+    reverted_entry_id INTEGER,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+INSERT INTO receipt_history_new SELECT * FROM receipt_history;
+DROP TABLE receipt_history;
+ALTER TABLE receipt_history_new RENAME TO receipt_history;
+
+CREATE INDEX IF NOT EXISTS idx_receipt_history_receipt ON receipt_history(receipt_id, id);
+
+-- History entries are never changed once written
+CREATE TRIGGER IF NOT EXISTS receipt_history_append_only
+BEFORE UPDATE ON receipt_history
+BEGIN
+    SELECT RAISE(ABORT, 'receipt history entries cannot be changed');
+END;
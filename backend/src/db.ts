@@ -62,13 +62,15 @@ runMigrations(dbInstance)
 const dbQueriesObj = {
 	// Receipts
 	getReceiptById: dbInstance.prepare('SELECT * FROM receipts WHERE id = ?'),
-	getAllReceipts: dbInstance.prepare('SELECT * FROM receipts ORDER BY date DESC, created_at DESC'),
-	getReceiptsByUser: dbInstance.prepare('SELECT * FROM receipts WHERE user_id = ? ORDER BY date DESC, created_at DESC'),
+	getAllReceipts: dbInstance.prepare('SELECT * FROM receipts WHERE deleted_at IS NULL ORDER BY date DESC, created_at DESC'),
+	getReceiptsByUser: dbInstance.prepare('SELECT * FROM receipts WHERE user_id = ? AND deleted_at IS NULL ORDER BY date DESC, created_at DESC'),
 	getReceiptsByReceiptType: dbInstance.prepare('SELECT * FROM receipts WHERE receipt_type_id = ?'),
+	// Includes receipts in the trash, which still reference their user
+	getAllReceiptsByUser: dbInstance.prepare('SELECT * FROM receipts WHERE user_id = ?'),
 	getReceiptsByFlag: dbInstance.prepare(`
     SELECT DISTINCT r.* FROM receipts r
     INNER JOIN receipt_flags rf ON r.id = rf.receipt_id
-    WHERE rf.flag_id = ?
+    WHERE rf.flag_id = ? AND r.deleted_at IS NULL
     ORDER BY r.date DESC, r.created_at DESC
   `),
 	insertReceipt: dbInstance.prepare(`
@@ -79,16 +81,80 @@ const dbQueriesObj = {
     UPDATE receipts
     SET user_id = ?, receipt_type_id = ?, amount = ?, vendor = ?, provider_address = ?, description = ?, date = ?, notes = ?, updated_at = datetime('now')
     WHERE id = ?
+  `),
+	updateReceiptReimbursement: dbInstance.prepare(`
+    UPDATE receipts
+    SET reimbursement_status = ?, reimbursed_date = ?, reimbursed_amount = ?, hsa_transaction_ref = ?, updated_at = datetime('now')
+    WHERE id = ?
   `),
 	deleteReceipt: dbInstance.prepare('DELETE FROM receipts WHERE id = ?'),
 
+	// Trash (deleted_at is set while a receipt or file is in the trash)
+	trashReceipt: dbInstance.prepare("UPDATE receipts SET deleted_at = datetime('now') WHERE id = ?"),
+	restoreReceipt: dbInstance.prepare('UPDATE receipts SET deleted_at = NULL WHERE id = ?'),
+	getTrashedReceipts: dbInstance.prepare('SELECT * FROM receipts WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC, id DESC'),
+	getExpiredTrashedReceipts: dbInstance.prepare(
+		"SELECT * FROM receipts WHERE deleted_at IS NOT NULL AND deleted_at <= datetime('now', ?) ORDER BY id"
+	),
+	trashReceiptFile: dbInstance.prepare("UPDATE receipt_files SET deleted_at = datetime('now') WHERE id = ?"),
+	restoreReceiptFile: dbInstance.prepare('UPDATE receipt_files SET deleted_at = NULL WHERE id = ?'),
+	// Trashed files of receipts that are still in use; files of trashed receipts go with their receipt
+	getTrashedFiles: dbInstance.prepare(`
+    SELECT rf.* FROM receipt_files rf
+    JOIN receipts r ON r.id = rf.receipt_id
+    WHERE rf.deleted_at IS NOT NULL AND r.deleted_at IS NULL
+    ORDER BY rf.deleted_at DESC, rf.id DESC
+  `),
+	getExpiredTrashedFiles: dbInstance.prepare(`
+    SELECT rf.* FROM receipt_files rf
+    JOIN receipts r ON r.id = rf.receipt_id
+    WHERE rf.deleted_at IS NOT NULL AND rf.deleted_at <= datetime('now', ?) AND r.deleted_at IS NULL
+    ORDER BY rf.id
+  `),
+
 	// Users
 	getAllUsers: dbInstance.prepare('SELECT * FROM users ORDER BY name'),
 	getUserById: dbInstance.prepare('SELECT * FROM users WHERE id = ?'),
 	getUserByName: dbInstance.prepare('SELECT * FROM users WHERE name = ?'),
 	insertUser: dbInstance.prepare('INSERT INTO users (name) VALUES (?)'),
 	updateUser: dbInstance.prepare('UPDATE users SET name = ? WHERE id = ?'),
+	restoreUserName: dbInstance.prepare('UPDATE users SET name = ? WHERE id = ? AND name = ?'),
 	deleteUser: dbInstance.prepare('DELETE FROM users WHERE id = ?'),
+	// Move everything that belongs to a user over to another one before it is deleted
+	reassignReceiptsUser: dbInstance.prepare("UPDATE receipts SET user_id = ?, updated_at = datetime('now') WHERE user_id = ?"),
+	reassignWatchFoldersUser: dbInstance.prepare('UPDATE watch_folders SET user_id = ? WHERE user_id = ?'),
+	reassignImportRulesUser: dbInstance.prepare('UPDATE import_rules SET user_id = ? WHERE user_id = ?'),
+
+	// Stats
+	getStatsSummaryRows: dbInstance.prepare(`
+    SELECT
+      r.user_id,
+      u.name as user_name,
+      strftime('%Y', r.date) as year,
+      rt.group_id,
+      rtg.name as group_name,
+      r.reimbursement_status,
+      COUNT(*) as receipt_count,
+      SUM(r.amount) as total_spent,
+      SUM(COALESCE(r.reimbursed_amount, 0)) as total_reimbursed,
+      SUM(CASE WHEN r.reimbursement_status = 'reimbursed' THEN 0 ELSE MAX(r.amount - COALESCE(r.reimbursed_amount, 0), 0) END) as outstanding
+    FROM receipts r
+    LEFT JOIN users u ON r.user_id = u.id
+    LEFT JOIN receipt_types rt ON r.receipt_type_id = rt.id
+    LEFT JOIN receipt_type_groups rtg ON rt.group_id = rtg.id
+    WHERE r.deleted_at IS NULL
+      AND (@user_id IS NULL OR r.user_id = @user_id)
+      AND (@year IS NULL OR strftime('%Y', r.date) = @year)
+      AND (@user_ids IS NULL OR r.user_id IN (SELECT value FROM json_each(@user_ids)))
+    GROUP BY r.user_id, year, rt.group_id, r.reimbursement_status
+    ORDER BY year DESC, u.name, rtg.display_order, rtg.name
+  `),
+	getStatsYears: dbInstance.prepare(`
+    SELECT DISTINCT strftime('%Y', date) as year FROM receipts
+    WHERE date IS NOT NULL AND deleted_at IS NULL
+      AND (@user_ids IS NULL OR user_id IN (SELECT value FROM json_each(@user_ids)))
+    ORDER BY year DESC
+  `),
 
 	// Receipt Types
 	getAllReceiptTypes: dbInstance.prepare(`
@@ -108,6 +174,12 @@ const dbQueriesObj = {
 	updateReceiptType: dbInstance.prepare('UPDATE receipt_types SET name = ?, group_id = ?, display_order = ? WHERE id = ?'),
 	updateReceiptTypeGroupId: dbInstance.prepare('UPDATE receipt_types SET group_id = ?, display_order = ? WHERE id = ?'),
 	deleteReceiptType: dbInstance.prepare('DELETE FROM receipt_types WHERE id = ?'),
+	// Move everything that uses a receipt type over to another one before it is deleted
+	reassignReceiptsType: dbInstance.prepare(
+		"UPDATE receipts SET receipt_type_id = ?, updated_at = datetime('now') WHERE receipt_type_id = ?"
+	),
+	reassignWatchFoldersType: dbInstance.prepare('UPDATE watch_folders SET receipt_type_id = ? WHERE receipt_type_id = ?'),
+	reassignImportRulesType: dbInstance.prepare('UPDATE import_rules SET receipt_type_id = ? WHERE receipt_type_id = ?'),
 
 	// Receipt Type Groups
 	getAllReceiptTypeGroups: dbInstance.prepare('SELECT * FROM receipt_type_groups ORDER BY display_order, name'),
@@ -119,7 +191,8 @@ const dbQueriesObj = {
 	ungroupReceiptTypes: dbInstance.prepare('UPDATE receipt_types SET group_id = NULL WHERE group_id = ?'),
 
 	// Receipt Files
-	getFilesByReceiptId: dbInstance.prepare('SELECT * FROM receipt_files WHERE receipt_id = ? ORDER BY file_order'),
+	getFilesByReceiptId: dbInstance.prepare('SELECT * FROM receipt_files WHERE receipt_id = ? AND deleted_at IS NULL ORDER BY file_order'),
+	getAllFilesByReceiptId: dbInstance.prepare('SELECT * FROM receipt_files WHERE receipt_id = ? ORDER BY file_order'), // Including trashed files
 	getFileById: dbInstance.prepare('SELECT * FROM receipt_files WHERE id = ?'),
 	insertReceiptFile: dbInstance.prepare(`
     INSERT INTO receipt_files (receipt_id, filename, original_filename, file_order)
@@ -127,6 +200,7 @@ const dbQueriesObj = {
   `),
 	updateReceiptFilename: dbInstance.prepare('UPDATE receipt_files SET filename = ? WHERE id = ?'),
 	updateReceiptFileOriginalFilename: dbInstance.prepare('UPDATE receipt_files SET original_filename = ? WHERE id = ?'),
+	updateReceiptFileExtractedText: dbInstance.prepare('UPDATE receipt_files SET extracted_text = ?, text_source = ? WHERE id = ?'),
 	updateReceiptFileOptimized: dbInstance.prepare(`
     UPDATE receipt_files
     SET is_optimized = 1, optimized_at = datetime('now')
@@ -139,20 +213,64 @@ const dbQueriesObj = {
   `),
 	getUnoptimizedFiles: dbInstance.prepare(`
     SELECT * FROM receipt_files
-    WHERE is_optimized = 0 OR is_optimized IS NULL
+    WHERE (is_optimized = 0 OR is_optimized IS NULL)
+      AND deleted_at IS NULL AND receipt_id IN (SELECT id FROM receipts WHERE deleted_at IS NULL)
     ORDER BY created_at
   `),
 	getAllImageFiles: dbInstance.prepare(`
     SELECT * FROM receipt_files
-    WHERE LOWER(filename) LIKE '%.jpg'
+    WHERE (LOWER(filename) LIKE '%.jpg'
        OR LOWER(filename) LIKE '%.jpeg'
        OR LOWER(filename) LIKE '%.png'
-       OR LOWER(filename) LIKE '%.webp'
+       OR LOWER(filename) LIKE '%.webp')
+       AND deleted_at IS NULL AND receipt_id IN (SELECT id FROM receipts WHERE deleted_at IS NULL)
     ORDER BY created_at
   `),
 	deleteReceiptFile: dbInstance.prepare('DELETE FROM receipt_files WHERE id = ?'),
 	deleteFilesByReceiptId: dbInstance.prepare('DELETE FROM receipt_files WHERE receipt_id = ?'),
 
+	// Duplicate detection
+	updateReceiptFileHashes: dbInstance.prepare('UPDATE receipt_files SET content_hash = ?, perceptual_hash = ? WHERE id = ?'),
+	getFilesByContentHash: dbInstance.prepare(`
+    SELECT rf.id, rf.receipt_id, rf.original_filename, r.user_id
+    FROM receipt_files rf
+    JOIN receipts r ON r.id = rf.receipt_id
+    WHERE rf.content_hash = ? AND rf.deleted_at IS NULL AND r.deleted_at IS NULL
+  `),
+	getPerceptualHashes: dbInstance.prepare(`
+    SELECT rf.id, rf.receipt_id, rf.original_filename, rf.perceptual_hash, r.user_id
+    FROM receipt_files rf
+    JOIN receipts r ON r.id = rf.receipt_id
+    WHERE rf.perceptual_hash IS NOT NULL AND rf.deleted_at IS NULL AND r.deleted_at IS NULL
+  `),
+	getIdenticalFileReceiptPairs: dbInstance.prepare(`
+    SELECT DISTINCT fa.receipt_id AS receipt_id, fb.receipt_id AS other_receipt_id
+    FROM receipt_files fa
+    JOIN receipt_files fb ON fb.content_hash = fa.content_hash AND fb.receipt_id > fa.receipt_id
+    WHERE fa.content_hash IS NOT NULL
+      AND fa.deleted_at IS NULL AND fb.deleted_at IS NULL
+      AND fa.receipt_id IN (SELECT id FROM receipts WHERE deleted_at IS NULL)
+      AND fb.receipt_id IN (SELECT id FROM receipts WHERE deleted_at IS NULL)
+  `),
+	getSameDetailsReceiptPairs: dbInstance.prepare(`
+    SELECT a.id AS receipt_id, b.id AS other_receipt_id
+    FROM receipts a
+    JOIN receipts b ON b.id > a.id
+      AND b.user_id = a.user_id
+      AND b.date = a.date
+      AND b.amount = a.amount
+      AND LOWER(TRIM(b.vendor)) = LOWER(TRIM(a.vendor))
+    WHERE a.amount > 0 AND TRIM(a.vendor) != '' AND a.deleted_at IS NULL AND b.deleted_at IS NULL
+  `),
+	getUnhashedFiles: dbInstance.prepare(`
+    SELECT * FROM receipt_files
+    WHERE content_hash IS NULL
+      AND deleted_at IS NULL AND receipt_id IN (SELECT id FROM receipts WHERE deleted_at IS NULL)
+    ORDER BY id
+  `),
+	getDuplicateDismissals: dbInstance.prepare('SELECT receipt_id, other_receipt_id FROM duplicate_dismissals'),
+	insertDuplicateDismissal: dbInstance.prepare('INSERT OR IGNORE INTO duplicate_dismissals (receipt_id, other_receipt_id) VALUES (?, ?)'),
+
 	// Flags
 	getAllFlags: dbInstance.prepare('SELECT * FROM flags ORDER BY name'),
 	getFlagById: dbInstance.prepare('SELECT * FROM flags WHERE id = ?'),
@@ -171,11 +289,131 @@ const dbQueriesObj = {
 	deleteReceiptFlags: dbInstance.prepare('DELETE FROM receipt_flags WHERE receipt_id = ?'),
 	insertReceiptFlag: dbInstance.prepare('INSERT INTO receipt_flags (receipt_id, flag_id) VALUES (?, ?)'),
 
+	// Search Index
+	deleteReceiptSearchEntry: dbInstance.prepare('DELETE FROM receipts_fts WHERE rowid = ?'),
+	insertReceiptSearchEntry: dbInstance.prepare(`
+    INSERT INTO receipts_fts (rowid, vendor, description, provider_address, notes, date, flags, file_text)
+    SELECT
+      r.id,
+      r.vendor,
+      r.description,
+      r.provider_address,
+      COALESCE(r.notes, ''),
+      r.date,
+      COALESCE((SELECT group_concat(f.name, ' ') FROM receipt_flags rf INNER JOIN flags f ON rf.flag_id = f.id WHERE rf.receipt_id = r.id), ''),
+      COALESCE((SELECT group_concat(rfi.extracted_text, ' ') FROM receipt_files rfi WHERE rfi.receipt_id = r.id AND rfi.deleted_at IS NULL AND rfi.extracted_text IS NOT NULL), '')
+    FROM receipts r
+    WHERE r.id = ? AND r.deleted_at IS NULL
+  `),
+	searchReceipts: dbInstance.prepare(`
+    SELECT
+      rowid as receipt_id,
+      bm25(receipts_fts, 10.0, 5.0, 3.0, 3.0, 2.0, 4.0, 1.0) as rank,
+      snippet(receipts_fts, -1, '<mark>', '</mark>', '…', 12) as snippet
+    FROM receipts_fts
+    WHERE receipts_fts MATCH @query
+      AND (@user_ids IS NULL OR rowid IN (SELECT id FROM receipts WHERE user_id IN (SELECT value FROM json_each(@user_ids))))
+    ORDER BY rank
+    LIMIT @limit
+  `),
+	getReceiptIdsByFlagId: dbInstance.prepare('SELECT receipt_id FROM receipt_flags WHERE flag_id = ?'),
+
 	// Settings
 	getSetting: dbInstance.prepare('SELECT value FROM settings WHERE key = ?'),
 	setSetting: dbInstance.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)'),
 	getAllSettings: dbInstance.prepare('SELECT * FROM settings'),
 
+	// Accounts
+	getAllAccounts: dbInstance.prepare('SELECT * FROM accounts ORDER BY username'),
+	getAccountById: dbInstance.prepare('SELECT * FROM accounts WHERE id = ?'),
+	getAccountByUsername: dbInstance.prepare('SELECT * FROM accounts WHERE username = ?'),
+	countAccounts: dbInstance.prepare('SELECT COUNT(*) as count FROM accounts'),
+	insertAccount: dbInstance.prepare('INSERT INTO accounts (username, password_hash, role) VALUES (?, ?, ?)'),
+	insertFirstAccount: dbInstance.prepare('INSERT INTO accounts (username, password_hash, role) SELECT ?, ?, ? WHERE NOT EXISTS (SELECT 1 FROM accounts)'),
+	updateAccountPassword: dbInstance.prepare('UPDATE accounts SET password_hash = ? WHERE id = ?'),
+	updateAccountLastLogin: dbInstance.prepare("UPDATE accounts SET last_login_at = datetime('now') WHERE id = ?"),
+	deleteAccount: dbInstance.prepare('DELETE FROM accounts WHERE id = ?'),
+	updateAccountRole: dbInstance.prepare('UPDATE accounts SET role = ? WHERE id = ?'),
+
+	// Account users (which household members' receipts an account can access)
+	getAccountUserIds: dbInstance.prepare('SELECT user_id FROM account_users WHERE account_id = ? ORDER BY user_id'),
+	insertAccountUser: dbInstance.prepare('INSERT OR IGNORE INTO account_users (account_id, user_id) VALUES (?, ?)'),
+	deleteAccountUsers: dbInstance.prepare('DELETE FROM account_users WHERE account_id = ?'),
+
+	// Sessions
+	insertSession: dbInstance.prepare('INSERT INTO sessions (account_id, token_hash, expires_at) VALUES (?, ?, ?)'),
+	getSessionByTokenHash: dbInstance.prepare('SELECT * FROM sessions WHERE token_hash = ?'),
+	deleteSessionByTokenHash: dbInstance.prepare('DELETE FROM sessions WHERE token_hash = ?'),
+	deleteOtherSessions: dbInstance.prepare('DELETE FROM sessions WHERE account_id = ? AND token_hash != ?'),
+	deleteExpiredSessions: dbInstance.prepare('DELETE FROM sessions WHERE expires_at <= ?'),
+
+	// API tokens
+	getApiTokensByAccountId: dbInstance.prepare('SELECT * FROM api_tokens WHERE account_id = ? ORDER BY created_at DESC, id DESC'),
+	getApiTokenById: dbInstance.prepare('SELECT * FROM api_tokens WHERE id = ?'),
+	getApiTokenByHash: dbInstance.prepare('SELECT * FROM api_tokens WHERE token_hash = ?'),
+	insertApiToken: dbInstance.prepare('INSERT INTO api_tokens (account_id, name, token_hash, token_prefix, scope) VALUES (?, ?, ?, ?, ?)'),
+	updateApiTokenLastUsed: dbInstance.prepare("UPDATE api_tokens SET last_used_at = datetime('now') WHERE id = ?"),
+	deleteApiToken: dbInstance.prepare('DELETE FROM api_tokens WHERE id = ? AND account_id = ?'),
+
+	// Jobs
+	getJobById: dbInstance.prepare('SELECT * FROM jobs WHERE id = ?'),
+	getRecentJobs: dbInstance.prepare('SELECT * FROM jobs ORDER BY id DESC LIMIT ?'),
+	getNextQueuedJob: dbInstance.prepare("SELECT * FROM jobs WHERE status = 'queued' ORDER BY id LIMIT 1"),
+	getQueuedJobsByType: dbInstance.prepare("SELECT * FROM jobs WHERE type = ? AND status = 'queued' ORDER BY id"),
+	insertJob: dbInstance.prepare('INSERT INTO jobs (type, params, account_id) VALUES (?, ?, ?)'),
+	updateJobStarted: dbInstance.prepare("UPDATE jobs SET status = 'running', started_at = datetime('now') WHERE id = ?"),
+	updateJobProgress: dbInstance.prepare('UPDATE jobs SET progress = ?, total = ? WHERE id = ?'),
+	updateJobFinished: dbInstance.prepare("UPDATE jobs SET status = ?, result = ?, error = ?, finished_at = datetime('now') WHERE id = ?"),
+	cancelQueuedJob: dbInstance.prepare("UPDATE jobs SET status = 'cancelled', finished_at = datetime('now') WHERE id = ? AND status = 'queued'"),
+	requestJobCancel: dbInstance.prepare("UPDATE jobs SET cancel_requested = 1 WHERE id = ? AND status = 'running'"),
+	requeueRunningJobs: dbInstance.prepare("UPDATE jobs SET status = 'queued', progress = 0, total = NULL, started_at = NULL WHERE status = 'running'"),
+	deleteFinishedJobsBefore: dbInstance.prepare("DELETE FROM jobs WHERE status IN ('completed', 'failed', 'cancelled') AND finished_at < ?"),
+
+	// Import rules
+	getAllImportRules: dbInstance.prepare('SELECT * FROM import_rules ORDER BY id'),
+	getEnabledImportRules: dbInstance.prepare('SELECT * FROM import_rules WHERE enabled = 1 ORDER BY id'),
+	getImportRuleById: dbInstance.prepare('SELECT * FROM import_rules WHERE id = ?'),
+	insertImportRule: dbInstance.prepare('INSERT INTO import_rules (name, match_type, pattern, user_id, receipt_type_id, vendor, date_from_filename, enabled) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'),
+	updateImportRule: dbInstance.prepare('UPDATE import_rules SET name = ?, match_type = ?, pattern = ?, user_id = ?, receipt_type_id = ?, vendor = ?, date_from_filename = ?, enabled = ? WHERE id = ?'),
+	deleteImportRule: dbInstance.prepare('DELETE FROM import_rules WHERE id = ?'),
+	getImportRuleFlagIds: dbInstance.prepare('SELECT flag_id FROM import_rule_flags WHERE rule_id = ? ORDER BY flag_id'),
+	insertImportRuleFlag: dbInstance.prepare('INSERT OR IGNORE INTO import_rule_flags (rule_id, flag_id) VALUES (?, ?)'),
+	deleteImportRuleFlags: dbInstance.prepare('DELETE FROM import_rule_flags WHERE rule_id = ?'),
+
+	// Watch folders
+	getAllWatchFolders: dbInstance.prepare('SELECT * FROM watch_folders ORDER BY id'),
+	getWatchFolderById: dbInstance.prepare('SELECT * FROM watch_folders WHERE id = ?'),
+	insertWatchFolder: dbInstance.prepare('INSERT INTO watch_folders (name, path, interval_minutes, user_id, receipt_type_id, processed_action, enabled) VALUES (?, ?, ?, ?, ?, ?, ?)'),
+	updateWatchFolder: dbInstance.prepare('UPDATE watch_folders SET name = ?, path = ?, interval_minutes = ?, user_id = ?, receipt_type_id = ?, processed_action = ?, enabled = ? WHERE id = ?'),
+	deleteWatchFolder: dbInstance.prepare('DELETE FROM watch_folders WHERE id = ?'),
+	getWatchFolderFlagIds: dbInstance.prepare('SELECT flag_id FROM watch_folder_flags WHERE folder_id = ? ORDER BY flag_id'),
+	insertWatchFolderFlag: dbInstance.prepare('INSERT OR IGNORE INTO watch_folder_flags (folder_id, flag_id) VALUES (?, ?)'),
+	deleteWatchFolderFlags: dbInstance.prepare('DELETE FROM watch_folder_flags WHERE folder_id = ?'),
+	getWatchImportedFiles: dbInstance.prepare('SELECT * FROM watch_imported_files WHERE folder_id = ?'),
+	upsertWatchImportedFile: dbInstance.prepare('INSERT OR REPLACE INTO watch_imported_files (folder_id, relative_path, size, mtime_ms) VALUES (?, ?, ?, ?)'),
+	deleteWatchImportedFile: dbInstance.prepare('DELETE FROM watch_imported_files WHERE folder_id = ? AND relative_path = ?'),
+
+	// Watch import log
+	getWatchImports: dbInstance.prepare(`
+		SELECT wi.*, wf.name AS folder_name
+		FROM watch_imports wi
+		LEFT JOIN watch_folders wf ON wf.id = wi.folder_id
+		WHERE (? IS NULL OR wi.status = ?) AND (? IS NULL OR wi.folder_id = ?)
+		ORDER BY wi.updated_at DESC, wi.id DESC
+		LIMIT ?
+	`),
+	getWatchImportById: dbInstance.prepare('SELECT wi.*, wf.name AS folder_name FROM watch_imports wi LEFT JOIN watch_folders wf ON wf.id = wi.folder_id WHERE wi.id = ?'),
+	getFailedWatchImport: dbInstance.prepare("SELECT * FROM watch_imports WHERE folder_id = ? AND source_path = ? AND status = 'failed' ORDER BY id DESC LIMIT 1"),
+	insertWatchImport: dbInstance.prepare('INSERT INTO watch_imports (folder_id, source_path, files, receipt_id, status, error) VALUES (?, ?, ?, ?, ?, ?)'),
+	updateWatchImport: dbInstance.prepare("UPDATE watch_imports SET files = ?, receipt_id = ?, status = ?, error = ?, attempts = ?, quarantine_path = ?, updated_at = datetime('now') WHERE id = ?"),
+
+	// Receipt history
+	getReceiptHistory: dbInstance.prepare('SELECT * FROM receipt_history WHERE receipt_id = ? ORDER BY id DESC'),
+	getReceiptHistoryEntry: dbInstance.prepare('SELECT * FROM receipt_history WHERE id = ? AND receipt_id = ?'),
+	insertReceiptHistory: dbInstance.prepare(
+		'INSERT INTO receipt_history (receipt_id, action, file_id, changes, source, detail, account_id, account_name, reverted_entry_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+	),
+
 	// Vendors
 	getFrequentVendors: dbInstance.prepare(`
 		SELECT vendor, COUNT(*) as count
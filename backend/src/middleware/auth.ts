@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express'
+import { AccountRole, ApiTokenScope, PublicAccount, PublicApiToken } from '../models/auth'
+import { SESSION_COOKIE_NAME, getSessionAccount, isAuthEnabled, resolveApiToken } from '../services/authService'
+
+declare global {
+	namespace Express {
+		interface Request {
+			account?: PublicAccount // Logged-in account, set by requireAuth when auth is enabled
+			apiToken?: PublicApiToken // API token the request was made with, set by authenticateApiToken
+		}
+	}
+}
+
+// Requests an upload-only token may make: creating receipts plus the lookups needed to fill one in
+const UPLOAD_SCOPE_REQUESTS: Array<{ method: string; path: RegExp }> = [
+	{ method: 'POST', path: /^\/receipts\/?$/i },
+	{ method: 'GET', path: /^\/(users|receipt-types|receipt-type-groups|flags)\/?$/i },
+]
+
+// API tokens can never manage accounts or tokens, so a leaked token can't be used to create more credentials
+// Case-insensitive like Express routing, so /api/Tokens can't slip past
+const TOKEN_EXCLUDED_PATHS = /^\/+(accounts|tokens)(\/|$)/i
+
+/**
+ * Read the session token from the request's cookies
+ */
+export function getSessionToken(req: Request): string | null {
+	const header = req.headers.cookie
+	if (!header) {
+		return null
+	}
+	for (const part of header.split(';')) {
+		const separator = part.indexOf('=')
+		if (separator === -1) continue
+		if (part.slice(0, separator).trim() === SESSION_COOKIE_NAME) {
+			try {
+				return decodeURIComponent(part.slice(separator + 1).trim()) || null
+			} catch {
+				return null
+			}
+		}
+	}
+	return null
+}
+
+/**
+ * Check if an API token scope allows a request
+ * The path is relative to /api
+ */
+function isAllowedForTokenScope(scope: ApiTokenScope, method: string, path: string): boolean {
+	if (TOKEN_EXCLUDED_PATHS.test(path)) {
+		return false
+	}
+	switch (scope) {
+		case 'full':
+			return true
+		case 'read':
+			return method === 'GET' || method === 'HEAD'
+		case 'upload':
+			return UPLOAD_SCOPE_REQUESTS.some(request => request.method === method && request.path.test(path))
+	}
+}
+
+/**
+ * Authenticate API requests that carry an API token in an Authorization: Bearer header
+ * Requests without a token continue to the session check in requireAuth
+ * Does nothing when AUTH_ENABLED is not set
+ */
+export function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+	if (!isAuthEnabled()) {
+		return next()
+	}
+
+	const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '')
+	if (!match) {
+		return next()
+	}
+
+	const result = resolveApiToken(match[1])
+	if (!result) {
+		return res.status(401).json({ error: 'Invalid API token' })
+	}
+	if (!isAllowedForTokenScope(result.apiToken.scope, req.method, req.path)) {
+		return res.status(403).json({ error: 'This API token does not allow this request' })
+	}
+
+	req.account = result.account
+	req.apiToken = result.apiToken
+	next()
+}
+
+/**
+ * Require a valid session for API requests when authentication is enabled
+ * Requests already authenticated with an API token are let through
+ * Does nothing when AUTH_ENABLED is not set
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+	if (!isAuthEnabled() || req.apiToken) {
+		return next()
+	}
+
+	const token = getSessionToken(req)
+	const account = token ? getSessionAccount(token) : null
+	if (!account) {
+		return res.status(401).json({ error: 'Authentication required' })
+	}
+
+	req.account = account
+	next()
+}
+
+/**
+ * Only allow accounts with one of the given roles
+ * Does nothing when authentication is disabled (there is no logged-in account)
+ */
+export function requireRole(...roles: AccountRole[]) {
+	return (req: Request, res: Response, next: NextFunction) => {
+		if (req.account && !roles.includes(req.account.role)) {
+			return res.status(403).json({ error: 'You do not have permission to do this' })
+		}
+		next()
+	}
+}
+
+/**
+ * Allow every account to read, but only accounts with one of the given roles to make changes
+ */
+export function requireRoleForChanges(...roles: AccountRole[]) {
+	const checkRole = requireRole(...roles)
+	return (req: Request, res: Response, next: NextFunction) => {
+		if (req.method === 'GET' || req.method === 'HEAD') {
+			return next()
+		}
+		checkRole(req, res, next)
+	}
+}
@@ -0,0 +1,81 @@
+// admin: manages accounts and settings and sees all receipts
+// editor: adds and edits receipts of its users
+// viewer: can only view receipts of its users
+export const ACCOUNT_ROLES = ['admin', 'editor', 'viewer'] as const
+
+export type AccountRole = (typeof ACCOUNT_ROLES)[number]
+
+export interface Account {
+	id: number
+	username: string
+	password_hash: string
+	role: AccountRole
+	created_at: string
+	last_login_at?: string | null
+}
+
+// Account as returned by the API (never includes the password hash)
+export type PublicAccount = Omit<Account, 'password_hash'> & {
+	user_ids: number[] // Users whose receipts the account can access (ignored for admins)
+}
+
+export interface Session {
+	id: number
+	account_id: number
+	token_hash: string
+	created_at: string
+	expires_at: string // ISO timestamp
+}
+
+export interface AuthStatus {
+	enabled: boolean
+	authenticated: boolean
+	needs_setup: boolean // true when auth is enabled but no account exists yet
+	account: PublicAccount | null
+}
+
+export interface CreateAccountInput {
+	username: string
+	password: string
+	role?: AccountRole
+	user_ids?: number[]
+}
+
+export interface UpdateAccountInput {
+	role?: AccountRole
+	user_ids?: number[]
+}
+
+export interface ChangePasswordInput {
+	current_password: string
+	new_password: string
+}
+
+// read: GET requests only
+// upload: create receipts and look up users, types and flags
+// full: everything the account can do except managing accounts and tokens
+export const API_TOKEN_SCOPES = ['read', 'upload', 'full'] as const
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number]
+
+export interface ApiToken {
+	id: number
+	account_id: number
+	name: string
+	token_hash: string
+	token_prefix: string // Start of the token so it can be recognized in the list
+	scope: ApiTokenScope
+	created_at: string
+	last_used_at?: string | null
+}
+
+// API token as returned by the API (never includes the hash)
+export type PublicApiToken = Omit<ApiToken, 'token_hash'>
+
+// Newly created token; the full token is only returned once
+export type CreatedApiToken = PublicApiToken & { token: string }
+
+export interface CreateApiTokenInput {
+	name: string
+	scope: ApiTokenScope
+}
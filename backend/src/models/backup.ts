@@ -0,0 +1,37 @@
+// Version of the archive layout; restoring rejects archives with a newer version
+export const BACKUP_FORMAT_VERSION = 1
+
+// manual: created from the settings page
+// scheduled: created every BACKUP_INTERVAL_HOURS; only the newest BACKUP_KEEP are kept
+// pre-restore: the state before a restore, so the restore can be undone
+// uploaded: an archive uploaded to be restored
+export const BACKUP_KINDS = ['manual', 'scheduled', 'pre-restore', 'uploaded'] as const
+
+export type BackupKind = (typeof BACKUP_KINDS)[number]
+
+// A file in the archive, with its checksum to detect damaged archives
+export interface BackupManifestFile {
+	path: string
+	size: number
+	sha256: string
+}
+
+// Stored as manifest.json, the last entry of the archive
+export interface BackupManifest {
+	format: 'medstash-backup'
+	format_version: number
+	kind: BackupKind
+	created_at: string
+	schema_version: string | null // Latest applied migration
+	migrations: string[]
+	receipt_count: number
+	files: BackupManifestFile[]
+}
+
+// Backup archive as listed by the API
+export interface BackupInfo {
+	name: string
+	kind: BackupKind
+	size: number
+	created_at: string
+}
@@ -0,0 +1,28 @@
+import { ReceiptWithFilesAndNames } from './receipt'
+
+// identical_file: a file has exactly the same content
+// similar_image: an image looks the same, for example after being rescanned or recompressed
+// same_details: same user, date, amount and vendor
+export const DUPLICATE_REASONS = ['identical_file', 'similar_image', 'same_details'] as const
+
+export type DuplicateReason = (typeof DUPLICATE_REASONS)[number]
+
+// Fingerprints of a file, computed before it is stored
+export interface FileHashes {
+	content_hash: string
+	perceptual_hash: string | null // null for PDFs and images that can't be decoded
+}
+
+// An existing receipt file that matches a new file
+export interface DuplicateMatch {
+	receipt_id: number
+	file_id: number
+	original_filename: string
+	reason: Exclude<DuplicateReason, 'same_details'>
+}
+
+// Two receipts that are likely the same, for review
+export interface DuplicatePair {
+	receipts: [ReceiptWithFilesAndNames, ReceiptWithFilesAndNames]
+	reasons: DuplicateReason[]
+}
@@ -0,0 +1,25 @@
+// Events published to connected browsers over GET /api/events
+export const SERVER_EVENT_TYPES = [
+	'receipt.created',
+	'receipt.updated',
+	'receipt.deleted',
+	'receipt.file_added',
+	'watch.scan_started',
+	'watch.scan_completed',
+	'job.updated',
+] as const
+
+export type ServerEventType = (typeof SERVER_EVENT_TYPES)[number]
+
+export interface ServerEvent {
+	type: ServerEventType
+	data: Record<string, unknown>
+}
+
+// Data of receipt.* events; user IDs let the stream skip receipts an account can't access
+export interface ReceiptEventData extends Record<string, unknown> {
+	receipt_id: number
+	user_id: number
+	previous_user_id?: number // Set when an update moved the receipt to another user
+	file_id?: number // Set for receipt.file_added
+}
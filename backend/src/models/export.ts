@@ -0,0 +1,80 @@
+import type { ReimbursementStatus } from './receipt'
+
+// Version of the archive layout; importing rejects archives with a newer version
+export const EXPORT_FORMAT_VERSION = 1
+
+// How receipts are arranged in an export archive
+// receipt: a folder per receipt, user-year: receipt folders grouped by user and year,
+// flat: all files in one folder, named with the filename pattern
+export const EXPORT_LAYOUTS = ['receipt', 'user-year', 'flat'] as const
+
+export type ExportLayout = (typeof EXPORT_LAYOUTS)[number]
+
+// What to do with an imported receipt that is already stored (same files, or same user, date, amount and vendor)
+// skip: keep the stored receipt as it is
+// merge: fill in empty fields of the stored receipt and add its missing flags and files
+// overwrite: replace the stored receipt with the imported one
+export const IMPORT_CONFLICT_MODES = ['skip', 'merge', 'overwrite'] as const
+
+export type ImportConflictMode = (typeof IMPORT_CONFLICT_MODES)[number]
+
+// Stored as manifest.json at the root of the archive
+// Names are used instead of IDs, so the archive can be imported into any instance
+export interface ExportManifest {
+	format: 'medstash-export'
+	format_version: number
+	schema_version: string | null // Latest applied migration of the exporting instance
+	exported_at: string
+	users: Array<{ name: string }>
+	receipt_type_groups: Array<{ name: string; display_order: number }>
+	receipt_types: Array<{ name: string; group: string | null; display_order: number }>
+	flags: Array<{ name: string; color: string | null }>
+	settings: Record<string, string> // Raw stored values
+	receipt_count: number
+}
+
+// A receipt file in the archive
+export interface ExportedReceiptFile {
+	path: string // Path of the file in the archive
+	original_filename: string
+	file_order: number
+	extracted_text: string | null
+	text_source: 'ocr' | 'pdf' | null
+}
+
+// Stored as metadata.json next to the files of each receipt
+// Exports made before the manifest existed have no reimbursement details and no file list
+export interface ExportedReceipt {
+	id: number
+	user: string
+	type: string
+	amount: number
+	vendor: string
+	provider_address: string
+	description: string
+	date: string
+	notes?: string | null
+	flags: string[]
+	reimbursement_status?: ReimbursementStatus
+	reimbursed_date?: string | null
+	reimbursed_amount?: number | null
+	hsa_transaction_ref?: string | null
+	files?: ExportedReceiptFile[]
+	created_at: string
+	updated_at: string
+}
+
+export interface ImportResult {
+	receipts: number // Receipts in the archive
+	created: number
+	merged: number
+	overwritten: number
+	skipped: number
+	files: number // Files stored
+	users_created: number
+	receipt_types_created: number
+	receipt_type_groups_created: number
+	flags_created: number
+	settings_updated: number
+	errors: string[]
+}
@@ -0,0 +1,76 @@
+// created/updated/deleted/restored/purged: the receipt itself, including its flags
+// file_added/file_removed/file_restored/file_replaced/file_renamed: one of its files
+// deleted and file_removed move to the trash; purged is permanent, for the receipt or (with a file_id) one of its files
+export const RECEIPT_HISTORY_ACTIONS = [
+	'created',
+	'updated',
+	'deleted',
+	'restored',
+	'purged',
+	'file_added',
+	'file_removed',
+	'file_restored',
+	'file_replaced',
+	'file_renamed',
+] as const
+
+export type ReceiptHistoryAction = (typeof RECEIPT_HISTORY_ACTIONS)[number]
+
+// user: the web app or an API token, watch: a watch folder import, job: a background job, system: anything else
+export const HISTORY_SOURCES = ['user', 'watch', 'job', 'system'] as const
+
+export type HistorySource = (typeof HISTORY_SOURCES)[number]
+
+// Receipt fields kept in the history that can be reverted to an earlier value
+// user, type and flags are stored by name
+export const REVERTIBLE_RECEIPT_FIELDS = [
+	'user',
+	'type',
+	'amount',
+	'vendor',
+	'provider_address',
+	'description',
+	'date',
+	'notes',
+	'reimbursement_status',
+	'reimbursed_date',
+	'reimbursed_amount',
+	'hsa_transaction_ref',
+	'flags',
+] as const
+
+export type RevertibleReceiptField = (typeof REVERTIBLE_RECEIPT_FIELDS)[number]
+
+// Who or what makes a change, recorded with every history entry
+export interface HistoryContext {
+	source: HistorySource
+	detail?: string | null // API token name, watch folder or job type
+	account_id?: number | null
+	account_name?: string | null
+	reverted_entry_id?: number | null // Set when the change puts back a value from an earlier entry
+}
+
+export interface FieldChange {
+	old: unknown
+	new: unknown
+}
+
+// History entry as stored in the database (changes is a JSON string)
+export interface ReceiptHistoryRow {
+	id: number
+	receipt_id: number
+	action: ReceiptHistoryAction
+	file_id: number | null
+	changes: string
+	source: HistorySource
+	detail: string | null
+	account_id: number | null
+	account_name: string | null
+	reverted_entry_id: number | null
+	created_at: string
+}
+
+// History entry as returned by the API
+export interface ReceiptHistoryEntry extends Omit<ReceiptHistoryRow, 'changes'> {
+	changes: Record<string, FieldChange>
+}
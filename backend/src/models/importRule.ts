@@ -0,0 +1,55 @@
+// folder: the import's subfolder name equals the pattern (case-insensitive)
+// filename: the pattern is a regular expression tested against each file name (case-insensitive)
+// text: the recognized text of the files contains the pattern (case-insensitive)
+export const IMPORT_RULE_MATCH_TYPES = ['folder', 'filename', 'text'] as const
+
+export type ImportRuleMatchType = (typeof IMPORT_RULE_MATCH_TYPES)[number]
+
+// Import rule row as stored in the database
+export interface ImportRuleRow {
+	id: number
+	name: string
+	match_type: ImportRuleMatchType
+	pattern: string
+	user_id: number | null
+	receipt_type_id: number | null
+	vendor: string | null
+	date_from_filename: number // 0 = false, 1 = true (SQLite boolean)
+	enabled: number // 0 = false, 1 = true (SQLite boolean)
+	created_at: string
+}
+
+// Import rule as returned by the API
+export interface ImportRule extends Omit<ImportRuleRow, 'date_from_filename' | 'enabled'> {
+	date_from_filename: boolean
+	enabled: boolean
+	flag_ids: number[]
+}
+
+export interface ImportRuleInput {
+	name: string
+	match_type: ImportRuleMatchType
+	pattern: string
+	user_id?: number | null
+	receipt_type_id?: number | null
+	vendor?: string | null
+	flag_ids?: number[]
+	date_from_filename?: boolean
+	enabled?: boolean
+}
+
+// What is known about a watch folder import when rules are evaluated
+export interface ImportSource {
+	folder: string | null // Subfolder the files were dropped in, null for files at the top level
+	filenames: string[]
+	text?: string // Recognized text, only available once the files have been processed
+}
+
+// Receipt fields assigned by the rules matching an import
+export interface ImportRuleActions {
+	user_id?: number
+	receipt_type_id?: number
+	vendor?: string
+	date?: string // ISO date string
+	flag_ids: number[]
+}
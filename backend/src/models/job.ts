@@ -0,0 +1,51 @@
+import type { HistoryContext } from './history'
+
+export const JOB_TYPES = [
+	'optimize-images',
+	'reoptimize-images',
+	'rename-files',
+	'migrate-files',
+	'hash-files',
+	'create-backup',
+	'restore-backup',
+	'import-receipts',
+	'purge-trash',
+	'relocate-user-files',
+] as const
+
+export type JobType = (typeof JOB_TYPES)[number]
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'] as const
+
+export type JobStatus = (typeof JOB_STATUSES)[number]
+
+// Job row as stored in the database (params and result are JSON strings)
+export interface JobRow {
+	id: number
+	type: JobType
+	status: JobStatus
+	params: string | null
+	progress: number
+	total: number | null
+	result: string | null
+	error: string | null
+	cancel_requested: number // 0 = false, 1 = true (SQLite boolean)
+	account_id: number | null
+	created_at: string
+	started_at: string | null
+	finished_at: string | null
+}
+
+// Job as returned by the API
+export interface Job extends Omit<JobRow, 'params' | 'result' | 'cancel_requested'> {
+	params: Record<string, unknown> | null
+	result: Record<string, unknown> | null
+	cancel_requested: boolean
+}
+
+// Passed to long-running operations so they can report progress and stop when cancelled
+export interface JobContext {
+	reportProgress(progress: number, total: number): void
+	throwIfCancelled(): void
+	history: HistoryContext // Recorded with the receipt changes the job makes
+}
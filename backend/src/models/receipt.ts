@@ -4,6 +4,12 @@ export interface User {
 	created_at: string
 }
 
+// Receipts that reference a user or receipt type; they have to be moved elsewhere before it can be deleted
+export interface ReceiptUsage {
+	receipts: number
+	trashed_receipts: number
+}
+
 export interface ReceiptTypeGroup {
 	id: number
 	name: string
@@ -22,6 +28,10 @@ export interface ReceiptType {
 	group_display_order?: number
 }
 
+export const REIMBURSEMENT_STATUSES = ['unreimbursed', 'partial', 'reimbursed'] as const
+
+export type ReimbursementStatus = (typeof REIMBURSEMENT_STATUSES)[number]
+
 export interface Receipt {
 	id: number
 	user_id: number
@@ -32,10 +42,17 @@ export interface Receipt {
 	description: string
 	date: string // ISO date string
 	notes?: string
+	reimbursement_status: ReimbursementStatus
+	reimbursed_date?: string | null // ISO date string
+	reimbursed_amount?: number | null
+	hsa_transaction_ref?: string | null
 	created_at: string
 	updated_at: string
+	deleted_at?: string | null // Set while the receipt is in the trash
 }
 
+export type TextSource = 'ocr' | 'pdf'
+
 export interface ReceiptFile {
 	id: number
 	receipt_id: number
@@ -45,6 +62,11 @@ export interface ReceiptFile {
 	created_at: string
 	is_optimized?: number // 0 = false, 1 = true (SQLite boolean)
 	optimized_at?: string | null // Timestamp when optimized
+	extracted_text?: string | null // Raw OCR or PDF text, null until the file has been processed
+	text_source?: TextSource | null
+	content_hash?: string | null // SHA-256 of the uploaded file, null until fingerprinted
+	perceptual_hash?: string | null // Difference hash of image files, used to find look-alike scans
+	deleted_at?: string | null // Set while the file is in the trash
 }
 
 export interface Flag {
@@ -83,6 +105,10 @@ export interface CreateReceiptInput {
 	description?: string
 	date?: string
 	notes?: string
+	reimbursement_status?: ReimbursementStatus
+	reimbursed_date?: string | null
+	reimbursed_amount?: number | null
+	hsa_transaction_ref?: string | null
 	flag_ids?: number[]
 	// Legacy support: accept user/type as strings and resolve to IDs
 	user?: string
@@ -98,6 +124,10 @@ export interface UpdateReceiptInput {
 	description?: string
 	date?: string
 	notes?: string
+	reimbursement_status?: ReimbursementStatus
+	reimbursed_date?: string | null
+	reimbursed_amount?: number | null
+	hsa_transaction_ref?: string | null
 	flag_ids?: number[]
 	// Legacy support: accept user/type as strings and resolve to IDs
 	user?: string
@@ -143,3 +173,86 @@ export interface UpdateFlagInput {
 	name?: string
 	color?: string
 }
+
+export interface StatsTotals {
+	receipt_count: number
+	total_spent: number
+	total_reimbursed: number
+	outstanding: number
+}
+
+export interface StatsSummaryRow extends StatsTotals {
+	user_id: number
+	user_name: string
+	year: string
+	group_id: number | null
+	group_name: string
+	reimbursement_status: ReimbursementStatus
+}
+
+export interface StatsSummary {
+	totals: StatsTotals
+	by_user: Array<StatsTotals & { user_id: number; user_name: string }>
+	by_year: Array<StatsTotals & { year: string }>
+	by_group: Array<StatsTotals & { group_id: number | null; group_name: string }>
+	by_status: Array<StatsTotals & { reimbursement_status: ReimbursementStatus }>
+	rows: StatsSummaryRow[]
+	years: string[]
+}
+
+export interface StatsSummaryFilters {
+	user_id?: number
+	year?: string
+	user_ids?: number[] // Restrict totals to these users (accounts limited to some household members)
+}
+
+export type ReceiptSortField = 'date' | 'vendor' | 'type' | 'user' | 'amount' | 'created_at' | 'updated_at'
+
+export interface ReceiptQuery {
+	ids?: number[]
+	user_id?: number
+	user_ids?: number[] // Restrict results to these users (accounts limited to some household members)
+	receipt_type_id?: number
+	group_id?: number
+	date_from?: string
+	date_to?: string
+	amount_min?: number
+	amount_max?: number
+	vendor?: string
+	flag_ids?: number[]
+	flag_match?: 'any' | 'all'
+	reimbursement_status?: ReimbursementStatus
+	q?: string
+	sort?: ReceiptSortField
+	order?: 'asc' | 'desc'
+	limit?: number
+	offset?: number
+}
+
+export interface ReceiptPage {
+	receipts: ReceiptWithFilesAndNames[]
+	total: number
+	limit: number
+	offset: number
+	has_more: boolean
+}
+
+// Receipt fields proposed from OCR text; only fields that were found are present
+export interface ReceiptTextSuggestions {
+	amount?: number
+	date?: string // ISO date string
+	vendor?: string
+	provider_address?: string
+}
+
+export interface TextExtractionResult {
+	text: string
+	source: TextSource
+	suggestions: ReceiptTextSuggestions
+}
+
+export interface ReceiptSearchResult {
+	receipt: ReceiptWithFilesAndNames
+	rank: number
+	snippet: string
+}
@@ -0,0 +1,12 @@
+// Settings that can be stored; values are kept as JSON
+export const SETTING_KEYS = [
+	'filenamePattern',
+	'directoryPattern',
+	'imageOptimizationEnabled',
+	'ocrEnabled',
+	'excludedQuickVendors',
+	'customQuickVendors',
+	'trashRetentionDays',
+] as const
+
+export type SettingKey = (typeof SETTING_KEYS)[number]
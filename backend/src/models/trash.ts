@@ -0,0 +1,23 @@
+import type { ReceiptFile, ReceiptWithFilesAndNames } from './receipt'
+
+// Days items stay in the trash before they are purged, unless the trashRetentionDays setting says otherwise
+// 0 keeps them until they are deleted by hand
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+export const MAX_TRASH_RETENTION_DAYS = 3650
+
+// A trashed file of a receipt that is still in use, with enough of the receipt to recognize it
+export interface TrashedFile extends ReceiptFile {
+	receipt: Pick<ReceiptWithFilesAndNames, 'id' | 'user' | 'type' | 'vendor' | 'date' | 'amount'>
+}
+
+export interface TrashContents {
+	receipts: ReceiptWithFilesAndNames[]
+	files: TrashedFile[]
+	retention_days: number
+}
+
+export interface PurgeTrashResult {
+	receipts: number
+	files: number
+	retention_days: number
+}
@@ -0,0 +1,36 @@
+// move: imported files go to a processed/ subfolder of the watch folder
+// delete: imported files are removed
+// leave: imported files stay where they are and are remembered so they aren't imported twice
+export const PROCESSED_FILE_ACTIONS = ['move', 'delete', 'leave'] as const
+
+export type ProcessedFileAction = (typeof PROCESSED_FILE_ACTIONS)[number]
+
+// Watch folder row as stored in the database
+export interface WatchFolderRow {
+	id: number
+	name: string
+	path: string | null // null uses the WATCH_FOLDER environment variable
+	interval_minutes: number | null // null uses the WATCH_INTERVAL environment variable
+	user_id: number | null // Default user for imports no rule assigns one to
+	receipt_type_id: number | null // Default receipt type for imports no rule assigns one to
+	processed_action: ProcessedFileAction
+	enabled: number // 0 = false, 1 = true (SQLite boolean)
+	created_at: string
+}
+
+// Watch folder as returned by the API
+export interface WatchFolder extends Omit<WatchFolderRow, 'enabled'> {
+	enabled: boolean
+	flag_ids: number[]
+}
+
+export interface WatchFolderInput {
+	name: string
+	path?: string | null
+	interval_minutes?: number | null
+	user_id?: number | null
+	receipt_type_id?: number | null
+	flag_ids?: number[]
+	processed_action?: ProcessedFileAction
+	enabled?: boolean
+}
@@ -0,0 +1,28 @@
+// imported: a receipt was created
+// failed: the import is retried on the next scan
+// quarantined: the import failed too often and its files were moved to the quarantine folder
+// discarded: the files of a failed import were deleted
+export const WATCH_IMPORT_STATUSES = ['imported', 'failed', 'quarantined', 'discarded'] as const
+
+export type WatchImportStatus = (typeof WATCH_IMPORT_STATUSES)[number]
+
+// Watch import log entry as stored in the database
+export interface WatchImportRow {
+	id: number
+	folder_id: number | null // null once the watch folder is deleted
+	folder_name: string | null // From join
+	source_path: string // Relative to the watch folder
+	files: string // JSON array of file names
+	receipt_id: number | null
+	status: WatchImportStatus
+	error: string | null
+	attempts: number
+	quarantine_path: string | null // Relative to the watch folder
+	created_at: string
+	updated_at: string
+}
+
+// Watch import log entry as returned by the API
+export interface WatchImport extends Omit<WatchImportRow, 'files'> {
+	files: string[]
+}
@@ -0,0 +1,159 @@
+import express from 'express'
+import {
+	getAllAccounts,
+	getAccountCount,
+	accountExists,
+	createAccount,
+	deleteAccount,
+	changePassword,
+	updateAccount,
+} from '../services/authService'
+import { getUserById } from '../services/dbService'
+import { getSessionToken, requireRole } from '../middleware/auth'
+import { ChangePasswordInput, CreateAccountInput, UpdateAccountInput } from '../models/auth'
+import { sanitizeString } from '../utils/sanitization'
+import {
+	validateCredentials,
+	validatePassword,
+	validateAccountRole,
+	validateAccountUserIds,
+} from '../utils/validation'
+import { logger } from '../utils/logger'
+
+const router = express.Router()
+
+// Validate the role and user IDs of an account create or update request.
+// Returns an error message if any field is invalid.
+const validateAccess = (role: unknown, userIds: unknown): string | null => {
+	const roleValidation = validateAccountRole(role)
+	if (!roleValidation.valid) {
+		return roleValidation.error!
+	}
+	const userIdsValidation = validateAccountUserIds(userIds)
+	if (!userIdsValidation.valid) {
+		return userIdsValidation.error!
+	}
+	const unknownUserId = (userIds as number[] | undefined)?.find(id => !getUserById(id))
+	if (unknownUserId !== undefined) {
+		return `User with ID ${unknownUserId} not found`
+	}
+	return null
+}
+
+// GET /api/accounts - List login accounts
+router.get('/', requireRole('admin'), (req, res) => {
+	try {
+		res.json(getAllAccounts())
+	} catch (error) {
+		logger.error('Error fetching accounts:', error)
+		res.status(500).json({ error: 'Failed to fetch accounts' })
+	}
+})
+
+// POST /api/accounts - Create a login account (new accounts are viewers unless a role is given)
+router.post('/', requireRole('admin'), async (req, res) => {
+	try {
+		const { username, password, role, user_ids } = req.body as CreateAccountInput
+		const validation = validateCredentials(username, password)
+		if (!validation.valid) {
+			return res.status(400).json({ error: validation.error })
+		}
+		const accessError = validateAccess(role, user_ids)
+		if (accessError) {
+			return res.status(400).json({ error: accessError })
+		}
+
+		const sanitizedUsername = sanitizeString(username)
+		if (accountExists(sanitizedUsername)) {
+			return res.status(409).json({ error: 'An account with this username already exists' })
+		}
+
+		const account = await createAccount(sanitizedUsername, password, role ?? 'viewer', user_ids ?? [])
+		res.status(201).json(account)
+	} catch (error) {
+		logger.error('Error creating account:', error)
+		res.status(500).json({ error: 'Failed to create account' })
+	}
+})
+
+// PUT /api/accounts/me/password - Change the logged-in account's password
+router.put('/me/password', async (req, res) => {
+	try {
+		if (!req.account) {
+			return res.status(400).json({ error: 'Not logged in' })
+		}
+
+		const { current_password, new_password } = req.body as ChangePasswordInput
+		if (!current_password || typeof current_password !== 'string') {
+			return res.status(400).json({ error: 'Current password is required' })
+		}
+		const validation = validatePassword(new_password)
+		if (!validation.valid) {
+			return res.status(400).json({ error: validation.error })
+		}
+
+		const changed = await changePassword(req.account.id, current_password, new_password, getSessionToken(req))
+		if (!changed) {
+			return res.status(400).json({ error: 'Current password is incorrect' })
+		}
+		res.status(204).send()
+	} catch (error) {
+		logger.error('Error changing password:', error)
+		res.status(500).json({ error: 'Failed to change password' })
+	}
+})
+
+// PUT /api/accounts/:id - Update an account's role and the users it can access
+router.put('/:id', requireRole('admin'), (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid account ID: must be a number' })
+		}
+
+		const { role, user_ids } = req.body as UpdateAccountInput
+		const accessError = validateAccess(role, user_ids)
+		if (accessError) {
+			return res.status(400).json({ error: accessError })
+		}
+		// Keeps at least one admin, since admins can't delete themselves either
+		if (req.account?.id === id && role !== undefined && role !== req.account.role) {
+			return res.status(400).json({ error: 'You cannot change the role of the account you are logged in with' })
+		}
+
+		const account = updateAccount(id, { role, user_ids })
+		if (!account) {
+			return res.status(404).json({ error: 'Account not found' })
+		}
+		res.json(account)
+	} catch (error) {
+		logger.error('Error updating account:', error)
+		res.status(500).json({ error: 'Failed to update account' })
+	}
+})
+
+// DELETE /api/accounts/:id - Delete a login account
+router.delete('/:id', requireRole('admin'), (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid account ID: must be a number' })
+		}
+		if (req.account?.id === id) {
+			return res.status(400).json({ error: 'You cannot delete the account you are logged in with' })
+		}
+		if (getAccountCount() <= 1) {
+			return res.status(400).json({ error: 'Cannot delete the last account' })
+		}
+
+		if (!deleteAccount(id)) {
+			return res.status(404).json({ error: 'Account not found' })
+		}
+		res.status(204).send()
+	} catch (error) {
+		logger.error('Error deleting account:', error)
+		res.status(500).json({ error: 'Failed to delete account' })
+	}
+})
+
+export default router
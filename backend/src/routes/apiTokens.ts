@@ -0,0 +1,66 @@
+import express from 'express'
+import { getApiTokens, createApiToken, deleteApiToken } from '../services/authService'
+import { CreateApiTokenInput } from '../models/auth'
+import { sanitizeString } from '../utils/sanitization'
+import { validateApiTokenName, validateApiTokenScope } from '../utils/validation'
+import { logger } from '../utils/logger'
+
+const router = express.Router()
+
+// Tokens belong to the logged-in account, so they can only be managed with a login session
+router.use((req, res, next) => {
+	if (!req.account) {
+		return res.status(400).json({ error: 'Not logged in' })
+	}
+	next()
+})
+
+// GET /api/tokens - List the logged-in account's API tokens
+router.get('/', (req, res) => {
+	try {
+		res.json(getApiTokens(req.account!.id))
+	} catch (error) {
+		logger.error('Error fetching API tokens:', error)
+		res.status(500).json({ error: 'Failed to fetch API tokens' })
+	}
+})
+
+// POST /api/tokens - Create an API token (the token itself is only returned in this response)
+router.post('/', (req, res) => {
+	try {
+		const { name, scope } = req.body as CreateApiTokenInput
+		const nameValidation = validateApiTokenName(name)
+		if (!nameValidation.valid) {
+			return res.status(400).json({ error: nameValidation.error })
+		}
+		const scopeValidation = validateApiTokenScope(scope)
+		if (!scopeValidation.valid) {
+			return res.status(400).json({ error: scopeValidation.error })
+		}
+
+		res.status(201).json(createApiToken(req.account!.id, sanitizeString(name), scope))
+	} catch (error) {
+		logger.error('Error creating API token:', error)
+		res.status(500).json({ error: 'Failed to create API token' })
+	}
+})
+
+// DELETE /api/tokens/:id - Revoke an API token
+router.delete('/:id', (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid token ID: must be a number' })
+		}
+
+		if (!deleteApiToken(req.account!.id, id)) {
+			return res.status(404).json({ error: 'API token not found' })
+		}
+		res.status(204).send()
+	} catch (error) {
+		logger.error('Error deleting API token:', error)
+		res.status(500).json({ error: 'Failed to delete API token' })
+	}
+})
+
+export default router
@@ -0,0 +1,124 @@
+import express from 'express'
+import {
+	SESSION_COOKIE_NAME,
+	isAuthEnabled,
+	getAccountCount,
+	createFirstAccount,
+	authenticate,
+	createSession,
+	getSessionAccount,
+	deleteSession,
+} from '../services/authService'
+import { getSessionToken } from '../middleware/auth'
+import { AuthStatus, CreateAccountInput } from '../models/auth'
+import { sanitizeString } from '../utils/sanitization'
+import { validateCredentials } from '../utils/validation'
+import { logger } from '../utils/logger'
+
+const router = express.Router()
+
+/**
+ * Set the session cookie for a newly created session
+ */
+function setSessionCookie(req: express.Request, res: express.Response, token: string, expiresAt: Date): void {
+	res.cookie(SESSION_COOKIE_NAME, token, {
+		httpOnly: true,
+		sameSite: 'lax',
+		secure: req.secure,
+		expires: expiresAt,
+		path: '/',
+	})
+}
+
+// GET /api/auth/status - Whether auth is enabled and who is logged in
+router.get('/status', (req, res) => {
+	try {
+		const enabled = isAuthEnabled()
+		const token = getSessionToken(req)
+		const account = enabled && token ? getSessionAccount(token) : null
+		const status: AuthStatus = {
+			enabled,
+			authenticated: !enabled || account !== null,
+			needs_setup: enabled && getAccountCount() === 0,
+			account,
+		}
+		res.json(status)
+	} catch (error) {
+		logger.error('Error fetching auth status:', error)
+		res.status(500).json({ error: 'Failed to fetch auth status' })
+	}
+})
+
+// POST /api/auth/setup - Create the first account and log in (only while no accounts exist)
+router.post('/setup', async (req, res) => {
+	try {
+		if (!isAuthEnabled()) {
+			return res.status(400).json({ error: 'Authentication is not enabled' })
+		}
+		if (getAccountCount() > 0) {
+			return res.status(409).json({ error: 'Setup has already been completed' })
+		}
+
+		const { username, password } = req.body as CreateAccountInput
+		const validation = validateCredentials(username, password)
+		if (!validation.valid) {
+			return res.status(400).json({ error: validation.error })
+		}
+
+		const account = await createFirstAccount(sanitizeString(username), password)
+		if (!account) {
+			return res.status(409).json({ error: 'Setup has already been completed' })
+		}
+		const { token, expiresAt } = createSession(account.id)
+		setSessionCookie(req, res, token, expiresAt)
+		logger.debug(`Created initial account ${account.username}`)
+		res.status(201).json(account)
+	} catch (error) {
+		logger.error('Error completing auth setup:', error)
+		res.status(500).json({ error: 'Failed to create account' })
+	}
+})
+
+// POST /api/auth/login - Log in with username and password
+router.post('/login', async (req, res) => {
+	try {
+		if (!isAuthEnabled()) {
+			return res.status(400).json({ error: 'Authentication is not enabled' })
+		}
+
+		const { username, password } = req.body as CreateAccountInput
+		if (!username || typeof username !== 'string' || !password || typeof password !== 'string') {
+			return res.status(400).json({ error: 'Username and password are required' })
+		}
+
+		const account = await authenticate(username.trim(), password)
+		if (!account) {
+			logger.warn(`Failed login attempt for ${username.trim()}`)
+			return res.status(401).json({ error: 'Invalid username or password' })
+		}
+
+		const { token, expiresAt } = createSession(account.id)
+		setSessionCookie(req, res, token, expiresAt)
+		res.json(account)
+	} catch (error) {
+		logger.error('Error logging in:', error)
+		res.status(500).json({ error: 'Failed to log in' })
+	}
+})
+
+// POST /api/auth/logout - End the current session
+router.post('/logout', (req, res) => {
+	try {
+		const token = getSessionToken(req)
+		if (token) {
+			deleteSession(token)
+		}
+		res.clearCookie(SESSION_COOKIE_NAME, { path: '/' })
+		res.status(204).send()
+	} catch (error) {
+		logger.error('Error logging out:', error)
+		res.status(500).json({ error: 'Failed to log out' })
+	}
+})
+
+export default router
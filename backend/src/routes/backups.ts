@@ -0,0 +1,122 @@
+import express from 'express'
+import multer from 'multer'
+import {
+	BackupValidationError,
+	deleteBackup,
+	getBackupDir,
+	getBackupIntervalHours,
+	getBackupKeep,
+	getBackupPath,
+	importBackupArchive,
+	isBackupName,
+	listBackups,
+	validateBackup,
+} from '../services/backupService'
+import { enqueueJob } from '../services/jobService'
+import { logger } from '../utils/logger'
+
+const router = express.Router()
+
+// Backups hold the whole library, so uploads aren't size-limited like receipt files
+const uploadDir = process.env.UPLOAD_DIR || (process.env.NODE_ENV === 'production' ? '/data/uploads' : '/tmp/medstash-uploads')
+const upload = multer({ dest: uploadDir })
+
+// GET /api/backups - List backup archives with the backup schedule
+router.get('/', async (req, res) => {
+	try {
+		res.json({
+			directory: getBackupDir(),
+			interval_hours: getBackupIntervalHours(),
+			keep: getBackupKeep(),
+			backups: await listBackups(),
+		})
+	} catch (error) {
+		logger.error('Error listing backups:', error)
+		res.status(500).json({ error: 'Failed to list backups' })
+	}
+})
+
+// POST /api/backups - Queue a job that creates a backup
+router.post('/', (req, res) => {
+	try {
+		const job = enqueueJob('create-backup', { kind: 'manual' }, req.account?.id)
+		res.status(202).json(job)
+	} catch (error) {
+		logger.error('Error queueing backup:', error)
+		res.status(500).json({ error: 'Failed to start backup' })
+	}
+})
+
+// POST /api/backups/upload - Store an uploaded backup archive so it can be restored
+router.post('/upload', upload.single('archive'), async (req, res) => {
+	try {
+		if (!req.file) {
+			return res.status(400).json({ error: 'No backup archive uploaded' })
+		}
+		res.status(201).json(await importBackupArchive(req.file.path))
+	} catch (error) {
+		if (error instanceof BackupValidationError) {
+			return res.status(400).json({ error: error.message })
+		}
+		logger.error('Error uploading backup:', error)
+		res.status(500).json({ error: 'Failed to upload backup' })
+	}
+})
+
+// GET /api/backups/:name/download - Download a backup archive
+router.get('/:name/download', async (req, res) => {
+	try {
+		if (!isBackupName(req.params.name)) {
+			return res.status(400).json({ error: 'Invalid backup name' })
+		}
+		const backupPath = await getBackupPath(req.params.name)
+		if (!backupPath) {
+			return res.status(404).json({ error: 'Backup not found' })
+		}
+		res.download(backupPath, req.params.name)
+	} catch (error) {
+		logger.error('Error downloading backup:', error)
+		res.status(500).json({ error: 'Failed to download backup' })
+	}
+})
+
+// POST /api/backups/:name/restore - Check a backup and queue a job that restores it
+router.post('/:name/restore', async (req, res) => {
+	try {
+		if (!isBackupName(req.params.name)) {
+			return res.status(400).json({ error: 'Invalid backup name' })
+		}
+		const backupPath = await getBackupPath(req.params.name)
+		if (!backupPath) {
+			return res.status(404).json({ error: 'Backup not found' })
+		}
+
+		await validateBackup(backupPath)
+		const job = enqueueJob('restore-backup', { name: req.params.name }, req.account?.id)
+		res.status(202).json(job)
+	} catch (error) {
+		if (error instanceof BackupValidationError) {
+			return res.status(400).json({ error: error.message })
+		}
+		logger.error('Error queueing restore:', error)
+		res.status(500).json({ error: 'Failed to start restore' })
+	}
+})
+
+// DELETE /api/backups/:name - Delete a backup archive
+router.delete('/:name', async (req, res) => {
+	try {
+		if (!isBackupName(req.params.name)) {
+			return res.status(400).json({ error: 'Invalid backup name' })
+		}
+		if (!(await deleteBackup(req.params.name))) {
+			return res.status(404).json({ error: 'Backup not found' })
+		}
+		res.status(204).send()
+	} catch (error) {
+		logger.error('Error deleting backup:', error)
+		res.status(500).json({ error: 'Failed to delete backup' })
+	}
+})
+
+export default router
@@ -0,0 +1,57 @@
+import express from 'express'
+import { dismissDuplicate, findPossibleDuplicates } from '../services/duplicateService'
+import { getReceiptById } from '../services/dbService'
+import { getUserScope } from '../services/authService'
+import { enqueueJob } from '../services/jobService'
+import { requireRole } from '../middleware/auth'
+import { logger } from '../utils/logger'
+
+const router = express.Router()
+
+// GET /api/duplicates - List pairs of receipts that are likely duplicates, newest first
+router.get('/', (req, res) => {
+	try {
+		res.json(findPossibleDuplicates(getUserScope(req.account)))
+	} catch (error) {
+		logger.error('Error finding duplicate receipts:', error)
+		res.status(500).json({ error: 'Failed to find duplicate receipts' })
+	}
+})
+
+// POST /api/duplicates/dismiss - Mark two receipts as not being duplicates
+router.post('/dismiss', (req, res) => {
+	try {
+		const { receipt_ids } = req.body
+		if (
+			!Array.isArray(receipt_ids) ||
+			receipt_ids.length !== 2 ||
+			!receipt_ids.every(id => Number.isInteger(id)) ||
+			receipt_ids[0] === receipt_ids[1]
+		) {
+			return res.status(400).json({ error: 'receipt_ids must be two different receipt IDs' })
+		}
+		const scope = getUserScope(req.account)
+		if (!receipt_ids.every(id => getReceiptById(id, scope))) {
+			return res.status(404).json({ error: 'Receipt not found' })
+		}
+
+		dismissDuplicate(receipt_ids[0], receipt_ids[1])
+		res.status(204).send()
+	} catch (error) {
+		logger.error('Error dismissing duplicate:', error)
+		res.status(500).json({ error: 'Failed to dismiss duplicate' })
+	}
+})
+
+// POST /api/duplicates/scan - Queue a job that fingerprints files stored before duplicate detection existed
+router.post('/scan', requireRole('admin'), (req, res) => {
+	try {
+		const job = enqueueJob('hash-files', {}, req.account?.id)
+		res.status(202).json(job)
+	} catch (error) {
+		logger.error('Error queueing file fingerprinting:', error)
+		res.status(500).json({ error: 'Failed to start duplicate scan' })
+	}
+})
+
+export default router
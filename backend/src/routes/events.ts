@@ -0,0 +1,55 @@
+import express from 'express'
+import { subscribeToEvents } from '../services/eventService'
+import { getUserScope } from '../services/authService'
+import { PublicAccount } from '../models/auth'
+import { ReceiptEventData, ServerEvent } from '../models/event'
+
+const router = express.Router()
+
+// Comment lines sent while idle so proxies don't close the connection
+const HEARTBEAT_INTERVAL_MS = 30000
+
+// How long browsers wait before reconnecting after the stream drops
+const RECONNECT_DELAY_MS = 5000
+
+/**
+ * Check if an account may receive an event
+ * Receipt events are limited to the account's users and job events to admins
+ */
+function canReceiveEvent(event: ServerEvent, account?: PublicAccount): boolean {
+	if (event.type.startsWith('receipt.')) {
+		const userIds = getUserScope(account)
+		const { user_id, previous_user_id } = event.data as ReceiptEventData
+		return !userIds || userIds.includes(user_id) || (previous_user_id !== undefined && userIds.includes(previous_user_id))
+	}
+	if (event.type === 'job.updated') {
+		return !account || account.role === 'admin'
+	}
+	return true
+}
+
+// GET /api/events - Stream receipt, watch folder and job changes as server-sent events
+router.get('/', (req, res) => {
+	res.set({
+		'Content-Type': 'text/event-stream',
+		'Cache-Control': 'no-cache',
+		Connection: 'keep-alive',
+		'X-Accel-Buffering': 'no', // Stop nginx from buffering the stream
+	})
+	res.flushHeaders()
+	res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+	const unsubscribe = subscribeToEvents(event => {
+		if (canReceiveEvent(event, req.account)) {
+			res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`)
+		}
+	})
+	const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+
+	req.on('close', () => {
+		clearInterval(heartbeat)
+		unsubscribe()
+	})
+})
+
+export default router
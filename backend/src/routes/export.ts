@@ -1,20 +1,35 @@
 import express from 'express';
 import archiver from 'archiver';
-import { getAllReceipts } from '../services/dbService';
-import { getReceiptFilePath } from '../services/fileService';
-import fs from 'fs';
-import path from 'path';
+import { queryReceipts } from '../services/dbService';
+import { appendReceipt, buildExportManifest, MANIFEST_ENTRY } from '../services/exportService';
+import { getUserScope } from '../services/authService';
+import { ExportLayout } from '../models/export';
+import { parseReceiptQuery } from '../utils/receiptQuery';
+import { validateExportLayout } from '../utils/validation';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
 
-// GET /api/export - Generate zip archive of all receipts
+// GET /api/export - Generate zip archive of the receipts the logged-in account can access
+// Accepts the same filters as GET /api/receipts (e.g. user_id, year, group_id, flag_ids, reimbursement_status, ids)
+// and a layout: receipt (default), user-year or flat
 router.get('/', async (req, res) => {
   try {
-    const receipts = getAllReceipts();
+    const { query, error } = parseReceiptQuery(req.query);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const layoutValidation = validateExportLayout(req.query.layout);
+    if (!layoutValidation.valid) {
+      return res.status(400).json({ error: layoutValidation.error });
+    }
+    const layout = (req.query.layout || 'receipt') as ExportLayout;
+    query.user_ids = getUserScope(req.account);
+    const { receipts } = queryReceipts(query);
 
     // Set headers for zip download
-    res.attachment('medstash-export.zip');
+    const year = typeof req.query.year === 'string' && req.query.year ? `-${req.query.year}` : '';
+    res.attachment(`medstash-export${year}.zip`);
     res.contentType('application/zip');
 
     const archive = archiver('zip', {
@@ -31,39 +46,15 @@ router.get('/', async (req, res) => {
     // Pipe archive to response
     archive.pipe(res);
 
-    // Add each receipt's files to the archive
-    for (const receipt of receipts) {
-      const receiptDir = `receipt-${receipt.id}`;
-
-      // Add metadata file for each receipt
-      const metadata = {
-        id: receipt.id,
-        user: receipt.user,
-        type: receipt.type,
-        amount: receipt.amount,
-        vendor: receipt.vendor,
-        provider_address: receipt.provider_address,
-        description: receipt.description,
-        date: receipt.date,
-        notes: receipt.notes,
-        flags: receipt.flags.map((f) => f.name),
-        created_at: receipt.created_at,
-        updated_at: receipt.updated_at,
-      };
-
-      archive.append(JSON.stringify(metadata, null, 2), {
-        name: path.join(receiptDir, 'metadata.json'),
-      });
+    // The manifest lets the archive be imported into another instance
+    archive.append(JSON.stringify(buildExportManifest(receipts.length, getUserScope(req.account)), null, 2), {
+      name: MANIFEST_ENTRY,
+    });
 
-      // Add all files for this receipt
-      for (const file of receipt.files) {
-        const filePath = getReceiptFilePath(receipt.id, file.filename);
-        if (fs.existsSync(filePath)) {
-          archive.file(filePath, {
-            name: path.join(receiptDir, file.original_filename),
-          });
-        }
-      }
+    // Add each receipt's metadata and files to the archive
+    const usedNames = new Set<string>([MANIFEST_ENTRY]);
+    for (const receipt of receipts) {
+      await appendReceipt(archive, receipt, layout, usedNames);
     }
 
     // Finalize the archive
@@ -1,28 +1,18 @@
 import express from 'express';
-import { renameAllReceiptFiles } from '../services/fileService';
+import { enqueueJob } from '../services/jobService';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
 
-// POST /api/filenames/rename-all - Rename all receipt files to match current pattern
-router.post('/rename-all', async (req, res) => {
+// POST /api/filenames/rename-all - Queue a job that renames all receipt files to match current pattern
+router.post('/rename-all', (req, res) => {
   try {
-    const results = await renameAllReceiptFiles();
-    res.json({
-      success: true,
-      ...results,
-    });
+    const job = enqueueJob('rename-files', {}, req.account?.id);
+    res.status(202).json(job);
   } catch (error) {
-    logger.error('Error renaming all files:', error);
-    const isProduction = process.env.NODE_ENV === 'production';
-    res.status(500).json({
-      error: 'Failed to rename all files',
-      // Only expose error details in development for debugging
-      ...(isProduction ? {} : { details: error instanceof Error ? error.message : 'Unknown error' })
-    });
+    logger.error('Error queueing file rename:', error);
+    res.status(500).json({ error: 'Failed to start renaming files' });
   }
 });
 
 export default router;
-
-
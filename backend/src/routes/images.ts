@@ -1,68 +1,45 @@
 import express from 'express'
-import { optimizeExistingImages, reoptimizeAllImages } from '../services/fileService'
+import { enqueueJob } from '../services/jobService'
 import { logger } from '../utils/logger'
 
 const router = express.Router()
 
+// Read the optional batching options of an optimization request
+function getOptimizeOptions(body: any): { batchSize?: number; maxConcurrent?: number } {
+	const { batchSize, maxConcurrent } = body
+	return {
+		batchSize: batchSize && typeof batchSize === 'number' ? batchSize : undefined,
+		maxConcurrent: maxConcurrent && typeof maxConcurrent === 'number' ? maxConcurrent : undefined,
+	}
+}
+
 /**
  * POST /api/images/optimize
- * Optimize all unoptimized images in the database
- * Returns statistics about the optimization process
+ * Queue a job that optimizes all unoptimized images in the database
+ * Returns the job; its result holds statistics about the optimization process
  */
-router.post('/optimize', async (req: express.Request, res: express.Response) => {
+router.post('/optimize', (req: express.Request, res: express.Response) => {
 	try {
-		const { batchSize, maxConcurrent } = req.body
-
-		const options = {
-			batchSize: batchSize && typeof batchSize === 'number' ? batchSize : undefined,
-			maxConcurrent: maxConcurrent && typeof maxConcurrent === 'number' ? maxConcurrent : undefined,
-		}
-
-		logger.debug('Starting batch image optimization...')
-		const results = await optimizeExistingImages(options)
-
-		res.json({
-			success: true,
-			...results,
-		})
+		const job = enqueueJob('optimize-images', getOptimizeOptions(req.body), req.account?.id)
+		res.status(202).json(job)
 	} catch (error: any) {
-		logger.error('Error optimizing images:', error)
-		res.status(500).json({
-			success: false,
-			error: 'Failed to optimize images',
-			message: error.message || 'Unknown error',
-		})
+		logger.error('Error queueing image optimization:', error)
+		res.status(500).json({ error: 'Failed to start image optimization' })
 	}
 })
 
 /**
  * POST /api/images/reoptimize
- * Re-optimize all images in the database (including already optimized ones)
- * Returns statistics about the optimization process
+ * Queue a job that re-optimizes all images in the database (including already optimized ones)
+ * Returns the job; its result holds statistics about the optimization process
  */
-router.post('/reoptimize', async (req: express.Request, res: express.Response) => {
+router.post('/reoptimize', (req: express.Request, res: express.Response) => {
 	try {
-		const { batchSize, maxConcurrent } = req.body
-
-		const options = {
-			batchSize: batchSize && typeof batchSize === 'number' ? batchSize : undefined,
-			maxConcurrent: maxConcurrent && typeof maxConcurrent === 'number' ? maxConcurrent : undefined,
-		}
-
-		logger.debug('Starting re-optimization of all images...')
-		const results = await reoptimizeAllImages(options)
-
-		res.json({
-			success: true,
-			...results,
-		})
+		const job = enqueueJob('reoptimize-images', getOptimizeOptions(req.body), req.account?.id)
+		res.status(202).json(job)
 	} catch (error: any) {
-		logger.error('Error re-optimizing images:', error)
-		res.status(500).json({
-			success: false,
-			error: 'Failed to re-optimize images',
-			message: error.message || 'Unknown error',
-		})
+		logger.error('Error queueing image re-optimization:', error)
+		res.status(500).json({ error: 'Failed to start image re-optimization' })
 	}
 })
 
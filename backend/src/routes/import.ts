@@ -0,0 +1,44 @@
+import express from 'express'
+import multer from 'multer'
+import fs from 'fs/promises'
+import { ImportValidationError, validateImportArchive } from '../services/importService'
+import { enqueueJob } from '../services/jobService'
+import { validateImportConflictMode } from '../utils/validation'
+import { logger } from '../utils/logger'
+
+const router = express.Router()
+
+// Exports hold every receipt file, so uploads aren't size-limited like receipt files
+const uploadDir = process.env.UPLOAD_DIR || (process.env.NODE_ENV === 'production' ? '/data/uploads' : '/tmp/medstash-uploads')
+const upload = multer({ dest: uploadDir })
+
+// POST /api/import - Check an archive from GET /api/export and queue a job that imports it
+// conflict decides what happens to receipts that are already stored: skip (default), merge or overwrite
+router.post('/', upload.single('archive'), async (req, res) => {
+	try {
+		if (!req.file) {
+			return res.status(400).json({ error: 'No export archive uploaded' })
+		}
+
+		const conflictValidation = validateImportConflictMode(req.body.conflict)
+		if (!conflictValidation.valid) {
+			await fs.rm(req.file.path, { force: true })
+			return res.status(400).json({ error: conflictValidation.error })
+		}
+
+		await validateImportArchive(req.file.path)
+		const job = enqueueJob('import-receipts', { path: req.file.path, conflict: req.body.conflict || 'skip' }, req.account?.id)
+		res.status(202).json(job)
+	} catch (error) {
+		if (req.file) {
+			await fs.rm(req.file.path, { force: true })
+		}
+		if (error instanceof ImportValidationError) {
+			return res.status(400).json({ error: error.message })
+		}
+		logger.error('Error queueing import:', error)
+		res.status(500).json({ error: 'Failed to start import' })
+	}
+})
+
+export default router
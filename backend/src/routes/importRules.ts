@@ -0,0 +1,120 @@
+import express from 'express'
+import {
+	getAllImportRules,
+	getImportRuleById,
+	createImportRule,
+	updateImportRule,
+	deleteImportRule,
+} from '../services/importRuleService'
+import { getFlagById, getReceiptTypeById, getUserById } from '../services/dbService'
+import { requireRole } from '../middleware/auth'
+import { ImportRuleInput } from '../models/importRule'
+import { sanitizeString } from '../utils/sanitization'
+import { validateImportRule } from '../utils/validation'
+import { logger } from '../utils/logger'
+
+const router = express.Router()
+
+// Validate a complete import rule and check that the user, type and flags it assigns exist.
+// Returns an error message if the rule is invalid.
+const validateRule = (rule: Partial<ImportRuleInput>): string | null => {
+	const validation = validateImportRule(rule as Record<string, unknown>)
+	if (!validation.valid) {
+		return validation.error!
+	}
+	if (rule.user_id != null && !getUserById(rule.user_id)) {
+		return `User with ID ${rule.user_id} not found`
+	}
+	if (rule.receipt_type_id != null && !getReceiptTypeById(rule.receipt_type_id)) {
+		return `Receipt type with ID ${rule.receipt_type_id} not found`
+	}
+	const unknownFlagId = rule.flag_ids?.find(id => !getFlagById(id))
+	if (unknownFlagId !== undefined) {
+		return `Flag with ID ${unknownFlagId} not found`
+	}
+	const assignsSomething =
+		rule.user_id != null || rule.receipt_type_id != null || !!rule.vendor || !!rule.flag_ids?.length || !!rule.date_from_filename
+	if (!assignsSomething) {
+		return 'Rule must assign a user, receipt type, vendor, flags or the date from the filename'
+	}
+	return null
+}
+
+// Trim free-text fields of a create or update request
+const sanitizeRule = (body: Partial<ImportRuleInput>): Partial<ImportRuleInput> => ({
+	...body,
+	...(typeof body.name === 'string' ? { name: sanitizeString(body.name) } : {}),
+	...(typeof body.pattern === 'string' ? { pattern: body.pattern.trim() } : {}),
+	...(typeof body.vendor === 'string' ? { vendor: sanitizeString(body.vendor) } : {}),
+})
+
+// GET /api/import-rules - List watch folder import rules in the order they are applied
+router.get('/', requireRole('admin'), (req, res) => {
+	try {
+		res.json(getAllImportRules())
+	} catch (error) {
+		logger.error('Error fetching import rules:', error)
+		res.status(500).json({ error: 'Failed to fetch import rules' })
+	}
+})
+
+// POST /api/import-rules - Create an import rule
+router.post('/', (req, res) => {
+	try {
+		const rule = sanitizeRule(req.body as ImportRuleInput)
+		const error = validateRule(rule)
+		if (error) {
+			return res.status(400).json({ error })
+		}
+
+		res.status(201).json(createImportRule(rule as ImportRuleInput))
+	} catch (error) {
+		logger.error('Error creating import rule:', error)
+		res.status(500).json({ error: 'Failed to create import rule' })
+	}
+})
+
+// PUT /api/import-rules/:id - Update an import rule
+router.put('/:id', (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid import rule ID: must be a number' })
+		}
+		const existing = getImportRuleById(id)
+		if (!existing) {
+			return res.status(404).json({ error: 'Import rule not found' })
+		}
+
+		const changes = sanitizeRule(req.body as Partial<ImportRuleInput>)
+		const error = validateRule({ ...existing, ...changes })
+		if (error) {
+			return res.status(400).json({ error })
+		}
+
+		res.json(updateImportRule(id, changes))
+	} catch (error) {
+		logger.error('Error updating import rule:', error)
+		res.status(500).json({ error: 'Failed to update import rule' })
+	}
+})
+
+// DELETE /api/import-rules/:id - Delete an import rule
+router.delete('/:id', (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid import rule ID: must be a number' })
+		}
+
+		if (!deleteImportRule(id)) {
+			return res.status(404).json({ error: 'Import rule not found' })
+		}
+		res.status(204).send()
+	} catch (error) {
+		logger.error('Error deleting import rule:', error)
+		res.status(500).json({ error: 'Failed to delete import rule' })
+	}
+})
+
+export default router
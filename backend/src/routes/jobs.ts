@@ -0,0 +1,55 @@
+import express from 'express'
+import { getJobById, getRecentJobs, cancelJob } from '../services/jobService'
+import { logger } from '../utils/logger'
+
+const router = express.Router()
+
+// GET /api/jobs - List recent background jobs, newest first
+router.get('/', (req, res) => {
+	try {
+		res.json(getRecentJobs())
+	} catch (error) {
+		logger.error('Error fetching jobs:', error)
+		res.status(500).json({ error: 'Failed to fetch jobs' })
+	}
+})
+
+// GET /api/jobs/:id - Get a job's status, progress and result
+router.get('/:id', (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid job ID: must be a number' })
+		}
+
+		const job = getJobById(id)
+		if (!job) {
+			return res.status(404).json({ error: 'Job not found' })
+		}
+		res.json(job)
+	} catch (error) {
+		logger.error('Error fetching job:', error)
+		res.status(500).json({ error: 'Failed to fetch job' })
+	}
+})
+
+// POST /api/jobs/:id/cancel - Cancel a queued or running job
+router.post('/:id/cancel', (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid job ID: must be a number' })
+		}
+
+		const job = cancelJob(id)
+		if (!job) {
+			return res.status(404).json({ error: 'Job not found' })
+		}
+		res.json(job)
+	} catch (error) {
+		logger.error('Error cancelling job:', error)
+		res.status(500).json({ error: 'Failed to cancel job' })
+	}
+})
+
+export default router
@@ -1,11 +1,15 @@
 import express from 'express';
 import {
   getAllReceiptTypeGroups,
+  getReceiptTypeGroupById,
+  getReceiptTypesByGroupId,
   createReceiptTypeGroup,
   updateReceiptTypeGroup,
   deleteReceiptTypeGroup,
 } from '../services/dbService';
 import { CreateReceiptTypeGroupInput, UpdateReceiptTypeGroupInput } from '../models/receipt';
+import { enqueueJobOnce } from '../services/jobService';
+import { directoryPatternUses } from '../utils/filename';
 import { sanitizeString } from '../utils/sanitization';
 import { logger } from '../utils/logger';
 
@@ -70,11 +74,17 @@ router.put('/:id', (req, res) => {
       return res.status(400).json({ error: 'Receipt type group name cannot be empty after sanitization' });
     }
 
+    const previous = getReceiptTypeGroupById(id);
     const group = updateReceiptTypeGroup(id, sanitizedName, display_order);
-    if (!group) {
+    if (!previous || !group) {
       return res.status(404).json({ error: 'Receipt type group not found' });
     }
 
+    // Stored files follow the group to its new folders when the directory layout uses it
+    if (group.name !== previous.name && directoryPatternUses('type-group')) {
+      enqueueJobOnce('migrate-files', {}, req.account?.id);
+    }
+
     res.json(group);
   } catch (error) {
     logger.error('Error updating receipt type group:', error);
@@ -89,11 +99,17 @@ router.delete('/:id', (req, res) => {
     if (isNaN(id)) {
       return res.status(400).json({ error: 'Invalid receipt type group ID: must be a number' });
     }
+    const ungroupedTypes = getReceiptTypesByGroupId(id);
     const deleted = deleteReceiptTypeGroup(id);
     if (!deleted) {
       return res.status(404).json({ error: 'Receipt type group not found' });
     }
 
+    // The group's types move to the "ungrouped" folders
+    if (ungroupedTypes.length > 0 && directoryPatternUses('type-group')) {
+      enqueueJobOnce('migrate-files', {}, req.account?.id);
+    }
+
     res.status(204).send();
   } catch (error) {
     logger.error('Error deleting receipt type group:', error);
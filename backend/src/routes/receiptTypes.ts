@@ -1,13 +1,17 @@
 import express from 'express'
 import {
 	getAllReceiptTypes,
+	getReceiptTypeById,
 	createReceiptType,
 	updateReceiptType,
-	deleteReceiptType,
 	bulkUpdateReceiptTypes,
 	resetReceiptTypesToDefaults,
 } from '../services/dbService'
+import { deleteReceiptTypeWithReassignment, getReceiptTypeUsage, ReassignmentError } from '../services/reassignService'
+import { getRequestHistory } from '../services/historyService'
+import { enqueueJobOnce } from '../services/jobService'
 import { CreateReceiptTypeInput, UpdateReceiptTypeInput } from '../models/receipt'
+import { directoryPatternUses } from '../utils/filename'
 import { sanitizeString } from '../utils/sanitization'
 import { logger } from '../utils/logger'
 
@@ -80,11 +84,20 @@ router.put('/:id', (req, res) => {
 			return res.status(400).json({ error: 'Receipt type name cannot be empty after sanitization' })
 		}
 
+		const previous = getReceiptTypeById(id)
 		const type = updateReceiptType(id, sanitizedName, group_id, display_order)
-		if (!type) {
+		if (!previous || !type) {
 			return res.status(404).json({ error: 'Receipt type not found' })
 		}
 
+		// Stored files follow the type to its new folders when the directory layout uses it
+		if (
+			(type.name !== previous.name && directoryPatternUses('type')) ||
+			(type.group_id !== previous.group_id && directoryPatternUses('type-group'))
+		) {
+			enqueueJobOnce('migrate-files', {}, req.account?.id)
+		}
+
 		res.json(type)
 	} catch (error) {
 		logger.error('Error updating receipt type:', error)
@@ -92,25 +105,55 @@ router.put('/:id', (req, res) => {
 	}
 })
 
-// DELETE /api/receipt-types/:id - Delete receipt type
-router.delete('/:id', (req, res) => {
+// GET /api/receipt-types/:id/usage - Count the receipts that would have to be moved before deleting a receipt type
+router.get('/:id/usage', (req, res) => {
 	try {
 		const id = parseInt(req.params.id, 10)
 		if (isNaN(id)) {
 			return res.status(400).json({ error: 'Invalid receipt type ID: must be a number' })
 		}
-		const deleted = deleteReceiptType(id)
-		if (!deleted) {
+		const usage = getReceiptTypeUsage(id)
+		if (!usage) {
 			return res.status(404).json({ error: 'Receipt type not found' })
 		}
 
+		res.json(usage)
+	} catch (error) {
+		logger.error('Error fetching receipt type usage:', error)
+		res.status(500).json({ error: 'Failed to fetch receipt type usage' })
+	}
+})
+
+// DELETE /api/receipt-types/:id?reassign_to= - Delete receipt type, moving its receipts to another type
+router.delete('/:id', async (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid receipt type ID: must be a number' })
+		}
+		const reassignTo = req.query.reassign_to !== undefined ? parseInt(String(req.query.reassign_to), 10) : undefined
+		if (reassignTo !== undefined && isNaN(reassignTo)) {
+			return res.status(400).json({ error: 'Invalid reassign_to: must be a receipt type ID' })
+		}
+
+		const usage = getReceiptTypeUsage(id)
+		if (!usage) {
+			return res.status(404).json({ error: 'Receipt type not found' })
+		}
+		if (reassignTo === undefined && usage.receipts + usage.trashed_receipts > 0) {
+			return res.status(409).json({
+				error: 'Receipt type is still in use; choose another type to move its receipts to',
+				usage,
+			})
+		}
+
+		await deleteReceiptTypeWithReassignment(id, reassignTo, getRequestHistory(req))
 		res.status(204).send()
-	} catch (error: any) {
-		logger.error('Error deleting receipt type:', error)
-		// Check if it's the only type remaining
-		if (error.message && error.message.includes('only type remaining')) {
+	} catch (error) {
+		if (error instanceof ReassignmentError) {
 			return res.status(400).json({ error: error.message })
 		}
+		logger.error('Error deleting receipt type:', error)
 		res.status(500).json({ error: 'Failed to delete receipt type' })
 	}
 })
@@ -141,7 +184,11 @@ router.post('/bulk-update', (req, res) => {
 			}
 		}
 
+		const previousGroups = new Map(getAllReceiptTypes().map(type => [type.id, type.group_id]))
 		const updatedTypes = bulkUpdateReceiptTypes(updates)
+		if (updatedTypes.some(type => type.group_id !== previousGroups.get(type.id)) && directoryPatternUses('type-group')) {
+			enqueueJobOnce('migrate-files', {}, req.account?.id)
+		}
 		res.json(updatedTypes)
 	} catch (error) {
 		logger.error('Error bulk updating receipt types:', error)
@@ -192,6 +239,9 @@ router.post('/reset-to-defaults', (req, res) => {
 		}
 
 		const result = resetReceiptTypesToDefaults(defaultGroups, ungroupedTypes)
+		if (directoryPatternUses('type') || directoryPatternUses('type-group')) {
+			enqueueJobOnce('migrate-files', {}, req.account?.id)
+		}
 		res.json(result)
 	} catch (error: any) {
 		logger.error('Error resetting receipt types to defaults:', error)
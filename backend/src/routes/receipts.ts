@@ -2,30 +2,59 @@ import express from 'express'
 import multer from 'multer'
 import path from 'path'
 import {
-	getAllReceipts,
+	queryReceipts,
 	getReceiptById,
 	createReceipt,
 	updateReceipt,
-	deleteReceipt,
 	addReceiptFile,
 	getSetting,
+	syncReceiptSearchIndex,
 } from '../services/dbService'
 import {
 	saveReceiptFile,
-	deleteReceiptFiles,
 	getReceiptFilePath,
 	fileExists,
 	deleteReceiptFile as deleteFile,
 	replaceReceiptFile,
-	migrateFilesToDateStructure,
 	markFileAsOptimized,
 	findReceiptFilePath,
+	isImageFile,
+	isPdfFile,
+	isThumbnailSize,
+	canGenerateThumbnail,
+	getReceiptFileThumbnail,
+	ThumbnailSize,
 } from '../services/fileService'
-import { CreateReceiptInput, UpdateReceiptInput } from '../models/receipt'
+import { extractReceiptText, extractTextFromFile, isOcrEnabled } from '../services/ocrService'
+import { enqueueJob } from '../services/jobService'
+import { computeFileHashes, findDuplicateFiles, setReceiptFileHashes } from '../services/duplicateService'
+import { publishReceiptEvent } from '../services/eventService'
+import {
+	CreateReceiptInput,
+	UpdateReceiptInput,
+	ReimbursementStatus,
+	ReceiptPage,
+	Receipt,
+} from '../models/receipt'
+import { DuplicateMatch, FileHashes } from '../models/duplicate'
 import { dbQueries } from '../db'
+import { getUserScope } from '../services/authService'
+import { getReceiptHistory, getRequestHistory, HistoryValidationError, recordReceiptHistory, revertReceiptField } from '../services/historyService'
+import { trashReceipt, trashReceiptFile } from '../services/trashService'
+import { requireRole } from '../middleware/auth'
 import fs from 'fs/promises'
-import { validateDate, validateAmount, validateVendor, validateDescription, validateProviderAddress } from '../utils/validation'
+import {
+	validateDate,
+	validateAmount,
+	validateVendor,
+	validateDescription,
+	validateProviderAddress,
+	validateReimbursementStatus,
+	validateReimbursementDetails,
+	validateHsaTransactionRef,
+} from '../utils/validation'
 import { sanitizeString, sanitizeOptionalString } from '../utils/sanitization'
+import { parseReceiptQuery } from '../utils/receiptQuery'
 import { logger } from '../utils/logger'
 
 const router = express.Router()
@@ -60,18 +89,31 @@ const upload = multer({
 	}
 })()
 
-// GET /api/receipts - List all receipts
+// GET /api/receipts - List receipts
+// Supports filtering, sorting and pagination. Without limit/offset the full list is returned as an array;
+// with them, a page object including the total number of matching receipts is returned.
 router.get('/', (req, res) => {
 	try {
-		let flagId: number | undefined
-		if (req.query.flag_id !== undefined && req.query.flag_id !== null && req.query.flag_id !== '') {
-			flagId = parseInt(req.query.flag_id as string, 10)
-			if (isNaN(flagId)) {
-				return res.status(400).json({ error: 'Invalid flag_id: must be a number' })
-			}
+		const { query, error } = parseReceiptQuery(req.query)
+		if (error) {
+			return res.status(400).json({ error })
 		}
-		const receipts = getAllReceipts(flagId)
-		res.json(receipts)
+		query.user_ids = getUserScope(req.account)
+
+		const { receipts, total } = queryReceipts(query)
+
+		if (query.limit === undefined) {
+			return res.json(receipts)
+		}
+
+		const page: ReceiptPage = {
+			receipts,
+			total,
+			limit: query.limit,
+			offset: query.offset ?? 0,
+			has_more: (query.offset ?? 0) + receipts.length < total,
+		}
+		res.json(page)
 	} catch (error) {
 		logger.error('Error fetching receipts:', error)
 		res.status(500).json({ error: 'Failed to fetch receipts' })
@@ -85,7 +127,7 @@ router.get('/:id', (req, res) => {
 		if (isNaN(id)) {
 			return res.status(400).json({ error: 'Invalid receipt ID: must be a number' })
 		}
-		const receipt = getReceiptById(id)
+		const receipt = getReceiptById(id, getUserScope(req.account))
 		if (!receipt) {
 			return res.status(404).json({ error: 'Receipt not found' })
 		}
@@ -96,6 +138,39 @@ router.get('/:id', (req, res) => {
 	}
 })
 
+/**
+ * Extract text from a receipt's new files without delaying the response
+ */
+function extractTextInBackground(receiptId: number): void {
+	extractReceiptText(receiptId).catch(error => {
+		logger.error(`Failed to extract text for receipt ${receiptId}:`, error)
+	})
+}
+
+/**
+ * Fingerprint uploaded files and look for receipts the account can see that already have them
+ * Identical files block the upload unless the request sets allow_duplicates; look-alike images are only reported
+ * Files of the receipt being added to are not reported as look-alikes, since pages of one receipt often look similar
+ */
+async function checkUploadedDuplicates(
+	req: express.Request,
+	files: Express.Multer.File[],
+	receiptId?: number
+): Promise<{ hashes: FileHashes[]; duplicates: DuplicateMatch[]; blocked: boolean }> {
+	const hashes = await Promise.all(files.map(file => computeFileHashes(file.path, file.originalname)))
+	const duplicates = findDuplicateFiles(hashes, getUserScope(req.account)).filter(
+		match => match.reason === 'identical_file' || match.receipt_id !== receiptId
+	)
+	const allowDuplicates = req.body.allow_duplicates === true || req.body.allow_duplicates === 'true'
+	const blocked = !allowDuplicates && duplicates.some(match => match.reason === 'identical_file')
+	if (blocked) {
+		await Promise.all(files.map(file => fs.unlink(file.path).catch(() => {})))
+	}
+	return { hashes, duplicates, blocked }
+}
+
+const DUPLICATE_UPLOAD_ERROR = 'These files are already stored with another receipt'
+
 // Error handler for multer errors
 const handleMulterError = (err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
 	const isProduction = process.env.NODE_ENV === 'production'
@@ -126,6 +201,95 @@ const handleMulterError = (err: any, req: express.Request, res: express.Response
 	next()
 }
 
+// Check that a receipt exists and belongs to a user the logged-in account can access
+const canAccessReceipt = (req: express.Request, receiptId: number): boolean => {
+	const receipt = dbQueries.getReceiptById.get(receiptId) as Receipt | undefined
+	const scope = getUserScope(req.account)
+	return !!receipt && !receipt.deleted_at && (!scope || scope.includes(receipt.user_id))
+}
+
+// Check that the logged-in account may file receipts under a user.
+// Accounts limited to some users must pick one of them by ID.
+// Returns an error message if the user is not allowed.
+const checkUserAssignment = (req: express.Request, userId?: number): string | null => {
+	const scope = getUserScope(req.account)
+	if (scope && (userId === undefined || !scope.includes(userId))) {
+		return 'You can only file receipts under users assigned to your account'
+	}
+	return null
+}
+
+// Validate reimbursement fields from a request body and copy them onto the receipt data.
+// Empty strings and null clear the date, amount and transaction reference.
+// Returns an error message if any field is invalid.
+const applyReimbursementFields = (body: any, data: CreateReceiptInput | UpdateReceiptInput): string | null => {
+	const { reimbursement_status, reimbursed_date, reimbursed_amount, hsa_transaction_ref } = body
+
+	if (reimbursement_status !== undefined && reimbursement_status !== null && reimbursement_status !== '') {
+		const statusValidation = validateReimbursementStatus(reimbursement_status)
+		if (!statusValidation.valid) {
+			return statusValidation.error!
+		}
+		data.reimbursement_status = reimbursement_status as ReimbursementStatus
+	}
+
+	if (reimbursed_date !== undefined) {
+		if (reimbursed_date === null || reimbursed_date === '') {
+			data.reimbursed_date = null
+		} else {
+			const dateValidation = validateDate(reimbursed_date as string)
+			if (!dateValidation.valid) {
+				return `Invalid reimbursed_date: ${dateValidation.error}`
+			}
+			data.reimbursed_date = reimbursed_date as string
+		}
+	}
+
+	if (reimbursed_amount !== undefined) {
+		if (reimbursed_amount === null || reimbursed_amount === '') {
+			data.reimbursed_amount = null
+		} else {
+			const parsedAmount = parseFloat(reimbursed_amount as string)
+			if (isNaN(parsedAmount)) {
+				return 'Invalid reimbursed_amount: must be a number'
+			}
+			const amountValidation = validateAmount(parsedAmount)
+			if (!amountValidation.valid) {
+				return `Invalid reimbursed_amount: ${amountValidation.error}`
+			}
+			data.reimbursed_amount = parsedAmount
+		}
+	}
+
+	if (hsa_transaction_ref !== undefined) {
+		const refValidation = validateHsaTransactionRef(hsa_transaction_ref ?? undefined)
+		if (!refValidation.valid) {
+			return refValidation.error!
+		}
+		data.hsa_transaction_ref = sanitizeOptionalString(hsa_transaction_ref)
+	}
+
+	return null
+}
+
+// Check the reimbursement details a receipt ends up with against its amount.
+// Fields the request leaves out are taken from the stored receipt, if any.
+// Returns an error message if the details don't fit.
+const checkReimbursementDetails = (data: CreateReceiptInput | UpdateReceiptInput, existing?: Receipt): string | null => {
+	const changesReimbursement =
+		data.amount !== undefined || data.reimbursement_status !== undefined || data.reimbursed_amount !== undefined
+	if (!changesReimbursement) {
+		return null
+	}
+
+	const validation = validateReimbursementDetails(
+		data.reimbursement_status ?? existing?.reimbursement_status ?? 'unreimbursed',
+		data.reimbursed_amount !== undefined ? data.reimbursed_amount : existing?.reimbursed_amount,
+		data.amount ?? existing?.amount ?? 0
+	)
+	return validation.valid ? null : validation.error!
+}
+
 // POST /api/receipts - Create receipt with files
 router.post('/', upload.array('files', 10), handleMulterError, async (req: express.Request, res: express.Response) => {
 	try {
@@ -160,6 +324,11 @@ router.post('/', upload.array('files', 10), handleMulterError, async (req: expre
 			}
 		}
 
+		const assignmentError = checkUserAssignment(req, parsedUserId)
+		if (assignmentError) {
+			return res.status(403).json({ error: assignmentError })
+		}
+
 		let parsedReceiptTypeId: number | undefined
 		if (receipt_type_id !== undefined && receipt_type_id !== null && receipt_type_id !== '') {
 			parsedReceiptTypeId = parseInt(receipt_type_id as string, 10)
@@ -234,8 +403,18 @@ router.post('/', upload.array('files', 10), handleMulterError, async (req: expre
 			flag_ids: parsedFlagIds,
 		}
 
+		const reimbursementError = applyReimbursementFields(req.body, receiptData) ?? checkReimbursementDetails(receiptData)
+		if (reimbursementError) {
+			return res.status(400).json({ error: reimbursementError })
+		}
+
+		const { hashes, duplicates, blocked } = await checkUploadedDuplicates(req, files)
+		if (blocked) {
+			return res.status(409).json({ error: DUPLICATE_UPLOAD_ERROR, duplicates })
+		}
+
 		// Create receipt
-		const receipt = createReceipt(receiptData, receiptData.flag_ids)
+		const receipt = createReceipt(receiptData, receiptData.flag_ids, getRequestHistory(req))
 
 		// Process files
 		if (files && files.length > 0) {
@@ -253,7 +432,8 @@ router.post('/', upload.array('files', 10), handleMulterError, async (req: expre
 					receipt.flags
 				)
 
-				addReceiptFile(receipt.id, filename, originalFilename, i)
+				const receiptFile = addReceiptFile(receipt.id, filename, originalFilename, i, getRequestHistory(req))
+				setReceiptFileHashes(receiptFile.id, hashes[i])
 
 				// Mark as optimized if optimization was successful
 				if (optimized) {
@@ -262,9 +442,11 @@ router.post('/', upload.array('files', 10), handleMulterError, async (req: expre
 			}
 		}
 
-		// Return updated receipt with files
+		extractTextInBackground(receipt.id)
+
+		// Return updated receipt with files, and any receipts it may duplicate
 		const updatedReceipt = getReceiptById(receipt.id)
-		res.status(201).json(updatedReceipt)
+		res.status(201).json(duplicates.length > 0 ? { ...updatedReceipt, possible_duplicates: duplicates } : updatedReceipt)
 	} catch (error) {
 		logger.error('Error creating receipt:', error)
 		res.status(500).json({ error: 'Failed to create receipt' })
@@ -371,6 +553,11 @@ router.put('/:id', async (req, res) => {
 			updateData.type = sanitizeString(type) // Legacy support
 		}
 
+		const reimbursementError = applyReimbursementFields(req.body, updateData)
+		if (reimbursementError) {
+			return res.status(400).json({ error: reimbursementError })
+		}
+
 		// Parse flag_ids safely
 		let flagIds: number[] | undefined
 		if (flag_ids !== undefined && flag_ids !== null && flag_ids !== '') {
@@ -392,7 +579,21 @@ router.put('/:id', async (req, res) => {
 			}
 		}
 
-		const receipt = await updateReceipt(id, updateData, flagIds)
+		if (!canAccessReceipt(req, id)) {
+			return res.status(404).json({ error: 'Receipt not found' })
+		}
+		const detailsError = checkReimbursementDetails(updateData, dbQueries.getReceiptById.get(id) as Receipt)
+		if (detailsError) {
+			return res.status(400).json({ error: detailsError })
+		}
+		if (updateData.user_id !== undefined || updateData.user !== undefined) {
+			const assignmentError = checkUserAssignment(req, updateData.user_id)
+			if (assignmentError) {
+				return res.status(403).json({ error: assignmentError })
+			}
+		}
+
+		const receipt = await updateReceipt(id, updateData, flagIds, getRequestHistory(req))
 		if (!receipt) {
 			return res.status(404).json({ error: 'Receipt not found' })
 		}
@@ -404,20 +605,21 @@ router.put('/:id', async (req, res) => {
 	}
 })
 
-// DELETE /api/receipts/:id - Delete receipt
+// DELETE /api/receipts/:id - Move receipt to the trash
 router.delete('/:id', async (req, res) => {
 	try {
 		const id = parseInt(req.params.id, 10)
 		if (isNaN(id)) {
 			return res.status(400).json({ error: 'Invalid receipt ID: must be a number' })
 		}
-		const deleted = deleteReceipt(id)
-		if (!deleted) {
+		if (!canAccessReceipt(req, id)) {
+			return res.status(404).json({ error: 'Receipt not found' })
+		}
+		// Receipts go to the trash, from where they can be restored until they are purged
+		const trashed = await trashReceipt(id, getRequestHistory(req))
+		if (!trashed) {
 			return res.status(404).json({ error: 'Receipt not found' })
 		}
-
-		// Delete files from filesystem
-		await deleteReceiptFiles(id)
 
 		res.status(204).send()
 	} catch (error) {
@@ -433,7 +635,7 @@ router.post('/:id/files', upload.array('files', 10), handleMulterError, async (r
 		if (isNaN(id)) {
 			return res.status(400).json({ error: 'Invalid receipt ID: must be a number' })
 		}
-		const receipt = getReceiptById(id)
+		const receipt = getReceiptById(id, getUserScope(req.account))
 		if (!receipt) {
 			return res.status(404).json({ error: 'Receipt not found' })
 		}
@@ -461,10 +663,15 @@ router.post('/:id/files', upload.array('files', 10), handleMulterError, async (r
 		const amount = parsedAmount
 		const type = req.body.type || receipt.type // Already resolved to name in getReceiptById
 
+		const { hashes, duplicates, blocked } = await checkUploadedDuplicates(req, files, receipt.id)
+		if (blocked) {
+			return res.status(409).json({ error: DUPLICATE_UPLOAD_ERROR, duplicates })
+		}
+
 		const existingFiles = receipt.files
 		let fileOrder = existingFiles.length
 
-		for (const file of files) {
+		for (const [index, file] of files.entries()) {
 			const { filename, originalFilename, optimized } = await saveReceiptFile(
 				file,
 				receipt.id,
@@ -477,7 +684,8 @@ router.post('/:id/files', upload.array('files', 10), handleMulterError, async (r
 				receipt.flags
 			)
 
-			addReceiptFile(receipt.id, filename, originalFilename, fileOrder)
+			const receiptFile = addReceiptFile(receipt.id, filename, originalFilename, fileOrder, getRequestHistory(req))
+			setReceiptFileHashes(receiptFile.id, hashes[index])
 
 			// Mark as optimized if optimization was successful
 			if (optimized) {
@@ -487,14 +695,48 @@ router.post('/:id/files', upload.array('files', 10), handleMulterError, async (r
 			fileOrder++
 		}
 
+		extractTextInBackground(id)
+
 		const updatedReceipt = getReceiptById(id)
-		res.json(updatedReceipt)
+		res.json(duplicates.length > 0 ? { ...updatedReceipt, possible_duplicates: duplicates } : updatedReceipt)
 	} catch (error) {
 		logger.error('Error adding files to receipt:', error)
 		res.status(500).json({ error: 'Failed to add files to receipt' })
 	}
 })
 
+/**
+ * Send a cached thumbnail rendition of a file
+ * Browsers revalidate with the ETag on every use, so a replaced file shows up immediately
+ * while unchanged thumbnails only cost a 304
+ */
+async function sendThumbnail(
+	req: express.Request,
+	res: express.Response,
+	fileId: number,
+	filePath: string,
+	filename: string,
+	size: ThumbnailSize
+): Promise<void> {
+	const thumbnailPath = await getReceiptFileThumbnail(fileId, filePath, filename, size)
+	const stats = await fs.stat(thumbnailPath)
+
+	res.setHeader('ETag', `"${fileId}-${size}-${stats.size}-${Math.floor(stats.mtimeMs)}"`)
+	res.setHeader('Cache-Control', 'private, no-cache')
+	if (req.fresh) {
+		res.status(304).end()
+		return
+	}
+
+	res.type('webp')
+	res.sendFile(path.resolve(thumbnailPath), { etag: false, lastModified: false, cacheControl: false }, err => {
+		if (err && !res.headersSent) {
+			logger.error('Error sending thumbnail:', err)
+			res.status(500).json({ error: 'Failed to retrieve thumbnail' })
+		}
+	})
+}
+
 // GET /api/receipts/:id/files/:fileId - Download file
 router.get('/:id/files/:fileId', async (req, res) => {
 	try {
@@ -504,7 +746,7 @@ router.get('/:id/files/:fileId', async (req, res) => {
 			return res.status(400).json({ error: 'Invalid receipt ID or file ID: must be numbers' })
 		}
 
-		const receipt = getReceiptById(receiptId)
+		const receipt = getReceiptById(receiptId, getUserScope(req.account))
 		if (!receipt) {
 			return res.status(404).json({ error: 'Receipt not found' })
 		}
@@ -519,6 +761,14 @@ router.get('/:id/files/:fileId', async (req, res) => {
 			return res.status(400).json({ error: 'Invalid filename: path traversal detected' })
 		}
 
+		const size = req.query.size
+		if (size !== undefined && !isThumbnailSize(size)) {
+			return res.status(400).json({ error: 'Invalid size: must be thumb or medium' })
+		}
+		if (size && !canGenerateThumbnail(file.filename)) {
+			return res.status(400).json({ error: 'Thumbnails are only available for images and PDFs' })
+		}
+
 		// Try to find the file path (with fallback to search alternative locations)
 		const filePath = await findReceiptFilePath(receiptId, file.filename)
 
@@ -528,6 +778,10 @@ router.get('/:id/files/:fileId', async (req, res) => {
 			})
 		}
 
+		if (size) {
+			return await sendThumbnail(req, res, file.id, filePath, file.filename, size)
+		}
+
 		// Check if this is a preview request (for inline display) or download
 		const isPreview = req.query.preview === 'true'
 		const isPdf = file.original_filename.toLowerCase().endsWith('.pdf')
@@ -576,7 +830,7 @@ router.get('/:id/files/:fileId', async (req, res) => {
 	}
 })
 
-// DELETE /api/receipts/:id/files/:fileId - Delete a file from receipt
+// DELETE /api/receipts/:id/files/:fileId - Move a file of a receipt to the trash
 router.delete('/:id/files/:fileId', async (req, res) => {
 	try {
 		const receiptId = parseInt(req.params.id, 10)
@@ -585,7 +839,7 @@ router.delete('/:id/files/:fileId', async (req, res) => {
 			return res.status(400).json({ error: 'Invalid receipt ID or file ID: must be numbers' })
 		}
 
-		const receipt = getReceiptById(receiptId)
+		const receipt = getReceiptById(receiptId, getUserScope(req.account))
 		if (!receipt) {
 			return res.status(404).json({ error: 'Receipt not found' })
 		}
@@ -595,11 +849,7 @@ router.delete('/:id/files/:fileId', async (req, res) => {
 			return res.status(404).json({ error: 'File not found' })
 		}
 
-		// Delete from database
-		dbQueries.deleteReceiptFile.run(fileId)
-
-		// Delete from filesystem
-		await deleteFile(receiptId, file.filename)
+		await trashReceiptFile(fileId, getRequestHistory(req))
 
 		const updatedReceipt = getReceiptById(receiptId)
 		res.json(updatedReceipt)
@@ -618,7 +868,7 @@ router.put('/:id/files/:fileId', upload.single('file'), handleMulterError, async
 			return res.status(400).json({ error: 'Invalid receipt ID or file ID: must be numbers' })
 		}
 
-		const receipt = getReceiptById(receiptId)
+		const receipt = getReceiptById(receiptId, getUserScope(req.account))
 		if (!receipt) {
 			return res.status(404).json({ error: 'Receipt not found' })
 		}
@@ -632,6 +882,9 @@ router.put('/:id/files/:fileId', upload.single('file'), handleMulterError, async
 			return res.status(400).json({ error: 'No file provided' })
 		}
 
+		// Fingerprint the upload before it is moved, like new uploads, so duplicate checks see the new file
+		const hashes = await computeFileHashes(req.file.path, req.file.originalname)
+
 		// Delete old file from disk (if it exists)
 		await deleteFile(receiptId, file.filename)
 
@@ -640,6 +893,20 @@ router.put('/:id/files/:fileId', upload.single('file'), handleMulterError, async
 
 		// Update original_filename to the new file's original name
 		dbQueries.updateReceiptFileOriginalFilename.run(originalFilename, fileId)
+		setReceiptFileHashes(fileId, hashes)
+		recordReceiptHistory(
+			receiptId,
+			'file_replaced',
+			{ original_filename: { old: file.original_filename, new: originalFilename } },
+			getRequestHistory(req),
+			fileId
+		)
+
+		// Clear text from the old file so the replacement gets recognized
+		dbQueries.updateReceiptFileExtractedText.run(null, null, fileId)
+		syncReceiptSearchIndex(receiptId)
+		publishReceiptEvent('receipt.updated', { receipt_id: receiptId, user_id: receipt.user_id })
+		extractTextInBackground(receiptId)
 
 		const updatedReceipt = getReceiptById(receiptId)
 		res.json(updatedReceipt)
@@ -662,7 +929,11 @@ router.put('/:id/flags', async (req, res) => {
 			return res.status(400).json({ error: 'flag_ids must be an array' })
 		}
 
-		const receipt = await updateReceipt(id, {}, flag_ids)
+		if (!canAccessReceipt(req, id)) {
+			return res.status(404).json({ error: 'Receipt not found' })
+		}
+
+		const receipt = await updateReceipt(id, {}, flag_ids, getRequestHistory(req))
 		if (!receipt) {
 			return res.status(404).json({ error: 'Receipt not found' })
 		}
@@ -674,6 +945,53 @@ router.put('/:id/flags', async (req, res) => {
 	}
 })
 
+// GET /api/receipts/:id/history - Get the change history of a receipt, newest first
+router.get('/:id/history', (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid receipt ID: must be a number' })
+		}
+		if (!canAccessReceipt(req, id)) {
+			return res.status(404).json({ error: 'Receipt not found' })
+		}
+		res.json(getReceiptHistory(id))
+	} catch (error) {
+		logger.error('Error fetching receipt history:', error)
+		res.status(500).json({ error: 'Failed to fetch receipt history' })
+	}
+})
+
+// POST /api/receipts/:id/history/:entryId/revert - Put a field back to its value before a history entry
+router.post('/:id/history/:entryId/revert', async (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		const entryId = parseInt(req.params.entryId, 10)
+		if (isNaN(id) || isNaN(entryId)) {
+			return res.status(400).json({ error: 'Invalid receipt ID or history entry ID: must be numbers' })
+		}
+		const { field } = req.body
+		if (typeof field !== 'string' || !field) {
+			return res.status(400).json({ error: 'field is required' })
+		}
+		if (!canAccessReceipt(req, id)) {
+			return res.status(404).json({ error: 'Receipt not found' })
+		}
+
+		const receipt = await revertReceiptField(id, entryId, field, getRequestHistory(req), getUserScope(req.account))
+		if (!receipt) {
+			return res.status(404).json({ error: 'History entry not found' })
+		}
+		res.json(receipt)
+	} catch (error) {
+		if (error instanceof HistoryValidationError) {
+			return res.status(400).json({ error: error.message })
+		}
+		logger.error('Error reverting receipt field:', error)
+		res.status(500).json({ error: 'Failed to revert receipt field' })
+	}
+})
+
 // POST /api/receipts/bulk-update - Bulk update multiple receipts
 router.post('/bulk-update', async (req, res) => {
 	try {
@@ -696,8 +1014,7 @@ router.post('/bulk-update', async (req, res) => {
 		// Validate that all receipts exist
 		const dbQueries = (await import('../db')).dbQueries
 		for (const id of parsedReceiptIds) {
-			const receipt = dbQueries.getReceiptById.get(id)
-			if (!receipt) {
+			if (!canAccessReceipt(req, id)) {
 				return res.status(400).json({ error: `Receipt with ID ${id} not found` })
 			}
 		}
@@ -727,6 +1044,10 @@ router.post('/bulk-update', async (req, res) => {
 				return res.status(400).json({ error: 'Invalid user_id: must be a number' })
 			}
 			updateData.user_id = parsedUserId
+			const assignmentError = checkUserAssignment(req, parsedUserId)
+			if (assignmentError) {
+				return res.status(403).json({ error: assignmentError })
+			}
 		}
 
 		if (receipt_type_id !== undefined && receipt_type_id !== null && receipt_type_id !== '') {
@@ -737,6 +1058,17 @@ router.post('/bulk-update', async (req, res) => {
 			updateData.receipt_type_id = parsedReceiptTypeId
 		}
 
+		const reimbursementError = applyReimbursementFields(req.body, updateData)
+		if (reimbursementError) {
+			return res.status(400).json({ error: reimbursementError })
+		}
+		for (const id of parsedReceiptIds) {
+			const detailsError = checkReimbursementDetails(updateData, dbQueries.getReceiptById.get(id) as Receipt)
+			if (detailsError) {
+				return res.status(400).json({ error: `Receipt with ID ${id}: ${detailsError}` })
+			}
+		}
+
 		// Process flags - parse flag IDs if provided
 		// Check if flag_ids is explicitly provided (even if empty array for "remove all")
 		const flagIdsProvided = flag_ids !== undefined && flag_ids !== null && Array.isArray(flag_ids)
@@ -770,7 +1102,7 @@ router.post('/bulk-update', async (req, res) => {
 					}
 				}
 
-				const result = await updateReceipt(receiptId, updateData, receiptFlagIds)
+				const result = await updateReceipt(receiptId, updateData, receiptFlagIds, getRequestHistory(req))
 				if (result) {
 					updatedCount++
 				} else {
@@ -791,17 +1123,41 @@ router.post('/bulk-update', async (req, res) => {
 	}
 })
 
-// POST /api/receipts/migrate-files - Migrate files from old structure to new user/date structure
-router.post('/migrate-files', async (req, res) => {
+// POST /api/receipts/migrate-files - Queue a job that moves all files to the folders of the current directory pattern
+router.post('/migrate-files', requireRole('admin'), (req, res) => {
 	try {
-		const results = await migrateFilesToDateStructure()
-		res.json({
-			message: 'File migration completed',
-			...results,
-		})
+		const job = enqueueJob('migrate-files', {}, req.account?.id)
+		res.status(202).json(job)
+	} catch (error) {
+		logger.error('Error queueing file migration:', error)
+		res.status(500).json({ error: 'Failed to start file migration' })
+	}
+})
+
+// POST /api/receipts/extract-text - Extract text from an image or PDF and suggest receipt fields without saving it
+router.post('/extract-text', upload.single('file'), handleMulterError, async (req: express.Request, res: express.Response) => {
+	const file = req.file
+	try {
+		if (!file) {
+			return res.status(400).json({ error: 'No file provided' })
+		}
+		if (!isImageFile(file.originalname) && !isPdfFile(file.originalname)) {
+			return res.status(400).json({ error: 'Text extraction is only supported for images and PDFs' })
+		}
+		if (isImageFile(file.originalname) && !isOcrEnabled()) {
+			return res.status(400).json({ error: 'Text recognition is disabled' })
+		}
+
+		const result = await extractTextFromFile(file.path, file.originalname)
+		res.json(result)
 	} catch (error) {
-		logger.error('Error migrating files:', error)
-		res.status(500).json({ error: 'Failed to migrate files' })
+		logger.error('Error extracting text:', error)
+		res.status(500).json({ error: 'Failed to extract text' })
+	} finally {
+		// The upload is only needed for recognition
+		if (file) {
+			await fs.unlink(file.path).catch(() => {})
+		}
 	}
 })
 
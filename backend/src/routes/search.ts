@@ -0,0 +1,34 @@
+import express from 'express'
+import { searchReceipts } from '../services/dbService'
+import { getUserScope } from '../services/authService'
+import { logger } from '../utils/logger'
+
+const router = express.Router()
+
+const DEFAULT_SEARCH_LIMIT = 20
+const MAX_SEARCH_LIMIT = 100
+
+// GET /api/search?q= - Full-text search over receipts, ranked by relevance with highlighted snippets
+router.get('/', (req, res) => {
+	try {
+		const q = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+		if (!q) {
+			return res.status(400).json({ error: 'Search query (q) is required' })
+		}
+
+		let limit = DEFAULT_SEARCH_LIMIT
+		if (req.query.limit !== undefined && req.query.limit !== '') {
+			limit = parseInt(req.query.limit as string, 10)
+			if (isNaN(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+				return res.status(400).json({ error: `Invalid limit: must be between 1 and ${MAX_SEARCH_LIMIT}` })
+			}
+		}
+
+		res.json(searchReceipts(q, limit, getUserScope(req.account)))
+	} catch (error) {
+		logger.error('Error searching receipts:', error)
+		res.status(500).json({ error: 'Failed to search receipts' })
+	}
+})
+
+export default router
@@ -1,24 +1,23 @@
 import express from 'express'
 import { getSetting, setSetting, getAllSettings } from '../services/dbService'
-import { validatePattern } from '../utils/filename'
+import { SETTING_KEYS, SettingKey } from '../models/settings'
+import { enqueueJobOnce } from '../services/jobService'
+import { getDirectoryPattern } from '../utils/filename'
+import { validateSetting } from '../utils/validation'
 import { logger } from '../utils/logger'
 
 const router = express.Router()
 
-// Whitelist of allowed setting keys for security
-const ALLOWED_SETTING_KEYS = ['filenamePattern', 'imageOptimizationEnabled', 'excludedQuickVendors', 'customQuickVendors'] as const
-type AllowedSettingKey = (typeof ALLOWED_SETTING_KEYS)[number]
-
 /**
  * Validate setting key is in the whitelist and doesn't contain dangerous characters
  */
-function isValidSettingKey(key: string): key is AllowedSettingKey {
+function isValidSettingKey(key: string): key is SettingKey {
 	// Reject empty keys, keys with path traversal, or keys with special characters
 	if (!key || key.includes('..') || key.includes('/') || key.includes('\\') || key.includes('\0')) {
 		return false
 	}
 	// Only allow keys in the whitelist
-	return ALLOWED_SETTING_KEYS.includes(key as AllowedSettingKey)
+	return (SETTING_KEYS as readonly string[]).includes(key)
 }
 
 // GET /api/settings - Get all settings
@@ -49,7 +48,7 @@ router.get('/:key', (req, res) => {
 		// Validate setting key is in whitelist
 		if (!isValidSettingKey(key)) {
 			return res.status(400).json({
-				error: `Invalid setting key: ${key}. Allowed keys: ${ALLOWED_SETTING_KEYS.join(', ')}`,
+				error: `Invalid setting key: ${key}. Allowed keys: ${SETTING_KEYS.join(', ')}`,
 			})
 		}
 
@@ -79,7 +78,7 @@ router.put('/:key', (req, res) => {
 		// Validate setting key is in whitelist
 		if (!isValidSettingKey(key)) {
 			return res.status(400).json({
-				error: `Invalid setting key: ${key}. Allowed keys: ${ALLOWED_SETTING_KEYS.join(', ')}`,
+				error: `Invalid setting key: ${key}. Allowed keys: ${SETTING_KEYS.join(', ')}`,
 			})
 		}
 
@@ -88,41 +87,19 @@ router.put('/:key', (req, res) => {
 		}
 
 		// Validate value based on key type
-		if (key === 'filenamePattern') {
-			if (typeof value !== 'string') {
-				return res.status(400).json({ error: 'filenamePattern must be a string' })
-			}
-			const validation = validatePattern(value)
-			if (!validation.valid) {
-				return res.status(400).json({ error: validation.error || 'Invalid filename pattern' })
-			}
-		} else if (key === 'imageOptimizationEnabled') {
-			if (typeof value !== 'boolean') {
-				return res.status(400).json({ error: 'imageOptimizationEnabled must be a boolean' })
-			}
-		} else if (key === 'excludedQuickVendors') {
-			if (!Array.isArray(value)) {
-				return res.status(400).json({ error: 'excludedQuickVendors must be an array' })
-			}
-			// Validate each item is a non-empty string
-			for (const item of value) {
-				if (typeof item !== 'string' || item.trim() === '') {
-					return res.status(400).json({ error: 'excludedQuickVendors must be an array of non-empty strings' })
-				}
-			}
-		} else if (key === 'customQuickVendors') {
-			if (!Array.isArray(value)) {
-				return res.status(400).json({ error: 'customQuickVendors must be an array' })
-			}
-			// Validate each item is a non-empty string
-			for (const item of value) {
-				if (typeof item !== 'string' || item.trim() === '') {
-					return res.status(400).json({ error: 'customQuickVendors must be an array of non-empty strings' })
-				}
-			}
+		const validation = validateSetting(key, value)
+		if (!validation.valid) {
+			return res.status(400).json({ error: validation.error })
 		}
 
+		const previousDirectoryPattern = getDirectoryPattern()
 		setSetting(key, JSON.stringify(value))
+
+		// Files already stored move to the folders of a new directory layout in the background
+		if (key === 'directoryPattern' && getDirectoryPattern() !== previousDirectoryPattern) {
+			const job = enqueueJobOnce('migrate-files', {}, req.account?.id)
+			return res.json({ key, value, job })
+		}
 		res.json({ key, value })
 	} catch (error) {
 		logger.error('Error updating setting:', error)
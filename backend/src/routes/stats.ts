@@ -0,0 +1,37 @@
+import express from 'express'
+import { getStatsSummary } from '../services/dbService'
+import { getUserScope } from '../services/authService'
+import { StatsSummaryFilters } from '../models/receipt'
+import { logger } from '../utils/logger'
+
+const router = express.Router()
+
+// GET /api/stats/summary - Spending and reimbursement totals by user, year, group and status
+router.get('/summary', (req, res) => {
+	try {
+		const filters: StatsSummaryFilters = { user_ids: getUserScope(req.account) }
+
+		if (req.query.user_id !== undefined && req.query.user_id !== '') {
+			const userId = parseInt(req.query.user_id as string, 10)
+			if (isNaN(userId)) {
+				return res.status(400).json({ error: 'Invalid user_id: must be a number' })
+			}
+			filters.user_id = userId
+		}
+
+		if (req.query.year !== undefined && req.query.year !== '') {
+			const year = req.query.year as string
+			if (!/^\d{4}$/.test(year)) {
+				return res.status(400).json({ error: 'Invalid year: must be a four-digit year' })
+			}
+			filters.year = year
+		}
+
+		res.json(getStatsSummary(filters))
+	} catch (error) {
+		logger.error('Error fetching stats summary:', error)
+		res.status(500).json({ error: 'Failed to fetch stats summary' })
+	}
+})
+
+export default router
@@ -0,0 +1,105 @@
+import express from 'express'
+import {
+	getTrash,
+	purgeReceipt,
+	purgeReceiptFile,
+	restoreReceipt,
+	restoreReceiptFile,
+} from '../services/trashService'
+import { getUserScope } from '../services/authService'
+import { getRequestHistory } from '../services/historyService'
+import { logger } from '../utils/logger'
+
+const router = express.Router()
+
+// Parse a receipt or file ID route parameter; returns null if it isn't a number
+const parseId = (value: string): number | null => {
+	const id = parseInt(value, 10)
+	return isNaN(id) ? null : id
+}
+
+// GET /api/trash - List trashed receipts and files, most recently deleted first
+router.get('/', (req, res) => {
+	try {
+		res.json(getTrash(getUserScope(req.account)))
+	} catch (error) {
+		logger.error('Error fetching trash:', error)
+		res.status(500).json({ error: 'Failed to fetch trash' })
+	}
+})
+
+// POST /api/trash/receipts/:id/restore - Bring a receipt and its files back from the trash
+router.post('/receipts/:id/restore', async (req, res) => {
+	try {
+		const id = parseId(req.params.id)
+		if (id === null) {
+			return res.status(400).json({ error: 'Invalid receipt ID: must be a number' })
+		}
+
+		const receipt = await restoreReceipt(id, getRequestHistory(req), getUserScope(req.account))
+		if (!receipt) {
+			return res.status(404).json({ error: 'Receipt not found in the trash' })
+		}
+		res.json(receipt)
+	} catch (error) {
+		logger.error('Error restoring receipt:', error)
+		res.status(500).json({ error: 'Failed to restore receipt' })
+	}
+})
+
+// DELETE /api/trash/receipts/:id - Delete a trashed receipt and its files for good
+router.delete('/receipts/:id', async (req, res) => {
+	try {
+		const id = parseId(req.params.id)
+		if (id === null) {
+			return res.status(400).json({ error: 'Invalid receipt ID: must be a number' })
+		}
+
+		if (!(await purgeReceipt(id, getRequestHistory(req), getUserScope(req.account)))) {
+			return res.status(404).json({ error: 'Receipt not found in the trash' })
+		}
+		res.status(204).send()
+	} catch (error) {
+		logger.error('Error deleting receipt from the trash:', error)
+		res.status(500).json({ error: 'Failed to delete receipt' })
+	}
+})
+
+// POST /api/trash/files/:fileId/restore - Bring a trashed file back to its receipt
+router.post('/files/:fileId/restore', async (req, res) => {
+	try {
+		const fileId = parseId(req.params.fileId)
+		if (fileId === null) {
+			return res.status(400).json({ error: 'Invalid file ID: must be a number' })
+		}
+
+		const receipt = await restoreReceiptFile(fileId, getRequestHistory(req), getUserScope(req.account))
+		if (!receipt) {
+			return res.status(404).json({ error: 'File not found in the trash' })
+		}
+		res.json(receipt)
+	} catch (error) {
+		logger.error('Error restoring file:', error)
+		res.status(500).json({ error: 'Failed to restore file' })
+	}
+})
+
+// DELETE /api/trash/files/:fileId - Delete a trashed file for good
+router.delete('/files/:fileId', async (req, res) => {
+	try {
+		const fileId = parseId(req.params.fileId)
+		if (fileId === null) {
+			return res.status(400).json({ error: 'Invalid file ID: must be a number' })
+		}
+
+		if (!(await purgeReceiptFile(fileId, getRequestHistory(req), getUserScope(req.account)))) {
+			return res.status(404).json({ error: 'File not found in the trash' })
+		}
+		res.status(204).send()
+	} catch (error) {
+		logger.error('Error deleting file from the trash:', error)
+		res.status(500).json({ error: 'Failed to delete file' })
+	}
+})
+
+export default router
@@ -1,20 +1,27 @@
 import express from 'express';
 import {
   getAllUsers,
+  getAllReceipts,
+  getUserById,
   createUser,
   updateUser,
-  deleteUser,
 } from '../services/dbService';
+import { enqueueJob, getQueuedJobs } from '../services/jobService';
+import { deleteUserWithReassignment, getUserUsage, ReassignmentError } from '../services/reassignService';
+import { getRequestHistory } from '../services/historyService';
 import { CreateUserInput, UpdateUserInput } from '../models/receipt';
+import { getUserScope } from '../services/authService';
+import { requireRole } from '../middleware/auth';
 import { sanitizeString } from '../utils/sanitization';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
 
-// GET /api/users - List all users
+// GET /api/users - List all users the logged-in account can access
 router.get('/', (req, res) => {
   try {
-    const users = getAllUsers();
+    const scope = getUserScope(req.account);
+    const users = getAllUsers().filter((user) => !scope || scope.includes(user.id));
     res.json(users);
   } catch (error) {
     logger.error('Error fetching users:', error);
@@ -62,11 +69,23 @@ router.put('/:id', (req, res) => {
       return res.status(400).json({ error: 'User name cannot be empty after sanitization' });
     }
 
+    const previous = getUserById(id);
     const user = updateUser(id, sanitizedName);
-    if (!user) {
+    if (!user || !previous) {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    // Files are stored under the user's name, so move them to the new folder in the background
+    // A job still waiting to run for this user already moves them to whatever the name is when it starts
+    const relocationQueued = getQueuedJobs('relocate-user-files').some((job) => job.params?.user_id === id);
+    if (
+      user.name !== previous.name &&
+      !relocationQueued &&
+      getAllReceipts(undefined, [id]).some((receipt) => receipt.files.length > 0)
+    ) {
+      enqueueJob('relocate-user-files', { user_id: id, previous_name: previous.name }, req.account?.id);
+    }
+
     res.json(user);
   } catch (error) {
     logger.error('Error updating user:', error);
@@ -74,20 +93,54 @@ router.put('/:id', (req, res) => {
   }
 });
 
-// DELETE /api/users/:id - Delete user
-router.delete('/:id', (req, res) => {
+// GET /api/users/:id/usage - Count the receipts that would have to be moved before deleting a user
+router.get('/:id/usage', requireRole('admin'), (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid user ID: must be a number' });
+    }
+    const usage = getUserUsage(id);
+    if (!usage) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(usage);
+  } catch (error) {
+    logger.error('Error fetching user usage:', error);
+    res.status(500).json({ error: 'Failed to fetch user usage' });
+  }
+});
+
+// DELETE /api/users/:id?reassign_to= - Delete user, moving its receipts to another user
+router.delete('/:id', async (req, res) => {
   try {
     const id = parseInt(req.params.id, 10);
     if (isNaN(id)) {
       return res.status(400).json({ error: 'Invalid user ID: must be a number' });
     }
-    const deleted = deleteUser(id);
-    if (!deleted) {
+    const reassignTo = req.query.reassign_to !== undefined ? parseInt(String(req.query.reassign_to), 10) : undefined;
+    if (reassignTo !== undefined && isNaN(reassignTo)) {
+      return res.status(400).json({ error: 'Invalid reassign_to: must be a user ID' });
+    }
+
+    const usage = getUserUsage(id);
+    if (!usage) {
       return res.status(404).json({ error: 'User not found' });
     }
+    if (reassignTo === undefined && usage.receipts + usage.trashed_receipts > 0) {
+      return res.status(409).json({
+        error: 'User still has receipts; choose another user to move them to',
+        usage,
+      });
+    }
 
+    await deleteUserWithReassignment(id, reassignTo, getRequestHistory(req));
     res.status(204).send();
   } catch (error) {
+    if (error instanceof ReassignmentError) {
+      return res.status(400).json({ error: error.message });
+    }
     logger.error('Error deleting user:', error);
     res.status(500).json({ error: 'Failed to delete user' });
   }
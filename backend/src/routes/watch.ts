@@ -1,9 +1,69 @@
 import express from 'express'
-import { getWatchServiceStatus, triggerScan, countProcessedFiles, deleteProcessedFiles } from '../services/watchService'
+import {
+	getWatchServiceStatus,
+	triggerScan,
+	countProcessedFiles,
+	deleteProcessedFiles,
+	reloadWatchFolder,
+	retryImport,
+	discardImport,
+} from '../services/watchService'
+import {
+	getAllWatchFolders,
+	getWatchFolderById,
+	createWatchFolder,
+	updateWatchFolder,
+	deleteWatchFolder,
+	watchFolderPathExists,
+} from '../services/watchFolderService'
+import { getWatchImports, getWatchImportById } from '../services/watchImportService'
+import { requireRole } from '../middleware/auth'
+import { getFlagById, getReceiptTypeById, getUserById } from '../services/dbService'
+import { WatchFolderInput } from '../models/watchFolder'
+import { WATCH_IMPORT_STATUSES, WatchImportStatus } from '../models/watchImport'
+import { sanitizeString } from '../utils/sanitization'
+import { validateWatchFolder } from '../utils/validation'
 import { logger } from '../utils/logger'
 
 const router = express.Router()
 
+const DEFAULT_HISTORY_LIMIT = 100
+const MAX_HISTORY_LIMIT = 500
+
+/**
+ * Validate a complete watch folder and check that the defaults it assigns exist
+ * Returns an error message and status code if the folder is invalid
+ */
+const validateFolder = (folder: Partial<WatchFolderInput>, id?: number): { status: number; error: string } | null => {
+	const validation = validateWatchFolder(folder as Record<string, unknown>)
+	if (!validation.valid) {
+		return { status: 400, error: validation.error! }
+	}
+	if (folder.user_id != null && !getUserById(folder.user_id)) {
+		return { status: 400, error: `User with ID ${folder.user_id} not found` }
+	}
+	if (folder.receipt_type_id != null && !getReceiptTypeById(folder.receipt_type_id)) {
+		return { status: 400, error: `Receipt type with ID ${folder.receipt_type_id} not found` }
+	}
+	const unknownFlagId = folder.flag_ids?.find(flagId => !getFlagById(flagId))
+	if (unknownFlagId !== undefined) {
+		return { status: 400, error: `Flag with ID ${unknownFlagId} not found` }
+	}
+	if (watchFolderPathExists(folder.path ?? null, id)) {
+		return { status: 409, error: 'A watch folder with this path already exists' }
+	}
+	return null
+}
+
+/**
+ * Trim free-text fields of a create or update request
+ */
+const sanitizeFolder = (body: Partial<WatchFolderInput>): Partial<WatchFolderInput> => ({
+	...body,
+	...(typeof body.name === 'string' ? { name: sanitizeString(body.name) } : {}),
+	...(typeof body.path === 'string' ? { path: body.path.trim() || null } : {}),
+})
+
 /**
  * GET /api/watch/status - Get watch service status
  */
@@ -18,11 +78,17 @@ router.get('/status', (req, res) => {
 })
 
 /**
- * POST /api/watch/scan - Manually trigger a scan
+ * POST /api/watch/scan - Manually trigger a scan of all enabled folders, or of the folder given by folder_id
  */
 router.post('/scan', async (req, res) => {
 	try {
-		await triggerScan()
+		const folderId = req.body?.folder_id
+		if (folderId !== undefined && !Number.isInteger(folderId)) {
+			return res.status(400).json({ error: 'Invalid watch folder ID: must be a number' })
+		}
+		if (!(await triggerScan(folderId))) {
+			return res.status(404).json({ error: 'Watch folder not found' })
+		}
 		const status = getWatchServiceStatus()
 		res.json({
 			message: 'Scan completed',
@@ -35,7 +101,176 @@ router.post('/scan', async (req, res) => {
 })
 
 /**
- * GET /api/watch/processed/count - Get count of files in processed folder
+ * GET /api/watch/folders - List watch folders
+ */
+router.get('/folders', (req, res) => {
+	try {
+		res.json(getAllWatchFolders())
+	} catch (error) {
+		logger.error('Error fetching watch folders:', error)
+		res.status(500).json({ error: 'Failed to fetch watch folders' })
+	}
+})
+
+/**
+ * POST /api/watch/folders - Add a watch folder
+ */
+router.post('/folders', (req, res) => {
+	try {
+		const folder = sanitizeFolder(req.body as WatchFolderInput)
+		const invalid = validateFolder(folder)
+		if (invalid) {
+			return res.status(invalid.status).json({ error: invalid.error })
+		}
+
+		const created = createWatchFolder(folder as WatchFolderInput)
+		reloadWatchFolder(created.id)
+		res.status(201).json(created)
+	} catch (error) {
+		logger.error('Error creating watch folder:', error)
+		res.status(500).json({ error: 'Failed to create watch folder' })
+	}
+})
+
+/**
+ * PUT /api/watch/folders/:id - Update a watch folder
+ */
+router.put('/folders/:id', (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid watch folder ID: must be a number' })
+		}
+		const existing = getWatchFolderById(id)
+		if (!existing) {
+			return res.status(404).json({ error: 'Watch folder not found' })
+		}
+
+		const changes = sanitizeFolder(req.body as Partial<WatchFolderInput>)
+		const invalid = validateFolder({ ...existing, ...changes }, id)
+		if (invalid) {
+			return res.status(invalid.status).json({ error: invalid.error })
+		}
+
+		const updated = updateWatchFolder(id, changes)
+		reloadWatchFolder(id)
+		res.json(updated)
+	} catch (error) {
+		logger.error('Error updating watch folder:', error)
+		res.status(500).json({ error: 'Failed to update watch folder' })
+	}
+})
+
+/**
+ * DELETE /api/watch/folders/:id - Remove a watch folder (files in it are left alone)
+ */
+router.delete('/folders/:id', (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid watch folder ID: must be a number' })
+		}
+
+		if (!deleteWatchFolder(id)) {
+			return res.status(404).json({ error: 'Watch folder not found' })
+		}
+		reloadWatchFolder(id)
+		res.status(204).send()
+	} catch (error) {
+		logger.error('Error deleting watch folder:', error)
+		res.status(500).json({ error: 'Failed to delete watch folder' })
+	}
+})
+
+/**
+ * GET /api/watch/history - List recent watch folder imports, newest first
+ * Optional query parameters: status, folder_id and limit
+ */
+router.get('/history', requireRole('admin'), (req, res) => {
+	try {
+		const status = req.query.status as string | undefined
+		if (status !== undefined && !(WATCH_IMPORT_STATUSES as readonly string[]).includes(status)) {
+			return res.status(400).json({ error: `Status must be one of: ${WATCH_IMPORT_STATUSES.join(', ')}` })
+		}
+
+		let folderId: number | undefined
+		if (req.query.folder_id !== undefined) {
+			folderId = parseInt(req.query.folder_id as string, 10)
+			if (isNaN(folderId)) {
+				return res.status(400).json({ error: 'Invalid watch folder ID: must be a number' })
+			}
+		}
+
+		let limit = DEFAULT_HISTORY_LIMIT
+		if (req.query.limit !== undefined && req.query.limit !== '') {
+			limit = parseInt(req.query.limit as string, 10)
+			if (isNaN(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+				return res.status(400).json({ error: `Invalid limit: must be between 1 and ${MAX_HISTORY_LIMIT}` })
+			}
+		}
+
+		res.json(getWatchImports({ status: status as WatchImportStatus | undefined, folder_id: folderId, limit }))
+	} catch (error) {
+		logger.error('Error fetching watch import history:', error)
+		res.status(500).json({ error: 'Failed to fetch watch import history' })
+	}
+})
+
+/**
+ * POST /api/watch/history/:id/retry - Import the files of a failed or quarantined import again
+ */
+router.post('/history/:id/retry', async (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid import ID: must be a number' })
+		}
+		const entry = getWatchImportById(id)
+		if (!entry) {
+			return res.status(404).json({ error: 'Import not found' })
+		}
+		if (entry.status !== 'failed' && entry.status !== 'quarantined') {
+			return res.status(400).json({ error: 'Only failed or quarantined imports can be retried' })
+		}
+		const folder = entry.folder_id !== null ? getWatchFolderById(entry.folder_id) : null
+		if (!folder) {
+			return res.status(400).json({ error: 'The watch folder of this import no longer exists' })
+		}
+
+		res.json(await retryImport(entry, folder))
+	} catch (error) {
+		logger.error('Error retrying watch import:', error)
+		res.status(500).json({ error: 'Failed to retry import' })
+	}
+})
+
+/**
+ * POST /api/watch/history/:id/discard - Delete the files of a failed or quarantined import
+ */
+router.post('/history/:id/discard', async (req, res) => {
+	try {
+		const id = parseInt(req.params.id, 10)
+		if (isNaN(id)) {
+			return res.status(400).json({ error: 'Invalid import ID: must be a number' })
+		}
+		const entry = getWatchImportById(id)
+		if (!entry) {
+			return res.status(404).json({ error: 'Import not found' })
+		}
+		if (entry.status !== 'failed' && entry.status !== 'quarantined') {
+			return res.status(400).json({ error: 'Only failed or quarantined imports can be discarded' })
+		}
+
+		const folder = entry.folder_id !== null ? getWatchFolderById(entry.folder_id) : null
+		res.json(await discardImport(entry, folder))
+	} catch (error) {
+		logger.error('Error discarding watch import:', error)
+		res.status(500).json({ error: 'Failed to discard import' })
+	}
+})
+
+/**
+ * GET /api/watch/processed/count - Get count of files in the processed folders
  */
 router.get('/processed/count', async (req, res) => {
 	try {
@@ -48,7 +283,7 @@ router.get('/processed/count', async (req, res) => {
 })
 
 /**
- * DELETE /api/watch/processed - Delete all files in processed folder
+ * DELETE /api/watch/processed - Delete all files in the processed folders
  */
 router.delete('/processed', async (req, res) => {
 	try {
@@ -11,12 +11,29 @@ import receiptTypesRouter from './routes/receiptTypes'
 import receiptTypeGroupsRouter from './routes/receiptTypeGroups'
 import settingsRouter from './routes/settings'
 import exportRouter from './routes/export'
+import importRouter from './routes/import'
 import filenamesRouter from './routes/filenames'
 import watchRouter from './routes/watch'
+import duplicatesRouter from './routes/duplicates'
+import backupsRouter from './routes/backups'
+import importRulesRouter from './routes/importRules'
 import imagesRouter from './routes/images'
+import statsRouter from './routes/stats'
+import searchRouter from './routes/search'
+import authRouter from './routes/auth'
+import accountsRouter from './routes/accounts'
+import apiTokensRouter from './routes/apiTokens'
+import jobsRouter from './routes/jobs'
+import eventsRouter from './routes/events'
+import trashRouter from './routes/trash'
 import { ensureReceiptsDir } from './services/fileService'
 import { startWatchService } from './services/watchService'
+import { startJobWorker } from './services/jobService'
+import { getBackupDir, startBackupScheduler } from './services/backupService'
+import { startTrashPurgeScheduler } from './services/trashService'
 import { errorHandler } from './middleware/errorHandler'
+import { authenticateApiToken, requireAuth, requireRole, requireRoleForChanges } from './middleware/auth'
+import { isAuthEnabled } from './services/authService'
 import { logger } from './utils/logger'
 
 const app = express()
@@ -57,17 +74,35 @@ app.use(
 app.use(express.json())
 app.use(express.urlencoded({ extended: true }))
 
+// Authentication (optional, enabled with AUTH_ENABLED=true)
+// Login routes stay public; everything else under /api requires a session or an API token
+app.use('/api/auth', authRouter)
+app.use('/api', authenticateApiToken)
+app.use('/api', requireAuth)
+
 // Routes
-app.use('/api/receipts', receiptsRouter)
-app.use('/api/flags', flagsRouter)
-app.use('/api/users', usersRouter)
-app.use('/api/receipt-types', receiptTypesRouter)
-app.use('/api/receipt-type-groups', receiptTypeGroupsRouter)
-app.use('/api/settings', settingsRouter)
+// Receipts and stats are limited to the account's users; most settings can only be changed by admins
+app.use('/api/accounts', accountsRouter)
+app.use('/api/tokens', apiTokensRouter)
+app.use('/api/receipts', requireRoleForChanges('admin', 'editor'), receiptsRouter)
+app.use('/api/trash', requireRoleForChanges('admin', 'editor'), trashRouter)
+app.use('/api/flags', requireRoleForChanges('admin', 'editor'), flagsRouter)
+app.use('/api/users', requireRoleForChanges('admin'), usersRouter)
+app.use('/api/receipt-types', requireRoleForChanges('admin'), receiptTypesRouter)
+app.use('/api/receipt-type-groups', requireRoleForChanges('admin'), receiptTypeGroupsRouter)
+app.use('/api/settings', requireRoleForChanges('admin'), settingsRouter)
 app.use('/api/export', exportRouter)
-app.use('/api/filenames', filenamesRouter)
-app.use('/api/watch', watchRouter)
-app.use('/api/images', imagesRouter)
+app.use('/api/import', requireRole('admin'), importRouter)
+app.use('/api/filenames', requireRole('admin'), filenamesRouter)
+app.use('/api/watch', requireRoleForChanges('admin'), watchRouter)
+app.use('/api/import-rules', requireRoleForChanges('admin'), importRulesRouter)
+app.use('/api/images', requireRole('admin'), imagesRouter)
+app.use('/api/jobs', requireRole('admin'), jobsRouter)
+app.use('/api/events', eventsRouter)
+app.use('/api/stats', statsRouter)
+app.use('/api/search', searchRouter)
+app.use('/api/duplicates', requireRoleForChanges('admin', 'editor'), duplicatesRouter)
+app.use('/api/backups', requireRole('admin'), backupsRouter)
 
 // Health check - verifies database connectivity
 app.get('/health', (req, res) => {
@@ -162,9 +197,20 @@ app.listen(PORT, () => {
 	logger.debug(`Environment: ${process.env.NODE_ENV || 'development'}`)
 	logger.debug(`Database: ${process.env.DB_DIR || '/data'}/medstash.db`)
 	logger.debug(`Receipts: ${process.env.RECEIPTS_DIR || '/data/receipts'}`)
+	logger.debug(`Backups: ${getBackupDir()}`)
+	logger.debug(`Authentication: ${isAuthEnabled() ? 'enabled' : 'disabled'}`)
 
 	// Start watch service
 	startWatchService()
+
+	// Resume queued background jobs
+	startJobWorker()
+
+	// Start scheduled backups
+	startBackupScheduler()
+
+	// Purge items that have been in the trash longer than the retention period
+	startTrashPurgeScheduler()
 })
 
 export default app
@@ -0,0 +1,295 @@
+import crypto from 'crypto'
+import { dbQueries } from '../db'
+import {
+	Account,
+	AccountRole,
+	ApiToken,
+	ApiTokenScope,
+	CreatedApiToken,
+	PublicAccount,
+	PublicApiToken,
+	Session,
+	UpdateAccountInput,
+} from '../models/auth'
+
+export const SESSION_COOKIE_NAME = 'medstash_session'
+
+// Sessions last this long after login before the user has to sign in again
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+const SCRYPT_KEY_LENGTH = 64
+
+// Prefix of API tokens so they are recognizable in scripts and secret scanners
+const API_TOKEN_PREFIX = 'msk_'
+
+/**
+ * Check if built-in authentication is enabled
+ * Off by default so existing single-household installs keep working without a login
+ */
+export function isAuthEnabled(): boolean {
+	return process.env.AUTH_ENABLED === 'true'
+}
+
+function scrypt(password: string, salt: Buffer): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)))
+	})
+}
+
+/**
+ * Hash a password with a random salt
+ * Format: scrypt$<salt hex>$<key hex>
+ */
+export async function hashPassword(password: string): Promise<string> {
+	const salt = crypto.randomBytes(16)
+	const key = await scrypt(password, salt)
+	return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+	const [algorithm, saltHex, keyHex] = passwordHash.split('$')
+	if (algorithm !== 'scrypt' || !saltHex || !keyHex) {
+		return false
+	}
+	const expected = Buffer.from(keyHex, 'hex')
+	const actual = await scrypt(password, Buffer.from(saltHex, 'hex'))
+	return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
+
+function toPublicAccount(account: Account): PublicAccount {
+	const { password_hash: _passwordHash, ...publicAccount } = account
+	const userIds = (dbQueries.getAccountUserIds.all(account.id) as Array<{ user_id: number }>).map(row => row.user_id)
+	return { ...publicAccount, user_ids: userIds }
+}
+
+/**
+ * Hash a session token for storage so a leaked database can't be used to log in
+ */
+function hashToken(token: string): string {
+	return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Get all login accounts
+ */
+export function getAllAccounts(): PublicAccount[] {
+	return (dbQueries.getAllAccounts.all() as Account[]).map(toPublicAccount)
+}
+
+/**
+ * Get a login account by ID
+ */
+export function getAccountById(id: number): PublicAccount | null {
+	const account = dbQueries.getAccountById.get(id) as Account | undefined
+	return account ? toPublicAccount(account) : null
+}
+
+/**
+ * Get the number of login accounts
+ */
+export function getAccountCount(): number {
+	return (dbQueries.countAccounts.get() as { count: number }).count
+}
+
+/**
+ * Check if a username is already taken (case-insensitive)
+ */
+export function accountExists(username: string): boolean {
+	return dbQueries.getAccountByUsername.get(username) !== undefined
+}
+
+/**
+ * Replace the users whose receipts an account can access
+ */
+function setAccountUsers(accountId: number, userIds: number[]): void {
+	dbQueries.deleteAccountUsers.run(accountId)
+	for (const userId of userIds) {
+		dbQueries.insertAccountUser.run(accountId, userId)
+	}
+}
+
+/**
+ * Create a login account with a hashed password
+ */
+export async function createAccount(
+	username: string,
+	password: string,
+	role: AccountRole = 'admin',
+	userIds: number[] = []
+): Promise<PublicAccount> {
+	const passwordHash = await hashPassword(password)
+	const result = dbQueries.insertAccount.run(username, passwordHash, role)
+	const accountId = Number(result.lastInsertRowid)
+	setAccountUsers(accountId, userIds)
+	return getAccountById(accountId) as PublicAccount
+}
+
+/**
+ * Create the first account as an admin
+ * The insert itself checks that no account exists, so two setups racing each other can't both succeed
+ * Returns null if an account already exists
+ */
+export async function createFirstAccount(username: string, password: string): Promise<PublicAccount | null> {
+	const passwordHash = await hashPassword(password)
+	const result = dbQueries.insertFirstAccount.run(username, passwordHash, 'admin')
+	if (result.changes === 0) {
+		return null
+	}
+	return getAccountById(Number(result.lastInsertRowid)) as PublicAccount
+}
+
+/**
+ * Update an account's role and the users it can access
+ */
+export function updateAccount(id: number, data: UpdateAccountInput): PublicAccount | null {
+	if (!dbQueries.getAccountById.get(id)) {
+		return null
+	}
+	if (data.role !== undefined) {
+		dbQueries.updateAccountRole.run(data.role, id)
+	}
+	if (data.user_ids !== undefined) {
+		setAccountUsers(id, data.user_ids)
+	}
+	return getAccountById(id)
+}
+
+/**
+ * Get the IDs of the users whose receipts an account can access
+ * Returns undefined when access is not restricted (authentication disabled or an admin account)
+ */
+export function getUserScope(account?: PublicAccount): number[] | undefined {
+	if (!account || account.role === 'admin') {
+		return undefined
+	}
+	return account.user_ids
+}
+
+/**
+ * Delete a login account and all of its sessions
+ */
+export function deleteAccount(id: number): boolean {
+	return dbQueries.deleteAccount.run(id).changes > 0
+}
+
+/**
+ * Check a username and password
+ * Returns the account on success and records the login time
+ */
+export async function authenticate(username: string, password: string): Promise<PublicAccount | null> {
+	const account = dbQueries.getAccountByUsername.get(username) as Account | undefined
+	if (!account) {
+		// Hash anyway so unknown usernames take as long as wrong passwords
+		await scrypt(password, crypto.randomBytes(16))
+		return null
+	}
+	if (!(await verifyPassword(password, account.password_hash))) {
+		return null
+	}
+	dbQueries.updateAccountLastLogin.run(account.id)
+	return getAccountById(account.id)
+}
+
+/**
+ * Change an account's password after checking the current one
+ * Other sessions of the account are signed out; the session making the change stays valid
+ */
+export async function changePassword(
+	accountId: number,
+	currentPassword: string,
+	newPassword: string,
+	currentSessionToken: string | null
+): Promise<boolean> {
+	const account = dbQueries.getAccountById.get(accountId) as Account | undefined
+	if (!account || !(await verifyPassword(currentPassword, account.password_hash))) {
+		return false
+	}
+	dbQueries.updateAccountPassword.run(await hashPassword(newPassword), accountId)
+	dbQueries.deleteOtherSessions.run(accountId, currentSessionToken ? hashToken(currentSessionToken) : '')
+	return true
+}
+
+/**
+ * Start a session for an account
+ * Returns the token to hand to the browser; only its hash is stored
+ */
+export function createSession(accountId: number): { token: string; expiresAt: Date } {
+	dbQueries.deleteExpiredSessions.run(new Date().toISOString())
+
+	const token = crypto.randomBytes(32).toString('base64url')
+	const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+	dbQueries.insertSession.run(accountId, hashToken(token), expiresAt.toISOString())
+	return { token, expiresAt }
+}
+
+/**
+ * Get the account a session token belongs to, or null if the session is unknown or expired
+ */
+export function getSessionAccount(token: string): PublicAccount | null {
+	const session = dbQueries.getSessionByTokenHash.get(hashToken(token)) as Session | undefined
+	if (!session) {
+		return null
+	}
+	if (session.expires_at <= new Date().toISOString()) {
+		dbQueries.deleteSessionByTokenHash.run(session.token_hash)
+		return null
+	}
+	return getAccountById(session.account_id)
+}
+
+/**
+ * End a session
+ */
+export function deleteSession(token: string): void {
+	dbQueries.deleteSessionByTokenHash.run(hashToken(token))
+}
+
+function toPublicApiToken(apiToken: ApiToken): PublicApiToken {
+	const { token_hash: _tokenHash, ...publicApiToken } = apiToken
+	return publicApiToken
+}
+
+/**
+ * Get the API tokens of an account, newest first
+ */
+export function getApiTokens(accountId: number): PublicApiToken[] {
+	return (dbQueries.getApiTokensByAccountId.all(accountId) as ApiToken[]).map(toPublicApiToken)
+}
+
+/**
+ * Create an API token for an account
+ * Returns the full token, which can't be retrieved again; only its hash is stored
+ */
+export function createApiToken(accountId: number, name: string, scope: ApiTokenScope): CreatedApiToken {
+	const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url')
+	const result = dbQueries.insertApiToken.run(accountId, name, hashToken(token), token.slice(0, API_TOKEN_PREFIX.length + 6), scope)
+	const apiToken = dbQueries.getApiTokenById.get(Number(result.lastInsertRowid)) as ApiToken
+	return { ...toPublicApiToken(apiToken), token }
+}
+
+/**
+ * Revoke one of an account's API tokens
+ */
+export function deleteApiToken(accountId: number, id: number): boolean {
+	return dbQueries.deleteApiToken.run(id, accountId).changes > 0
+}
+
+/**
+ * Look up an API token and the account it acts for, recording when it was used
+ * Returns null for unknown or revoked tokens
+ */
+export function resolveApiToken(token: string): { apiToken: PublicApiToken; account: PublicAccount } | null {
+	const apiToken = dbQueries.getApiTokenByHash.get(hashToken(token)) as ApiToken | undefined
+	if (!apiToken) {
+		return null
+	}
+	const account = getAccountById(apiToken.account_id)
+	if (!account) {
+		return null
+	}
+	dbQueries.updateApiTokenLastUsed.run(apiToken.id)
+	return { apiToken: toPublicApiToken(apiToken), account }
+}
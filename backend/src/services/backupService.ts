@@ -0,0 +1,559 @@
+import archiver from 'archiver'
+import Database from 'better-sqlite3'
+import crypto from 'crypto'
+import { once } from 'events'
+import { createReadStream, createWriteStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import { db } from '../db'
+import { clearThumbnailCache, getReceiptsDir } from './fileService'
+import { getAppliedMigrations, getMigrationFiles, runMigrations } from './migrationService'
+import { getWatchServiceStatus, startWatchService, stopWatchService } from './watchService'
+import { enqueueJob } from './jobService'
+import {
+	BACKUP_FORMAT_VERSION,
+	BACKUP_KINDS,
+	BackupInfo,
+	BackupKind,
+	BackupManifest,
+	BackupManifestFile,
+} from '../models/backup'
+import { JobContext } from '../models/job'
+import { readTarGz } from '../utils/tar'
+import { logger } from '../utils/logger'
+
+const DEFAULT_KEEP = 7
+
+const MANIFEST_ENTRY = 'manifest.json'
+const DATABASE_ENTRY = 'medstash.db'
+const RECEIPTS_ENTRY = 'receipts'
+
+// medstash-<kind>-<timestamp>.tar.gz
+const BACKUP_NAME_PATTERN = new RegExp(`^medstash-(${BACKUP_KINDS.join('|')})-[0-9T-]+\\.tar\\.gz$`)
+
+// Tables that describe this installation rather than its data, so a restore leaves them alone
+const KEPT_TABLES = ['schema_migrations', 'jobs']
+
+let scheduleInterval: NodeJS.Timeout | null = null
+
+/**
+ * Thrown when an archive isn't a complete MedStash backup that this version can restore
+ */
+export class BackupValidationError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'BackupValidationError'
+	}
+}
+
+/**
+ * Get the backup directory from the BACKUP_DIR environment variable
+ */
+export function getBackupDir(): string {
+	return process.env.BACKUP_DIR || path.join(process.env.DB_DIR || '/data', 'backups')
+}
+
+/**
+ * Get how often backups are made from the BACKUP_INTERVAL_HOURS environment variable
+ * Returns 0 if scheduled backups are off
+ */
+export function getBackupIntervalHours(): number {
+	const hours = parseFloat(process.env.BACKUP_INTERVAL_HOURS || '0')
+	return isNaN(hours) || hours < 0 ? 0 : hours
+}
+
+/**
+ * Get how many scheduled backups are kept from the BACKUP_KEEP environment variable
+ */
+export function getBackupKeep(): number {
+	const keep = parseInt(process.env.BACKUP_KEEP || String(DEFAULT_KEEP), 10)
+	return isNaN(keep) || keep < 1 ? DEFAULT_KEEP : keep
+}
+
+/**
+ * Check that a name is a backup archive name, so it can't point outside the backup directory
+ */
+export function isBackupName(name: string): boolean {
+	return BACKUP_NAME_PATTERN.test(name)
+}
+
+/**
+ * Get the kind of a backup from its name
+ */
+function getBackupKind(name: string): BackupKind {
+	return BACKUP_NAME_PATTERN.exec(name)?.[1] as BackupKind
+}
+
+/**
+ * Create a new backup name; the timestamp keeps names unique and sorted by age
+ */
+function createBackupName(kind: BackupKind): string {
+	const timestamp = new Date().toISOString().replace(/[:.]/g, '-').replace('Z', '') // YYYY-MM-DDTHH-MM-SS-mmm
+	return `medstash-${kind}-${timestamp}.tar.gz`
+}
+
+/**
+ * List the backup archives, newest first
+ */
+export async function listBackups(): Promise<BackupInfo[]> {
+	let names: string[]
+	try {
+		names = (await fs.readdir(getBackupDir())).filter(isBackupName)
+	} catch (error: any) {
+		if (error?.code === 'ENOENT') return []
+		throw error
+	}
+
+	const backups = await Promise.all(
+		names.map(async name => {
+			const stats = await fs.stat(path.join(getBackupDir(), name))
+			return { name, kind: getBackupKind(name), size: stats.size, created_at: stats.mtime.toISOString() }
+		})
+	)
+	return backups.sort((a, b) => b.created_at.localeCompare(a.created_at) || b.name.localeCompare(a.name))
+}
+
+/**
+ * Get the path of a backup archive
+ * Returns null if there is no backup with this name
+ */
+export async function getBackupPath(name: string): Promise<string | null> {
+	if (!isBackupName(name)) return null
+	const backupPath = path.join(getBackupDir(), name)
+	try {
+		await fs.access(backupPath)
+		return backupPath
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Delete a backup archive
+ * Returns false if there is no backup with this name
+ */
+export async function deleteBackup(name: string): Promise<boolean> {
+	const backupPath = await getBackupPath(name)
+	if (!backupPath) return false
+	await fs.unlink(backupPath)
+	return true
+}
+
+/**
+ * List the files below a directory, relative to it
+ */
+async function listFilesRecursive(dir: string, relativeTo = dir): Promise<string[]> {
+	let entries
+	try {
+		entries = await fs.readdir(dir, { withFileTypes: true })
+	} catch (error: any) {
+		if (error?.code === 'ENOENT') return []
+		throw error
+	}
+
+	const files: string[] = []
+	for (const entry of entries) {
+		const fullPath = path.join(dir, entry.name)
+		if (entry.isDirectory()) {
+			files.push(...(await listFilesRecursive(fullPath, relativeTo)))
+		} else if (entry.isFile()) {
+			files.push(path.relative(relativeTo, fullPath))
+		}
+	}
+	return files
+}
+
+/**
+ * Add a file to an archive and return its checksum, computed from the bytes that were archived
+ */
+async function archiveFile(archive: archiver.Archiver, filePath: string, name: string): Promise<BackupManifestFile> {
+	const stats = await fs.stat(filePath)
+	const hash = crypto.createHash('sha256')
+	const hashing = new Transform({
+		transform(chunk, _encoding, callback) {
+			hash.update(chunk)
+			callback(null, chunk)
+		},
+	})
+	archive.append(createReadStream(filePath).pipe(hashing), { name, stats })
+	// Files are added one at a time so large receipt trees don't open every file at once
+	await once(archive, 'entry')
+	return { path: name, size: stats.size, sha256: hash.digest('hex') }
+}
+
+/**
+ * Write a backup archive with a consistent copy of the database, the receipt files and a manifest
+ * The database is copied with SQLite's online backup API, so receipts can be changed while the backup runs
+ */
+export async function createBackup(kind: BackupKind = 'manual', context?: JobContext): Promise<BackupInfo & { files: number }> {
+	const backupDir = getBackupDir()
+	await fs.mkdir(backupDir, { recursive: true })
+
+	const name = createBackupName(kind)
+	const partialPath = path.join(backupDir, `.${name}.partial`)
+	const snapshotPath = path.join(backupDir, `.${name}.db`)
+
+	try {
+		await db.backup(snapshotPath)
+
+		// Read the manifest details from the snapshot, so they match the archived data exactly
+		const snapshot = new Database(snapshotPath, { readonly: true })
+		let migrations: string[]
+		let receiptCount: number
+		try {
+			migrations = Array.from(getAppliedMigrations(snapshot)).sort()
+			receiptCount = (snapshot.prepare('SELECT COUNT(*) AS count FROM receipts').get() as { count: number }).count
+		} finally {
+			snapshot.close()
+		}
+
+		const receiptsDir = getReceiptsDir()
+		const receiptFiles = await listFilesRecursive(receiptsDir)
+		const total = receiptFiles.length + 1
+
+		const archive = archiver('tar', { gzip: true })
+		const output = createWriteStream(partialPath)
+		const written = once(output, 'close')
+		archive.pipe(output)
+
+		const files: BackupManifestFile[] = [await archiveFile(archive, snapshotPath, DATABASE_ENTRY)]
+		context?.reportProgress(1, total)
+		for (const [index, file] of receiptFiles.entries()) {
+			context?.throwIfCancelled()
+			const entryName = path.posix.join(RECEIPTS_ENTRY, ...file.split(path.sep))
+			files.push(await archiveFile(archive, path.join(receiptsDir, file), entryName))
+			context?.reportProgress(index + 2, total)
+		}
+
+		const manifest: BackupManifest = {
+			format: 'medstash-backup',
+			format_version: BACKUP_FORMAT_VERSION,
+			kind,
+			created_at: new Date().toISOString(),
+			schema_version: migrations[migrations.length - 1] ?? null,
+			migrations,
+			receipt_count: receiptCount,
+			files,
+		}
+		archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_ENTRY })
+		await archive.finalize()
+		await written
+
+		// Only complete archives get a backup name
+		const backupPath = path.join(backupDir, name)
+		await fs.rename(partialPath, backupPath)
+		const stats = await fs.stat(backupPath)
+		logger.debug(`Created backup ${name} with ${files.length} file(s)`)
+
+		if (kind === 'scheduled') {
+			await pruneScheduledBackups()
+		}
+
+		return { name, kind, size: stats.size, created_at: stats.mtime.toISOString(), files: files.length }
+	} finally {
+		await fs.rm(partialPath, { force: true })
+		await fs.rm(snapshotPath, { force: true })
+	}
+}
+
+/**
+ * Delete the oldest scheduled backups beyond BACKUP_KEEP
+ * Manual, pre-restore and uploaded backups are only deleted by hand
+ */
+async function pruneScheduledBackups(): Promise<void> {
+	const scheduled = (await listBackups()).filter(backup => backup.kind === 'scheduled')
+	for (const backup of scheduled.slice(getBackupKeep())) {
+		await fs.unlink(path.join(getBackupDir(), backup.name))
+		logger.debug(`Deleted old scheduled backup ${backup.name}`)
+	}
+}
+
+/**
+ * Check that an archive path stays inside the directory it is extracted to
+ */
+function isSafeEntryPath(entryPath: string): boolean {
+	const normalized = path.posix.normalize(entryPath)
+	return !path.posix.isAbsolute(normalized) && normalized !== '..' && !normalized.startsWith('../')
+}
+
+/**
+ * Read a backup archive, optionally extracting it, and check it against its manifest
+ * Throws a BackupValidationError if the archive is damaged, incomplete or from a newer version
+ */
+async function readBackup(archivePath: string, extractTo?: string): Promise<BackupManifest> {
+	const checksums = new Map<string, { size: number; sha256: string }>()
+	let manifest: BackupManifest | null = null
+
+	try {
+		await readTarGz(archivePath, async (entry, content) => {
+			if (entry.type !== 'file') return
+			if (!isSafeEntryPath(entry.path)) {
+				throw new BackupValidationError(`Archive contains an unsafe path: ${entry.path}`)
+			}
+
+			if (entry.path === MANIFEST_ENTRY) {
+				const chunks: Buffer[] = []
+				for await (const chunk of content) chunks.push(chunk)
+				try {
+					manifest = JSON.parse(Buffer.concat(chunks).toString('utf-8'))
+				} catch {
+					throw new BackupValidationError('The backup manifest is not valid JSON')
+				}
+				return
+			}
+
+			const hash = crypto.createHash('sha256')
+			const hashing = new Transform({
+				transform(chunk, _encoding, callback) {
+					hash.update(chunk)
+					callback(null, chunk)
+				},
+			})
+			if (extractTo) {
+				const target = path.join(extractTo, entry.path)
+				await fs.mkdir(path.dirname(target), { recursive: true })
+				await pipeline(content, hashing, createWriteStream(target))
+			} else {
+				for await (const chunk of content) hash.update(chunk)
+			}
+			checksums.set(entry.path, { size: entry.size, sha256: hash.digest('hex') })
+		})
+	} catch (error: any) {
+		if (error instanceof BackupValidationError) throw error
+		throw new BackupValidationError(`The archive can't be read: ${error?.message ?? error}`)
+	}
+
+	const result = manifest as BackupManifest | null
+	if (!result || result.format !== 'medstash-backup' || !Array.isArray(result.files)) {
+		throw new BackupValidationError('The archive is not a MedStash backup')
+	}
+	if (result.format_version > BACKUP_FORMAT_VERSION) {
+		throw new BackupValidationError('The backup was made by a newer version of MedStash')
+	}
+	const knownMigrations = new Set(getMigrationFiles())
+	const unknownMigration = (result.migrations ?? []).find(migration => !knownMigrations.has(migration))
+	if (unknownMigration) {
+		throw new BackupValidationError(`The backup was made by a newer version of MedStash (schema ${unknownMigration})`)
+	}
+	if (!result.files.some(file => file.path === DATABASE_ENTRY)) {
+		throw new BackupValidationError('The backup does not contain a database')
+	}
+	for (const file of result.files) {
+		const actual = checksums.get(file.path)
+		if (!actual) {
+			throw new BackupValidationError(`The backup is missing ${file.path}`)
+		}
+		if (actual.size !== file.size || actual.sha256 !== file.sha256) {
+			throw new BackupValidationError(`The checksum of ${file.path} does not match`)
+		}
+	}
+	return result
+}
+
+/**
+ * Check a backup archive without restoring it
+ */
+export function validateBackup(archivePath: string): Promise<BackupManifest> {
+	return readBackup(archivePath)
+}
+
+/**
+ * Store an uploaded archive with the backups, if it is a valid backup
+ */
+export async function importBackupArchive(uploadPath: string): Promise<BackupInfo> {
+	try {
+		await validateBackup(uploadPath)
+		const backupDir = getBackupDir()
+		await fs.mkdir(backupDir, { recursive: true })
+		const name = createBackupName('uploaded')
+		await fs.copyFile(uploadPath, path.join(backupDir, name))
+		const stats = await fs.stat(path.join(backupDir, name))
+		return { name, kind: 'uploaded', size: stats.size, created_at: stats.mtime.toISOString() }
+	} finally {
+		await fs.rm(uploadPath, { force: true })
+	}
+}
+
+/**
+ * Replace the contents of the live database with a restored one
+ * The tables are copied over the open connection, so prepared statements and other modules keep working
+ */
+function replaceDatabaseContents(restoredPath: string): void {
+	const tables = db.prepare("SELECT name, sql FROM main.sqlite_master WHERE type = 'table'").all() as Array<{
+		name: string
+		sql: string
+	}>
+	// Full-text indexes store their data in shadow tables that are filled through the index itself
+	const virtualTables = tables.filter(table => /^CREATE VIRTUAL TABLE/i.test(table.sql)).map(table => table.name)
+	const copiedTables = tables
+		.map(table => table.name)
+		.filter(
+			name =>
+				!name.startsWith('sqlite_') &&
+				!KEPT_TABLES.includes(name) &&
+				!virtualTables.some(virtualTable => name.startsWith(`${virtualTable}_`))
+		)
+
+	db.pragma('foreign_keys = OFF')
+	db.prepare('ATTACH DATABASE ? AS restored').run(restoredPath)
+	try {
+		db.transaction(() => {
+			for (const table of copiedTables) {
+				const columns = (db.prepare(`PRAGMA main.table_info("${table}")`).all() as Array<{ name: string }>).map(
+					column => `"${column.name}"`
+				)
+				if (virtualTables.includes(table)) columns.unshift('rowid')
+				db.exec(`DELETE FROM main."${table}"`)
+				db.exec(`INSERT INTO main."${table}" (${columns.join(', ')}) SELECT ${columns.join(', ')} FROM restored."${table}"`)
+			}
+
+			const hasSequence = (schema: string) =>
+				db.prepare(`SELECT 1 FROM ${schema}.sqlite_master WHERE name = 'sqlite_sequence'`).get() !== undefined
+			if (hasSequence('main')) {
+				db.exec(`DELETE FROM main.sqlite_sequence WHERE name NOT IN (${KEPT_TABLES.map(t => `'${t}'`).join(', ')})`)
+				if (hasSequence('restored')) {
+					db.exec(`
+            INSERT INTO main.sqlite_sequence (name, seq)
+            SELECT name, seq FROM restored.sqlite_sequence WHERE name NOT IN (${KEPT_TABLES.map(t => `'${t}'`).join(', ')})
+          `)
+				}
+			}
+
+			// Kept jobs may have been started by accounts that the backup doesn't have
+			db.exec('UPDATE jobs SET account_id = NULL WHERE account_id NOT IN (SELECT id FROM accounts)')
+
+			const violations = db.pragma('foreign_key_check') as unknown[]
+			if (violations.length > 0) {
+				throw new Error(`The restored database has ${violations.length} broken reference(s)`)
+			}
+		})()
+	} finally {
+		db.exec('DETACH DATABASE restored')
+		db.pragma('foreign_keys = ON')
+	}
+}
+
+/**
+ * Replace the receipt files with restored ones
+ * The receipts directory itself is kept, since it is often a mount point
+ */
+async function replaceReceiptFiles(restoredDir: string): Promise<void> {
+	const receiptsDir = getReceiptsDir()
+	await fs.mkdir(receiptsDir, { recursive: true })
+	for (const entry of await fs.readdir(receiptsDir)) {
+		await fs.rm(path.join(receiptsDir, entry), { recursive: true, force: true })
+	}
+
+	let entries: string[]
+	try {
+		entries = await fs.readdir(restoredDir)
+	} catch (error: any) {
+		if (error?.code === 'ENOENT') return
+		throw error
+	}
+	for (const entry of entries) {
+		try {
+			await fs.rename(path.join(restoredDir, entry), path.join(receiptsDir, entry))
+		} catch (error: any) {
+			// The backup directory can be on another volume than the receipts
+			if (error?.code !== 'EXDEV') throw error
+			await fs.cp(path.join(restoredDir, entry), path.join(receiptsDir, entry), { recursive: true })
+		}
+	}
+}
+
+/**
+ * Restore the database and receipt files from a backup
+ * The archive is checked before anything is changed, older schemas are migrated, and the current state
+ * is saved as a pre-restore backup first so the restore can be undone
+ */
+export async function restoreBackup(
+	name: string,
+	context?: JobContext
+): Promise<{ name: string; receipts: number; files: number; migrated: string[]; pre_restore_backup: string }> {
+	const archivePath = await getBackupPath(name)
+	if (!archivePath) {
+		throw new Error(`Backup not found: ${name}`)
+	}
+
+	const stagingDir = path.join(getBackupDir(), `.restore-${Date.now()}`)
+	try {
+		context?.reportProgress(0, 4)
+		const manifest = await readBackup(archivePath, stagingDir)
+		context?.reportProgress(1, 4)
+
+		// Bring backups from older versions up to the current schema
+		const restoredPath = path.join(stagingDir, DATABASE_ENTRY)
+		const restored = new Database(restoredPath)
+		let migrated: string[]
+		try {
+			const integrity = restored.pragma('integrity_check', { simple: true })
+			if (integrity !== 'ok') {
+				throw new BackupValidationError(`The backed up database is damaged: ${integrity}`)
+			}
+			const applied = getAppliedMigrations(restored)
+			runMigrations(restored)
+			migrated = Array.from(getAppliedMigrations(restored)).filter(migration => !applied.has(migration)).sort()
+		} finally {
+			restored.close()
+		}
+		context?.throwIfCancelled()
+
+		const preRestore = await createBackup('pre-restore')
+		context?.reportProgress(2, 4)
+
+		// Nothing may import into the old folders while their settings and receipts are replaced
+		const watchWasRunning = getWatchServiceStatus().enabled
+		stopWatchService()
+		try {
+			replaceDatabaseContents(restoredPath)
+			context?.reportProgress(3, 4)
+			await replaceReceiptFiles(path.join(stagingDir, RECEIPTS_ENTRY))
+			await clearThumbnailCache()
+		} finally {
+			if (watchWasRunning) {
+				startWatchService()
+			}
+		}
+		context?.reportProgress(4, 4)
+
+		logger.warn(`Restored backup ${name}; the previous state was saved as ${preRestore.name}`)
+		return {
+			name,
+			receipts: manifest.receipt_count,
+			files: manifest.files.length - 1,
+			migrated,
+			pre_restore_backup: preRestore.name,
+		}
+	} finally {
+		await fs.rm(stagingDir, { recursive: true, force: true })
+	}
+}
+
+/**
+ * Start making backups every BACKUP_INTERVAL_HOURS
+ */
+export function startBackupScheduler(): void {
+	const hours = getBackupIntervalHours()
+	if (hours === 0) {
+		logger.debug('Scheduled backups are off')
+		return
+	}
+
+	scheduleInterval = setInterval(() => {
+		enqueueJob('create-backup', { kind: 'scheduled' })
+	}, hours * 60 * 60 * 1000)
+	logger.debug(`Scheduled backups every ${hours} hour(s) to ${getBackupDir()}, keeping ${getBackupKeep()}`)
+}
+
+/**
+ * Stop making scheduled backups
+ */
+export function stopBackupScheduler(): void {
+	if (scheduleInterval) {
+		clearInterval(scheduleInterval)
+		scheduleInterval = null
+	}
+}
@@ -1,5 +1,9 @@
 import { dbQueries, db } from '../db'
 import { logger } from '../utils/logger'
+import { publishReceiptEvent } from './eventService'
+import { SYSTEM_HISTORY, diffReceiptSnapshots, recordReceiptHistory, snapshotReceipt } from './historyService'
+import { HistoryContext } from '../models/history'
+import { SETTING_KEYS } from '../models/settings'
 import {
 	Receipt,
 	ReceiptFile,
@@ -10,6 +14,14 @@ import {
 	User,
 	ReceiptType,
 	ReceiptTypeGroup,
+	ReimbursementStatus,
+	StatsTotals,
+	StatsSummary,
+	StatsSummaryRow,
+	StatsSummaryFilters,
+	ReceiptQuery,
+	ReceiptSortField,
+	ReceiptSearchResult,
 } from '../models/receipt'
 
 /**
@@ -27,14 +39,11 @@ function resolveReceiptNames(receipt: Receipt): ReceiptWithFilesAndNames {
 }
 
 /**
- * Get receipt by ID with files and flags
+ * Attach files, flags and user/type names to a receipt row
  */
-export function getReceiptById(id: number): ReceiptWithFilesAndNames | null {
-	const receipt = dbQueries.getReceiptById.get(id) as Receipt | null
-	if (!receipt) return null
-
-	const files = dbQueries.getFilesByReceiptId.all(id) as ReceiptFile[]
-	const flags = dbQueries.getFlagsByReceiptId.all(id) as Flag[]
+function withFilesAndNames(receipt: Receipt): ReceiptWithFilesAndNames {
+	const files = dbQueries.getFilesByReceiptId.all(receipt.id) as ReceiptFile[]
+	const flags = dbQueries.getFlagsByReceiptId.all(receipt.id) as Flag[]
 	const user = dbQueries.getUserById.get(receipt.user_id) as User | undefined
 	const receiptType = dbQueries.getReceiptTypeById.get(receipt.receipt_type_id) as ReceiptType | undefined
 
@@ -47,26 +56,214 @@ export function getReceiptById(id: number): ReceiptWithFilesAndNames | null {
 	}
 }
 
+/**
+ * Get receipt by ID with files and flags
+ * When userIds is given, receipts of other users are treated as missing
+ */
+export function getReceiptById(id: number, userIds?: number[]): ReceiptWithFilesAndNames | null {
+	const receipt = dbQueries.getReceiptById.get(id) as Receipt | null
+	if (!receipt || receipt.deleted_at) return null
+	if (userIds && !userIds.includes(receipt.user_id)) return null
+
+	return withFilesAndNames(receipt)
+}
+
+/**
+ * Get receipts in the trash with their files and flags, most recently deleted first
+ * When userIds is given, only receipts of those users are returned
+ */
+export function getTrashedReceipts(userIds?: number[]): ReceiptWithFilesAndNames[] {
+	const receipts = dbQueries.getTrashedReceipts.all() as Receipt[]
+	return receipts.filter(receipt => !userIds || userIds.includes(receipt.user_id)).map(withFilesAndNames)
+}
+
+/**
+ * Get a receipt in the trash by ID with its files and flags
+ * When userIds is given, receipts of other users are treated as missing
+ */
+export function getTrashedReceiptById(id: number, userIds?: number[]): ReceiptWithFilesAndNames | null {
+	const receipt = dbQueries.getReceiptById.get(id) as Receipt | null
+	if (!receipt || !receipt.deleted_at) return null
+	if (userIds && !userIds.includes(receipt.user_id)) return null
+
+	return withFilesAndNames(receipt)
+}
+
 /**
  * Get all receipts with files and flags
+ * When userIds is given, only receipts of those users are returned
  */
-export function getAllReceipts(flagId?: number): ReceiptWithFilesAndNames[] {
+export function getAllReceipts(flagId?: number, userIds?: number[]): ReceiptWithFilesAndNames[] {
 	const receipts = (flagId ? dbQueries.getReceiptsByFlag.all(flagId) : dbQueries.getAllReceipts.all()) as Receipt[]
 
-	return receipts.map(receipt => {
-		const files = dbQueries.getFilesByReceiptId.all(receipt.id) as ReceiptFile[]
-		const flags = dbQueries.getFlagsByReceiptId.all(receipt.id) as Flag[]
-		const user = dbQueries.getUserById.get(receipt.user_id) as User | undefined
-		const receiptType = dbQueries.getReceiptTypeById.get(receipt.receipt_type_id) as ReceiptType | undefined
+	return receipts.filter(receipt => !userIds || userIds.includes(receipt.user_id)).map(withFilesAndNames)
+}
 
-		return {
-			...receipt,
-			user: user?.name || 'Unknown',
-			type: receiptType?.name || 'Other',
-			files,
-			flags,
+const RECEIPT_SORT_COLUMNS: Record<ReceiptSortField, string> = {
+	date: 'r.date',
+	vendor: 'r.vendor COLLATE NOCASE',
+	type: 'rt.name COLLATE NOCASE',
+	user: 'u.name COLLATE NOCASE',
+	amount: 'r.amount',
+	created_at: 'r.created_at',
+	updated_at: 'r.updated_at',
+}
+
+/**
+ * Escape LIKE wildcards so user input is matched literally
+ */
+function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+/**
+ * Query receipts with filters, sorting and pagination.
+ * Returns the requested page together with the total number of matching receipts.
+ */
+export function queryReceipts(query: ReceiptQuery = {}): { receipts: ReceiptWithFilesAndNames[]; total: number } {
+	// Receipts in the trash are only listed by the trash
+	const conditions: string[] = ['r.deleted_at IS NULL']
+	const params: Array<string | number> = []
+
+	if (query.ids !== undefined) {
+		conditions.push('r.id IN (SELECT value FROM json_each(?))')
+		params.push(JSON.stringify(query.ids))
+	}
+	if (query.user_id !== undefined) {
+		conditions.push('r.user_id = ?')
+		params.push(query.user_id)
+	}
+	if (query.user_ids !== undefined) {
+		conditions.push('r.user_id IN (SELECT value FROM json_each(?))')
+		params.push(JSON.stringify(query.user_ids))
+	}
+	if (query.receipt_type_id !== undefined) {
+		conditions.push('r.receipt_type_id = ?')
+		params.push(query.receipt_type_id)
+	}
+	if (query.group_id !== undefined) {
+		conditions.push('rt.group_id = ?')
+		params.push(query.group_id)
+	}
+	if (query.date_from) {
+		conditions.push('r.date >= ?')
+		params.push(query.date_from)
+	}
+	if (query.date_to) {
+		conditions.push('r.date <= ?')
+		params.push(query.date_to)
+	}
+	if (query.amount_min !== undefined) {
+		conditions.push('r.amount >= ?')
+		params.push(query.amount_min)
+	}
+	if (query.amount_max !== undefined) {
+		conditions.push('r.amount <= ?')
+		params.push(query.amount_max)
+	}
+	if (query.vendor) {
+		conditions.push("r.vendor LIKE ? ESCAPE '\\'")
+		params.push(`%${escapeLike(query.vendor)}%`)
+	}
+	if (query.reimbursement_status) {
+		conditions.push('r.reimbursement_status = ?')
+		params.push(query.reimbursement_status)
+	}
+	if (query.flag_ids && query.flag_ids.length > 0) {
+		const placeholders = query.flag_ids.map(() => '?').join(', ')
+		if (query.flag_match === 'all') {
+			// Receipt must carry every requested flag
+			conditions.push(
+				`(SELECT COUNT(DISTINCT rf.flag_id) FROM receipt_flags rf WHERE rf.receipt_id = r.id AND rf.flag_id IN (${placeholders})) = ?`
+			)
+			params.push(...query.flag_ids, new Set(query.flag_ids).size)
+		} else {
+			conditions.push(`EXISTS (SELECT 1 FROM receipt_flags rf WHERE rf.receipt_id = r.id AND rf.flag_id IN (${placeholders}))`)
+			params.push(...query.flag_ids)
 		}
-	})
+	}
+	if (query.q) {
+		// Use the full-text index for receipt content, plus substring matches on vendor, user and type names
+		const pattern = `%${escapeLike(query.q)}%`
+		const likeColumns = ['r.vendor', 'u.name', 'rt.name']
+		const searchConditions = likeColumns.map(column => `${column} LIKE ? ESCAPE '\\'`)
+		const searchParams: Array<string | number> = likeColumns.map(() => pattern)
+		const matchQuery = buildSearchMatchQuery(query.q)
+		if (matchQuery) {
+			searchConditions.unshift('r.id IN (SELECT rowid FROM receipts_fts WHERE receipts_fts MATCH ?)')
+			searchParams.unshift(matchQuery)
+		}
+		conditions.push(`(${searchConditions.join(' OR ')})`)
+		params.push(...searchParams)
+	}
+
+	const fromClause = `
+		FROM receipts r
+		LEFT JOIN users u ON r.user_id = u.id
+		LEFT JOIN receipt_types rt ON r.receipt_type_id = rt.id
+		WHERE ${conditions.join(' AND ')}
+	`
+
+	const { total } = db.prepare(`SELECT COUNT(*) as total ${fromClause}`).get(...params) as { total: number }
+
+	const sortColumn = RECEIPT_SORT_COLUMNS[query.sort || 'date']
+	const direction = query.order === 'asc' ? 'ASC' : 'DESC'
+	let sql = `SELECT r.* ${fromClause} ORDER BY ${sortColumn} ${direction}, r.created_at ${direction}, r.id ${direction}`
+	const pageParams = [...params]
+	if (query.limit !== undefined) {
+		sql += ' LIMIT ? OFFSET ?'
+		pageParams.push(query.limit, query.offset ?? 0)
+	}
+
+	const receipts = db.prepare(sql).all(...pageParams) as Receipt[]
+
+	return { receipts: receipts.map(withFilesAndNames), total }
+}
+
+/**
+ * Rebuild the full-text search entry for a receipt from its current metadata, flags and file text
+ */
+export function syncReceiptSearchIndex(receiptId: number): void {
+	dbQueries.deleteReceiptSearchEntry.run(receiptId)
+	dbQueries.insertReceiptSearchEntry.run(receiptId)
+}
+
+/**
+ * Convert free-text input into a safe FTS5 query.
+ * Each word becomes a quoted prefix term so punctuation can't break the MATCH syntax.
+ */
+function buildSearchMatchQuery(text: string): string | null {
+	const terms = text
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(term => term.length > 0)
+	if (terms.length === 0) return null
+	return terms.map(term => `"${term}"*`).join(' ')
+}
+
+/**
+ * Full-text search across receipt metadata, flag names and extracted file text.
+ * Results are ranked by relevance and include a highlighted snippet.
+ * When userIds is given, only receipts of those users are searched.
+ */
+export function searchReceipts(text: string, limit = 20, userIds?: number[]): ReceiptSearchResult[] {
+	const matchQuery = buildSearchMatchQuery(text)
+	if (!matchQuery) return []
+
+	const hits = dbQueries.searchReceipts.all({
+		query: matchQuery,
+		user_ids: userIds ? JSON.stringify(userIds) : null,
+		limit,
+	}) as Array<{ receipt_id: number; rank: number; snippet: string }>
+
+	const results: ReceiptSearchResult[] = []
+	for (const hit of hits) {
+		const receipt = getReceiptById(hit.receipt_id)
+		if (receipt) {
+			results.push({ receipt, rank: hit.rank, snippet: hit.snippet })
+		}
+	}
+	return results
 }
 
 /**
@@ -115,10 +312,54 @@ function resolveReceiptTypeId(typeId?: number, typeName?: string): number {
 	return result.lastInsertRowid as number
 }
 
+type ReimbursementFields = Pick<Receipt, 'reimbursement_status' | 'reimbursed_date' | 'reimbursed_amount' | 'hsa_transaction_ref'>
+
+/**
+ * Normalize reimbursement fields so they stay consistent with the status.
+ * Unreimbursed receipts carry no reimbursement details; fully reimbursed receipts
+ * default to the receipt amount and today's date when those are not provided.
+ */
+function normalizeReimbursement(fields: ReimbursementFields, receiptAmount: number): ReimbursementFields {
+	if (fields.reimbursement_status === 'unreimbursed') {
+		return {
+			reimbursement_status: 'unreimbursed',
+			reimbursed_date: null,
+			reimbursed_amount: null,
+			hsa_transaction_ref: fields.hsa_transaction_ref || null,
+		}
+	}
+
+	return {
+		reimbursement_status: fields.reimbursement_status,
+		reimbursed_date:
+			fields.reimbursed_date ||
+			(fields.reimbursement_status === 'reimbursed' ? new Date().toISOString().split('T')[0] : null),
+		reimbursed_amount:
+			fields.reimbursed_amount ?? (fields.reimbursement_status === 'reimbursed' ? receiptAmount : null),
+		hsa_transaction_ref: fields.hsa_transaction_ref || null,
+	}
+}
+
+/**
+ * Check whether any reimbursement field is present in the input
+ */
+function hasReimbursementFields(data: Partial<ReimbursementFields>): boolean {
+	return (
+		data.reimbursement_status !== undefined ||
+		data.reimbursed_date !== undefined ||
+		data.reimbursed_amount !== undefined ||
+		data.hsa_transaction_ref !== undefined
+	)
+}
+
 /**
  * Create a new receipt
  */
-export function createReceipt(receiptData: CreateReceiptInput, flagIds: number[] = []): ReceiptWithFilesAndNames {
+export function createReceipt(
+	receiptData: CreateReceiptInput,
+	flagIds: number[] = [],
+	history: HistoryContext = SYSTEM_HISTORY
+): ReceiptWithFilesAndNames {
 	// Resolve user and type IDs
 	const userId = resolveUserId(receiptData.user_id, receiptData.user)
 	const receiptTypeId = resolveReceiptTypeId(receiptData.receipt_type_id, receiptData.type)
@@ -135,6 +376,26 @@ export function createReceipt(receiptData: CreateReceiptInput, flagIds: number[]
 
 	const receiptId = result.lastInsertRowid as number
 
+	// Store reimbursement details if provided
+	if (hasReimbursementFields(receiptData)) {
+		const reimbursement = normalizeReimbursement(
+			{
+				reimbursement_status: (receiptData.reimbursement_status || 'unreimbursed') as ReimbursementStatus,
+				reimbursed_date: receiptData.reimbursed_date,
+				reimbursed_amount: receiptData.reimbursed_amount,
+				hsa_transaction_ref: receiptData.hsa_transaction_ref,
+			},
+			amount
+		)
+		dbQueries.updateReceiptReimbursement.run(
+			reimbursement.reimbursement_status,
+			reimbursement.reimbursed_date,
+			reimbursement.reimbursed_amount,
+			reimbursement.hsa_transaction_ref,
+			receiptId
+		)
+	}
+
 	// Add flags
 	if (flagIds.length > 0) {
 		for (const flagId of flagIds) {
@@ -142,7 +403,12 @@ export function createReceipt(receiptData: CreateReceiptInput, flagIds: number[]
 		}
 	}
 
-	return getReceiptById(receiptId)!
+	syncReceiptSearchIndex(receiptId)
+	const receipt = getReceiptById(receiptId)!
+	recordReceiptHistory(receiptId, 'created', diffReceiptSnapshots(null, snapshotReceipt(receipt)), history)
+	publishReceiptEvent('receipt.created', { receipt_id: receiptId, user_id: userId })
+
+	return receipt
 }
 
 /**
@@ -156,10 +422,12 @@ export async function updateReceipt(
 		user_id?: number
 		receipt_type_id?: number
 	},
-	flagIds?: number[]
+	flagIds?: number[],
+	history: HistoryContext = SYSTEM_HISTORY
 ): Promise<ReceiptWithFilesAndNames | null> {
 	const existing = dbQueries.getReceiptById.get(id) as Receipt | null
-	if (!existing) return null
+	if (!existing || existing.deleted_at) return null
+	const before = snapshotReceipt(withFilesAndNames(existing))
 
 	// Resolve user and type IDs if provided as strings
 	let userId = existing.user_id
@@ -232,6 +500,31 @@ export async function updateReceipt(
 		id
 	)
 
+	// Update reimbursement details if any were provided
+	if (hasReimbursementFields(receiptData)) {
+		const reimbursement = normalizeReimbursement(
+			{
+				reimbursement_status: receiptData.reimbursement_status ?? existing.reimbursement_status,
+				reimbursed_date:
+					receiptData.reimbursed_date !== undefined ? receiptData.reimbursed_date : existing.reimbursed_date,
+				reimbursed_amount:
+					receiptData.reimbursed_amount !== undefined ? receiptData.reimbursed_amount : existing.reimbursed_amount,
+				hsa_transaction_ref:
+					receiptData.hsa_transaction_ref !== undefined
+						? receiptData.hsa_transaction_ref
+						: existing.hsa_transaction_ref,
+			},
+			updated.amount
+		)
+		dbQueries.updateReceiptReimbursement.run(
+			reimbursement.reimbursement_status,
+			reimbursement.reimbursed_date,
+			reimbursement.reimbursed_amount,
+			reimbursement.hsa_transaction_ref,
+			id
+		)
+	}
+
 	// Update flags if provided (before renaming so we have the correct flags)
 	if (flagIds !== undefined) {
 		dbQueries.deleteReceiptFlags.run(id)
@@ -240,6 +533,9 @@ export async function updateReceipt(
 		}
 	}
 
+	syncReceiptSearchIndex(id)
+	recordReceiptHistory(id, 'updated', diffReceiptSnapshots(before, snapshotReceipt(getReceiptById(id)!)), history)
+
 	// Rename files if relevant fields or flags changed
 	if ((relevantFieldsChanged || userChanged || typeChanged || flagsChanged) && files.length > 0) {
 		const { renameReceiptFiles } = await import('./fileService')
@@ -261,6 +557,7 @@ export async function updateReceipt(
 			// Update database records with new filenames
 			for (const result of renameResults) {
 				dbQueries.updateReceiptFilename.run(result.newFilename, result.fileId)
+				recordFileRename(id, result, history)
 			}
 		} catch (error) {
 			logger.error('Error renaming receipt files:', error)
@@ -268,25 +565,75 @@ export async function updateReceipt(
 		}
 	}
 
+	publishReceiptEvent('receipt.updated', {
+		receipt_id: id,
+		user_id: updated.user_id,
+		...(userChanged ? { previous_user_id: existing.user_id } : {}),
+	})
+
 	return getReceiptById(id)
 }
 
 /**
- * Delete a receipt
+ * Record a renamed receipt file in the receipt's history
+ */
+export function recordFileRename(
+	receiptId: number,
+	rename: { fileId: number; oldFilename: string; newFilename: string },
+	history: HistoryContext
+): void {
+	if (rename.oldFilename === rename.newFilename) return
+	recordReceiptHistory(
+		receiptId,
+		'file_renamed',
+		{ filename: { old: rename.oldFilename, new: rename.newFilename } },
+		history,
+		rename.fileId
+	)
+}
+
+/**
+ * Permanently delete a receipt from the database, whether or not it is in the trash
+ * Receipts deleted by users go to the trash first (see trashService)
  */
-export function deleteReceipt(id: number): boolean {
+export function deleteReceipt(id: number, history: HistoryContext = SYSTEM_HISTORY): boolean {
 	const receipt = dbQueries.getReceiptById.get(id) as Receipt | null
 	if (!receipt) return false
 
+	recordReceiptHistory(id, 'purged', diffReceiptSnapshots(snapshotReceipt(withFilesAndNames(receipt)), null), history)
 	dbQueries.deleteReceipt.run(id)
+	dbQueries.deleteReceiptSearchEntry.run(id)
+	publishReceiptEvent('receipt.deleted', { receipt_id: id, user_id: receipt.user_id })
 	return true
 }
 
 /**
  * Add a file to a receipt
  */
-export function addReceiptFile(receiptId: number, filename: string, originalFilename: string, fileOrder: number): ReceiptFile {
+export function addReceiptFile(
+	receiptId: number,
+	filename: string,
+	originalFilename: string,
+	fileOrder: number,
+	history: HistoryContext = SYSTEM_HISTORY
+): ReceiptFile {
 	const result = dbQueries.insertReceiptFile.run(receiptId, filename, originalFilename, fileOrder)
+	recordReceiptHistory(
+		receiptId,
+		'file_added',
+		{ original_filename: { old: null, new: originalFilename }, filename: { old: null, new: filename } },
+		history,
+		Number(result.lastInsertRowid)
+	)
+
+	const receipt = dbQueries.getReceiptById.get(receiptId) as Receipt | undefined
+	if (receipt) {
+		publishReceiptEvent('receipt.file_added', {
+			receipt_id: receiptId,
+			user_id: receipt.user_id,
+			file_id: Number(result.lastInsertRowid),
+		})
+	}
 
 	const files = dbQueries.getFilesByReceiptId.all(receiptId) as ReceiptFile[]
 	return files.find(f => f.id === (result.lastInsertRowid as number)) as ReceiptFile
@@ -326,6 +673,15 @@ export function updateFlag(id: number, name?: string, color?: string): Flag | nu
 	const updatedColor = color !== undefined ? color : existing.color
 
 	dbQueries.updateFlag.run(updatedName, updatedColor || null, id)
+
+	// Flag names are part of the search index
+	if (updatedName !== existing.name) {
+		const receiptIds = dbQueries.getReceiptIdsByFlagId.all(id) as Array<{ receipt_id: number }>
+		for (const { receipt_id } of receiptIds) {
+			syncReceiptSearchIndex(receipt_id)
+		}
+	}
+
 	return dbQueries.getFlagById.get(id) as Flag
 }
 
@@ -336,7 +692,11 @@ export function deleteFlag(id: number): boolean {
 	const flag = dbQueries.getFlagById.get(id) as Flag | null
 	if (!flag) return false
 
+	const receiptIds = dbQueries.getReceiptIdsByFlagId.all(id) as Array<{ receipt_id: number }>
 	dbQueries.deleteFlag.run(id)
+	for (const { receipt_id } of receiptIds) {
+		syncReceiptSearchIndex(receipt_id)
+	}
 	return true
 }
 
@@ -348,11 +708,8 @@ export function getSetting(key: string): string | null {
 	return result?.value || null
 }
 
-// Whitelist of allowed setting keys for security (defense in depth)
-const ALLOWED_SETTING_KEYS = ['filenamePattern', 'imageOptimizationEnabled', 'excludedQuickVendors', 'customQuickVendors'] as const
-
 /**
- * Validate setting key is safe and in whitelist
+ * Validate setting key is safe and in whitelist (defense in depth, routes check it too)
  * In test mode, allows test keys (keys starting with 'test_' or 'key') for testing purposes
  */
 function isValidSettingKey(key: string): boolean {
@@ -368,7 +725,7 @@ function isValidSettingKey(key: string): boolean {
 	}
 
 	// Only allow keys in the whitelist
-	return ALLOWED_SETTING_KEYS.includes(key as any)
+	return (SETTING_KEYS as readonly string[]).includes(key)
 }
 
 /**
@@ -430,6 +787,7 @@ export function updateUser(id: number, name?: string): User | null {
 
 /**
  * Delete a user
+ * Receipts still referencing the user block the delete; move them first (see reassignService)
  */
 export function deleteUser(id: number): boolean {
 	const user = dbQueries.getUserById.get(id) as User | null
@@ -572,30 +930,12 @@ export function bulkUpdateReceiptTypes(updates: Array<{ id: number; group_id: nu
 
 /**
  * Delete a receipt type
- * Updates all receipts using this type to use a default type before deletion
+ * Receipts still using the type block the delete; move them first (see reassignService)
  */
 export function deleteReceiptType(id: number): boolean {
 	const type = dbQueries.getReceiptTypeById.get(id) as ReceiptType | null
 	if (!type) return false
 
-	// Check if any receipts are using this type
-	const receiptsUsingType = dbQueries.getReceiptsByReceiptType.all(id) as Receipt[]
-
-	if (receiptsUsingType.length > 0) {
-		// Find a replacement type (prefer "Other", otherwise use the first available type)
-		const allTypes = dbQueries.getAllReceiptTypes.all() as ReceiptType[]
-		const otherType = allTypes.find(t => t.id !== id && t.name.toLowerCase() === 'other')
-		const replacementType = otherType || allTypes.find(t => t.id !== id)
-
-		if (!replacementType) {
-			throw new Error('Cannot delete receipt type: it is the only type remaining')
-		}
-
-		// Update all receipts to use the replacement type
-		const updateReceiptType = db.prepare('UPDATE receipts SET receipt_type_id = ? WHERE receipt_type_id = ?')
-		updateReceiptType.run(replacementType.id, id)
-	}
-
 	dbQueries.deleteReceiptType.run(id)
 	return true
 }
@@ -739,3 +1079,84 @@ export function resetReceiptTypesToDefaults(
 
 	return transaction()
 }
+
+/**
+ * Round a currency value to cents
+ */
+function roundCurrency(value: number): number {
+	return Math.round(value * 100) / 100
+}
+
+/**
+ * Roll up summary rows into totals grouped by the given key
+ */
+function rollupStats<T extends object>(
+	rows: StatsSummaryRow[],
+	keyOf: (row: StatsSummaryRow) => string,
+	pick: (row: StatsSummaryRow) => T
+): Array<StatsTotals & T> {
+	const groups = new Map<string, StatsTotals & T>()
+	for (const row of rows) {
+		const key = keyOf(row)
+		let entry = groups.get(key)
+		if (!entry) {
+			entry = { ...pick(row), receipt_count: 0, total_spent: 0, total_reimbursed: 0, outstanding: 0 }
+			groups.set(key, entry)
+		}
+		entry.receipt_count += row.receipt_count
+		entry.total_spent = roundCurrency(entry.total_spent + row.total_spent)
+		entry.total_reimbursed = roundCurrency(entry.total_reimbursed + row.total_reimbursed)
+		entry.outstanding = roundCurrency(entry.outstanding + row.outstanding)
+	}
+	return Array.from(groups.values())
+}
+
+/**
+ * Get spending and reimbursement totals per user, year, receipt type group and reimbursement status
+ */
+export function getStatsSummary(filters: StatsSummaryFilters = {}): StatsSummary {
+	const userIds = filters.user_ids ? JSON.stringify(filters.user_ids) : null
+	const rawRows = dbQueries.getStatsSummaryRows.all({
+		user_id: filters.user_id ?? null,
+		year: filters.year ?? null,
+		user_ids: userIds,
+	}) as Array<Omit<StatsSummaryRow, 'user_name' | 'group_name'> & { user_name: string | null; group_name: string | null }>
+
+	const rows: StatsSummaryRow[] = rawRows.map(row => ({
+		...row,
+		user_name: row.user_name || 'Unknown',
+		group_name: row.group_name || 'Ungrouped',
+		total_spent: roundCurrency(row.total_spent || 0),
+		total_reimbursed: roundCurrency(row.total_reimbursed || 0),
+		outstanding: roundCurrency(row.outstanding || 0),
+	}))
+
+	const [totals] = rollupStats(rows, () => 'all', () => ({}))
+	const years = (dbQueries.getStatsYears.all({ user_ids: userIds }) as Array<{ year: string }>).map(row => row.year)
+
+	return {
+		totals: totals || { receipt_count: 0, total_spent: 0, total_reimbursed: 0, outstanding: 0 },
+		by_user: rollupStats(
+			rows,
+			row => String(row.user_id),
+			row => ({ user_id: row.user_id, user_name: row.user_name })
+		),
+		by_year: rollupStats(
+			rows,
+			row => row.year,
+			row => ({ year: row.year })
+		),
+		by_group: rollupStats(
+			rows,
+			row => String(row.group_id),
+			row => ({ group_id: row.group_id, group_name: row.group_name })
+		),
+		by_status: rollupStats(
+			rows,
+			row => row.reimbursement_status,
+			row => ({ reimbursement_status: row.reimbursement_status })
+		),
+		rows,
+		years,
+	}
+}
@@ -0,0 +1,197 @@
+import crypto from 'crypto'
+import { createReadStream } from 'fs'
+import sharp from 'sharp'
+import { dbQueries } from '../db'
+import { getReceiptById } from './dbService'
+import { findReceiptFilePath, isImageFile } from './fileService'
+import { DuplicateMatch, DuplicatePair, DuplicateReason, FileHashes } from '../models/duplicate'
+import { JobContext } from '../models/job'
+import { ReceiptFile } from '../models/receipt'
+import { logger } from '../utils/logger'
+
+// Images whose perceptual hashes differ in at most this many of 64 bits look the same
+const SIMILAR_IMAGE_MAX_DISTANCE = 6
+
+/**
+ * Compute the SHA-256 of a file
+ */
+function hashFileContent(filePath: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const hash = crypto.createHash('sha256')
+		createReadStream(filePath)
+			.on('data', chunk => hash.update(chunk))
+			.on('end', () => resolve(hash.digest('hex')))
+			.on('error', reject)
+	})
+}
+
+/**
+ * Compute the difference hash of an image: shrink it to 9x8 grayscale pixels
+ * and record whether each pixel is brighter than its right neighbor
+ * Returns null if the image can't be decoded
+ */
+async function hashImage(filePath: string): Promise<string | null> {
+	try {
+		const pixels = await sharp(filePath).rotate().grayscale().resize(9, 8, { fit: 'fill' }).raw().toBuffer()
+		let bits = ''
+		for (let row = 0; row < 8; row++) {
+			for (let col = 0; col < 8; col++) {
+				bits += pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? '1' : '0'
+			}
+		}
+		return BigInt(`0b${bits}`).toString(16).padStart(16, '0')
+	} catch (error) {
+		logger.debug(`Cannot compute perceptual hash of ${filePath}: ${error}`)
+		return null
+	}
+}
+
+/**
+ * Count the bits in which two perceptual hashes differ
+ */
+export function hammingDistance(a: string, b: string): number {
+	let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`)
+	let count = 0
+	while (diff > 0n) {
+		count += Number(diff & 1n)
+		diff >>= 1n
+	}
+	return count
+}
+
+/**
+ * Fingerprint a file before it is stored
+ * The original name decides whether the file is an image, since uploads are stored under temporary names
+ */
+export async function computeFileHashes(filePath: string, originalFilename: string): Promise<FileHashes> {
+	return {
+		content_hash: await hashFileContent(filePath),
+		perceptual_hash: isImageFile(originalFilename) ? await hashImage(filePath) : null,
+	}
+}
+
+/**
+ * Store the fingerprints of a receipt file
+ */
+export function setReceiptFileHashes(fileId: number, hashes: FileHashes): void {
+	dbQueries.updateReceiptFileHashes.run(hashes.content_hash, hashes.perceptual_hash, fileId)
+}
+
+/**
+ * Find existing receipt files that match new files
+ * Only receipts of the given users are searched, so accounts don't learn about receipts they can't see
+ */
+export function findDuplicateFiles(hashes: FileHashes[], userIds?: number[]): DuplicateMatch[] {
+	type FileMatchRow = { id: number; receipt_id: number; original_filename: string; user_id: number }
+	const isVisible = (row: FileMatchRow) => !userIds || userIds.includes(row.user_id)
+	const matches = new Map<number, DuplicateMatch>()
+
+	for (const { content_hash } of hashes) {
+		for (const row of (dbQueries.getFilesByContentHash.all(content_hash) as FileMatchRow[]).filter(isVisible)) {
+			matches.set(row.id, { receipt_id: row.receipt_id, file_id: row.id, original_filename: row.original_filename, reason: 'identical_file' })
+		}
+	}
+
+	const imageHashes = hashes.map(h => h.perceptual_hash).filter((hash): hash is string => hash !== null)
+	if (imageHashes.length > 0) {
+		const rows = (dbQueries.getPerceptualHashes.all() as Array<FileMatchRow & { perceptual_hash: string }>).filter(isVisible)
+		for (const row of rows) {
+			if (!matches.has(row.id) && imageHashes.some(hash => hammingDistance(hash, row.perceptual_hash) <= SIMILAR_IMAGE_MAX_DISTANCE)) {
+				matches.set(row.id, { receipt_id: row.receipt_id, file_id: row.id, original_filename: row.original_filename, reason: 'similar_image' })
+			}
+		}
+	}
+
+	return Array.from(matches.values())
+}
+
+/**
+ * Find pairs of receipts that are likely duplicates, leaving out pairs marked as not being duplicates
+ * Only receipts of the given users are included
+ */
+export function findPossibleDuplicates(userIds?: number[]): DuplicatePair[] {
+	type PairRow = { receipt_id: number; other_receipt_id: number }
+	const pairs = new Map<string, { receiptId: number; otherReceiptId: number; reasons: Set<DuplicateReason> }>()
+	const addPair = (a: number, b: number, reason: DuplicateReason) => {
+		const [receiptId, otherReceiptId] = a < b ? [a, b] : [b, a]
+		const key = `${receiptId}-${otherReceiptId}`
+		if (!pairs.has(key)) {
+			pairs.set(key, { receiptId, otherReceiptId, reasons: new Set() })
+		}
+		pairs.get(key)!.reasons.add(reason)
+	}
+
+	for (const row of dbQueries.getIdenticalFileReceiptPairs.all() as PairRow[]) {
+		addPair(row.receipt_id, row.other_receipt_id, 'identical_file')
+	}
+
+	const images = dbQueries.getPerceptualHashes.all() as Array<{ receipt_id: number; perceptual_hash: string }>
+	for (let i = 0; i < images.length; i++) {
+		for (let j = i + 1; j < images.length; j++) {
+			if (
+				images[i].receipt_id !== images[j].receipt_id &&
+				hammingDistance(images[i].perceptual_hash, images[j].perceptual_hash) <= SIMILAR_IMAGE_MAX_DISTANCE
+			) {
+				addPair(images[i].receipt_id, images[j].receipt_id, 'similar_image')
+			}
+		}
+	}
+
+	for (const row of dbQueries.getSameDetailsReceiptPairs.all() as PairRow[]) {
+		addPair(row.receipt_id, row.other_receipt_id, 'same_details')
+	}
+
+	for (const row of dbQueries.getDuplicateDismissals.all() as PairRow[]) {
+		pairs.delete(`${row.receipt_id}-${row.other_receipt_id}`)
+	}
+
+	const result: DuplicatePair[] = []
+	for (const pair of pairs.values()) {
+		const receipt = getReceiptById(pair.receiptId, userIds)
+		const other = getReceiptById(pair.otherReceiptId, userIds)
+		if (receipt && other) {
+			// Identical files imply similar images, so only the strongest file reason is listed
+			const reasons = Array.from(pair.reasons).filter(r => r !== 'similar_image' || !pair.reasons.has('identical_file'))
+			result.push({ receipts: [receipt, other], reasons })
+		}
+	}
+	// Newest duplicates first
+	return result.sort((a, b) => b.receipts[1].id - a.receipts[1].id || b.receipts[0].id - a.receipts[0].id)
+}
+
+/**
+ * Mark two receipts as not being duplicates, so they are no longer listed together
+ */
+export function dismissDuplicate(receiptId: number, otherReceiptId: number): void {
+	const [a, b] = receiptId < otherReceiptId ? [receiptId, otherReceiptId] : [otherReceiptId, receiptId]
+	dbQueries.insertDuplicateDismissal.run(a, b)
+}
+
+/**
+ * Fingerprint receipt files stored before duplicate detection existed
+ * Their content hash is taken from the stored file, which matches the upload unless the image was optimized
+ */
+export async function hashExistingFiles(context?: JobContext): Promise<{ total: number; hashed: number; errors: string[] }> {
+	const files = dbQueries.getUnhashedFiles.all() as ReceiptFile[]
+	const errors: string[] = []
+	let hashed = 0
+
+	for (let i = 0; i < files.length; i++) {
+		context?.throwIfCancelled()
+		const file = files[i]
+		const filePath = await findReceiptFilePath(file.receipt_id, file.filename)
+		if (!filePath) {
+			errors.push(`File not found: ${file.filename}`)
+		} else {
+			try {
+				setReceiptFileHashes(file.id, await computeFileHashes(filePath, file.filename))
+				hashed++
+			} catch (error: any) {
+				errors.push(`Failed to hash ${file.filename}: ${error.message}`)
+			}
+		}
+		context?.reportProgress(i + 1, files.length)
+	}
+
+	return { total: files.length, hashed, errors }
+}
@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events'
+import { ReceiptEventData, ServerEvent, ServerEventType } from '../models/event'
+
+const emitter = new EventEmitter()
+// Every open event stream adds a listener
+emitter.setMaxListeners(0)
+
+/**
+ * Publish an event to all subscribers
+ */
+export function publishEvent(type: ServerEventType, data: Record<string, unknown> = {}): void {
+	const event: ServerEvent = { type, data }
+	emitter.emit('event', event)
+}
+
+/**
+ * Publish a receipt.* event
+ */
+export function publishReceiptEvent(
+	type: Extract<ServerEventType, `receipt.${string}`>,
+	data: ReceiptEventData
+): void {
+	publishEvent(type, data)
+}
+
+/**
+ * Listen for published events
+ * Returns a function that stops listening
+ */
+export function subscribeToEvents(listener: (event: ServerEvent) => void): () => void {
+	emitter.on('event', listener)
+	return () => {
+		emitter.off('event', listener)
+	}
+}
@@ -0,0 +1,134 @@
+import archiver from 'archiver'
+import path from 'path'
+import { db } from '../db'
+import { getAllFlags, getAllReceiptTypeGroups, getAllReceiptTypes, getAllSettings, getAllUsers } from './dbService'
+import { findReceiptFilePath } from './fileService'
+import { generateReceiptFilename, sanitizeFilename } from '../utils/filename'
+import { getAppliedMigrations } from './migrationService'
+import { EXPORT_FORMAT_VERSION, ExportLayout, ExportManifest, ExportedReceipt } from '../models/export'
+import { ReceiptFile, ReceiptWithFilesAndNames } from '../models/receipt'
+
+export const MANIFEST_ENTRY = 'manifest.json'
+
+/**
+ * Describe the users, receipt types, flags and settings that exported receipts refer to
+ * Accounts limited to some users only export those users
+ */
+export function buildExportManifest(receiptCount: number, userIds?: number[]): ExportManifest {
+	const groups = getAllReceiptTypeGroups()
+	const migrations = Array.from(getAppliedMigrations(db)).sort()
+	return {
+		format: 'medstash-export',
+		format_version: EXPORT_FORMAT_VERSION,
+		schema_version: migrations[migrations.length - 1] ?? null,
+		exported_at: new Date().toISOString(),
+		users: getAllUsers()
+			.filter(user => !userIds || userIds.includes(user.id))
+			.map(user => ({ name: user.name })),
+		receipt_type_groups: groups.map(group => ({ name: group.name, display_order: group.display_order })),
+		receipt_types: getAllReceiptTypes().map(type => ({
+			name: type.name,
+			group: groups.find(group => group.id === type.group_id)?.name ?? null,
+			display_order: type.display_order,
+		})),
+		flags: getAllFlags().map(flag => ({ name: flag.name, color: flag.color ?? null })),
+		settings: getAllSettings(),
+		receipt_count: receiptCount,
+	}
+}
+
+/**
+ * Make an archive path unique by numbering it before the extension
+ */
+function uniqueEntryName(name: string, usedNames: Set<string>): string {
+	const ext = path.posix.extname(name)
+	const base = name.slice(0, name.length - ext.length)
+	let unique = name
+	for (let i = 2; usedNames.has(unique); i++) {
+		unique = `${base}-${i}${ext}`
+	}
+	usedNames.add(unique)
+	return unique
+}
+
+/**
+ * Folder of a receipt's metadata, and of its files except in the flat layout
+ */
+function getReceiptEntryDir(receipt: ReceiptWithFilesAndNames, layout: ExportLayout): string {
+	switch (layout) {
+		case 'receipt':
+			return `receipt-${receipt.id}`
+		case 'user-year':
+			return path.posix.join(sanitizeFilename(receipt.user || 'unknown'), receipt.date.slice(0, 4), `receipt-${receipt.id}`)
+		case 'flat':
+			// Metadata is kept apart so the files are the only thing at the top of the archive
+			return path.posix.join('metadata', `receipt-${receipt.id}`)
+	}
+}
+
+/**
+ * Add a receipt's metadata and files to an export archive
+ * Files that are missing on disk are left out; usedNames collects the paths already in the archive
+ */
+export async function appendReceipt(
+	archive: archiver.Archiver,
+	receipt: ReceiptWithFilesAndNames,
+	layout: ExportLayout,
+	usedNames: Set<string>
+): Promise<void> {
+	const receiptDir = getReceiptEntryDir(receipt, layout)
+	const files: Array<{ file: ReceiptFile; filePath: string; name: string }> = []
+	for (const file of receipt.files) {
+		const filePath = await findReceiptFilePath(receipt.id, file.filename)
+		if (!filePath) continue
+		const name =
+			layout === 'flat'
+				? generateReceiptFilename(
+						receipt.date,
+						receipt.user,
+						receipt.vendor,
+						receipt.amount,
+						receipt.type,
+						file.file_order,
+						path.extname(file.original_filename),
+						receipt.id,
+						receipt.flags
+					)
+				: path.posix.join(receiptDir, file.original_filename)
+		// Several files of a receipt can have the same original name
+		files.push({ file, filePath, name: uniqueEntryName(name, usedNames) })
+	}
+
+	const metadata: ExportedReceipt = {
+		id: receipt.id,
+		user: receipt.user,
+		type: receipt.type,
+		amount: receipt.amount,
+		vendor: receipt.vendor,
+		provider_address: receipt.provider_address,
+		description: receipt.description,
+		date: receipt.date,
+		notes: receipt.notes,
+		flags: receipt.flags.map(f => f.name),
+		reimbursement_status: receipt.reimbursement_status,
+		reimbursed_date: receipt.reimbursed_date ?? null,
+		reimbursed_amount: receipt.reimbursed_amount ?? null,
+		hsa_transaction_ref: receipt.hsa_transaction_ref ?? null,
+		files: files.map(({ file, name }) => ({
+			path: name,
+			original_filename: file.original_filename,
+			file_order: file.file_order,
+			extracted_text: file.extracted_text ?? null,
+			text_source: file.text_source ?? null,
+		})),
+		created_at: receipt.created_at,
+		updated_at: receipt.updated_at,
+	}
+
+	archive.append(JSON.stringify(metadata, null, 2), {
+		name: path.posix.join(receiptDir, 'metadata.json'),
+	})
+	for (const { filePath, name } of files) {
+		archive.file(filePath, { name })
+	}
+}
@@ -1,16 +1,35 @@
 import sharp from 'sharp'
 import fs from 'fs/promises'
 import path from 'path'
-import { generateReceiptFilename, sanitizeFilename } from '../utils/filename'
+import { generateReceiptDirectory, generateReceiptFilename, getDirectoryPattern } from '../utils/filename'
 import { ReceiptFile, Flag } from '../models/receipt'
+import { JobContext } from '../models/job'
 import { logger } from '../utils/logger'
 import { getSetting } from './dbService'
+import { renderPdfFirstPage } from './pdfService'
+import { SYSTEM_HISTORY } from './historyService'
 
 // Get receipts directory dynamically to support test environments
-function getReceiptsDir(): string {
+export function getReceiptsDir(): string {
 	return process.env.RECEIPTS_DIR || '/data/receipts'
 }
 
+// Get thumbnail cache directory dynamically to support test environments
+function getThumbnailsDir(): string {
+	return process.env.THUMBNAILS_DIR || '/data/thumbnails'
+}
+
+// Bounding box in pixels for each generated rendition
+export const THUMBNAIL_SIZES = {
+	thumb: 320,
+	medium: 1280,
+} as const
+
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES
+
+// Renditions currently being generated, so concurrent requests share the work
+const pendingThumbnails = new Map<string, Promise<string>>()
+
 /**
  * Parse date string into year, month, day components
  * Returns padded values (month: "01"-"12", day: "01"-"31")
@@ -50,13 +69,32 @@ function parseDateComponents(date: string): { year: string; month: string; day:
 }
 
 /**
- * Get the directory path for a receipt based on user and date
- * Structure: {receiptsDir}/{sanitizedUser}/{year}/{month}/{day}/
+ * Get the directory path for a receipt based on user, date and type
+ * Structure: {receiptsDir}/ followed by the directory pattern, {user}/{year}/{month}/{day}/ by default
+ * The type is only needed when the pattern uses {type} or {type-group}
  */
-export function getReceiptDirByDate(user: string, date: string): string {
-	const sanitizedUser = sanitizeFilename(user || 'unknown')
+export function getReceiptDirByDate(user: string, date: string, type?: string): string {
+	const pattern = getDirectoryPattern()
 	const { year, month, day } = parseDateComponents(date)
-	return path.join(getReceiptsDir(), sanitizedUser, year, month, day)
+	const typeGroup = type && pattern.includes('{type-group}') ? getReceiptTypeGroupName(type) : null
+	const folders = generateReceiptDirectory({ user: user || 'unknown', type: type || 'unknown', typeGroup, year, month, day }, pattern)
+	return path.join(getReceiptsDir(), ...folders)
+}
+
+/**
+ * Get the name of the group a receipt type is in, or null if it isn't in one
+ */
+function getReceiptTypeGroupName(type: string): string | null {
+	try {
+		const dbQueries = getDbQueries()
+		const receiptType = dbQueries?.getReceiptTypeByName.get(type) as any
+		if (!receiptType?.group_id) return null
+		const group = dbQueries.getReceiptTypeGroupById.get(receiptType.group_id) as any
+		return group?.name ?? null
+	} catch (error) {
+		logger.debug(`Could not look up the group of receipt type ${type}:`, error)
+		return null
+	}
 }
 
 // Cache for db module to avoid repeated requires
@@ -101,11 +139,12 @@ export function getReceiptDirByReceiptId(receiptId: number): string {
 			return getReceiptDirByDate('unknown', new Date().toISOString().split('T')[0])
 		}
 
-		// Get user name from database
+		// Get user and type names from database
 		const user = dbQueries.getUserById.get(receipt.user_id) as any
 		const userName = user?.name || 'unknown'
+		const receiptType = dbQueries.getReceiptTypeById.get(receipt.receipt_type_id) as any
 
-		return getReceiptDirByDate(userName, receipt.date)
+		return getReceiptDirByDate(userName, receipt.date, receiptType?.name)
 	} catch (error) {
 		// Fallback if anything goes wrong
 		logger.debug(`Error getting receipt directory for ${receiptId}, using default:`, error)
@@ -135,10 +174,10 @@ export function getReceiptDir(receiptId: number): string {
 }
 
 /**
- * Ensure receipt-specific directory exists (by user and date)
+ * Ensure receipt-specific directory exists (by user, date and type)
  */
-export async function ensureReceiptDirByDate(user: string, date: string): Promise<string> {
-	const receiptDir = getReceiptDirByDate(user, date)
+export async function ensureReceiptDirByDate(user: string, date: string, type?: string): Promise<string> {
+	const receiptDir = getReceiptDirByDate(user, date, type)
 	try {
 		await fs.access(receiptDir)
 	} catch {
@@ -540,8 +579,7 @@ export async function saveReceiptFile(
 	fileOrder: number,
 	flags?: Flag[]
 ): Promise<{ filename: string; originalFilename: string; optimized: boolean }> {
-	await ensureReceiptDirByDate(user, date)
-	const receiptDir = getReceiptDirByDate(user, date)
+	const receiptDir = await ensureReceiptDirByDate(user, date, type)
 
 	const originalExt = path.extname(file.originalname)
 	const originalFilename = file.originalname
@@ -593,8 +631,7 @@ export async function replaceReceiptFile(
 		throw new Error(`Receipt ${receiptId} not found`)
 	}
 
-	await ensureReceiptDirByDate(receipt.user || 'unknown', receipt.date)
-	const receiptDir = getReceiptDirByDate(receipt.user || 'unknown', receipt.date)
+	const receiptDir = await ensureReceiptDirByDate(receipt.user || 'unknown', receipt.date, receipt.type)
 
 	const originalFilename = file.originalname
 	const filePath = path.join(receiptDir, existingFilename)
@@ -610,6 +647,7 @@ export async function replaceReceiptFile(
 			if (fileRecord) {
 				dbQueries.resetReceiptFileOptimized.run(fileRecord.id)
 				logger.debug(`Reset optimization status for file ${fileRecord.id} (${existingFilename})`)
+				await invalidateThumbnails(fileRecord.id)
 			}
 		}
 	} catch (error) {
@@ -665,7 +703,7 @@ export async function deleteReceiptFile(receiptId: number, filename: string): Pr
 		return
 	}
 
-	const receiptDir = getReceiptDirByDate(receipt.user || 'unknown', receipt.date)
+	const receiptDir = getReceiptDirByDate(receipt.user || 'unknown', receipt.date, receipt.type)
 	const filePath = path.join(receiptDir, filename)
 	try {
 		await fs.unlink(filePath)
@@ -675,6 +713,11 @@ export async function deleteReceiptFile(receiptId: number, filename: string): Pr
 			logger.warn(`Failed to delete file ${filePath}:`, error)
 		}
 	}
+
+	const file = receipt.files.find(f => f.filename === filename)
+	if (file) {
+		await invalidateThumbnails(file.id)
+	}
 }
 
 /**
@@ -690,7 +733,7 @@ export async function deleteReceiptFiles(receiptId: number): Promise<void> {
 		return
 	}
 
-	const receiptDir = getReceiptDirByDate(receipt.user || 'unknown', receipt.date)
+	const receiptDir = getReceiptDirByDate(receipt.user || 'unknown', receipt.date, receipt.type)
 
 	// Delete all files for this receipt
 	for (const file of receipt.files) {
@@ -702,6 +745,7 @@ export async function deleteReceiptFiles(receiptId: number): Promise<void> {
 				logger.warn(`Failed to delete file ${filePath}:`, error)
 			}
 		}
+		await invalidateThumbnails(file.id)
 	}
 
 	// Try to remove the directory if it's empty (but don't fail if it's not)
@@ -715,6 +759,168 @@ export async function deleteReceiptFiles(receiptId: number): Promise<void> {
 	}
 }
 
+// Folder under the receipts directory that holds trashed files until they are restored or purged
+export const TRASH_DIR_NAME = '.trash'
+
+/**
+ * Get the folder that holds trashed files
+ */
+export function getTrashDir(): string {
+	return path.join(getReceiptsDir(), TRASH_DIR_NAME)
+}
+
+/**
+ * Get where a file is kept while it is in the trash
+ * The file ID prefix keeps files with the same name apart
+ */
+export function getTrashedFilePath(file: Pick<ReceiptFile, 'id' | 'filename'>): string {
+	return path.join(getTrashDir(), `${file.id}-${file.filename}`)
+}
+
+/**
+ * Move a receipt file into the trash
+ * Files that are already missing from disk are skipped
+ */
+export async function moveFileToTrash(receiptId: number, file: ReceiptFile): Promise<void> {
+	const filePath = await findReceiptFilePath(receiptId, file.filename)
+	if (!filePath) {
+		logger.warn(`File ${file.filename} of receipt ${receiptId} not found, nothing to move to the trash`)
+		return
+	}
+
+	await fs.mkdir(getTrashDir(), { recursive: true })
+	await fs.rename(filePath, getTrashedFilePath(file))
+	await invalidateThumbnails(file.id)
+}
+
+/**
+ * Move a trashed file back to the folder of its receipt's user, date and type
+ */
+export async function restoreFileFromTrash(
+	receipt: { id: number; user: string; date: string; type: string },
+	file: ReceiptFile
+): Promise<void> {
+	const filePath = getReceiptFilePathByDate(receipt.user || 'unknown', receipt.date, file.filename, receipt.type)
+	await fs.mkdir(path.dirname(filePath), { recursive: true })
+	try {
+		await fs.rename(getTrashedFilePath(file), filePath)
+	} catch (error: any) {
+		if (error?.code !== 'ENOENT') throw error
+		logger.warn(`Trashed file ${file.filename} of receipt ${receipt.id} not found, restoring it without its file`)
+	}
+}
+
+/**
+ * Delete a trashed file from disk for good
+ */
+export async function deleteTrashedFile(file: ReceiptFile): Promise<void> {
+	try {
+		await fs.unlink(getTrashedFilePath(file))
+	} catch (error: any) {
+		if (error?.code !== 'ENOENT') {
+			logger.warn(`Failed to delete trashed file ${file.filename}:`, error)
+		}
+	}
+	await invalidateThumbnails(file.id)
+}
+
+/**
+ * Check if a value is a supported thumbnail size
+ */
+export function isThumbnailSize(value: unknown): value is ThumbnailSize {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(THUMBNAIL_SIZES, value)
+}
+
+/**
+ * Check if a thumbnail can be generated for a file (images and the first page of PDFs)
+ */
+export function canGenerateThumbnail(filename: string): boolean {
+	return isImageFile(filename) || isPdfFile(filename)
+}
+
+/**
+ * Get the cache path of a file's thumbnail rendition
+ */
+function getThumbnailPath(fileId: number, size: ThumbnailSize): string {
+	return path.join(getThumbnailsDir(), size, `${fileId}.webp`)
+}
+
+/**
+ * Get the path to a small or medium rendition of a receipt file, generating it with sharp if needed
+ * Cached renditions are regenerated when they are older than the source file
+ * @param filename - Name used to detect the file type (PDFs are rendered from their first page)
+ */
+export async function getReceiptFileThumbnail(
+	fileId: number,
+	filePath: string,
+	filename: string,
+	size: ThumbnailSize
+): Promise<string> {
+	const thumbnailPath = getThumbnailPath(fileId, size)
+
+	try {
+		const [thumbnailStats, sourceStats] = await Promise.all([fs.stat(thumbnailPath), fs.stat(filePath)])
+		if (thumbnailStats.mtimeMs >= sourceStats.mtimeMs) {
+			return thumbnailPath
+		}
+	} catch {
+		// Thumbnail doesn't exist yet
+	}
+
+	const pending = pendingThumbnails.get(thumbnailPath)
+	if (pending) {
+		return pending
+	}
+
+	const generate = (async () => {
+		const maxDimension = THUMBNAIL_SIZES[size]
+		const input = isPdfFile(filename) ? await renderPdfFirstPage(filePath, maxDimension) : filePath
+
+		// Write to a temporary file first so a partially written thumbnail is never served
+		const tempPath = `${thumbnailPath}.${process.pid}.tmp`
+		await fs.mkdir(path.dirname(thumbnailPath), { recursive: true })
+		await sharp(input)
+			.rotate() // Auto-rotate based on EXIF orientation
+			.resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true })
+			.webp({ quality: 80 })
+			.toFile(tempPath)
+		await fs.rename(tempPath, thumbnailPath)
+		logger.debug(`Generated ${size} thumbnail for file ${fileId}`)
+		return thumbnailPath
+	})()
+
+	pendingThumbnails.set(thumbnailPath, generate)
+	try {
+		return await generate
+	} finally {
+		pendingThumbnails.delete(thumbnailPath)
+	}
+}
+
+/**
+ * Remove all cached thumbnail renditions of a receipt file
+ */
+export async function invalidateThumbnails(fileId: number): Promise<void> {
+	for (const size of Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]) {
+		try {
+			await fs.unlink(getThumbnailPath(fileId, size))
+		} catch (error: any) {
+			if (error?.code !== 'ENOENT') {
+				logger.warn(`Failed to remove ${size} thumbnail for file ${fileId}:`, error)
+			}
+		}
+	}
+}
+
+/**
+ * Remove all cached thumbnail renditions, e.g. after file IDs changed in a restore
+ */
+export async function clearThumbnailCache(): Promise<void> {
+	for (const size of Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]) {
+		await fs.rm(path.join(getThumbnailsDir(), size), { recursive: true, force: true })
+	}
+}
+
 /**
  * Get file path for a receipt file (by receiptId)
  */
@@ -724,10 +930,10 @@ export function getReceiptFilePath(receiptId: number, filename: string): string
 }
 
 /**
- * Get file path for a receipt file (by user and date)
+ * Get file path for a receipt file (by user, date and type)
  */
-export function getReceiptFilePathByDate(user: string, date: string, filename: string): string {
-	const receiptDir = getReceiptDirByDate(user, date)
+export function getReceiptFilePathByDate(user: string, date: string, filename: string, type?: string): string {
+	const receiptDir = getReceiptDirByDate(user, date, type)
 	return path.join(receiptDir, filename)
 }
 
@@ -743,7 +949,7 @@ export async function findReceiptFilePath(receiptId: number, filename: string):
 	}
 
 	// Try expected location first
-	const expectedPath = getReceiptFilePathByDate(receipt.user || 'unknown', receipt.date, filename)
+	const expectedPath = getReceiptFilePathByDate(receipt.user || 'unknown', receipt.date, filename, receipt.type)
 	try {
 		await fs.access(expectedPath)
 		return expectedPath
@@ -785,6 +991,8 @@ async function findFileByReceiptIdPattern(receiptId: number, fileOrder?: number)
 					const fullPath = path.join(dirPath, entry.name)
 					
 					if (entry.isDirectory()) {
+						// Trashed files don't belong to their receipt until they are restored
+						if (entry.name === TRASH_DIR_NAME) continue
 						// Recursively search subdirectories
 						const found = await searchDirectory(fullPath)
 						if (found) return found
@@ -827,7 +1035,7 @@ export async function fileExists(receiptId: number, filename: string): Promise<b
 		return false
 	}
 
-	const filePath = getReceiptFilePathByDate(receipt.user || 'unknown', receipt.date, filename)
+	const filePath = getReceiptFilePathByDate(receipt.user || 'unknown', receipt.date, filename, receipt.type)
 	try {
 		await fs.access(filePath)
 		return true
@@ -862,7 +1070,7 @@ export async function renameReceiptFiles(
 	amount: number,
 	type: string,
 	flags?: Flag[]
-): Promise<Array<{ fileId: number; oldFilename: string; newFilename: string }>> {
+): Promise<Array<{ fileId: number; oldFilename: string; newFilename: string; moved?: { from: string; to: string } }>> {
 	const { getReceiptById } = await import('./dbService')
 	const oldReceipt = getReceiptById(receiptId)
 	if (!oldReceipt) {
@@ -870,15 +1078,19 @@ export async function renameReceiptFiles(
 		return []
 	}
 
-	const oldReceiptDir = getReceiptDirByDate(oldReceipt.user || 'unknown', oldReceipt.date)
-	const newReceiptDir = getReceiptDirByDate(user, date)
-	const renameResults: Array<{ fileId: number; oldFilename: string; newFilename: string }> = []
+	const oldReceiptDir = getReceiptDirByDate(oldReceipt.user || 'unknown', oldReceipt.date, oldReceipt.type)
+	const newReceiptDir = getReceiptDirByDate(user, date, type)
+	const renameResults: Array<{ fileId: number; oldFilename: string; newFilename: string; moved?: { from: string; to: string } }> = []
 
 	// Ensure new directory exists
-	await ensureReceiptDirByDate(user, date)
+	await ensureReceiptDirByDate(user, date, type)
 
 	for (const file of files) {
-		const oldFilePath = path.join(oldReceiptDir, file.filename)
+		let oldFilePath = path.join(oldReceiptDir, file.filename)
+		// Files left in the folder of an earlier layout, type or date are found by their [{receiptId}-{index}] suffix
+		if (/\[\d+-\d+\]/.test(file.filename) && !(await pathExists(oldFilePath))) {
+			oldFilePath = (await findReceiptFilePath(receiptId, file.filename)) ?? oldFilePath
+		}
 
 		// Get the original extension from the original filename
 		const originalExt = path.extname(file.original_filename)
@@ -954,6 +1166,7 @@ export async function renameReceiptFiles(
 						fileId: file.id,
 						oldFilename: file.filename,
 						newFilename: newFilename,
+						moved: { from: oldFilePath, to: newFilePath },
 					})
 				}
 			} catch (error) {
@@ -977,20 +1190,40 @@ export async function renameReceiptFiles(
 		}
 	}
 
+	// Cached renditions are keyed by file ID, so drop them rather than trust them across a move
+	for (const result of renameResults) {
+		await invalidateThumbnails(result.fileId)
+	}
+
 	return renameResults
 }
 
+/**
+ * Move files renamed by renameReceiptFiles back where they were, newest move first
+ * Used when the new filenames could not be saved, so the files keep matching the database
+ */
+export async function undoReceiptFileRenames(renames: Array<{ moved?: { from: string; to: string } }>): Promise<void> {
+	for (const { moved } of [...renames].reverse()) {
+		if (!moved) continue
+		await fs.rename(moved.to, moved.from).catch(error => {
+			logger.error(`Failed to move ${moved.to} back to ${moved.from}:`, error)
+		})
+		await removeEmptyParentDirs(path.dirname(moved.to))
+	}
+}
+
 /**
  * Rename all files across all receipts to match current pattern
+ * Reports progress per receipt when run as a job
  * Returns summary of rename operations
  */
-export async function renameAllReceiptFiles(): Promise<{
+export async function renameAllReceiptFiles(context?: JobContext): Promise<{
 	totalReceipts: number
 	totalFiles: number
 	renamed: number
 	errors: Array<{ receiptId: number; error: string }>
 }> {
-	const { getAllReceipts } = await import('./dbService')
+	const { getAllReceipts, recordFileRename } = await import('./dbService')
 	const receipts = getAllReceipts()
 	const results = {
 		totalReceipts: receipts.length,
@@ -999,7 +1232,9 @@ export async function renameAllReceiptFiles(): Promise<{
 		errors: [] as Array<{ receiptId: number; error: string }>,
 	}
 
-	for (const receipt of receipts) {
+	for (const [index, receipt] of receipts.entries()) {
+		context?.throwIfCancelled()
+		context?.reportProgress(index, receipts.length)
 		try {
 			const files = receipt.files.map(f => ({
 				id: f.id,
@@ -1027,6 +1262,7 @@ export async function renameAllReceiptFiles(): Promise<{
 			const { dbQueries } = await import('../db')
 			for (const result of renameResults) {
 				dbQueries.updateReceiptFilename.run(result.newFilename, result.fileId)
+				recordFileRename(receipt.id, result, context?.history ?? SYSTEM_HISTORY)
 				results.renamed++
 			}
 		} catch (error: any) {
@@ -1037,13 +1273,201 @@ export async function renameAllReceiptFiles(): Promise<{
 		}
 	}
 
+	context?.reportProgress(receipts.length, receipts.length)
+	return results
+}
+
+/**
+ * Check if a file or directory exists
+ */
+async function pathExists(filePath: string): Promise<boolean> {
+	try {
+		await fs.access(filePath)
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Remove a folder and then its parent folders while they are empty, stopping at the receipts directory
+ */
+async function removeEmptyParentDirs(dir: string): Promise<void> {
+	const receiptsDir = getReceiptsDir()
+	let current = dir
+	while (current.startsWith(receiptsDir + path.sep)) {
+		try {
+			if ((await fs.readdir(current)).length > 0) return
+			await fs.rmdir(current)
+		} catch (error: any) {
+			if (error?.code !== 'ENOENT') {
+				logger.debug(`Could not remove directory ${current}:`, error)
+				return
+			}
+		}
+		current = path.dirname(current)
+	}
+}
+
+// Where a file of a renamed user was moved, relative to the receipts directory
+interface RelocatedFile {
+	receiptId: number
+	fileId: number
+	from: string | null // null when the file couldn't be found
+	to: string
+	status: 'moved' | 'unchanged' | 'missing'
+}
+
+/**
+ * Move the files of a renamed user from the old user's folder to the new one, renaming files whose names include the user
+ * All files are moved before the database is updated; if any move fails, the moved files go back
+ * and the user gets the old name again, so nothing is left half done
+ * A user renamed again while the files were moving keeps the newer name, whose own job moves the files
+ * Reports progress per file when run as a job
+ */
+export async function relocateUserFiles(
+	userId: number,
+	previousName: string,
+	context?: JobContext
+): Promise<{
+	user: string
+	previous_name: string
+	totalFiles: number
+	moved: number
+	missing: number
+	files: RelocatedFile[]
+}> {
+	const { db, dbQueries } = await import('../db')
+	const { getAllReceipts, getUserById, recordFileRename } = await import('./dbService')
+	const { publishReceiptEvent } = await import('./eventService')
+	const user = getUserById(userId)
+	if (!user) {
+		throw new Error(`User ${userId} not found`)
+	}
+
+	// Files in the trash are named by file ID and don't move
+	const receipts = getAllReceipts(undefined, [userId])
+	const plans: Array<{
+		receiptId: number
+		fileId: number
+		oldFilename: string
+		newFilename: string
+		from: string | null
+		to: string
+	}> = []
+	for (const receipt of receipts) {
+		for (const file of receipt.files) {
+			const newFilename = generateReceiptFilename(
+				receipt.date,
+				user.name,
+				receipt.vendor,
+				receipt.amount,
+				receipt.type,
+				file.file_order,
+				path.extname(file.original_filename),
+				receipt.id,
+				receipt.flags
+			)
+			// Look in the old user's folder first, then wherever the file ended up
+			const oldPath = getReceiptFilePathByDate(previousName, receipt.date, file.filename, receipt.type)
+			const from = (await pathExists(oldPath)) ? oldPath : await findReceiptFilePath(receipt.id, file.filename)
+			plans.push({
+				receiptId: receipt.id,
+				fileId: file.id,
+				oldFilename: file.filename,
+				newFilename,
+				from,
+				to: getReceiptFilePathByDate(user.name, receipt.date, newFilename, receipt.type),
+			})
+		}
+	}
+
+	const results = {
+		user: user.name,
+		previous_name: previousName,
+		totalFiles: plans.length,
+		moved: 0,
+		missing: 0,
+		files: [] as RelocatedFile[],
+	}
+	const receiptsDir = getReceiptsDir()
+	const relative = (filePath: string | null) => (filePath ? path.relative(receiptsDir, filePath) : null)
+	const moved: Array<{ from: string; to: string }> = []
+
+	try {
+		for (const [index, plan] of plans.entries()) {
+			context?.throwIfCancelled()
+			context?.reportProgress(index, plans.length)
+			const status: RelocatedFile['status'] = plan.from === null ? 'missing' : plan.from === plan.to ? 'unchanged' : 'moved'
+			if (plan.from !== null && status === 'moved') {
+				await fs.mkdir(path.dirname(plan.to), { recursive: true })
+				if (await pathExists(plan.to)) {
+					throw new Error(`Cannot move ${relative(plan.from)}: ${relative(plan.to)} already exists`)
+				}
+				await fs.rename(plan.from, plan.to)
+				moved.push({ from: plan.from, to: plan.to })
+				results.moved++
+			}
+			if (status === 'missing') {
+				logger.warn(`File ${plan.oldFilename} of receipt ${plan.receiptId} not found, only updating its name`)
+				results.missing++
+			}
+			results.files.push({
+				receiptId: plan.receiptId,
+				fileId: plan.fileId,
+				from: relative(plan.from),
+				to: relative(plan.to)!,
+				status,
+			})
+		}
+
+		db.transaction(() => {
+			for (const plan of plans) {
+				dbQueries.updateReceiptFilename.run(plan.newFilename, plan.fileId)
+			}
+		})()
+	} catch (error) {
+		// Put everything back the way it was, newest move first
+		for (const move of moved.reverse()) {
+			await fs.rename(move.to, move.from).catch(rollbackError => {
+				logger.error(`Failed to move ${move.to} back to ${move.from}:`, rollbackError)
+			})
+		}
+		const restored = dbQueries.restoreUserName.run(previousName, userId, user.name).changes > 0
+		logger.error(
+			`Moving files of user ${previousName} failed, ${restored ? 'the rename was undone' : 'the files were put back'}:`,
+			error
+		)
+		throw error
+	}
+
+	for (const plan of plans) {
+		recordFileRename(
+			plan.receiptId,
+			{ fileId: plan.fileId, oldFilename: plan.oldFilename, newFilename: plan.newFilename },
+			context?.history ?? SYSTEM_HISTORY
+		)
+		if (plan.from !== plan.to) {
+			await invalidateThumbnails(plan.fileId)
+		}
+	}
+	for (const receipt of receipts) {
+		publishReceiptEvent('receipt.updated', { receipt_id: receipt.id, user_id: userId })
+	}
+
+	// Leave no empty folders behind for the old name
+	for (const move of moved) {
+		await removeEmptyParentDirs(path.dirname(move.from))
+	}
+
+	context?.reportProgress(plans.length, plans.length)
 	return results
 }
 
 /**
  * Restore file associations by scanning filesystem and matching to receipts
  * This is useful when files exist on disk but database records are missing
- * Scans the new directory structure: {user}/{year}/{month}/{day}/
+ * Scans the folders of the current directory pattern, {user}/{year}/{month}/{day}/ by default
  * Returns summary of restored files
  */
 export async function restoreFileAssociations(): Promise<{
@@ -1066,14 +1490,14 @@ export async function restoreFileAssociations(): Promise<{
 	// Build a map of receipts by their directory path for quick lookup
 	const receiptMap = new Map<string, Array<(typeof receipts)[0]>>()
 	for (const receipt of receipts) {
-		const dirPath = getReceiptDirByDate(receipt.user || 'unknown', receipt.date)
+		const dirPath = getReceiptDirByDate(receipt.user || 'unknown', receipt.date, receipt.type)
 		if (!receiptMap.has(dirPath)) {
 			receiptMap.set(dirPath, [])
 		}
 		receiptMap.get(dirPath)!.push(receipt)
 	}
 
-	// Recursively scan the directory structure: user/year/month/day/
+	// Recursively scan the directory structure
 	async function scanDirectory(dirPath: string, depth: number): Promise<void> {
 		try {
 			const entries = await fs.readdir(dirPath, { withFileTypes: true })
@@ -1088,7 +1512,7 @@ export async function restoreFileAssociations(): Promise<{
 					// Found a file - try to match it to a receipt
 					results.totalFilesFound++
 
-					// Get the directory this file is in (should be user/year/month/day/)
+					// Get the directory this file is in (should match the directory pattern)
 					const fileDir = dirPath
 					const receiptsInDir = receiptMap.get(fileDir) || []
 
@@ -1142,137 +1566,116 @@ export async function restoreFileAssociations(): Promise<{
 }
 
 /**
- * Migrate files from old structure ({receiptId}/) to new structure ({user}/{year}/{month}/{day}/)
- * Scans all existing receipt directories (old structure) and moves files to new locations
+ * List every file below the receipts directory by name, skipping the trash and hidden files
+ */
+async function indexReceiptFiles(dir: string, index: Map<string, string[]>): Promise<void> {
+	let entries
+	try {
+		entries = await fs.readdir(dir, { withFileTypes: true })
+	} catch (error: any) {
+		if (error?.code !== 'ENOENT') {
+			logger.warn(`Error scanning directory ${dir}:`, error)
+		}
+		return
+	}
+	for (const entry of entries) {
+		if (entry.name.startsWith('.')) continue
+		const fullPath = path.join(dir, entry.name)
+		if (entry.isDirectory()) {
+			await indexReceiptFiles(fullPath, index)
+		} else if (entry.isFile()) {
+			index.set(entry.name, [...(index.get(entry.name) ?? []), fullPath])
+		}
+	}
+}
+
+/**
+ * Move all receipt files to the folders of the current directory pattern
+ * Files are found wherever an earlier layout put them, including the legacy {receiptId}/ folders,
+ * by their name or else by their [{receiptId}-{index}] suffix; folders left empty are removed
+ * Files in the trash stay where they are
+ * Reports progress per receipt when run as a job
  * Returns migration summary
  */
-export async function migrateFilesToDateStructure(): Promise<{
+export async function migrateFilesToDirectoryLayout(context?: JobContext): Promise<{
+	pattern: string
 	totalReceipts: number
 	totalFiles: number
 	filesMoved: number
+	missing: number
 	errors: Array<{ receiptId: number; error: string }>
 }> {
-	const { getAllReceipts, getReceiptById } = await import('./dbService')
+	const { getAllReceipts } = await import('./dbService')
 	const receipts = getAllReceipts()
 	const results = {
+		pattern: getDirectoryPattern(),
 		totalReceipts: receipts.length,
 		totalFiles: 0,
 		filesMoved: 0,
+		missing: 0,
 		errors: [] as Array<{ receiptId: number; error: string }>,
 	}
 
 	const receiptsDir = getReceiptsDir()
-
-	// Get all directories in receipts folder
-	let receiptDirs: string[]
-	try {
-		const entries = await fs.readdir(receiptsDir, { withFileTypes: true })
-		receiptDirs = entries.filter(entry => entry.isDirectory()).map(entry => entry.name)
-	} catch (error) {
-		logger.error('Error reading receipts directory:', error)
-		return results
+	const filesByName = new Map<string, string[]>()
+	await indexReceiptFiles(receiptsDir, filesByName)
+	const filesBySuffix = new Map<string, string>()
+	for (const [name, paths] of filesByName) {
+		const suffix = name.match(/\[\d+-\d+\]/)?.[0]
+		if (suffix) filesBySuffix.set(suffix, paths[0])
 	}
 
-	// Process each directory that looks like a receipt ID (numeric)
-	for (const dirName of receiptDirs) {
-		const receiptId = parseInt(dirName)
-		if (isNaN(receiptId)) {
-			// Skip non-numeric directories (these might be user directories from new structure)
-			continue
-		}
-
-		// Check if receipt exists in database
-		const receipt = getReceiptById(receiptId)
-		if (!receipt) {
-			results.errors.push({
-				receiptId,
-				error: 'Receipt not found in database',
-			})
-			continue
-		}
-
-		// Get old directory path
-		const oldDir = path.join(receiptsDir, dirName)
-
-		// Get new directory path
-		const newDir = getReceiptDirByDate(receipt.user || 'unknown', receipt.date)
-
-		// Skip if old and new directories are the same (already migrated)
-		if (oldDir === newDir) {
-			continue
-		}
-
-		// Ensure new directory exists
-		try {
-			await fs.mkdir(newDir, { recursive: true })
-		} catch (error) {
-			results.errors.push({
-				receiptId,
-				error: `Failed to create new directory: ${error instanceof Error ? error.message : 'Unknown error'}`,
-			})
-			continue
-		}
-
-		// List files in old directory
-		let files: string[]
-		try {
-			files = await fs.readdir(oldDir)
-			// Filter out directories and hidden files
-			files = files.filter(file => !file.startsWith('.'))
-		} catch (error) {
-			results.errors.push({
-				receiptId,
-				error: `Error reading old directory: ${error instanceof Error ? error.message : 'Unknown error'}`,
-			})
-			continue
-		}
-
-		results.totalFiles += files.length
-
-		// Move each file to new location
-		for (const filename of files) {
-			const oldFilePath = path.join(oldDir, filename)
-			const newFilePath = path.join(newDir, filename)
+	const sourceDirs = new Set<string>()
+	for (const [index, receipt] of receipts.entries()) {
+		context?.throwIfCancelled()
+		context?.reportProgress(index, receipts.length)
+		const receiptDir = getReceiptDirByDate(receipt.user || 'unknown', receipt.date, receipt.type)
+		const legacyDir = path.join(receiptsDir, receipt.id.toString())
+
+		for (const file of receipt.files) {
+			results.totalFiles++
+			const newFilePath = path.join(receiptDir, file.filename)
+			if (filesByName.get(file.filename)?.includes(newFilePath)) continue
+
+			// Names are unique thanks to their suffix, except in the legacy per-receipt folders
+			const candidates = filesByName.get(file.filename) ?? []
+			const suffix = file.filename.match(/\[\d+-\d+\]/)?.[0]
+			const oldFilePath =
+				candidates.find(candidate => path.dirname(candidate) === legacyDir) ??
+				(candidates.length === 1 ? candidates[0] : undefined) ??
+				(suffix ? filesBySuffix.get(suffix) : undefined)
+			if (!oldFilePath) {
+				logger.warn(`File ${file.filename} of receipt ${receipt.id} not found, nothing to move`)
+				results.missing++
+				continue
+			}
 
 			try {
-				// Check if file is actually a file (not a directory)
-				const stat = await fs.stat(oldFilePath)
-				if (!stat.isFile()) {
-					continue
-				}
-
-				// Check if file already exists in new location
-				try {
-					await fs.access(newFilePath)
-					logger.warn(`File ${filename} already exists in new location, skipping`)
-					continue
-				} catch {
-					// File doesn't exist in new location, proceed with move
+				if (await pathExists(newFilePath)) {
+					throw new Error(`${path.relative(receiptsDir, newFilePath)} already exists`)
 				}
-
+				await fs.mkdir(receiptDir, { recursive: true })
 				// Move file (rename works across directories)
 				await fs.rename(oldFilePath, newFilePath)
+				await invalidateThumbnails(file.id)
+				sourceDirs.add(path.dirname(oldFilePath))
 				results.filesMoved++
 			} catch (error) {
 				results.errors.push({
-					receiptId,
-					error: `Failed to move file ${filename}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+					receiptId: receipt.id,
+					error: `Failed to move file ${file.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`,
 				})
 			}
 		}
+	}
 
-		// Try to remove old directory if it's empty
-		try {
-			const remainingFiles = await fs.readdir(oldDir)
-			if (remainingFiles.length === 0) {
-				await fs.rmdir(oldDir)
-			}
-		} catch (error) {
-			// Directory might not be empty or might not exist, that's fine
-			logger.debug(`Could not remove old directory ${oldDir}:`, error)
-		}
+	// Leave no empty folders behind from the old layout
+	for (const dir of sourceDirs) {
+		await removeEmptyParentDirs(dir)
 	}
 
+	context?.reportProgress(receipts.length, receipts.length)
+	logger.log(`Moved ${results.filesMoved} of ${results.totalFiles} file(s) to the ${results.pattern} layout`)
 	return results
 }
 
@@ -1280,7 +1683,11 @@ export async function migrateFilesToDateStructure(): Promise<{
  * Optimize all unoptimized images in the database
  * Returns statistics about the optimization process
  */
-export async function optimizeExistingImages(options?: { batchSize?: number; maxConcurrent?: number }): Promise<{
+export async function optimizeExistingImages(options?: {
+	batchSize?: number
+	maxConcurrent?: number
+	context?: JobContext // Reports progress per batch when run as a job
+}): Promise<{
 	total: number
 	optimized: number
 	skipped: number
@@ -1327,6 +1734,7 @@ export async function optimizeExistingImages(options?: { batchSize?: number; max
 
 		// Process files in batches
 		for (let i = 0; i < unoptimizedFiles.length; i += batchSize) {
+			options?.context?.throwIfCancelled()
 			const batch = unoptimizedFiles.slice(i, i + batchSize)
 
 			// Process batch with concurrency limit
@@ -1345,7 +1753,7 @@ export async function optimizeExistingImages(options?: { batchSize?: number; max
 					}
 
 					// Get file path
-					const receiptDir = getReceiptDirByDate(receipt.user || 'unknown', receipt.date)
+					const receiptDir = getReceiptDirByDate(receipt.user || 'unknown', receipt.date, receipt.type)
 					const filePath = path.join(receiptDir, file.filename)
 
 					// Check if file exists
@@ -1443,6 +1851,7 @@ export async function optimizeExistingImages(options?: { batchSize?: number; max
 				await Promise.all(chunk)
 			}
 
+			options?.context?.reportProgress(Math.min(i + batchSize, unoptimizedFiles.length), unoptimizedFiles.length)
 			logger.debug(`Processed batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(unoptimizedFiles.length / batchSize)}`)
 		}
 
@@ -1464,7 +1873,11 @@ export async function optimizeExistingImages(options?: { batchSize?: number; max
  * This resets the optimization status and re-optimizes all images
  * Returns statistics about the optimization process
  */
-export async function reoptimizeAllImages(options?: { batchSize?: number; maxConcurrent?: number }): Promise<{
+export async function reoptimizeAllImages(options?: {
+	batchSize?: number
+	maxConcurrent?: number
+	context?: JobContext // Reports progress per batch when run as a job
+}): Promise<{
 	total: number
 	optimized: number
 	skipped: number
@@ -1521,6 +1934,7 @@ export async function reoptimizeAllImages(options?: { batchSize?: number; maxCon
 
 		// Process files in batches
 		for (let i = 0; i < imageFiles.length; i += batchSize) {
+			options?.context?.throwIfCancelled()
 			const batch = imageFiles.slice(i, i + batchSize)
 
 			// Process batch with concurrency limit
@@ -1539,7 +1953,7 @@ export async function reoptimizeAllImages(options?: { batchSize?: number; maxCon
 					}
 
 					// Get file path
-					const receiptDir = getReceiptDirByDate(receipt.user || 'unknown', receipt.date)
+					const receiptDir = getReceiptDirByDate(receipt.user || 'unknown', receipt.date, receipt.type)
 					const filePath = path.join(receiptDir, file.filename)
 
 					// Check if file exists
@@ -1635,6 +2049,7 @@ export async function reoptimizeAllImages(options?: { batchSize?: number; maxCon
 				await Promise.all(chunk)
 			}
 
+			options?.context?.reportProgress(Math.min(i + batchSize, imageFiles.length), imageFiles.length)
 			logger.debug(`Processed batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(imageFiles.length / batchSize)}`)
 		}
 
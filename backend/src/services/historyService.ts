@@ -0,0 +1,177 @@
+import type { Request } from 'express'
+import { dbQueries } from '../db'
+import { getAccountById } from './authService'
+import {
+	FieldChange,
+	HistoryContext,
+	REVERTIBLE_RECEIPT_FIELDS,
+	ReceiptHistoryAction,
+	ReceiptHistoryEntry,
+	ReceiptHistoryRow,
+	RevertibleReceiptField,
+} from '../models/history'
+import { JobRow } from '../models/job'
+import { ReceiptWithFilesAndNames } from '../models/receipt'
+import { validateReimbursementDetails } from '../utils/validation'
+
+// Changes made without a known user, job or watch folder
+export const SYSTEM_HISTORY: HistoryContext = { source: 'system' }
+
+export class HistoryValidationError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'HistoryValidationError'
+	}
+}
+
+/**
+ * History context of an API request: the logged-in account and the API token it used, if any
+ */
+export function getRequestHistory(req: Request): HistoryContext {
+	return {
+		source: 'user',
+		detail: req.apiToken ? `API token: ${req.apiToken.name}` : null,
+		account_id: req.account?.id ?? null,
+		account_name: req.account?.username ?? null,
+	}
+}
+
+/**
+ * History context of a background job, on behalf of the account that started it
+ */
+export function getJobHistory(job: Pick<JobRow, 'type' | 'account_id'>): HistoryContext {
+	const account = job.account_id !== null ? getAccountById(job.account_id) : null
+	return {
+		source: 'job',
+		detail: job.type,
+		account_id: job.account_id,
+		account_name: account?.username ?? null,
+	}
+}
+
+/**
+ * Receipt fields as they are kept in the history
+ */
+export function snapshotReceipt(receipt: ReceiptWithFilesAndNames): Record<RevertibleReceiptField, unknown> {
+	return {
+		user: receipt.user,
+		type: receipt.type,
+		amount: receipt.amount,
+		vendor: receipt.vendor,
+		provider_address: receipt.provider_address,
+		description: receipt.description,
+		date: receipt.date,
+		notes: receipt.notes ?? null,
+		reimbursement_status: receipt.reimbursement_status,
+		reimbursed_date: receipt.reimbursed_date ?? null,
+		reimbursed_amount: receipt.reimbursed_amount ?? null,
+		hsa_transaction_ref: receipt.hsa_transaction_ref ?? null,
+		flags: receipt.flags.map(flag => flag.name).sort(),
+	}
+}
+
+/**
+ * Fields that differ between two snapshots; a missing snapshot (before creation or after deletion) counts as all null
+ */
+export function diffReceiptSnapshots(
+	before: Record<RevertibleReceiptField, unknown> | null,
+	after: Record<RevertibleReceiptField, unknown> | null
+): Record<string, FieldChange> {
+	const changes: Record<string, FieldChange> = {}
+	for (const field of REVERTIBLE_RECEIPT_FIELDS) {
+		const oldValue = before ? before[field] : null
+		const newValue = after ? after[field] : null
+		if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+			changes[field] = { old: oldValue, new: newValue }
+		}
+	}
+	return changes
+}
+
+/**
+ * Append an entry to a receipt's history
+ * Updates that changed nothing are not recorded
+ */
+export function recordReceiptHistory(
+	receiptId: number,
+	action: ReceiptHistoryAction,
+	changes: Record<string, FieldChange>,
+	history: HistoryContext,
+	fileId?: number
+): void {
+	if (action === 'updated' && Object.keys(changes).length === 0) return
+
+	dbQueries.insertReceiptHistory.run(
+		receiptId,
+		action,
+		fileId ?? null,
+		JSON.stringify(changes),
+		history.source,
+		history.detail ?? null,
+		history.account_id ?? null,
+		history.account_name ?? null,
+		history.reverted_entry_id ?? null
+	)
+}
+
+function toEntry(row: ReceiptHistoryRow): ReceiptHistoryEntry {
+	return { ...row, changes: JSON.parse(row.changes) }
+}
+
+/**
+ * Get the history of a receipt, newest first
+ */
+export function getReceiptHistory(receiptId: number): ReceiptHistoryEntry[] {
+	return (dbQueries.getReceiptHistory.all(receiptId) as ReceiptHistoryRow[]).map(toEntry)
+}
+
+/**
+ * Put a field of a receipt back to the value it had before a history entry
+ * When userIds is given, the receipt can only be moved back to one of those users
+ * Returns null if the entry doesn't belong to the receipt
+ */
+export async function revertReceiptField(
+	receiptId: number,
+	entryId: number,
+	field: string,
+	history: HistoryContext,
+	userIds?: number[]
+): Promise<ReceiptWithFilesAndNames | null> {
+	const row = dbQueries.getReceiptHistoryEntry.get(entryId, receiptId) as ReceiptHistoryRow | undefined
+	if (!row) return null
+
+	if (!(REVERTIBLE_RECEIPT_FIELDS as readonly string[]).includes(field)) {
+		throw new HistoryValidationError(`Field must be one of: ${REVERTIBLE_RECEIPT_FIELDS.join(', ')}`)
+	}
+	const change = toEntry(row).changes[field]
+	if (row.action !== 'updated' || !change) {
+		throw new HistoryValidationError(`This history entry did not change ${field}`)
+	}
+
+	const { createFlag, getAllFlags, getAllUsers, getReceiptById, updateReceipt } = await import('./dbService')
+	if (field === 'user' && userIds) {
+		const user = getAllUsers().find(u => u.name === change.old)
+		if (!user || !userIds.includes(user.id)) {
+			throw new HistoryValidationError('You can only file receipts under users assigned to your account')
+		}
+	}
+	const revertHistory = { ...history, reverted_entry_id: entryId }
+	if (field === 'flags') {
+		// Flags are stored by name; flags deleted since then are created again
+		const flags = getAllFlags()
+		const flagIds = (change.old as string[]).map(name => (flags.find(flag => flag.name === name) ?? createFlag(name)).id)
+		return updateReceipt(receiptId, {}, flagIds, revertHistory)
+	}
+	if (field === 'amount' || field === 'reimbursement_status' || field === 'reimbursed_amount') {
+		// The reverted value has to fit the reimbursement details the receipt has now, as with any other edit
+		const receipt = getReceiptById(receiptId)
+		if (receipt) {
+			const reverted = { ...receipt, [field]: change.old }
+			const validation = validateReimbursementDetails(reverted.reimbursement_status, reverted.reimbursed_amount, reverted.amount ?? 0)
+			if (!validation.valid) {
+				throw new HistoryValidationError(validation.error!)
+			}
+		}
+	}
+	return updateReceipt(receiptId, { [field]: change.old } as Parameters<typeof updateReceipt>[1], undefined, revertHistory)
+}
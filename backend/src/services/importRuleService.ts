@@ -0,0 +1,165 @@
+import { dbQueries } from '../db'
+import { ImportRule, ImportRuleActions, ImportRuleInput, ImportRuleRow, ImportSource } from '../models/importRule'
+
+function toImportRule(row: ImportRuleRow): ImportRule {
+	const flagIds = (dbQueries.getImportRuleFlagIds.all(row.id) as Array<{ flag_id: number }>).map(r => r.flag_id)
+	return {
+		...row,
+		date_from_filename: row.date_from_filename === 1,
+		enabled: row.enabled === 1,
+		flag_ids: flagIds,
+	}
+}
+
+/**
+ * Replace the flags a rule adds to imported receipts
+ */
+function setImportRuleFlags(ruleId: number, flagIds: number[]): void {
+	dbQueries.deleteImportRuleFlags.run(ruleId)
+	for (const flagId of flagIds) {
+		dbQueries.insertImportRuleFlag.run(ruleId, flagId)
+	}
+}
+
+/**
+ * Get all import rules in the order they are applied
+ */
+export function getAllImportRules(): ImportRule[] {
+	return (dbQueries.getAllImportRules.all() as ImportRuleRow[]).map(toImportRule)
+}
+
+/**
+ * Get the import rules that are applied to new imports
+ */
+export function getEnabledImportRules(): ImportRule[] {
+	return (dbQueries.getEnabledImportRules.all() as ImportRuleRow[]).map(toImportRule)
+}
+
+/**
+ * Get an import rule by ID
+ */
+export function getImportRuleById(id: number): ImportRule | null {
+	const row = dbQueries.getImportRuleById.get(id) as ImportRuleRow | undefined
+	return row ? toImportRule(row) : null
+}
+
+/**
+ * Create an import rule
+ */
+export function createImportRule(input: ImportRuleInput): ImportRule {
+	const result = dbQueries.insertImportRule.run(
+		input.name,
+		input.match_type,
+		input.pattern,
+		input.user_id ?? null,
+		input.receipt_type_id ?? null,
+		input.vendor || null,
+		input.date_from_filename ? 1 : 0,
+		input.enabled === false ? 0 : 1
+	)
+	const ruleId = Number(result.lastInsertRowid)
+	setImportRuleFlags(ruleId, input.flag_ids ?? [])
+	return getImportRuleById(ruleId)!
+}
+
+/**
+ * Update an import rule; fields that are not given keep their current value
+ * Returns null if the rule doesn't exist
+ */
+export function updateImportRule(id: number, input: Partial<ImportRuleInput>): ImportRule | null {
+	const existing = getImportRuleById(id)
+	if (!existing) {
+		return null
+	}
+
+	dbQueries.updateImportRule.run(
+		input.name ?? existing.name,
+		input.match_type ?? existing.match_type,
+		input.pattern ?? existing.pattern,
+		input.user_id !== undefined ? input.user_id : existing.user_id,
+		input.receipt_type_id !== undefined ? input.receipt_type_id : existing.receipt_type_id,
+		input.vendor !== undefined ? input.vendor || null : existing.vendor,
+		(input.date_from_filename ?? existing.date_from_filename) ? 1 : 0,
+		(input.enabled ?? existing.enabled) ? 1 : 0,
+		id
+	)
+	if (input.flag_ids !== undefined) {
+		setImportRuleFlags(id, input.flag_ids)
+	}
+	return getImportRuleById(id)
+}
+
+/**
+ * Delete an import rule
+ */
+export function deleteImportRule(id: number): boolean {
+	return dbQueries.deleteImportRule.run(id).changes > 0
+}
+
+/**
+ * Find a date in a file name, such as scanner output named "Scan_20240115_1030.pdf" or "receipt 01-15-2024.jpg"
+ * Returns an ISO date string, or null if the name contains no valid date
+ */
+export function parseDateFromFilename(filename: string): string | null {
+	const candidates: Array<[string, string, string]> = []
+	for (const match of filename.matchAll(/(?<!\d)((?:19|20)\d{2})[-_.]?(\d{2})[-_.]?(\d{2})(?!\d)/g)) {
+		candidates.push([match[1], match[2], match[3]])
+	}
+	for (const match of filename.matchAll(/(?<!\d)(\d{2})[-_.](\d{2})[-_.]((?:19|20)\d{2})(?!\d)/g)) {
+		candidates.push([match[3], match[1], match[2]])
+	}
+
+	for (const [year, month, day] of candidates) {
+		const date = `${year}-${month}-${day}`
+		const parsed = new Date(`${date}T00:00:00Z`)
+		// Rejects impossible dates such as 2024-02-30, which Date would roll over
+		if (!isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date)) {
+			return date
+		}
+	}
+	return null
+}
+
+/**
+ * Check whether a rule matches an import
+ * Text rules never match before the files' text has been recognized
+ */
+export function importRuleMatches(rule: ImportRule, source: ImportSource): boolean {
+	const pattern = rule.pattern.toLowerCase()
+	switch (rule.match_type) {
+		case 'folder':
+			return source.folder !== null && source.folder.toLowerCase() === pattern
+		case 'filename': {
+			const regex = new RegExp(rule.pattern, 'i')
+			return source.filenames.some(filename => regex.test(filename))
+		}
+		case 'text':
+			return source.text !== undefined && source.text.toLowerCase().includes(pattern)
+		default:
+			return false
+	}
+}
+
+/**
+ * Work out the receipt fields for an import from the rules that match it
+ * Rules apply in order: for each field the first matching rule that sets it wins, and flags of all matching rules are added
+ */
+export function applyImportRules(rules: ImportRule[], source: ImportSource): ImportRuleActions {
+	const actions: ImportRuleActions = { flag_ids: [] }
+
+	for (const rule of rules.filter(r => importRuleMatches(r, source))) {
+		actions.user_id ??= rule.user_id ?? undefined
+		actions.receipt_type_id ??= rule.receipt_type_id ?? undefined
+		actions.vendor ??= rule.vendor || undefined
+		if (rule.date_from_filename && actions.date === undefined) {
+			actions.date = source.filenames.map(parseDateFromFilename).find(date => date !== null) ?? undefined
+		}
+		for (const flagId of rule.flag_ids) {
+			if (!actions.flag_ids.includes(flagId)) {
+				actions.flag_ids.push(flagId)
+			}
+		}
+	}
+
+	return actions
+}
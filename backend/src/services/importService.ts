@@ -0,0 +1,577 @@
+import { createWriteStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { pipeline } from 'stream/promises'
+import { dbQueries } from '../db'
+import {
+	addReceiptFile,
+	createFlag,
+	createReceipt,
+	createReceiptType,
+	createReceiptTypeGroup,
+	createUser,
+	getAllFlags,
+	getAllReceiptTypeGroups,
+	getAllReceiptTypes,
+	getAllUsers,
+	getReceiptById,
+	getSetting,
+	queryReceipts,
+	setSetting,
+	syncReceiptSearchIndex,
+	updateFlag,
+	updateReceipt,
+	updateReceiptType,
+	updateReceiptTypeGroup,
+} from './dbService'
+import { computeFileHashes, findDuplicateFiles, setReceiptFileHashes } from './duplicateService'
+import { MANIFEST_ENTRY } from './exportService'
+import { isImageFile, isPdfFile, markFileAsOptimized, saveReceiptFile } from './fileService'
+import { SYSTEM_HISTORY } from './historyService'
+import { getMigrationFiles } from './migrationService'
+import { trashReceipt } from './trashService'
+import {
+	EXPORT_FORMAT_VERSION,
+	ExportManifest,
+	ExportedReceipt,
+	ExportedReceiptFile,
+	ImportConflictMode,
+	ImportResult,
+} from '../models/export'
+import { FileHashes } from '../models/duplicate'
+import { HistoryContext } from '../models/history'
+import { JobContext } from '../models/job'
+import { ReceiptWithFilesAndNames } from '../models/receipt'
+import { SETTING_KEYS, SettingKey } from '../models/settings'
+import { directoryPatternUses, getDirectoryPattern } from '../utils/filename'
+import { listZipEntries, readZipEntry, openZipEntry, ZipEntry } from '../utils/zip'
+import {
+	validateAmount,
+	validateDate,
+	validateHsaTransactionRef,
+	validateReimbursementDetails,
+	validateReimbursementStatus,
+	validateSetting,
+} from '../utils/validation'
+import { sanitizeOptionalString, sanitizeString } from '../utils/sanitization'
+import { logger } from '../utils/logger'
+
+const METADATA_FILENAME = 'metadata.json'
+
+/**
+ * Thrown when an archive isn't a MedStash export that this version can import
+ */
+export class ImportValidationError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'ImportValidationError'
+	}
+}
+
+interface ImportArchive {
+	manifest: ExportManifest | null // Missing in exports made before the manifest existed
+	entries: Map<string, ZipEntry>
+	receipts: ZipEntry[] // metadata.json of each receipt
+}
+
+// An archive file extracted to the upload directory, ready to be stored
+interface ExtractedFile {
+	file: ExportedReceiptFile
+	tempPath: string
+	hashes: FileHashes
+}
+
+/**
+ * Get the directory for temporary copies of imported files
+ */
+function getUploadDir(): string {
+	return process.env.UPLOAD_DIR || (process.env.NODE_ENV === 'production' ? '/data/uploads' : '/tmp/medstash-uploads')
+}
+
+/**
+ * Read the manifest and list the receipts of an export archive
+ */
+async function openImportArchive(archivePath: string): Promise<ImportArchive> {
+	let zipEntries: ZipEntry[]
+	try {
+		zipEntries = await listZipEntries(archivePath)
+	} catch (error: any) {
+		throw new ImportValidationError(`The archive can't be read: ${error?.message ?? error}`)
+	}
+	const entries = new Map(zipEntries.map(entry => [entry.path, entry]))
+
+	let manifest: ExportManifest | null = null
+	const manifestEntry = entries.get(MANIFEST_ENTRY)
+	if (manifestEntry) {
+		try {
+			manifest = JSON.parse((await readZipEntry(archivePath, manifestEntry)).toString('utf-8'))
+		} catch {
+			throw new ImportValidationError('The export manifest is not valid JSON')
+		}
+		if (manifest?.format !== 'medstash-export') {
+			throw new ImportValidationError('The archive is not a MedStash export')
+		}
+		if (manifest.format_version > EXPORT_FORMAT_VERSION) {
+			throw new ImportValidationError('The export was made by a newer version of MedStash')
+		}
+		if (manifest.schema_version && !getMigrationFiles().includes(manifest.schema_version)) {
+			throw new ImportValidationError(`The export was made by a newer version of MedStash (schema ${manifest.schema_version})`)
+		}
+	}
+
+	const receipts = zipEntries
+		.filter(entry => path.posix.basename(entry.path) === METADATA_FILENAME)
+		.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }))
+	if (!manifest && receipts.length === 0) {
+		throw new ImportValidationError('The archive is not a MedStash export')
+	}
+	return { manifest, entries, receipts }
+}
+
+/**
+ * Check an export archive without importing it
+ * Returns the number of receipts in the archive
+ */
+export async function validateImportArchive(archivePath: string): Promise<{ receipts: number }> {
+	const archive = await openImportArchive(archivePath)
+	return { receipts: archive.receipts.length }
+}
+
+/**
+ * Find or create a user by name
+ */
+function ensureUser(name: string, result: ImportResult): number {
+	const existing = getAllUsers().find(user => user.name === name)
+	if (existing) return existing.id
+	result.users_created++
+	return createUser(name).id
+}
+
+/**
+ * Find or create a receipt type by name, outside any group
+ */
+function ensureReceiptType(name: string, result: ImportResult): number {
+	const existing = getAllReceiptTypes().find(type => type.name === name)
+	if (existing) return existing.id
+	result.receipt_types_created++
+	return createReceiptType(name, null).id
+}
+
+/**
+ * Find or create a flag by name
+ */
+function ensureFlag(name: string, result: ImportResult): number {
+	const existing = getAllFlags().find(flag => flag.name === name)
+	if (existing) return existing.id
+	result.flags_created++
+	return createFlag(name).id
+}
+
+/**
+ * Import the users, receipt types, flags and settings of the manifest, matched to existing ones by name
+ * Existing ones are only changed when overwriting, or filled in when merging
+ */
+function importManifestEntities(manifest: ExportManifest, conflict: ImportConflictMode, result: ImportResult): void {
+	for (const user of manifest.users ?? []) {
+		ensureUser(user.name, result)
+	}
+
+	const groupIds = new Map<string, number>()
+	for (const group of manifest.receipt_type_groups ?? []) {
+		const existing = getAllReceiptTypeGroups().find(g => g.name === group.name)
+		if (!existing) {
+			groupIds.set(group.name, createReceiptTypeGroup(group.name, group.display_order).id)
+			result.receipt_type_groups_created++
+			continue
+		}
+		if (conflict === 'overwrite') {
+			updateReceiptTypeGroup(existing.id, undefined, group.display_order)
+		}
+		groupIds.set(group.name, existing.id)
+	}
+
+	for (const type of manifest.receipt_types ?? []) {
+		const groupId = type.group ? groupIds.get(type.group) ?? null : null
+		const existing = getAllReceiptTypes().find(t => t.name === type.name)
+		if (!existing) {
+			createReceiptType(type.name, groupId, type.display_order)
+			result.receipt_types_created++
+		} else if (conflict === 'overwrite') {
+			updateReceiptType(existing.id, undefined, groupId, type.display_order)
+		} else if (conflict === 'merge' && !existing.group_id && groupId) {
+			updateReceiptType(existing.id, undefined, groupId)
+		}
+	}
+
+	for (const flag of manifest.flags ?? []) {
+		const existing = getAllFlags().find(f => f.name === flag.name)
+		if (!existing) {
+			createFlag(flag.name, flag.color ?? undefined)
+			result.flags_created++
+		} else if (flag.color && (conflict === 'overwrite' || (conflict === 'merge' && !existing.color))) {
+			updateFlag(existing.id, undefined, flag.color)
+		}
+	}
+
+	// Settings go through the same whitelist and checks as the settings API
+	for (const [key, value] of Object.entries(manifest.settings ?? {})) {
+		if (!(SETTING_KEYS as readonly string[]).includes(key)) {
+			result.errors.push(`Setting ${key}: not a known setting`)
+			continue
+		}
+		let parsed: unknown
+		try {
+			parsed = JSON.parse(value)
+		} catch {
+			result.errors.push(`Setting ${key}: value is not valid JSON`)
+			continue
+		}
+		const validation = validateSetting(key as SettingKey, parsed)
+		if (!validation.valid) {
+			result.errors.push(`Setting ${key}: ${validation.error}`)
+			continue
+		}
+
+		const current = getSetting(key)
+		if (current === value || (current !== null && conflict !== 'overwrite')) continue
+		try {
+			setSetting(key, JSON.stringify(parsed))
+			result.settings_updated++
+		} catch (error: any) {
+			result.errors.push(`Setting ${key}: ${error?.message ?? error}`)
+		}
+	}
+}
+
+/**
+ * Get the files of an exported receipt
+ * Exports made before the manifest existed have no file list, so every other file in the receipt's folder is used
+ */
+function getExportedFiles(archive: ImportArchive, metadataEntry: ZipEntry, metadata: ExportedReceipt): ExportedReceiptFile[] {
+	if (Array.isArray(metadata.files)) return metadata.files
+
+	const receiptDir = path.posix.dirname(metadataEntry.path)
+	return Array.from(archive.entries.keys())
+		.filter(entryPath => path.posix.dirname(entryPath) === receiptDir && entryPath !== metadataEntry.path)
+		.sort()
+		.map((entryPath, index) => ({
+			path: entryPath,
+			original_filename: path.posix.basename(entryPath),
+			file_order: index,
+			extracted_text: null,
+			text_source: null,
+		}))
+}
+
+/**
+ * Copy the files of an exported receipt out of the archive and fingerprint them
+ */
+async function extractFiles(archivePath: string, archive: ImportArchive, files: ExportedReceiptFile[]): Promise<ExtractedFile[]> {
+	const uploadDir = getUploadDir()
+	await fs.mkdir(uploadDir, { recursive: true })
+
+	const extracted: ExtractedFile[] = []
+	for (const [index, file] of files.entries()) {
+		const entry = archive.entries.get(file.path)
+		if (!entry) {
+			throw new Error(`File missing from archive: ${file.path}`)
+		}
+		const tempPath = path.join(uploadDir, `import-${Date.now()}-${index}-${path.basename(file.original_filename)}`)
+		await pipeline(await openZipEntry(archivePath, entry), createWriteStream(tempPath))
+		extracted.push({ file, tempPath, hashes: await computeFileHashes(tempPath, file.original_filename) })
+	}
+	return extracted
+}
+
+/**
+ * Find a stored receipt that is the same as an imported one: one of its files is identical,
+ * or it has the same user, date, amount and vendor
+ */
+function findExistingReceipt(metadata: ExportedReceipt, userId: number, files: ExtractedFile[]): ReceiptWithFilesAndNames | null {
+	const identical = findDuplicateFiles(files.map(f => f.hashes)).find(match => match.reason === 'identical_file')
+	if (identical) {
+		return getReceiptById(identical.receipt_id)
+	}
+
+	const vendor = (metadata.vendor || '').trim().toLowerCase()
+	const { receipts } = queryReceipts({
+		user_id: userId,
+		date_from: metadata.date,
+		date_to: metadata.date,
+		amount_min: metadata.amount,
+		amount_max: metadata.amount,
+	})
+	return receipts.find(receipt => receipt.vendor.trim().toLowerCase() === vendor) ?? null
+}
+
+/**
+ * Store extracted files with a receipt, keeping the text recognized by the exporting instance
+ */
+async function storeFiles(
+	receipt: ReceiptWithFilesAndNames,
+	files: ExtractedFile[],
+	firstOrder: number,
+	history: HistoryContext
+): Promise<number> {
+	for (const [index, { file, tempPath, hashes }] of files.entries()) {
+		const fileOrder = firstOrder + index
+		// Only path and originalname are used by saveReceiptFile
+		const uploadedFile = {
+			fieldname: 'archive',
+			originalname: file.original_filename,
+			encoding: '7bit',
+			mimetype: isImageFile(file.original_filename)
+				? 'image/jpeg'
+				: isPdfFile(file.original_filename)
+					? 'application/pdf'
+					: 'application/octet-stream',
+			destination: getUploadDir(),
+			filename: path.basename(tempPath),
+			path: tempPath,
+			size: (await fs.stat(tempPath)).size,
+			stream: null as any,
+			buffer: null as any,
+		} as Express.Multer.File
+
+		const { filename, originalFilename, optimized } = await saveReceiptFile(
+			uploadedFile,
+			receipt.id,
+			receipt.date,
+			receipt.user,
+			receipt.vendor,
+			receipt.amount,
+			receipt.type,
+			fileOrder,
+			receipt.flags
+		)
+		const receiptFile = addReceiptFile(receipt.id, filename, originalFilename, fileOrder, history)
+		setReceiptFileHashes(receiptFile.id, hashes)
+		if (optimized) {
+			await markFileAsOptimized(receipt.id, filename)
+		}
+		if (file.extracted_text) {
+			dbQueries.updateReceiptFileExtractedText.run(file.extracted_text, file.text_source, receiptFile.id)
+		}
+	}
+	syncReceiptSearchIndex(receipt.id)
+	return files.length
+}
+
+/**
+ * Fill in the empty fields of a stored receipt from an imported one
+ * Reimbursement details that don't fit the stored receipt's amount are left out and reported
+ */
+function getMergedFields(
+	existing: ReceiptWithFilesAndNames,
+	metadata: ExportedReceipt,
+	reportError: (message: string) => void
+): Parameters<typeof updateReceipt>[1] {
+	const fields: Parameters<typeof updateReceipt>[1] = {}
+	if (!existing.vendor && metadata.vendor) fields.vendor = sanitizeString(metadata.vendor)
+	if (!existing.provider_address && metadata.provider_address) fields.provider_address = sanitizeString(metadata.provider_address)
+	if (!existing.description && metadata.description) fields.description = sanitizeString(metadata.description)
+	if (!existing.notes && metadata.notes) fields.notes = sanitizeOptionalString(metadata.notes) ?? undefined
+	const mergesReimbursement =
+		existing.reimbursement_status === 'unreimbursed' && metadata.reimbursement_status && metadata.reimbursement_status !== 'unreimbursed'
+	const reimbursementValidation = mergesReimbursement
+		? validateReimbursementDetails(metadata.reimbursement_status, metadata.reimbursed_amount, existing.amount)
+		: { valid: true }
+	if (!reimbursementValidation.valid) {
+		reportError(`Reimbursement details not merged: ${reimbursementValidation.error}`)
+	} else if (mergesReimbursement) {
+		fields.reimbursement_status = metadata.reimbursement_status
+		fields.reimbursed_date = metadata.reimbursed_date ?? null
+		fields.reimbursed_amount = metadata.reimbursed_amount ?? null
+		fields.hsa_transaction_ref = sanitizeOptionalString(metadata.hsa_transaction_ref)
+	}
+	return fields
+}
+
+/**
+ * Check the reimbursement details of an imported receipt the way the receipts API does
+ * @throws Error if a value is not allowed
+ */
+function validateImportedReimbursement(metadata: ExportedReceipt): void {
+	const statusValidation = validateReimbursementStatus(metadata.reimbursement_status ?? undefined)
+	if (!statusValidation.valid) throw new Error(statusValidation.error)
+	if (metadata.reimbursed_date) {
+		const dateValidation = validateDate(metadata.reimbursed_date)
+		if (!dateValidation.valid) throw new Error(`Invalid reimbursed_date: ${dateValidation.error}`)
+	}
+	const amountValidation = validateAmount(metadata.reimbursed_amount ?? undefined)
+	if (!amountValidation.valid) throw new Error(`Invalid reimbursed_amount: ${amountValidation.error}`)
+	const refValidation = validateHsaTransactionRef(metadata.hsa_transaction_ref ?? undefined)
+	if (!refValidation.valid) throw new Error(refValidation.error)
+	const detailsValidation = validateReimbursementDetails(
+		metadata.reimbursement_status ?? 'unreimbursed',
+		metadata.reimbursed_amount,
+		metadata.amount ?? 0
+	)
+	if (!detailsValidation.valid) throw new Error(detailsValidation.error)
+}
+
+/**
+ * Import one receipt of an export archive
+ */
+async function importReceipt(
+	archivePath: string,
+	archive: ImportArchive,
+	metadataEntry: ZipEntry,
+	conflict: ImportConflictMode,
+	result: ImportResult,
+	history: HistoryContext
+): Promise<void> {
+	let metadata: ExportedReceipt
+	try {
+		metadata = JSON.parse((await readZipEntry(archivePath, metadataEntry)).toString('utf-8'))
+	} catch {
+		throw new Error('Metadata is not valid JSON')
+	}
+	const dateValidation = validateDate(metadata.date)
+	if (!dateValidation.valid) throw new Error(dateValidation.error)
+	const amountValidation = validateAmount(metadata.amount)
+	if (!amountValidation.valid) throw new Error(amountValidation.error)
+	validateImportedReimbursement(metadata)
+
+	const files = await extractFiles(archivePath, archive, getExportedFiles(archive, metadataEntry, metadata))
+	try {
+		const userId = ensureUser(sanitizeString(metadata.user || 'Unknown'), result)
+		const receiptTypeId = ensureReceiptType(sanitizeString(metadata.type || 'Other'), result)
+		const flagIds = (metadata.flags ?? []).map(name => ensureFlag(sanitizeString(name), result))
+
+		const existing = findExistingReceipt(metadata, userId, files)
+		if (existing && conflict === 'skip') {
+			result.skipped++
+			return
+		}
+
+		if (existing && conflict === 'merge') {
+			const mergedFlagIds = Array.from(new Set([...existing.flags.map(flag => flag.id), ...flagIds]))
+			const updated = await updateReceipt(
+				existing.id,
+				getMergedFields(existing, metadata, message =>
+					result.errors.push(`${path.posix.dirname(metadataEntry.path)}: ${message}`)
+				),
+				mergedFlagIds.length !== existing.flags.length ? mergedFlagIds : undefined,
+				history
+			)
+			const storedHashes = new Set(existing.files.map(file => file.content_hash).filter(Boolean))
+			const newFiles = files.filter(file => !storedHashes.has(file.hashes.content_hash))
+			const firstOrder = existing.files.reduce((max, file) => Math.max(max, file.file_order + 1), 0)
+			result.files += await storeFiles(updated ?? existing, newFiles, firstOrder, history)
+			result.merged++
+			return
+		}
+
+		// The overwritten receipt goes to the trash, so the import can be undone
+		if (existing) {
+			await trashReceipt(existing.id, history)
+		}
+
+		const receipt = createReceipt(
+			{
+				user_id: userId,
+				receipt_type_id: receiptTypeId,
+				amount: metadata.amount,
+				vendor: sanitizeString(metadata.vendor),
+				provider_address: sanitizeString(metadata.provider_address),
+				description: sanitizeString(metadata.description),
+				date: metadata.date,
+				notes: sanitizeOptionalString(metadata.notes) ?? undefined,
+				reimbursement_status: metadata.reimbursement_status,
+				reimbursed_date: metadata.reimbursed_date,
+				reimbursed_amount: metadata.reimbursed_amount,
+				hsa_transaction_ref: sanitizeOptionalString(metadata.hsa_transaction_ref),
+			},
+			flagIds,
+			history
+		)
+		result.files += await storeFiles(
+			receipt,
+			files.sort((a, b) => a.file.file_order - b.file.file_order),
+			0,
+			history
+		)
+		if (existing) {
+			result.overwritten++
+		} else {
+			result.created++
+		}
+	} finally {
+		// Stored files were moved out of the upload directory; this removes the ones that were skipped
+		await Promise.all(files.map(file => fs.rm(file.tempPath, { force: true })))
+	}
+}
+
+/**
+ * Import an export archive: its users, receipt types, flags and settings first, then every receipt with its files
+ * Receipts that fail to import are reported in the result's errors and don't stop the rest
+ */
+export async function importArchive(
+	archivePath: string,
+	conflict: ImportConflictMode = 'skip',
+	context?: JobContext
+): Promise<ImportResult> {
+	const archive = await openImportArchive(archivePath)
+	const result: ImportResult = {
+		receipts: archive.receipts.length,
+		created: 0,
+		merged: 0,
+		overwritten: 0,
+		skipped: 0,
+		files: 0,
+		users_created: 0,
+		receipt_types_created: 0,
+		receipt_type_groups_created: 0,
+		flags_created: 0,
+		settings_updated: 0,
+		errors: [],
+	}
+
+	if (archive.manifest) {
+		const directoryPattern = getDirectoryPattern()
+		const typeGroups = new Map(getAllReceiptTypes().map(type => [type.id, type.group_id]))
+		importManifestEntities(archive.manifest, conflict, result)
+
+		// Stored files move to new folders when the import changed the directory layout or the groups it uses
+		const movedTypes =
+			directoryPatternUses('type-group') &&
+			getAllReceiptTypes().some(type => typeGroups.has(type.id) && typeGroups.get(type.id) !== type.group_id)
+		if (getDirectoryPattern() !== directoryPattern || movedTypes) {
+			const { enqueueJobOnce } = await import('./jobService')
+			enqueueJobOnce('migrate-files')
+		}
+	}
+
+	context?.reportProgress(0, archive.receipts.length)
+	for (const [index, metadataEntry] of archive.receipts.entries()) {
+		context?.throwIfCancelled()
+		try {
+			await importReceipt(archivePath, archive, metadataEntry, conflict, result, context?.history ?? SYSTEM_HISTORY)
+		} catch (error: any) {
+			logger.warn(`Failed to import ${metadataEntry.path}:`, error)
+			result.errors.push(`${path.posix.dirname(metadataEntry.path)}: ${error?.message ?? error}`)
+		}
+		context?.reportProgress(index + 1, archive.receipts.length)
+	}
+
+	logger.debug(
+		`Imported ${archive.receipts.length} receipt(s): ${result.created} created, ${result.merged} merged, ${result.overwritten} overwritten, ${result.skipped} skipped`
+	)
+	return result
+}
+
+/**
+ * Import an uploaded export archive, deleting the upload afterwards
+ */
+export async function importUploadedArchive(
+	uploadPath: string,
+	conflict: ImportConflictMode = 'skip',
+	context?: JobContext
+): Promise<ImportResult> {
+	try {
+		return await importArchive(uploadPath, conflict, context)
+	} finally {
+		await fs.rm(uploadPath, { force: true })
+	}
+}
@@ -0,0 +1,204 @@
+import { dbQueries } from '../db'
+import { Job, JobContext, JobRow, JobType } from '../models/job'
+import {
+	migrateFilesToDirectoryLayout,
+	optimizeExistingImages,
+	relocateUserFiles,
+	reoptimizeAllImages,
+	renameAllReceiptFiles,
+} from './fileService'
+import { hashExistingFiles } from './duplicateService'
+import { createBackup, restoreBackup } from './backupService'
+import { importUploadedArchive } from './importService'
+import { purgeExpiredTrash } from './trashService'
+import { publishEvent } from './eventService'
+import { getJobHistory } from './historyService'
+import { logger } from '../utils/logger'
+
+type JobHandler = (params: Record<string, any>, context: JobContext) => Promise<object>
+
+// Finished jobs are kept for a week so their results can still be looked up
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+// Progress is published at most this often so fast jobs don't flood the event stream
+const PROGRESS_EVENT_INTERVAL_MS = 250
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+	'optimize-images': (params, context) => optimizeExistingImages({ ...params, context }),
+	'reoptimize-images': (params, context) => reoptimizeAllImages({ ...params, context }),
+	'rename-files': (_params, context) => renameAllReceiptFiles(context),
+	'migrate-files': (_params, context) => migrateFilesToDirectoryLayout(context),
+	'hash-files': (_params, context) => hashExistingFiles(context),
+	'create-backup': (params, context) => createBackup(params.kind ?? 'manual', context),
+	'restore-backup': (params, context) => restoreBackup(params.name, context),
+	'import-receipts': (params, context) => importUploadedArchive(params.path, params.conflict, context),
+	'purge-trash': (_params, context) => purgeExpiredTrash(context),
+	'relocate-user-files': (params, context) => relocateUserFiles(params.user_id, params.previous_name, context),
+}
+
+/**
+ * Thrown by a job's context when the job was cancelled, to stop the running operation
+ */
+export class JobCancelledError extends Error {
+	constructor() {
+		super('Job was cancelled')
+		this.name = 'JobCancelledError'
+	}
+}
+
+// Resolves when the queue is empty; null while no job is running
+let queuePromise: Promise<void> | null = null
+
+function toJob(row: JobRow): Job {
+	return {
+		...row,
+		params: row.params ? JSON.parse(row.params) : null,
+		result: row.result ? JSON.parse(row.result) : null,
+		cancel_requested: row.cancel_requested === 1,
+	}
+}
+
+/**
+ * Get a job by ID
+ */
+export function getJobById(id: number): Job | null {
+	const row = dbQueries.getJobById.get(id) as JobRow | undefined
+	return row ? toJob(row) : null
+}
+
+/**
+ * Publish the current state of a job to connected browsers
+ */
+function publishJobUpdate(id: number): void {
+	const job = getJobById(id)
+	if (job) {
+		publishEvent('job.updated', { job })
+	}
+}
+
+/**
+ * Get the most recently queued jobs, newest first
+ */
+export function getRecentJobs(limit = 20): Job[] {
+	return (dbQueries.getRecentJobs.all(limit) as JobRow[]).map(toJob)
+}
+
+/**
+ * Get the jobs of a type that are waiting to run, oldest first
+ */
+export function getQueuedJobs(type: JobType): Job[] {
+	return (dbQueries.getQueuedJobsByType.all(type) as JobRow[]).map(toJob)
+}
+
+/**
+ * Queue a job and start the worker if it is idle
+ * Returns the queued job; its progress can be followed with getJobById
+ */
+export function enqueueJob(type: JobType, params: Record<string, unknown> = {}, accountId?: number): Job {
+	const result = dbQueries.insertJob.run(type, JSON.stringify(params), accountId ?? null)
+	const job = getJobById(Number(result.lastInsertRowid))!
+	publishJobUpdate(job.id)
+	// Start on the next tick so the request that queued the job can respond first
+	setImmediate(() => processJobQueue())
+	return job
+}
+
+/**
+ * Queue a job unless one of the same type and params is still waiting to run
+ * For jobs that work from the current state, so the waiting job also covers the newer change
+ */
+export function enqueueJobOnce(type: JobType, params: Record<string, unknown> = {}, accountId?: number): Job {
+	const queued = getQueuedJobs(type).find(job => JSON.stringify(job.params) === JSON.stringify(params))
+	return queued ?? enqueueJob(type, params, accountId)
+}
+
+/**
+ * Cancel a job
+ * Queued jobs are cancelled immediately; running jobs stop at their next checkpoint
+ * Returns null if the job doesn't exist
+ */
+export function cancelJob(id: number): Job | null {
+	dbQueries.cancelQueuedJob.run(id)
+	dbQueries.requestJobCancel.run(id)
+	publishJobUpdate(id)
+	return getJobById(id)
+}
+
+/**
+ * Run a single job and record its result
+ */
+async function runJob(row: JobRow): Promise<void> {
+	dbQueries.updateJobStarted.run(row.id)
+	publishJobUpdate(row.id)
+	logger.debug(`Running job ${row.id} (${row.type})`)
+
+	let lastProgressEventAt = 0
+	const context: JobContext = {
+		reportProgress: (progress, total) => {
+			dbQueries.updateJobProgress.run(progress, total, row.id)
+			if (progress >= total || Date.now() - lastProgressEventAt >= PROGRESS_EVENT_INTERVAL_MS) {
+				lastProgressEventAt = Date.now()
+				publishJobUpdate(row.id)
+			}
+		},
+		throwIfCancelled: () => {
+			const current = dbQueries.getJobById.get(row.id) as JobRow | undefined
+			if (!current || current.cancel_requested) {
+				throw new JobCancelledError()
+			}
+		},
+		history: getJobHistory(row),
+	}
+
+	try {
+		const handler = JOB_HANDLERS[row.type]
+		if (!handler) {
+			throw new Error(`Unknown job type: ${row.type}`)
+		}
+		const result = await handler(row.params ? JSON.parse(row.params) : {}, context)
+		dbQueries.updateJobFinished.run('completed', JSON.stringify(result), null, row.id)
+		logger.debug(`Job ${row.id} (${row.type}) completed`)
+	} catch (error) {
+		if (error instanceof JobCancelledError) {
+			dbQueries.updateJobFinished.run('cancelled', null, null, row.id)
+			logger.debug(`Job ${row.id} (${row.type}) cancelled`)
+			return
+		}
+		logger.error(`Job ${row.id} (${row.type}) failed:`, error)
+		dbQueries.updateJobFinished.run('failed', null, error instanceof Error ? error.message : 'Unknown error', row.id)
+	} finally {
+		publishJobUpdate(row.id)
+	}
+}
+
+/**
+ * Run queued jobs one at a time until the queue is empty
+ * Returns the running worker's promise if it is already busy
+ */
+export function processJobQueue(): Promise<void> {
+	if (!queuePromise) {
+		queuePromise = (async () => {
+			let row: JobRow | undefined
+			while ((row = dbQueries.getNextQueuedJob.get() as JobRow | undefined)) {
+				await runJob(row)
+			}
+		})().finally(() => {
+			queuePromise = null
+		})
+	}
+	return queuePromise
+}
+
+/**
+ * Start the job worker on server startup
+ * Jobs that were running when the server stopped are queued again, and old finished jobs are removed
+ */
+export function startJobWorker(): void {
+	const requeued = dbQueries.requeueRunningJobs.run().changes
+	if (requeued > 0) {
+		logger.warn(`Re-queued ${requeued} job(s) interrupted by a restart`)
+	}
+	const cutoff = new Date(Date.now() - FINISHED_JOB_RETENTION_MS).toISOString().replace('T', ' ').slice(0, 19)
+	dbQueries.deleteFinishedJobsBefore.run(cutoff)
+	processJobQueue()
+}
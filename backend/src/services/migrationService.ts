@@ -53,7 +53,7 @@ function initializeMigrationsTable(db: DatabaseType): void {
 /**
  * Get list of applied migrations from the database
  */
-function getAppliedMigrations(db: DatabaseType): Set<string> {
+export function getAppliedMigrations(db: DatabaseType): Set<string> {
 	try {
 		const rows = db.prepare('SELECT version FROM schema_migrations').all() as Array<{ version: string }>
 		return new Set(rows.map(row => row.version))
@@ -66,7 +66,7 @@ function getAppliedMigrations(db: DatabaseType): Set<string> {
 /**
  * Read migration files from the migrations directory
  */
-function getMigrationFiles(): string[] {
+export function getMigrationFiles(): string[] {
 	if (!fs.existsSync(MIGRATIONS_DIR)) {
 		logger.warn(`Migrations directory not found: ${MIGRATIONS_DIR}`)
 		return []
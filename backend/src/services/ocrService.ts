@@ -0,0 +1,354 @@
+import path from 'path'
+import { createWorker, OEM, Worker } from 'tesseract.js'
+import { ReceiptFile, ReceiptTextSuggestions, TextExtractionResult } from '../models/receipt'
+import { dbQueries } from '../db'
+import { getSetting, syncReceiptSearchIndex } from './dbService'
+import { findReceiptFilePath, isImageFile, isPdfFile } from './fileService'
+import { extractPdfText, renderPdfFirstPage } from './pdfService'
+import { logger } from '../utils/logger'
+
+// Terminate the OCR worker after this long without work to free its memory
+const OCR_IDLE_TIMEOUT_MS = 60 * 1000
+
+// Width in pixels that scanned PDF pages are rendered at before OCR
+const PDF_OCR_RENDER_WIDTH = 2000
+
+let workerPromise: Promise<Worker> | null = null
+let activeJobs = 0
+let idleTimer: NodeJS.Timeout | null = null
+
+/**
+ * Get the directory containing the bundled English language data
+ * The data ships with the @tesseract.js-data/eng package so OCR never needs network access
+ */
+function getLanguageDataPath(): string {
+	return path.join(path.dirname(require.resolve('@tesseract.js-data/eng/package.json')), '4.0.0')
+}
+
+/**
+ * Get the shared OCR worker, starting it on first use
+ */
+function getWorker(): Promise<Worker> {
+	if (!workerPromise) {
+		workerPromise = createWorker('eng', OEM.LSTM_ONLY, {
+			langPath: getLanguageDataPath(),
+			gzip: true,
+			cacheMethod: 'none',
+		})
+		workerPromise.catch(() => {
+			workerPromise = null
+		})
+	}
+	return workerPromise
+}
+
+/**
+ * Schedule the shared worker to be terminated once no jobs are running
+ */
+function scheduleWorkerShutdown(): void {
+	if (idleTimer) {
+		clearTimeout(idleTimer)
+	}
+	idleTimer = setTimeout(async () => {
+		idleTimer = null
+		if (activeJobs > 0 || !workerPromise) {
+			return
+		}
+		const pending = workerPromise
+		workerPromise = null
+		try {
+			await (await pending).terminate()
+		} catch (error) {
+			logger.debug('Failed to terminate OCR worker:', error)
+		}
+	}, OCR_IDLE_TIMEOUT_MS)
+	idleTimer.unref()
+}
+
+/**
+ * Check if OCR is enabled
+ * Defaults to true if setting is not set
+ */
+export function isOcrEnabled(): boolean {
+	try {
+		const setting = getSetting('ocrEnabled')
+		if (setting === null) {
+			return true
+		}
+		try {
+			return JSON.parse(setting) === true
+		} catch {
+			return setting === 'true'
+		}
+	} catch (error) {
+		logger.debug('Error checking OCR setting, defaulting to enabled:', error)
+		return true
+	}
+}
+
+/**
+ * Run OCR on an image file (or encoded image data) and return the raw recognized text
+ */
+export async function recognizeImageText(image: string | Buffer): Promise<string> {
+	activeJobs++
+	try {
+		const worker = await getWorker()
+		const { data } = await worker.recognize(image)
+		return data.text || ''
+	} finally {
+		activeJobs--
+		scheduleWorkerShutdown()
+	}
+}
+
+const MONTHS: Record<string, number> = {
+	jan: 1,
+	feb: 2,
+	mar: 3,
+	apr: 4,
+	may: 5,
+	jun: 6,
+	jul: 7,
+	aug: 8,
+	sep: 9,
+	oct: 10,
+	nov: 11,
+	dec: 12,
+}
+
+// Labels that usually precede the amount the patient actually paid or owes, most specific first
+const AMOUNT_LABELS = [
+	/\b(?:amount|balance|total)\s+due\b/i,
+	/\bpatient\s+(?:responsibility|balance|portion|pays?)\b/i,
+	/\b(?:you\s+owe|amount\s+paid|payment\s+received|paid)\b/i,
+	/\bgrand\s+total\b/i,
+	/\btotal\b/i,
+]
+
+// Labels that usually precede the date of service, most specific first
+const DATE_LABELS = [/\b(?:date\s+of\s+service|service\s+date|dos|visit\s+date)\b/i, /\bdate\b/i]
+
+const MONEY_PATTERN = /\$?\s*((?:\d{1,3}(?:,\d{3})+|\d+)\.\d{2})\b/g
+
+const STREET_PATTERN =
+	/^(?:\d+[A-Za-z]?\s+\S.*\b(?:street|st|avenue|ave|road|rd|boulevard|blvd|drive|dr|lane|ln|way|court|ct|suite|ste|parkway|pkwy|place|pl|highway|hwy|circle|cir|plaza)\b\.?.*|p\.?\s*o\.?\s+box\s+\d+.*)$/i
+
+const CITY_STATE_ZIP_PATTERN = /^[A-Za-z][A-Za-z .'-]*,?\s+[A-Z]{2}\.?\s+\d{5}(?:-\d{4})?$/
+
+const NON_VENDOR_PATTERN =
+	/\b(?:receipt|invoice|statement|patient|account|page|date|total|amount|balance|phone|tel|fax|www\.|\.com|thank you)\b/i
+
+/**
+ * Build an ISO date string, returning null if the components don't form a real date
+ */
+function toIsoDate(year: number, month: number, day: number): string | null {
+	if (year < 100) {
+		year += 2000
+	}
+	if (year < 1900 || month < 1 || month > 12 || day < 1 || day > 31) {
+		return null
+	}
+	const date = new Date(Date.UTC(year, month - 1, day))
+	if (date.getUTCMonth() !== month - 1) {
+		return null
+	}
+	return date.toISOString().split('T')[0]
+}
+
+/**
+ * Convert a month name or abbreviation to its number, returning 0 if it isn't a month
+ */
+function monthNumber(name: string): number {
+	return MONTHS[name.slice(0, 3).toLowerCase()] || 0
+}
+
+/**
+ * Find the first date in a line of text
+ * Supports YYYY-MM-DD, MM/DD/YYYY, MM-DD-YY, "Mar 14, 2024" and "14 March 2024"
+ */
+function findDate(line: string): string | null {
+	const patterns: Array<[RegExp, (m: RegExpMatchArray) => string | null]> = [
+		[/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/, m => toIsoDate(+m[1], +m[2], +m[3])],
+		[/\b(\d{1,2})[/-](\d{1,2})[/-](\d{4}|\d{2})\b/, m => toIsoDate(+m[3], +m[1], +m[2])],
+		[/\b([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})\b/, m => toIsoDate(+m[3], monthNumber(m[1]), +m[2])],
+		[/\b(\d{1,2})\s+([A-Za-z]{3,9})\.?,?\s+(\d{4})\b/, m => toIsoDate(+m[3], monthNumber(m[2]), +m[1])],
+	]
+
+	for (const [pattern, convert] of patterns) {
+		const match = line.match(pattern)
+		if (match) {
+			const date = convert(match)
+			if (date) {
+				return date
+			}
+		}
+	}
+	return null
+}
+
+/**
+ * Find all money amounts in a line of text
+ */
+function findAmounts(line: string): number[] {
+	return Array.from(line.matchAll(MONEY_PATTERN), m => parseFloat(m[1].replace(/,/g, ''))).filter(n => !isNaN(n))
+}
+
+/**
+ * Suggest the receipt amount: the amount next to the most specific total label,
+ * falling back to the largest dollar amount on the receipt
+ */
+function suggestAmount(lines: string[]): number | undefined {
+	for (const label of AMOUNT_LABELS) {
+		for (let i = 0; i < lines.length; i++) {
+			if (!label.test(lines[i])) continue
+			// Amounts are sometimes printed on the line after their label
+			const amounts = findAmounts(lines[i])
+			const candidates = amounts.length > 0 ? amounts : findAmounts(lines[i + 1] || '')
+			if (candidates.length > 0) {
+				return candidates[candidates.length - 1]
+			}
+		}
+	}
+
+	const dollarAmounts = lines.filter(line => line.includes('$')).flatMap(findAmounts)
+	return dollarAmounts.length > 0 ? Math.max(...dollarAmounts) : undefined
+}
+
+/**
+ * Suggest the date of service, preferring labelled dates over the first date found
+ */
+function suggestDate(lines: string[]): string | undefined {
+	for (const label of DATE_LABELS) {
+		for (let i = 0; i < lines.length; i++) {
+			if (!label.test(lines[i])) continue
+			const date = findDate(lines[i]) || findDate(lines[i + 1] || '')
+			if (date) {
+				return date
+			}
+		}
+	}
+
+	for (const line of lines) {
+		const date = findDate(line)
+		if (date) {
+			return date
+		}
+	}
+	return undefined
+}
+
+/**
+ * Suggest the vendor: the first line near the top that reads like a business name
+ */
+function suggestVendor(lines: string[]): string | undefined {
+	for (const line of lines.slice(0, 6)) {
+		const letters = line.replace(/[^A-Za-z]/g, '')
+		if (letters.length < 3 || letters.length < line.replace(/\s/g, '').length / 2) continue
+		if (NON_VENDOR_PATTERN.test(line) || STREET_PATTERN.test(line) || CITY_STATE_ZIP_PATTERN.test(line)) continue
+		if (findDate(line) || findAmounts(line).length > 0) continue
+		return line.replace(/[\s.,:;|-]+$/, '').slice(0, 200)
+	}
+	return undefined
+}
+
+/**
+ * Suggest the provider address from a street line, joined with the city/state/ZIP line after it
+ */
+function suggestProviderAddress(lines: string[]): string | undefined {
+	for (let i = 0; i < lines.length; i++) {
+		if (!STREET_PATTERN.test(lines[i])) continue
+		const next = lines[i + 1]
+		if (next && CITY_STATE_ZIP_PATTERN.test(next)) {
+			return `${lines[i]}, ${next}`
+		}
+		return lines[i]
+	}
+
+	return lines.find(line => CITY_STATE_ZIP_PATTERN.test(line))
+}
+
+/**
+ * Propose receipt fields from recognized text
+ * Only fields that could be found are included in the result
+ */
+export function parseReceiptText(text: string): ReceiptTextSuggestions {
+	const lines = text
+		.split(/\r?\n/)
+		.map(line => line.replace(/\s+/g, ' ').trim())
+		.filter(line => line.length > 0)
+
+	const suggestions: ReceiptTextSuggestions = {}
+
+	const amount = suggestAmount(lines)
+	if (amount !== undefined) suggestions.amount = amount
+
+	const date = suggestDate(lines)
+	if (date) suggestions.date = date
+
+	const vendor = suggestVendor(lines)
+	if (vendor) suggestions.vendor = vendor
+
+	const providerAddress = suggestProviderAddress(lines)
+	if (providerAddress) suggestions.provider_address = providerAddress
+
+	return suggestions
+}
+
+/**
+ * Get the text of an image or PDF and propose receipt fields from it
+ * PDFs use their embedded text; scanned PDFs without any fall back to OCR of the first page
+ * @param filename - Name used to detect the file type (uploads are stored without an extension)
+ */
+export async function extractTextFromFile(filePath: string, filename: string): Promise<TextExtractionResult> {
+	let text = ''
+	let source: TextExtractionResult['source'] = 'ocr'
+
+	if (isPdfFile(filename)) {
+		text = (await extractPdfText(filePath)).trim()
+		source = 'pdf'
+		if (!text && isOcrEnabled()) {
+			text = (await recognizeImageText(await renderPdfFirstPage(filePath, PDF_OCR_RENDER_WIDTH))).trim()
+			source = 'ocr'
+		}
+	} else {
+		text = (await recognizeImageText(filePath)).trim()
+	}
+
+	return { text, source, suggestions: parseReceiptText(text) }
+}
+
+/**
+ * Extract text from a receipt's image and PDF files that haven't been processed yet
+ * Stores the raw text per file, refreshes the search index and returns the results in file order
+ * Images are skipped when OCR is disabled; PDF text is always extracted
+ * Failures are logged and skipped so a bad file never blocks an upload or import
+ */
+export async function extractReceiptText(receiptId: number): Promise<TextExtractionResult[]> {
+	const ocrEnabled = isOcrEnabled()
+	const files = (dbQueries.getFilesByReceiptId.all(receiptId) as ReceiptFile[]).filter(
+		file =>
+			(file.extracted_text === null || file.extracted_text === undefined) &&
+			(isPdfFile(file.filename) || (ocrEnabled && isImageFile(file.filename)))
+	)
+
+	const results: TextExtractionResult[] = []
+	for (const file of files) {
+		try {
+			const filePath = await findReceiptFilePath(receiptId, file.filename)
+			if (!filePath) {
+				logger.warn(`Skipping text extraction for missing file ${file.filename} (receipt ${receiptId})`)
+				continue
+			}
+			const result = await extractTextFromFile(filePath, file.filename)
+			dbQueries.updateReceiptFileExtractedText.run(result.text, result.source, file.id)
+			results.push(result)
+		} catch (error) {
+			logger.error(`Text extraction failed for file ${file.id} (${file.filename}):`, error)
+		}
+	}
+
+	if (results.length > 0) {
+		syncReceiptSearchIndex(receiptId)
+	}
+	return results
+}
@@ -0,0 +1,74 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { createCanvas } from '@napi-rs/canvas'
+
+// Only the first pages of long statements are indexed
+const MAX_TEXT_PAGES = 20
+
+type PdfJs = typeof import('pdfjs-dist/legacy/build/pdf.mjs')
+
+let pdfjsPromise: Promise<PdfJs> | null = null
+
+/**
+ * Load pdf.js on first use (it is an ES module)
+ */
+function loadPdfJs(): Promise<PdfJs> {
+	if (!pdfjsPromise) {
+		pdfjsPromise = import('pdfjs-dist/legacy/build/pdf.mjs')
+	}
+	return pdfjsPromise
+}
+
+/**
+ * Open a PDF document from disk
+ * Fonts are loaded from the bundled pdfjs-dist package so nothing is fetched over the network
+ */
+async function openPdf(filePath: string) {
+	const pdfjs = await loadPdfJs()
+	const data = new Uint8Array(await fs.readFile(filePath))
+	const standardFontDataUrl = path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep
+	return pdfjs.getDocument({ data, standardFontDataUrl, isEvalSupported: false, verbosity: 0 }).promise
+}
+
+/**
+ * Extract the embedded text layer of a PDF
+ * Returns an empty string for scanned PDFs that only contain images
+ */
+export async function extractPdfText(filePath: string): Promise<string> {
+	const doc = await openPdf(filePath)
+	try {
+		const pages: string[] = []
+		const pageCount = Math.min(doc.numPages, MAX_TEXT_PAGES)
+		for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+			const page = await doc.getPage(pageNumber)
+			const content = await page.getTextContent()
+			const text = content.items
+				.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+				.join('')
+				.replace(/[ \t]+\n/g, '\n')
+				.trim()
+			pages.push(text)
+			page.cleanup()
+		}
+		return pages.filter(text => text.length > 0).join('\n\n')
+	} finally {
+		await doc.destroy()
+	}
+}
+
+/**
+ * Render the first page of a PDF to a PNG image of the given width
+ */
+export async function renderPdfFirstPage(filePath: string, width: number): Promise<Buffer> {
+	const doc = await openPdf(filePath)
+	try {
+		const page = await doc.getPage(1)
+		const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width })
+		const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height))
+		await page.render({ canvas: canvas as any, canvasContext: canvas.getContext('2d') as any, viewport }).promise
+		page.cleanup()
+		return canvas.encode('png')
+	} finally {
+		await doc.destroy()
+	}
+}
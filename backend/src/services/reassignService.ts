@@ -0,0 +1,199 @@
+import { dbQueries, db } from '../db'
+import { HistoryContext } from '../models/history'
+import { Receipt, ReceiptUsage, ReceiptWithFilesAndNames } from '../models/receipt'
+import {
+	deleteReceiptType,
+	deleteUser,
+	getReceiptById,
+	getReceiptTypeById,
+	getTrashedReceiptById,
+	getUserById,
+	recordFileRename,
+	syncReceiptSearchIndex,
+} from './dbService'
+import { renameReceiptFiles, undoReceiptFileRenames } from './fileService'
+import { publishReceiptEvent } from './eventService'
+import { SYSTEM_HISTORY, diffReceiptSnapshots, recordReceiptHistory, snapshotReceipt } from './historyService'
+import { logger } from '../utils/logger'
+
+export class ReassignmentError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'ReassignmentError'
+	}
+}
+
+/**
+ * Count the receipts of a list, separating those in the trash
+ */
+function countUsage(receipts: Receipt[]): ReceiptUsage {
+	const trashed = receipts.filter(receipt => receipt.deleted_at).length
+	return { receipts: receipts.length - trashed, trashed_receipts: trashed }
+}
+
+/**
+ * How many receipts belong to a user, or null if the user doesn't exist
+ */
+export function getUserUsage(id: number): ReceiptUsage | null {
+	if (!getUserById(id)) return null
+	return countUsage(dbQueries.getAllReceiptsByUser.all(id) as Receipt[])
+}
+
+/**
+ * How many receipts use a receipt type, or null if the type doesn't exist
+ */
+export function getReceiptTypeUsage(id: number): ReceiptUsage | null {
+	if (!getReceiptTypeById(id)) return null
+	return countUsage(dbQueries.getReceiptsByReceiptType.all(id) as Receipt[])
+}
+
+/**
+ * Move a set of receipts to another user or type, then delete the old one
+ * Files of receipts in use are renamed and moved to match their new details before the database changes,
+ * then the receipts, their new filenames and the delete are written in one transaction
+ * If the transaction fails, the files are moved back
+ */
+async function reassignAndDelete(
+	receipts: Receipt[],
+	target: { user?: string; type?: string },
+	moveAndDelete: () => void,
+	history: HistoryContext
+): Promise<void> {
+	const before = receipts
+		.map(receipt => getReceiptById(receipt.id) ?? getTrashedReceiptById(receipt.id))
+		.filter((receipt): receipt is ReceiptWithFilesAndNames => receipt !== null)
+
+	const renames = new Map<number, Awaited<ReturnType<typeof renameReceiptFiles>>>()
+	for (const receipt of before) {
+		// Files in the trash keep their trash name until they are restored
+		if (receipt.deleted_at || receipt.files.length === 0) continue
+		try {
+			const results = await renameReceiptFiles(
+				receipt.id,
+				receipt.files,
+				receipt.date,
+				target.user ?? receipt.user,
+				receipt.vendor,
+				receipt.amount,
+				target.type ?? receipt.type,
+				receipt.flags
+			)
+			renames.set(receipt.id, results)
+		} catch (error) {
+			logger.error(`Error renaming files of receipt ${receipt.id}:`, error)
+			// Continue - the files can be found by receipt ID and renamed later
+		}
+	}
+
+	try {
+		db.transaction(() => {
+			moveAndDelete()
+			for (const results of renames.values()) {
+				for (const result of results) {
+					dbQueries.updateReceiptFilename.run(result.newFilename, result.fileId)
+				}
+			}
+		})()
+	} catch (error) {
+		await undoReceiptFileRenames([...renames.values()].flat())
+		throw error
+	}
+
+	for (const receipt of before) {
+		const after = getReceiptById(receipt.id) ?? getTrashedReceiptById(receipt.id)
+		if (!after) continue
+		syncReceiptSearchIndex(receipt.id)
+		recordReceiptHistory(receipt.id, 'updated', diffReceiptSnapshots(snapshotReceipt(receipt), snapshotReceipt(after)), history)
+		for (const result of renames.get(receipt.id) ?? []) {
+			recordFileRename(receipt.id, result, history)
+		}
+		if (!receipt.deleted_at) {
+			publishReceiptEvent('receipt.updated', {
+				receipt_id: receipt.id,
+				user_id: after.user_id,
+				...(after.user_id !== receipt.user_id ? { previous_user_id: receipt.user_id } : {}),
+			})
+		}
+	}
+}
+
+/**
+ * Delete a user, moving its receipts (including those in the trash), watch folders and import rules to another user
+ * Accounts that could only see the deleted user lose access rather than gaining access to the other user
+ * reassignTo is only needed when the user still has receipts
+ * Returns false if the user doesn't exist
+ */
+export async function deleteUserWithReassignment(
+	id: number,
+	reassignTo?: number,
+	history: HistoryContext = SYSTEM_HISTORY
+): Promise<boolean> {
+	if (!getUserById(id)) return false
+
+	const receipts = dbQueries.getAllReceiptsByUser.all(id) as Receipt[]
+	if (reassignTo === undefined) {
+		if (receipts.length > 0) {
+			throw new ReassignmentError(`User has ${receipts.length} receipt(s); choose another user to move them to`)
+		}
+		return deleteUser(id)
+	}
+
+	const target = getUserById(reassignTo)
+	if (!target || reassignTo === id) {
+		throw new ReassignmentError('Receipts must be moved to another existing user')
+	}
+
+	await reassignAndDelete(
+		receipts,
+		{ user: target.name },
+		() => {
+			dbQueries.reassignReceiptsUser.run(reassignTo, id)
+			dbQueries.reassignWatchFoldersUser.run(reassignTo, id)
+			dbQueries.reassignImportRulesUser.run(reassignTo, id)
+			deleteUser(id)
+		},
+		history
+	)
+	logger.log(`Deleted user ${id} and moved ${receipts.length} receipt(s) to user ${reassignTo}`)
+	return true
+}
+
+/**
+ * Delete a receipt type, moving its receipts (including those in the trash), watch folders and import rules to another type
+ * reassignTo is only needed when the type is still in use
+ * Returns false if the type doesn't exist
+ */
+export async function deleteReceiptTypeWithReassignment(
+	id: number,
+	reassignTo?: number,
+	history: HistoryContext = SYSTEM_HISTORY
+): Promise<boolean> {
+	if (!getReceiptTypeById(id)) return false
+
+	const receipts = dbQueries.getReceiptsByReceiptType.all(id) as Receipt[]
+	if (reassignTo === undefined) {
+		if (receipts.length > 0) {
+			throw new ReassignmentError(`Receipt type is used by ${receipts.length} receipt(s); choose another type to move them to`)
+		}
+		return deleteReceiptType(id)
+	}
+
+	const target = getReceiptTypeById(reassignTo)
+	if (!target || reassignTo === id) {
+		throw new ReassignmentError('Receipts must be moved to another existing receipt type')
+	}
+
+	await reassignAndDelete(
+		receipts,
+		{ type: target.name },
+		() => {
+			dbQueries.reassignReceiptsType.run(reassignTo, id)
+			dbQueries.reassignWatchFoldersType.run(reassignTo, id)
+			dbQueries.reassignImportRulesType.run(reassignTo, id)
+			deleteReceiptType(id)
+		},
+		history
+	)
+	logger.log(`Deleted receipt type ${id} and moved ${receipts.length} receipt(s) to type ${reassignTo}`)
+	return true
+}
@@ -0,0 +1,252 @@
+import { dbQueries } from '../db'
+import { HistoryContext } from '../models/history'
+import { JobContext } from '../models/job'
+import { Receipt, ReceiptFile, ReceiptWithFilesAndNames } from '../models/receipt'
+import { DEFAULT_TRASH_RETENTION_DAYS, PurgeTrashResult, TrashContents, TrashedFile } from '../models/trash'
+import {
+	deleteReceipt,
+	getReceiptById,
+	getSetting,
+	getTrashedReceiptById,
+	getTrashedReceipts,
+	syncReceiptSearchIndex,
+} from './dbService'
+import { deleteTrashedFile, moveFileToTrash, restoreFileFromTrash } from './fileService'
+import { publishReceiptEvent } from './eventService'
+import { SYSTEM_HISTORY, diffReceiptSnapshots, recordReceiptHistory, snapshotReceipt } from './historyService'
+import { enqueueJobOnce } from './jobService'
+import { logger } from '../utils/logger'
+
+// How often the trash is checked for items past the retention period
+const PURGE_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000
+
+let purgeInterval: NodeJS.Timeout | null = null
+
+/**
+ * Get how many days items stay in the trash from the trashRetentionDays setting
+ * 0 means items stay until they are deleted by hand
+ */
+export function getTrashRetentionDays(): number {
+	const setting = getSetting('trashRetentionDays')
+	if (setting === null) return DEFAULT_TRASH_RETENTION_DAYS
+	const days = Number(setting)
+	return Number.isInteger(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+/**
+ * Get the receipts and files in the trash, most recently deleted first
+ * When userIds is given, only items of those users are returned
+ */
+export function getTrash(userIds?: number[]): TrashContents {
+	const files: TrashedFile[] = []
+	for (const file of dbQueries.getTrashedFiles.all() as ReceiptFile[]) {
+		const receipt = getReceiptById(file.receipt_id, userIds)
+		if (receipt) {
+			const { id, user, type, vendor, date, amount } = receipt
+			files.push({ ...file, receipt: { id, user, type, vendor, date, amount } })
+		}
+	}
+
+	return { receipts: getTrashedReceipts(userIds), files, retention_days: getTrashRetentionDays() }
+}
+
+/**
+ * Move a receipt and its files to the trash
+ * Returns false if the receipt doesn't exist or is already in the trash
+ */
+export async function trashReceipt(id: number, history: HistoryContext = SYSTEM_HISTORY): Promise<boolean> {
+	const receipt = getReceiptById(id)
+	if (!receipt) return false
+
+	for (const file of receipt.files) {
+		await moveFileToTrash(id, file)
+	}
+	dbQueries.trashReceipt.run(id)
+	dbQueries.deleteReceiptSearchEntry.run(id)
+	recordReceiptHistory(id, 'deleted', diffReceiptSnapshots(snapshotReceipt(receipt), null), history)
+	publishReceiptEvent('receipt.deleted', { receipt_id: id, user_id: receipt.user_id })
+	return true
+}
+
+/**
+ * Bring a receipt and its files back from the trash
+ * Files that were trashed on their own before the receipt stay in the trash
+ * Returns null if the receipt isn't in the trash
+ */
+export async function restoreReceipt(
+	id: number,
+	history: HistoryContext = SYSTEM_HISTORY,
+	userIds?: number[]
+): Promise<ReceiptWithFilesAndNames | null> {
+	const receipt = getTrashedReceiptById(id, userIds)
+	if (!receipt) return null
+
+	for (const file of receipt.files) {
+		await restoreFileFromTrash(receipt, file)
+	}
+	dbQueries.restoreReceipt.run(id)
+	syncReceiptSearchIndex(id)
+	recordReceiptHistory(id, 'restored', diffReceiptSnapshots(null, snapshotReceipt(receipt)), history)
+	publishReceiptEvent('receipt.created', { receipt_id: id, user_id: receipt.user_id })
+	return getReceiptById(id)
+}
+
+/**
+ * Delete a receipt in the trash for good, with all of its files
+ * Returns false if the receipt isn't in the trash
+ */
+export async function purgeReceipt(id: number, history: HistoryContext = SYSTEM_HISTORY, userIds?: number[]): Promise<boolean> {
+	if (!getTrashedReceiptById(id, userIds)) return false
+
+	for (const file of dbQueries.getAllFilesByReceiptId.all(id) as ReceiptFile[]) {
+		await deleteTrashedFile(file)
+	}
+	return deleteReceipt(id, history)
+}
+
+/**
+ * Get a file with the receipt it belongs to, if the receipt is in use and (when userIds is given) accessible
+ */
+function getFileWithReceipt(fileId: number, userIds?: number[]): { file: ReceiptFile; receipt: ReceiptWithFilesAndNames } | null {
+	const file = dbQueries.getFileById.get(fileId) as ReceiptFile | undefined
+	if (!file) return null
+	const receipt = getReceiptById(file.receipt_id, userIds)
+	return receipt ? { file, receipt } : null
+}
+
+/**
+ * Move one file of a receipt to the trash
+ * Returns false if the file doesn't exist or is already in the trash
+ */
+export async function trashReceiptFile(fileId: number, history: HistoryContext = SYSTEM_HISTORY): Promise<boolean> {
+	const found = getFileWithReceipt(fileId)
+	if (!found || found.file.deleted_at) return false
+	const { file, receipt } = found
+
+	await moveFileToTrash(receipt.id, file)
+	dbQueries.trashReceiptFile.run(file.id)
+	syncReceiptSearchIndex(receipt.id)
+	recordReceiptHistory(
+		receipt.id,
+		'file_removed',
+		{ original_filename: { old: file.original_filename, new: null }, filename: { old: file.filename, new: null } },
+		history,
+		file.id
+	)
+	publishReceiptEvent('receipt.updated', { receipt_id: receipt.id, user_id: receipt.user_id })
+	return true
+}
+
+/**
+ * Bring a trashed file back to its receipt
+ * Returns the receipt, or null if the file isn't in the trash or its receipt is
+ */
+export async function restoreReceiptFile(
+	fileId: number,
+	history: HistoryContext = SYSTEM_HISTORY,
+	userIds?: number[]
+): Promise<ReceiptWithFilesAndNames | null> {
+	const found = getFileWithReceipt(fileId, userIds)
+	if (!found || !found.file.deleted_at) return null
+	const { file, receipt } = found
+
+	await restoreFileFromTrash(receipt, file)
+	dbQueries.restoreReceiptFile.run(file.id)
+	syncReceiptSearchIndex(receipt.id)
+	recordReceiptHistory(
+		receipt.id,
+		'file_restored',
+		{ original_filename: { old: null, new: file.original_filename }, filename: { old: null, new: file.filename } },
+		history,
+		file.id
+	)
+	publishReceiptEvent('receipt.updated', { receipt_id: receipt.id, user_id: receipt.user_id })
+	return getReceiptById(receipt.id)
+}
+
+/**
+ * Delete a trashed file for good
+ * Returns false if the file isn't in the trash
+ */
+export async function purgeReceiptFile(fileId: number, history: HistoryContext = SYSTEM_HISTORY, userIds?: number[]): Promise<boolean> {
+	const found = getFileWithReceipt(fileId, userIds)
+	if (!found || !found.file.deleted_at) return false
+	const { file, receipt } = found
+
+	await deleteTrashedFile(file)
+	dbQueries.deleteReceiptFile.run(file.id)
+	recordReceiptHistory(
+		receipt.id,
+		'purged',
+		{ original_filename: { old: file.original_filename, new: null }, filename: { old: file.filename, new: null } },
+		history,
+		file.id
+	)
+	publishReceiptEvent('receipt.updated', { receipt_id: receipt.id, user_id: receipt.user_id })
+	return true
+}
+
+/**
+ * Find the receipts and files that have been in the trash longer than the retention period
+ */
+function getExpiredTrash(): { receipts: Receipt[]; files: ReceiptFile[] } {
+	const days = getTrashRetentionDays()
+	if (days === 0) return { receipts: [], files: [] }
+
+	const modifier = `-${days} days`
+	return {
+		receipts: dbQueries.getExpiredTrashedReceipts.all(modifier) as Receipt[],
+		files: dbQueries.getExpiredTrashedFiles.all(modifier) as ReceiptFile[],
+	}
+}
+
+/**
+ * Delete everything that has been in the trash longer than the retention period
+ * Reports progress per item when run as a job
+ */
+export async function purgeExpiredTrash(context?: JobContext): Promise<PurgeTrashResult> {
+	const history = context?.history ?? SYSTEM_HISTORY
+	const { receipts, files } = getExpiredTrash()
+	const total = receipts.length + files.length
+	const result: PurgeTrashResult = { receipts: 0, files: 0, retention_days: getTrashRetentionDays() }
+
+	context?.reportProgress(0, total)
+	for (const receipt of receipts) {
+		context?.throwIfCancelled()
+		if (await purgeReceipt(receipt.id, history)) result.receipts++
+		context?.reportProgress(result.receipts, total)
+	}
+	for (const file of files) {
+		context?.throwIfCancelled()
+		if (await purgeReceiptFile(file.id, history)) result.files++
+		context?.reportProgress(result.receipts + result.files, total)
+	}
+
+	logger.debug(`Purged ${result.receipts} receipt(s) and ${result.files} file(s) from the trash`)
+	return result
+}
+
+/**
+ * Check the trash now and every few hours, and queue a purge when something has expired
+ */
+export function startTrashPurgeScheduler(): void {
+	const check = () => {
+		const { receipts, files } = getExpiredTrash()
+		if (receipts.length > 0 || files.length > 0) {
+			enqueueJobOnce('purge-trash')
+		}
+	}
+
+	check()
+	purgeInterval = setInterval(check, PURGE_CHECK_INTERVAL_MS)
+}
+
+/**
+ * Stop checking the trash for expired items
+ */
+export function stopTrashPurgeScheduler(): void {
+	if (purgeInterval) {
+		clearInterval(purgeInterval)
+		purgeInterval = null
+	}
+}
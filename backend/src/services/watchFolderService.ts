@@ -0,0 +1,130 @@
+import path from 'path'
+import { dbQueries } from '../db'
+import { WatchFolder, WatchFolderInput, WatchFolderRow } from '../models/watchFolder'
+
+function toWatchFolder(row: WatchFolderRow): WatchFolder {
+	const flagIds = (dbQueries.getWatchFolderFlagIds.all(row.id) as Array<{ flag_id: number }>).map(r => r.flag_id)
+	return { ...row, enabled: row.enabled === 1, flag_ids: flagIds }
+}
+
+/**
+ * Replace the flags added to receipts imported from a folder
+ */
+function setWatchFolderFlags(folderId: number, flagIds: number[]): void {
+	dbQueries.deleteWatchFolderFlags.run(folderId)
+	for (const flagId of flagIds) {
+		dbQueries.insertWatchFolderFlag.run(folderId, flagId)
+	}
+}
+
+/**
+ * Get the watch folder path from the WATCH_FOLDER environment variable
+ * Used by folders that don't have a path of their own
+ */
+export function getDefaultWatchFolderPath(): string {
+	return process.env.WATCH_FOLDER || '/data/watch'
+}
+
+/**
+ * Get the path a watch folder scans
+ */
+export function resolveWatchFolderPath(folder: WatchFolder): string {
+	return folder.path ?? getDefaultWatchFolderPath()
+}
+
+/**
+ * Get all watch folders
+ */
+export function getAllWatchFolders(): WatchFolder[] {
+	return (dbQueries.getAllWatchFolders.all() as WatchFolderRow[]).map(toWatchFolder)
+}
+
+/**
+ * Get a watch folder by ID
+ */
+export function getWatchFolderById(id: number): WatchFolder | null {
+	const row = dbQueries.getWatchFolderById.get(id) as WatchFolderRow | undefined
+	return row ? toWatchFolder(row) : null
+}
+
+/**
+ * Check if another watch folder already scans a path
+ * Folders without a path of their own count as scanning the WATCH_FOLDER directory
+ */
+export function watchFolderPathExists(folderPath: string | null, excludeId?: number): boolean {
+	const resolved = path.resolve(folderPath ?? getDefaultWatchFolderPath())
+	return getAllWatchFolders().some(folder => folder.id !== excludeId && path.resolve(resolveWatchFolderPath(folder)) === resolved)
+}
+
+/**
+ * Create a watch folder
+ */
+export function createWatchFolder(input: WatchFolderInput): WatchFolder {
+	const result = dbQueries.insertWatchFolder.run(
+		input.name,
+		input.path ?? null,
+		input.interval_minutes ?? null,
+		input.user_id ?? null,
+		input.receipt_type_id ?? null,
+		input.processed_action ?? 'move',
+		input.enabled === false ? 0 : 1
+	)
+	const folderId = Number(result.lastInsertRowid)
+	setWatchFolderFlags(folderId, input.flag_ids ?? [])
+	return getWatchFolderById(folderId)!
+}
+
+/**
+ * Update a watch folder; fields that are not given keep their current value
+ * Returns null if the folder doesn't exist
+ */
+export function updateWatchFolder(id: number, input: Partial<WatchFolderInput>): WatchFolder | null {
+	const existing = getWatchFolderById(id)
+	if (!existing) {
+		return null
+	}
+
+	dbQueries.updateWatchFolder.run(
+		input.name ?? existing.name,
+		input.path !== undefined ? input.path : existing.path,
+		input.interval_minutes !== undefined ? input.interval_minutes : existing.interval_minutes,
+		input.user_id !== undefined ? input.user_id : existing.user_id,
+		input.receipt_type_id !== undefined ? input.receipt_type_id : existing.receipt_type_id,
+		input.processed_action ?? existing.processed_action,
+		(input.enabled ?? existing.enabled) ? 1 : 0,
+		id
+	)
+	if (input.flag_ids !== undefined) {
+		setWatchFolderFlags(id, input.flag_ids)
+	}
+	return getWatchFolderById(id)
+}
+
+/**
+ * Delete a watch folder (its files are left alone)
+ */
+export function deleteWatchFolder(id: number): boolean {
+	return dbQueries.deleteWatchFolder.run(id).changes > 0
+}
+
+/**
+ * Get the files already imported from a folder that leaves them in place, keyed by path relative to the folder
+ */
+export function getImportedFiles(folderId: number): Map<string, { size: number; mtime_ms: number }> {
+	const rows = dbQueries.getWatchImportedFiles.all(folderId) as Array<{ relative_path: string; size: number; mtime_ms: number }>
+	return new Map(rows.map(row => [row.relative_path, { size: row.size, mtime_ms: row.mtime_ms }]))
+}
+
+/**
+ * Remember that a file was imported, so it isn't imported again while it stays unchanged
+ */
+export function recordImportedFile(folderId: number, relativePath: string, size: number, mtimeMs: number): void {
+	dbQueries.upsertWatchImportedFile.run(folderId, relativePath, size, mtimeMs)
+}
+
+/**
+ * Forget an imported file, for example after it was removed from the folder
+ */
+export function forgetImportedFile(folderId: number, relativePath: string): void {
+	dbQueries.deleteWatchImportedFile.run(folderId, relativePath)
+}
@@ -0,0 +1,95 @@
+import { dbQueries } from '../db'
+import { WatchImport, WatchImportRow, WatchImportStatus } from '../models/watchImport'
+
+function toWatchImport(row: WatchImportRow): WatchImport {
+	return { ...row, folder_name: row.folder_name ?? null, files: JSON.parse(row.files) }
+}
+
+/**
+ * Save the changed fields of a log entry
+ */
+function saveWatchImport(entry: WatchImport): WatchImport {
+	dbQueries.updateWatchImport.run(
+		JSON.stringify(entry.files),
+		entry.receipt_id,
+		entry.status,
+		entry.error,
+		entry.attempts,
+		entry.quarantine_path,
+		entry.id
+	)
+	return getWatchImportById(entry.id)!
+}
+
+/**
+ * Get the most recently updated watch imports, optionally only those with a status or from a folder
+ */
+export function getWatchImports(filters: { status?: WatchImportStatus; folder_id?: number; limit: number }): WatchImport[] {
+	const status = filters.status ?? null
+	const folderId = filters.folder_id ?? null
+	const rows = dbQueries.getWatchImports.all(status, status, folderId, folderId, filters.limit) as WatchImportRow[]
+	return rows.map(toWatchImport)
+}
+
+/**
+ * Get a watch import by ID
+ */
+export function getWatchImportById(id: number): WatchImport | null {
+	const row = dbQueries.getWatchImportById.get(id) as WatchImportRow | undefined
+	return row ? toWatchImport(row) : null
+}
+
+/**
+ * Record that a file or subfolder was imported, completing an earlier failed attempt if there was one
+ */
+export function recordImportSuccess(folderId: number, sourcePath: string, files: string[], receiptId: number): WatchImport {
+	const failed = dbQueries.getFailedWatchImport.get(folderId, sourcePath) as WatchImportRow | undefined
+	if (failed) {
+		return saveWatchImport({
+			...toWatchImport(failed),
+			files,
+			receipt_id: receiptId,
+			status: 'imported',
+			error: null,
+			attempts: failed.attempts + 1,
+		})
+	}
+
+	const result = dbQueries.insertWatchImport.run(folderId, sourcePath, JSON.stringify(files), receiptId, 'imported', null)
+	return getWatchImportById(Number(result.lastInsertRowid))!
+}
+
+/**
+ * Record that importing a file or subfolder failed
+ * Repeated failures of the same source share one entry, which counts the attempts
+ */
+export function recordImportFailure(folderId: number, sourcePath: string, files: string[], error: string): WatchImport {
+	const failed = dbQueries.getFailedWatchImport.get(folderId, sourcePath) as WatchImportRow | undefined
+	if (failed) {
+		return saveWatchImport({ ...toWatchImport(failed), files, error, attempts: failed.attempts + 1 })
+	}
+
+	const result = dbQueries.insertWatchImport.run(folderId, sourcePath, JSON.stringify(files), null, 'failed', error)
+	return getWatchImportById(Number(result.lastInsertRowid))!
+}
+
+/**
+ * Record that the files of a failed import were moved to the quarantine folder
+ */
+export function markImportQuarantined(entry: WatchImport, quarantinePath: string): WatchImport {
+	return saveWatchImport({ ...entry, status: 'quarantined', quarantine_path: quarantinePath })
+}
+
+/**
+ * Record that the files of a failed import were deleted
+ */
+export function markImportDiscarded(entry: WatchImport): WatchImport {
+	return saveWatchImport({ ...entry, status: 'discarded', quarantine_path: null })
+}
+
+/**
+ * Make a failed import eligible for import again, with a fresh count of attempts
+ */
+export function resetImportForRetry(entry: WatchImport): WatchImport {
+	return saveWatchImport({ ...entry, status: 'failed', attempts: 0, quarantine_path: null })
+}
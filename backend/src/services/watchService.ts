@@ -1,30 +1,141 @@
 import fs from 'fs/promises'
+import { FSWatcher, mkdirSync, watch } from 'fs'
 import path from 'path'
 import { logger } from '../utils/logger'
-import { createReceipt, addReceiptFile, createFlag, getAllFlags } from './dbService'
-import { saveReceiptFile, ensureReceiptDirByDate, isImageFile, isPdfFile, markFileAsOptimized } from './fileService'
+import { createReceipt, updateReceipt, addReceiptFile, createFlag, getAllFlags, deleteReceipt } from './dbService'
+import {
+	saveReceiptFile,
+	ensureReceiptDirByDate,
+	isImageFile,
+	isPdfFile,
+	markFileAsOptimized,
+	deleteReceiptFiles,
+} from './fileService'
+import { extractReceiptText } from './ocrService'
+import { publishEvent } from './eventService'
+import { applyImportRules, getEnabledImportRules } from './importRuleService'
+import {
+	forgetImportedFile,
+	getAllWatchFolders,
+	getDefaultWatchFolderPath,
+	getImportedFiles,
+	getWatchFolderById,
+	recordImportedFile,
+	resolveWatchFolderPath,
+} from './watchFolderService'
+import {
+	getWatchImportById,
+	markImportDiscarded,
+	markImportQuarantined,
+	recordImportFailure,
+	recordImportSuccess,
+	resetImportForRetry,
+} from './watchImportService'
+import { computeFileHashes, findDuplicateFiles, setReceiptFileHashes } from './duplicateService'
 import { dbQueries } from '../db'
-import { Flag } from '../models/receipt'
+import { Flag, ReceiptTextSuggestions } from '../models/receipt'
+import { ImportRuleActions, ImportSource } from '../models/importRule'
+import { WatchFolder } from '../models/watchFolder'
+import { HistoryContext } from '../models/history'
+import { WatchImport } from '../models/watchImport'
+
+export const WATCH_MODES = ['events', 'poll'] as const
+
+export type WatchMode = (typeof WATCH_MODES)[number]
+
+export interface WatchFolderStatus {
+	id: number
+	name: string
+	path: string
+	enabled: boolean
+	mode: WatchMode
+	interval: number
+	lastScan?: string
+	nextScan?: string
+	isScanning: boolean
+}
+
+// Scanners write several files in quick succession, so a scan waits for changes to settle
+const WATCH_DEBOUNCE_MS = 1000
+
+const DEFAULT_INTERVAL_MINUTES = 30
+const DEFAULT_STABILITY_SECONDS = 5
+const DEFAULT_MAX_IMPORT_ATTEMPTS = 3
+
+// Subfolder of a watch folder that files are moved to once their import failed too often
+const QUARANTINE_FOLDER = 'quarantine'
+
+type SourceFile = { path: string; name: string }
+
+// State of a single watch folder; timers and the watcher are only set while the service runs
+interface FolderState {
+	folder: WatchFolder
+	path: string
+	interval: NodeJS.Timeout | null
+	watcher: FSWatcher | null
+	mode: WatchMode | null
+	debounceTimeout: NodeJS.Timeout | null
+	recheckTimeout: NodeJS.Timeout | null
+	isScanning: boolean
+	rescanRequested: boolean
+	lastScan: Date | null
+	nextScan: Date | null
+	// Size and modification time of files seen in the folder, to tell when they are fully written
+	observedFiles: Map<string, { size: number; mtimeMs: number; unchangedSince: number }>
+	// Sources being retried by hand, which are imported even if their files are already stored
+	allowedDuplicates: Set<string>
+}
 
 // Service state
-let watchInterval: NodeJS.Timeout | null = null
-let isScanning = false
-let lastScanTime: Date | null = null
-let nextScanTime: Date | null = null
+let serviceRunning = false
 let watchFolderFlagId: number | null = null
+const folderStates = new Map<number, FolderState>()
 
 /**
- * Get watch folder path from environment variable
+ * Get the default scan interval from the WATCH_INTERVAL environment variable (in minutes)
  */
-function getWatchFolderPath(): string {
-	return process.env.WATCH_FOLDER || '/data/watch'
+function getDefaultIntervalMs(): number {
+	const intervalMs = parseInt(process.env.WATCH_INTERVAL || String(DEFAULT_INTERVAL_MINUTES), 10) * 60 * 1000
+	return isNaN(intervalMs) || intervalMs <= 0 ? DEFAULT_INTERVAL_MINUTES * 60 * 1000 : intervalMs
 }
 
 /**
- * Get processed folder path
+ * Get how often a folder is scanned, falling back to WATCH_INTERVAL
  */
-function getProcessedFolderPath(): string {
-	return path.join(getWatchFolderPath(), 'processed')
+function getFolderIntervalMs(folder: WatchFolder): number {
+	return folder.interval_minutes ? folder.interval_minutes * 60 * 1000 : getDefaultIntervalMs()
+}
+
+/**
+ * Get the configured watch mode from the WATCH_MODE environment variable
+ * "events" reacts to filesystem changes; "poll" only scans on the interval, for network mounts that don't report changes
+ */
+function getConfiguredWatchMode(): WatchMode {
+	const mode = (process.env.WATCH_MODE || 'events').toLowerCase() as WatchMode
+	return WATCH_MODES.includes(mode) ? mode : 'events'
+}
+
+/**
+ * Get how long a file's size must stay unchanged before it is imported
+ */
+function getStabilityMs(): number {
+	const seconds = parseFloat(process.env.WATCH_STABILITY_SECONDS ?? String(DEFAULT_STABILITY_SECONDS))
+	return isNaN(seconds) || seconds < 0 ? DEFAULT_STABILITY_SECONDS * 1000 : seconds * 1000
+}
+
+/**
+ * Get how many times importing a file may fail before it is quarantined, from WATCH_MAX_ATTEMPTS
+ */
+function getMaxImportAttempts(): number {
+	const attempts = parseInt(process.env.WATCH_MAX_ATTEMPTS || String(DEFAULT_MAX_IMPORT_ATTEMPTS), 10)
+	return isNaN(attempts) || attempts <= 0 ? DEFAULT_MAX_IMPORT_ATTEMPTS : attempts
+}
+
+/**
+ * Get the processed folder of a watch folder
+ */
+function getProcessedFolderPath(watchFolderPath: string): string {
+	return path.join(watchFolderPath, 'processed')
 }
 
 /**
@@ -35,11 +146,40 @@ function isSupportedFile(filename: string): boolean {
 	return ['.jpg', '.jpeg', '.png', '.webp', '.pdf'].includes(ext)
 }
 
+/**
+ * Get the state of a watch folder, refreshing its settings
+ */
+function getFolderState(folder: WatchFolder): FolderState {
+	let state = folderStates.get(folder.id)
+	if (!state) {
+		state = {
+			folder,
+			path: resolveWatchFolderPath(folder),
+			interval: null,
+			watcher: null,
+			mode: null,
+			debounceTimeout: null,
+			recheckTimeout: null,
+			isScanning: false,
+			rescanRequested: false,
+			lastScan: null,
+			nextScan: null,
+			observedFiles: new Map(),
+			allowedDuplicates: new Set(),
+		}
+		folderStates.set(folder.id, state)
+	}
+	state.folder = folder
+	state.path = resolveWatchFolderPath(folder)
+	return state
+}
+
 /**
  * Get or create WATCH_FOLDER flag
  */
 async function getOrCreateWatchFolderFlag(): Promise<number> {
-	if (watchFolderFlagId !== null) {
+	// The cached flag may have been deleted since it was looked up
+	if (watchFolderFlagId !== null && dbQueries.getFlagById.get(watchFolderFlagId)) {
 		return watchFolderFlagId
 	}
 
@@ -57,15 +197,14 @@ async function getOrCreateWatchFolderFlag(): Promise<number> {
 }
 
 /**
- * Ensure watch folder and processed folder exist
+ * Ensure a watch folder exists, along with its processed folder when imported files are moved there
  */
-async function ensureWatchFolders(): Promise<void> {
-	const watchFolder = getWatchFolderPath()
-	const processedFolder = getProcessedFolderPath()
-
+async function ensureWatchFolders(state: FolderState): Promise<void> {
 	try {
-		await fs.mkdir(watchFolder, { recursive: true })
-		await fs.mkdir(processedFolder, { recursive: true })
+		await fs.mkdir(state.path, { recursive: true })
+		if (state.folder.processed_action === 'move') {
+			await fs.mkdir(getProcessedFolderPath(state.path), { recursive: true })
+		}
 	} catch (error) {
 		logger.error(`Failed to create watch folders: ${error}`)
 		throw error
@@ -73,48 +212,160 @@ async function ensureWatchFolders(): Promise<void> {
 }
 
 /**
- * Process a single receipt from files
+ * Get how much longer to wait before a file can be imported
+ * A file is ready once its size and modification time have stayed the same for the stability period,
+ * so half-written scanner output is left alone until the scanner is done with it
+ * Returns 0 when the file is ready
+ */
+async function getStabilityWait(state: FolderState, filePath: string): Promise<number> {
+	const stabilityMs = getStabilityMs()
+	if (stabilityMs === 0) {
+		return 0
+	}
+
+	const stats = await fs.stat(filePath)
+	const now = Date.now()
+	const observed = state.observedFiles.get(filePath)
+	if (!observed || observed.size !== stats.size || observed.mtimeMs !== stats.mtimeMs) {
+		// A file seen for the first time hasn't changed since it was last modified
+		state.observedFiles.set(filePath, {
+			size: stats.size,
+			mtimeMs: stats.mtimeMs,
+			unchangedSince: observed ? now : Math.min(stats.mtimeMs, now),
+		})
+	}
+
+	return Math.max(0, state.observedFiles.get(filePath)!.unchangedSince + stabilityMs - now)
+}
+
+/**
+ * Get the receipt fields set by import rules, leaving out the ones no rule assigned
+ */
+function getAssignedFields(actions: ImportRuleActions): Partial<Omit<ImportRuleActions, 'flag_ids'>> {
+	const { flag_ids: _flagIds, ...fields } = actions
+	return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined))
+}
+
+/**
+ * Deal with the original files once they have been imported, as configured for the folder
  */
-async function processReceipt(files: Array<{ path: string; name: string }>, sourceName: string): Promise<void> {
-	if (files.length === 0) {
+async function finishImportedFiles(state: FolderState, files: SourceFile[], subfolder: string | null): Promise<void> {
+	const action = state.folder.processed_action
+
+	if (action === 'leave') {
+		// Remember the files so later scans skip them while they stay unchanged
+		for (const file of files) {
+			try {
+				const stats = await fs.stat(file.path)
+				recordImportedFile(state.folder.id, path.relative(state.path, file.path), stats.size, stats.mtimeMs)
+			} catch (error) {
+				logger.error(`Failed to record imported file ${file.name}:`, error)
+			}
+		}
 		return
 	}
 
-	try {
-		// Get or create WATCH_FOLDER flag
-		const flagId = await getOrCreateWatchFolderFlag()
+	if (action === 'delete') {
+		for (const file of files) {
+			try {
+				await fs.unlink(file.path)
+			} catch (error) {
+				logger.error(`Failed to delete imported file ${file.name}:`, error)
+			}
+		}
+		if (subfolder) {
+			// Only removes the subfolder if nothing else is left in it
+			await fs.rmdir(path.join(state.path, subfolder)).catch(() => undefined)
+		}
+		return
+	}
 
-		// Create receipt with default values
-		// Note: createReceipt will automatically create "Unknown" user and "Other" type if needed
-		const today = new Date().toISOString().split('T')[0]
-		let receipt
+	// Move original files to processed folder
+	const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19) // YYYY-MM-DDTHH-MM-SS
+	const processedSubfolder = path.join(getProcessedFolderPath(state.path), timestamp)
+	await fs.mkdir(processedSubfolder, { recursive: true })
+
+	// Preserve source name in processed folder if it's a directory
+	const finalProcessedFolder = subfolder ? path.join(processedSubfolder, subfolder) : processedSubfolder
+	await fs.mkdir(finalProcessedFolder, { recursive: true })
+
+	for (const file of files) {
 		try {
-			receipt = createReceipt(
-				{
-					date: today,
-					vendor: '',
-					amount: 0,
-					description: 'Auto-imported from watch folder',
-					provider_address: '',
-				},
-				[flagId]
-			)
-		} catch (error: any) {
-			// If foreign key constraint fails, it means user/type don't exist
-			// This should be rare in production but can happen in tests
-			// In test mode, suppress the error message to reduce noise
-			if (error?.code === 'SQLITE_CONSTRAINT_FOREIGNKEY') {
-				if (process.env.NODE_ENV !== 'test' && process.env.VITEST === undefined) {
-					logger.warn(`Failed to create receipt from ${sourceName}: ${error.message}`)
-				}
-			} else {
-				logger.error(`Failed to process receipt from ${sourceName}:`, error)
+			const destPath = path.join(finalProcessedFolder, file.name)
+			await fs.rename(file.path, destPath)
+		} catch (error) {
+			logger.error(`Failed to move file ${file.name} to processed folder:`, error)
+			// Try to copy instead if rename fails (e.g., across volumes)
+			try {
+				const destPath = path.join(finalProcessedFolder, file.name)
+				await fs.copyFile(file.path, destPath)
+				await fs.unlink(file.path)
+			} catch (copyError) {
+				logger.error(`Failed to copy file ${file.name} to processed folder:`, copyError)
 			}
-			return
 		}
+	}
+}
 
+/**
+ * Thrown when the files of a source are already stored with a receipt
+ */
+class DuplicateImportError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'DuplicateImportError'
+	}
+}
+
+/**
+ * Process a single receipt from files
+ * Returns the ID of the created receipt; throws if the receipt or one of its files couldn't be saved,
+ * in which case nothing is kept so the import can be tried again
+ */
+async function processReceipt(state: FolderState, files: SourceFile[], sourceName: string): Promise<number> {
+	// Scanning the same paper twice is common, so files that are already stored aren't imported again
+	const hashes = await Promise.all(files.map(file => computeFileHashes(file.path, file.name)))
+	const duplicates = findDuplicateFiles(hashes)
+	const identical = duplicates.find(match => match.reason === 'identical_file')
+	if (identical && !state.allowedDuplicates.has(sourceName)) {
+		throw new DuplicateImportError(`Already imported as receipt ${identical.receipt_id} (${identical.original_filename})`)
+	}
+	if (duplicates.some(match => match.reason === 'similar_image')) {
+		logger.warn(`${sourceName} looks like an existing receipt; check the possible duplicates`)
+	}
+
+	// Get or create WATCH_FOLDER flag
+	const flagId = await getOrCreateWatchFolderFlag()
+	const folderFlagIds = [flagId, ...state.folder.flag_ids.filter(id => id !== flagId)]
+
+	// Folder and filename rules are known up front, so files are stored under the right user and name
+	const rules = getEnabledImportRules()
+	const subfolder = sourceName && sourceName !== path.basename(files[0].path) ? sourceName : null
+	const source: ImportSource = { folder: subfolder, filenames: files.map(f => f.name) }
+	const actions = applyImportRules(rules, source)
+	const initialFlagIds = [...folderFlagIds, ...actions.flag_ids.filter(id => !folderFlagIds.includes(id))]
+	const history: HistoryContext = { source: 'watch', detail: state.folder.name }
+
+	// Create receipt with the rules' fields, then the folder's defaults, then default values
+	// Note: createReceipt will automatically create "Unknown" user and "Other" type if needed
+	const today = new Date().toISOString().split('T')[0]
+	const receipt = createReceipt(
+		{
+			user_id: actions.user_id ?? state.folder.user_id ?? undefined,
+			receipt_type_id: actions.receipt_type_id ?? state.folder.receipt_type_id ?? undefined,
+			date: actions.date ?? today,
+			vendor: actions.vendor ?? '',
+			amount: 0,
+			description: 'Auto-imported from watch folder',
+			provider_address: '',
+		},
+		initialFlagIds,
+		history
+	)
+
+	try {
 		// Ensure receipt directory exists (using new structure)
-		await ensureReceiptDirByDate(receipt.user || 'unknown', receipt.date)
+		await ensureReceiptDirByDate(receipt.user || 'unknown', receipt.date, receipt.type)
 
 		// Get flags for filename generation
 		const flags = getAllFlags().filter(f => receipt.flags.some(rf => rf.id === f.id))
@@ -122,7 +373,6 @@ async function processReceipt(files: Array<{ path: string; name: string }>, sour
 		// Process each file
 		for (let i = 0; i < files.length; i++) {
 			const file = files[i]
-			const filePath = file.path
 
 			try {
 				// Create a temporary file object that matches Express.Multer.File interface
@@ -132,7 +382,7 @@ async function processReceipt(files: Array<{ path: string; name: string }>, sour
 				const tempFilePath = path.join(tempDir, `watch-${Date.now()}-${i}-${file.name}`)
 
 				// Copy file to temp location
-				await fs.copyFile(filePath, tempFilePath)
+				await fs.copyFile(file.path, tempFilePath)
 
 				// Create a mock multer file object
 				// Only path and originalname are actually used by saveReceiptFile
@@ -163,7 +413,8 @@ async function processReceipt(files: Array<{ path: string; name: string }>, sour
 				)
 
 				// Add file to database
-				addReceiptFile(receipt.id, filename, originalFilename, i)
+				const receiptFile = addReceiptFile(receipt.id, filename, originalFilename, i, history)
+				setReceiptFileHashes(receiptFile.id, hashes[i])
 
 				// Mark as optimized if optimization was successful
 				if (optimized) {
@@ -171,71 +422,121 @@ async function processReceipt(files: Array<{ path: string; name: string }>, sour
 				}
 
 				logger.debug(`Processed file ${file.name} for receipt ${receipt.id}`)
-			} catch (error) {
-				logger.error(`Failed to process file ${file.name}:`, error)
-				// Continue with other files
+			} catch (error: any) {
+				throw new Error(`Failed to save ${file.name}: ${error?.message ?? error}`)
 			}
 		}
+	} catch (error) {
+		// A receipt missing some of its files would hide the failure, so the import starts over next time
+		deleteReceipt(receipt.id, history)
+		await deleteReceiptFiles(receipt.id).catch(cleanupError => {
+			logger.error(`Failed to delete files of incomplete receipt ${receipt.id}:`, cleanupError)
+		})
+		throw error
+	}
 
-		// Move original files to processed folder
-		const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19) // YYYY-MM-DDTHH-MM-SS
-		const processedSubfolder = path.join(getProcessedFolderPath(), timestamp)
-		await fs.mkdir(processedSubfolder, { recursive: true })
+	// Prefill fields from recognized text; earlier files win when several propose a value
+	// Text rules can only be checked now, and fields assigned by any rule win over suggestions
+	try {
+		const results = await extractReceiptText(receipt.id)
+		const suggestions = results.reduce<ReceiptTextSuggestions>(
+			(merged, result) => ({ ...result.suggestions, ...merged }),
+			{}
+		)
+		const text = results.map(result => result.text).join('\n')
+		const textActions = text ? applyImportRules(rules, { ...source, text }) : actions
+		// Fields assigned before the receipt was created are already set
+		const updates = Object.fromEntries(
+			Object.entries({ ...suggestions, ...getAssignedFields(textActions) }).filter(
+				([field, value]) => receipt[field as keyof typeof receipt] !== value
+			)
+		)
+		const newFlagIds = textActions.flag_ids.filter(id => !initialFlagIds.includes(id))
+		if (Object.keys(updates).length > 0 || newFlagIds.length > 0) {
+			await updateReceipt(
+				receipt.id,
+				updates,
+				newFlagIds.length > 0 ? [...initialFlagIds, ...newFlagIds] : undefined,
+				history
+			)
+			logger.debug(`Prefilled receipt ${receipt.id} from recognized text and import rules`)
+		}
+	} catch (error) {
+		logger.error(`Failed to prefill receipt ${receipt.id} from recognized text:`, error)
+	}
 
-		// Preserve source name in processed folder if it's a directory
-		const finalProcessedFolder =
-			sourceName && sourceName !== path.basename(files[0].path) ? path.join(processedSubfolder, sourceName) : processedSubfolder
-		await fs.mkdir(finalProcessedFolder, { recursive: true })
+	await finishImportedFiles(state, files, subfolder)
 
-		for (const file of files) {
-			try {
-				const destPath = path.join(finalProcessedFolder, file.name)
-				await fs.rename(file.path, destPath)
-			} catch (error) {
-				logger.error(`Failed to move file ${file.name} to processed folder:`, error)
-				// Try to copy instead if rename fails (e.g., across volumes)
-				try {
-					const destPath = path.join(finalProcessedFolder, file.name)
-					await fs.copyFile(file.path, destPath)
-					await fs.unlink(file.path)
-				} catch (copyError) {
-					logger.error(`Failed to copy file ${file.name} to processed folder:`, copyError)
-				}
-			}
+	logger.debug(`Created receipt ${receipt.id} from ${files.length} file(s) in ${sourceName}`)
+	return receipt.id
+}
+
+/**
+ * Import a file or subfolder and log the outcome
+ * Sources that keep failing are moved to the quarantine folder, so they aren't retried on every scan
+ */
+async function importSource(state: FolderState, files: SourceFile[], sourceName: string): Promise<void> {
+	const fileNames = files.map(f => f.name)
+	try {
+		const receiptId = await processReceipt(state, files, sourceName)
+		recordImportSuccess(state.folder.id, sourceName, fileNames, receiptId)
+	} catch (error: any) {
+		const message = error?.message ?? String(error)
+		const entry = recordImportFailure(state.folder.id, sourceName, fileNames, message)
+		const maxAttempts = getMaxImportAttempts()
+		logger.warn(`Failed to import ${sourceName} (attempt ${entry.attempts} of ${maxAttempts}): ${message}`)
+
+		// Importing a duplicate again won't succeed, so it is set aside right away
+		if (error instanceof DuplicateImportError || entry.attempts >= maxAttempts) {
+			await quarantineSource(state, entry)
 		}
+	}
+}
 
-		logger.debug(`Created receipt ${receipt.id} from ${files.length} file(s) in ${sourceName}`)
+/**
+ * Move the files of an import that keeps failing to the quarantine folder
+ */
+async function quarantineSource(state: FolderState, entry: WatchImport): Promise<void> {
+	const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19) // YYYY-MM-DDTHH-MM-SS
+	const quarantinePath = path.join(QUARANTINE_FOLDER, timestamp, entry.source_path)
+	try {
+		await fs.mkdir(path.dirname(path.join(state.path, quarantinePath)), { recursive: true })
+		await fs.rename(path.join(state.path, entry.source_path), path.join(state.path, quarantinePath))
+		markImportQuarantined(entry, quarantinePath)
+		logger.warn(`Moved ${entry.source_path} to ${quarantinePath} after ${entry.attempts} failed import(s)`)
 	} catch (error) {
-		logger.error(`Failed to process receipt from ${sourceName}:`, error)
+		logger.error(`Failed to quarantine ${entry.source_path}:`, error)
 	}
 }
 
 /**
- * Scan watch folder and process files
+ * Scan a watch folder and process files
  */
-async function scanWatchFolder(): Promise<void> {
-	if (isScanning) {
-		logger.debug('Scan already in progress, skipping')
+async function scanWatchFolder(state: FolderState): Promise<void> {
+	if (state.isScanning) {
+		logger.debug(`Scan of ${state.path} already in progress, skipping`)
+		state.rescanRequested = true
 		return
 	}
 
-	isScanning = true
-	const watchFolder = getWatchFolderPath()
+	state.isScanning = true
+	publishEvent('watch.scan_started', { folder_id: state.folder.id })
+	const watchFolder = state.path
 
 	try {
 		// Ensure folders exist
-		await ensureWatchFolders()
+		await ensureWatchFolders(state)
 
 		// Read watch folder
 		const entries = await fs.readdir(watchFolder, { withFileTypes: true })
 
 		// Separate files and directories
-		const rootFiles: Array<{ path: string; name: string }> = []
-		const directories: Array<{ path: string; name: string }> = []
+		const rootFiles: SourceFile[] = []
+		const directories: SourceFile[] = []
 
 		for (const entry of entries) {
-			// Skip processed folder and hidden files/directories
-			if (entry.name === 'processed' || entry.name.startsWith('.')) {
+			// Skip processed and quarantine folders and hidden files/directories
+			if (entry.name === 'processed' || entry.name === QUARANTINE_FOLDER || entry.name.startsWith('.')) {
 				continue
 			}
 
@@ -252,25 +553,61 @@ async function scanWatchFolder(): Promise<void> {
 			}
 		}
 
+		// Files left in place by earlier imports are skipped while they stay unchanged
+		const importedFiles = state.folder.processed_action === 'leave' ? getImportedFiles(state.folder.id) : new Map()
+		const presentFiles = new Set<string>()
+		const isNotImported = async (file: SourceFile): Promise<boolean> => {
+			const relativePath = path.relative(watchFolder, file.path)
+			presentFiles.add(relativePath)
+			const imported = importedFiles.get(relativePath)
+			if (!imported) {
+				return true
+			}
+			const stats = await fs.stat(file.path)
+			return stats.size !== imported.size || stats.mtimeMs !== imported.mtime_ms
+		}
+
+		// Files still being written are picked up by a later scan
+		let pendingWait = 0
+		const seenFiles = new Set<string>()
+		const isReady = async (files: SourceFile[]): Promise<boolean> => {
+			let wait = 0
+			for (const file of files) {
+				seenFiles.add(file.path)
+				wait = Math.max(wait, await getStabilityWait(state, file.path))
+			}
+			if (wait > 0) {
+				pendingWait = pendingWait === 0 ? wait : Math.min(pendingWait, wait)
+				logger.debug(`Waiting for ${files.map(f => f.name).join(', ')} to finish writing`)
+				return false
+			}
+			return true
+		}
+
 		// Process root-level files (each file = one receipt)
 		for (const file of rootFiles) {
-			await processReceipt([file], file.name)
+			if ((await isNotImported(file)) && (await isReady([file]))) {
+				await importSource(state, [file], file.name)
+			}
 		}
 
 		// Process directories (all files in directory = one receipt)
 		for (const dir of directories) {
 			try {
 				const dirEntries = await fs.readdir(dir.path, { withFileTypes: true })
-				const dirFiles: Array<{ path: string; name: string }> = []
+				const dirFiles: SourceFile[] = []
 
 				for (const entry of dirEntries) {
 					if (entry.isFile() && isSupportedFile(entry.name)) {
-						dirFiles.push({ path: path.join(dir.path, entry.name), name: entry.name })
+						const file = { path: path.join(dir.path, entry.name), name: entry.name }
+						if (await isNotImported(file)) {
+							dirFiles.push(file)
+						}
 					}
 				}
 
-				if (dirFiles.length > 0) {
-					await processReceipt(dirFiles, dir.name)
+				if (dirFiles.length > 0 && (await isReady(dirFiles))) {
+					await importSource(state, dirFiles, dir.name)
 				}
 			} catch (error) {
 				logger.error(`Failed to process directory ${dir.name}:`, error)
@@ -278,119 +615,371 @@ async function scanWatchFolder(): Promise<void> {
 			}
 		}
 
-		lastScanTime = new Date()
-		logger.debug(`Watch folder scan completed. Processed ${rootFiles.length} root file(s) and ${directories.length} directory/directories`)
+		// Forget files that were imported or removed
+		for (const filePath of state.observedFiles.keys()) {
+			if (!seenFiles.has(filePath)) {
+				state.observedFiles.delete(filePath)
+			}
+		}
+		for (const relativePath of importedFiles.keys()) {
+			if (!presentFiles.has(relativePath)) {
+				forgetImportedFile(state.folder.id, relativePath)
+			}
+		}
+		if (pendingWait > 0) {
+			scheduleRecheck(state, pendingWait)
+		}
+
+		state.lastScan = new Date()
+		logger.debug(
+			`Watch folder scan of ${watchFolder} completed. Processed ${rootFiles.length} root file(s) and ${directories.length} directory/directories`
+		)
 	} catch (error: any) {
 		// Handle missing folder gracefully
 		if (error?.code === 'ENOENT') {
 			logger.warn(`Watch folder ${watchFolder} does not exist. Creating it...`)
 			try {
-				await ensureWatchFolders()
+				await ensureWatchFolders(state)
 				logger.debug(`Watch folder ${watchFolder} created successfully`)
 			} catch (createError) {
 				logger.error(`Failed to create watch folder: ${createError}`)
 			}
 		} else {
-			logger.error('Error scanning watch folder:', error)
+			logger.error(`Error scanning watch folder ${watchFolder}:`, error)
 		}
 	} finally {
-		isScanning = false
+		state.isScanning = false
+		publishEvent('watch.scan_completed', { folder_id: state.folder.id, last_scan: state.lastScan?.toISOString() ?? null })
+		// Changes reported during the scan may not have been seen by it
+		if (state.rescanRequested) {
+			state.rescanRequested = false
+			if (state.interval) {
+				scheduleScan(state)
+			}
+		}
 	}
 }
 
 /**
- * Start watch service with interval-based scanning
+ * Scan a folder once changes in it have settled
  */
-export function startWatchService(): void {
-	const watchFolder = getWatchFolderPath()
-	const intervalMinutes = parseInt(process.env.WATCH_INTERVAL || '30', 10)
-	let intervalMs = intervalMinutes * 60 * 1000
+function scheduleScan(state: FolderState, delayMs = WATCH_DEBOUNCE_MS): void {
+	if (state.debounceTimeout) {
+		clearTimeout(state.debounceTimeout)
+	}
+	state.debounceTimeout = setTimeout(() => {
+		state.debounceTimeout = null
+		scanWatchFolder(state).catch(error => {
+			logger.error('Error in watch folder scan:', error)
+		})
+	}, delayMs)
+}
 
-	// Validate interval
-	if (isNaN(intervalMs) || intervalMs <= 0) {
-		logger.warn(`Invalid WATCH_INTERVAL: ${process.env.WATCH_INTERVAL}. Using default 30 minutes.`)
-		intervalMs = 30 * 60 * 1000
+/**
+ * Scan a folder again once files that were still being written should be complete
+ */
+function scheduleRecheck(state: FolderState, delayMs: number): void {
+	// Only running folders rescan; a manual scan leaves waiting files for the next one
+	if (!state.interval || state.recheckTimeout) {
+		return
 	}
+	state.recheckTimeout = setTimeout(() => {
+		state.recheckTimeout = null
+		scanWatchFolder(state).catch(error => {
+			logger.error('Error in watch folder scan:', error)
+		})
+	}, delayMs)
+}
 
-	nextScanTime = new Date(Date.now() + intervalMs)
-	watchInterval = setInterval(() => {
-		scanWatchFolder().catch(error => {
+/**
+ * Check whether a change inside the watch folder can be ignored
+ * Moving imported files to the processed folder reports changes of its own
+ */
+function isIgnoredChange(relativePath: string): boolean {
+	const segments = relativePath.split(path.sep)
+	return segments[0] === 'processed' || segments[0] === QUARANTINE_FOLDER || segments.some(segment => segment.startsWith('.'))
+}
+
+/**
+ * Start watching a folder for changes
+ * Returns false if the folder can't be watched, in which case it falls back to polling
+ */
+function startFolderWatcher(state: FolderState): boolean {
+	try {
+		mkdirSync(state.path, { recursive: true })
+		state.watcher = watch(state.path, { recursive: true }, (_eventType, filename) => {
+			if (filename && isIgnoredChange(filename.toString())) {
+				return
+			}
+			scheduleScan(state)
+		})
+		state.watcher.on('error', error => {
+			logger.warn(`Stopped watching ${state.path} for changes, falling back to polling: ${error}`)
+			stopFolderWatcher(state)
+			state.mode = 'poll'
+		})
+		return true
+	} catch (error) {
+		logger.warn(`Cannot watch ${state.path} for changes, falling back to polling: ${error}`)
+		return false
+	}
+}
+
+/**
+ * Stop watching a folder for changes
+ */
+function stopFolderWatcher(state: FolderState): void {
+	if (state.watcher) {
+		state.watcher.close()
+		state.watcher = null
+	}
+}
+
+/**
+ * Start scanning a watch folder on its interval, and on changes in events mode
+ */
+function startFolder(folder: WatchFolder): void {
+	const state = getFolderState(folder)
+	const intervalMs = getFolderIntervalMs(folder)
+
+	state.nextScan = new Date(Date.now() + intervalMs)
+	state.interval = setInterval(() => {
+		state.nextScan = new Date(Date.now() + intervalMs)
+		scanWatchFolder(state).catch(error => {
 			logger.error('Error in watch service interval:', error)
 		})
 	}, intervalMs)
 
-	logger.debug(`Watch service started. Watching: ${watchFolder}, Interval: ${intervalMinutes} minutes`)
+	state.mode = getConfiguredWatchMode() === 'events' && startFolderWatcher(state) ? 'events' : 'poll'
+
+	logger.debug(`Watching ${state.path} (${folder.name}), Mode: ${state.mode}, Interval: ${intervalMs / 60 / 1000} minutes`)
 
 	// Run initial scan
-	scanWatchFolder().catch(error => {
+	scanWatchFolder(state).catch(error => {
 		logger.error('Error in initial watch folder scan:', error)
 	})
 }
 
+/**
+ * Stop scanning a watch folder
+ */
+function stopFolder(state: FolderState): void {
+	if (state.interval) {
+		clearInterval(state.interval)
+		state.interval = null
+	}
+	stopFolderWatcher(state)
+	for (const timeout of [state.debounceTimeout, state.recheckTimeout]) {
+		if (timeout) {
+			clearTimeout(timeout)
+		}
+	}
+	state.debounceTimeout = null
+	state.recheckTimeout = null
+	state.mode = null
+	state.nextScan = null
+}
+
+/**
+ * Start watch service for every enabled watch folder
+ * In events mode new files are imported as soon as they are written, with the interval scan as a safety net;
+ * in poll mode folders are only scanned on their interval
+ */
+export function startWatchService(): void {
+	const intervalMinutes = parseInt(process.env.WATCH_INTERVAL || String(DEFAULT_INTERVAL_MINUTES), 10)
+
+	// Validate settings
+	if (isNaN(intervalMinutes) || intervalMinutes <= 0) {
+		logger.warn(`Invalid WATCH_INTERVAL: ${process.env.WATCH_INTERVAL}. Using default ${DEFAULT_INTERVAL_MINUTES} minutes.`)
+	}
+	if (process.env.WATCH_MODE && !WATCH_MODES.includes(process.env.WATCH_MODE.toLowerCase() as WatchMode)) {
+		logger.warn(`Invalid WATCH_MODE: ${process.env.WATCH_MODE}. Using events.`)
+	}
+
+	serviceRunning = true
+	const folders = getAllWatchFolders().filter(folder => folder.enabled)
+	for (const folder of folders) {
+		startFolder(folder)
+	}
+
+	logger.debug(`Watch service started with ${folders.length} folder(s)`)
+}
+
 /**
  * Stop watch service
  */
 export function stopWatchService(): void {
-	if (watchInterval) {
-		clearInterval(watchInterval)
-		watchInterval = null
-		nextScanTime = null
+	if (serviceRunning) {
+		for (const state of folderStates.values()) {
+			stopFolder(state)
+		}
+		serviceRunning = false
 		logger.debug('Watch service stopped')
 	}
 }
 
+/**
+ * Apply changed settings of a watch folder
+ * Restarts the folder if the service is running, or stops it if it was disabled or deleted
+ */
+export function reloadWatchFolder(id: number): void {
+	const state = folderStates.get(id)
+	if (state) {
+		stopFolder(state)
+	}
+
+	const folder = getWatchFolderById(id)
+	if (!folder) {
+		folderStates.delete(id)
+		return
+	}
+	if (serviceRunning && folder.enabled) {
+		startFolder(folder)
+	} else if (state) {
+		getFolderState(folder)
+	}
+}
+
+/**
+ * Get the status of a single watch folder
+ */
+function getFolderStatus(folder: WatchFolder): WatchFolderStatus {
+	const state = folderStates.get(folder.id)
+	return {
+		id: folder.id,
+		name: folder.name,
+		path: resolveWatchFolderPath(folder),
+		enabled: folder.enabled && state?.interval != null,
+		// The mode actually in use, which is poll if the folder couldn't be watched
+		mode: state?.mode ?? getConfiguredWatchMode(),
+		interval: getFolderIntervalMs(folder),
+		lastScan: state?.lastScan?.toISOString(),
+		nextScan: state?.nextScan?.toISOString(),
+		isScanning: state?.isScanning ?? false,
+	}
+}
+
 /**
  * Get watch service status
+ * The top-level fields describe the service as a whole; each folder is reported in folders
  */
 export function getWatchServiceStatus(): {
 	enabled: boolean
 	watchFolder: string
+	mode: WatchMode
 	interval: number
+	stabilitySeconds: number
 	lastScan?: string
 	nextScan?: string
 	isScanning: boolean
+	folders: WatchFolderStatus[]
 } {
-	const intervalMinutes = parseInt(process.env.WATCH_INTERVAL || '30', 10)
-	let intervalMs = intervalMinutes * 60 * 1000
+	const folders = getAllWatchFolders().map(getFolderStatus)
+	const latest = (values: Array<string | undefined>, pick: (a: string, b: string) => string) =>
+		values.filter((value): value is string => value !== undefined).reduce<string | undefined>(
+			(result, value) => (result === undefined ? value : pick(result, value)),
+			undefined
+		)
 
-	// Validate interval (same logic as startWatchService)
-	if (isNaN(intervalMs) || intervalMs <= 0) {
-		intervalMs = 30 * 60 * 1000
+	return {
+		enabled: serviceRunning,
+		watchFolder: getDefaultWatchFolderPath(),
+		mode: getConfiguredWatchMode(),
+		interval: getDefaultIntervalMs(),
+		stabilitySeconds: getStabilityMs() / 1000,
+		lastScan: latest(folders.map(f => f.lastScan), (a, b) => (a > b ? a : b)),
+		nextScan: latest(folders.map(f => f.nextScan), (a, b) => (a < b ? a : b)),
+		isScanning: folders.some(f => f.isScanning),
+		folders,
 	}
+}
 
-	return {
-		enabled: watchInterval !== null,
-		watchFolder: getWatchFolderPath(),
-		interval: intervalMs,
-		lastScan: lastScanTime?.toISOString(),
-		nextScan: nextScanTime?.toISOString(),
-		isScanning,
+/**
+ * Manually trigger a scan of one watch folder, or of all enabled folders
+ * Returns false if the given folder doesn't exist
+ */
+export async function triggerScan(folderId?: number): Promise<boolean> {
+	if (folderId !== undefined) {
+		const folder = getWatchFolderById(folderId)
+		if (!folder) {
+			return false
+		}
+		await scanWatchFolder(getFolderState(folder))
+		return true
 	}
+
+	for (const folder of getAllWatchFolders().filter(f => f.enabled)) {
+		await scanWatchFolder(getFolderState(folder))
+	}
+	return true
 }
 
 /**
- * Manually trigger a scan
+ * Import the files of a failed or quarantined import again
+ * Quarantined files are moved back to where they were found; returns the updated log entry
  */
-export async function triggerScan(): Promise<void> {
-	await scanWatchFolder()
+export async function retryImport(entry: WatchImport, folder: WatchFolder): Promise<WatchImport> {
+	const state = getFolderState(folder)
+
+	if (entry.status === 'quarantined' && entry.quarantine_path) {
+		const sourcePath = path.join(state.path, entry.source_path)
+		const exists = await fs.access(sourcePath).then(
+			() => true,
+			() => false
+		)
+		if (exists) {
+			throw new Error(`${entry.source_path} already exists in the watch folder`)
+		}
+		await fs.rename(path.join(state.path, entry.quarantine_path), sourcePath)
+		// Only removes the quarantine subfolder if nothing else is left in it
+		await fs.rmdir(path.dirname(path.join(state.path, entry.quarantine_path))).catch(() => undefined)
+	}
+
+	resetImportForRetry(entry)
+	// Retrying is how a source that was rejected as a duplicate gets imported anyway
+	state.allowedDuplicates.add(entry.source_path)
+	try {
+		await scanWatchFolder(state)
+	} finally {
+		state.allowedDuplicates.delete(entry.source_path)
+	}
+	return getWatchImportById(entry.id)!
+}
+
+/**
+ * Delete the files of a failed or quarantined import and stop retrying it
+ */
+export async function discardImport(entry: WatchImport, folder: WatchFolder | null): Promise<WatchImport> {
+	if (folder) {
+		const folderPath = resolveWatchFolderPath(folder)
+		const target = entry.status === 'quarantined' ? entry.quarantine_path : entry.source_path
+		if (target) {
+			await fs.rm(path.join(folderPath, target), { recursive: true, force: true })
+			if (entry.status === 'quarantined') {
+				await fs.rmdir(path.dirname(path.join(folderPath, target))).catch(() => undefined)
+			}
+		}
+	}
+	return markImportDiscarded(entry)
+}
+
+/**
+ * Get the processed folders of all watch folders that move imported files
+ */
+function getProcessedFolderPaths(): string[] {
+	const paths = getAllWatchFolders()
+		.filter(folder => folder.processed_action === 'move')
+		.map(folder => getProcessedFolderPath(resolveWatchFolderPath(folder)))
+	return Array.from(new Set(paths))
 }
 
 /**
- * Count files in processed folder recursively
+ * Count files in the processed folders recursively
  */
 export async function countProcessedFiles(): Promise<number> {
-	const processedFolder = getProcessedFolderPath()
 	let count = 0
 
 	try {
-		// Check if processed folder exists
-		try {
-			await fs.access(processedFolder)
-		} catch {
-			// Folder doesn't exist, return 0
-			return 0
-		}
-
 		// Recursively count files
 		async function countFiles(dir: string): Promise<void> {
 			const entries = await fs.readdir(dir, { withFileTypes: true })
@@ -404,7 +993,16 @@ export async function countProcessedFiles(): Promise<number> {
 			}
 		}
 
-		await countFiles(processedFolder)
+		for (const processedFolder of getProcessedFolderPaths()) {
+			// Check if processed folder exists
+			try {
+				await fs.access(processedFolder)
+			} catch {
+				// Folder doesn't exist, nothing to count
+				continue
+			}
+			await countFiles(processedFolder)
+		}
 		return count
 	} catch (error) {
 		logger.error('Error counting processed files:', error)
@@ -413,22 +1011,13 @@ export async function countProcessedFiles(): Promise<number> {
 }
 
 /**
- * Delete all files in processed folder
+ * Delete all files in the processed folders
  */
 export async function deleteProcessedFiles(): Promise<{ deleted: number; errors: string[] }> {
-	const processedFolder = getProcessedFolderPath()
 	let deleted = 0
 	const errors: string[] = []
 
 	try {
-		// Check if processed folder exists
-		try {
-			await fs.access(processedFolder)
-		} catch {
-			// Folder doesn't exist, return empty result
-			return { deleted: 0, errors: [] }
-		}
-
 		// Recursively delete files and directories
 		async function deleteRecursive(dir: string): Promise<void> {
 			const entries = await fs.readdir(dir, { withFileTypes: true })
@@ -450,7 +1039,16 @@ export async function deleteProcessedFiles(): Promise<{ deleted: number; errors:
 			}
 		}
 
-		await deleteRecursive(processedFolder)
+		for (const processedFolder of getProcessedFolderPaths()) {
+			// Check if processed folder exists
+			try {
+				await fs.access(processedFolder)
+			} catch {
+				// Folder doesn't exist, nothing to delete
+				continue
+			}
+			await deleteRecursive(processedFolder)
+		}
 		return { deleted, errors }
 	} catch (error: any) {
 		logger.error('Error deleting processed files:', error)
@@ -4,6 +4,35 @@ import { logger } from './logger'
 
 const DEFAULT_PATTERN = '{date}_{user}_{vendor}_{amount}_{type}_{index}'
 
+// Folders below the receipts directory, one level per slash
+export const DEFAULT_DIRECTORY_PATTERN = '{user}/{year}/{month}/{day}'
+
+// Reserved Windows names, rejected in patterns (case-insensitive)
+const RESERVED_NAMES = [
+	'CON',
+	'PRN',
+	'AUX',
+	'NUL',
+	'COM1',
+	'COM2',
+	'COM3',
+	'COM4',
+	'COM5',
+	'COM6',
+	'COM7',
+	'COM8',
+	'COM9',
+	'LPT1',
+	'LPT2',
+	'LPT3',
+	'LPT4',
+	'LPT5',
+	'LPT6',
+	'LPT7',
+	'LPT8',
+	'LPT9',
+]
+
 /**
  * Validate a filename pattern
  * Returns { valid: boolean, error?: string }
@@ -20,32 +49,8 @@ export function validatePattern(pattern: string): { valid: boolean; error?: stri
 	}
 
 	// Check for reserved Windows names (case-insensitive)
-	const reservedNames = [
-		'CON',
-		'PRN',
-		'AUX',
-		'NUL',
-		'COM1',
-		'COM2',
-		'COM3',
-		'COM4',
-		'COM5',
-		'COM6',
-		'COM7',
-		'COM8',
-		'COM9',
-		'LPT1',
-		'LPT2',
-		'LPT3',
-		'LPT4',
-		'LPT5',
-		'LPT6',
-		'LPT7',
-		'LPT8',
-		'LPT9',
-	]
 	const upperPattern = pattern.toUpperCase()
-	for (const reserved of reservedNames) {
+	for (const reserved of RESERVED_NAMES) {
 		if (upperPattern.includes(reserved)) {
 			return { valid: false, error: `Pattern contains reserved name: ${reserved}` }
 		}
@@ -87,6 +92,87 @@ export function validatePattern(pattern: string): { valid: boolean; error?: stri
 	return { valid: true }
 }
 
+/**
+ * Validate a directory pattern, which places receipt files in folders below the receipts directory
+ * Follows the filename pattern rules for each folder, with a slash between folders
+ * Returns { valid: boolean, error?: string }
+ */
+export function validateDirectoryPattern(pattern: string): { valid: boolean; error?: string } {
+	if (!pattern || pattern.trim().length === 0) {
+		return { valid: false, error: 'Pattern cannot be empty' }
+	}
+
+	// Check for invalid filesystem characters (slashes separate folders)
+	const invalidChars = /[<>:"\\|?*]/
+	if (invalidChars.test(pattern)) {
+		return { valid: false, error: 'Pattern contains invalid filesystem characters: < > : " \\ | ? *' }
+	}
+
+	// Check for reserved Windows names (case-insensitive)
+	const upperPattern = pattern.toUpperCase()
+	for (const reserved of RESERVED_NAMES) {
+		if (upperPattern.includes(reserved)) {
+			return { valid: false, error: `Pattern contains reserved name: ${reserved}` }
+		}
+	}
+
+	// Check for valid tokens only
+	const validTokens = ['user', 'type', 'type-group', 'year', 'month', 'day', 'date']
+	const tokenRegex = /\{([^}]+)\}/g
+	let match
+	while ((match = tokenRegex.exec(pattern)) !== null) {
+		const token = match[1]
+		if (!validTokens.includes(token)) {
+			return {
+				valid: false,
+				error: `Unknown token: {${token}}. Valid tokens are: {user}, {type}, {type-group}, {year}, {month}, {day}, {date}`,
+			}
+		}
+	}
+
+	// Check for reasonable length (pattern itself, before token replacement)
+	if (pattern.length > 200) {
+		return { valid: false, error: 'Pattern is too long (max 200 characters)' }
+	}
+
+	if (pattern.startsWith('/') || pattern.endsWith('/')) {
+		return { valid: false, error: 'Pattern cannot start or end with a slash' }
+	}
+
+	// Each folder follows the same rules as a filename pattern
+	for (const folder of pattern.split('/')) {
+		if (folder.length === 0) {
+			return { valid: false, error: 'Pattern cannot contain empty folders (//)' }
+		}
+		if (folder.trim() !== folder) {
+			return { valid: false, error: 'Folders cannot have leading or trailing spaces' }
+		}
+		// Also keeps folders apart from the hidden trash folder and from . and ..
+		if (folder.startsWith('.') || folder.endsWith('.')) {
+			return { valid: false, error: 'Folders cannot start or end with a dot' }
+		}
+	}
+
+	return { valid: true }
+}
+
+/**
+ * Read a pattern from settings, falling back to the default when it isn't set or can't be parsed
+ */
+function getPatternSetting(key: 'filenamePattern' | 'directoryPattern', defaultPattern: string): string {
+	const setting = getSetting(key)
+	if (!setting) {
+		return defaultPattern
+	}
+	try {
+		return JSON.parse(setting)
+	} catch (parseError) {
+		// If JSON parsing fails, use default pattern
+		logger.warn(`Failed to parse ${key} setting, using default:`, parseError)
+		return defaultPattern
+	}
+}
+
 /**
  * Format flags for filename (dash-separated, sanitized)
  */
@@ -118,19 +204,7 @@ export function generateReceiptFilename(
 	pattern?: string
 ): string {
 	// Get pattern from parameter, settings, or use default
-	let usedPattern = pattern || DEFAULT_PATTERN
-	if (!pattern) {
-		const setting = getSetting('filenamePattern')
-		if (setting) {
-			try {
-				usedPattern = JSON.parse(setting)
-			} catch (parseError) {
-				// If JSON parsing fails, use default pattern
-				logger.warn('Failed to parse filenamePattern setting, using default:', parseError)
-				usedPattern = DEFAULT_PATTERN
-			}
-		}
-	}
+	const usedPattern = pattern || getPatternSetting('filenamePattern', DEFAULT_PATTERN)
 
 	// Sanitize inputs
 	const sanitizedUser = sanitizeFilename(user)
@@ -172,6 +246,55 @@ export function generateReceiptFilename(
 	return `${filename}${uniqueSuffix}${ext}`
 }
 
+// What a receipt's folders are built from
+export interface ReceiptDirectoryDetails {
+	user: string
+	type: string
+	typeGroup?: string | null // Missing for types that aren't in a group
+	year: string
+	month: string
+	day: string
+}
+
+/**
+ * Get the directory pattern from settings, or the default pattern
+ * A stored pattern that doesn't validate is ignored so files never land outside the receipts directory
+ */
+export function getDirectoryPattern(): string {
+	const pattern = getPatternSetting('directoryPattern', DEFAULT_DIRECTORY_PATTERN)
+	const validation = validateDirectoryPattern(pattern)
+	if (!validation.valid) {
+		logger.warn(`Invalid directoryPattern setting "${pattern}" (${validation.error}), using default`)
+		return DEFAULT_DIRECTORY_PATTERN
+	}
+	return pattern
+}
+
+/**
+ * Check whether the directory pattern uses a token, e.g. so renaming a receipt type moves its files when it uses {type}
+ */
+export function directoryPatternUses(token: 'type' | 'type-group'): boolean {
+	return getDirectoryPattern().includes(`{${token}}`)
+}
+
+/**
+ * Generate the folders for a receipt's files using a customizable directory pattern
+ * Returns the folder names from the receipts directory down, e.g. ['john-doe', '2024', '01', '15']
+ */
+export function generateReceiptDirectory(details: ReceiptDirectoryDetails, pattern?: string): string[] {
+	const { year, month, day } = details
+	return (pattern || getDirectoryPattern()).split('/').map(folder =>
+		folder
+			.replace(/\{user\}/g, sanitizeFilename(details.user))
+			.replace(/\{type-group\}/g, details.typeGroup ? sanitizeFilename(details.typeGroup) : 'ungrouped')
+			.replace(/\{type\}/g, sanitizeFilename(details.type))
+			.replace(/\{year\}/g, year)
+			.replace(/\{month\}/g, month)
+			.replace(/\{day\}/g, day)
+			.replace(/\{date\}/g, `${year}-${month}-${day}`)
+	)
+}
+
 /**
  * Sanitize a string for use in filenames
  * - Convert to lowercase
@@ -0,0 +1,139 @@
+import express from 'express'
+import { ReceiptQuery, ReceiptSortField, ReimbursementStatus } from '../models/receipt'
+import { validateDate, validateReimbursementStatus } from './validation'
+
+const RECEIPT_SORT_FIELDS: ReceiptSortField[] = ['date', 'vendor', 'type', 'user', 'amount', 'created_at', 'updated_at']
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+// Parse list filters, sorting and pagination from the query string.
+// Returns an error message if any parameter is invalid.
+export const parseReceiptQuery = (params: express.Request['query']): { query: ReceiptQuery; error?: string } => {
+	const query: ReceiptQuery = {}
+	const has = (key: string) => params[key] !== undefined && params[key] !== ''
+
+	const intFields: Array<['user_id' | 'receipt_type_id' | 'group_id', string]> = [
+		['user_id', 'user_id'],
+		['receipt_type_id', 'receipt_type_id'],
+		['group_id', 'group_id'],
+	]
+	for (const [field, name] of intFields) {
+		if (has(name)) {
+			const value = parseInt(params[name] as string, 10)
+			if (isNaN(value)) {
+				return { query, error: `Invalid ${name}: must be a number` }
+			}
+			query[field] = value
+		}
+	}
+
+	for (const name of ['date_from', 'date_to'] as const) {
+		if (has(name)) {
+			const dateValidation = validateDate(params[name] as string)
+			if (!dateValidation.valid) {
+				return { query, error: `Invalid ${name}: ${dateValidation.error}` }
+			}
+			query[name] = params[name] as string
+		}
+	}
+
+	// year is a shorthand for the date range of a calendar (tax) year
+	if (has('year')) {
+		if (has('date_from') || has('date_to')) {
+			return { query, error: 'Invalid year: cannot be combined with date_from or date_to' }
+		}
+		if (!/^\d{4}$/.test(String(params.year))) {
+			return { query, error: 'Invalid year: must be a four-digit year' }
+		}
+		query.date_from = `${params.year}-01-01`
+		query.date_to = `${params.year}-12-31`
+	}
+
+	for (const name of ['amount_min', 'amount_max'] as const) {
+		if (has(name)) {
+			const value = parseFloat(params[name] as string)
+			if (isNaN(value)) {
+				return { query, error: `Invalid ${name}: must be a number` }
+			}
+			query[name] = value
+		}
+	}
+
+	if (has('vendor')) {
+		query.vendor = String(params.vendor).trim()
+	}
+	if (has('q')) {
+		query.q = String(params.q).trim()
+	}
+
+	if (has('reimbursement_status')) {
+		const statusValidation = validateReimbursementStatus(params.reimbursement_status as string)
+		if (!statusValidation.valid) {
+			return { query, error: statusValidation.error }
+		}
+		query.reimbursement_status = params.reimbursement_status as ReimbursementStatus
+	}
+
+	// flag_ids accepts a comma-separated list or repeated params; flag_id is kept for compatibility
+	const rawFlagIds = [params.flag_ids, params.flag_id]
+		.flat()
+		.filter(value => value !== undefined && value !== '')
+		.flatMap(value => String(value).split(','))
+		.map(value => value.trim())
+		.filter(value => value !== '')
+	if (rawFlagIds.length > 0) {
+		const flagIds = rawFlagIds.map(value => parseInt(value, 10))
+		if (flagIds.some(isNaN)) {
+			return { query, error: params.flag_ids !== undefined ? 'Invalid flag_ids: must be numbers' : 'Invalid flag_id: must be a number' }
+		}
+		query.flag_ids = Array.from(new Set(flagIds))
+	}
+	// ids limits the results to specific receipts, as a comma-separated list or repeated params
+	const rawIds = [params.ids]
+		.flat()
+		.filter(value => value !== undefined && value !== '')
+		.flatMap(value => String(value).split(','))
+		.map(value => value.trim())
+		.filter(value => value !== '')
+	if (rawIds.length > 0) {
+		const ids = rawIds.map(value => parseInt(value, 10))
+		if (ids.some(isNaN)) {
+			return { query, error: 'Invalid ids: must be numbers' }
+		}
+		query.ids = Array.from(new Set(ids))
+	}
+	if (has('flag_match')) {
+		if (params.flag_match !== 'any' && params.flag_match !== 'all') {
+			return { query, error: 'Invalid flag_match: must be "any" or "all"' }
+		}
+		query.flag_match = params.flag_match
+	}
+
+	if (has('sort')) {
+		if (!RECEIPT_SORT_FIELDS.includes(params.sort as ReceiptSortField)) {
+			return { query, error: `Invalid sort: must be one of ${RECEIPT_SORT_FIELDS.join(', ')}` }
+		}
+		query.sort = params.sort as ReceiptSortField
+	}
+	if (has('order')) {
+		if (params.order !== 'asc' && params.order !== 'desc') {
+			return { query, error: 'Invalid order: must be "asc" or "desc"' }
+		}
+		query.order = params.order
+	}
+
+	if (has('limit') || has('offset')) {
+		const limit = has('limit') ? parseInt(params.limit as string, 10) : DEFAULT_PAGE_SIZE
+		if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+			return { query, error: `Invalid limit: must be between 1 and ${MAX_PAGE_SIZE}` }
+		}
+		const offset = has('offset') ? parseInt(params.offset as string, 10) : 0
+		if (isNaN(offset) || offset < 0) {
+			return { query, error: 'Invalid offset: must be a non-negative number' }
+		}
+		query.limit = limit
+		query.offset = offset
+	}
+
+	return { query }
+}
@@ -0,0 +1,127 @@
+import { createReadStream } from 'fs'
+import { createGunzip } from 'zlib'
+
+const BLOCK_SIZE = 512
+
+export interface TarEntry {
+	path: string
+	type: 'file' | 'directory' | 'other'
+	size: number
+}
+
+/**
+ * Read a null-terminated string field of a tar header
+ */
+function readField(header: Buffer, offset: number, length: number): string {
+	const field = header.subarray(offset, offset + length)
+	const end = field.indexOf(0)
+	return field.subarray(0, end === -1 ? length : end).toString('utf-8')
+}
+
+/**
+ * Get the path from the records of a pax extended header, which holds names too long for the tar header
+ */
+function readPaxPath(data: Buffer): string | null {
+	let offset = 0
+	while (offset < data.length) {
+		const space = data.indexOf(0x20, offset)
+		const length = parseInt(data.subarray(offset, space).toString(), 10)
+		if (space === -1 || isNaN(length) || length <= 0) break
+		const record = data.subarray(space + 1, offset + length - 1).toString('utf-8')
+		if (record.startsWith('path=')) {
+			return record.slice('path='.length)
+		}
+		offset += length
+	}
+	return null
+}
+
+/**
+ * Read the entries of a gzip-compressed tar archive in order, without extracting it to memory
+ * The content of each entry is passed to onEntry as chunks; content the callback doesn't read is skipped
+ */
+export async function readTarGz(
+	archivePath: string,
+	onEntry: (entry: TarEntry, content: AsyncIterable<Buffer>) => Promise<void>
+): Promise<void> {
+	const chunks = createReadStream(archivePath).pipe(createGunzip())[Symbol.asyncIterator]()
+	let buffered: Buffer = Buffer.alloc(0)
+
+	// Take up to length bytes, reading more of the archive only when nothing is buffered
+	const take = async (length: number): Promise<Buffer | null> => {
+		if (buffered.length === 0) {
+			const next = await chunks.next()
+			if (next.done) return null
+			buffered = next.value as Buffer
+		}
+		const chunk = buffered.subarray(0, length)
+		buffered = buffered.subarray(chunk.length)
+		return chunk
+	}
+	const readExactly = async (length: number): Promise<Buffer> => {
+		const parts: Buffer[] = []
+		let remaining = length
+		while (remaining > 0) {
+			const chunk = await take(remaining)
+			if (!chunk) throw new Error('Unexpected end of archive')
+			parts.push(chunk)
+			remaining -= chunk.length
+		}
+		return Buffer.concat(parts)
+	}
+
+	let longPath: string | null = null
+	for (;;) {
+		const start = await take(BLOCK_SIZE)
+		if (!start) break
+		const block = start.length < BLOCK_SIZE ? Buffer.concat([start, await readExactly(BLOCK_SIZE - start.length)]) : start
+		// Archives end with empty blocks
+		if (block.every(byte => byte === 0)) break
+
+		const size = parseInt(readField(block, 124, 12).trim() || '0', 8)
+		if (isNaN(size)) throw new Error('Invalid tar header')
+		const padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE
+		const typeflag = String.fromCharCode(block[156])
+
+		// Extended headers describe the entry that follows them
+		if (typeflag === 'x' || typeflag === 'L') {
+			const data = await readExactly(size + padding)
+			longPath = typeflag === 'x' ? readPaxPath(data.subarray(0, size)) : readField(data, 0, size)
+			continue
+		}
+		if (typeflag === 'g') {
+			await readExactly(size + padding)
+			continue
+		}
+
+		const name = readField(block, 0, 100)
+		const prefix = readField(block, 257, 6).startsWith('ustar') ? readField(block, 345, 155) : ''
+		const entry: TarEntry = {
+			path: longPath ?? (prefix ? `${prefix}/${name}` : name),
+			type: typeflag === '0' || typeflag === '\0' ? 'file' : typeflag === '5' ? 'directory' : 'other',
+			size,
+		}
+		longPath = null
+
+		let remaining = size
+		const content: AsyncIterable<Buffer> = {
+			[Symbol.asyncIterator]: () => ({
+				next: async () => {
+					if (remaining === 0) return { done: true, value: undefined }
+					const chunk = await take(remaining)
+					if (!chunk) throw new Error('Unexpected end of archive')
+					remaining -= chunk.length
+					return { done: false, value: chunk }
+				},
+			}),
+		}
+		await onEntry(entry, content)
+
+		while (remaining > 0) {
+			const chunk = await take(remaining)
+			if (!chunk) throw new Error('Unexpected end of archive')
+			remaining -= chunk.length
+		}
+		await readExactly(padding)
+	}
+}
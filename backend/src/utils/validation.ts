@@ -2,10 +2,21 @@
  * Input validation utilities
  */
 
+import { REIMBURSEMENT_STATUSES } from '../models/receipt'
+import { ACCOUNT_ROLES, API_TOKEN_SCOPES } from '../models/auth'
+import { IMPORT_RULE_MATCH_TYPES } from '../models/importRule'
+import { PROCESSED_FILE_ACTIONS } from '../models/watchFolder'
+import { EXPORT_LAYOUTS, IMPORT_CONFLICT_MODES } from '../models/export'
+import { SettingKey } from '../models/settings'
+import { MAX_TRASH_RETENTION_DAYS } from '../models/trash'
+import { validateDirectoryPattern, validatePattern } from './filename'
+
 const MAX_STRING_LENGTH = 500
 const MAX_DESCRIPTION_LENGTH = 2000
 const MAX_VENDOR_LENGTH = 200
 const MAX_AMOUNT = 999999.99
+const MAX_USERNAME_LENGTH = 100
+const MIN_PASSWORD_LENGTH = 8
 
 /**
  * Validate date format (YYYY-MM-DD)
@@ -106,3 +117,293 @@ export function validateDescription(description: string | undefined): { valid: b
 export function validateProviderAddress(address: string | undefined): { valid: boolean; error?: string } {
 	return validateStringLength(address, 'Provider address', MAX_STRING_LENGTH, false)
 }
+
+/**
+ * Validate reimbursement status
+ */
+export function validateReimbursementStatus(status: string | undefined): { valid: boolean; error?: string } {
+	if (status === undefined || status === null) {
+		return { valid: true }
+	}
+
+	if (typeof status !== 'string' || !(REIMBURSEMENT_STATUSES as readonly string[]).includes(status)) {
+		return { valid: false, error: `Reimbursement status must be one of: ${REIMBURSEMENT_STATUSES.join(', ')}` }
+	}
+
+	return { valid: true }
+}
+
+/**
+ * Validate reimbursement details against the receipt amount
+ * Partial reimbursements need an amount, and no reimbursement can exceed the receipt
+ */
+export function validateReimbursementDetails(
+	status: string | undefined,
+	reimbursedAmount: number | null | undefined,
+	receiptAmount: number
+): { valid: boolean; error?: string } {
+	// Unreimbursed receipts drop their reimbursement details when saved
+	if (status === 'unreimbursed') {
+		return { valid: true }
+	}
+
+	if (reimbursedAmount === undefined || reimbursedAmount === null) {
+		if (status === 'partial') {
+			return { valid: false, error: 'Partial reimbursements need a reimbursed amount' }
+		}
+		return { valid: true }
+	}
+
+	if (reimbursedAmount > receiptAmount) {
+		return { valid: false, error: 'Reimbursed amount cannot exceed the receipt amount' }
+	}
+
+	return { valid: true }
+}
+
+/**
+ * Validate HSA transaction reference field
+ */
+export function validateHsaTransactionRef(ref: string | undefined): { valid: boolean; error?: string } {
+	return validateStringLength(ref, 'HSA transaction reference', MAX_VENDOR_LENGTH, false)
+}
+
+/**
+ * Validate login account credentials
+ */
+export function validateCredentials(username: unknown, password: unknown): { valid: boolean; error?: string } {
+	if (!username || typeof username !== 'string' || username.trim().length === 0) {
+		return { valid: false, error: 'Username is required' }
+	}
+	if (username.length > MAX_USERNAME_LENGTH) {
+		return { valid: false, error: `Username must be ${MAX_USERNAME_LENGTH} characters or less` }
+	}
+	if (!password || typeof password !== 'string') {
+		return { valid: false, error: 'Password is required' }
+	}
+	return validatePassword(password)
+}
+
+/**
+ * Validate a new password
+ */
+export function validatePassword(password: unknown): { valid: boolean; error?: string } {
+	if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+		return { valid: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }
+	}
+	return { valid: true }
+}
+
+/**
+ * Validate an account role
+ */
+export function validateAccountRole(role: unknown): { valid: boolean; error?: string } {
+	if (role === undefined) {
+		return { valid: true }
+	}
+	if (typeof role !== 'string' || !(ACCOUNT_ROLES as readonly string[]).includes(role)) {
+		return { valid: false, error: `Role must be one of: ${ACCOUNT_ROLES.join(', ')}` }
+	}
+	return { valid: true }
+}
+
+/**
+ * Validate the list of user IDs an account can access
+ */
+export function validateAccountUserIds(userIds: unknown): { valid: boolean; error?: string } {
+	if (userIds === undefined) {
+		return { valid: true }
+	}
+	if (!Array.isArray(userIds) || !userIds.every(id => Number.isInteger(id))) {
+		return { valid: false, error: 'user_ids must be an array of user IDs' }
+	}
+	return { valid: true }
+}
+
+/**
+ * Validate the name of an API token
+ */
+export function validateApiTokenName(name: unknown): { valid: boolean; error?: string } {
+	if (!name || typeof name !== 'string' || !name.trim()) {
+		return { valid: false, error: 'Token name is required' }
+	}
+	if (name.trim().length > 100) {
+		return { valid: false, error: 'Token name must be 100 characters or less' }
+	}
+	return { valid: true }
+}
+
+/**
+ * Validate the scope of an API token
+ */
+export function validateApiTokenScope(scope: unknown): { valid: boolean; error?: string } {
+	if (typeof scope !== 'string' || !(API_TOKEN_SCOPES as readonly string[]).includes(scope)) {
+		return { valid: false, error: `Scope must be one of: ${API_TOKEN_SCOPES.join(', ')}` }
+	}
+	return { valid: true }
+}
+
+/**
+ * Validate the fields of an import rule
+ */
+export function validateImportRule(rule: Record<string, unknown>): { valid: boolean; error?: string } {
+	if (!rule.name || typeof rule.name !== 'string' || !rule.name.trim()) {
+		return { valid: false, error: 'Rule name is required' }
+	}
+	if (rule.name.trim().length > 100) {
+		return { valid: false, error: 'Rule name must be 100 characters or less' }
+	}
+	if (typeof rule.match_type !== 'string' || !(IMPORT_RULE_MATCH_TYPES as readonly string[]).includes(rule.match_type)) {
+		return { valid: false, error: `Match type must be one of: ${IMPORT_RULE_MATCH_TYPES.join(', ')}` }
+	}
+	if (!rule.pattern || typeof rule.pattern !== 'string' || !rule.pattern.trim()) {
+		return { valid: false, error: 'Pattern is required' }
+	}
+	if (rule.pattern.length > MAX_STRING_LENGTH) {
+		return { valid: false, error: `Pattern must be ${MAX_STRING_LENGTH} characters or less` }
+	}
+	if (rule.match_type === 'filename') {
+		try {
+			new RegExp(rule.pattern)
+		} catch {
+			return { valid: false, error: 'Pattern must be a valid regular expression' }
+		}
+	}
+	for (const field of ['user_id', 'receipt_type_id']) {
+		const value = rule[field]
+		if (value !== undefined && value !== null && !Number.isInteger(value)) {
+			return { valid: false, error: `${field} must be a number` }
+		}
+	}
+	if (rule.vendor !== undefined && rule.vendor !== null) {
+		const vendorValidation = validateVendor(rule.vendor as string)
+		if (!vendorValidation.valid) {
+			return vendorValidation
+		}
+	}
+	if (rule.flag_ids !== undefined && (!Array.isArray(rule.flag_ids) || !rule.flag_ids.every(id => Number.isInteger(id)))) {
+		return { valid: false, error: 'flag_ids must be an array of flag IDs' }
+	}
+	for (const field of ['date_from_filename', 'enabled']) {
+		if (rule[field] !== undefined && typeof rule[field] !== 'boolean') {
+			return { valid: false, error: `${field} must be a boolean` }
+		}
+	}
+	return { valid: true }
+}
+
+/**
+ * Validate a watch folder
+ * A folder without a path scans the WATCH_FOLDER directory, and one without an interval uses WATCH_INTERVAL
+ */
+export function validateWatchFolder(folder: Record<string, unknown>): { valid: boolean; error?: string } {
+	if (!folder.name || typeof folder.name !== 'string' || !folder.name.trim()) {
+		return { valid: false, error: 'Folder name is required' }
+	}
+	if (folder.name.trim().length > 100) {
+		return { valid: false, error: 'Folder name must be 100 characters or less' }
+	}
+	if (folder.path !== undefined && folder.path !== null) {
+		if (typeof folder.path !== 'string' || !folder.path.startsWith('/')) {
+			return { valid: false, error: 'Path must be an absolute path' }
+		}
+		if (folder.path.length > MAX_STRING_LENGTH) {
+			return { valid: false, error: `Path must be ${MAX_STRING_LENGTH} characters or less` }
+		}
+	}
+	if (
+		folder.interval_minutes !== undefined &&
+		folder.interval_minutes !== null &&
+		(!Number.isInteger(folder.interval_minutes) || (folder.interval_minutes as number) <= 0)
+	) {
+		return { valid: false, error: 'Interval must be a positive number of minutes' }
+	}
+	for (const field of ['user_id', 'receipt_type_id']) {
+		const value = folder[field]
+		if (value !== undefined && value !== null && !Number.isInteger(value)) {
+			return { valid: false, error: `${field} must be a number` }
+		}
+	}
+	if (folder.flag_ids !== undefined && (!Array.isArray(folder.flag_ids) || !folder.flag_ids.every(id => Number.isInteger(id)))) {
+		return { valid: false, error: 'flag_ids must be an array of flag IDs' }
+	}
+	if (
+		folder.processed_action !== undefined &&
+		(typeof folder.processed_action !== 'string' || !(PROCESSED_FILE_ACTIONS as readonly string[]).includes(folder.processed_action))
+	) {
+		return { valid: false, error: `Processed action must be one of: ${PROCESSED_FILE_ACTIONS.join(', ')}` }
+	}
+	if (folder.enabled !== undefined && typeof folder.enabled !== 'boolean') {
+		return { valid: false, error: 'enabled must be a boolean' }
+	}
+	return { valid: true }
+}
+
+/**
+ * Validate how an import handles receipts that are already stored
+ */
+export function validateImportConflictMode(mode: unknown): { valid: boolean; error?: string } {
+	if (mode === undefined || mode === null || mode === '') {
+		return { valid: true }
+	}
+	if (typeof mode !== 'string' || !(IMPORT_CONFLICT_MODES as readonly string[]).includes(mode)) {
+		return { valid: false, error: `Conflict mode must be one of: ${IMPORT_CONFLICT_MODES.join(', ')}` }
+	}
+	return { valid: true }
+}
+
+/**
+ * Validate how files are arranged in an export archive
+ */
+export function validateExportLayout(layout: unknown): { valid: boolean; error?: string } {
+	if (layout === undefined || layout === null || layout === '') {
+		return { valid: true }
+	}
+	if (typeof layout !== 'string' || !(EXPORT_LAYOUTS as readonly string[]).includes(layout)) {
+		return { valid: false, error: `Layout must be one of: ${EXPORT_LAYOUTS.join(', ')}` }
+	}
+	return { valid: true }
+}
+
+/**
+ * Validate the (parsed) value of a setting
+ */
+export function validateSetting(key: SettingKey, value: unknown): { valid: boolean; error?: string } {
+	switch (key) {
+		case 'filenamePattern': {
+			if (typeof value !== 'string') {
+				return { valid: false, error: 'filenamePattern must be a string' }
+			}
+			const validation = validatePattern(value)
+			return validation.valid ? { valid: true } : { valid: false, error: validation.error || 'Invalid filename pattern' }
+		}
+		case 'directoryPattern': {
+			if (typeof value !== 'string') {
+				return { valid: false, error: 'directoryPattern must be a string' }
+			}
+			const validation = validateDirectoryPattern(value)
+			return validation.valid ? { valid: true } : { valid: false, error: validation.error || 'Invalid directory pattern' }
+		}
+		case 'imageOptimizationEnabled':
+		case 'ocrEnabled':
+			if (typeof value !== 'boolean') {
+				return { valid: false, error: `${key} must be a boolean` }
+			}
+			return { valid: true }
+		case 'trashRetentionDays':
+			if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_TRASH_RETENTION_DAYS) {
+				return { valid: false, error: `trashRetentionDays must be a whole number of days from 0 to ${MAX_TRASH_RETENTION_DAYS}` }
+			}
+			return { valid: true }
+		case 'excludedQuickVendors':
+		case 'customQuickVendors':
+			if (!Array.isArray(value)) {
+				return { valid: false, error: `${key} must be an array` }
+			}
+			// Validate each item is a non-empty string
+			if (!value.every(item => typeof item === 'string' && item.trim() !== '')) {
+				return { valid: false, error: `${key} must be an array of non-empty strings` }
+			}
+			return { valid: true }
+	}
+}
@@ -0,0 +1,123 @@
+import { createReadStream } from 'fs'
+import fs from 'fs/promises'
+import { Readable } from 'stream'
+import { createInflateRaw } from 'zlib'
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+const END_RECORD_SIZE = 22
+const MAX_COMMENT_SIZE = 0xffff
+
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+
+export interface ZipEntry {
+	path: string
+	size: number
+	compressedSize: number
+	method: number
+	localHeaderOffset: number
+}
+
+/**
+ * Read a part of a file
+ */
+async function readAt(file: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+	const buffer = Buffer.alloc(length)
+	const { bytesRead } = await file.read(buffer, 0, length, position)
+	return buffer.subarray(0, bytesRead)
+}
+
+/**
+ * List the entries of a ZIP archive from its central directory
+ * Directories are left out; ZIP64 archives (over 4 GB or 65535 entries) are not supported
+ */
+export async function listZipEntries(archivePath: string): Promise<ZipEntry[]> {
+	const file = await fs.open(archivePath, 'r')
+	try {
+		const { size } = await file.stat()
+		const tailLength = Math.min(size, END_RECORD_SIZE + MAX_COMMENT_SIZE)
+		const tail = await readAt(file, size - tailLength, tailLength)
+
+		// The end record is followed only by the archive comment, so search backwards for it
+		let end = -1
+		for (let i = tail.length - END_RECORD_SIZE; i >= 0; i--) {
+			if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+				end = i
+				break
+			}
+		}
+		if (end === -1) throw new Error('Not a ZIP archive')
+
+		const entryCount = tail.readUInt16LE(end + 10)
+		const directorySize = tail.readUInt32LE(end + 12)
+		const directoryOffset = tail.readUInt32LE(end + 16)
+		if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+			throw new Error('ZIP64 archives are not supported')
+		}
+
+		const directory = await readAt(file, directoryOffset, directorySize)
+		const entries: ZipEntry[] = []
+		let offset = 0
+		for (let i = 0; i < entryCount; i++) {
+			if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+				throw new Error('Invalid ZIP central directory')
+			}
+			const nameLength = directory.readUInt16LE(offset + 28)
+			const extraLength = directory.readUInt16LE(offset + 30)
+			const commentLength = directory.readUInt16LE(offset + 32)
+			const entry: ZipEntry = {
+				path: directory.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8'),
+				method: directory.readUInt16LE(offset + 10),
+				compressedSize: directory.readUInt32LE(offset + 20),
+				size: directory.readUInt32LE(offset + 24),
+				localHeaderOffset: directory.readUInt32LE(offset + 42),
+			}
+			if (!entry.path.endsWith('/')) {
+				entries.push(entry)
+			}
+			offset += 46 + nameLength + extraLength + commentLength
+		}
+		return entries
+	} finally {
+		await file.close()
+	}
+}
+
+/**
+ * Open the content of a ZIP entry as a stream
+ */
+export async function openZipEntry(archivePath: string, entry: ZipEntry): Promise<Readable> {
+	if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+		throw new Error(`Unsupported compression method ${entry.method} for ${entry.path}`)
+	}
+
+	// The local header repeats the name and may have a different extra field, so its length is read again
+	const file = await fs.open(archivePath, 'r')
+	let header: Buffer
+	try {
+		header = await readAt(file, entry.localHeaderOffset, 30)
+	} finally {
+		await file.close()
+	}
+	if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+		throw new Error(`Invalid ZIP entry ${entry.path}`)
+	}
+	const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28)
+
+	if (entry.compressedSize === 0) return Readable.from([])
+	const data = createReadStream(archivePath, { start: dataOffset, end: dataOffset + entry.compressedSize - 1 })
+	return entry.method === METHOD_DEFLATED ? data.pipe(createInflateRaw()) : data
+}
+
+/**
+ * Read a ZIP entry into memory, for small entries like JSON metadata
+ */
+export async function readZipEntry(archivePath: string, entry: ZipEntry): Promise<Buffer> {
+	const chunks: Buffer[] = []
+	for await (const chunk of await openZipEntry(archivePath, entry)) {
+		chunks.push(chunk)
+	}
+	return Buffer.concat(chunks)
+}
@@ -2,6 +2,7 @@ import { BrowserRouter, Routes, Route, Link, useLocation } from 'react-router-do
 import { useState, useEffect, Suspense, lazy } from 'react'
 import AboutPage from './pages/AboutPage'
 import ErrorPage from './pages/ErrorPage'
+import LoginPage from './pages/LoginPage'
 
 // Lazy load pages for code splitting
 const ReceiptsPage = lazy(() => import('./pages/ReceiptsPage'))
@@ -9,7 +10,10 @@ const ReceiptDetailPage = lazy(() => import('./pages/ReceiptDetailPage'))
 const UploadPage = lazy(() => import('./pages/UploadPage'))
 const BulkUploadPage = lazy(() => import('./pages/BulkUploadPage'))
 const SettingsPage = lazy(() => import('./pages/SettingsPage'))
-import { Receipt, Upload, Settings, HelpCircle, Github, Menu, X } from 'lucide-react'
+const DashboardPage = lazy(() => import('./pages/DashboardPage'))
+const DuplicatesPage = lazy(() => import('./pages/DuplicatesPage'))
+const TrashPage = lazy(() => import('./pages/TrashPage'))
+import { Receipt, Upload, Settings, LayoutDashboard, Copy, Trash2, HelpCircle, Github, Menu, X, LogOut } from 'lucide-react'
 import { Button } from './components/ui/button'
 import { ThemeToggle } from './components/ThemeToggle'
 import UserSetupDialog from './components/UserSetupDialog'
@@ -17,6 +21,7 @@ import { Toaster } from './components/ui/toaster'
 import { usersApi, receiptTypesApi, receiptTypeGroupsApi, setApiErrorHandler } from './lib/api'
 import { cn } from './lib/utils'
 import { ErrorProvider, useErrorContext } from './contexts/ErrorContext'
+import { AuthProvider, useAuthContext } from './contexts/AuthContext'
 import { REPOSITORY_URL } from './lib/version'
 import { DEFAULT_RECEIPT_TYPE_GROUPS, DEFAULT_UNGROUPED_TYPES } from './lib/defaults'
 import { usePullToRefresh } from './hooks/usePullToRefresh'
@@ -25,10 +30,15 @@ import { PullToRefreshIndicator } from './components/PullToRefreshIndicator'
 function Navigation() {
 	const location = useLocation()
 	const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
+	const { status, canEdit, logout } = useAuthContext()
+	const account = status?.enabled ? status.account : null
 
 	const navItems = [
 		{ path: '/', label: 'Receipts', icon: Receipt },
-		{ path: '/upload', label: 'Upload', icon: Upload },
+		{ path: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
+		{ path: '/duplicates', label: 'Duplicates', icon: Copy },
+		...(canEdit ? [{ path: '/upload', label: 'Upload', icon: Upload }] : []),
+		{ path: '/trash', label: 'Trash', icon: Trash2 },
 		{ path: '/settings', label: 'Settings', icon: Settings },
 	]
 
@@ -82,20 +92,27 @@ function Navigation() {
 							</Button>
 						</a>
 						<ThemeToggle />
+						{account && (
+							<Button variant="ghost" size="icon" onClick={logout} aria-label={`Log out ${account.username}`} title={`Log out ${account.username}`}>
+								<LogOut className="w-5 h-5" />
+							</Button>
+						)}
 					</div>
 
 					{/* Mobile Menu Button */}
 					<div className="flex items-center gap-2 md:hidden">
-						<Link to="/upload">
-							<Button
-								variant="ghost"
-								size="icon"
-								className={cn(location.pathname === '/upload' && 'bg-primary text-primary-foreground')}
-								aria-label="Upload"
-							>
-								<Upload className="w-5 h-5" />
-							</Button>
-						</Link>
+						{canEdit && (
+							<Link to="/upload">
+								<Button
+									variant="ghost"
+									size="icon"
+									className={cn(location.pathname === '/upload' && 'bg-primary text-primary-foreground')}
+									aria-label="Upload"
+								>
+									<Upload className="w-5 h-5" />
+								</Button>
+							</Link>
+						)}
 						<ThemeToggle />
 						<Button variant="ghost" size="icon" onClick={toggleMobileMenu} aria-label="Toggle menu">
 							{isMobileMenuOpen ? <X className="w-5 h-5" /> : <Menu className="w-5 h-5" />}
@@ -137,6 +154,19 @@ function Navigation() {
 									GitHub
 								</Button>
 							</a>
+							{account && (
+								<Button
+									variant="ghost"
+									className="justify-start w-full gap-2"
+									onClick={() => {
+										closeMobileMenu()
+										logout()
+									}}
+								>
+									<LogOut className="w-4 h-4" />
+									Log out ({account.username})
+								</Button>
+							)}
 						</div>
 					</div>
 				)}
@@ -149,6 +179,8 @@ function AppContent() {
 	const [showUserSetup, setShowUserSetup] = useState(false)
 	const [isChecking, setIsChecking] = useState(true)
 	const { error, setError } = useErrorContext()
+	const { status: authStatus, isAdmin } = useAuthContext()
+	const isAuthenticated = authStatus?.authenticated ?? false
 
 	// Enable pull-to-refresh for iOS home screen web apps
 	const { isPulling, progress, shouldRefresh } = usePullToRefresh({
@@ -164,6 +196,11 @@ function AppContent() {
 	}, [setError])
 
 	useEffect(() => {
+		// Wait until logged in (always true when authentication is disabled)
+		if (!isAuthenticated) {
+			return
+		}
+
 		const initializeApp = async () => {
 			try {
 				const [usersRes, receiptTypesRes, groupsRes] = await Promise.all([
@@ -176,8 +213,8 @@ function AppContent() {
 				const receiptTypes = receiptTypesRes.data || []
 				const groups = groupsRes.data || []
 
-				// Show user setup if no users configured
-				if (users.length === 0) {
+				// Show user setup if no users configured (only admins can add users)
+				if (users.length === 0 && isAdmin) {
 					setShowUserSetup(true)
 				}
 
@@ -190,7 +227,7 @@ function AppContent() {
 					expectedGroupNames.length !== existingGroupNames.length ||
 					!expectedGroupNames.every(name => existingGroupNames.includes(name))
 
-				if (needsReset) {
+				if (needsReset && isAdmin) {
 					// Use the bulk reset endpoint with defaults from constants
 					await receiptTypesApi.resetToDefaults(DEFAULT_RECEIPT_TYPE_GROUPS, DEFAULT_UNGROUPED_TYPES)
 				}
@@ -203,7 +240,7 @@ function AppContent() {
 		}
 
 		initializeApp()
-	}, [])
+	}, [isAuthenticated, isAdmin])
 
 	const handleUserSetupComplete = () => {
 		setShowUserSetup(false)
@@ -218,6 +255,10 @@ function AppContent() {
 		)
 	}
 
+	if (authStatus && authStatus.enabled && !authStatus.authenticated) {
+		return <LoginPage needsSetup={authStatus.needs_setup} />
+	}
+
 	if (isChecking) {
 		return (
 			<div className="flex items-center justify-center min-h-screen bg-background">
@@ -251,6 +292,9 @@ function AppContent() {
 						<Routes>
 							<Route path="/" element={<ReceiptsPage />} />
 							<Route path="/receipts/:id" element={<ReceiptDetailPage />} />
+							<Route path="/dashboard" element={<DashboardPage />} />
+							<Route path="/duplicates" element={<DuplicatesPage />} />
+							<Route path="/trash" element={<TrashPage />} />
 							<Route path="/upload" element={<UploadPage />} />
 							<Route path="/bulk-upload" element={<BulkUploadPage />} />
 							<Route path="/settings" element={<SettingsPage />} />
@@ -269,7 +313,9 @@ function AppContent() {
 function App() {
 	return (
 		<ErrorProvider>
-			<AppContent />
+			<AuthProvider>
+				<AppContent />
+			</AuthProvider>
 		</ErrorProvider>
 	)
 }
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '../helpers/testUtils'
+import { HighlightedSnippet } from '../../components/HighlightedSnippet'
+
+describe('HighlightedSnippet', () => {
+	it('should highlight marked sections', () => {
+		const { container } = render(<HighlightedSnippet snippet="Smile <mark>Orthodontics</mark> braces" />)
+
+		const marks = container.querySelectorAll('mark')
+		expect(marks).toHaveLength(1)
+		expect(marks[0].textContent).toBe('Orthodontics')
+		expect(screen.getByText(/braces/)).toBeInTheDocument()
+	})
+
+	it('should render other markup as plain text', () => {
+		const { container } = render(<HighlightedSnippet snippet="<b>bold</b> text" />)
+
+		expect(container.querySelector('b')).toBeNull()
+		expect(container.textContent).toBe('<b>bold</b> text')
+	})
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest'
+import userEvent from '@testing-library/user-event'
+import { render, screen, waitFor } from '../helpers/testUtils'
+import ReassignDeleteDialog from '../../components/ReassignDeleteDialog'
+
+describe('ReassignDeleteDialog', () => {
+	const alice = { id: 1, name: 'Alice' }
+	const bob = { id: 2, name: 'Bob' }
+
+	it('should delete right away when no receipts use the entity', async () => {
+		const user = userEvent.setup()
+		const onDelete = vi.fn().mockResolvedValue(undefined)
+		const onOpenChange = vi.fn()
+		render(
+			<ReassignDeleteDialog
+				open
+				onOpenChange={onOpenChange}
+				entityLabel="user"
+				entity={alice}
+				targets={[bob]}
+				loadUsage={vi.fn().mockResolvedValue({ receipts: 0, trashed_receipts: 0 })}
+				onDelete={onDelete}
+			/>
+		)
+
+		await waitFor(() => {
+			expect(screen.getByText('No receipts use this user, so it can be deleted right away.')).toBeInTheDocument()
+		})
+		await user.click(screen.getByRole('button', { name: /^delete$/i }))
+
+		expect(onDelete).toHaveBeenCalledWith(1, undefined)
+		await waitFor(() => {
+			expect(onOpenChange).toHaveBeenCalledWith(false)
+		})
+	})
+
+	it('should require a target when receipts use the entity', async () => {
+		render(
+			<ReassignDeleteDialog
+				open
+				onOpenChange={vi.fn()}
+				entityLabel="receipt type"
+				entity={alice}
+				targets={[bob]}
+				loadUsage={vi.fn().mockResolvedValue({ receipts: 3, trashed_receipts: 1 })}
+				onDelete={vi.fn()}
+			/>
+		)
+
+		await waitFor(() => {
+			expect(screen.getByText(/4 receipt\(s\) \(1 of them in the trash\) use this receipt type/)).toBeInTheDocument()
+		})
+		expect(screen.getByLabelText('Move receipts to')).toBeInTheDocument()
+		expect(screen.getByRole('button', { name: /move 4 receipt\(s\) and delete/i })).toBeDisabled()
+	})
+
+	it('should explain when there is nowhere to move the receipts', async () => {
+		render(
+			<ReassignDeleteDialog
+				open
+				onOpenChange={vi.fn()}
+				entityLabel="user"
+				entity={alice}
+				targets={[]}
+				loadUsage={vi.fn().mockResolvedValue({ receipts: 2, trashed_receipts: 0 })}
+				onDelete={vi.fn()}
+			/>
+		)
+
+		await waitFor(() => {
+			expect(screen.getByText('Add another user first so these receipts have somewhere to go.')).toBeInTheDocument()
+		})
+	})
+})
@@ -88,6 +88,52 @@ describe('ReceiptCard', () => {
     expect(screen.getByText(/original2\.pdf/)).toBeInTheDocument();
   });
 
+  it('should show thumbnails for image and PDF files', () => {
+    const receipt = createReceiptFixture({
+      id: 7,
+      files: [
+        {
+          id: 1,
+          receipt_id: 7,
+          filename: 'statement.pdf',
+          original_filename: 'statement.pdf',
+          file_order: 0,
+          created_at: '2024-01-15T10:00:00Z',
+        },
+        {
+          id: 2,
+          receipt_id: 7,
+          filename: 'photo.jpg',
+          original_filename: 'photo.jpg',
+          file_order: 1,
+          created_at: '2024-01-15T10:00:00Z',
+        },
+        {
+          id: 3,
+          receipt_id: 7,
+          filename: 'notes.txt',
+          original_filename: 'notes.txt',
+          file_order: 2,
+          created_at: '2024-01-15T10:00:00Z',
+        },
+      ],
+    });
+
+    render(
+      <ReceiptCard
+        receipt={receipt}
+        onDelete={mockOnDelete}
+        onDownloadFile={mockOnDownloadFile}
+      />
+    );
+
+    const thumbnails = screen.getAllByRole('img');
+    expect(thumbnails).toHaveLength(2);
+    expect(thumbnails[0]).toHaveAttribute('alt', 'Preview of statement.pdf');
+    expect(thumbnails[0]).toHaveAttribute('src', '/api/receipts/7/files/1?size=thumb');
+    expect(thumbnails[1]).toHaveAttribute('src', '/api/receipts/7/files/2?size=thumb');
+  });
+
   it('should display notes when present', () => {
     const receipt = createReceiptFixture({
       notes: 'Test notes',
@@ -16,6 +16,7 @@ export function createReceiptFixture(overrides?: Partial<Receipt>): Receipt {
     description: 'Test description',
     date: '2024-01-15',
     notes: 'Test notes',
+    reimbursement_status: 'unreimbursed',
     created_at: '2024-01-15T10:00:00Z',
     updated_at: '2024-01-15T10:00:00Z',
     files: [],
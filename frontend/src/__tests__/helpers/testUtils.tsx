@@ -2,6 +2,16 @@ import { ReactElement } from 'react'
 import { render, RenderOptions } from '@testing-library/react'
 import { BrowserRouter } from 'react-router-dom'
 import { ErrorProvider } from '../../contexts/ErrorContext'
+import { AuthContext } from '../../contexts/AuthContext'
+
+// Pages are rendered as if authentication were disabled unless a test provides its own AuthProvider
+const authDisabled = {
+	status: { enabled: false, authenticated: true, needs_setup: false, account: null },
+	isAdmin: true,
+	canEdit: true,
+	completeLogin: () => {},
+	logout: async () => {},
+}
 
 /**
  * Custom render function that includes providers
@@ -10,14 +20,16 @@ function customRender(ui: ReactElement, options?: Omit<RenderOptions, 'wrapper'>
 	function Wrapper({ children }: { children: React.ReactNode }) {
 		return (
 			<ErrorProvider>
-				<BrowserRouter
-					future={{
-						v7_startTransition: true,
-						v7_relativeSplatPath: true,
-					}}
-				>
-					{children}
-				</BrowserRouter>
+				<AuthContext.Provider value={authDisabled}>
+					<BrowserRouter
+						future={{
+							v7_startTransition: true,
+							v7_relativeSplatPath: true,
+						}}
+					>
+						{children}
+					</BrowserRouter>
+				</AuthContext.Provider>
 			</ErrorProvider>
 		)
 	}
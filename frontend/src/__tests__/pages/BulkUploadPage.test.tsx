@@ -146,4 +146,44 @@ describe('BulkUploadPage', () => {
 
 		expect(screen.getByRole('button', { name: /create 1 receipt/i })).toBeInTheDocument()
 	})
+
+	it('should skip files that are already stored instead of failing', async () => {
+		const { receiptsApi } = await import('../../lib/api')
+		vi.mocked(receiptsApi.create).mockRejectedValueOnce({
+			response: {
+				status: 409,
+				data: {
+					error: 'These files are already stored with another receipt',
+					duplicates: [{ receipt_id: 7, file_id: 9, original_filename: 'test.pdf', reason: 'identical_file' }],
+				},
+			},
+		})
+		render(<BulkUploadPage />)
+
+		await waitFor(() => {
+			expect(screen.getByRole('button', { name: /select files/i })).toBeInTheDocument()
+		})
+
+		const file = new File(['test content'], 'test.pdf', { type: 'application/pdf' })
+		const fileInput = document.getElementById('file-input') as HTMLInputElement
+		const fileList = {
+			0: file,
+			length: 1,
+			item: (index: number) => (index === 0 ? file : null),
+			[Symbol.iterator]: function* () {
+				yield file
+			},
+		} as FileList
+		Object.defineProperty(fileInput, 'files', { value: fileList, configurable: true })
+		await act(async () => {
+			fileInput.dispatchEvent(new Event('change', { bubbles: true }))
+		})
+
+		await userEvent.click(await screen.findByRole('button', { name: /create 1 receipt/i }))
+
+		await waitFor(() => {
+			expect(receiptsApi.create).toHaveBeenCalledTimes(1)
+		})
+		expect(screen.queryByText('These files are already stored with another receipt')).not.toBeInTheDocument()
+	})
 })
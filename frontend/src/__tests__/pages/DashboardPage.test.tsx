@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '../helpers/testUtils'
+import DashboardPage from '../../pages/DashboardPage'
+import { statsApi } from '../../lib/api'
+
+// Mock the API module
+vi.mock('../../lib/api', () => {
+	const totals = (receipt_count: number, total_spent: number, total_reimbursed: number, outstanding: number) => ({
+		receipt_count,
+		total_spent,
+		total_reimbursed,
+		outstanding,
+	})
+
+	return {
+		statsApi: {
+			getSummary: vi.fn().mockResolvedValue({
+				data: {
+					totals: totals(3, 230.5, 80.5, 150),
+					by_user: [{ user_id: 1, user_name: 'Alice', ...totals(3, 230.5, 80.5, 150) }],
+					by_year: [{ year: '2024', ...totals(3, 230.5, 80.5, 150) }],
+					by_group: [{ group_id: 1, group_name: 'Medical Expenses', ...totals(3, 230.5, 80.5, 150) }],
+					by_status: [{ reimbursement_status: 'partial', ...totals(3, 230.5, 80.5, 150) }],
+					rows: [],
+					years: ['2024'],
+				},
+			}),
+		},
+		usersApi: {
+			getAll: vi.fn().mockResolvedValue({ data: [{ id: 1, name: 'Alice', created_at: '2024-01-15T10:00:00Z' }] }),
+		},
+	}
+})
+
+describe('DashboardPage', () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it('should render summary totals', async () => {
+		render(<DashboardPage />)
+
+		await waitFor(() => {
+			expect(screen.getByText('Total Spent')).toBeInTheDocument()
+		})
+		expect(screen.getAllByText('$230.50').length).toBeGreaterThan(0)
+		expect(screen.getAllByText('$150.00').length).toBeGreaterThan(0)
+	})
+
+	it('should render breakdowns by user, group and status', async () => {
+		render(<DashboardPage />)
+
+		await waitFor(() => {
+			expect(screen.getByText('Alice')).toBeInTheDocument()
+		})
+		expect(screen.getByText('Medical Expenses')).toBeInTheDocument()
+		expect(screen.getByText('Partially Reimbursed')).toBeInTheDocument()
+		expect(statsApi.getSummary).toHaveBeenCalledWith({ year: undefined, user_id: undefined })
+	})
+})
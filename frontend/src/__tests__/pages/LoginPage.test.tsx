@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '../helpers/testUtils'
+import userEvent from '@testing-library/user-event'
+import LoginPage from '../../pages/LoginPage'
+import { AuthProvider, useAuthContext } from '../../contexts/AuthContext'
+import { authApi } from '../../lib/api'
+
+// Mock the API module
+vi.mock('../../lib/api', () => {
+	const account = { id: 1, username: 'parent', created_at: '2024-01-15T10:00:00Z' }
+	return {
+		authApi: {
+			getStatus: vi.fn().mockResolvedValue({
+				data: { enabled: true, authenticated: false, needs_setup: false, account: null },
+			}),
+			login: vi.fn().mockResolvedValue({ data: account }),
+			setup: vi.fn().mockResolvedValue({ data: account }),
+			logout: vi.fn().mockResolvedValue({}),
+		},
+		setUnauthorizedHandler: vi.fn(),
+	}
+})
+
+function AuthState() {
+	const { status } = useAuthContext()
+	return <p>{status?.authenticated ? `Logged in as ${status.account?.username}` : 'Logged out'}</p>
+}
+
+function renderLoginPage(needsSetup: boolean) {
+	return render(
+		<AuthProvider>
+			<LoginPage needsSetup={needsSetup} />
+			<AuthState />
+		</AuthProvider>
+	)
+}
+
+describe('LoginPage', () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it('should log in and update the auth state', async () => {
+		const user = userEvent.setup()
+		renderLoginPage(false)
+		await waitFor(() => expect(authApi.getStatus).toHaveBeenCalled())
+
+		await user.type(screen.getByLabelText('Username'), ' parent ')
+		await user.type(screen.getByLabelText('Password'), 'correct horse')
+		await user.click(screen.getByRole('button', { name: /log in/i }))
+
+		expect(authApi.login).toHaveBeenCalledWith({ username: 'parent', password: 'correct horse' })
+		await waitFor(() => {
+			expect(screen.getByText('Logged in as parent')).toBeInTheDocument()
+		})
+	})
+
+	it('should show the server error for invalid credentials', async () => {
+		vi.mocked(authApi.login).mockRejectedValueOnce({ response: { data: { error: 'Invalid username or password' } } })
+		const user = userEvent.setup()
+		renderLoginPage(false)
+
+		await user.type(screen.getByLabelText('Username'), 'parent')
+		await user.type(screen.getByLabelText('Password'), 'wrong')
+		await user.click(screen.getByRole('button', { name: /log in/i }))
+
+		expect(await screen.findByText('Invalid username or password')).toBeInTheDocument()
+		expect(screen.getByText('Logged out')).toBeInTheDocument()
+	})
+
+	it('should create the first account when setup is needed', async () => {
+		const user = userEvent.setup()
+		renderLoginPage(true)
+
+		await user.type(screen.getByLabelText('Username'), 'parent')
+		await user.type(screen.getByLabelText('Password'), 'correct horse')
+		await user.type(screen.getByLabelText('Confirm Password'), 'correct horse!')
+		await user.click(screen.getByRole('button', { name: /create account/i }))
+		expect(screen.getByText('Passwords do not match')).toBeInTheDocument()
+		expect(authApi.setup).not.toHaveBeenCalled()
+
+		await user.clear(screen.getByLabelText('Confirm Password'))
+		await user.type(screen.getByLabelText('Confirm Password'), 'correct horse')
+		await user.click(screen.getByRole('button', { name: /create account/i }))
+
+		expect(authApi.setup).toHaveBeenCalledWith({ username: 'parent', password: 'correct horse' })
+		await waitFor(() => {
+			expect(screen.getByText('Logged in as parent')).toBeInTheDocument()
+		})
+	})
+})
@@ -3,6 +3,7 @@ import { render, screen, waitFor } from '../helpers/testUtils'
 import userEvent from '@testing-library/user-event'
 import ReceiptDetailPage from '../../pages/ReceiptDetailPage'
 import { createReceiptFixture } from '../helpers/fixtures'
+import { AuthContext } from '../../contexts/AuthContext'
 
 // Mock the API module
 vi.mock('../../lib/api', () => {
@@ -37,6 +38,8 @@ vi.mock('../../lib/api', () => {
 			replaceFile: vi.fn().mockResolvedValue({ data: createReceiptFixture() }),
 			downloadFile: vi.fn().mockRejectedValue({ response: { status: 404 } }),
 			getFrequentVendors: vi.fn().mockResolvedValue({ data: [] }),
+			getHistory: vi.fn().mockResolvedValue({ data: [] }),
+			revertHistoryField: vi.fn().mockResolvedValue({ data: createReceiptFixture() }),
 		},
 		flagsApi: {
 			getAll: vi.fn().mockResolvedValue({ data: [createFlagFixture()] }),
@@ -53,6 +56,21 @@ vi.mock('../../lib/api', () => {
 	}
 })
 
+// Capture the server event listener so tests can push events
+const serverEvents = vi.hoisted(() => ({ listener: null as ((event: any) => void) | null }))
+vi.mock('../../lib/events', async () => {
+	const actual = await vi.importActual('../../lib/events')
+	return {
+		...actual,
+		subscribeToServerEvents: (listener: (event: any) => void) => {
+			serverEvents.listener = listener
+			return () => {
+				serverEvents.listener = null
+			}
+		},
+	}
+})
+
 // Mock react-router-dom
 vi.mock('react-router-dom', async () => {
 	const actual = await vi.importActual('react-router-dom')
@@ -97,6 +115,34 @@ describe('ReceiptDetailPage', () => {
 		expect(clickSpy).toHaveBeenCalled()
 	})
 
+	it('should hide editing controls for viewer accounts', async () => {
+		const viewer = {
+			status: {
+				enabled: true,
+				authenticated: true,
+				needs_setup: false,
+				account: { id: 2, username: 'teen', role: 'viewer' as const, user_ids: [1], created_at: '2024-01-15T10:00:00Z' },
+			},
+			isAdmin: false,
+			canEdit: false,
+			completeLogin: vi.fn(),
+			logout: vi.fn(),
+		}
+		render(
+			<AuthContext.Provider value={viewer}>
+				<ReceiptDetailPage />
+			</AuthContext.Provider>
+		)
+
+		await waitFor(() => {
+			expect(screen.getByDisplayValue('Test Clinic')).toBeDisabled()
+		})
+		expect(screen.getByText('Receipt (1)')).toBeInTheDocument()
+		expect(screen.queryByRole('button', { name: /save/i })).not.toBeInTheDocument()
+		expect(screen.queryByRole('button', { name: /delete/i })).not.toBeInTheDocument()
+		expect(screen.queryByRole('button', { name: /select files/i })).not.toBeInTheDocument()
+	})
+
 	it('should render receipt with files', async () => {
 		const receipt = createReceiptFixture({
 			files: [
@@ -120,4 +166,73 @@ describe('ReceiptDetailPage', () => {
 			expect(screen.getAllByText('test-file.jpg').length).toBeGreaterThan(0)
 		})
 	})
+	it('should reload the receipt when it is updated elsewhere', async () => {
+		const { receiptsApi } = await import('../../lib/api')
+		render(<ReceiptDetailPage />)
+
+		await waitFor(() => {
+			expect(screen.getByDisplayValue('Test Clinic')).toBeInTheDocument()
+		})
+
+		vi.mocked(receiptsApi.getById).mockResolvedValueOnce({
+			data: createReceiptFixture({ vendor: 'Updated Clinic' }),
+		} as any)
+		serverEvents.listener?.({ type: 'receipt.updated', data: { receipt_id: 1, user_id: 1 } })
+
+		await waitFor(() => {
+			expect(screen.getByDisplayValue('Updated Clinic')).toBeInTheDocument()
+		})
+	})
+
+	it('should show the change history and revert a field', async () => {
+		const user = userEvent.setup()
+		const { receiptsApi } = await import('../../lib/api')
+		vi.mocked(receiptsApi.getHistory).mockResolvedValue({
+			data: [
+				{
+					id: 7,
+					receipt_id: 1,
+					action: 'updated',
+					file_id: null,
+					changes: { vendor: { old: 'Old Clinic', new: 'Test Clinic' } },
+					source: 'user',
+					detail: null,
+					account_id: 1,
+					account_name: 'alice',
+					reverted_entry_id: null,
+					created_at: '2024-01-16 09:30:00',
+				},
+			],
+		} as any)
+		vi.mocked(receiptsApi.revertHistoryField).mockResolvedValueOnce({
+			data: createReceiptFixture({ vendor: 'Old Clinic' }),
+		} as any)
+		render(<ReceiptDetailPage />)
+
+		await waitFor(() => {
+			expect(screen.getByText('Old Clinic')).toBeInTheDocument()
+		})
+		expect(screen.getByText(/^alice ·/)).toBeInTheDocument()
+
+		await user.click(screen.getByRole('button', { name: /^revert$/i }))
+
+		expect(receiptsApi.revertHistoryField).toHaveBeenCalledWith(1, 7, 'vendor')
+		await waitFor(() => {
+			expect(screen.getByDisplayValue('Old Clinic')).toBeInTheDocument()
+		})
+	})
+
+	it('should ignore events for other receipts', async () => {
+		const { receiptsApi } = await import('../../lib/api')
+		render(<ReceiptDetailPage />)
+
+		await waitFor(() => {
+			expect(screen.getByDisplayValue('Test Clinic')).toBeInTheDocument()
+		})
+		const calls = vi.mocked(receiptsApi.getById).mock.calls.length
+
+		serverEvents.listener?.({ type: 'receipt.updated', data: { receipt_id: 2, user_id: 1 } })
+
+		expect(receiptsApi.getById).toHaveBeenCalledTimes(calls)
+	})
 })
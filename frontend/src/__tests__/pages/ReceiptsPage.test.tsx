@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import userEvent from '@testing-library/user-event'
+import { render, screen, waitFor } from '../helpers/testUtils'
+import ReceiptsPage from '../../pages/ReceiptsPage'
+import { receiptsApi } from '../../lib/api'
+
+// Mock the API module
+vi.mock('../../lib/api', () => ({
+	receiptsApi: {
+		query: vi.fn(),
+	},
+	flagsApi: {
+		getAll: vi.fn().mockResolvedValue({
+			data: [
+				{ id: 1, name: 'Tax', color: null, created_at: '' },
+				{ id: 2, name: 'Insurance', color: null, created_at: '' },
+			],
+		}),
+	},
+	usersApi: {
+		getAll: vi.fn().mockResolvedValue({ data: [{ id: 1, name: 'Alice', created_at: '' }] }),
+	},
+	receiptTypesApi: {
+		getAll: vi.fn().mockResolvedValue({ data: [{ id: 3, name: 'Dental', group_id: null, display_order: 0, created_at: '' }] }),
+	},
+	receiptTypeGroupsApi: {
+		getAll: vi.fn().mockResolvedValue({ data: [] }),
+	},
+	searchApi: {
+		search: vi.fn().mockResolvedValue({ data: [] }),
+	},
+}))
+
+vi.mock('../../lib/events', async () => {
+	const actual = await vi.importActual('../../lib/events')
+	return {
+		...actual,
+		subscribeToServerEvents: () => () => {},
+	}
+})
+
+const lastQuery = () => vi.mocked(receiptsApi.query).mock.lastCall![0]
+
+describe('ReceiptsPage', () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(receiptsApi.query).mockResolvedValue({
+			data: { receipts: [], total: 0, limit: 50, offset: 0, has_more: false },
+		} as any)
+	})
+
+	it('should send the vendor, amount and date filters to the server', async () => {
+		const user = userEvent.setup()
+		render(<ReceiptsPage />)
+		await waitFor(() => {
+			expect(receiptsApi.query).toHaveBeenCalled()
+		})
+
+		await user.type(screen.getByLabelText('Vendor'), 'Smile')
+		await user.type(screen.getByLabelText('Minimum amount'), '50')
+		await user.type(screen.getByLabelText('Maximum amount'), '100.5')
+		await user.type(screen.getByPlaceholderText('From date'), '2024-01-01')
+		await user.type(screen.getByPlaceholderText('To date'), '2024-12-31')
+
+		await waitFor(() => {
+			expect(lastQuery()).toEqual(
+				expect.objectContaining({
+					vendor: 'Smile',
+					amount_min: 50,
+					amount_max: 100.5,
+					date_from: '2024-01-01',
+					date_to: '2024-12-31',
+				})
+			)
+		})
+
+		await user.click(screen.getByRole('button', { name: /Clear filters/ }))
+
+		await waitFor(() => {
+			expect(lastQuery()).toEqual(
+				expect.objectContaining({ vendor: undefined, amount_min: undefined, date_from: undefined, date_to: undefined })
+			)
+		})
+	})
+
+	it('should filter by several flags', async () => {
+		const user = userEvent.setup()
+		render(<ReceiptsPage />)
+		await waitFor(() => {
+			expect(receiptsApi.query).toHaveBeenCalled()
+		})
+
+		await user.click(screen.getByRole('button', { name: /No Filter/ }))
+		await user.click(await screen.findByRole('checkbox', { name: /Tax/ }))
+		await user.click(screen.getByRole('checkbox', { name: /Insurance/ }))
+
+		await waitFor(() => {
+			expect(lastQuery()).toEqual(expect.objectContaining({ flag_ids: [1, 2], flag_match: 'any' }))
+		})
+		expect(screen.getByLabelText('Flag matching')).toBeInTheDocument()
+	})
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import userEvent from '@testing-library/user-event'
+import { render, screen, waitFor } from '../helpers/testUtils'
+import TrashPage from '../../pages/TrashPage'
+import { trashApi } from '../../lib/api'
+
+// Mock the API module
+vi.mock('../../lib/api', () => ({
+	trashApi: {
+		getAll: vi.fn(),
+		restoreReceipt: vi.fn().mockResolvedValue({ data: {} }),
+		deleteReceipt: vi.fn().mockResolvedValue({}),
+		restoreFile: vi.fn().mockResolvedValue({ data: {} }),
+		deleteFile: vi.fn().mockResolvedValue({}),
+	},
+}))
+
+vi.mock('../../lib/events', async () => {
+	const actual = await vi.importActual('../../lib/events')
+	return {
+		...actual,
+		subscribeToServerEvents: () => () => {},
+	}
+})
+
+const trashedReceipt = {
+	id: 7,
+	user_id: 1,
+	receipt_type_id: 1,
+	user: 'Alice',
+	type: 'Dental',
+	amount: 85,
+	vendor: 'Smile Dental',
+	provider_address: '',
+	description: '',
+	date: '2024-03-01',
+	reimbursement_status: 'unreimbursed',
+	created_at: '2024-03-01 10:00:00',
+	updated_at: '2024-03-01 10:00:00',
+	deleted_at: '2024-03-05 10:00:00',
+	files: [{ id: 11, receipt_id: 7, filename: 'invoice.pdf', original_filename: 'invoice.pdf', file_order: 0, created_at: '' }],
+	flags: [],
+}
+
+const trashedFile = {
+	id: 12,
+	receipt_id: 8,
+	filename: 'claim.pdf',
+	original_filename: 'claim.pdf',
+	file_order: 1,
+	created_at: '',
+	deleted_at: '2024-03-06 10:00:00',
+	receipt: { id: 8, user: 'Bob', type: 'Vision', vendor: 'Eye Care', date: '2024-02-10', amount: 120 },
+}
+
+describe('TrashPage', () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(trashApi.getAll).mockResolvedValue({
+			data: { receipts: [trashedReceipt], files: [trashedFile], retention_days: 30 },
+		} as any)
+	})
+
+	it('should list trashed receipts and files', async () => {
+		render(<TrashPage />)
+
+		await waitFor(() => {
+			expect(screen.getByText(/Smile Dental/)).toBeInTheDocument()
+		})
+		expect(screen.getByText('claim.pdf')).toBeInTheDocument()
+		expect(screen.getByText('Deleted receipts and files are removed for good after 30 day(s)')).toBeInTheDocument()
+	})
+
+	it('should restore a receipt', async () => {
+		const user = userEvent.setup()
+		render(<TrashPage />)
+
+		await waitFor(() => {
+			expect(screen.getByText(/Smile Dental/)).toBeInTheDocument()
+		})
+		await user.click(screen.getAllByRole('button', { name: /restore/i })[0])
+
+		expect(trashApi.restoreReceipt).toHaveBeenCalledWith(7)
+		await waitFor(() => {
+			expect(trashApi.getAll).toHaveBeenCalledTimes(2)
+		})
+	})
+
+	it('should delete a file for good after confirming', async () => {
+		const user = userEvent.setup()
+		render(<TrashPage />)
+
+		await waitFor(() => {
+			expect(screen.getByText('claim.pdf')).toBeInTheDocument()
+		})
+		await user.click(screen.getAllByRole('button', { name: /delete forever/i })[1])
+		expect(screen.getByText('Delete claim.pdf for good? This cannot be undone.')).toBeInTheDocument()
+		const confirmButtons = screen.getAllByRole('button', { name: /delete forever/i })
+		await user.click(confirmButtons[confirmButtons.length - 1])
+
+		await waitFor(() => {
+			expect(trashApi.deleteFile).toHaveBeenCalledWith(12)
+		})
+		expect(trashApi.deleteReceipt).not.toHaveBeenCalled()
+	})
+
+	it('should show an empty trash', async () => {
+		vi.mocked(trashApi.getAll).mockResolvedValue({ data: { receipts: [], files: [], retention_days: 0 } } as any)
+		render(<TrashPage />)
+
+		await waitFor(() => {
+			expect(screen.getByText('The trash is empty')).toBeInTheDocument()
+		})
+		expect(screen.getByText('Deleted receipts and files stay here until they are deleted for good')).toBeInTheDocument()
+	})
+})
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor } from '../helpers/testUtils'
 import userEvent from '@testing-library/user-event'
 import UploadPage from '../../pages/UploadPage'
+import { receiptsApi } from '../../lib/api'
 
 // Mock the API module
 vi.mock('../../lib/api', () => {
@@ -14,6 +15,12 @@ vi.mock('../../lib/api', () => {
 		receiptsApi: {
 			create: vi.fn().mockResolvedValue({ data: {} }),
 			getFrequentVendors: vi.fn().mockResolvedValue({ data: [] }),
+			extractText: vi.fn().mockResolvedValue({
+				data: {
+					text: 'Smile Orthodontics\nTotal Due: $125.40',
+					suggestions: { vendor: 'Smile Orthodontics', amount: 125.4 },
+				},
+			}),
 		},
 		flagsApi: {
 			getAll: vi.fn().mockResolvedValue({ data: [createFlagFixture()] }),
@@ -64,4 +71,27 @@ describe('UploadPage', () => {
 
 		expect(clickSpy).toHaveBeenCalled()
 	})
+
+	it('should suggest fields from scanned image text and apply them on click', async () => {
+		const user = userEvent.setup()
+		render(<UploadPage />)
+
+		const fileInput = document.getElementById('file-input') as HTMLInputElement
+		const image = new File(['image'], 'receipt.jpg', { type: 'image/jpeg' })
+		await user.upload(fileInput, image)
+
+		await waitFor(() => {
+			expect(screen.getByText('Suggested from file text')).toBeInTheDocument()
+		})
+		expect(receiptsApi.extractText).toHaveBeenCalledWith(image)
+		expect(screen.getByText('Smile Orthodontics')).toBeInTheDocument()
+		expect(screen.getByText('$125.40')).toBeInTheDocument()
+
+		await user.click(screen.getByRole('button', { name: /use suggested provider name/i }))
+		expect(screen.getByLabelText('Provider Name')).toHaveValue('Smile Orthodontics')
+
+		await user.click(screen.getByRole('button', { name: /use suggested amount paid/i }))
+		expect(screen.getByLabelText('Amount Paid')).toHaveValue('125.40')
+		expect(screen.queryByText('Suggested from file text')).not.toBeInTheDocument()
+	})
 })
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react'
+import { accountsApi, Account, AccountRole, User } from '../lib/api'
+import { ACCOUNT_ROLE_DESCRIPTIONS, ACCOUNT_ROLE_LABELS } from '../lib/accountRoles'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Checkbox } from './ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useConfirmDialog } from './ConfirmDialog'
+import { Plus, Trash2 } from 'lucide-react'
+import ChangePasswordForm from './ChangePasswordForm'
+
+/**
+ * Checkboxes for picking which users' receipts an account can access
+ */
+function AccountUsersPicker({
+	users,
+	selectedIds,
+	onChange,
+	idPrefix,
+}: {
+	users: User[]
+	selectedIds: number[]
+	onChange: (userIds: number[]) => void
+	idPrefix: string
+}) {
+	if (users.length === 0) {
+		return <p className="text-xs text-muted-foreground">Add users below to give this account access to their receipts</p>
+	}
+
+	return (
+		<div className="flex flex-wrap gap-x-4 gap-y-2">
+			{users.map(user => (
+				<div key={user.id} className="flex items-center gap-2">
+					<Checkbox
+						id={`${idPrefix}-user-${user.id}`}
+						checked={selectedIds.includes(user.id)}
+						onCheckedChange={checked =>
+							onChange(checked ? [...selectedIds, user.id] : selectedIds.filter(id => id !== user.id))
+						}
+					/>
+					<Label htmlFor={`${idPrefix}-user-${user.id}`} className="font-normal">
+						{user.name}
+					</Label>
+				</div>
+			))}
+		</div>
+	)
+}
+
+/**
+ * Role dropdown for login accounts
+ */
+function AccountRoleSelect({
+	value,
+	onChange,
+	disabled,
+	label,
+}: {
+	value: AccountRole
+	onChange: (role: AccountRole) => void
+	disabled?: boolean
+	label: string
+}) {
+	return (
+		<Select value={value} onValueChange={value => onChange(value as AccountRole)} disabled={disabled}>
+			<SelectTrigger className="w-full sm:w-32" aria-label={label}>
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent>
+				{(Object.keys(ACCOUNT_ROLE_LABELS) as AccountRole[]).map(role => (
+					<SelectItem key={role} value={role}>
+						{ACCOUNT_ROLE_LABELS[role]}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	)
+}
+
+/**
+ * Login accounts with their roles and the users whose receipts they can access
+ */
+export default function AccountsCard({
+	currentAccount,
+	users,
+	confirm,
+}: {
+	currentAccount: Account
+	users: User[]
+	confirm: ReturnType<typeof useConfirmDialog>['confirm']
+}) {
+	const [accounts, setAccounts] = useState<Account[]>([])
+	const [newUsername, setNewUsername] = useState('')
+	const [newPassword, setNewPassword] = useState('')
+	const [newRole, setNewRole] = useState<AccountRole>('viewer')
+	const [newUserIds, setNewUserIds] = useState<number[]>([])
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		accountsApi
+			.getAll()
+			.then(response => setAccounts(response.data))
+			.catch(err => setError(err.response?.data?.error || 'Failed to load accounts'))
+	}, [])
+
+	const handleAddAccount = async () => {
+		if (!newUsername.trim() || !newPassword) return
+		try {
+			const response = await accountsApi.create({
+				username: newUsername.trim(),
+				password: newPassword,
+				role: newRole,
+				user_ids: newRole === 'admin' ? [] : newUserIds,
+			})
+			setAccounts([...accounts, response.data].sort((a, b) => a.username.localeCompare(b.username)))
+			setNewUsername('')
+			setNewPassword('')
+			setNewRole('viewer')
+			setNewUserIds([])
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to create account')
+		}
+	}
+
+	const handleUpdateAccount = async (account: Account, data: { role?: AccountRole; user_ids?: number[] }) => {
+		try {
+			const response = await accountsApi.update(account.id, data)
+			setAccounts(accounts.map(a => (a.id === account.id ? response.data : a)))
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to update account')
+		}
+	}
+
+	const handleDeleteAccount = async (account: Account) => {
+		const confirmed = await confirm({
+			message: `Are you sure you want to delete the account "${account.username}"? They will be logged out immediately.`,
+			variant: 'destructive',
+		})
+		if (!confirmed) return
+
+		try {
+			await accountsApi.delete(account.id)
+			setAccounts(accounts.filter(a => a.id !== account.id))
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to delete account')
+		}
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Accounts</CardTitle>
+				<CardDescription>
+					Manage who can log in to MedStash. Admins see every receipt; editors and viewers only see receipts of the users
+					you pick. You are logged in as {currentAccount.username}.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{error && <p className="text-sm text-destructive">{error}</p>}
+				<div className="space-y-2">
+					<div className="flex flex-col gap-2 sm:flex-row">
+						<Input
+							placeholder="Username"
+							value={newUsername}
+							onChange={e => setNewUsername(e.target.value)}
+							autoComplete="off"
+							className="flex-1"
+						/>
+						<Input
+							type="password"
+							placeholder="Password (min. 8 characters)"
+							value={newPassword}
+							onChange={e => setNewPassword(e.target.value)}
+							onKeyDown={e => e.key === 'Enter' && handleAddAccount()}
+							autoComplete="new-password"
+							className="flex-1"
+						/>
+						<AccountRoleSelect value={newRole} onChange={setNewRole} label="Role for new account" />
+						<Button onClick={handleAddAccount}>
+							<Plus className="w-4 h-4 mr-1" />
+							Add Account
+						</Button>
+					</div>
+					<p className="text-xs text-muted-foreground">{ACCOUNT_ROLE_DESCRIPTIONS[newRole]}</p>
+					{newRole !== 'admin' && (
+						<AccountUsersPicker users={users} selectedIds={newUserIds} onChange={setNewUserIds} idPrefix="new-account" />
+					)}
+				</div>
+				<div className="space-y-1">
+					{accounts.map(account => (
+						<div key={account.id} className="px-3 py-1 space-y-2 border rounded-lg">
+							<div className="flex items-center justify-between gap-2">
+								<div className="flex flex-col">
+									<span className="font-medium">{account.username}</span>
+									<span className="text-xs text-muted-foreground">
+										{account.last_login_at ? `Last login ${new Date(account.last_login_at.replace(' ', 'T') + 'Z').toLocaleString()}` : 'Never logged in'}
+									</span>
+								</div>
+								<div className="flex items-center gap-2">
+									<AccountRoleSelect
+										value={account.role}
+										onChange={role => handleUpdateAccount(account, { role })}
+										disabled={account.id === currentAccount.id}
+										label={`Role for ${account.username}`}
+									/>
+									{account.id !== currentAccount.id && (
+										<Button
+											size="icon"
+											variant="ghost"
+											onClick={() => handleDeleteAccount(account)}
+											className="text-destructive hover:text-destructive"
+											aria-label={`Delete account ${account.username}`}
+										>
+											<Trash2 className="w-4 h-4" />
+										</Button>
+									)}
+								</div>
+							</div>
+							{account.role !== 'admin' && (
+								<div className="pb-1">
+									<AccountUsersPicker
+										users={users}
+										selectedIds={account.user_ids}
+										onChange={userIds => handleUpdateAccount(account, { user_ids: userIds })}
+										idPrefix={`account-${account.id}`}
+									/>
+								</div>
+							)}
+						</div>
+					))}
+				</div>
+				<div className="pt-4 border-t">
+					<ChangePasswordForm />
+				</div>
+			</CardContent>
+		</Card>
+	)
+}
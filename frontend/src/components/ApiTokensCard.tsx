@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react'
+import { apiTokensApi, ApiToken, ApiTokenScope, CreatedApiToken } from '../lib/api'
+import { API_TOKEN_SCOPE_DESCRIPTIONS, API_TOKEN_SCOPE_LABELS } from '../lib/apiTokenScopes'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useConfirmDialog } from './ConfirmDialog'
+import { useToast } from './ui/use-toast'
+import { Plus, Trash2, Copy } from 'lucide-react'
+
+/**
+ * Personal API tokens of the logged-in account, for scripts and shortcuts
+ */
+export default function ApiTokensCard({ confirm }: { confirm: ReturnType<typeof useConfirmDialog>['confirm'] }) {
+	const { toast } = useToast()
+	const [tokens, setTokens] = useState<ApiToken[]>([])
+	const [newName, setNewName] = useState('')
+	const [newScope, setNewScope] = useState<ApiTokenScope>('read')
+	const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		apiTokensApi
+			.getAll()
+			.then(response => setTokens(response.data))
+			.catch(err => setError(err.response?.data?.error || 'Failed to load API tokens'))
+	}, [])
+
+	const handleCreateToken = async () => {
+		if (!newName.trim()) return
+		try {
+			const response = await apiTokensApi.create({ name: newName.trim(), scope: newScope })
+			const { token: _token, ...apiToken } = response.data
+			setTokens([apiToken, ...tokens])
+			setCreatedToken(response.data)
+			setNewName('')
+			setNewScope('read')
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to create API token')
+		}
+	}
+
+	const handleCopyToken = async () => {
+		if (!createdToken) return
+		try {
+			await navigator.clipboard.writeText(createdToken.token)
+			toast({ title: 'Token copied to clipboard' })
+		} catch {
+			setError('Failed to copy token, please select and copy it manually')
+		}
+	}
+
+	const handleRevokeToken = async (token: ApiToken) => {
+		const confirmed = await confirm({
+			message: `Are you sure you want to revoke the token "${token.name}"? Scripts using it will stop working.`,
+			variant: 'destructive',
+		})
+		if (!confirmed) return
+
+		try {
+			await apiTokensApi.delete(token.id)
+			setTokens(tokens.filter(t => t.id !== token.id))
+			if (createdToken?.id === token.id) {
+				setCreatedToken(null)
+			}
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to revoke API token')
+		}
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>API Tokens</CardTitle>
+				<CardDescription>
+					Let scripts and shortcuts use MedStash on your behalf by sending a token in an{' '}
+					<code>Authorization: Bearer</code> header. Tokens can never do more than your account can.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{error && <p className="text-sm text-destructive">{error}</p>}
+				<div className="space-y-2">
+					<div className="flex flex-col gap-2 sm:flex-row">
+						<Input
+							placeholder="Token name, e.g. iPhone Shortcut"
+							value={newName}
+							onChange={e => setNewName(e.target.value)}
+							onKeyDown={e => e.key === 'Enter' && handleCreateToken()}
+							autoComplete="off"
+							className="flex-1"
+						/>
+						<Select value={newScope} onValueChange={value => setNewScope(value as ApiTokenScope)}>
+							<SelectTrigger className="w-full sm:w-36" aria-label="Scope for new token">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{(Object.keys(API_TOKEN_SCOPE_LABELS) as ApiTokenScope[]).map(scope => (
+									<SelectItem key={scope} value={scope}>
+										{API_TOKEN_SCOPE_LABELS[scope]}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Button onClick={handleCreateToken}>
+							<Plus className="w-4 h-4 mr-1" />
+							Create Token
+						</Button>
+					</div>
+					<p className="text-xs text-muted-foreground">{API_TOKEN_SCOPE_DESCRIPTIONS[newScope]}</p>
+				</div>
+				{createdToken && (
+					<div className="p-3 space-y-2 border rounded-lg bg-muted">
+						<p className="text-sm">
+							Copy the token for <span className="font-medium">{createdToken.name}</span> now. It won't be shown again.
+						</p>
+						<div className="flex gap-2">
+							<Input
+								value={createdToken.token}
+								readOnly
+								onFocus={e => e.target.select()}
+								className="font-mono"
+								aria-label="New API token"
+							/>
+							<Button variant="outline" onClick={handleCopyToken}>
+								<Copy className="w-4 h-4 mr-1" />
+								Copy
+							</Button>
+						</div>
+					</div>
+				)}
+				<div className="space-y-1">
+					{tokens.length === 0 && <p className="text-sm text-muted-foreground">No API tokens yet</p>}
+					{tokens.map(token => (
+						<div key={token.id} className="flex items-center justify-between gap-2 px-3 py-1 border rounded-lg">
+							<div className="flex flex-col">
+								<span className="font-medium">
+									{token.name} <span className="font-mono text-xs text-muted-foreground">{token.token_prefix}…</span>
+								</span>
+								<span className="text-xs text-muted-foreground">
+									{API_TOKEN_SCOPE_LABELS[token.scope]} ·{' '}
+									{token.last_used_at ? `Last used ${new Date(token.last_used_at.replace(' ', 'T') + 'Z').toLocaleString()}` : 'Never used'}
+								</span>
+							</div>
+							<Button
+								size="icon"
+								variant="ghost"
+								onClick={() => handleRevokeToken(token)}
+								className="text-destructive hover:text-destructive"
+								aria-label={`Revoke token ${token.name}`}
+							>
+								<Trash2 className="w-4 h-4" />
+							</Button>
+						</div>
+					))}
+				</div>
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { backupsApi, Backup, BackupList, Job } from '../lib/api'
+import { BACKUP_KIND_LABELS, formatBackupSize } from '../lib/backups'
+import { isJobActive } from '../lib/jobs'
+import { useServerEvents } from '../hooks/useServerEvents'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { useConfirmDialog } from './ConfirmDialog'
+import { useToast } from './ui/use-toast'
+import { Trash2, Download, Upload, DatabaseBackup, ArchiveRestore } from 'lucide-react'
+
+/**
+ * Backups of the database and receipt files, to download or restore
+ */
+export default function BackupsCard({
+	confirm,
+	onJobStarted,
+}: {
+	confirm: ReturnType<typeof useConfirmDialog>['confirm']
+	onJobStarted: (job: Job) => void
+}) {
+	const { toast } = useToast()
+	const [list, setList] = useState<BackupList | null>(null)
+	const [busyName, setBusyName] = useState<string | null>(null)
+	const [isCreating, setIsCreating] = useState(false)
+	const [isUploading, setIsUploading] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+	const uploadInputRef = useRef<HTMLInputElement>(null)
+
+	const loadBackups = () =>
+		backupsApi
+			.getAll()
+			.then(response => setList(response.data))
+			.catch(err => setError(err.response?.data?.error || 'Failed to load backups'))
+
+	useEffect(() => {
+		loadBackups()
+	}, [])
+
+	useServerEvents(['job.updated'], event => {
+		if (event.type !== 'job.updated') return
+		const { job } = event.data
+		if (job.type === 'create-backup' && !isJobActive(job)) {
+			setIsCreating(false)
+			loadBackups()
+		}
+		if (job.type === 'restore-backup' && job.status === 'completed') {
+			// Everything on every page changed, so start over with the restored data
+			window.location.reload()
+		}
+		if (job.type === 'restore-backup' && job.status === 'failed') {
+			setBusyName(null)
+			setError(job.error || 'Failed to restore backup')
+		}
+	})
+
+	const handleCreate = async () => {
+		setIsCreating(true)
+		try {
+			const response = await backupsApi.create()
+			onJobStarted(response.data)
+			setError(null)
+		} catch (err: any) {
+			setIsCreating(false)
+			setError(err.response?.data?.error || 'Failed to start backup')
+		}
+	}
+
+	const handleDownload = async (backup: Backup) => {
+		try {
+			const response = await backupsApi.download(backup.name)
+			const url = window.URL.createObjectURL(new Blob([response.data]))
+			const link = document.createElement('a')
+			link.href = url
+			link.setAttribute('download', backup.name)
+			document.body.appendChild(link)
+			link.click()
+			link.remove()
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to download backup')
+		}
+	}
+
+	const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const archive = e.target.files?.[0]
+		e.target.value = ''
+		if (!archive) return
+
+		setIsUploading(true)
+		try {
+			const response = await backupsApi.upload(archive)
+			toast({ title: 'Backup uploaded', description: `${archive.name} can now be restored` })
+			setList(current => current && { ...current, backups: [response.data, ...current.backups] })
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to upload backup')
+		} finally {
+			setIsUploading(false)
+		}
+	}
+
+	const handleRestore = async (backup: Backup) => {
+		const confirmed = await confirm({
+			title: 'Restore Backup',
+			message: `Replace all receipts, files and settings with the backup from ${new Date(
+				backup.created_at
+			).toLocaleString()}? The current state is backed up first, so this can be undone.`,
+			confirmText: 'Restore',
+			variant: 'destructive',
+		})
+		if (!confirmed) return
+
+		setBusyName(backup.name)
+		try {
+			const response = await backupsApi.restore(backup.name)
+			onJobStarted(response.data)
+			setError(null)
+		} catch (err: any) {
+			setBusyName(null)
+			setError(err.response?.data?.error || 'Failed to restore backup')
+		}
+	}
+
+	const handleDelete = async (backup: Backup) => {
+		const confirmed = await confirm({
+			message: `Delete the backup ${backup.name}? This cannot be undone.`,
+			variant: 'destructive',
+		})
+		if (!confirmed) return
+
+		setBusyName(backup.name)
+		try {
+			await backupsApi.delete(backup.name)
+			setList(current => current && { ...current, backups: current.backups.filter(b => b.name !== backup.name) })
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to delete backup')
+		} finally {
+			setBusyName(null)
+		}
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Backups</CardTitle>
+				<CardDescription>
+					Snapshots of the database and all receipt files
+					{list &&
+						(list.interval_hours > 0
+							? `, made every ${list.interval_hours} hour(s) to ${list.directory}. The newest ${list.keep} scheduled backups are kept.`
+							: ` in ${list.directory}. Set BACKUP_INTERVAL_HOURS to make backups automatically.`)}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{error && <p className="text-sm text-destructive">{error}</p>}
+				<div className="flex flex-col justify-end gap-2 sm:flex-row">
+					<input ref={uploadInputRef} type="file" accept=".gz,.tgz" className="hidden" onChange={handleUpload} />
+					<Button variant="outline" onClick={() => uploadInputRef.current?.click()} disabled={isUploading}>
+						<Upload className="w-4 h-4 mr-1" />
+						{isUploading ? 'Uploading...' : 'Upload Backup'}
+					</Button>
+					<Button onClick={handleCreate} disabled={isCreating}>
+						<DatabaseBackup className="w-4 h-4 mr-1" />
+						{isCreating ? 'Backing up...' : 'Back Up Now'}
+					</Button>
+				</div>
+				<div className="space-y-2">
+					{list?.backups.length === 0 && <p className="text-sm text-muted-foreground">No backups yet</p>}
+					{list?.backups.map(backup => (
+						<div key={backup.name} className="flex items-center justify-between gap-2 px-3 py-1 border rounded-lg">
+							<div className="flex flex-col min-w-0">
+								<span className="text-sm">{new Date(backup.created_at).toLocaleString()}</span>
+								<span className="text-xs truncate text-muted-foreground">
+									{BACKUP_KIND_LABELS[backup.kind]} · {formatBackupSize(backup.size)}
+								</span>
+							</div>
+							<div className="flex items-center gap-1 shrink-0">
+								<Button
+									size="icon"
+									variant="ghost"
+									onClick={() => handleDownload(backup)}
+									aria-label={`Download backup ${backup.name}`}
+								>
+									<Download className="w-4 h-4" />
+								</Button>
+								<Button
+									size="icon"
+									variant="ghost"
+									onClick={() => handleRestore(backup)}
+									disabled={busyName !== null}
+									aria-label={`Restore backup ${backup.name}`}
+								>
+									<ArchiveRestore className="w-4 h-4" />
+								</Button>
+								<Button
+									size="icon"
+									variant="ghost"
+									onClick={() => handleDelete(backup)}
+									disabled={busyName !== null}
+									className="text-destructive hover:text-destructive"
+									aria-label={`Delete backup ${backup.name}`}
+								>
+									<Trash2 className="w-4 h-4" />
+								</Button>
+							</div>
+						</div>
+					))}
+				</div>
+			</CardContent>
+		</Card>
+	)
+}
@@ -16,7 +16,9 @@ import {
 	ReceiptType,
 	ReceiptTypeGroup,
 	Flag,
+	ReimbursementStatus,
 } from '../lib/api'
+import { REIMBURSEMENT_STATUS_LABELS } from '../lib/reimbursement'
 import { useToast } from './ui/use-toast'
 import { getBadgeClassName, getBorderClassName } from './ui/color-picker'
 import { cn } from '../lib/utils'
@@ -42,6 +44,7 @@ export default function BulkEditDialog({ open, onOpenChange, selectedReceiptIds,
 	const [date, setDate] = useState<string | undefined>(undefined)
 	const [userId, setUserId] = useState<number | undefined>(undefined)
 	const [receiptTypeId, setReceiptTypeId] = useState<number | undefined>(undefined)
+	const [reimbursementStatus, setReimbursementStatus] = useState<ReimbursementStatus | undefined>(undefined)
 	const [selectedFlagIds, setSelectedFlagIds] = useState<number[]>([])
 	const [flagOperation, setFlagOperation] = useState<'append' | 'replace' | 'remove_all'>('replace')
 
@@ -61,6 +64,7 @@ export default function BulkEditDialog({ open, onOpenChange, selectedReceiptIds,
 			setDate(undefined)
 			setUserId(undefined)
 			setReceiptTypeId(undefined)
+			setReimbursementStatus(undefined)
 			setSelectedFlagIds([])
 			setFlagOperation('replace')
 			setError(null)
@@ -107,6 +111,9 @@ export default function BulkEditDialog({ open, onOpenChange, selectedReceiptIds,
 		if (receiptTypeId !== undefined) {
 			updateData.receipt_type_id = receiptTypeId
 		}
+		if (reimbursementStatus !== undefined) {
+			updateData.reimbursement_status = reimbursementStatus
+		}
 		if (flagOperation === 'remove_all') {
 			// Remove all flags by sending empty array with replace operation
 			updateData.flag_ids = []
@@ -182,7 +189,7 @@ export default function BulkEditDialog({ open, onOpenChange, selectedReceiptIds,
 
 		const confirmed = await confirm({
 			title: 'Delete Receipts',
-			message: `Are you sure you want to delete ${selectedReceiptIds.length} receipt(s)? This action cannot be undone.`,
+			message: `Move ${selectedReceiptIds.length} receipt(s) to the trash? They can be restored from the Trash page.`,
 			variant: 'destructive',
 			confirmText: 'Delete',
 			cancelText: 'Cancel',
@@ -379,6 +386,27 @@ export default function BulkEditDialog({ open, onOpenChange, selectedReceiptIds,
 						</Select>
 					</div>
 
+					{/* Reimbursement Status */}
+					<div>
+						<Label htmlFor="bulk-reimbursement">Reimbursement Status</Label>
+						<Select
+							value={reimbursementStatus || '__none__'}
+							onValueChange={value => setReimbursementStatus(value === '__none__' ? undefined : (value as ReimbursementStatus))}
+						>
+							<SelectTrigger id="bulk-reimbursement">
+								<SelectValue placeholder="Leave empty to keep existing" />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="__none__">None (keep existing)</SelectItem>
+								{(Object.keys(REIMBURSEMENT_STATUS_LABELS) as ReimbursementStatus[]).map(status => (
+									<SelectItem key={status} value={status}>
+										{REIMBURSEMENT_STATUS_LABELS[status]}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+
 					{/* Flags */}
 					{flags.length > 0 && (
 						<div>
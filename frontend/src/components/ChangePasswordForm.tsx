@@ -0,0 +1,63 @@
+import { useState } from 'react'
+import { accountsApi } from '../lib/api'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { useToast } from './ui/use-toast'
+import { KeyRound } from 'lucide-react'
+
+/**
+ * Form for changing the logged-in account's password
+ */
+export default function ChangePasswordForm() {
+	const { toast } = useToast()
+	const [currentPassword, setCurrentPassword] = useState('')
+	const [changedPassword, setChangedPassword] = useState('')
+	const [error, setError] = useState<string | null>(null)
+
+	const handleChangePassword = async () => {
+		if (!currentPassword || !changedPassword) return
+		try {
+			await accountsApi.changePassword(currentPassword, changedPassword)
+			setCurrentPassword('')
+			setChangedPassword('')
+			setError(null)
+			toast({
+				title: 'Password changed',
+				description: 'Other devices using this account have been logged out',
+			})
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to change password')
+		}
+	}
+
+	return (
+		<div className="space-y-2">
+			<Label>Change Your Password</Label>
+			{error && <p className="text-sm text-destructive">{error}</p>}
+			<div className="flex flex-col gap-2 sm:flex-row">
+				<Input
+					type="password"
+					placeholder="Current password"
+					value={currentPassword}
+					onChange={e => setCurrentPassword(e.target.value)}
+					autoComplete="current-password"
+					className="flex-1"
+				/>
+				<Input
+					type="password"
+					placeholder="New password"
+					value={changedPassword}
+					onChange={e => setChangedPassword(e.target.value)}
+					onKeyDown={e => e.key === 'Enter' && handleChangePassword()}
+					autoComplete="new-password"
+					className="flex-1"
+				/>
+				<Button variant="outline" onClick={handleChangePassword}>
+					<KeyRound className="w-4 h-4 mr-1" />
+					Change
+				</Button>
+			</div>
+		</div>
+	)
+}
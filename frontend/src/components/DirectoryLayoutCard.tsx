@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react'
+import { settingsApi, receiptsApi, Job } from '../lib/api'
+import {
+	DEFAULT_DIRECTORY_PATTERN,
+	DIRECTORY_PATTERN_TOKENS,
+	previewDirectoryPattern,
+	validateDirectoryPattern,
+} from '../lib/directoryPattern'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Save, Info, RotateCcw, FolderTree } from 'lucide-react'
+
+/**
+ * Folder layout for stored receipt files, with a job that moves existing files into it
+ */
+export default function DirectoryLayoutCard({ onJobStarted, isOrganizing }: { onJobStarted: (job: Job) => void; isOrganizing: boolean }) {
+	const [pattern, setPattern] = useState(DEFAULT_DIRECTORY_PATTERN)
+	const [savedPattern, setSavedPattern] = useState(DEFAULT_DIRECTORY_PATTERN)
+	const [isSaving, setIsSaving] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+	const patternError = validateDirectoryPattern(pattern)
+
+	useEffect(() => {
+		settingsApi
+			.get('directoryPattern')
+			.then(response => response.data.value as string)
+			// Not set yet, so the default layout applies
+			.catch(() => DEFAULT_DIRECTORY_PATTERN)
+			.then(value => {
+				setPattern(value)
+				setSavedPattern(value)
+			})
+	}, [])
+
+	const handleOrganize = async () => {
+		try {
+			setError(null)
+			const response = await receiptsApi.migrateFiles()
+			onJobStarted(response.data)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to organize files')
+		}
+	}
+
+	const handleSave = async () => {
+		if (patternError) return
+		setIsSaving(true)
+		try {
+			const response = await settingsApi.set('directoryPattern', pattern)
+			setSavedPattern(pattern)
+			setError(null)
+			// Saving a new layout queues moving the stored files to it
+			if (response.data.job) {
+				onJobStarted(response.data.job)
+			}
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to save directory layout')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Directory Layout</CardTitle>
+				<CardDescription>Choose the folders receipt files are stored in, one folder per slash.</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{error && <div className="p-3 text-sm rounded-md bg-destructive/10 text-destructive">{error}</div>}
+				<div className="space-y-2">
+					<Label htmlFor="directory-pattern">Pattern</Label>
+					<div className="flex gap-2">
+						<Input
+							id="directory-pattern"
+							placeholder={DEFAULT_DIRECTORY_PATTERN}
+							value={pattern}
+							onChange={e => setPattern(e.target.value)}
+							onKeyDown={e => e.key === 'Enter' && pattern !== savedPattern && handleSave()}
+							className={patternError ? 'border-destructive' : ''}
+						/>
+						<Button
+							variant="outline"
+							onClick={() => setPattern(DEFAULT_DIRECTORY_PATTERN)}
+							title="Reset to default layout"
+							disabled={pattern === DEFAULT_DIRECTORY_PATTERN}
+						>
+							<RotateCcw className="w-4 h-4" />
+						</Button>
+					</div>
+					{patternError && <p className="text-sm text-destructive">{patternError}</p>}
+				</div>
+
+				<div className="p-3 space-y-2 rounded-lg bg-muted">
+					<div className="flex items-start gap-2">
+						<Info className="w-4 h-4 mt-0.5 text-muted-foreground" />
+						<div className="space-y-1 text-sm">
+							<p className="font-medium">Available tokens:</p>
+							<ul className="space-y-1 list-disc list-inside text-muted-foreground">
+								{DIRECTORY_PATTERN_TOKENS.map(({ token, description }) => (
+									<li key={token}>
+										<code className="bg-background px-1 py-0.5 rounded">{`{${token}}`}</code> - {description}
+									</li>
+								))}
+							</ul>
+							<p className="mt-2 text-muted-foreground">
+								<strong>Note:</strong> Files already stored are moved to the new folders in the background after saving, and after
+								renaming receipt types or groups the layout uses. Organize Files moves any that were left behind.
+							</p>
+						</div>
+					</div>
+				</div>
+
+				{!patternError && (
+					<div className="p-3 rounded-lg bg-muted">
+						<p className="mb-1 text-sm font-medium">Preview:</p>
+						<code className="text-sm">{previewDirectoryPattern(pattern)}</code>
+					</div>
+				)}
+
+				<div className="flex flex-col justify-end gap-2 sm:flex-row">
+					<Button
+						variant="outline"
+						onClick={handleOrganize}
+						disabled={isOrganizing || pattern !== savedPattern}
+						title="Move all files to the folders of the saved layout"
+					>
+						<FolderTree className={`w-4 h-4 mr-1 ${isOrganizing ? 'animate-spin' : ''}`} />
+						{isOrganizing ? 'Organizing...' : 'Organize Files'}
+					</Button>
+					<Button onClick={handleSave} disabled={!!patternError || isSaving || pattern === savedPattern} variant="outline">
+						<Save className="w-4 h-4 mr-1" />
+						{isSaving ? 'Saving...' : 'Save Layout'}
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	)
+}
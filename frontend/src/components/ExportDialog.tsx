@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { exportApi, ExportLayout, ExportQuery } from '../lib/api'
+import { EXPORT_LAYOUT_DESCRIPTIONS, EXPORT_LAYOUT_LABELS } from '../lib/exportLayouts'
+import { Download } from 'lucide-react'
+
+// Years offered for tax-year exports, counting back from the current year
+const EXPORT_YEAR_COUNT = 10
+
+interface ExportDialogProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	query: ExportQuery // Receipts to export; a year can be picked unless specific receipts are given
+	description: string
+}
+
+export default function ExportDialog({ open, onOpenChange, query, description }: ExportDialogProps) {
+	const [layout, setLayout] = useState<ExportLayout>('receipt')
+	const [year, setYear] = useState<number | undefined>(undefined)
+	const [loading, setLoading] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const hasIds = query.ids !== undefined && query.ids.length > 0
+	const currentYear = new Date().getFullYear()
+	const years = Array.from({ length: EXPORT_YEAR_COUNT }, (_, i) => currentYear - i)
+
+	useEffect(() => {
+		if (open) {
+			setYear(undefined)
+			setError(null)
+		}
+	}, [open])
+
+	const handleExport = async () => {
+		setLoading(true)
+		setError(null)
+		try {
+			const response = await exportApi.download({ ...query, year: hasIds ? undefined : year, layout })
+			const url = window.URL.createObjectURL(new Blob([response.data]))
+			const link = document.createElement('a')
+			link.href = url
+			link.setAttribute('download', year && !hasIds ? `medstash-export-${year}.zip` : 'medstash-export.zip')
+			document.body.appendChild(link)
+			link.click()
+			link.remove()
+			onOpenChange(false)
+		} catch (err: any) {
+			// The error body of a blob request is a blob too
+			const body = err.response?.data instanceof Blob ? JSON.parse(await err.response.data.text()) : err.response?.data
+			setError(body?.error || 'Failed to export')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-md">
+				<DialogHeader>
+					<DialogTitle>Export Receipts</DialogTitle>
+					<DialogDescription>{description}</DialogDescription>
+				</DialogHeader>
+
+				<div className="py-4 space-y-4">
+					{error && <p className="text-sm text-destructive">{error}</p>}
+
+					{!hasIds && (
+						<div>
+							<Label htmlFor="export-year">Year</Label>
+							<Select
+								value={year?.toString() || 'all'}
+								onValueChange={value => setYear(value === 'all' ? undefined : parseInt(value, 10))}
+							>
+								<SelectTrigger id="export-year">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="all">All years</SelectItem>
+									{years.map(y => (
+										<SelectItem key={y} value={y.toString()}>
+											{y}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					)}
+
+					<div>
+						<Label htmlFor="export-layout">Layout</Label>
+						<Select value={layout} onValueChange={value => setLayout(value as ExportLayout)}>
+							<SelectTrigger id="export-layout">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{(Object.keys(EXPORT_LAYOUT_LABELS) as ExportLayout[]).map(value => (
+									<SelectItem key={value} value={value}>
+										{EXPORT_LAYOUT_LABELS[value]}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<p className="mt-1 text-xs text-muted-foreground">{EXPORT_LAYOUT_DESCRIPTIONS[layout]}</p>
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+						Cancel
+					</Button>
+					<Button onClick={handleExport} disabled={loading}>
+						<Download className="mr-1 size-4" />
+						{loading ? 'Exporting...' : 'Export'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
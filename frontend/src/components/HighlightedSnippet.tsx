@@ -0,0 +1,28 @@
+import { cn } from '../lib/utils'
+
+interface HighlightedSnippetProps {
+	snippet: string
+	className?: string
+}
+
+/**
+ * Render a search snippet, highlighting the <mark>...</mark> sections returned by the search API.
+ * The snippet is split into text nodes rather than injected as HTML.
+ */
+export function HighlightedSnippet({ snippet, className }: HighlightedSnippetProps) {
+	const parts = snippet.split(/(<mark>.*?<\/mark>)/g).filter(part => part !== '')
+
+	return (
+		<span className={cn('text-sm text-muted-foreground', className)}>
+			{parts.map((part, index) =>
+				part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+					<mark key={index} className="px-0.5 rounded bg-yellow-200 text-foreground dark:bg-yellow-700">
+						{part.slice(6, -7)}
+					</mark>
+				) : (
+					<span key={index}>{part}</span>
+				)
+			)}
+		</span>
+	)
+}
@@ -0,0 +1,83 @@
+import React, { useState, useRef } from 'react'
+import { importApi, ImportConflictMode, Job } from '../lib/api'
+import { IMPORT_CONFLICT_MODE_DESCRIPTIONS, IMPORT_CONFLICT_MODE_LABELS } from '../lib/dataImport'
+import { isJobActive } from '../lib/jobs'
+import { useServerEvents } from '../hooks/useServerEvents'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Upload } from 'lucide-react'
+
+/**
+ * Import an export archive, from this or another instance
+ */
+export default function ImportCard({ onJobStarted }: { onJobStarted: (job: Job) => void }) {
+	const [conflict, setConflict] = useState<ImportConflictMode>('skip')
+	const [isImporting, setIsImporting] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+	const archiveInputRef = useRef<HTMLInputElement>(null)
+
+	useServerEvents(['job.updated'], event => {
+		if (event.type !== 'job.updated') return
+		const { job } = event.data
+		if (job.type === 'import-receipts' && job.status === 'completed') {
+			// Users, receipt types, flags and settings may have been added, so load them again
+			window.location.reload()
+		}
+		if (job.type === 'import-receipts' && job.status !== 'completed' && !isJobActive(job)) {
+			setIsImporting(false)
+			if (job.status === 'failed') setError(job.error || 'Failed to import receipts')
+		}
+	})
+
+	const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const archive = e.target.files?.[0]
+		e.target.value = ''
+		if (!archive) return
+
+		setIsImporting(true)
+		try {
+			const response = await importApi.upload(archive, conflict)
+			onJobStarted(response.data)
+			setError(null)
+		} catch (err: any) {
+			setIsImporting(false)
+			setError(err.response?.data?.error || 'Failed to import receipts')
+		}
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Import Data</CardTitle>
+				<CardDescription>
+					Import receipts, files, users, receipt types, flags and settings from an export archive, for example when
+					moving to a new server
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-2">
+				{error && <p className="text-sm text-destructive">{error}</p>}
+				<div className="flex flex-col justify-end gap-2 sm:flex-row">
+					<Select value={conflict} onValueChange={value => setConflict(value as ImportConflictMode)}>
+						<SelectTrigger className="w-full sm:w-36" aria-label="Receipts that are already stored">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{(Object.keys(IMPORT_CONFLICT_MODE_LABELS) as ImportConflictMode[]).map(mode => (
+								<SelectItem key={mode} value={mode}>
+									{IMPORT_CONFLICT_MODE_LABELS[mode]}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<input ref={archiveInputRef} type="file" accept=".zip" className="hidden" onChange={handleImport} />
+					<Button variant="outline" onClick={() => archiveInputRef.current?.click()} disabled={isImporting}>
+						<Upload className="w-4 h-4 mr-1" />
+						{isImporting ? 'Importing...' : 'Import Archive'}
+					</Button>
+				</div>
+				<p className="text-xs text-right text-muted-foreground">{IMPORT_CONFLICT_MODE_DESCRIPTIONS[conflict]}</p>
+			</CardContent>
+		</Card>
+	)
+}
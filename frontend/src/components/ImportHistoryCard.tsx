@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { watchApi, WatchImport } from '../lib/api'
+import { WATCH_IMPORT_STATUS_LABELS } from '../lib/watchFolders'
+import { useServerEvents } from '../hooks/useServerEvents'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useConfirmDialog } from './ConfirmDialog'
+import { Trash2, RotateCcw } from 'lucide-react'
+
+// Import history shows failures by default, since those need attention
+type ImportHistoryFilter = 'problems' | 'all'
+
+/**
+ * Recent watch folder imports, with failed and quarantined ones to retry or discard
+ */
+export default function ImportHistoryCard({ confirm }: { confirm: ReturnType<typeof useConfirmDialog>['confirm'] }) {
+	const navigate = useNavigate()
+	const [imports, setImports] = useState<WatchImport[]>([])
+	const [filter, setFilter] = useState<ImportHistoryFilter>('problems')
+	const [busyImportId, setBusyImportId] = useState<number | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	const loadImports = () =>
+		watchApi
+			.getHistory({ limit: 50 })
+			.then(response => setImports(response.data))
+			.catch(err => setError(err.response?.data?.error || 'Failed to load import history'))
+
+	useEffect(() => {
+		loadImports()
+	}, [])
+
+	useServerEvents(['watch.scan_completed'], () => loadImports())
+
+	const needsAttention = (entry: WatchImport) => entry.status === 'failed' || entry.status === 'quarantined'
+	const visibleImports = filter === 'all' ? imports : imports.filter(needsAttention)
+
+	const replaceImport = (entry: WatchImport) => setImports(current => current.map(i => (i.id === entry.id ? entry : i)))
+
+	const handleRetry = async (entry: WatchImport) => {
+		setBusyImportId(entry.id)
+		try {
+			const response = await watchApi.retryImport(entry.id)
+			replaceImport(response.data)
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to retry import')
+		} finally {
+			setBusyImportId(null)
+		}
+	}
+
+	const handleDiscard = async (entry: WatchImport) => {
+		const confirmed = await confirm({
+			message: `Delete ${entry.files.join(', ')} from the ${entry.status === 'quarantined' ? 'quarantine' : 'watch'} folder? This cannot be undone.`,
+			variant: 'destructive',
+		})
+		if (!confirmed) return
+
+		setBusyImportId(entry.id)
+		try {
+			const response = await watchApi.discardImport(entry.id)
+			replaceImport(response.data)
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to discard import')
+		} finally {
+			setBusyImportId(null)
+		}
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<div className="flex items-center justify-between gap-2">
+					<div>
+						<CardTitle>Import History</CardTitle>
+						<CardDescription>
+							Files imported from watch folders. Files that fail to import are retried on every scan, then moved to a
+							quarantine folder.
+						</CardDescription>
+					</div>
+					<Select value={filter} onValueChange={value => setFilter(value as ImportHistoryFilter)}>
+						<SelectTrigger className="w-36 shrink-0" aria-label="Show imports">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="problems">Failures</SelectItem>
+							<SelectItem value="all">All imports</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+			</CardHeader>
+			<CardContent className="space-y-2">
+				{error && <p className="text-sm text-destructive">{error}</p>}
+				{visibleImports.length === 0 && (
+					<p className="text-sm text-muted-foreground">{filter === 'all' ? 'No imports yet' : 'No failed imports'}</p>
+				)}
+				{visibleImports.map(entry => (
+					<div key={entry.id} className="flex items-center justify-between gap-2 px-3 py-1 border rounded-lg">
+						<div className="flex flex-col min-w-0">
+							<span className="font-mono text-sm truncate">{entry.source_path}</span>
+							<span
+								className={`text-xs truncate ${needsAttention(entry) ? 'text-destructive' : 'text-muted-foreground'}`}
+							>
+								{[
+									WATCH_IMPORT_STATUS_LABELS[entry.status],
+									entry.folder_name,
+									new Date(entry.updated_at.replace(' ', 'T') + 'Z').toLocaleString(),
+									entry.attempts > 1 && `${entry.attempts} attempts`,
+									needsAttention(entry) && entry.error,
+								]
+									.filter(Boolean)
+									.join(' · ')}
+							</span>
+						</div>
+						<div className="flex items-center gap-1 shrink-0">
+							{entry.status === 'imported' && entry.receipt_id !== null && (
+								<Button size="sm" variant="ghost" onClick={() => navigate(`/receipts/${entry.receipt_id}`)}>
+									View Receipt
+								</Button>
+							)}
+							{needsAttention(entry) && (
+								<>
+									<Button
+										size="icon"
+										variant="ghost"
+										onClick={() => handleRetry(entry)}
+										disabled={busyImportId !== null}
+										aria-label={`Retry import of ${entry.source_path}`}
+									>
+										<RotateCcw className="w-4 h-4" />
+									</Button>
+									<Button
+										size="icon"
+										variant="ghost"
+										onClick={() => handleDiscard(entry)}
+										disabled={busyImportId !== null}
+										className="text-destructive hover:text-destructive"
+										aria-label={`Discard import of ${entry.source_path}`}
+									>
+										<Trash2 className="w-4 h-4" />
+									</Button>
+								</>
+							)}
+						</div>
+					</div>
+				))}
+			</CardContent>
+		</Card>
+	)
+}
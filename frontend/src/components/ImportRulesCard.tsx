@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react'
+import { importRulesApi, ImportRule, ImportRuleInput, ImportRuleMatchType, Flag, User, ReceiptType } from '../lib/api'
+import {
+	IMPORT_RULE_MATCH_TYPE_LABELS,
+	IMPORT_RULE_PATTERN_PLACEHOLDERS,
+	describeImportRuleMatch,
+} from '../lib/importRules'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Checkbox } from './ui/checkbox'
+import { FlagBadge } from './FlagBadge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useConfirmDialog } from './ConfirmDialog'
+import { Plus, Trash2, Edit2, Save, X } from 'lucide-react'
+
+// Select value for "don't assign" in the import rule form
+const NONE = '__none__'
+
+const EMPTY_IMPORT_RULE: ImportRuleInput = {
+	name: '',
+	match_type: 'folder',
+	pattern: '',
+	user_id: null,
+	receipt_type_id: null,
+	vendor: null,
+	flag_ids: [],
+	date_from_filename: false,
+	enabled: true,
+}
+
+/**
+ * Rules that fill in receipt fields for watch folder imports
+ */
+export default function ImportRulesCard({
+	users,
+	receiptTypes,
+	flags,
+	confirm,
+}: {
+	users: User[]
+	receiptTypes: ReceiptType[]
+	flags: Flag[]
+	confirm: ReturnType<typeof useConfirmDialog>['confirm']
+}) {
+	const [rules, setRules] = useState<ImportRule[]>([])
+	const [draft, setDraft] = useState<ImportRuleInput>(EMPTY_IMPORT_RULE)
+	const [editingRuleId, setEditingRuleId] = useState<number | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		importRulesApi
+			.getAll()
+			.then(response => setRules(response.data))
+			.catch(err => setError(err.response?.data?.error || 'Failed to load import rules'))
+	}, [])
+
+	const updateDraft = (changes: Partial<ImportRuleInput>) => setDraft(current => ({ ...current, ...changes }))
+
+	const resetDraft = () => {
+		setDraft(EMPTY_IMPORT_RULE)
+		setEditingRuleId(null)
+	}
+
+	const handleSaveRule = async () => {
+		if (!draft.name.trim() || !draft.pattern.trim()) return
+		try {
+			const data = { ...draft, vendor: draft.vendor?.trim() || null }
+			if (editingRuleId !== null) {
+				const response = await importRulesApi.update(editingRuleId, data)
+				setRules(rules.map(r => (r.id === editingRuleId ? response.data : r)))
+			} else {
+				const response = await importRulesApi.create(data)
+				setRules([...rules, response.data])
+			}
+			resetDraft()
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to save import rule')
+		}
+	}
+
+	const handleEditRule = (rule: ImportRule) => {
+		const { id: _id, created_at: _createdAt, ...input } = rule
+		setDraft(input)
+		setEditingRuleId(rule.id)
+	}
+
+	const handleToggleRule = async (rule: ImportRule, enabled: boolean) => {
+		try {
+			const response = await importRulesApi.update(rule.id, { enabled })
+			setRules(rules.map(r => (r.id === rule.id ? response.data : r)))
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to update import rule')
+		}
+	}
+
+	const handleDeleteRule = async (rule: ImportRule) => {
+		const confirmed = await confirm({
+			message: `Are you sure you want to delete the import rule "${rule.name}"?`,
+			variant: 'destructive',
+		})
+		if (!confirmed) return
+
+		try {
+			await importRulesApi.delete(rule.id)
+			setRules(rules.filter(r => r.id !== rule.id))
+			if (editingRuleId === rule.id) {
+				resetDraft()
+			}
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to delete import rule')
+		}
+	}
+
+	// Summary of what a rule assigns, e.g. "User Alice · Vendor CVS · Date from filename"
+	const describeActions = (rule: ImportRule) =>
+		[
+			rule.user_id !== null && `User ${users.find(u => u.id === rule.user_id)?.name ?? 'unknown'}`,
+			rule.receipt_type_id !== null &&
+				`Type ${receiptTypes.find(t => t.id === rule.receipt_type_id)?.name ?? 'unknown'}`,
+			rule.vendor && `Vendor ${rule.vendor}`,
+			rule.flag_ids.length > 0 &&
+				`Flags ${rule.flag_ids.map(id => flags.find(f => f.id === id)?.name ?? 'unknown').join(', ')}`,
+			rule.date_from_filename && 'Date from filename',
+		]
+			.filter(Boolean)
+			.join(' · ')
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Import Rules</CardTitle>
+				<CardDescription>
+					Fill in receipt details for files dropped in the watched folder. Every matching rule applies; when several
+					set the same field, the rule listed first wins.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{error && <p className="text-sm text-destructive">{error}</p>}
+				<div className="p-3 space-y-3 border rounded-lg">
+					<div className="flex flex-col gap-2 sm:flex-row">
+						<Input
+							placeholder="Rule name, e.g. Alice's scans"
+							value={draft.name}
+							onChange={e => updateDraft({ name: e.target.value })}
+							autoComplete="off"
+							className="flex-1"
+							aria-label="Rule name"
+						/>
+						<Select
+							value={draft.match_type}
+							onValueChange={value => updateDraft({ match_type: value as ImportRuleMatchType })}
+						>
+							<SelectTrigger className="w-full sm:w-44" aria-label="Match on">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{(Object.keys(IMPORT_RULE_MATCH_TYPE_LABELS) as ImportRuleMatchType[]).map(matchType => (
+									<SelectItem key={matchType} value={matchType}>
+										{IMPORT_RULE_MATCH_TYPE_LABELS[matchType]}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Input
+							placeholder={IMPORT_RULE_PATTERN_PLACEHOLDERS[draft.match_type]}
+							value={draft.pattern}
+							onChange={e => updateDraft({ pattern: e.target.value })}
+							autoComplete="off"
+							className="flex-1 font-mono"
+							aria-label="Pattern"
+						/>
+					</div>
+					<div className="flex flex-col gap-2 sm:flex-row">
+						<Select
+							value={draft.user_id !== null ? String(draft.user_id) : NONE}
+							onValueChange={value => updateDraft({ user_id: value === NONE ? null : parseInt(value) })}
+						>
+							<SelectTrigger className="w-full sm:w-44" aria-label="Assign user">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={NONE}>Any user</SelectItem>
+								{users.map(user => (
+									<SelectItem key={user.id} value={String(user.id)}>
+										{user.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Select
+							value={draft.receipt_type_id !== null ? String(draft.receipt_type_id) : NONE}
+							onValueChange={value => updateDraft({ receipt_type_id: value === NONE ? null : parseInt(value) })}
+						>
+							<SelectTrigger className="w-full sm:w-52" aria-label="Assign receipt type">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={NONE}>Any type</SelectItem>
+								{receiptTypes.map(type => (
+									<SelectItem key={type.id} value={String(type.id)}>
+										{type.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Input
+							placeholder="Vendor"
+							value={draft.vendor ?? ''}
+							onChange={e => updateDraft({ vendor: e.target.value })}
+							autoComplete="off"
+							className="flex-1"
+							aria-label="Assign vendor"
+						/>
+					</div>
+					{flags.length > 0 && (
+						<div className="flex flex-wrap gap-x-4 gap-y-2">
+							{flags.map(flag => (
+								<div key={flag.id} className="flex items-center gap-2">
+									<Checkbox
+										id={`import-rule-flag-${flag.id}`}
+										checked={draft.flag_ids.includes(flag.id)}
+										onCheckedChange={checked =>
+											updateDraft({
+												flag_ids: checked ? [...draft.flag_ids, flag.id] : draft.flag_ids.filter(id => id !== flag.id),
+											})
+										}
+									/>
+									<Label htmlFor={`import-rule-flag-${flag.id}`} className="font-normal">
+										<FlagBadge flag={flag} />
+									</Label>
+								</div>
+							))}
+						</div>
+					)}
+					<div className="flex flex-col justify-between gap-2 sm:flex-row sm:items-center">
+						<div className="flex items-center gap-2">
+							<Checkbox
+								id="import-rule-date-from-filename"
+								checked={draft.date_from_filename}
+								onCheckedChange={checked => updateDraft({ date_from_filename: checked === true })}
+							/>
+							<Label htmlFor="import-rule-date-from-filename" className="font-normal">
+								Use the date in the filename, e.g. Scan_20240115.pdf
+							</Label>
+						</div>
+						<div className="flex gap-2">
+							{editingRuleId !== null && (
+								<Button variant="outline" onClick={resetDraft}>
+									<X className="w-4 h-4 mr-1" />
+									Cancel
+								</Button>
+							)}
+							<Button onClick={handleSaveRule}>
+								{editingRuleId !== null ? <Save className="w-4 h-4 mr-1" /> : <Plus className="w-4 h-4 mr-1" />}
+								{editingRuleId !== null ? 'Save Rule' : 'Add Rule'}
+							</Button>
+						</div>
+					</div>
+				</div>
+				<div className="space-y-1">
+					{rules.length === 0 && <p className="text-sm text-muted-foreground">No import rules yet</p>}
+					{rules.map(rule => (
+						<div key={rule.id} className="flex items-center justify-between gap-2 px-3 py-1 border rounded-lg">
+							<div className="flex flex-col min-w-0">
+								<span className={`font-medium ${rule.enabled ? '' : 'text-muted-foreground'}`}>{rule.name}</span>
+								<span className="text-xs truncate text-muted-foreground">
+									{describeImportRuleMatch(rule.match_type, rule.pattern)} → {describeActions(rule)}
+								</span>
+							</div>
+							<div className="flex items-center gap-1 shrink-0">
+								<Switch
+									checked={rule.enabled}
+									onCheckedChange={checked => handleToggleRule(rule, checked)}
+									aria-label={`Enable rule ${rule.name}`}
+								/>
+								<Button size="icon" variant="ghost" onClick={() => handleEditRule(rule)} aria-label={`Edit rule ${rule.name}`}>
+									<Edit2 className="w-4 h-4" />
+								</Button>
+								<Button
+									size="icon"
+									variant="ghost"
+									onClick={() => handleDeleteRule(rule)}
+									className="text-destructive hover:text-destructive"
+									aria-label={`Delete rule ${rule.name}`}
+								>
+									<Trash2 className="w-4 h-4" />
+								</Button>
+							</div>
+						</div>
+					))}
+				</div>
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,57 @@
+import { Job } from '../lib/api'
+import { JOB_STATUS_LABELS, JOB_TYPE_LABELS, describeJobResult, isJobActive } from '../lib/jobs'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { X } from 'lucide-react'
+
+/**
+ * Recent background jobs with live progress
+ */
+export default function JobsCard({ jobs, error, onCancel }: { jobs: Job[]; error: string | null; onCancel: (id: number) => void }) {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Background Jobs</CardTitle>
+				<CardDescription>Maintenance tasks run one at a time on the server. You can leave this page while they run.</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-2">
+				{error && <p className="text-sm text-destructive">{error}</p>}
+				{jobs.map(job => {
+					const percent = job.total ? Math.round((job.progress / job.total) * 100) : 0
+					const summary = job.status === 'failed' ? job.error : describeJobResult(job)
+					return (
+						<div key={job.id} className="px-3 py-2 space-y-2 border rounded-lg">
+							<div className="flex items-center justify-between gap-2">
+								<div className="flex flex-col">
+									<span className="font-medium">{JOB_TYPE_LABELS[job.type] ?? job.type}</span>
+									<span className={`text-xs ${job.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+										{job.cancel_requested && job.status === 'running' ? 'Cancelling...' : JOB_STATUS_LABELS[job.status]}
+										{job.status === 'running' && job.total ? ` · ${job.progress} of ${job.total}` : ''}
+										{summary ? ` · ${summary}` : ''}
+									</span>
+								</div>
+								{isJobActive(job) && !job.cancel_requested && (
+									<Button size="sm" variant="outline" onClick={() => onCancel(job.id)} aria-label={`Cancel ${JOB_TYPE_LABELS[job.type]}`}>
+										<X className="w-4 h-4 mr-1" />
+										Cancel
+									</Button>
+								)}
+							</div>
+							{job.status === 'running' && (
+								<div
+									className="w-full h-2 overflow-hidden rounded-full bg-muted"
+									role="progressbar"
+									aria-valuenow={percent}
+									aria-valuemin={0}
+									aria-valuemax={100}
+								>
+									<div className="h-full transition-all bg-primary" style={{ width: `${percent}%` }} />
+								</div>
+							)}
+						</div>
+					)
+				})}
+			</CardContent>
+		</Card>
+	)
+}
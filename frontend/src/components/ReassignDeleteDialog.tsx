@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ReceiptUsage } from '../lib/api'
+import { Trash2 } from 'lucide-react'
+
+interface ReassignDeleteDialogProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	entityLabel: string // "user" or "receipt type"
+	entity: { id: number; name: string } | null
+	targets: Array<{ id: number; name: string }> // Where receipts can be moved, excluding the entity itself
+	loadUsage: (id: number) => Promise<ReceiptUsage>
+	onDelete: (id: number, reassignTo?: number) => Promise<void>
+}
+
+/**
+ * Delete a user or receipt type, first choosing where its receipts go when it still has any
+ */
+export default function ReassignDeleteDialog({
+	open,
+	onOpenChange,
+	entityLabel,
+	entity,
+	targets,
+	loadUsage,
+	onDelete,
+}: ReassignDeleteDialogProps) {
+	const [usage, setUsage] = useState<ReceiptUsage | null>(null)
+	const [reassignTo, setReassignTo] = useState<number | undefined>(undefined)
+	const [deleting, setDeleting] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		if (!open || !entity) return
+		setUsage(null)
+		setReassignTo(undefined)
+		setError(null)
+		loadUsage(entity.id)
+			.then(setUsage)
+			.catch((err: any) => setError(err.response?.data?.error || `Failed to check which receipts use this ${entityLabel}`))
+	}, [open, entity])
+
+	const receiptCount = usage ? usage.receipts + usage.trashed_receipts : 0
+	const needsTarget = receiptCount > 0
+
+	const handleDelete = async () => {
+		if (!entity) return
+		setDeleting(true)
+		setError(null)
+		try {
+			await onDelete(entity.id, needsTarget ? reassignTo : undefined)
+			onOpenChange(false)
+		} catch (err: any) {
+			setError(err.response?.data?.error || `Failed to delete ${entityLabel}`)
+		} finally {
+			setDeleting(false)
+		}
+	}
+
+	const describeUsage = () => {
+		if (!usage) return 'Checking which receipts use it...'
+		if (!needsTarget) return `No receipts use this ${entityLabel}, so it can be deleted right away.`
+		const trashed = usage.trashed_receipts > 0 ? ` (${usage.trashed_receipts} of them in the trash)` : ''
+		return `${receiptCount} receipt(s)${trashed} use this ${entityLabel}. Choose where to move them; their files are renamed to match, and watch folders and import rules move along.`
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-md">
+				<DialogHeader>
+					<DialogTitle>Delete {entity?.name}</DialogTitle>
+					<DialogDescription>{describeUsage()}</DialogDescription>
+				</DialogHeader>
+
+				<div className="py-4 space-y-4">
+					{error && <p className="text-sm text-destructive">{error}</p>}
+
+					{needsTarget &&
+						(targets.length === 0 ? (
+							<p className="text-sm text-muted-foreground">
+								Add another {entityLabel} first so these receipts have somewhere to go.
+							</p>
+						) : (
+							<div>
+								<Label htmlFor="reassign-target">Move receipts to</Label>
+								<Select
+									value={reassignTo?.toString()}
+									onValueChange={value => setReassignTo(parseInt(value, 10))}
+								>
+									<SelectTrigger id="reassign-target">
+										<SelectValue placeholder={`Choose a ${entityLabel}`} />
+									</SelectTrigger>
+									<SelectContent>
+										{targets.map(target => (
+											<SelectItem key={target.id} value={target.id.toString()}>
+												{target.name}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+						))}
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)} disabled={deleting}>
+						Cancel
+					</Button>
+					<Button
+						variant="destructive"
+						onClick={handleDelete}
+						disabled={deleting || !usage || (needsTarget && reassignTo === undefined)}
+					>
+						<Trash2 className="mr-1 size-4" />
+						{deleting ? 'Deleting...' : needsTarget ? `Move ${receiptCount} Receipt(s) and Delete` : 'Delete'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
@@ -1,3 +1,4 @@
+import { useState } from 'react'
 import { Receipt } from '../lib/api'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
@@ -11,6 +12,10 @@ interface ReceiptCardProps {
 }
 
 export default function ReceiptCard({ receipt, onDelete, onDownloadFile }: ReceiptCardProps) {
+	const [failedThumbnails, setFailedThumbnails] = useState<Set<number>>(new Set())
+	// Use VITE_API_URL if set, otherwise use relative path (for Vite proxy)
+	const apiBase = import.meta.env.VITE_API_URL || '/api'
+
 	const formatDate = (dateString: string) => {
 		// Parse date as local date to avoid timezone issues
 		// If dateString is in YYYY-MM-DD format, parse it as local date
@@ -89,8 +94,18 @@ export default function ReceiptCard({ receipt, onDelete, onDownloadFile }: Recei
 						<div className="space-y-2">
 							{receipt.files.map(file => {
 								const filenameChanged = file.filename !== file.original_filename
+								const showThumbnail = /\.(jpg|jpeg|png|webp|pdf)$/i.test(file.original_filename) && !failedThumbnails.has(file.id)
 								return (
-									<div key={file.id} className="flex items-center justify-between p-2 rounded bg-muted">
+									<div key={file.id} className="flex items-center justify-between gap-2 p-2 rounded bg-muted">
+										{showThumbnail && (
+											<img
+												src={`${apiBase}/receipts/${receipt.id}/files/${file.id}?size=thumb`}
+												alt={`Preview of ${file.original_filename}`}
+												loading="lazy"
+												className="flex-shrink-0 object-cover object-top w-12 h-16 border rounded bg-background"
+												onError={() => setFailedThumbnails(prev => new Set(prev).add(file.id))}
+											/>
+										)}
 										<div className="flex flex-col flex-1 min-w-0 gap-1">
 											<div className="flex items-center gap-2">
 												<File className="flex-shrink-0 w-4 h-4" />
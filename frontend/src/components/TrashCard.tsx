@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react'
+import { settingsApi } from '../lib/api'
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../lib/defaults'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { useToast } from './ui/use-toast'
+import { Save } from 'lucide-react'
+
+/**
+ * How long deleted receipts and files stay in the trash before they are removed for good
+ */
+export default function TrashCard() {
+	const { toast } = useToast()
+	const [retentionDays, setRetentionDays] = useState('')
+	const [savedRetentionDays, setSavedRetentionDays] = useState('')
+	const [isSaving, setIsSaving] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		settingsApi
+			.get('trashRetentionDays')
+			.then(response => String(response.data.value))
+			// Not set yet, so the server default applies
+			.catch(() => String(DEFAULT_TRASH_RETENTION_DAYS))
+			.then(days => {
+				setRetentionDays(days)
+				setSavedRetentionDays(days)
+			})
+	}, [])
+
+	const handleSave = async () => {
+		setIsSaving(true)
+		try {
+			const response = await settingsApi.set('trashRetentionDays', Number(retentionDays))
+			setSavedRetentionDays(String(response.data.value))
+			setError(null)
+			toast({
+				title: 'Trash setting saved',
+				description:
+					response.data.value === 0
+						? 'Deleted items stay in the trash until they are deleted for good'
+						: `Deleted items are removed for good after ${response.data.value} day(s)`,
+			})
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to save trash setting')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Trash</CardTitle>
+				<CardDescription>
+					Deleted receipts and files are kept in the trash so they can be restored, then removed for good after this many
+					days. Use 0 to keep them until they are deleted by hand.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{error && <div className="p-3 text-sm rounded-md bg-destructive/10 text-destructive">{error}</div>}
+				<div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+					<div className="space-y-2">
+						<Label htmlFor="trash-retention-days">Days in Trash</Label>
+						<Input
+							id="trash-retention-days"
+							type="number"
+							min={0}
+							step={1}
+							className="w-32"
+							value={retentionDays}
+							onChange={e => setRetentionDays(e.target.value)}
+						/>
+					</div>
+					<Button onClick={handleSave} disabled={isSaving || retentionDays === '' || retentionDays === savedRetentionDays}>
+						<Save className="w-4 h-4 mr-1" />
+						{isSaving ? 'Saving...' : 'Save'}
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,336 @@
+import { useState, useEffect } from 'react'
+import {
+	watchApi,
+	ProcessedFileAction,
+	WatchFolder,
+	WatchFolderInput,
+	WatchFolderStatus,
+	WatchStatus,
+	Flag,
+	User,
+	ReceiptType,
+} from '../lib/api'
+import { PROCESSED_FILE_ACTION_LABELS } from '../lib/watchFolders'
+import { useServerEvents } from '../hooks/useServerEvents'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Checkbox } from './ui/checkbox'
+import { FlagBadge } from './FlagBadge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useConfirmDialog } from './ConfirmDialog'
+import { Plus, Trash2, Edit2, Save, X, RefreshCw } from 'lucide-react'
+
+// Select value for "don't assign" in the watch folder form
+const NONE = '__none__'
+
+const EMPTY_WATCH_FOLDER: WatchFolderInput = {
+	name: '',
+	path: '',
+	interval_minutes: null,
+	user_id: null,
+	receipt_type_id: null,
+	flag_ids: [],
+	processed_action: 'move',
+	enabled: true,
+}
+
+/**
+ * Folders the watch service imports receipts from, with their defaults and scan status
+ */
+export default function WatchFoldersSection({
+	users,
+	receiptTypes,
+	flags,
+	confirm,
+}: {
+	users: User[]
+	receiptTypes: ReceiptType[]
+	flags: Flag[]
+	confirm: ReturnType<typeof useConfirmDialog>['confirm']
+}) {
+	const [folders, setFolders] = useState<WatchFolder[]>([])
+	const [status, setStatus] = useState<WatchStatus | null>(null)
+	const [draft, setDraft] = useState<WatchFolderInput>(EMPTY_WATCH_FOLDER)
+	const [editingFolderId, setEditingFolderId] = useState<number | null>(null)
+	const [scanningFolderId, setScanningFolderId] = useState<number | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	const loadStatus = () =>
+		watchApi
+			.getStatus()
+			.then(response => setStatus(response.data))
+			.catch(err => console.error('Failed to load watch status:', err))
+
+	useEffect(() => {
+		watchApi
+			.getFolders()
+			.then(response => setFolders(response.data))
+			.catch(err => setError(err.response?.data?.error || 'Failed to load watch folders'))
+		loadStatus()
+	}, [])
+
+	useServerEvents(['watch.scan_started', 'watch.scan_completed'], () => loadStatus())
+
+	const updateDraft = (changes: Partial<WatchFolderInput>) => setDraft(current => ({ ...current, ...changes }))
+
+	const resetDraft = () => {
+		setDraft(EMPTY_WATCH_FOLDER)
+		setEditingFolderId(null)
+	}
+
+	// Folder changes restart watching on the server, so the status is reloaded with them
+	const applyFolder = (folder: WatchFolder) => {
+		setFolders(current =>
+			current.some(f => f.id === folder.id) ? current.map(f => (f.id === folder.id ? folder : f)) : [...current, folder]
+		)
+		loadStatus()
+	}
+
+	const handleSaveFolder = async () => {
+		if (!draft.name.trim()) return
+		try {
+			const data = { ...draft, path: draft.path?.trim() || null }
+			const response =
+				editingFolderId !== null ? await watchApi.updateFolder(editingFolderId, data) : await watchApi.createFolder(data)
+			applyFolder(response.data)
+			resetDraft()
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to save watch folder')
+		}
+	}
+
+	const handleEditFolder = (folder: WatchFolder) => {
+		const { id: _id, created_at: _createdAt, ...input } = folder
+		setDraft({ ...input, path: input.path ?? '' })
+		setEditingFolderId(folder.id)
+	}
+
+	const handleToggleFolder = async (folder: WatchFolder, enabled: boolean) => {
+		try {
+			const response = await watchApi.updateFolder(folder.id, { enabled })
+			applyFolder(response.data)
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to update watch folder')
+		}
+	}
+
+	const handleScanFolder = async (folder: WatchFolder) => {
+		setScanningFolderId(folder.id)
+		try {
+			const response = await watchApi.triggerScan(folder.id)
+			setStatus(response.data.status)
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to scan watch folder')
+		} finally {
+			setScanningFolderId(null)
+		}
+	}
+
+	const handleDeleteFolder = async (folder: WatchFolder) => {
+		const confirmed = await confirm({
+			message: `Are you sure you want to stop watching "${folder.name}"? Files in the folder are left alone.`,
+			variant: 'destructive',
+		})
+		if (!confirmed) return
+
+		try {
+			await watchApi.deleteFolder(folder.id)
+			setFolders(folders.filter(f => f.id !== folder.id))
+			if (editingFolderId === folder.id) {
+				resetDraft()
+			}
+			loadStatus()
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to delete watch folder')
+		}
+	}
+
+	// Summary of a folder's settings, e.g. "Every 30 min · Leave in place · User Alice"
+	const describeFolder = (folder: WatchFolder, folderStatus?: WatchFolderStatus) =>
+		[
+			folderStatus && `Every ${Math.round(folderStatus.interval / 60000)} min`,
+			PROCESSED_FILE_ACTION_LABELS[folder.processed_action],
+			folder.user_id !== null && `User ${users.find(u => u.id === folder.user_id)?.name ?? 'unknown'}`,
+			folder.receipt_type_id !== null &&
+				`Type ${receiptTypes.find(t => t.id === folder.receipt_type_id)?.name ?? 'unknown'}`,
+			folder.flag_ids.length > 0 &&
+				`Flags ${folder.flag_ids.map(id => flags.find(f => f.id === id)?.name ?? 'unknown').join(', ')}`,
+			folderStatus?.isScanning
+				? 'Scanning...'
+				: folderStatus?.lastScan && `Last scan ${new Date(folderStatus.lastScan).toLocaleString()}`,
+		]
+			.filter(Boolean)
+			.join(' · ')
+
+	return (
+		<div className="space-y-4">
+			{error && <p className="text-sm text-destructive">{error}</p>}
+			<div className="space-y-1">
+				{folders.length === 0 && <p className="text-sm text-muted-foreground">No watch folders yet</p>}
+				{folders.map(folder => {
+					const folderStatus = status?.folders.find(f => f.id === folder.id)
+					return (
+						<div key={folder.id} className="flex items-center justify-between gap-2 px-3 py-1 border rounded-lg">
+							<div className="flex flex-col min-w-0">
+								<span className={`font-medium ${folder.enabled ? '' : 'text-muted-foreground'}`}>{folder.name}</span>
+								<span className="font-mono text-xs truncate text-muted-foreground">
+									{folderStatus?.path ?? folder.path ?? status?.watchFolder}
+								</span>
+								<span className="text-xs truncate text-muted-foreground">{describeFolder(folder, folderStatus)}</span>
+							</div>
+							<div className="flex items-center gap-1 shrink-0">
+								<Switch
+									checked={folder.enabled}
+									onCheckedChange={checked => handleToggleFolder(folder, checked)}
+									aria-label={`Enable folder ${folder.name}`}
+								/>
+								<Button
+									size="icon"
+									variant="ghost"
+									onClick={() => handleScanFolder(folder)}
+									disabled={scanningFolderId !== null}
+									aria-label={`Scan folder ${folder.name}`}
+								>
+									<RefreshCw className={`w-4 h-4 ${scanningFolderId === folder.id ? 'animate-spin' : ''}`} />
+								</Button>
+								<Button
+									size="icon"
+									variant="ghost"
+									onClick={() => handleEditFolder(folder)}
+									aria-label={`Edit folder ${folder.name}`}
+								>
+									<Edit2 className="w-4 h-4" />
+								</Button>
+								<Button
+									size="icon"
+									variant="ghost"
+									onClick={() => handleDeleteFolder(folder)}
+									className="text-destructive hover:text-destructive"
+									aria-label={`Delete folder ${folder.name}`}
+								>
+									<Trash2 className="w-4 h-4" />
+								</Button>
+							</div>
+						</div>
+					)
+				})}
+			</div>
+			<div className="p-3 space-y-3 border rounded-lg">
+				<div className="flex flex-col gap-2 sm:flex-row">
+					<Input
+						placeholder="Folder name, e.g. Scanner"
+						value={draft.name}
+						onChange={e => updateDraft({ name: e.target.value })}
+						autoComplete="off"
+						className="sm:w-44"
+						aria-label="Folder name"
+					/>
+					<Input
+						placeholder={status ? `Path, default ${status.watchFolder}` : 'Path'}
+						value={draft.path ?? ''}
+						onChange={e => updateDraft({ path: e.target.value })}
+						autoComplete="off"
+						className="flex-1 font-mono"
+						aria-label="Folder path"
+					/>
+					<Input
+						type="number"
+						min={1}
+						placeholder={status ? `${Math.round(status.interval / 60000)} min` : 'Minutes'}
+						value={draft.interval_minutes ?? ''}
+						onChange={e => updateDraft({ interval_minutes: e.target.value ? parseInt(e.target.value) : null })}
+						className="sm:w-28"
+						aria-label="Scan interval in minutes"
+					/>
+				</div>
+				<div className="flex flex-col gap-2 sm:flex-row">
+					<Select
+						value={draft.user_id !== null ? String(draft.user_id) : NONE}
+						onValueChange={value => updateDraft({ user_id: value === NONE ? null : parseInt(value) })}
+					>
+						<SelectTrigger className="w-full sm:w-44" aria-label="Default user">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={NONE}>Unknown user</SelectItem>
+							{users.map(user => (
+								<SelectItem key={user.id} value={String(user.id)}>
+									{user.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Select
+						value={draft.receipt_type_id !== null ? String(draft.receipt_type_id) : NONE}
+						onValueChange={value => updateDraft({ receipt_type_id: value === NONE ? null : parseInt(value) })}
+					>
+						<SelectTrigger className="w-full sm:w-52" aria-label="Default receipt type">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={NONE}>Other</SelectItem>
+							{receiptTypes.map(type => (
+								<SelectItem key={type.id} value={String(type.id)}>
+									{type.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Select
+						value={draft.processed_action}
+						onValueChange={value => updateDraft({ processed_action: value as ProcessedFileAction })}
+					>
+						<SelectTrigger className="w-full sm:flex-1" aria-label="After import">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{(Object.keys(PROCESSED_FILE_ACTION_LABELS) as ProcessedFileAction[]).map(action => (
+								<SelectItem key={action} value={action}>
+									{PROCESSED_FILE_ACTION_LABELS[action]}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				{flags.length > 0 && (
+					<div className="flex flex-wrap gap-x-4 gap-y-2">
+						{flags.map(flag => (
+							<div key={flag.id} className="flex items-center gap-2">
+								<Checkbox
+									id={`watch-folder-flag-${flag.id}`}
+									checked={draft.flag_ids.includes(flag.id)}
+									onCheckedChange={checked =>
+										updateDraft({
+											flag_ids: checked ? [...draft.flag_ids, flag.id] : draft.flag_ids.filter(id => id !== flag.id),
+										})
+									}
+								/>
+								<Label htmlFor={`watch-folder-flag-${flag.id}`} className="font-normal">
+									<FlagBadge flag={flag} />
+								</Label>
+							</div>
+						))}
+					</div>
+				)}
+				<div className="flex justify-end gap-2">
+					{editingFolderId !== null && (
+						<Button variant="outline" onClick={resetDraft}>
+							<X className="w-4 h-4 mr-1" />
+							Cancel
+						</Button>
+					)}
+					<Button onClick={handleSaveFolder}>
+						{editingFolderId !== null ? <Save className="w-4 h-4 mr-1" /> : <Plus className="w-4 h-4 mr-1" />}
+						{editingFolderId !== null ? 'Save Folder' : 'Add Folder'}
+					</Button>
+				</div>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,63 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import { Account, AuthStatus, authApi, setUnauthorizedHandler } from '../lib/api'
+
+interface AuthContextType {
+	status: AuthStatus | null // null while the status is loading
+	isAdmin: boolean // Can manage accounts and settings (always true when auth is disabled)
+	canEdit: boolean // Can add and edit receipts (false for viewer accounts)
+	completeLogin: (account: Account) => void
+	logout: () => Promise<void>
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined)
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+	const [status, setStatus] = useState<AuthStatus | null>(null)
+
+	useEffect(() => {
+		authApi
+			.getStatus()
+			.then(response => setStatus(response.data))
+			.catch(err => {
+				// Network errors are shown by the API error handler; otherwise treat auth as disabled
+				console.error('Failed to load auth status:', err)
+				setStatus({ enabled: false, authenticated: true, needs_setup: false, account: null })
+			})
+	}, [])
+
+	// Drop back to the login page whenever the API reports the session has ended
+	useEffect(() => {
+		setUnauthorizedHandler(() => {
+			setStatus(prev => (prev && prev.enabled ? { ...prev, authenticated: false, account: null } : prev))
+		})
+		return () => setUnauthorizedHandler(null)
+	}, [])
+
+	const completeLogin = useCallback((account: Account) => {
+		setStatus(prev => ({ ...prev, enabled: true, needs_setup: false, authenticated: true, account }))
+	}, [])
+
+	const logout = useCallback(async () => {
+		try {
+			await authApi.logout()
+		} finally {
+			setStatus(prev => (prev ? { ...prev, authenticated: false, account: null } : prev))
+		}
+	}, [])
+
+	const role = status?.enabled ? status.account?.role : undefined
+	const isAdmin = !status?.enabled || role === 'admin'
+	const canEdit = isAdmin || role === 'editor'
+
+	return (
+		<AuthContext.Provider value={{ status, isAdmin, canEdit, completeLogin, logout }}>{children}</AuthContext.Provider>
+	)
+}
+
+export function useAuthContext() {
+	const context = useContext(AuthContext)
+	if (context === undefined) {
+		throw new Error('useAuthContext must be used within an AuthProvider')
+	}
+	return context
+}
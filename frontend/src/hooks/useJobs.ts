@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Job, jobsApi } from '../lib/api'
+import { useServerEvents } from './useServerEvents'
+
+/**
+ * Load recent background jobs and keep them up to date from server events
+ */
+export function useJobs(enabled = true) {
+	const [jobs, setJobs] = useState<Job[]>([])
+	const [error, setError] = useState<string | null>(null)
+
+	const refresh = useCallback(async () => {
+		try {
+			const response = await jobsApi.getAll()
+			setJobs(response.data)
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to load jobs')
+		}
+	}, [])
+
+	useEffect(() => {
+		if (enabled) {
+			refresh()
+		}
+	}, [enabled, refresh])
+
+	// Add or replace a job, keeping the newest first
+	const addJob = useCallback((job: Job) => {
+		setJobs(current => [job, ...current.filter(j => j.id !== job.id)].sort((a, b) => b.id - a.id))
+	}, [])
+
+	useServerEvents(
+		['job.updated'],
+		event => {
+			if (event.type === 'job.updated') {
+				addJob(event.data.job)
+			}
+		},
+		enabled
+	)
+
+	const cancelJob = useCallback(async (id: number) => {
+		try {
+			const response = await jobsApi.cancel(id)
+			setJobs(current => current.map(j => (j.id === id ? response.data : j)))
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to cancel job')
+		}
+	}, [])
+
+	return { jobs, error, addJob, cancelJob, refresh }
+}
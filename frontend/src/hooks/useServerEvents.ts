@@ -0,0 +1,22 @@
+import { useEffect, useRef } from 'react'
+import { ServerEvent, ServerEventType, subscribeToServerEvents } from '../lib/events'
+
+/**
+ * Call a handler for server events of the given types while the component is mounted
+ * The handler can change between renders without reconnecting
+ */
+export function useServerEvents(types: ServerEventType[], handler: (event: ServerEvent) => void, enabled = true) {
+	const handlerRef = useRef(handler)
+	handlerRef.current = handler
+	const typesKey = types.join(',')
+
+	useEffect(() => {
+		if (!enabled) return
+		const wanted = new Set(typesKey.split(','))
+		return subscribeToServerEvents(event => {
+			if (wanted.has(event.type)) {
+				handlerRef.current(event)
+			}
+		})
+	}, [typesKey, enabled])
+}
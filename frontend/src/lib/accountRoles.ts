@@ -0,0 +1,19 @@
+import type { AccountRole } from './api'
+
+/**
+ * Display labels for login account roles, from most to least access
+ */
+export const ACCOUNT_ROLE_LABELS: Record<AccountRole, string> = {
+	admin: 'Admin',
+	editor: 'Editor',
+	viewer: 'Viewer',
+}
+
+/**
+ * What each role can do, shown when picking a role
+ */
+export const ACCOUNT_ROLE_DESCRIPTIONS: Record<AccountRole, string> = {
+	admin: 'Sees all receipts and manages accounts and settings',
+	editor: 'Adds and edits receipts of the selected users',
+	viewer: 'Views receipts of the selected users',
+}
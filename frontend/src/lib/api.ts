@@ -5,6 +5,7 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
 
 const api = axios.create({
 	baseURL: API_BASE_URL,
+	withCredentials: true, // Send the session cookie when authentication is enabled
 })
 
 // Error handler that can be set from outside
@@ -14,6 +15,13 @@ export function setApiErrorHandler(handler: (type: ErrorType, message?: string)
 	errorHandler = handler
 }
 
+// Called when the API rejects a request because the session is missing or expired
+let unauthorizedHandler: (() => void) | null = null
+
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+	unauthorizedHandler = handler
+}
+
 // Helper to detect error type
 function detectErrorType(error: AxiosError): ErrorType {
 	// CORS errors typically have no response and network error
@@ -52,6 +60,11 @@ api.interceptors.response.use(
 		// Only handle critical errors that should show the error page
 		const errorType = detectErrorType(error)
 
+		// Session expired or logged out elsewhere - send the user back to the login page
+		if (error.response?.status === 401 && !error.config?.url?.startsWith('/auth/') && unauthorizedHandler) {
+			unauthorizedHandler()
+		}
+
 		// CORS and network errors are critical and should show error page
 		if (errorType === 'cors' || errorType === 'network') {
 			const message = error.response?.data
@@ -77,6 +90,169 @@ export interface User {
 	created_at: string
 }
 
+// Receipts that reference a user or receipt type and have to be moved before it can be deleted
+export interface ReceiptUsage {
+	receipts: number
+	trashed_receipts: number
+}
+
+export type AccountRole = 'admin' | 'editor' | 'viewer'
+
+// Login account (separate from User, which labels whose receipt it is)
+export interface Account {
+	id: number
+	username: string
+	role: AccountRole
+	user_ids: number[] // Users whose receipts the account can access (admins can access all)
+	created_at: string
+	last_login_at?: string | null
+}
+
+export interface AuthStatus {
+	enabled: boolean
+	authenticated: boolean
+	needs_setup: boolean // true when auth is enabled but no account exists yet
+	account: Account | null
+}
+
+export interface AccountCredentials {
+	username: string
+	password: string
+}
+
+export interface AccountAccess {
+	role: AccountRole
+	user_ids: number[]
+}
+
+export type ApiTokenScope = 'read' | 'upload' | 'full'
+
+// Personal API token for scripts and shortcuts, sent as an Authorization: Bearer header
+export interface ApiToken {
+	id: number
+	account_id: number
+	name: string
+	token_prefix: string // First characters of the token, to tell tokens apart
+	scope: ApiTokenScope
+	created_at: string
+	last_used_at: string | null
+}
+
+// Returned once when a token is created; the full token can't be retrieved later
+export interface CreatedApiToken extends ApiToken {
+	token: string
+}
+
+export type JobType =
+	| 'optimize-images'
+	| 'reoptimize-images'
+	| 'rename-files'
+	| 'migrate-files'
+	| 'hash-files'
+	| 'create-backup'
+	| 'restore-backup'
+	| 'import-receipts'
+	| 'purge-trash'
+	| 'relocate-user-files'
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+// Long-running maintenance operation, run one at a time in the background
+export interface Job {
+	id: number
+	type: JobType
+	status: JobStatus
+	params: Record<string, unknown> | null
+	progress: number
+	total: number | null // Unknown until the job has started
+	result: Record<string, any> | null // Summary returned by the operation once completed
+	error: string | null
+	cancel_requested: boolean
+	account_id: number | null
+	created_at: string
+	started_at: string | null
+	finished_at: string | null
+}
+
+export type ImportRuleMatchType = 'folder' | 'filename' | 'text'
+
+// Fills in receipt fields for watch folder imports that match it
+export interface ImportRule {
+	id: number
+	name: string
+	match_type: ImportRuleMatchType
+	pattern: string
+	user_id: number | null
+	receipt_type_id: number | null
+	vendor: string | null
+	flag_ids: number[]
+	date_from_filename: boolean
+	enabled: boolean
+	created_at: string
+}
+
+export type ImportRuleInput = Omit<ImportRule, 'id' | 'created_at'>
+
+export type ProcessedFileAction = 'move' | 'delete' | 'leave'
+
+// Folder the watch service imports receipts from
+export interface WatchFolder {
+	id: number
+	name: string
+	path: string | null // null uses the server's WATCH_FOLDER
+	interval_minutes: number | null // null uses the server's WATCH_INTERVAL
+	user_id: number | null
+	receipt_type_id: number | null
+	flag_ids: number[]
+	processed_action: ProcessedFileAction
+	enabled: boolean
+	created_at: string
+}
+
+export type WatchFolderInput = Omit<WatchFolder, 'id' | 'created_at'>
+
+export interface WatchFolderStatus {
+	id: number
+	name: string
+	path: string
+	enabled: boolean // Whether the folder is currently being watched
+	mode: 'events' | 'poll'
+	interval: number
+	lastScan?: string
+	nextScan?: string
+	isScanning: boolean
+}
+
+export type WatchImportStatus = 'imported' | 'failed' | 'quarantined' | 'discarded'
+
+// Outcome of importing a file, or a subfolder of files, from a watch folder
+export interface WatchImport {
+	id: number
+	folder_id: number | null
+	folder_name: string | null
+	source_path: string
+	files: string[]
+	receipt_id: number | null
+	status: WatchImportStatus
+	error: string | null
+	attempts: number
+	quarantine_path: string | null
+	created_at: string
+	updated_at: string
+}
+
+export interface WatchStatus {
+	enabled: boolean
+	watchFolder: string
+	mode: 'events' | 'poll'
+	interval: number
+	stabilitySeconds: number
+	lastScan?: string
+	nextScan?: string
+	isScanning: boolean
+	folders: WatchFolderStatus[]
+}
+
 export interface ReceiptTypeGroup {
 	id: number
 	name: string
@@ -95,6 +271,8 @@ export interface ReceiptType {
 	group_display_order?: number
 }
 
+export type ReimbursementStatus = 'unreimbursed' | 'partial' | 'reimbursed'
+
 export interface Receipt {
 	id: number
 	user_id: number
@@ -107,8 +285,13 @@ export interface Receipt {
 	description: string
 	date: string
 	notes?: string
+	reimbursement_status: ReimbursementStatus
+	reimbursed_date?: string | null
+	reimbursed_amount?: number | null
+	hsa_transaction_ref?: string | null
 	created_at: string
 	updated_at: string
+	deleted_at?: string | null // Set while the receipt is in the trash
 	files: ReceiptFile[]
 	flags: Flag[]
 }
@@ -122,8 +305,110 @@ export interface ReceiptFile {
 	created_at: string
 	is_optimized?: number // 0 = false, 1 = true (SQLite boolean)
 	optimized_at?: string | null // Timestamp when optimized
+	extracted_text?: string | null // Raw OCR or PDF text, null until the file has been processed
+	text_source?: TextSource | null
+	content_hash?: string | null // SHA-256 of the uploaded file, null until fingerprinted
+	perceptual_hash?: string | null // Difference hash of image files
+	deleted_at?: string | null // Set while the file is in the trash
+}
+
+// created/updated/deleted/restored/purged: the receipt itself, file_*: one of its files
+// deleted and file_removed move things to the trash; purged deletes them for good
+export type ReceiptHistoryAction =
+	| 'created'
+	| 'updated'
+	| 'deleted'
+	| 'restored'
+	| 'purged'
+	| 'file_added'
+	| 'file_removed'
+	| 'file_restored'
+	| 'file_replaced'
+	| 'file_renamed'
+
+// user: the web app or an API token, watch: a watch folder import, job: a background job
+export type HistorySource = 'user' | 'watch' | 'job' | 'system'
+
+export interface FieldChange {
+	old: unknown
+	new: unknown
 }
 
+export interface ReceiptHistoryEntry {
+	id: number
+	receipt_id: number
+	action: ReceiptHistoryAction
+	file_id: number | null
+	changes: Record<string, FieldChange> // user, type and flags are stored by name
+	source: HistorySource
+	detail: string | null // API token name, watch folder or job type
+	account_id: number | null
+	account_name: string | null
+	reverted_entry_id: number | null // Set when the change put back a value from an earlier entry
+	created_at: string
+}
+
+export type DuplicateReason = 'identical_file' | 'similar_image' | 'same_details'
+
+// An existing receipt file that matches an uploaded file
+export interface DuplicateMatch {
+	receipt_id: number
+	file_id: number
+	original_filename: string
+	reason: Exclude<DuplicateReason, 'same_details'>
+}
+
+// Two receipts that are likely the same, for review
+export interface DuplicatePair {
+	receipts: [Receipt, Receipt]
+	reasons: DuplicateReason[]
+}
+
+// Receipt returned by an upload, with the receipts it may duplicate
+export type UploadedReceipt = Receipt & { possible_duplicates?: DuplicateMatch[] }
+
+// manual: created from the settings page, scheduled: created every BACKUP_INTERVAL_HOURS,
+// pre-restore: the state before a restore, uploaded: an archive uploaded to be restored
+export type BackupKind = 'manual' | 'scheduled' | 'pre-restore' | 'uploaded'
+
+export interface Backup {
+	name: string
+	kind: BackupKind
+	size: number // Bytes
+	created_at: string
+}
+
+export interface BackupList {
+	directory: string
+	interval_hours: number // 0 when scheduled backups are off
+	keep: number // Number of scheduled backups kept
+	backups: Backup[]
+}
+
+// A file deleted on its own while its receipt is still in use
+export interface TrashedFile extends ReceiptFile {
+	receipt: Pick<Receipt, 'id' | 'user' | 'type' | 'vendor' | 'date' | 'amount'>
+}
+
+export interface TrashContents {
+	receipts: Receipt[]
+	files: TrashedFile[]
+	retention_days: number // Days before items are deleted for good, 0 keeps them until deleted by hand
+}
+
+// How receipts are arranged in an export archive
+// receipt: a folder per receipt, user-year: receipt folders grouped by user and year,
+// flat: all files in one folder, named with the filename pattern
+export type ExportLayout = 'receipt' | 'user-year' | 'flat'
+
+export interface ExportQuery extends Omit<ReceiptQuery, 'sort' | 'order' | 'limit' | 'offset'> {
+	layout?: ExportLayout
+}
+
+// What to do with an imported receipt that is already stored
+// skip: keep the stored receipt, merge: fill in what the stored receipt is missing, overwrite: replace it
+export type ImportConflictMode = 'skip' | 'merge' | 'overwrite'
+
 export interface Flag {
 	id: number
 	name: string
@@ -152,6 +437,10 @@ export interface UpdateReceiptInput {
 	description?: string
 	date?: string
 	notes?: string
+	reimbursement_status?: ReimbursementStatus
+	reimbursed_date?: string | null
+	reimbursed_amount?: number | null
+	hsa_transaction_ref?: string | null
 	flag_ids?: number[]
 }
 
@@ -160,6 +449,8 @@ export interface BulkUpdateReceiptInput {
 	date?: string
 	user_id?: number
 	receipt_type_id?: number
+	reimbursement_status?: ReimbursementStatus
+	reimbursed_date?: string
 	flag_ids?: number[]
 	flag_operation?: 'append' | 'replace' | 'remove_all'
 }
@@ -199,14 +490,99 @@ export interface UpdateReceiptTypeInput {
 	display_order?: number
 }
 
+export type ReceiptSortField = 'date' | 'vendor' | 'type' | 'user' | 'amount' | 'created_at' | 'updated_at'
+
+export interface ReceiptQuery {
+	ids?: number[]
+	user_id?: number
+	receipt_type_id?: number
+	group_id?: number
+	date_from?: string
+	date_to?: string
+	year?: number // Shorthand for the date range of a calendar year
+	amount_min?: number
+	amount_max?: number
+	vendor?: string
+	flag_ids?: number[]
+	flag_match?: 'any' | 'all'
+	reimbursement_status?: ReimbursementStatus
+	q?: string
+	sort?: ReceiptSortField
+	order?: 'asc' | 'desc'
+	limit?: number
+	offset?: number
+}
+
+export interface ReceiptPage {
+	receipts: Receipt[]
+	total: number
+	limit: number
+	offset: number
+	has_more: boolean
+}
+
+// Where a file's extracted text came from: OCR of an image/scan or a PDF's embedded text layer
+export type TextSource = 'ocr' | 'pdf'
+
+// Receipt fields proposed from extracted text; only fields that were found are present
+export interface ReceiptTextSuggestions {
+	amount?: number
+	date?: string
+	vendor?: string
+	provider_address?: string
+}
+
+export interface TextExtractionResult {
+	text: string
+	source: TextSource
+	suggestions: ReceiptTextSuggestions
+}
+
+export interface ReceiptSearchResult {
+	receipt: Receipt
+	rank: number
+	snippet: string // Matched text with <mark>...</mark> around hits
+}
+
+export interface StatsTotals {
+	receipt_count: number
+	total_spent: number
+	total_reimbursed: number
+	outstanding: number
+}
+
+export interface StatsSummaryRow extends StatsTotals {
+	user_id: number
+	user_name: string
+	year: string
+	group_id: number | null
+	group_name: string
+	reimbursement_status: ReimbursementStatus
+}
+
+export interface StatsSummary {
+	totals: StatsTotals
+	by_user: Array<StatsTotals & { user_id: number; user_name: string }>
+	by_year: Array<StatsTotals & { year: string }>
+	by_group: Array<StatsTotals & { group_id: number | null; group_name: string }>
+	by_status: Array<StatsTotals & { reimbursement_status: ReimbursementStatus }>
+	rows: StatsSummaryRow[]
+	years: string[]
+}
+
 // Receipts API
 export const receiptsApi = {
 	getAll: (flagId?: number) => {
 		const params = flagId ? { flag_id: flagId } : {}
 		return api.get<Receipt[]>('/receipts', { params })
 	},
+	query: (query: ReceiptQuery) => {
+		const { flag_ids, ...rest } = query
+		const params = { ...rest, flag_ids: flag_ids && flag_ids.length > 0 ? flag_ids.join(',') : undefined, limit: query.limit ?? 50 }
+		return api.get<ReceiptPage>('/receipts', { params })
+	},
 	getById: (id: number) => api.get<Receipt>(`/receipts/${id}`),
-	create: (data: CreateReceiptInput, files: File[]) => {
+	create: (data: CreateReceiptInput, files: File[], allowDuplicates = false) => {
 		const formData = new FormData()
 		files.forEach(file => formData.append('files', file))
 		// Append all fields, even if empty - backend will handle defaults
@@ -221,7 +597,8 @@ export const receiptsApi = {
 		if (data.flag_ids && data.flag_ids.length > 0) {
 			formData.append('flag_ids', JSON.stringify(data.flag_ids))
 		}
-		return api.post<Receipt>('/receipts', formData, {
+		if (allowDuplicates) formData.append('allow_duplicates', 'true')
+		return api.post<UploadedReceipt>('/receipts', formData, {
 			headers: { 'Content-Type': 'multipart/form-data' },
 		})
 	},
@@ -236,7 +613,8 @@ export const receiptsApi = {
 	addFiles: (
 		id: number,
 		files: File[],
-		receiptData?: { date?: string; user?: string; vendor?: string; amount?: number; type?: string }
+		receiptData?: { date?: string; user?: string; vendor?: string; amount?: number; type?: string },
+		allowDuplicates = false
 	) => {
 		const formData = new FormData()
 		files.forEach(file => formData.append('files', file))
@@ -250,8 +628,9 @@ export const receiptsApi = {
 			if (receiptData.amount !== undefined) formData.append('amount', receiptData.amount.toString())
 			if (receiptData.type) formData.append('type', receiptData.type)
 		}
+		if (allowDuplicates) formData.append('allow_duplicates', 'true')
 
-		return api.post<Receipt>(`/receipts/${id}/files`, formData, {
+		return api.post<UploadedReceipt>(`/receipts/${id}/files`, formData, {
 			headers: { 'Content-Type': 'multipart/form-data' },
 		})
 	},
@@ -273,21 +652,24 @@ export const receiptsApi = {
 	updateFlags: (id: number, flagIds: number[]) => {
 		return api.put<Receipt>(`/receipts/${id}/flags`, { flag_ids: flagIds })
 	},
+	extractText: (file: File) => {
+		const formData = new FormData()
+		formData.append('file', file)
+		return api.post<TextExtractionResult>('/receipts/extract-text', formData, {
+			headers: { 'Content-Type': 'multipart/form-data' },
+		})
+	},
 	bulkUpdate: (ids: number[], data: BulkUpdateReceiptInput) => {
 		return api.post<{ updated: number; errors: Array<{ id: number; error: string }> }>('/receipts/bulk-update', {
 			receipt_ids: ids,
 			...data,
 		})
 	},
-	migrateFiles: () =>
-		api.post<{
-			message: string
-			totalReceipts: number
-			totalFiles: number
-			filesMoved: number
-			errors: Array<{ receiptId: number; error: string }>
-		}>('/receipts/migrate-files'),
+	migrateFiles: () => api.post<Job>('/receipts/migrate-files'),
 	getFrequentVendors: () => api.get<Array<{ vendor: string; count: number }>>('/receipts/vendors/frequent'),
+	getHistory: (id: number) => api.get<ReceiptHistoryEntry[]>(`/receipts/${id}/history`),
+	revertHistoryField: (id: number, entryId: number, field: string) =>
+		api.post<Receipt>(`/receipts/${id}/history/${entryId}/revert`, { field }),
 }
 
 // Flags API
@@ -303,7 +685,42 @@ export const usersApi = {
 	getAll: () => api.get<User[]>('/users'),
 	create: (data: CreateUserInput) => api.post<User>('/users', data),
 	update: (id: number, data: UpdateUserInput) => api.put<User>(`/users/${id}`, data),
-	delete: (id: number) => api.delete(`/users/${id}`),
+	getUsage: (id: number) => api.get<ReceiptUsage>(`/users/${id}/usage`),
+	// Receipts of the user have to be moved to another user (reassignTo) before it can be deleted
+	delete: (id: number, reassignTo?: number) => api.delete(`/users/${id}`, { params: { reassign_to: reassignTo } }),
+}
+
+// Auth API
+export const authApi = {
+	getStatus: () => api.get<AuthStatus>('/auth/status'),
+	setup: (data: AccountCredentials) => api.post<Account>('/auth/setup', data),
+	login: (data: AccountCredentials) => api.post<Account>('/auth/login', data),
+	logout: () => api.post('/auth/logout'),
+}
+
+// Accounts API
+export const accountsApi = {
+	getAll: () => api.get<Account[]>('/accounts'),
+	create: (data: AccountCredentials & AccountAccess) => api.post<Account>('/accounts', data),
+	update: (id: number, data: Partial<AccountAccess>) => api.put<Account>(`/accounts/${id}`, data),
+	delete: (id: number) => api.delete(`/accounts/${id}`),
+	changePassword: (currentPassword: string, newPassword: string) =>
+		api.put('/accounts/me/password', { current_password: currentPassword, new_password: newPassword }),
+}
+
+// API Tokens API
+export const apiTokensApi = {
+	getAll: () => api.get<ApiToken[]>('/tokens'),
+	create: (data: { name: string; scope: ApiTokenScope }) => api.post<CreatedApiToken>('/tokens', data),
+	delete: (id: number) => api.delete(`/tokens/${id}`),
+}
+
+// Import Rules API
+export const importRulesApi = {
+	getAll: () => api.get<ImportRule[]>('/import-rules'),
+	create: (data: ImportRuleInput) => api.post<ImportRule>('/import-rules', data),
+	update: (id: number, data: Partial<ImportRuleInput>) => api.put<ImportRule>(`/import-rules/${id}`, data),
+	delete: (id: number) => api.delete(`/import-rules/${id}`),
 }
 
 // Receipt Type Groups API
@@ -319,7 +736,10 @@ export const receiptTypesApi = {
 	getAll: () => api.get<ReceiptType[]>('/receipt-types'),
 	create: (data: CreateReceiptTypeInput) => api.post<ReceiptType>('/receipt-types', data),
 	update: (id: number, data: UpdateReceiptTypeInput) => api.put<ReceiptType>(`/receipt-types/${id}`, data),
-	delete: (id: number) => api.delete(`/receipt-types/${id}`),
+	getUsage: (id: number) => api.get<ReceiptUsage>(`/receipt-types/${id}/usage`),
+	// Receipts of the type have to be moved to another type (reassignTo) before it can be deleted
+	delete: (id: number, reassignTo?: number) =>
+		api.delete(`/receipt-types/${id}`, { params: { reassign_to: reassignTo } }),
 	bulkUpdate: (updates: Array<{ id: number; group_id: number | null; display_order: number }>) =>
 		api.post<ReceiptType[]>('/receipt-types/bulk-update', { updates }),
 	resetToDefaults: (defaultGroups: Array<{ name: string; display_order: number; types: string[] }>, ungroupedTypes?: string[]) =>
@@ -333,77 +753,117 @@ export const receiptTypesApi = {
 export const settingsApi = {
 	getAll: () => api.get<Record<string, any>>('/settings'),
 	get: (key: string) => api.get<{ key: string; value: any }>(`/settings/${key}`),
-	set: (key: string, value: any) => api.put<{ key: string; value: any }>(`/settings/${key}`, { value }),
+	// job is set when the change queued moving stored files, e.g. to a new directory layout
+	set: (key: string, value: any) => api.put<{ key: string; value: any; job?: Job }>(`/settings/${key}`, { value }),
 }
 
 // Export API
 export const exportApi = {
-	download: () => {
+	download: (query: ExportQuery = {}) => {
+		const { ids, flag_ids, ...rest } = query
+		const params = {
+			...rest,
+			ids: ids && ids.length > 0 ? ids.join(',') : undefined,
+			flag_ids: flag_ids && flag_ids.length > 0 ? flag_ids.join(',') : undefined,
+		}
 		return api.get('/export', {
+			params,
 			responseType: 'blob',
 		})
 	},
 }
 
+// Import API
+export const importApi = {
+	upload: (archive: File, conflict: ImportConflictMode) => {
+		const formData = new FormData()
+		formData.append('archive', archive)
+		formData.append('conflict', conflict)
+		return api.post<Job>('/import', formData, {
+			headers: { 'Content-Type': 'multipart/form-data' },
+		})
+	},
+}
+
 // Filenames API
 export const filenamesApi = {
-	renameAll: () =>
-		api.post<{
-			success: boolean
-			totalReceipts: number
-			totalFiles: number
-			renamed: number
-			errors: Array<{ receiptId: number; error: string }>
-		}>('/filenames/rename-all'),
+	renameAll: () => api.post<Job>('/filenames/rename-all'),
 }
 
 // Watch API
 export const watchApi = {
-	getStatus: () =>
-		api.get<{
-			enabled: boolean
-			watchFolder: string
-			interval: number
-			lastScan?: string
-			nextScan?: string
-			isScanning: boolean
-		}>('/watch/status'),
-	triggerScan: () =>
-		api.post<{
-			message: string
-			status: {
-				enabled: boolean
-				watchFolder: string
-				interval: number
-				lastScan?: string
-				nextScan?: string
-				isScanning: boolean
-			}
-		}>('/watch/scan'),
+	getStatus: () => api.get<WatchStatus>('/watch/status'),
+	triggerScan: (folderId?: number) =>
+		api.post<{ message: string; status: WatchStatus }>('/watch/scan', folderId !== undefined ? { folder_id: folderId } : {}),
+	getFolders: () => api.get<WatchFolder[]>('/watch/folders'),
+	createFolder: (data: WatchFolderInput) => api.post<WatchFolder>('/watch/folders', data),
+	updateFolder: (id: number, data: Partial<WatchFolderInput>) => api.put<WatchFolder>(`/watch/folders/${id}`, data),
+	deleteFolder: (id: number) => api.delete(`/watch/folders/${id}`),
+	getHistory: (params?: { status?: WatchImportStatus; folder_id?: number; limit?: number }) =>
+		api.get<WatchImport[]>('/watch/history', { params }),
+	retryImport: (id: number) => api.post<WatchImport>(`/watch/history/${id}/retry`),
+	discardImport: (id: number) => api.post<WatchImport>(`/watch/history/${id}/discard`),
 	getProcessedCount: () => api.get<{ count: number }>('/watch/processed/count'),
 	deleteProcessed: () => api.delete<{ deleted: number; errors: string[] }>('/watch/processed'),
 }
 
 // Images API
 export const imagesApi = {
-	optimize: (options?: { batchSize?: number; maxConcurrent?: number }) =>
-		api.post<{
-			success: boolean
-			total: number
-			optimized: number
-			skipped: number
-			errors: Array<{ fileId: number; error: string }>
-			duration: number
-		}>('/images/optimize', options || {}),
-	reoptimize: (options?: { batchSize?: number; maxConcurrent?: number }) =>
-		api.post<{
-			success: boolean
-			total: number
-			optimized: number
-			skipped: number
-			errors: Array<{ fileId: number; error: string }>
-			duration: number
-		}>('/images/reoptimize', options || {}),
+	optimize: (options?: { batchSize?: number; maxConcurrent?: number }) => api.post<Job>('/images/optimize', options || {}),
+	reoptimize: (options?: { batchSize?: number; maxConcurrent?: number }) => api.post<Job>('/images/reoptimize', options || {}),
+}
+
+// Jobs API
+export const jobsApi = {
+	getAll: () => api.get<Job[]>('/jobs'),
+	getById: (id: number) => api.get<Job>(`/jobs/${id}`),
+	cancel: (id: number) => api.post<Job>(`/jobs/${id}/cancel`),
+}
+
+// Duplicates API
+export const duplicatesApi = {
+	getAll: () => api.get<DuplicatePair[]>('/duplicates'),
+	dismiss: (receiptIds: [number, number]) => api.post('/duplicates/dismiss', { receipt_ids: receiptIds }),
+	scan: () => api.post<Job>('/duplicates/scan'),
+}
+
+// Backups API
+export const backupsApi = {
+	getAll: () => api.get<BackupList>('/backups'),
+	create: () => api.post<Job>('/backups'),
+	download: (name: string) => {
+		return api.get(`/backups/${encodeURIComponent(name)}/download`, {
+			responseType: 'blob',
+		})
+	},
+	upload: (archive: File) => {
+		const formData = new FormData()
+		formData.append('archive', archive)
+		return api.post<Backup>('/backups/upload', formData, {
+			headers: { 'Content-Type': 'multipart/form-data' },
+		})
+	},
+	restore: (name: string) => api.post<Job>(`/backups/${encodeURIComponent(name)}/restore`),
+	delete: (name: string) => api.delete(`/backups/${encodeURIComponent(name)}`),
+}
+
+// Trash API
+export const trashApi = {
+	getAll: () => api.get<TrashContents>('/trash'),
+	restoreReceipt: (id: number) => api.post<Receipt>(`/trash/receipts/${id}/restore`),
+	deleteReceipt: (id: number) => api.delete(`/trash/receipts/${id}`),
+	restoreFile: (fileId: number) => api.post<Receipt>(`/trash/files/${fileId}/restore`),
+	deleteFile: (fileId: number) => api.delete(`/trash/files/${fileId}`),
+}
+
+// Stats API
+export const statsApi = {
+	getSummary: (filters?: { user_id?: number; year?: string }) => api.get<StatsSummary>('/stats/summary', { params: filters }),
+}
+
+// Search API
+export const searchApi = {
+	search: (q: string, limit?: number) => api.get<ReceiptSearchResult[]>('/search', { params: { q, limit } }),
 }
 
 export default api
@@ -0,0 +1,19 @@
+import type { ApiTokenScope } from './api'
+
+/**
+ * Display labels for API token scopes, from least to most access
+ */
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+	read: 'Read-only',
+	upload: 'Upload-only',
+	full: 'Full access',
+}
+
+/**
+ * What each scope allows, shown when picking a scope
+ */
+export const API_TOKEN_SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+	read: 'Views receipts, stats and exports',
+	upload: 'Uploads new receipts but cannot view existing ones',
+	full: 'Does anything your account can, except managing accounts and tokens',
+}
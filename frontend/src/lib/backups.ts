@@ -0,0 +1,21 @@
+import type { BackupKind } from './api'
+
+/**
+ * Display labels for how a backup was made
+ */
+export const BACKUP_KIND_LABELS: Record<BackupKind, string> = {
+	manual: 'Manual',
+	scheduled: 'Scheduled',
+	'pre-restore': 'Before restore',
+	uploaded: 'Uploaded',
+}
+
+/**
+ * Format a backup size in bytes for display
+ */
+export function formatBackupSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+	if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+	return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+}
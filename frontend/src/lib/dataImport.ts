@@ -0,0 +1,19 @@
+import type { ImportConflictMode } from './api'
+
+/**
+ * Display labels for what to do with imported receipts that are already stored
+ */
+export const IMPORT_CONFLICT_MODE_LABELS: Record<ImportConflictMode, string> = {
+	skip: 'Skip',
+	merge: 'Merge',
+	overwrite: 'Overwrite',
+}
+
+/**
+ * What each conflict mode does, shown when picking a mode
+ */
+export const IMPORT_CONFLICT_MODE_DESCRIPTIONS: Record<ImportConflictMode, string> = {
+	skip: 'Keeps receipts that are already stored as they are',
+	merge: 'Fills in empty fields and adds missing flags and files to receipts that are already stored',
+	overwrite: 'Replaces receipts that are already stored with the imported ones',
+}
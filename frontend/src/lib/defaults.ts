@@ -26,3 +26,8 @@ export const DEFAULT_RECEIPT_TYPE_GROUPS: DefaultReceiptTypeGroup[] = [
  * Default ungrouped receipt types
  */
 export const DEFAULT_UNGROUPED_TYPES: string[] = ['Family Planning', 'Mental Health Services', 'Other']
+
+/**
+ * Default number of days deleted receipts and files stay in the trash
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
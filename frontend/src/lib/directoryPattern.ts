@@ -0,0 +1,75 @@
+/**
+ * Default folders for receipt files below the receipts directory, matching the backend default
+ */
+export const DEFAULT_DIRECTORY_PATTERN = '{user}/{year}/{month}/{day}'
+
+/**
+ * Tokens a directory pattern can use, with what each one becomes
+ */
+export const DIRECTORY_PATTERN_TOKENS: Array<{ token: string; description: string; sample: string }> = [
+	{ token: 'user', description: 'User name (sanitized)', sample: 'john-doe' },
+	{ token: 'type', description: 'Receipt type (sanitized)', sample: 'doctor-visits' },
+	{ token: 'type-group', description: 'Receipt type group (sanitized), or "ungrouped"', sample: 'medical-expenses' },
+	{ token: 'year', description: 'Year of the receipt date', sample: '2024' },
+	{ token: 'month', description: 'Month of the receipt date (01-12)', sample: '01' },
+	{ token: 'day', description: 'Day of the receipt date (01-31)', sample: '15' },
+	{ token: 'date', description: 'Date in YYYY-MM-DD format', sample: '2024-01-15' },
+]
+
+/**
+ * Validate a directory pattern before saving it (the backend checks it again)
+ * Returns an error message, or null if the pattern is valid
+ */
+export function validateDirectoryPattern(pattern: string): string | null {
+	if (!pattern || pattern.trim().length === 0) {
+		return 'Pattern cannot be empty'
+	}
+
+	// Check for invalid filesystem characters (slashes separate folders)
+	if (/[<>:"\\|?*]/.test(pattern)) {
+		return 'Pattern contains invalid filesystem characters: < > : " \\ | ? *'
+	}
+
+	// Check for valid tokens only
+	const validTokens = DIRECTORY_PATTERN_TOKENS.map(({ token }) => token)
+	const tokenRegex = /\{([^}]+)\}/g
+	let match
+	while ((match = tokenRegex.exec(pattern)) !== null) {
+		if (!validTokens.includes(match[1])) {
+			return `Unknown token: {${match[1]}}. Valid tokens are: ${validTokens.map(token => `{${token}}`).join(', ')}`
+		}
+	}
+
+	if (pattern.length > 200) {
+		return 'Pattern is too long (max 200 characters)'
+	}
+
+	if (pattern.startsWith('/') || pattern.endsWith('/')) {
+		return 'Pattern cannot start or end with a slash'
+	}
+
+	for (const folder of pattern.split('/')) {
+		if (folder.length === 0) {
+			return 'Pattern cannot contain empty folders (//)'
+		}
+		if (folder.trim() !== folder) {
+			return 'Folders cannot have leading or trailing spaces'
+		}
+		if (folder.startsWith('.') || folder.endsWith('.')) {
+			return 'Folders cannot start or end with a dot'
+		}
+	}
+
+	return null
+}
+
+/**
+ * Show where a sample receipt's files would go with a directory pattern
+ */
+export function previewDirectoryPattern(pattern: string): string {
+	const folders = DIRECTORY_PATTERN_TOKENS.reduce(
+		(preview, { token, sample }) => preview.split(`{${token}}`).join(sample),
+		pattern
+	)
+	return `${folders}/`
+}
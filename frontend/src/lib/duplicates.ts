@@ -0,0 +1,26 @@
+import type { DuplicateMatch, DuplicateReason } from './api'
+
+/**
+ * Display labels for why two receipts are considered duplicates
+ */
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+	identical_file: 'Identical file',
+	similar_image: 'Similar image',
+	same_details: 'Same user, date, amount and vendor',
+}
+
+/**
+ * Get the matching receipts of an upload that was rejected because its files are already stored
+ * Returns null for any other error
+ */
+export function getDuplicateUploadMatches(error: any): DuplicateMatch[] | null {
+	const duplicates = error?.response?.status === 409 ? error.response.data?.duplicates : null
+	return Array.isArray(duplicates) ? duplicates : null
+}
+
+/**
+ * List the receipts that files match, e.g. "receipt #12 (scan.jpg)"
+ */
+export function describeDuplicateMatches(matches: DuplicateMatch[]): string {
+	return matches.map(match => `receipt #${match.receipt_id} (${match.original_filename})`).join(', ')
+}
@@ -0,0 +1,76 @@
+import type { Job } from './api'
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
+
+export interface ReceiptEventData {
+	receipt_id: number
+	user_id: number
+	previous_user_id?: number
+	file_id?: number
+}
+
+// Events streamed by the server over GET /api/events
+export type ServerEvent =
+	| { type: 'receipt.created' | 'receipt.updated' | 'receipt.deleted' | 'receipt.file_added'; data: ReceiptEventData }
+	| { type: 'watch.scan_started'; data: { folder_id: number } }
+	| { type: 'watch.scan_completed'; data: { folder_id: number; last_scan: string | null } }
+	| { type: 'job.updated'; data: { job: Job } }
+
+export type ServerEventType = ServerEvent['type']
+
+export type ReceiptEvent = Extract<ServerEvent, { data: ReceiptEventData }>
+
+export const isReceiptEvent = (event: ServerEvent): event is ReceiptEvent => event.type.startsWith('receipt.')
+
+const SERVER_EVENT_TYPES: ServerEventType[] = [
+	'receipt.created',
+	'receipt.updated',
+	'receipt.deleted',
+	'receipt.file_added',
+	'watch.scan_started',
+	'watch.scan_completed',
+	'job.updated',
+]
+
+type Listener = (event: ServerEvent) => void
+
+const listeners = new Set<Listener>()
+let eventSource: EventSource | null = null
+
+/**
+ * Open the shared event stream; EventSource reconnects by itself if it drops
+ */
+function connect() {
+	eventSource = new EventSource(`${API_BASE_URL}/events`, { withCredentials: true })
+	for (const type of SERVER_EVENT_TYPES) {
+		eventSource.addEventListener(type, message => {
+			const event = { type, data: JSON.parse((message as MessageEvent).data) } as ServerEvent
+			listeners.forEach(listener => listener(event))
+		})
+	}
+}
+
+/**
+ * Listen for server events
+ * All listeners share one connection, which is closed when the last listener unsubscribes
+ * Returns a function that stops listening
+ */
+export function subscribeToServerEvents(listener: Listener): () => void {
+	// Not available in tests or very old browsers
+	if (typeof EventSource === 'undefined') {
+		return () => {}
+	}
+
+	listeners.add(listener)
+	if (!eventSource) {
+		connect()
+	}
+
+	return () => {
+		listeners.delete(listener)
+		if (listeners.size === 0 && eventSource) {
+			eventSource.close()
+			eventSource = null
+		}
+	}
+}
@@ -0,0 +1,19 @@
+import type { ExportLayout } from './api'
+
+/**
+ * Display labels for export archive layouts
+ */
+export const EXPORT_LAYOUT_LABELS: Record<ExportLayout, string> = {
+	receipt: 'By receipt',
+	'user-year': 'By user and year',
+	flat: 'Single folder',
+}
+
+/**
+ * How each layout arranges the archive, shown when picking a layout
+ */
+export const EXPORT_LAYOUT_DESCRIPTIONS: Record<ExportLayout, string> = {
+	receipt: 'A folder for each receipt with its files under their original names',
+	'user-year': 'Receipt folders grouped into a folder for each user and year',
+	flat: 'All files in one folder, named with the filename pattern',
+}
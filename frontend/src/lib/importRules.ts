@@ -0,0 +1,33 @@
+import type { ImportRuleMatchType } from './api'
+
+/**
+ * Display labels for what an import rule matches on
+ */
+export const IMPORT_RULE_MATCH_TYPE_LABELS: Record<ImportRuleMatchType, string> = {
+	folder: 'Subfolder name',
+	filename: 'Filename pattern',
+	text: 'Recognized text',
+}
+
+/**
+ * Placeholder for the pattern field of each match type
+ */
+export const IMPORT_RULE_PATTERN_PLACEHOLDERS: Record<ImportRuleMatchType, string> = {
+	folder: 'e.g. alice',
+	filename: 'Regular expression, e.g. ^CVS_',
+	text: 'e.g. Walgreens',
+}
+
+/**
+ * Describe when a rule applies, e.g. 'Subfolder is "alice"'
+ */
+export function describeImportRuleMatch(matchType: ImportRuleMatchType, pattern: string): string {
+	switch (matchType) {
+		case 'folder':
+			return `Subfolder is "${pattern}"`
+		case 'filename':
+			return `Filename matches /${pattern}/`
+		case 'text':
+			return `Text contains "${pattern}"`
+	}
+}
@@ -0,0 +1,67 @@
+import type { Job, JobStatus, JobType } from './api'
+
+/**
+ * Display labels for background job types
+ */
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+	'optimize-images': 'Optimize images',
+	'reoptimize-images': 'Re-optimize all images',
+	'rename-files': 'Rename all files',
+	'migrate-files': 'Organize files',
+	'hash-files': 'Fingerprint files for duplicate detection',
+	'create-backup': 'Create backup',
+	'restore-backup': 'Restore backup',
+	'import-receipts': 'Import receipts',
+	'purge-trash': 'Empty expired trash',
+	'relocate-user-files': 'Move files of renamed user',
+}
+
+/**
+ * Display labels for background job statuses
+ */
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+	queued: 'Queued',
+	running: 'Running',
+	completed: 'Completed',
+	failed: 'Failed',
+	cancelled: 'Cancelled',
+}
+
+/**
+ * Check if a job is still waiting or running
+ */
+export function isJobActive(job: Job): boolean {
+	return job.status === 'queued' || job.status === 'running'
+}
+
+/**
+ * Summarize the result of a completed job in one line
+ */
+export function describeJobResult(job: Job): string | null {
+	const result = job.result
+	if (!result) return null
+
+	const errorCount = Array.isArray(result.errors) ? result.errors.length : 0
+	const errors = errorCount > 0 ? `, ${errorCount} error(s)` : ''
+	switch (job.type) {
+		case 'optimize-images':
+		case 'reoptimize-images':
+			return `Optimized ${result.optimized} of ${result.total} image(s), skipped ${result.skipped}${errors}`
+		case 'rename-files':
+			return `Renamed ${result.renamed} of ${result.totalFiles} file(s)${errors}`
+		case 'migrate-files':
+			return `Moved ${result.filesMoved} of ${result.totalFiles} file(s) to ${result.pattern ?? 'the current layout'}${result.missing > 0 ? `, ${result.missing} missing` : ''}${errors}`
+		case 'hash-files':
+			return `Fingerprinted ${result.hashed} of ${result.total} file(s)${errors}`
+		case 'create-backup':
+			return `Backed up the database and ${Number(result.files) - 1} receipt file(s) to ${result.name}`
+		case 'restore-backup':
+			return `Restored ${result.receipts} receipt(s) from ${result.name}`
+		case 'import-receipts':
+			return `Imported ${result.receipts} receipt(s): ${result.created} created, ${result.merged} merged, ${result.overwritten} overwritten, ${result.skipped} skipped${errors}`
+		case 'purge-trash':
+			return `Deleted ${result.receipts} receipt(s) and ${result.files} file(s) older than ${result.retention_days} day(s) from the trash`
+		case 'relocate-user-files':
+			return `Moved ${result.moved} of ${result.totalFiles} file(s) from ${result.previous_name} to ${result.user}${result.missing > 0 ? `, ${result.missing} missing` : ''}`
+	}
+}
@@ -0,0 +1,83 @@
+import type { HistorySource, ReceiptHistoryAction, ReceiptHistoryEntry } from './api'
+import { REIMBURSEMENT_STATUS_LABELS } from './reimbursement'
+import { JOB_TYPE_LABELS } from './jobs'
+
+/**
+ * Display labels for what a receipt history entry records
+ */
+export const RECEIPT_HISTORY_ACTION_LABELS: Record<ReceiptHistoryAction, string> = {
+	created: 'Created',
+	updated: 'Updated',
+	deleted: 'Moved to trash',
+	restored: 'Restored from trash',
+	purged: 'Deleted permanently',
+	file_added: 'File added',
+	file_removed: 'File moved to trash',
+	file_restored: 'File restored from trash',
+	file_replaced: 'File replaced',
+	file_renamed: 'File renamed',
+}
+
+/**
+ * Display labels for where a change came from when no account made it
+ */
+export const HISTORY_SOURCE_LABELS: Record<HistorySource, string> = {
+	user: 'Someone',
+	watch: 'Watch folder',
+	job: 'Background job',
+	system: 'MedStash',
+}
+
+/**
+ * Display labels for the receipt fields kept in the history
+ */
+export const HISTORY_FIELD_LABELS: Record<string, string> = {
+	user: 'User',
+	type: 'Type',
+	amount: 'Amount',
+	vendor: 'Vendor',
+	provider_address: 'Provider address',
+	description: 'Description',
+	date: 'Date',
+	notes: 'Notes',
+	reimbursement_status: 'Reimbursement status',
+	reimbursed_date: 'Reimbursed date',
+	reimbursed_amount: 'Reimbursed amount',
+	hsa_transaction_ref: 'HSA transaction reference',
+	flags: 'Flags',
+	filename: 'Filename',
+	original_filename: 'Original filename',
+}
+
+/**
+ * Who or what made a change, e.g. "alice via API token: Scanner" or "Watch folder: Inbox"
+ */
+export function describeHistoryActor(entry: ReceiptHistoryEntry): string {
+	const detail = entry.source === 'job' && entry.detail ? JOB_TYPE_LABELS[entry.detail as keyof typeof JOB_TYPE_LABELS] ?? entry.detail : entry.detail
+	if (entry.account_name) {
+		return detail ? `${entry.account_name} (${detail})` : entry.account_name
+	}
+	return detail ? `${HISTORY_SOURCE_LABELS[entry.source]}: ${detail}` : HISTORY_SOURCE_LABELS[entry.source]
+}
+
+/**
+ * A field value from the history as text
+ */
+export function formatHistoryValue(field: string, value: unknown): string {
+	if (value === null || value === undefined || value === '') return '—'
+	if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—'
+	if (field === 'reimbursement_status') {
+		return REIMBURSEMENT_STATUS_LABELS[value as keyof typeof REIMBURSEMENT_STATUS_LABELS] ?? String(value)
+	}
+	if (typeof value === 'number' && (field === 'amount' || field === 'reimbursed_amount')) {
+		return `$${value.toFixed(2)}`
+	}
+	return String(value)
+}
+
+/**
+ * When a history entry was recorded; the database stores UTC without a zone
+ */
+export function parseHistoryTimestamp(createdAt: string): Date {
+	return new Date(/[zZ]|[+-]\d{2}:\d{2}$/.test(createdAt) ? createdAt : `${createdAt.replace(' ', 'T')}Z`)
+}
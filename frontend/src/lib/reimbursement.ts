@@ -0,0 +1,10 @@
+import type { ReimbursementStatus } from './api'
+
+/**
+ * Display labels for receipt reimbursement statuses, in workflow order
+ */
+export const REIMBURSEMENT_STATUS_LABELS: Record<ReimbursementStatus, string> = {
+	unreimbursed: 'Not Reimbursed',
+	partial: 'Partially Reimbursed',
+	reimbursed: 'Reimbursed',
+}
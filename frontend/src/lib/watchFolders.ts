@@ -0,0 +1,20 @@
+import type { ProcessedFileAction, WatchImportStatus } from './api'
+
+/**
+ * Display labels for what happens to files once they are imported
+ */
+export const PROCESSED_FILE_ACTION_LABELS: Record<ProcessedFileAction, string> = {
+	move: 'Move to processed folder',
+	delete: 'Delete',
+	leave: 'Leave in place',
+}
+
+/**
+ * Display labels for the outcome of a watch folder import
+ */
+export const WATCH_IMPORT_STATUS_LABELS: Record<WatchImportStatus, string> = {
+	imported: 'Imported',
+	failed: 'Failed',
+	quarantined: 'Quarantined',
+	discarded: 'Discarded',
+}
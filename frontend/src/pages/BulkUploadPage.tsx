@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Button } from '../components/ui/button'
 import { Upload, X, File } from 'lucide-react'
 import { cn } from '../lib/utils'
+import { getDuplicateUploadMatches } from '../lib/duplicates'
 
 export default function BulkUploadPage() {
 	const navigate = useNavigate()
@@ -139,7 +140,7 @@ export default function BulkUploadPage() {
 		const defaultUserId = users[0].id
 
 		try {
-			// Create a receipt for each file
+			// Create a receipt for each file, skipping files that are already stored
 			const uploadPromises = files.map(file => {
 				const receiptData = {
 					user_id: defaultUserId,
@@ -151,10 +152,18 @@ export default function BulkUploadPage() {
 					flag_ids: [],
 				}
 
-				return receiptsApi.create(receiptData, [file])
+				return receiptsApi.create(receiptData, [file]).then(
+					() => true,
+					err => {
+						if (getDuplicateUploadMatches(err)) return false
+						throw err
+					}
+				)
 			})
 
-			await Promise.all(uploadPromises)
+			const results = await Promise.all(uploadPromises)
+			const created = results.filter(Boolean).length
+			const skipped = results.length - created
 
 			// Clean up all object URLs
 			filePreviews.forEach(url => {
@@ -169,7 +178,9 @@ export default function BulkUploadPage() {
 			// Show success toast and navigate
 			toast({
 				title: 'Success',
-				description: `Successfully created ${files.length} receipt${files.length > 1 ? 's' : ''}`,
+				description:
+					`Successfully created ${created} receipt${created !== 1 ? 's' : ''}` +
+					(skipped > 0 ? `, skipped ${skipped} file${skipped > 1 ? 's' : ''} that ${skipped > 1 ? 'are' : 'is'} already stored` : ''),
 			})
 			navigate('/')
 		} catch (err: any) {
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { Label } from '../components/ui/label'
+import { statsApi, usersApi, StatsSummary, StatsTotals, User } from '../lib/api'
+import { REIMBURSEMENT_STATUS_LABELS } from '../lib/reimbursement'
+import { useServerEvents } from '../hooks/useServerEvents'
+
+const ALL = '__all__'
+
+// Wait for a burst of receipt changes to settle before reloading the totals
+const LIVE_RELOAD_DEBOUNCE_MS = 500
+
+const formatCurrency = (amount: number) => {
+	return new Intl.NumberFormat('en-US', {
+		style: 'currency',
+		currency: 'USD',
+	}).format(amount)
+}
+
+interface BreakdownTableProps {
+	title: string
+	description: string
+	rows: Array<StatsTotals & { key: string; label: string }>
+}
+
+function BreakdownTable({ title, description, rows }: BreakdownTableProps) {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>{title}</CardTitle>
+				<CardDescription>{description}</CardDescription>
+			</CardHeader>
+			<CardContent>
+				{rows.length === 0 ? (
+					<p className="text-sm text-muted-foreground">No receipts</p>
+				) : (
+					<div className="overflow-x-auto">
+						<table className="w-full text-sm">
+							<thead>
+								<tr className="border-b text-muted-foreground">
+									<th className="py-2 font-medium text-left">Name</th>
+									<th className="py-2 font-medium text-right">Receipts</th>
+									<th className="py-2 font-medium text-right">Spent</th>
+									<th className="py-2 font-medium text-right">Reimbursed</th>
+									<th className="py-2 font-medium text-right">Outstanding</th>
+								</tr>
+							</thead>
+							<tbody>
+								{rows.map(row => (
+									<tr key={row.key} className="border-b last:border-0">
+										<td className="py-2">{row.label}</td>
+										<td className="py-2 text-right">{row.receipt_count}</td>
+										<td className="py-2 text-right">{formatCurrency(row.total_spent)}</td>
+										<td className="py-2 text-right">{formatCurrency(row.total_reimbursed)}</td>
+										<td className="py-2 font-medium text-right">{formatCurrency(row.outstanding)}</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
+
+export default function DashboardPage() {
+	const [summary, setSummary] = useState<StatsSummary | null>(null)
+	const [users, setUsers] = useState<User[]>([])
+	const [year, setYear] = useState<string>(ALL)
+	const [userId, setUserId] = useState<string>(ALL)
+	const [loading, setLoading] = useState(true)
+	const [error, setError] = useState<string | null>(null)
+	const liveReloadTimeoutRef = useRef<ReturnType<typeof setTimeout>>()
+
+	const loadSummary = useCallback(async () => {
+		try {
+			setLoading(true)
+			const res = await statsApi.getSummary({
+				year: year === ALL ? undefined : year,
+				user_id: userId === ALL ? undefined : parseInt(userId),
+			})
+			setSummary(res.data)
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to load summary')
+		} finally {
+			setLoading(false)
+		}
+	}, [year, userId])
+
+	useEffect(() => {
+		usersApi
+			.getAll()
+			.then(res => setUsers(res.data))
+			.catch(() => setUsers([]))
+	}, [])
+
+	useEffect(() => {
+		loadSummary()
+	}, [loadSummary])
+
+	// Keep totals current when receipts change elsewhere
+	useServerEvents(['receipt.created', 'receipt.updated', 'receipt.deleted'], () => {
+		clearTimeout(liveReloadTimeoutRef.current)
+		liveReloadTimeoutRef.current = setTimeout(loadSummary, LIVE_RELOAD_DEBOUNCE_MS)
+	})
+
+	useEffect(() => () => clearTimeout(liveReloadTimeoutRef.current), [])
+
+	const totals = summary?.totals
+
+	return (
+		<div className="space-y-6">
+			<div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+				<div>
+					<h2 className="text-3xl font-bold">Dashboard</h2>
+					<p className="text-muted-foreground">Spending and reimbursement overview</p>
+				</div>
+				<div className="flex gap-4">
+					<div className="w-40">
+						<Label htmlFor="dashboard-year">Year</Label>
+						<Select value={year} onValueChange={setYear}>
+							<SelectTrigger id="dashboard-year">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ALL}>All years</SelectItem>
+								{(summary?.years || []).map(y => (
+									<SelectItem key={y} value={y}>
+										{y}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					{users.length > 1 && (
+						<div className="w-40">
+							<Label htmlFor="dashboard-user">User</Label>
+							<Select value={userId} onValueChange={setUserId}>
+								<SelectTrigger id="dashboard-user">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={ALL}>All users</SelectItem>
+									{users.map(user => (
+										<SelectItem key={user.id} value={user.id.toString()}>
+											{user.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					)}
+				</div>
+			</div>
+
+			{error && <div className="p-3 text-sm rounded-md bg-destructive/10 text-destructive">{error}</div>}
+
+			{loading && !summary ? (
+				<p className="text-muted-foreground">Loading...</p>
+			) : (
+				summary &&
+				totals && (
+					<>
+						<div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+							<Card>
+								<CardHeader className="pb-2">
+									<CardDescription>Total Spent</CardDescription>
+									<CardTitle className="text-2xl">{formatCurrency(totals.total_spent)}</CardTitle>
+								</CardHeader>
+							</Card>
+							<Card>
+								<CardHeader className="pb-2">
+									<CardDescription>Total Reimbursed</CardDescription>
+									<CardTitle className="text-2xl">{formatCurrency(totals.total_reimbursed)}</CardTitle>
+								</CardHeader>
+							</Card>
+							<Card>
+								<CardHeader className="pb-2">
+									<CardDescription>Outstanding</CardDescription>
+									<CardTitle className="text-2xl">{formatCurrency(totals.outstanding)}</CardTitle>
+								</CardHeader>
+							</Card>
+							<Card>
+								<CardHeader className="pb-2">
+									<CardDescription>Receipts</CardDescription>
+									<CardTitle className="text-2xl">{totals.receipt_count}</CardTitle>
+								</CardHeader>
+							</Card>
+						</div>
+
+						<div className="grid gap-6 lg:grid-cols-2">
+							<BreakdownTable
+								title="By Year"
+								description="Totals by year of service"
+								rows={summary.by_year.map(row => ({ ...row, key: row.year, label: row.year }))}
+							/>
+							<BreakdownTable
+								title="By User"
+								description="Totals for each user"
+								rows={summary.by_user.map(row => ({ ...row, key: String(row.user_id), label: row.user_name }))}
+							/>
+							<BreakdownTable
+								title="By Category"
+								description="Totals by receipt type group"
+								rows={summary.by_group.map(row => ({ ...row, key: String(row.group_id), label: row.group_name }))}
+							/>
+							<BreakdownTable
+								title="By Reimbursement Status"
+								description="Totals by reimbursement status"
+								rows={summary.by_status.map(row => ({
+									...row,
+									key: row.reimbursement_status,
+									label: REIMBURSEMENT_STATUS_LABELS[row.reimbursement_status] || row.reimbursement_status,
+								}))}
+							/>
+						</div>
+					</>
+				)
+			)}
+		</div>
+	)
+}
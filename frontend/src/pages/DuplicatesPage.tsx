@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Link } from 'react-router-dom'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Button } from '../components/ui/button'
+import { useToast } from '../components/ui/use-toast'
+import { duplicatesApi, DuplicatePair, Receipt } from '../lib/api'
+import { DUPLICATE_REASON_LABELS } from '../lib/duplicates'
+import { useAuthContext } from '../contexts/AuthContext'
+import { useServerEvents } from '../hooks/useServerEvents'
+
+// Wait for a burst of receipt changes to settle before looking for duplicates again
+const LIVE_RELOAD_DEBOUNCE_MS = 500
+
+const formatCurrency = (amount: number) => {
+	return new Intl.NumberFormat('en-US', {
+		style: 'currency',
+		currency: 'USD',
+	}).format(amount)
+}
+
+const formatDate = (dateString: string) => {
+	const [year, month, day] = dateString.split('-').map(Number)
+	return new Date(year, month - 1, day).toLocaleDateString()
+}
+
+function ReceiptSummary({ receipt }: { receipt: Receipt }) {
+	return (
+		<Link to={`/receipts/${receipt.id}`} className="block p-3 transition-colors border rounded-md hover:bg-muted">
+			<div className="flex items-start justify-between gap-2">
+				<div className="min-w-0">
+					<p className="font-medium truncate">{receipt.vendor || 'No provider'}</p>
+					<p className="text-sm text-muted-foreground">
+						{formatDate(receipt.date)} · {receipt.user}
+					</p>
+				</div>
+				<p className="font-bold">{formatCurrency(receipt.amount)}</p>
+			</div>
+			<p className="mt-2 text-xs truncate text-muted-foreground">
+				#{receipt.id} · {receipt.files.map(file => file.original_filename).join(', ') || 'No files'}
+			</p>
+		</Link>
+	)
+}
+
+export default function DuplicatesPage() {
+	const { toast } = useToast()
+	const { isAdmin, canEdit } = useAuthContext()
+	const [pairs, setPairs] = useState<DuplicatePair[]>([])
+	const [loading, setLoading] = useState(true)
+	const [error, setError] = useState<string | null>(null)
+	const [scanning, setScanning] = useState(false)
+	const liveReloadTimeoutRef = useRef<ReturnType<typeof setTimeout>>()
+
+	const loadPairs = useCallback(async () => {
+		try {
+			const res = await duplicatesApi.getAll()
+			setPairs(res.data)
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to load possible duplicates')
+		} finally {
+			setLoading(false)
+		}
+	}, [])
+
+	useEffect(() => {
+		loadPairs()
+	}, [loadPairs])
+
+	// Receipts changed elsewhere, or stored files were fingerprinted
+	useServerEvents(['receipt.created', 'receipt.updated', 'receipt.deleted', 'receipt.file_added', 'job.updated'], event => {
+		if (event.type === 'job.updated') {
+			if (event.data.job.type !== 'hash-files' || event.data.job.status !== 'completed') return
+			setScanning(false)
+		}
+		clearTimeout(liveReloadTimeoutRef.current)
+		liveReloadTimeoutRef.current = setTimeout(loadPairs, LIVE_RELOAD_DEBOUNCE_MS)
+	})
+
+	useEffect(() => () => clearTimeout(liveReloadTimeoutRef.current), [])
+
+	const handleDismiss = async (pair: DuplicatePair) => {
+		try {
+			await duplicatesApi.dismiss([pair.receipts[0].id, pair.receipts[1].id])
+			setPairs(prev => prev.filter(p => p !== pair))
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to dismiss duplicate')
+		}
+	}
+
+	const handleScan = async () => {
+		try {
+			setScanning(true)
+			await duplicatesApi.scan()
+			toast({
+				title: 'Checking stored files',
+				description: 'Files stored before duplicate detection are being fingerprinted in the background',
+			})
+		} catch (err: any) {
+			setScanning(false)
+			setError(err.response?.data?.error || 'Failed to start duplicate scan')
+		}
+	}
+
+	return (
+		<div className="space-y-6">
+			<div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+				<div>
+					<h2 className="text-3xl font-bold">Possible Duplicates</h2>
+					<p className="text-muted-foreground">Receipts with identical files, similar images or the same details</p>
+				</div>
+				{isAdmin && (
+					<Button variant="outline" onClick={handleScan} disabled={scanning}>
+						{scanning ? 'Checking...' : 'Check Stored Files'}
+					</Button>
+				)}
+			</div>
+
+			{error && <div className="p-3 text-sm rounded-md bg-destructive/10 text-destructive">{error}</div>}
+
+			{loading ? (
+				<p className="text-muted-foreground">Loading...</p>
+			) : pairs.length === 0 ? (
+				<p className="text-muted-foreground">No possible duplicates found</p>
+			) : (
+				pairs.map(pair => (
+					<Card key={`${pair.receipts[0].id}-${pair.receipts[1].id}`}>
+						<CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+							<div>
+								<CardTitle className="text-base">{pair.reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(' · ')}</CardTitle>
+								<CardDescription>Open a receipt to delete it, or keep both if they are different</CardDescription>
+							</div>
+							{canEdit && (
+								<Button size="sm" variant="outline" onClick={() => handleDismiss(pair)}>
+									Not Duplicates
+								</Button>
+							)}
+						</CardHeader>
+						<CardContent className="grid gap-4 md:grid-cols-2">
+							<ReceiptSummary receipt={pair.receipts[0]} />
+							<ReceiptSummary receipt={pair.receipts[1]} />
+						</CardContent>
+					</Card>
+				))
+			)}
+		</div>
+	)
+}
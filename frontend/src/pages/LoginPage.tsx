@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import { LogIn } from 'lucide-react'
+import { authApi } from '../lib/api'
+import { useAuthContext } from '../contexts/AuthContext'
+import { Button } from '../components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Input } from '../components/ui/input'
+import { Label } from '../components/ui/label'
+
+interface LoginPageProps {
+	needsSetup: boolean // Create the first account instead of logging in
+}
+
+export default function LoginPage({ needsSetup }: LoginPageProps) {
+	const { completeLogin } = useAuthContext()
+	const [username, setUsername] = useState('')
+	const [password, setPassword] = useState('')
+	const [confirmPassword, setConfirmPassword] = useState('')
+	const [loading, setLoading] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+
+		if (!username.trim() || !password) {
+			setError('Please enter a username and password')
+			return
+		}
+		if (needsSetup && password !== confirmPassword) {
+			setError('Passwords do not match')
+			return
+		}
+
+		setLoading(true)
+		setError(null)
+
+		try {
+			const credentials = { username: username.trim(), password }
+			const response = needsSetup ? await authApi.setup(credentials) : await authApi.login(credentials)
+			completeLogin(response.data)
+		} catch (err: any) {
+			setError(err.response?.data?.error || (needsSetup ? 'Failed to create account' : 'Failed to log in'))
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	return (
+		<div className="flex items-center justify-center min-h-screen px-4 bg-background">
+			<Card className="w-full max-w-sm">
+				<CardHeader className="items-center text-center">
+					<img src="/logo.png" alt="MedStash" className="mb-2 size-12" />
+					<CardTitle>{needsSetup ? 'Create your account' : 'Log in to MedStash'}</CardTitle>
+					<CardDescription>
+						{needsSetup
+							? 'Authentication is enabled. Choose a username and password for the first account.'
+							: 'Enter your username and password to continue.'}
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<form onSubmit={handleSubmit} className="space-y-4">
+						<div>
+							<Label htmlFor="login-username">Username</Label>
+							<Input
+								id="login-username"
+								value={username}
+								onChange={e => setUsername(e.target.value)}
+								autoComplete="username"
+								autoFocus
+								disabled={loading}
+							/>
+						</div>
+						<div>
+							<Label htmlFor="login-password">Password</Label>
+							<Input
+								id="login-password"
+								type="password"
+								value={password}
+								onChange={e => setPassword(e.target.value)}
+								autoComplete={needsSetup ? 'new-password' : 'current-password'}
+								disabled={loading}
+							/>
+						</div>
+						{needsSetup && (
+							<div>
+								<Label htmlFor="login-confirm-password">Confirm Password</Label>
+								<Input
+									id="login-confirm-password"
+									type="password"
+									value={confirmPassword}
+									onChange={e => setConfirmPassword(e.target.value)}
+									autoComplete="new-password"
+									disabled={loading}
+								/>
+							</div>
+						)}
+						{error && <p className="text-sm text-destructive">{error}</p>}
+						<Button type="submit" className="w-full gap-2" disabled={loading}>
+							<LogIn className="w-4 h-4" />
+							{loading ? (needsSetup ? 'Creating...' : 'Logging in...') : needsSetup ? 'Create Account' : 'Log In'}
+						</Button>
+					</form>
+				</CardContent>
+			</Card>
+		</div>
+	)
+}
@@ -14,7 +14,17 @@ import {
 	User,
 	ReceiptType,
 	ReceiptTypeGroup,
+	ReimbursementStatus,
+	ReceiptHistoryEntry,
 } from '../lib/api'
+import { REIMBURSEMENT_STATUS_LABELS } from '../lib/reimbursement'
+import {
+	HISTORY_FIELD_LABELS,
+	RECEIPT_HISTORY_ACTION_LABELS,
+	describeHistoryActor,
+	formatHistoryValue,
+	parseHistoryTimestamp,
+} from '../lib/receiptHistory'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
@@ -24,9 +34,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue, SelectGr
 import { DatePicker } from '../components/DatePicker'
 import { Badge } from '../components/ui/badge'
 import { getBadgeClassName, getBorderClassName } from '../components/ui/color-picker'
-import { ArrowLeft, Download, Trash2, Upload, X, File, ChevronLeft, ChevronRight } from 'lucide-react'
+import { ArrowLeft, Download, Trash2, Upload, X, File, ChevronLeft, ChevronRight, Undo2 } from 'lucide-react'
 import { cn } from '../lib/utils'
 import { useConfirmDialog } from '../components/ConfirmDialog'
+import { describeDuplicateMatches, getDuplicateUploadMatches } from '../lib/duplicates'
+import { useAuthContext } from '../contexts/AuthContext'
+import { useServerEvents } from '../hooks/useServerEvents'
+import { isReceiptEvent } from '../lib/events'
 
 interface ReceiptFormData {
 	user_id?: number
@@ -37,6 +51,10 @@ interface ReceiptFormData {
 	description?: string
 	date?: string
 	notes?: string
+	reimbursement_status: ReimbursementStatus
+	reimbursed_date?: string
+	reimbursed_amount?: string
+	hsa_transaction_ref?: string
 	flag_ids: number[]
 }
 
@@ -48,6 +66,8 @@ export default function ReceiptDetailPage() {
 	const [allReceipts, setAllReceipts] = useState<Receipt[]>([])
 	const [flags, setFlags] = useState<Flag[]>([])
 	const [users, setUsers] = useState<User[]>([])
+	const [history, setHistory] = useState<ReceiptHistoryEntry[]>([])
+	const [revertingChange, setRevertingChange] = useState<string | null>(null)
 	const [receiptTypes, setReceiptTypes] = useState<ReceiptType[]>([])
 	const [receiptTypeGroups, setReceiptTypeGroups] = useState<ReceiptTypeGroup[]>([])
 	const [_loading, setLoading] = useState(true)
@@ -57,27 +77,31 @@ export default function ReceiptDetailPage() {
 	const [filePreviews, setFilePreviews] = useState<Map<number, string>>(new Map())
 	const [existingFilePreviews, setExistingFilePreviews] = useState<Map<number, string>>(new Map())
 	const [failedFilePreviews, setFailedFilePreviews] = useState<Set<number>>(new Set())
+	const [failedThumbnails, setFailedThumbnails] = useState<Set<number>>(new Set())
 	const [filesToDelete, setFilesToDelete] = useState<Set<number>>(new Set())
 	const [replacingFileId, setReplacingFileId] = useState<number | null>(null)
 	const fileInputRef = useRef<HTMLInputElement>(null)
 	const fileReplaceInputRefs = useRef<Map<number, HTMLInputElement>>(new Map())
 	const { confirm, ConfirmDialog } = useConfirmDialog()
+	const { canEdit } = useAuthContext()
 	const [quickVendors, setQuickVendors] = useState<Array<{ vendor: string; count: number }>>([])
 
 	const {
 		register,
 		handleSubmit,
-		formState: { errors },
+		formState: { errors, isDirty },
 		reset,
 		setValue,
 		watch,
 	} = useForm<ReceiptFormData>({
 		defaultValues: {
+			reimbursement_status: 'unreimbursed',
 			flag_ids: [],
 		},
 	})
 
 	const selectedFlagIds = watch('flag_ids') || []
+	const reimbursementStatus = watch('reimbursement_status') || 'unreimbursed'
 
 	useEffect(() => {
 		if (id) {
@@ -156,6 +180,86 @@ export default function ReceiptDetailPage() {
 		}
 	}, [id, allReceipts, navigate])
 
+	// Show a loaded receipt and fill the form with it
+	const applyReceipt = (receiptData: Receipt) => {
+		setReceipt(receiptData)
+
+		// Populate form
+		reset({
+			user_id: receiptData.user_id,
+			receipt_type_id: receiptData.receipt_type_id,
+			amount: receiptData.amount.toString(),
+			vendor: receiptData.vendor,
+			provider_address: receiptData.provider_address,
+			description: receiptData.description,
+			date: receiptData.date,
+			notes: receiptData.notes || '',
+			reimbursement_status: receiptData.reimbursement_status || 'unreimbursed',
+			reimbursed_date: receiptData.reimbursed_date || undefined,
+			reimbursed_amount: receiptData.reimbursed_amount != null ? receiptData.reimbursed_amount.toString() : '',
+			hsa_transaction_ref: receiptData.hsa_transaction_ref || '',
+			flag_ids: receiptData.flags.map(f => f.id),
+		})
+
+		// Generate preview URLs for existing files
+		if (receiptData.files.length > 0 && id) {
+			const previews = new Map<number, string>()
+			// Use VITE_API_URL if set, otherwise use relative path (for Vite proxy)
+			const apiBase = import.meta.env.VITE_API_URL || '/api'
+			receiptData.files.forEach(file => {
+				const previewUrl = `${apiBase}/receipts/${id}/files/${file.id}`
+				previews.set(file.id, previewUrl)
+			})
+			setExistingFilePreviews(previews)
+			// Reset failed previews when loading new data
+			setFailedFilePreviews(new Set())
+			setFailedThumbnails(new Set())
+		}
+
+		// Reset files marked for deletion when loading new data
+		setFilesToDelete(new Set())
+	}
+
+	// Reload only the receipt, e.g. after it changed on another device
+	const reloadReceipt = async () => {
+		if (!id) return
+		try {
+			const response = await receiptsApi.getById(parseInt(id))
+			applyReceipt(response.data)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to load receipt')
+		}
+	}
+
+	// The history is secondary to the receipt, so failing to load it leaves the timeline empty
+	const loadHistory = async () => {
+		if (!id) return
+		try {
+			const response = await receiptsApi.getHistory(parseInt(id))
+			setHistory(response.data)
+		} catch {
+			setHistory([])
+		}
+	}
+
+	// Keep the receipt current when it changes elsewhere; unsaved edits are never overwritten
+	useServerEvents(['receipt.updated', 'receipt.file_added', 'receipt.deleted'], event => {
+		if (!id || !isReceiptEvent(event) || event.data.receipt_id !== parseInt(id) || saving) return
+		if (event.type === 'receipt.deleted') {
+			setError('This receipt has been deleted')
+			return
+		}
+		loadHistory()
+		if (isDirty || newFiles.length > 0 || filesToDelete.size > 0) {
+			toast({
+				title: 'Receipt changed elsewhere',
+				description: 'Reload the page to see the latest version. Saving will overwrite those changes.',
+			})
+			return
+		}
+		reloadReceipt()
+	})
+
 	const loadData = async () => {
 		if (!id) return
 
@@ -170,8 +274,8 @@ export default function ReceiptDetailPage() {
 				receiptTypeGroupsApi.getAll(),
 			])
 
-			const receiptData = receiptRes.data
-			setReceipt(receiptData)
+			applyReceipt(receiptRes.data)
+			loadHistory()
 
 			// Sort all receipts by date descending (newest first) to match receipts page default
 			const sortedReceipts = [...allReceiptsRes.data].sort((a, b) => {
@@ -186,35 +290,6 @@ export default function ReceiptDetailPage() {
 			setReceiptTypes(receiptTypesRes.data)
 			setReceiptTypeGroups(groupsRes.data)
 
-			// Populate form
-			reset({
-				user_id: receiptData.user_id,
-				receipt_type_id: receiptData.receipt_type_id,
-				amount: receiptData.amount.toString(),
-				vendor: receiptData.vendor,
-				provider_address: receiptData.provider_address,
-				description: receiptData.description,
-				date: receiptData.date,
-				notes: receiptData.notes || '',
-				flag_ids: receiptData.flags.map(f => f.id),
-			})
-
-			// Generate preview URLs for existing files
-			if (receiptData.files.length > 0 && id) {
-				const previews = new Map<number, string>()
-				// Use VITE_API_URL if set, otherwise use relative path (for Vite proxy)
-				const apiBase = import.meta.env.VITE_API_URL || '/api'
-				receiptData.files.forEach(file => {
-					const previewUrl = `${apiBase}/receipts/${id}/files/${file.id}`
-					previews.set(file.id, previewUrl)
-				})
-				setExistingFilePreviews(previews)
-				// Reset failed previews when loading new data
-				setFailedFilePreviews(new Set())
-			}
-
-			// Reset files marked for deletion when loading new data
-			setFilesToDelete(new Set())
 		} catch (err: any) {
 			setError(err.response?.data?.error || 'Failed to load receipt')
 		} finally {
@@ -321,6 +396,14 @@ export default function ReceiptDetailPage() {
 				amount = parseFloat(cleaned) || 0
 			}
 
+			// Clean and parse reimbursed amount (empty means not set)
+			let reimbursedAmount: number | null = null
+			if (data.reimbursed_amount && data.reimbursed_amount.trim() !== '') {
+				const cleaned = data.reimbursed_amount.replace(/[$,\s]/g, '')
+				const parsed = parseFloat(cleaned)
+				reimbursedAmount = isNaN(parsed) ? null : parsed
+			}
+
 			const updateData: UpdateReceiptInput = {
 				user_id: data.user_id,
 				receipt_type_id: data.receipt_type_id,
@@ -330,6 +413,10 @@ export default function ReceiptDetailPage() {
 				description: data.description,
 				date: data.date,
 				notes: data.notes || undefined,
+				reimbursement_status: data.reimbursement_status,
+				reimbursed_date: data.reimbursed_date || null,
+				reimbursed_amount: reimbursedAmount,
+				hsa_transaction_ref: data.hsa_transaction_ref || null,
 				flag_ids: selectedFlagIds,
 			}
 
@@ -346,13 +433,30 @@ export default function ReceiptDetailPage() {
 
 			// Add new files if any (use updated receipt data for file naming)
 			if (newFiles.length > 0 && updatedReceipt) {
-				await receiptsApi.addFiles(parseInt(id), newFiles, {
+				const fileData = {
 					date: updatedReceipt.date,
 					user: updatedReceipt.user,
 					vendor: updatedReceipt.vendor,
 					amount: updatedReceipt.amount,
 					type: updatedReceipt.type,
-				})
+				}
+				try {
+					await receiptsApi.addFiles(parseInt(id), newFiles, fileData)
+				} catch (err) {
+					// Files that are already stored are only added again once confirmed
+					const duplicates = getDuplicateUploadMatches(err)
+					if (
+						!duplicates ||
+						!(await confirm({
+							title: 'Duplicate Files',
+							message: `These files are already stored with ${describeDuplicateMatches(duplicates)}. Add them anyway?`,
+							confirmText: 'Add Anyway',
+						}))
+					) {
+						throw err
+					}
+					await receiptsApi.addFiles(parseInt(id), newFiles, fileData, true)
+				}
 			}
 
 			// Clean up preview URLs
@@ -456,6 +560,11 @@ export default function ReceiptDetailPage() {
 				newSet.delete(fileId)
 				return newSet
 			})
+			setFailedThumbnails(prev => {
+				const newSet = new Set(prev)
+				newSet.delete(fileId)
+				return newSet
+			})
 
 			// Regenerate preview URL
 			const apiBase = import.meta.env.VITE_API_URL || '/api'
@@ -495,7 +604,7 @@ export default function ReceiptDetailPage() {
 	const handleDeleteReceipt = async () => {
 		if (!id) return
 		const confirmed = await confirm({
-			message: 'Are you sure you want to delete this receipt? This action cannot be undone.',
+			message: 'Move this receipt and its files to the trash? It can be restored from the Trash page.',
 			variant: 'destructive',
 		})
 		if (!confirmed) return
@@ -508,6 +617,38 @@ export default function ReceiptDetailPage() {
 		}
 	}
 
+	const handleRevertField = async (entry: ReceiptHistoryEntry, field: string) => {
+		if (!id) return
+		// Reverting reloads the form; files waiting to be added stay staged
+		if (isDirty || filesToDelete.size > 0) {
+			const confirmed = await confirm({
+				title: 'Unsaved Changes',
+				message: 'Reverting reloads the receipt and discards your unsaved edits. Continue?',
+				confirmText: 'Revert',
+			})
+			if (!confirmed) return
+		}
+
+		setRevertingChange(`${entry.id}:${field}`)
+		try {
+			const response = await receiptsApi.revertHistoryField(parseInt(id), entry.id, field)
+			applyReceipt(response.data)
+			await loadHistory()
+			toast({
+				title: 'Change reverted',
+				description: `${HISTORY_FIELD_LABELS[field] ?? field} is back to ${formatHistoryValue(field, entry.changes[field].old)}`,
+			})
+		} catch (err: any) {
+			toast({
+				title: 'Revert Failed',
+				description: err.response?.data?.error || 'Failed to revert change',
+				variant: 'destructive',
+			})
+		} finally {
+			setRevertingChange(null)
+		}
+	}
+
 	// if (loading) {
 	// 	return <div className="py-8 text-center">Loading receipt...</div>
 	// }
@@ -543,15 +684,17 @@ export default function ReceiptDetailPage() {
 					</div>
 				</div>
 
-				<div className="flex gap-2">
-					<Button variant="destructive" onClick={handleDeleteReceipt}>
-						<Trash2 className="w-4 h-4 mr-1" />
-						Delete
-					</Button>
-					<Button type="submit" form="receipt-form" disabled={saving}>
-						{saving ? 'Saving...' : 'Save'}
-					</Button>
-				</div>
+				{canEdit && (
+					<div className="flex gap-2">
+						<Button variant="destructive" onClick={handleDeleteReceipt}>
+							<Trash2 className="w-4 h-4 mr-1" />
+							Delete
+						</Button>
+						<Button type="submit" form="receipt-form" disabled={saving}>
+							{saving ? 'Saving...' : 'Save'}
+						</Button>
+					</div>
+				)}
 			</div>
 
 			<div className="flex flex-col max-w-full gap-6 lg:flex-row">
@@ -559,227 +702,288 @@ export default function ReceiptDetailPage() {
 				<div className="flex-1 min-w-[50%]">
 					<Card>
 						<CardHeader>
-							<CardTitle>Edit Receipt ({id})</CardTitle>
-							<CardDescription>Update receipt information and manage files</CardDescription>
+							<CardTitle>
+								{canEdit ? 'Edit Receipt' : 'Receipt'} ({id})
+							</CardTitle>
+							<CardDescription>{canEdit ? 'Update receipt information and manage files' : 'Your account can view this receipt but not change it'}</CardDescription>
 						</CardHeader>
 						<CardContent>
 							<form id="receipt-form" onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-								{/* Basic Info */}
-								<div className="grid grid-cols-2 gap-4">
-									<div>
-										<Label htmlFor="user_id">User</Label>
-										{users.length > 1 ? (
-											<Select
-												value={watch('user_id')?.toString() || ''}
-												onValueChange={value => setValue('user_id', parseInt(value), { shouldValidate: true })}
-											>
-												<SelectTrigger id="user_id">
-													<SelectValue placeholder="Select a user..." />
-												</SelectTrigger>
-												<SelectContent>
-													{users.map(user => (
-														<SelectItem key={user.id} value={user.id.toString()}>
-															{user.name}
-														</SelectItem>
-													))}
-												</SelectContent>
-											</Select>
-										) : users.length === 1 ? (
-											<Input id="user_id" value={users[0].name} readOnly className="cursor-not-allowed bg-muted" />
-										) : (
-											<Input id="user_id" placeholder="No users available" disabled />
-										)}
-									</div>
-									<div>
-										<Label htmlFor="receipt_type_id">Receipt Type</Label>
-										{receiptTypes.length > 1 ? (
-											<Select
-												value={watch('receipt_type_id')?.toString() || ''}
-												onValueChange={value => setValue('receipt_type_id', value ? parseInt(value) : undefined, { shouldValidate: true })}
-											>
-												<SelectTrigger id="receipt_type_id">
-													<SelectValue placeholder="Select a type..." />
-												</SelectTrigger>
-												<SelectContent>
-													{(() => {
-														// Organize types by group
-														const grouped: Record<number | 'ungrouped', ReceiptType[]> = { ungrouped: [] }
-														const sortedGroups = [...receiptTypeGroups].sort((a, b) => {
-															if (a.display_order !== b.display_order) return a.display_order - b.display_order
-															return a.name.localeCompare(b.name)
-														})
+								<fieldset disabled={!canEdit} className="space-y-6">
+									{/* Basic Info */}
+									<div className="grid grid-cols-2 gap-4">
+										<div>
+											<Label htmlFor="user_id">User</Label>
+											{users.length > 1 ? (
+												<Select
+													value={watch('user_id')?.toString() || ''}
+													onValueChange={value => setValue('user_id', parseInt(value), { shouldValidate: true })}
+												>
+													<SelectTrigger id="user_id">
+														<SelectValue placeholder="Select a user..." />
+													</SelectTrigger>
+													<SelectContent>
+														{users.map(user => (
+															<SelectItem key={user.id} value={user.id.toString()}>
+																{user.name}
+															</SelectItem>
+														))}
+													</SelectContent>
+												</Select>
+											) : users.length === 1 ? (
+												<Input id="user_id" value={users[0].name} readOnly className="cursor-not-allowed bg-muted" />
+											) : (
+												<Input id="user_id" placeholder="No users available" disabled />
+											)}
+										</div>
+										<div>
+											<Label htmlFor="receipt_type_id">Receipt Type</Label>
+											{receiptTypes.length > 1 ? (
+												<Select
+													value={watch('receipt_type_id')?.toString() || ''}
+													onValueChange={value => setValue('receipt_type_id', value ? parseInt(value) : undefined, { shouldValidate: true })}
+												>
+													<SelectTrigger id="receipt_type_id">
+														<SelectValue placeholder="Select a type..." />
+													</SelectTrigger>
+													<SelectContent>
+														{(() => {
+															// Organize types by group
+															const grouped: Record<number | 'ungrouped', ReceiptType[]> = { ungrouped: [] }
+															const sortedGroups = [...receiptTypeGroups].sort((a, b) => {
+																if (a.display_order !== b.display_order) return a.display_order - b.display_order
+																return a.name.localeCompare(b.name)
+															})
 
-														sortedGroups.forEach(group => {
-															grouped[group.id] = []
-														})
+															sortedGroups.forEach(group => {
+																grouped[group.id] = []
+															})
 
-														receiptTypes.forEach(type => {
-															if (type.group_id) {
-																if (!grouped[type.group_id]) {
-																	grouped[type.group_id] = []
+															receiptTypes.forEach(type => {
+																if (type.group_id) {
+																	if (!grouped[type.group_id]) {
+																		grouped[type.group_id] = []
+																	}
+																	grouped[type.group_id].push(type)
+																} else {
+																	grouped.ungrouped.push(type)
 																}
-																grouped[type.group_id].push(type)
-															} else {
-																grouped.ungrouped.push(type)
-															}
-														})
+															})
 
-														// Sort types within each group
-														Object.keys(grouped).forEach(key => {
-															grouped[key as number | 'ungrouped'].sort((a, b) => {
-																if (a.display_order !== b.display_order) return a.display_order - b.display_order
-																return a.name.localeCompare(b.name)
+															// Sort types within each group
+															Object.keys(grouped).forEach(key => {
+																grouped[key as number | 'ungrouped'].sort((a, b) => {
+																	if (a.display_order !== b.display_order) return a.display_order - b.display_order
+																	return a.name.localeCompare(b.name)
+																})
 															})
-														})
 
-														// Render grouped options
-														const hasGroups = sortedGroups.length > 0 && sortedGroups.some(g => grouped[g.id]?.length > 0)
-														const hasUngrouped = grouped.ungrouped.length > 0
+															// Render grouped options
+															const hasGroups = sortedGroups.length > 0 && sortedGroups.some(g => grouped[g.id]?.length > 0)
+															const hasUngrouped = grouped.ungrouped.length > 0
 
-														if (!hasGroups && !hasUngrouped) {
-															return receiptTypes.map(type => (
-																<SelectItem key={type.id} value={type.id.toString()}>
-																	{type.name}
-																</SelectItem>
-															))
-														}
+															if (!hasGroups && !hasUngrouped) {
+																return receiptTypes.map(type => (
+																	<SelectItem key={type.id} value={type.id.toString()}>
+																		{type.name}
+																	</SelectItem>
+																))
+															}
 
-														return (
-															<>
-																{sortedGroups.map(group => {
-																	const typesInGroup = grouped[group.id] || []
-																	if (typesInGroup.length === 0) return null
-																	return (
-																		<SelectGroup key={group.id}>
-																			<SelectLabel>{group.name}</SelectLabel>
-																			{typesInGroup.map(type => (
+															return (
+																<>
+																	{sortedGroups.map(group => {
+																		const typesInGroup = grouped[group.id] || []
+																		if (typesInGroup.length === 0) return null
+																		return (
+																			<SelectGroup key={group.id}>
+																				<SelectLabel>{group.name}</SelectLabel>
+																				{typesInGroup.map(type => (
+																					<SelectItem key={type.id} value={type.id.toString()}>
+																						{type.name}
+																					</SelectItem>
+																				))}
+																			</SelectGroup>
+																		)
+																	})}
+																	{hasUngrouped && (
+																		<SelectGroup>
+																			<SelectLabel>Ungrouped</SelectLabel>
+																			{grouped.ungrouped.map(type => (
 																				<SelectItem key={type.id} value={type.id.toString()}>
 																					{type.name}
 																				</SelectItem>
 																			))}
 																		</SelectGroup>
-																	)
-																})}
-																{hasUngrouped && (
-																	<SelectGroup>
-																		<SelectLabel>Ungrouped</SelectLabel>
-																		{grouped.ungrouped.map(type => (
-																			<SelectItem key={type.id} value={type.id.toString()}>
-																				{type.name}
-																			</SelectItem>
-																		))}
-																	</SelectGroup>
-																)}
-															</>
-														)
+																	)}
+																</>
+															)
+														})()}
+													</SelectContent>
+												</Select>
+											) : receiptTypes.length === 1 ? (
+												<Input id="receipt_type_id" value={receiptTypes[0].name} readOnly className="cursor-not-allowed bg-muted" />
+											) : (
+												<Input id="receipt_type_id" placeholder="No types available" disabled />
+											)}
+										</div>
+									</div>
+
+									<div className="grid grid-cols-2 gap-4">
+										<div>
+											<Label htmlFor="date">Date of Service</Label>
+											<DatePicker id="date" value={watch('date')} onChange={value => setValue('date', value, { shouldValidate: true })} />
+										</div>
+										<div>
+											<Label htmlFor="amount">Amount Paid</Label>
+											<div className="relative">
+												<span className="absolute -translate-y-1/2 left-3 top-1/2 text-muted-foreground">$</span>
+												<Input
+													id="amount"
+													type="text"
+													inputMode="decimal"
+													{...(() => {
+														const { onChange, ...rest } = register('amount', {
+															validate: validateAmount,
+														})
+														return {
+															...rest,
+															onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+																const value = e.target.value.replace(/[^0-9.,\s]/g, '')
+																e.target.value = value
+																onChange(e)
+																setValue('amount', value, { shouldValidate: true })
+															},
+														}
 													})()}
-												</SelectContent>
-											</Select>
-										) : receiptTypes.length === 1 ? (
-											<Input id="receipt_type_id" value={receiptTypes[0].name} readOnly className="cursor-not-allowed bg-muted" />
-										) : (
-											<Input id="receipt_type_id" placeholder="No types available" disabled />
+													placeholder="0.00"
+													className="pl-7"
+												/>
+											</div>
+											{errors.amount && <p className="mt-1 text-sm text-destructive">{errors.amount.message as string}</p>}
+										</div>
+									</div>
+
+									<div>
+										<Label htmlFor="description">Description</Label>
+										<Textarea id="description" {...register('description')} placeholder="Description of service or item purchased" rows={3} />
+									</div>
+
+									<div>
+										<Label htmlFor="vendor">Provider Name</Label>
+										<Input id="vendor" {...register('vendor')} placeholder="CVS Pharmacy" />
+										{quickVendors.length > 0 && (
+											<div className="mt-2">
+												<div className="flex flex-wrap gap-2">
+													{quickVendors.map((item, index) => (
+														<Button
+															key={index}
+															type="button"
+															variant="outline"
+															size="sm"
+															onClick={() => setValue('vendor', item.vendor, { shouldValidate: true })}
+															className="text-xs"
+														>
+															{item.vendor}
+														</Button>
+													))}
+												</div>
+											</div>
 										)}
 									</div>
-								</div>
 
-								<div className="grid grid-cols-2 gap-4">
 									<div>
-										<Label htmlFor="date">Date of Service</Label>
-										<DatePicker id="date" value={watch('date')} onChange={value => setValue('date', value, { shouldValidate: true })} />
+										<Label htmlFor="provider_address">Provider Address</Label>
+										<Textarea id="provider_address" {...register('provider_address')} placeholder="123 Main St, City, State ZIP" rows={2} />
 									</div>
+
 									<div>
-										<Label htmlFor="amount">Amount Paid</Label>
-										<div className="relative">
-											<span className="absolute -translate-y-1/2 left-3 top-1/2 text-muted-foreground">$</span>
-											<Input
-												id="amount"
-												type="text"
-												inputMode="decimal"
-												{...(() => {
-													const { onChange, ...rest } = register('amount', {
-														validate: validateAmount,
-													})
-													return {
-														...rest,
-														onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
-															const value = e.target.value.replace(/[^0-9.,\s]/g, '')
-															e.target.value = value
-															onChange(e)
-															setValue('amount', value, { shouldValidate: true })
-														},
-													}
-												})()}
-												placeholder="0.00"
-												className="pl-7"
-											/>
-										</div>
-										{errors.amount && <p className="mt-1 text-sm text-destructive">{errors.amount.message as string}</p>}
+										<Label htmlFor="notes">Notes (Optional)</Label>
+										<Textarea id="notes" {...register('notes')} placeholder="Additional notes" rows={2} />
 									</div>
-								</div>
 
-								<div>
-									<Label htmlFor="description">Description</Label>
-									<Textarea id="description" {...register('description')} placeholder="Description of service or item purchased" rows={3} />
-								</div>
+									{/* Reimbursement */}
+									<div className="p-4 space-y-4 border rounded-md">
+										<div className="grid grid-cols-2 gap-4">
+											<div>
+												<Label htmlFor="reimbursement_status">Reimbursement Status</Label>
+												<Select
+													value={reimbursementStatus}
+													onValueChange={value => setValue('reimbursement_status', value as ReimbursementStatus, { shouldDirty: true })}
+												>
+													<SelectTrigger id="reimbursement_status">
+														<SelectValue />
+													</SelectTrigger>
+													<SelectContent>
+														{(Object.keys(REIMBURSEMENT_STATUS_LABELS) as ReimbursementStatus[]).map(status => (
+															<SelectItem key={status} value={status}>
+																{REIMBURSEMENT_STATUS_LABELS[status]}
+															</SelectItem>
+														))}
+													</SelectContent>
+												</Select>
+											</div>
+											<div>
+												<Label htmlFor="hsa_transaction_ref">HSA Transaction Reference</Label>
+												<Input id="hsa_transaction_ref" {...register('hsa_transaction_ref')} placeholder="Transaction or claim ID" />
+											</div>
+										</div>
+										{reimbursementStatus !== 'unreimbursed' && (
+											<div className="grid grid-cols-2 gap-4">
+												<div>
+													<Label htmlFor="reimbursed_date">Reimbursed Date</Label>
+													<DatePicker
+														id="reimbursed_date"
+														value={watch('reimbursed_date')}
+														onChange={value => setValue('reimbursed_date', value, { shouldDirty: true })}
+													/>
+												</div>
+												<div>
+													<Label htmlFor="reimbursed_amount">Reimbursed Amount</Label>
+													<div className="relative">
+														<span className="absolute -translate-y-1/2 left-3 top-1/2 text-muted-foreground">$</span>
+														<Input
+															id="reimbursed_amount"
+															type="text"
+															inputMode="decimal"
+															{...register('reimbursed_amount', { validate: validateAmount })}
+															placeholder={reimbursementStatus === 'reimbursed' ? watch('amount') || '0.00' : '0.00'}
+															className="pl-7"
+														/>
+													</div>
+													{errors.reimbursed_amount && (
+														<p className="mt-1 text-sm text-destructive">{errors.reimbursed_amount.message as string}</p>
+													)}
+												</div>
+											</div>
+										)}
+									</div>
 
-								<div>
-									<Label htmlFor="vendor">Provider Name</Label>
-									<Input id="vendor" {...register('vendor')} placeholder="CVS Pharmacy" />
-									{quickVendors.length > 0 && (
-										<div className="mt-2">
-											<div className="flex flex-wrap gap-2">
-												{quickVendors.map((item, index) => (
+									{/* Flags */}
+									{flags.length > 0 && (
+										<div>
+											<Label>Flags</Label>
+											<div className="flex flex-wrap gap-2 mt-2">
+												{flags.map(flag => (
 													<Button
-														key={index}
+														key={flag.id}
 														type="button"
-														variant="outline"
+														variant={'outline'}
 														size="sm"
-														onClick={() => setValue('vendor', item.vendor, { shouldValidate: true })}
-														className="text-xs"
+														onClick={() => toggleFlag(flag.id)}
+														className={
+															flag.color
+																? cn(selectedFlagIds.includes(flag.id) && getBadgeClassName(flag.color), getBorderClassName(flag.color))
+																: undefined
+														}
 													>
-														{item.vendor}
+														{flag.name}
 													</Button>
 												))}
 											</div>
 										</div>
 									)}
-								</div>
-
-								<div>
-									<Label htmlFor="provider_address">Provider Address</Label>
-									<Textarea id="provider_address" {...register('provider_address')} placeholder="123 Main St, City, State ZIP" rows={2} />
-								</div>
-
-								<div>
-									<Label htmlFor="notes">Notes (Optional)</Label>
-									<Textarea id="notes" {...register('notes')} placeholder="Additional notes" rows={2} />
-								</div>
-
-								{/* Flags */}
-								{flags.length > 0 && (
-									<div>
-										<Label>Flags</Label>
-										<div className="flex flex-wrap gap-2 mt-2">
-											{flags.map(flag => (
-												<Button
-													key={flag.id}
-													type="button"
-													variant={'outline'}
-													size="sm"
-													onClick={() => toggleFlag(flag.id)}
-													className={
-														flag.color
-															? cn(selectedFlagIds.includes(flag.id) && getBadgeClassName(flag.color), getBorderClassName(flag.color))
-															: undefined
-													}
-												>
-													{flag.name}
-												</Button>
-											))}
-										</div>
-									</div>
-								)}
+								</fieldset>
 
 								{/* Existing Files */}
 								<div>
@@ -825,7 +1029,7 @@ export default function ReceiptDetailPage() {
 																			<Download className="w-4 h-4" />
 																		</Button>
 																	)}
-																	{failedFilePreviews.has(file.id) && (
+																	{failedFilePreviews.has(file.id) && canEdit && (
 																		<>
 																			<input
 																				type="file"
@@ -861,17 +1065,19 @@ export default function ReceiptDetailPage() {
 																	)}
 																</>
 															)}
-															<Button
-																type="button"
-																variant="ghost"
-																size="icon"
-																onClick={() => (isMarkedForDeletion ? handleRestoreFile(file.id) : handleDeleteFile(file.id))}
-																className={cn(
-																	isMarkedForDeletion ? 'text-primary hover:text-primary' : 'text-destructive hover:text-destructive'
-																)}
-															>
-																{isMarkedForDeletion ? <X className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
-															</Button>
+															{canEdit && (
+																<Button
+																	type="button"
+																	variant="ghost"
+																	size="icon"
+																	onClick={() => (isMarkedForDeletion ? handleRestoreFile(file.id) : handleDeleteFile(file.id))}
+																	className={cn(
+																		isMarkedForDeletion ? 'text-primary hover:text-primary' : 'text-destructive hover:text-destructive'
+																	)}
+																>
+																	{isMarkedForDeletion ? <X className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+																</Button>
+															)}
 														</div>
 													</div>
 												)
@@ -881,77 +1087,140 @@ export default function ReceiptDetailPage() {
 								</div>
 
 								{/* Add New Files */}
-								<div>
-									<Label>Add Files</Label>
-									<div className="mt-2">
-										<input
-											ref={fileInputRef}
-											type="file"
-											multiple
-											onChange={onFileInput}
-											className="hidden"
-											id="add-files-input"
-											accept="image/*,.pdf"
-										/>
-										<Button type="button" variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
-											<Upload className="w-4 h-4 mr-1" />
-											Select Files
-										</Button>
-									</div>
-									{newFiles.length > 0 && (
-										<div className="mt-4 space-y-2">
-											{newFiles.map((file, index) => (
-												<div
-													key={index}
-													className="flex items-center justify-between p-2 border-2 border-dashed rounded border-primary/50 bg-primary/5"
-												>
-													<div className="flex items-center flex-1 min-w-0 gap-2">
-														<File className="flex-shrink-0 w-4 h-4" />
-														<span className="text-sm truncate">{file.name}</span>
-														<Badge variant="secondary" className="ml-2 text-xs">
-															New
-														</Badge>
-													</div>
-													<div className="flex items-center gap-2">
-														<span className="text-xs text-muted-foreground">{(file.size / 1024).toFixed(1)} KB</span>
-														<Button
-															type="button"
-															variant="ghost"
-															size="icon"
-															onClick={() => removeNewFile(index)}
-															className="flex-shrink-0"
-														>
-															<X className="w-4 h-4" />
-														</Button>
-													</div>
-												</div>
-											))}
+								{canEdit && (
+									<div>
+										<Label>Add Files</Label>
+										<div className="mt-2">
+											<input
+												ref={fileInputRef}
+												type="file"
+												multiple
+												onChange={onFileInput}
+												className="hidden"
+												id="add-files-input"
+												accept="image/*,.pdf"
+											/>
+											<Button type="button" variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+												<Upload className="w-4 h-4 mr-1" />
+												Select Files
+											</Button>
 										</div>
-									)}
-								</div>
+										{newFiles.length > 0 && (
+											<div className="mt-4 space-y-2">
+												{newFiles.map((file, index) => (
+													<div
+														key={index}
+														className="flex items-center justify-between p-2 border-2 border-dashed rounded border-primary/50 bg-primary/5"
+													>
+														<div className="flex items-center flex-1 min-w-0 gap-2">
+															<File className="flex-shrink-0 w-4 h-4" />
+															<span className="text-sm truncate">{file.name}</span>
+															<Badge variant="secondary" className="ml-2 text-xs">
+																New
+															</Badge>
+														</div>
+														<div className="flex items-center gap-2">
+															<span className="text-xs text-muted-foreground">{(file.size / 1024).toFixed(1)} KB</span>
+															<Button
+																type="button"
+																variant="ghost"
+																size="icon"
+																onClick={() => removeNewFile(index)}
+																className="flex-shrink-0"
+															>
+																<X className="w-4 h-4" />
+															</Button>
+														</div>
+													</div>
+												))}
+											</div>
+										)}
+									</div>
+								)}
 
 								{error && <div className="p-4 rounded-md bg-destructive/10 text-destructive">{error}</div>}
 
-								<div className="flex flex-col justify-end gap-4 sm:flex-row">
-									<Button
-										type="button"
-										variant="outline"
-										onClick={() => {
-											setFilesToDelete(new Set())
-											setNewFiles([])
-											setFilePreviews(new Map())
-											navigate('/')
-										}}
-									>
-										Cancel
-									</Button>
-									<Button type="submit" disabled={saving}>
-										{saving ? 'Saving...' : 'Save'}
-									</Button>
-								</div>
+								{canEdit && (
+									<div className="flex flex-col justify-end gap-4 sm:flex-row">
+										<Button
+											type="button"
+											variant="outline"
+											onClick={() => {
+												setFilesToDelete(new Set())
+												setNewFiles([])
+												setFilePreviews(new Map())
+												navigate('/')
+											}}
+										>
+											Cancel
+										</Button>
+										<Button type="submit" disabled={saving}>
+											{saving ? 'Saving...' : 'Save'}
+										</Button>
+									</div>
+								)}
 							</form>
 						</CardContent>
 					</Card>
+
+					{/* Change History */}
+					<Card className="mt-6">
+						<CardHeader>
+							<CardTitle>History</CardTitle>
+							<CardDescription>Every change to this receipt and its files, newest first</CardDescription>
+						</CardHeader>
+						<CardContent>
+							{history.length === 0 ? (
+								<p className="text-sm text-muted-foreground">No changes recorded yet</p>
+							) : (
+								<ol className="space-y-4">
+									{history.map(entry => (
+										<li key={entry.id} className="pl-4 border-l-2 border-muted">
+											<div className="flex flex-wrap items-baseline gap-x-2">
+												<span className="text-sm font-medium">{RECEIPT_HISTORY_ACTION_LABELS[entry.action]}</span>
+												<span className="text-xs text-muted-foreground">
+													{describeHistoryActor(entry)} · {parseHistoryTimestamp(entry.created_at).toLocaleString()}
+												</span>
+												{entry.reverted_entry_id !== null && (
+													<Badge variant="outline" className="text-xs">
+														Revert
+													</Badge>
+												)}
+											</div>
+											{/* Creation and deletion list every field, so only updates and file changes show values */}
+											{entry.action !== 'created' && entry.action !== 'deleted' && (
+												<ul className="mt-1 space-y-1">
+													{Object.entries(entry.changes).map(([field, change]) => (
+														<li key={field} className="flex flex-wrap items-center gap-x-2 text-sm">
+															<span className="text-muted-foreground">{HISTORY_FIELD_LABELS[field] ?? field}:</span>
+															<span className="line-through text-muted-foreground">
+																{formatHistoryValue(field, change.old)}
+															</span>
+															<span>→ {formatHistoryValue(field, change.new)}</span>
+															{canEdit && entry.action === 'updated' && (
+																<Button
+																	type="button"
+																	variant="ghost"
+																	size="sm"
+																	className="h-6 px-2"
+																	disabled={revertingChange !== null}
+																	onClick={() => handleRevertField(entry, field)}
+																	title={`Put ${HISTORY_FIELD_LABELS[field] ?? field} back to its earlier value`}
+																>
+																	<Undo2 className="w-3 h-3 mr-1" />
+																	{revertingChange === `${entry.id}:${field}` ? 'Reverting...' : 'Revert'}
+																</Button>
+															)}
+														</li>
+													))}
+												</ul>
+											)}
+										</li>
+									))}
+								</ol>
+							)}
+						</CardContent>
+					</Card>
 				</div>
 
 				{/* Preview Sidebar - Only on widescreens */}
@@ -993,13 +1262,24 @@ export default function ReceiptDetailPage() {
 												<div className="bg-background">
 													{previewUrl && isImage && !failedFilePreviews.has(file.id) ? (
 														<img
-															src={previewUrl}
+															src={`${previewUrl}?size=medium`}
 															alt={file.original_filename}
 															className="object-contain w-full h-auto max-h-96"
 															onError={() => {
 																setFailedFilePreviews(prev => new Set(prev).add(file.id))
 															}}
 														/>
+													) : previewUrl && isPdf && !failedFilePreviews.has(file.id) && !failedThumbnails.has(file.id) ? (
+														<a href={previewUrl} target="_blank" rel="noopener noreferrer" title={`Open ${file.original_filename}`}>
+															<img
+																src={`${previewUrl}?size=medium`}
+																alt={`First page of ${file.original_filename}`}
+																className="object-contain w-full h-auto max-h-96"
+																onError={() => {
+																	setFailedThumbnails(prev => new Set(prev).add(file.id))
+																}}
+															/>
+														</a>
 													) : previewUrl && isPdf && !failedFilePreviews.has(file.id) ? (
 														<iframe src={previewUrl} className="w-full border-0 h-96" title={file.original_filename} />
 													) : failedFilePreviews.has(file.id) ? (
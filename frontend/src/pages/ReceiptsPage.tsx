@@ -1,65 +1,258 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { receiptsApi, flagsApi, Receipt, Flag } from '../lib/api'
+import {
+	receiptsApi,
+	flagsApi,
+	usersApi,
+	searchApi,
+	receiptTypesApi,
+	receiptTypeGroupsApi,
+	Receipt,
+	Flag,
+	User,
+	ReceiptType,
+	ReceiptTypeGroup,
+	ReceiptQuery,
+	ExportQuery,
+	ReceiptSortField,
+	ReceiptSearchResult,
+	ReimbursementStatus,
+} from '../lib/api'
 import { Card, CardContent } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '../components/ui/select'
 import { Checkbox } from '../components/ui/checkbox'
-import { Search, File, ArrowUp, ArrowDown, ArrowUpDown, Flag as FlagIcon, Edit, RefreshCw } from 'lucide-react'
+import { Popover, PopoverContent, PopoverTrigger } from '../components/ui/popover'
+import { DatePicker } from '../components/DatePicker'
+import { Search, File, ArrowUp, ArrowDown, ArrowUpDown, Flag as FlagIcon, Edit, RefreshCw, Download, X } from 'lucide-react'
 import { cn } from '../lib/utils'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../components/ui/tooltip'
 import BulkEditDialog from '../components/BulkEditDialog'
+import ExportDialog from '../components/ExportDialog'
+import { REIMBURSEMENT_STATUS_LABELS } from '../lib/reimbursement'
+import { HighlightedSnippet } from '../components/HighlightedSnippet'
+import { useAuthContext } from '../contexts/AuthContext'
+import { useServerEvents } from '../hooks/useServerEvents'
 
-type SortField = 'date' | 'vendor' | 'type' | 'user' | 'amount' | 'created_at' | 'updated_at'
+type SortField = ReceiptSortField
 type SortDirection = 'asc' | 'desc'
+type FlagMatch = 'any' | 'all'
+// The type filter holds either a single receipt type ("type:<id>") or a whole group ("group:<id>")
+type TypeFilter = `type:${number}` | `group:${number}`
+
+const PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+const SEARCH_DEBOUNCE_MS = 300
+const BEST_MATCHES_LIMIT = 5
+// Receipt changes arrive in bursts (a receipt, then its files), so live reloads wait for them to settle
+const LIVE_RELOAD_DEBOUNCE_MS = 500
 
 export default function ReceiptsPage() {
 	const navigate = useNavigate()
+	const { canEdit } = useAuthContext()
 	const [receipts, setReceipts] = useState<Receipt[]>([])
+	const [total, setTotal] = useState(0)
+	const [hasMore, setHasMore] = useState(false)
+	const [isLoadingMore, setIsLoadingMore] = useState(false)
 	const [flags, setFlags] = useState<Flag[]>([])
+	const [users, setUsers] = useState<User[]>([])
 	const [searchTerm, setSearchTerm] = useState('')
-	const [selectedFlagId, setSelectedFlagId] = useState<number | undefined>()
+	const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('')
+	const [bestMatches, setBestMatches] = useState<ReceiptSearchResult[]>([])
+	const [receiptTypes, setReceiptTypes] = useState<ReceiptType[]>([])
+	const [receiptTypeGroups, setReceiptTypeGroups] = useState<ReceiptTypeGroup[]>([])
+	const [selectedFlagIds, setSelectedFlagIds] = useState<number[]>([])
+	const [flagMatch, setFlagMatch] = useState<FlagMatch>('any')
+	const [selectedUserId, setSelectedUserId] = useState<number | undefined>()
+	const [selectedStatus, setSelectedStatus] = useState<ReimbursementStatus | undefined>()
+	const [selectedType, setSelectedType] = useState<TypeFilter | undefined>()
+	const [dateFrom, setDateFrom] = useState('')
+	const [dateTo, setDateTo] = useState('')
+	const [vendorFilter, setVendorFilter] = useState('')
+	const [amountMin, setAmountMin] = useState('')
+	const [amountMax, setAmountMax] = useState('')
+	const [debouncedTextFilters, setDebouncedTextFilters] = useState({ vendor: '', amountMin: '', amountMax: '' })
 	const [error, setError] = useState<string | null>(null)
 	const [sortField, setSortField] = useState<SortField>('date')
 	const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
 	const [selectedReceiptIds, setSelectedReceiptIds] = useState<Set<number>>(new Set())
 	const [showBulkEditDialog, setShowBulkEditDialog] = useState(false)
+	const [showExportDialog, setShowExportDialog] = useState(false)
 	const [isRefreshing, setIsRefreshing] = useState(false)
-	const [autoRefreshEnabled] = useState(true)
+	const loadedCountRef = useRef(0)
+	const sentinelRef = useRef<HTMLDivElement>(null)
+	const liveReloadTimeoutRef = useRef<ReturnType<typeof setTimeout>>()
+
+	// Debounce search input so typing doesn't fire a request per keystroke
+	useEffect(() => {
+		const timeout = setTimeout(() => setDebouncedSearchTerm(searchTerm.trim()), SEARCH_DEBOUNCE_MS)
+		return () => clearTimeout(timeout)
+	}, [searchTerm])
+
+	// Vendor and amount filters are typed as well, so they wait for the same pause
+	useEffect(() => {
+		const timeout = setTimeout(
+			() => setDebouncedTextFilters({ vendor: vendorFilter.trim(), amountMin: amountMin.trim(), amountMax: amountMax.trim() }),
+			SEARCH_DEBOUNCE_MS
+		)
+		return () => clearTimeout(timeout)
+	}, [vendorFilter, amountMin, amountMax])
+
+	// Ranked full-text matches with snippets for the current search term
+	useEffect(() => {
+		if (!debouncedSearchTerm) {
+			setBestMatches([])
+			return
+		}
+
+		let cancelled = false
+		searchApi
+			.search(debouncedSearchTerm, BEST_MATCHES_LIMIT)
+			.then(res => {
+				if (!cancelled) setBestMatches(res.data)
+			})
+			.catch(() => {
+				if (!cancelled) setBestMatches([])
+			})
+		return () => {
+			cancelled = true
+		}
+	}, [debouncedSearchTerm])
+
+	// Filters sent to the server, shared by the list and the export of everything matching it
+	const filters = useMemo((): ExportQuery => {
+		const parseAmount = (value: string) => {
+			const amount = parseFloat(value)
+			return isNaN(amount) ? undefined : amount
+		}
+		const [typeFilterKind, typeFilterId] = selectedType ? selectedType.split(':') : []
+		return {
+			q: debouncedSearchTerm || undefined,
+			flag_ids: selectedFlagIds.length > 0 ? selectedFlagIds : undefined,
+			flag_match: selectedFlagIds.length > 1 ? flagMatch : undefined,
+			user_id: selectedUserId,
+			reimbursement_status: selectedStatus,
+			receipt_type_id: typeFilterKind === 'type' ? parseInt(typeFilterId) : undefined,
+			group_id: typeFilterKind === 'group' ? parseInt(typeFilterId) : undefined,
+			date_from: dateFrom || undefined,
+			date_to: dateTo || undefined,
+			vendor: debouncedTextFilters.vendor || undefined,
+			amount_min: parseAmount(debouncedTextFilters.amountMin),
+			amount_max: parseAmount(debouncedTextFilters.amountMax),
+		}
+	}, [debouncedSearchTerm, selectedFlagIds, flagMatch, selectedUserId, selectedStatus, selectedType, dateFrom, dateTo, debouncedTextFilters])
+
+	const hasDetailFilters = !!(selectedType || dateFrom || dateTo || vendorFilter || amountMin || amountMax)
+
+	const clearDetailFilters = () => {
+		setSelectedType(undefined)
+		setDateFrom('')
+		setDateTo('')
+		setVendorFilter('')
+		setAmountMin('')
+		setAmountMax('')
+	}
 
-	const loadData = useCallback(async () => {
+	const toggleFlagFilter = (flagId: number, checked: boolean) => {
+		setSelectedFlagIds(prev => (checked ? [...prev, flagId] : prev.filter(id => id !== flagId)))
+	}
+
+	const buildQuery = useCallback(
+		(): ReceiptQuery => ({
+			...filters,
+			sort: sortField,
+			order: sortDirection,
+		}),
+		[filters, sortField, sortDirection]
+	)
+
+	// Load the first page. When keepLoaded is set (refresh), reload as many receipts as are already shown.
+	const loadData = useCallback(
+		async (keepLoaded = false) => {
+			try {
+				setIsRefreshing(true)
+				const limit = keepLoaded ? Math.min(Math.max(loadedCountRef.current, PAGE_SIZE), MAX_PAGE_SIZE) : PAGE_SIZE
+				const [receiptsRes, flagsRes, usersRes, typesRes, groupsRes] = await Promise.all([
+					receiptsApi.query({ ...buildQuery(), limit, offset: 0 }),
+					flagsApi.getAll(),
+					usersApi.getAll(),
+					receiptTypesApi.getAll(),
+					receiptTypeGroupsApi.getAll(),
+				])
+				setReceipts(receiptsRes.data.receipts)
+				setTotal(receiptsRes.data.total)
+				setHasMore(receiptsRes.data.has_more)
+				loadedCountRef.current = receiptsRes.data.receipts.length
+				setFlags(flagsRes.data)
+				setUsers(usersRes.data)
+				setReceiptTypes(typesRes.data)
+				setReceiptTypeGroups(groupsRes.data)
+				setError(null)
+			} catch (err: any) {
+				setError(err.response?.data?.error || 'Failed to load receipts')
+			} finally {
+				setIsRefreshing(false)
+			}
+		},
+		[buildQuery]
+	)
+
+	const loadMore = useCallback(async () => {
+		if (isLoadingMore || !hasMore) return
 		try {
-			setIsRefreshing(true)
-			const [receiptsRes, flagsRes] = await Promise.all([receiptsApi.getAll(selectedFlagId), flagsApi.getAll()])
-			setReceipts(receiptsRes.data)
-			setFlags(flagsRes.data)
-			setError(null)
+			setIsLoadingMore(true)
+			const res = await receiptsApi.query({ ...buildQuery(), limit: PAGE_SIZE, offset: loadedCountRef.current })
+			setReceipts(prev => {
+				const seen = new Set(prev.map(r => r.id))
+				const merged = [...prev, ...res.data.receipts.filter(r => !seen.has(r.id))]
+				loadedCountRef.current = merged.length
+				return merged
+			})
+			setTotal(res.data.total)
+			setHasMore(res.data.has_more)
 		} catch (err: any) {
-			setError(err.response?.data?.error || 'Failed to load receipts')
+			setError(err.response?.data?.error || 'Failed to load more receipts')
 		} finally {
-			setIsRefreshing(false)
+			setIsLoadingMore(false)
 		}
-	}, [selectedFlagId])
+	}, [buildQuery, hasMore, isLoadingMore])
 
 	const handleRefresh = useCallback(() => {
-		loadData()
+		loadData(true)
 	}, [loadData])
 
 	useEffect(() => {
 		loadData()
 	}, [loadData])
 
-	// Auto-refresh every 2 minutes
-	useEffect(() => {
-		if (!autoRefreshEnabled) return
+	// Reload when receipts change elsewhere, e.g. watch folder imports or edits on another device
+	useServerEvents(['receipt.created', 'receipt.updated', 'receipt.deleted', 'receipt.file_added'], event => {
+		if (event.type === 'receipt.deleted') {
+			setReceipts(prev => prev.filter(r => r.id !== event.data.receipt_id))
+		}
+		clearTimeout(liveReloadTimeoutRef.current)
+		liveReloadTimeoutRef.current = setTimeout(() => loadData(true), LIVE_RELOAD_DEBOUNCE_MS)
+	})
 
-		const interval = setInterval(() => {
-			loadData()
-		}, 120000) // 2 minutes (120 seconds)
+	useEffect(() => () => clearTimeout(liveReloadTimeoutRef.current), [])
+
+	// Infinite scroll - load the next page when the sentinel below the table becomes visible
+	useEffect(() => {
+		const sentinel = sentinelRef.current
+		if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return
 
-		return () => clearInterval(interval)
-	}, [autoRefreshEnabled, loadData])
+		const observer = new IntersectionObserver(
+			entries => {
+				if (entries[0]?.isIntersecting) {
+					loadMore()
+				}
+			},
+			{ rootMargin: '200px' }
+		)
+		observer.observe(sentinel)
+		return () => observer.disconnect()
+	}, [hasMore, loadMore])
 
 	const formatDate = (dateString: string) => {
 		const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(dateString)
@@ -103,59 +296,6 @@ export default function ReceiptsPage() {
 		return <ArrowDown className="size-4" />
 	}
 
-	const filteredReceipts = receipts.filter(receipt => {
-		if (!searchTerm) return true
-		const search = searchTerm.toLowerCase()
-		return (
-			receipt.vendor.toLowerCase().includes(search) ||
-			receipt.description.toLowerCase().includes(search) ||
-			receipt.user.toLowerCase().includes(search) ||
-			receipt.type.toLowerCase().includes(search)
-		)
-	})
-
-	const sortedReceipts = [...filteredReceipts].sort((a, b) => {
-		let aValue: any
-		let bValue: any
-
-		switch (sortField) {
-			case 'date':
-				aValue = new Date(a.date).getTime()
-				bValue = new Date(b.date).getTime()
-				break
-			case 'vendor':
-				aValue = a.vendor.toLowerCase()
-				bValue = b.vendor.toLowerCase()
-				break
-			case 'type':
-				aValue = a.type.toLowerCase()
-				bValue = b.type.toLowerCase()
-				break
-			case 'user':
-				aValue = a.user.toLowerCase()
-				bValue = b.user.toLowerCase()
-				break
-			case 'amount':
-				aValue = a.amount
-				bValue = b.amount
-				break
-			case 'created_at':
-				aValue = new Date(a.created_at).getTime()
-				bValue = new Date(b.created_at).getTime()
-				break
-			case 'updated_at':
-				aValue = new Date(a.updated_at).getTime()
-				bValue = new Date(b.updated_at).getTime()
-				break
-			default:
-				return 0
-		}
-
-		if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1
-		if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1
-		return 0
-	})
-
 	const handleSelectReceipt = (receiptId: number, checked: boolean) => {
 		setSelectedReceiptIds(prev => {
 			const newSet = new Set(prev)
@@ -170,14 +310,14 @@ export default function ReceiptsPage() {
 
 	const handleSelectAll = (checked: boolean | 'indeterminate') => {
 		if (checked === true) {
-			setSelectedReceiptIds(new Set(sortedReceipts.map(r => r.id)))
+			setSelectedReceiptIds(new Set(receipts.map(r => r.id)))
 		} else {
 			setSelectedReceiptIds(new Set())
 		}
 	}
 
-	const allSelected = sortedReceipts.length > 0 && sortedReceipts.every(r => selectedReceiptIds.has(r.id))
-	const someSelected = sortedReceipts.some(r => selectedReceiptIds.has(r.id))
+	const allSelected = receipts.length > 0 && receipts.every(r => selectedReceiptIds.has(r.id))
+	const someSelected = receipts.some(r => selectedReceiptIds.has(r.id))
 
 	// Determine checked state for select all checkbox (supports indeterminate)
 	const selectAllChecked = someSelected && !allSelected ? 'indeterminate' : allSelected
@@ -185,9 +325,18 @@ export default function ReceiptsPage() {
 	// Show ID column only in development
 	const isDevelopment = import.meta.env.DEV
 
+	// Export the selected receipts, or every receipt matching the current filters
+	const exportQuery: ExportQuery = selectedReceiptIds.size > 0 ? { ids: Array.from(selectedReceiptIds) } : filters
+
+	// Receipt types under their groups, in display order, for the type filter
+	const sortedTypeGroups = [...receiptTypeGroups].sort((a, b) => a.display_order - b.display_order)
+	const typesInGroup = (groupId: number | null) =>
+		receiptTypes.filter(type => (type.group_id ?? null) === groupId).sort((a, b) => a.display_order - b.display_order)
+	const ungroupedTypes = typesInGroup(null)
+
 	const handleBulkEditSuccess = () => {
 		// Refresh receipts list
-		loadData()
+		loadData(true)
 		// Clear selections
 		setSelectedReceiptIds(new Set())
 	}
@@ -197,15 +346,21 @@ export default function ReceiptsPage() {
 			<div className="flex flex-col justify-between gap-2 sm:items-center sm:flex-row">
 				<div>
 					<h2 className="text-3xl font-bold">Receipts</h2>
-					<p className="text-muted-foreground">Manage your medical receipts ({receipts.length} total)</p>
+					<p className="text-muted-foreground">Manage your medical receipts ({total} total)</p>
 				</div>
 				<div className="flex justify-end gap-2">
-					{selectedReceiptIds.size > 0 && (
+					{selectedReceiptIds.size > 0 && canEdit && (
 						<Button onClick={() => setShowBulkEditDialog(true)} variant="secondary">
 							<Edit className="size-4 md:mr-1" />
 							<span className="hidden md:inline">Bulk Edit ({selectedReceiptIds.size})</span>
 						</Button>
 					)}
+					<Button onClick={() => setShowExportDialog(true)} variant="outline" disabled={total === 0}>
+						<Download className="size-4 md:mr-1" />
+						<span className="hidden md:inline">
+							{selectedReceiptIds.size > 0 ? `Export (${selectedReceiptIds.size})` : 'Export'}
+						</span>
+					</Button>
 					<Button onClick={handleRefresh} variant="outline" disabled={isRefreshing} className="hidden sm:flex">
 						<RefreshCw className={cn('size-4 md:mr-1', isRefreshing && 'animate-spin')} />
 						<span className="hidden md:inline">Refresh</span>
@@ -228,38 +383,193 @@ export default function ReceiptsPage() {
 								/>
 							</div>
 						</div>
+						<Popover>
+							<PopoverTrigger asChild>
+								<Button variant="outline" className="justify-start w-full font-normal sm:w-fit">
+									<FlagIcon className="size-4 text-muted-foreground" />
+									<span>
+										{selectedFlagIds.length === 0
+											? 'No Filter'
+											: selectedFlagIds.length === 1
+												? flags.find(flag => flag.id === selectedFlagIds[0])?.name
+												: `${selectedFlagIds.length} flags (${flagMatch})`}
+									</span>
+								</Button>
+							</PopoverTrigger>
+							<PopoverContent className="w-64 p-3 space-y-3" align="end">
+								{flags.length === 0 ? (
+									<p className="text-sm text-muted-foreground">No flags yet</p>
+								) : (
+									<div className="space-y-2">
+										{flags.map(flag => (
+											<label key={flag.id} className="flex items-center gap-2 text-sm cursor-pointer">
+												<Checkbox
+													checked={selectedFlagIds.includes(flag.id)}
+													onCheckedChange={checked => toggleFlagFilter(flag.id, checked === true)}
+												/>
+												<FlagIcon className="size-4" style={flag.color ? { color: flag.color } : undefined} />
+												<span>{flag.name}</span>
+											</label>
+										))}
+									</div>
+								)}
+								{selectedFlagIds.length > 1 && (
+									<Select value={flagMatch} onValueChange={value => setFlagMatch(value as FlagMatch)}>
+										<SelectTrigger aria-label="Flag matching">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value="any">Any of these flags</SelectItem>
+											<SelectItem value="all">All of these flags</SelectItem>
+										</SelectContent>
+									</Select>
+								)}
+								{selectedFlagIds.length > 0 && (
+									<Button variant="ghost" size="sm" className="w-full" onClick={() => setSelectedFlagIds([])}>
+										Clear flags
+									</Button>
+								)}
+							</PopoverContent>
+						</Popover>
+						{users.length > 1 && (
+							<Select
+								value={selectedUserId?.toString() || 'all'}
+								onValueChange={value => setSelectedUserId(value === 'all' ? undefined : parseInt(value))}
+							>
+								<SelectTrigger className="w-full sm:w-fit">
+									<SelectValue placeholder="All Users" />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="all">All Users</SelectItem>
+									{users.map(user => (
+										<SelectItem key={user.id} value={user.id.toString()}>
+											{user.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						)}
 						<Select
-							value={selectedFlagId?.toString() || 'all'}
-							onValueChange={value => setSelectedFlagId(value === 'all' ? undefined : parseInt(value))}
+							value={selectedStatus || 'all'}
+							onValueChange={value => setSelectedStatus(value === 'all' ? undefined : (value as ReimbursementStatus))}
 						>
 							<SelectTrigger className="w-full sm:w-fit">
-								<SelectValue placeholder="No Flag Filter" />
+								<SelectValue placeholder="Any Status" />
 							</SelectTrigger>
 							<SelectContent>
-								<SelectItem value="all">
-									<div className="flex items-center gap-2 mr-2">
-										{/* <FlagIcon className="size-4 text-muted-foreground" /> */}
-										<span>No Filter</span>
-									</div>
-								</SelectItem>
-								{flags.map(flag => (
-									<SelectItem key={flag.id} value={flag.id.toString()}>
-										<div className="flex items-center gap-2 mr-2">
-											<FlagIcon className="size-4" style={flag.color ? { color: flag.color } : undefined} />
-											<span>{flag.name}</span>
-										</div>
+								<SelectItem value="all">Any Status</SelectItem>
+								{(Object.keys(REIMBURSEMENT_STATUS_LABELS) as ReimbursementStatus[]).map(status => (
+									<SelectItem key={status} value={status}>
+										{REIMBURSEMENT_STATUS_LABELS[status]}
 									</SelectItem>
 								))}
 							</SelectContent>
 						</Select>
 					</div>
+					<div className="flex flex-col flex-wrap gap-4 mt-4 sm:flex-row sm:items-center">
+						<Select
+							value={selectedType || 'all'}
+							onValueChange={value => setSelectedType(value === 'all' ? undefined : (value as TypeFilter))}
+						>
+							<SelectTrigger className="w-full sm:w-fit" aria-label="Receipt type">
+								<SelectValue placeholder="All Types" />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="all">All Types</SelectItem>
+								{sortedTypeGroups.map(group => (
+									<SelectGroup key={group.id}>
+										<SelectLabel>{group.name}</SelectLabel>
+										<SelectItem value={`group:${group.id}`}>All {group.name}</SelectItem>
+										{typesInGroup(group.id).map(type => (
+											<SelectItem key={type.id} value={`type:${type.id}`}>
+												{type.name}
+											</SelectItem>
+										))}
+									</SelectGroup>
+								))}
+								{ungroupedTypes.length > 0 && (
+									<SelectGroup>
+										{sortedTypeGroups.length > 0 && <SelectLabel>Ungrouped</SelectLabel>}
+										{ungroupedTypes.map(type => (
+											<SelectItem key={type.id} value={`type:${type.id}`}>
+												{type.name}
+											</SelectItem>
+										))}
+									</SelectGroup>
+								)}
+							</SelectContent>
+						</Select>
+						<Input
+							placeholder="Vendor"
+							aria-label="Vendor"
+							value={vendorFilter}
+							onChange={e => setVendorFilter(e.target.value)}
+							className="w-full sm:w-48"
+						/>
+						<div className="flex items-center gap-2">
+							<DatePicker value={dateFrom} onChange={setDateFrom} id="filter-date-from" placeholder="From date" />
+							<span className="text-muted-foreground">–</span>
+							<DatePicker value={dateTo} onChange={setDateTo} id="filter-date-to" placeholder="To date" />
+						</div>
+						<div className="flex items-center gap-2">
+							<Input
+								type="number"
+								min="0"
+								step="0.01"
+								placeholder="Min $"
+								aria-label="Minimum amount"
+								value={amountMin}
+								onChange={e => setAmountMin(e.target.value)}
+								className="w-full sm:w-28"
+							/>
+							<span className="text-muted-foreground">–</span>
+							<Input
+								type="number"
+								min="0"
+								step="0.01"
+								placeholder="Max $"
+								aria-label="Maximum amount"
+								value={amountMax}
+								onChange={e => setAmountMax(e.target.value)}
+								className="w-full sm:w-28"
+							/>
+						</div>
+						{hasDetailFilters && (
+							<Button variant="ghost" onClick={clearDetailFilters}>
+								<X className="size-4 md:mr-1" />
+								Clear filters
+							</Button>
+						)}
+					</div>
 				</CardContent>
 			</Card>
 
+			{/* Best matches from the full-text index */}
+			{bestMatches.length > 0 && (
+				<Card>
+					<CardContent className="p-4 space-y-1">
+						<p className="mb-2 text-sm font-medium text-muted-foreground">Best matches</p>
+						{bestMatches.map(match => (
+							<button
+								key={match.receipt.id}
+								type="button"
+								onClick={() => navigate(`/receipts/${match.receipt.id}`)}
+								className="flex flex-col w-full p-2 text-left transition-colors rounded-md hover:bg-muted"
+							>
+								<span className="text-sm font-medium">
+									{match.receipt.vendor || 'Unknown vendor'} · {formatDate(match.receipt.date)} · {formatCurrency(match.receipt.amount)}
+								</span>
+								<HighlightedSnippet snippet={match.snippet} />
+							</button>
+						))}
+					</CardContent>
+				</Card>
+			)}
+
 			{error && <div className="p-4 rounded-md bg-destructive/10 text-destructive">{error}</div>}
 
 			{/* Receipts Table */}
-			{filteredReceipts.length === 0 ? (
+			{receipts.length === 0 ? (
 				<Card>
 					<CardContent className="py-12 text-center">
 						<p className="text-muted-foreground">No receipts found</p>
@@ -365,7 +675,7 @@ export default function ReceiptsPage() {
 									</tr>
 								</thead>
 								<tbody className="text-base md:text-sm">
-									{sortedReceipts.map(receipt => (
+									{receipts.map(receipt => (
 										<tr
 											key={receipt.id}
 											onClick={() => navigate(`/receipts/${receipt.id}`)}
@@ -425,6 +735,15 @@ export default function ReceiptsPage() {
 				</Card>
 			)}
 
+			{/* Infinite scroll sentinel */}
+			{hasMore && (
+				<div ref={sentinelRef} className="flex justify-center py-4">
+					<Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+						{isLoadingMore ? 'Loading...' : `Load more (${receipts.length} of ${total})`}
+					</Button>
+				</div>
+			)}
+
 			{/* Bulk Edit Dialog */}
 			<BulkEditDialog
 				open={showBulkEditDialog}
@@ -432,6 +751,18 @@ export default function ReceiptsPage() {
 				selectedReceiptIds={Array.from(selectedReceiptIds)}
 				onSuccess={handleBulkEditSuccess}
 			/>
+
+			{/* Export Dialog */}
+			<ExportDialog
+				open={showExportDialog}
+				onOpenChange={setShowExportDialog}
+				query={exportQuery}
+				description={
+					selectedReceiptIds.size > 0
+						? `Download the ${selectedReceiptIds.size} selected receipt(s) and their files as a ZIP archive.`
+						: 'Download the receipts matching the current search and filters, with their files, as a ZIP archive.'
+				}
+			/>
 		</div>
 	)
 }
@@ -6,16 +6,20 @@ import {
 	usersApi,
 	receiptTypesApi,
 	receiptTypeGroupsApi,
-	exportApi,
 	watchApi,
 	receiptsApi,
 	imagesApi,
+	JobType,
 	Flag,
 	User,
 	ReceiptType,
 	ReceiptTypeGroup,
 } from '../lib/api'
 import { DEFAULT_RECEIPT_TYPE_GROUPS, DEFAULT_UNGROUPED_TYPES } from '../lib/defaults'
+import { ACCOUNT_ROLE_LABELS } from '../lib/accountRoles'
+import { isJobActive } from '../lib/jobs'
+import { useJobs } from '../hooks/useJobs'
+import { useServerEvents } from '../hooks/useServerEvents'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
@@ -23,9 +27,23 @@ import { Label } from '../components/ui/label'
 import { Switch } from '../components/ui/switch'
 import { ColorPicker, TAILWIND_COLORS } from '../components/ui/color-picker'
 import { FlagBadge } from '../components/FlagBadge'
+import ExportDialog from '../components/ExportDialog'
+import ReassignDeleteDialog from '../components/ReassignDeleteDialog'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
 import { useConfirmDialog } from '../components/ConfirmDialog'
 import { useAlertDialog } from '../components/AlertDialog'
+import AccountsCard from '../components/AccountsCard'
+import ApiTokensCard from '../components/ApiTokensCard'
+import BackupsCard from '../components/BackupsCard'
+import ChangePasswordForm from '../components/ChangePasswordForm'
+import DirectoryLayoutCard from '../components/DirectoryLayoutCard'
+import ImportCard from '../components/ImportCard'
+import ImportHistoryCard from '../components/ImportHistoryCard'
+import ImportRulesCard from '../components/ImportRulesCard'
+import JobsCard from '../components/JobsCard'
+import TrashCard from '../components/TrashCard'
+import WatchFoldersSection from '../components/WatchFoldersSection'
+import { useAuthContext } from '../contexts/AuthContext'
 import {
 	Plus,
 	Trash2,
@@ -38,7 +56,6 @@ import {
 	RotateCcw,
 	GripVertical,
 	Download,
-	FolderTree,
 	Image as ImageIcon,
 } from 'lucide-react'
 import {
@@ -292,6 +309,9 @@ export default function SettingsPage() {
 	const [originalReceiptTypes, setOriginalReceiptTypes] = useState<ReceiptType[]>([])
 	const [originalReceiptTypeGroups, setOriginalReceiptTypeGroups] = useState<ReceiptTypeGroup[]>([])
 	const [loading, setLoading] = useState(true)
+	const [showExportDialog, setShowExportDialog] = useState(false)
+	const [userToDelete, setUserToDelete] = useState<User | null>(null)
+	const [receiptTypeToDelete, setReceiptTypeToDelete] = useState<ReceiptType | null>(null)
 	const [editingFlag, setEditingFlag] = useState<number | null>(null)
 	const [editingUser, setEditingUser] = useState<number | null>(null)
 	const [editingReceiptType, setEditingReceiptType] = useState<number | null>(null)
@@ -326,23 +346,20 @@ export default function SettingsPage() {
 	const [filenamePattern, setFilenamePattern] = useState(DEFAULT_FILENAME_PATTERN)
 	const [originalPattern, setOriginalPattern] = useState(DEFAULT_FILENAME_PATTERN)
 	const [patternError, setPatternError] = useState<string | null>(null)
-	const [isRenaming, setIsRenaming] = useState(false)
-	const [isOrganizing, setIsOrganizing] = useState(false)
 	const [processedFileCount, setProcessedFileCount] = useState<number | null>(null)
 	const [isLoadingProcessedCount, setIsLoadingProcessedCount] = useState(false)
 	const [isDeletingProcessed, setIsDeletingProcessed] = useState(false)
-	const [isOptimizing, setIsOptimizing] = useState(false)
-	const [isReoptimizing, setIsReoptimizing] = useState(false)
 	const [imageOptimizationEnabled, setImageOptimizationEnabled] = useState(true)
-	const [optimizationResult, setOptimizationResult] = useState<{
-		total: number
-		optimized: number
-		skipped: number
-		errors: Array<{ fileId: number; error: string }>
-		duration: number
-	} | null>(null)
+	const [ocrEnabled, setOcrEnabled] = useState(true)
 	const [error, setError] = useState<string | null>(null)
 	const { confirm, ConfirmDialog } = useConfirmDialog()
+	const { status: authStatus, isAdmin } = useAuthContext()
+	const { jobs, error: jobsError, addJob, cancelJob } = useJobs(isAdmin)
+	const isJobTypeActive = (type: JobType) => jobs.some(job => job.type === type && isJobActive(job))
+	const isRenaming = isJobTypeActive('rename-files')
+	const isOrganizing = isJobTypeActive('migrate-files')
+	const isOptimizing = isJobTypeActive('optimize-images')
+	const isReoptimizing = isJobTypeActive('reoptimize-images')
 	const { alert, AlertDialog } = useAlertDialog()
 	const [quickVendors, setQuickVendors] = useState<Array<{ vendor: string; count: number }>>([])
 	const [excludedQuickVendors, setExcludedQuickVendors] = useState<string[]>([])
@@ -356,6 +373,16 @@ export default function SettingsPage() {
 		loadQuickVendors()
 	}, [])
 
+	// A user whose files couldn't be moved after a rename gets the old name back
+	useServerEvents(['job.updated'], event => {
+		if (event.type !== 'job.updated') return
+		const { job } = event.data
+		if (job.type === 'relocate-user-files' && job.status === 'failed') {
+			usersApi.getAll().then(res => setUsers(res.data))
+			setError(`Renaming ${job.params?.previous_name} was undone: ${job.error || 'its files could not be moved'}`)
+		}
+	})
+
 	const loadProcessedCount = async () => {
 		try {
 			setIsLoadingProcessedCount(true)
@@ -393,6 +420,8 @@ export default function SettingsPage() {
 			// Load image optimization setting (defaults to true if not set)
 			const optimizationEnabled = settingsRes.data?.imageOptimizationEnabled !== false
 			setImageOptimizationEnabled(optimizationEnabled)
+			// Load OCR setting (defaults to true if not set)
+			setOcrEnabled(settingsRes.data?.ocrEnabled !== false)
 			// Load excluded quick vendors
 			const excluded = settingsRes.data?.excludedQuickVendors || []
 			setExcludedQuickVendors(Array.isArray(excluded) ? excluded : [])
@@ -590,20 +619,14 @@ export default function SettingsPage() {
 		}
 	}
 
-	const handleDeleteUser = async (id: number) => {
-		const user = users.find(u => u.id === id)
-		const confirmed = await confirm({
-			message: `Are you sure you want to delete user "${user?.name}"?`,
-			variant: 'destructive',
-		})
-		if (!confirmed) return
+	// Opens a dialog that asks where the user's receipts should go before deleting it
+	const handleDeleteUser = (id: number) => {
+		setUserToDelete(users.find(u => u.id === id) ?? null)
+	}
 
-		try {
-			await usersApi.delete(id)
-			setUsers(users.filter(u => u.id !== id))
-		} catch (err: any) {
-			setError(err.response?.data?.error || 'Failed to delete user')
-		}
+	const deleteUser = async (id: number, reassignTo?: number) => {
+		await usersApi.delete(id, reassignTo)
+		setUsers(current => current.filter(u => u.id !== id))
 	}
 
 	const startEditUser = (user: User) => {
@@ -729,20 +752,14 @@ export default function SettingsPage() {
 		}
 	}
 
-	const handleDeleteReceiptType = async (id: number) => {
-		const type = receiptTypes.find(t => t.id === id)
-		const confirmed = await confirm({
-			message: `Are you sure you want to delete receipt type "${type?.name}"?`,
-			variant: 'destructive',
-		})
-		if (!confirmed) return
+	// Opens a dialog that asks where the type's receipts should go before deleting it
+	const handleDeleteReceiptType = (id: number) => {
+		setReceiptTypeToDelete(receiptTypes.find(t => t.id === id) ?? null)
+	}
 
-		try {
-			await receiptTypesApi.delete(id)
-			setReceiptTypes(receiptTypes.filter(t => t.id !== id))
-		} catch (err: any) {
-			setError(err.response?.data?.error || 'Failed to delete receipt type')
-		}
+	const deleteReceiptType = async (id: number, reassignTo?: number) => {
+		await receiptTypesApi.delete(id, reassignTo)
+		setReceiptTypes(current => current.filter(t => t.id !== id))
 	}
 
 	const startEditReceiptType = (type: ReceiptType) => {
@@ -1278,55 +1295,11 @@ export default function SettingsPage() {
 		}
 
 		try {
-			setIsRenaming(true)
 			setError(null)
-			const result = await filenamesApi.renameAll()
-			if (result.data.errors.length > 0) {
-				setError(`Renamed ${result.data.renamed} of ${result.data.totalFiles} files. Some errors occurred.`)
-			} else {
-				setError(null)
-				await alert({
-					title: 'Success',
-					message: `Successfully renamed ${result.data.renamed} files.`,
-				})
-			}
+			const response = await filenamesApi.renameAll()
+			addJob(response.data)
 		} catch (err: any) {
 			setError(err.response?.data?.error || 'Failed to rename files')
-		} finally {
-			setIsRenaming(false)
-		}
-	}
-
-	// Handle organize files (migrate to new directory structure)
-	const handleOrganizeFiles = async () => {
-		const confirmed = await confirm({
-			message:
-				'This will move all receipt files from the old directory structure to the new user/date structure. This action cannot be undone. Continue?',
-			variant: 'destructive',
-		})
-		if (!confirmed) {
-			return
-		}
-
-		try {
-			setIsOrganizing(true)
-			setError(null)
-			const result = await receiptsApi.migrateFiles()
-			if (result.data.errors.length > 0) {
-				const errorCount = result.data.errors.length
-				const successCount = result.data.filesMoved
-				setError(`Moved ${successCount} of ${result.data.totalFiles} files. ${errorCount} error(s) occurred.`)
-			} else {
-				setError(null)
-				await alert({
-					title: 'Success',
-					message: `Successfully moved ${result.data.filesMoved} file(s) to the new directory structure.`,
-				})
-			}
-		} catch (err: any) {
-			setError(err.response?.data?.error || 'Failed to organize files')
-		} finally {
-			setIsOrganizing(false)
 		}
 	}
 
@@ -1342,32 +1315,13 @@ export default function SettingsPage() {
 
 		if (!confirmed) return
 
-		setIsOptimizing(true)
 		setError(null)
-		setOptimizationResult(null)
 
 		try {
-			const result = await imagesApi.optimize()
-			if (result.data.success) {
-				setOptimizationResult(result.data)
-				if (result.data.errors.length > 0) {
-					await alert({
-						title: 'Optimization Complete',
-						message: `Optimized ${result.data.optimized} image(s), skipped ${result.data.skipped}. ${result.data.errors.length} error(s) occurred.`,
-					})
-				} else {
-					await alert({
-						title: 'Optimization Complete',
-						message: `Successfully optimized ${result.data.optimized} image(s) in ${(result.data.duration / 1000).toFixed(1)} seconds.`,
-					})
-				}
-			} else {
-				setError('Optimization failed')
-			}
+			const response = await imagesApi.optimize()
+			addJob(response.data)
 		} catch (err: any) {
-			setError(err.response?.data?.error || err.response?.data?.message || 'Failed to optimize images')
-		} finally {
-			setIsOptimizing(false)
+			setError(err.response?.data?.error || 'Failed to optimize images')
 		}
 	}
 
@@ -1383,48 +1337,13 @@ export default function SettingsPage() {
 
 		if (!confirmed) return
 
-		setIsReoptimizing(true)
 		setError(null)
-		setOptimizationResult(null)
-
-		try {
-			const result = await imagesApi.reoptimize()
-			if (result.data.success) {
-				setOptimizationResult(result.data)
-				if (result.data.errors.length > 0) {
-					await alert({
-						title: 'Re-optimization Complete',
-						message: `Re-optimized ${result.data.optimized} image(s), skipped ${result.data.skipped}. ${result.data.errors.length} error(s) occurred.`,
-					})
-				} else {
-					await alert({
-						title: 'Re-optimization Complete',
-						message: `Successfully re-optimized ${result.data.optimized} image(s) in ${(result.data.duration / 1000).toFixed(1)} seconds.`,
-					})
-				}
-			} else {
-				setError('Re-optimization failed')
-			}
-		} catch (err: any) {
-			setError(err.response?.data?.error || err.response?.data?.message || 'Failed to re-optimize images')
-		} finally {
-			setIsReoptimizing(false)
-		}
-	}
 
-	// Handle export all receipts
-	const handleExport = async () => {
 		try {
-			const response = await exportApi.download()
-			const url = window.URL.createObjectURL(new Blob([response.data]))
-			const link = document.createElement('a')
-			link.href = url
-			link.setAttribute('download', 'medstash-export.zip')
-			document.body.appendChild(link)
-			link.click()
-			link.remove()
+			const response = await imagesApi.reoptimize()
+			addJob(response.data)
 		} catch (err: any) {
-			setError(err.response?.data?.error || 'Failed to export')
+			setError(err.response?.data?.error || 'Failed to re-optimize images')
 		}
 	}
 
@@ -1434,7 +1353,7 @@ export default function SettingsPage() {
 			title: 'Delete Processed Files',
 			message: `Are you sure you want to delete all ${
 				processedFileCount || 0
-			} file(s) in the processed folder? This action cannot be undone.`,
+			} file(s) in the processed folders? This action cannot be undone.`,
 			variant: 'destructive',
 			confirmText: 'Delete',
 			cancelText: 'Cancel',
@@ -1471,6 +1390,31 @@ export default function SettingsPage() {
 		return <div className="py-8 text-center">Loading settings...</div>
 	}
 
+	// Editors and viewers can only change their own password and API tokens
+	if (!isAdmin && authStatus?.account) {
+		return (
+			<div className="max-w-4xl mx-auto space-y-6">
+				{ConfirmDialog}
+				<div>
+					<h2 className="text-3xl font-bold">Settings</h2>
+					<p className="text-muted-foreground">Other settings can only be changed by an admin</p>
+				</div>
+				<Card>
+					<CardHeader>
+						<CardTitle>Your Account</CardTitle>
+						<CardDescription>
+							You are logged in as {authStatus.account.username} ({ACCOUNT_ROLE_LABELS[authStatus.account.role]})
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<ChangePasswordForm />
+					</CardContent>
+				</Card>
+				<ApiTokensCard confirm={confirm} />
+			</div>
+		)
+	}
+
 	return (
 		<div className="max-w-4xl mx-auto space-y-6">
 			{ConfirmDialog}
@@ -1482,13 +1426,19 @@ export default function SettingsPage() {
 
 			{error && <div className="p-4 rounded-md bg-destructive/10 text-destructive">{error}</div>}
 
-			{/* Processed Files */}
+			{/* Background Jobs */}
+			{(jobs.length > 0 || jobsError) && <JobsCard jobs={jobs} error={jobsError} onCancel={cancelJob} />}
+
+			{/* Watch Folders and Processed Files */}
 			<Card>
 				<CardHeader>
 					<CardTitle>Watched Folder</CardTitle>
-					<CardDescription>Manage files in the processed folder from the watch service</CardDescription>
+					<CardDescription>
+						Folders the watch service imports receipts from, and files it moved to their processed folders
+					</CardDescription>
 				</CardHeader>
 				<CardContent className="space-y-4">
+					<WatchFoldersSection users={users} receiptTypes={receiptTypes} flags={flags} confirm={confirm} />
 					<div className="flex flex-col justify-between gap-2 sm:flex-row sm:items-center">
 						<div>
 							<p className="text-sm text-muted-foreground">
@@ -1496,7 +1446,7 @@ export default function SettingsPage() {
 									'Loading...'
 								) : processedFileCount !== null ? (
 									<>
-										<span className="font-medium">{processedFileCount}</span> file{processedFileCount !== 1 ? 's' : ''} in processed folder
+										<span className="font-medium">{processedFileCount}</span> file{processedFileCount !== 1 ? 's' : ''} in processed folders
 									</>
 								) : (
 									'Unable to load file count'
@@ -1521,6 +1471,20 @@ export default function SettingsPage() {
 				</CardContent>
 			</Card>
 
+			{/* Watch Folder Import History */}
+			<ImportHistoryCard confirm={confirm} />
+
+			{/* Watch Folder Import Rules */}
+			<ImportRulesCard users={users} receiptTypes={receiptTypes} flags={flags} confirm={confirm} />
+
+			{/* Login Accounts and API Tokens (only when authentication is enabled) */}
+			{authStatus?.enabled && authStatus.account && (
+				<>
+					<AccountsCard currentAccount={authStatus.account} users={users} confirm={confirm} />
+					<ApiTokensCard confirm={confirm} />
+				</>
+			)}
+
 			{/* Users Management */}
 			<Card>
 				<CardHeader>
@@ -2072,17 +2036,6 @@ export default function SettingsPage() {
 							{isRenaming ? 'Renaming...' : 'Rename All Files'}
 						</Button>
 						{/*  */}
-						<Button
-							variant="outline"
-							size="sm"
-							onClick={handleOrganizeFiles}
-							disabled={isOrganizing}
-							title="Move files to the new user/date directory structure"
-						>
-							<FolderTree className={`w-4 h-4 mr-1 ${isOrganizing ? 'animate-spin' : ''}`} />
-							{isOrganizing ? 'Organizing...' : 'Organize Files'}
-						</Button>
-						{/*  */}
 						<Button onClick={handleSavePattern} disabled={!!patternError || filenamePattern === originalPattern} variant="outline">
 							<Save className="w-4 h-4 mr-1" />
 							Save Pattern
@@ -2091,6 +2044,8 @@ export default function SettingsPage() {
 				</CardContent>
 			</Card>
 
+			<DirectoryLayoutCard onJobStarted={addJob} isOrganizing={isOrganizing} />
+
 			{/* Image Optimization */}
 			<Card>
 				<CardHeader>
@@ -2144,36 +2099,6 @@ export default function SettingsPage() {
 						</div>
 					</div>
 
-					{/* Optimization Results */}
-					{optimizationResult && (
-						<div className="p-3 space-y-2 rounded-lg bg-muted">
-							<p className="text-sm font-medium">Last Optimization Results:</p>
-							<div className="grid grid-cols-2 gap-2 text-sm md:grid-cols-4">
-								<div>
-									<span className="text-muted-foreground">Total:</span> <span className="font-medium">{optimizationResult.total}</span>
-								</div>
-								<div>
-									<span className="text-muted-foreground">Optimized:</span>{' '}
-									<span className="font-medium text-green-600 dark:text-green-400">{optimizationResult.optimized}</span>
-								</div>
-								<div>
-									<span className="text-muted-foreground">Skipped:</span> <span className="font-medium">{optimizationResult.skipped}</span>
-								</div>
-								<div>
-									<span className="text-muted-foreground">Duration:</span>{' '}
-									<span className="font-medium">{(optimizationResult.duration / 1000).toFixed(1)}s</span>
-								</div>
-							</div>
-							{optimizationResult.errors.length > 0 && (
-								<div className="mt-2">
-									<p className="text-sm text-destructive">
-										{optimizationResult.errors.length} error(s) occurred. Check server logs for details.
-									</p>
-								</div>
-							)}
-						</div>
-					)}
-
 					{/* Actions */}
 					{imageOptimizationEnabled && (
 						<div className="flex flex-col justify-end gap-2 sm:flex-row">
@@ -2195,21 +2120,95 @@ export default function SettingsPage() {
 				</CardContent>
 			</Card>
 
+			{/* Text Recognition */}
+			<Card>
+				<CardHeader>
+					<CardTitle>Text Recognition</CardTitle>
+					<CardDescription>Read text from receipt images to suggest fields and make them searchable</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<div className="flex items-center justify-between p-3 border rounded-lg">
+						<div className="space-y-0.5">
+							<Label htmlFor="ocr-toggle" className="text-base font-medium cursor-pointer">
+								Enable Text Recognition (OCR)
+							</Label>
+							<p className="text-sm text-muted-foreground">
+								Suggest amount, date and provider when uploading, and prefill watch folder imports. Runs locally on the server.
+							</p>
+						</div>
+						<Switch
+							id="ocr-toggle"
+							checked={ocrEnabled}
+							onCheckedChange={async checked => {
+								const enabled = checked === true
+								setOcrEnabled(enabled)
+								try {
+									await settingsApi.set('ocrEnabled', enabled)
+								} catch (err: any) {
+									setError(err.response?.data?.error || 'Failed to update setting')
+									// Revert on error
+									setOcrEnabled(!enabled)
+								}
+							}}
+						/>
+					</div>
+				</CardContent>
+			</Card>
+
+			{/* Trash */}
+			<TrashCard />
+
+			{/* Backups */}
+			<BackupsCard confirm={confirm} onJobStarted={addJob} />
+
 			{/* Export */}
 			<Card>
 				<CardHeader>
 					<CardTitle>Export Data</CardTitle>
-					<CardDescription>Download all receipts and files as a ZIP archive</CardDescription>
+					<CardDescription>
+						Download receipts, files and settings as a ZIP archive that can be imported again, for everything or a single
+						tax year
+					</CardDescription>
 				</CardHeader>
 				<CardContent>
 					<div className="flex flex-col justify-end gap-2 sm:flex-row">
-						<Button onClick={handleExport} variant="outline">
+						<Button onClick={() => setShowExportDialog(true)} variant="outline">
 							<Download className="w-4 h-4 mr-1" />
-							Export All Receipts
+							Export Receipts
 						</Button>
 					</div>
 				</CardContent>
 			</Card>
+
+			{/* Import */}
+			<ImportCard onJobStarted={addJob} />
+
+			<ExportDialog
+				open={showExportDialog}
+				onOpenChange={setShowExportDialog}
+				query={{}}
+				description="Download receipts with their files, plus the users, receipt types, flags and settings they use, as a ZIP archive."
+			/>
+
+			<ReassignDeleteDialog
+				open={userToDelete !== null}
+				onOpenChange={open => !open && setUserToDelete(null)}
+				entityLabel="user"
+				entity={userToDelete}
+				targets={users.filter(u => u.id !== userToDelete?.id)}
+				loadUsage={id => usersApi.getUsage(id).then(res => res.data)}
+				onDelete={deleteUser}
+			/>
+
+			<ReassignDeleteDialog
+				open={receiptTypeToDelete !== null}
+				onOpenChange={open => !open && setReceiptTypeToDelete(null)}
+				entityLabel="receipt type"
+				entity={receiptTypeToDelete}
+				targets={receiptTypes.filter(t => t.id !== receiptTypeToDelete?.id)}
+				loadUsage={id => receiptTypesApi.getUsage(id).then(res => res.data)}
+				onDelete={deleteReceiptType}
+			/>
 		</div>
 	)
 }
@@ -0,0 +1,246 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { RotateCcw, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Button } from '../components/ui/button'
+import { useToast } from '../components/ui/use-toast'
+import { useConfirmDialog } from '../components/ConfirmDialog'
+import { trashApi, Receipt, TrashContents, TrashedFile } from '../lib/api'
+import { parseHistoryTimestamp } from '../lib/receiptHistory'
+import { useAuthContext } from '../contexts/AuthContext'
+import { useServerEvents } from '../hooks/useServerEvents'
+
+// Wait for a burst of receipt changes to settle before loading the trash again
+const LIVE_RELOAD_DEBOUNCE_MS = 500
+
+const formatCurrency = (amount: number) => {
+	return new Intl.NumberFormat('en-US', {
+		style: 'currency',
+		currency: 'USD',
+	}).format(amount)
+}
+
+const formatDate = (dateString: string) => {
+	const [year, month, day] = dateString.split('-').map(Number)
+	return new Date(year, month - 1, day).toLocaleDateString()
+}
+
+function ItemActions({
+	disabled,
+	onRestore,
+	onDelete,
+}: {
+	disabled: boolean
+	onRestore: () => void
+	onDelete: () => void
+}) {
+	return (
+		<div className="flex gap-2 shrink-0">
+			<Button size="sm" variant="outline" onClick={onRestore} disabled={disabled}>
+				<RotateCcw className="w-4 h-4 mr-1" />
+				Restore
+			</Button>
+			<Button size="sm" variant="destructive" onClick={onDelete} disabled={disabled}>
+				<Trash2 className="w-4 h-4 mr-1" />
+				Delete Forever
+			</Button>
+		</div>
+	)
+}
+
+export default function TrashPage() {
+	const { toast } = useToast()
+	const { canEdit } = useAuthContext()
+	const { confirm, ConfirmDialog } = useConfirmDialog()
+	const [trash, setTrash] = useState<TrashContents | null>(null)
+	const [loading, setLoading] = useState(true)
+	const [error, setError] = useState<string | null>(null)
+	const [busyKey, setBusyKey] = useState<string | null>(null)
+	const liveReloadTimeoutRef = useRef<ReturnType<typeof setTimeout>>()
+
+	const loadTrash = useCallback(async () => {
+		try {
+			const res = await trashApi.getAll()
+			setTrash(res.data)
+			setError(null)
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to load trash')
+		} finally {
+			setLoading(false)
+		}
+	}, [])
+
+	useEffect(() => {
+		loadTrash()
+	}, [loadTrash])
+
+	// Receipts deleted or restored elsewhere, or expired items purged in the background
+	useServerEvents(['receipt.created', 'receipt.updated', 'receipt.deleted', 'job.updated'], event => {
+		if (event.type === 'job.updated' && (event.data.job.type !== 'purge-trash' || event.data.job.status !== 'completed')) return
+		clearTimeout(liveReloadTimeoutRef.current)
+		liveReloadTimeoutRef.current = setTimeout(loadTrash, LIVE_RELOAD_DEBOUNCE_MS)
+	})
+
+	useEffect(() => () => clearTimeout(liveReloadTimeoutRef.current), [])
+
+	const handleRestoreReceipt = async (receipt: Receipt) => {
+		try {
+			setBusyKey(`receipt-${receipt.id}`)
+			await trashApi.restoreReceipt(receipt.id)
+			toast({ title: 'Receipt restored', description: `${receipt.vendor || 'Receipt'} is back in your receipts` })
+			await loadTrash()
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to restore receipt')
+		} finally {
+			setBusyKey(null)
+		}
+	}
+
+	const handleDeleteReceipt = async (receipt: Receipt) => {
+		const confirmed = await confirm({
+			title: 'Delete Forever',
+			message: `Delete ${receipt.vendor || 'this receipt'} and its ${receipt.files.length} file(s) for good? This cannot be undone.`,
+			confirmText: 'Delete Forever',
+			variant: 'destructive',
+		})
+		if (!confirmed) return
+
+		try {
+			setBusyKey(`receipt-${receipt.id}`)
+			await trashApi.deleteReceipt(receipt.id)
+			await loadTrash()
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to delete receipt')
+		} finally {
+			setBusyKey(null)
+		}
+	}
+
+	const handleRestoreFile = async (file: TrashedFile) => {
+		try {
+			setBusyKey(`file-${file.id}`)
+			await trashApi.restoreFile(file.id)
+			toast({ title: 'File restored', description: `${file.original_filename} is back on its receipt` })
+			await loadTrash()
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to restore file')
+		} finally {
+			setBusyKey(null)
+		}
+	}
+
+	const handleDeleteFile = async (file: TrashedFile) => {
+		const confirmed = await confirm({
+			title: 'Delete Forever',
+			message: `Delete ${file.original_filename} for good? This cannot be undone.`,
+			confirmText: 'Delete Forever',
+			variant: 'destructive',
+		})
+		if (!confirmed) return
+
+		try {
+			setBusyKey(`file-${file.id}`)
+			await trashApi.deleteFile(file.id)
+			await loadTrash()
+		} catch (err: any) {
+			setError(err.response?.data?.error || 'Failed to delete file')
+		} finally {
+			setBusyKey(null)
+		}
+	}
+
+	const formatDeletedAt = (deletedAt?: string | null) => {
+		return deletedAt ? `Deleted ${parseHistoryTimestamp(deletedAt).toLocaleString()}` : 'Deleted'
+	}
+
+	const isEmpty = trash !== null && trash.receipts.length === 0 && trash.files.length === 0
+
+	return (
+		<div className="space-y-6">
+			<div>
+				<h2 className="text-3xl font-bold">Trash</h2>
+				<p className="text-muted-foreground">
+					{trash && trash.retention_days > 0
+						? `Deleted receipts and files are removed for good after ${trash.retention_days} day(s)`
+						: 'Deleted receipts and files stay here until they are deleted for good'}
+				</p>
+			</div>
+
+			{error && <div className="p-3 text-sm rounded-md bg-destructive/10 text-destructive">{error}</div>}
+
+			{loading ? (
+				<p className="text-muted-foreground">Loading...</p>
+			) : isEmpty ? (
+				<p className="text-muted-foreground">The trash is empty</p>
+			) : (
+				trash && (
+					<>
+						{trash.receipts.length > 0 && (
+							<Card>
+								<CardHeader>
+									<CardTitle>Receipts</CardTitle>
+									<CardDescription>Restoring a receipt brings back the files it had when it was deleted</CardDescription>
+								</CardHeader>
+								<CardContent className="space-y-3">
+									{trash.receipts.map(receipt => (
+										<div key={receipt.id} className="flex flex-col gap-3 p-3 border rounded-md md:flex-row md:items-center md:justify-between">
+											<div className="min-w-0">
+												<p className="font-medium truncate">
+													{receipt.vendor || 'No provider'} · {formatCurrency(receipt.amount)}
+												</p>
+												<p className="text-sm text-muted-foreground">
+													{formatDate(receipt.date)} · {receipt.user} · {receipt.type}
+												</p>
+												<p className="text-xs truncate text-muted-foreground">
+													{formatDeletedAt(receipt.deleted_at)} ·{' '}
+													{receipt.files.map(file => file.original_filename).join(', ') || 'No files'}
+												</p>
+											</div>
+											{canEdit && (
+												<ItemActions
+													disabled={busyKey === `receipt-${receipt.id}`}
+													onRestore={() => handleRestoreReceipt(receipt)}
+													onDelete={() => handleDeleteReceipt(receipt)}
+												/>
+											)}
+										</div>
+									))}
+								</CardContent>
+							</Card>
+						)}
+
+						{trash.files.length > 0 && (
+							<Card>
+								<CardHeader>
+									<CardTitle>Files</CardTitle>
+									<CardDescription>Files deleted from receipts that are still in use</CardDescription>
+								</CardHeader>
+								<CardContent className="space-y-3">
+									{trash.files.map(file => (
+										<div key={file.id} className="flex flex-col gap-3 p-3 border rounded-md md:flex-row md:items-center md:justify-between">
+											<div className="min-w-0">
+												<p className="font-medium truncate">{file.original_filename}</p>
+												<p className="text-sm text-muted-foreground">
+													{file.receipt.vendor || 'No provider'} · {formatDate(file.receipt.date)} · {file.receipt.user}
+												</p>
+												<p className="text-xs text-muted-foreground">{formatDeletedAt(file.deleted_at)}</p>
+											</div>
+											{canEdit && (
+												<ItemActions
+													disabled={busyKey === `file-${file.id}`}
+													onRestore={() => handleRestoreFile(file)}
+													onDelete={() => handleDeleteFile(file)}
+												/>
+											)}
+										</div>
+									))}
+								</CardContent>
+							</Card>
+						)}
+					</>
+				)
+			)}
+
+			{ConfirmDialog}
+		</div>
+	)
+}
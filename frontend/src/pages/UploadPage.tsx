@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { useNavigate, Link } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import {
@@ -12,6 +12,7 @@ import {
 	User,
 	ReceiptType,
 	ReceiptTypeGroup,
+	ReceiptTextSuggestions,
 } from '../lib/api'
 import { useToast } from '../components/ui/use-toast'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
@@ -21,9 +22,11 @@ import { Label } from '../components/ui/label'
 import { Textarea } from '../components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue, SelectGroup, SelectLabel } from '../components/ui/select'
 import { DatePicker } from '../components/DatePicker'
+import { useConfirmDialog } from '../components/ConfirmDialog'
 import { getBadgeClassName, getBorderClassName } from '../components/ui/color-picker'
-import { Upload, X, File } from 'lucide-react'
+import { Upload, X, File, ScanText } from 'lucide-react'
 import { cn } from '../lib/utils'
+import { describeDuplicateMatches, getDuplicateUploadMatches } from '../lib/duplicates'
 
 interface UploadFormData {
 	user_id?: number
@@ -37,9 +40,17 @@ interface UploadFormData {
 	flag_ids: number[]
 }
 
+const SUGGESTION_FIELDS: Array<{ key: keyof ReceiptTextSuggestions; label: string }> = [
+	{ key: 'vendor', label: 'Provider Name' },
+	{ key: 'date', label: 'Date of Service' },
+	{ key: 'amount', label: 'Amount Paid' },
+	{ key: 'provider_address', label: 'Provider Address' },
+]
+
 export default function UploadPage() {
 	const navigate = useNavigate()
 	const { toast } = useToast()
+	const { confirm, ConfirmDialog } = useConfirmDialog()
 	const [files, setFiles] = useState<File[]>([])
 	const [filePreviews, setFilePreviews] = useState<Map<number, string>>(new Map())
 	const [flags, setFlags] = useState<Flag[]>([])
@@ -49,6 +60,9 @@ export default function UploadPage() {
 	const [loading, setLoading] = useState(false)
 	const [error, setError] = useState<string | null>(null)
 	const [quickVendors, setQuickVendors] = useState<Array<{ vendor: string; count: number }>>([])
+	const [suggestions, setSuggestions] = useState<ReceiptTextSuggestions | null>(null)
+	const [scanning, setScanning] = useState(false)
+	const scannedFileRef = useRef<File | null>(null)
 
 	const {
 		register,
@@ -98,6 +112,58 @@ export default function UploadPage() {
 		loadQuickVendors()
 	}, [setValue])
 
+	// Read text from the first image or PDF so its fields can be suggested
+	useEffect(() => {
+		const firstFile = files.find(file => file.type.startsWith('image/') || file.type === 'application/pdf') || null
+		if (firstFile === scannedFileRef.current) {
+			return
+		}
+		scannedFileRef.current = firstFile
+		setSuggestions(null)
+		if (!firstFile) {
+			setScanning(false)
+			return
+		}
+
+		setScanning(true)
+		receiptsApi
+			.extractText(firstFile)
+			.then(response => {
+				if (scannedFileRef.current === firstFile) {
+					setSuggestions(response.data.suggestions)
+				}
+			})
+			.catch(err => {
+				// Silently fail - suggestions are optional
+				console.error('Failed to read text from file:', err)
+			})
+			.finally(() => {
+				if (scannedFileRef.current === firstFile) {
+					setScanning(false)
+				}
+			})
+	}, [files])
+
+	const formatSuggestion = (key: keyof ReceiptTextSuggestions, value: string | number) => {
+		return key === 'amount' ? `$${Number(value).toFixed(2)}` : String(value)
+	}
+
+	const applySuggestions = (keys: Array<keyof ReceiptTextSuggestions>) => {
+		if (!suggestions) return
+		const remaining = { ...suggestions }
+		for (const key of keys) {
+			const value = suggestions[key]
+			if (value === undefined) continue
+			if (key === 'amount') {
+				setValue('amount', Number(value).toFixed(2), { shouldValidate: true })
+			} else {
+				setValue(key, String(value), { shouldValidate: true })
+			}
+			delete remaining[key]
+		}
+		setSuggestions(remaining)
+	}
+
 	const loadQuickVendors = async () => {
 		try {
 			const response = await receiptsApi.getFrequentVendors()
@@ -261,7 +327,24 @@ export default function UploadPage() {
 				flag_ids: selectedFlagIds,
 			}
 
-			await receiptsApi.create(receiptData, files)
+			let response
+			try {
+				response = await receiptsApi.create(receiptData, files)
+			} catch (err) {
+				// Files that are already stored are only uploaded again once confirmed
+				const duplicates = getDuplicateUploadMatches(err)
+				if (
+					!duplicates ||
+					!(await confirm({
+						title: 'Duplicate Receipt',
+						message: `These files are already stored with ${describeDuplicateMatches(duplicates)}. Upload them anyway?`,
+						confirmText: 'Upload Anyway',
+					}))
+				) {
+					throw err
+				}
+				response = await receiptsApi.create(receiptData, files, true)
+			}
 
 			// Clean up all object URLs
 			filePreviews.forEach(url => {
@@ -275,9 +358,12 @@ export default function UploadPage() {
 			reset()
 
 			// Show success toast and navigate
+			const possibleDuplicates = response.data.possible_duplicates?.filter(match => match.reason === 'similar_image')
 			toast({
 				title: 'Success',
-				description: 'Receipt created successfully',
+				description: possibleDuplicates?.length
+					? `Receipt created successfully. It looks similar to ${describeDuplicateMatches(possibleDuplicates)}`
+					: 'Receipt created successfully',
 			})
 			navigate('/')
 		} catch (err: any) {
@@ -375,6 +461,46 @@ export default function UploadPage() {
 											})}
 										</div>
 									)}
+									{(() => {
+										const available = SUGGESTION_FIELDS.filter(field => suggestions?.[field.key] !== undefined)
+										if (!scanning && available.length === 0) return null
+										return (
+											<div className="p-3 mt-4 space-y-2 border rounded-lg">
+												<div className="flex items-center justify-between gap-2">
+													<div className="flex items-center gap-2 text-sm font-medium">
+														<ScanText className="w-4 h-4" />
+														Suggested from file text
+													</div>
+													{!scanning && available.length > 1 && (
+														<Button type="button" variant="outline" size="sm" onClick={() => applySuggestions(available.map(field => field.key))}>
+															Use All
+														</Button>
+													)}
+												</div>
+												{scanning ? (
+													<p className="text-sm text-muted-foreground">Reading text from file...</p>
+												) : (
+													available.map(field => (
+														<div key={field.key} className="flex items-center justify-between gap-2 text-sm">
+															<span className="min-w-0 truncate">
+																<span className="text-muted-foreground">{field.label}:</span>{' '}
+																{formatSuggestion(field.key, suggestions![field.key]!)}
+															</span>
+															<Button
+																type="button"
+																variant="ghost"
+																size="sm"
+																onClick={() => applySuggestions([field.key])}
+																aria-label={`Use suggested ${field.label.toLowerCase()}`}
+															>
+																Use
+															</Button>
+														</div>
+													))
+												)}
+											</div>
+										)
+									})()}
 								</div>
 
 								{/* HSA-Compliant Fields */}
@@ -661,6 +787,7 @@ export default function UploadPage() {
 					</div>
 				)}
 			</div>
+			{ConfirmDialog}
 		</div>
 	)
 }